@@ -7,19 +7,21 @@
  */
 
 import { IntentParserStrategy } from '../../domain/intents/strategies/IntentParserStrategy';
-import { DomainHandlerRegistry } from '../../domain/handlers/DomainHandlerRegistry';
-import { EnhancedIntent } from '../../domain/intents/entities/EnhancedIntent';
+import { ALL_NODES, NodeRegistry } from '../../domain/node/NodeRegistry';
+import { EnhancedIntent, LightningDomain } from '../../domain/intents/entities/EnhancedIntent';
 import logger from '../../core/logging/logger';
 import { sanitizeError } from '../../core/errors/sanitize';
-import { ChannelQueryResult } from '../../domain/handlers/ChannelDomainHandler';
+import { DomainQueryResult } from '../../domain/handlers/DomainHandler';
 
 /**
- * Response from a Lightning Network query (internal type)
+ * Response from a Lightning Network query
  */
-interface QueryResponse {
+export interface QueryResponse {
   text: string;
-  data: ChannelQueryResult | { error: string };
+  data: DomainQueryResult | { error: string };
   intent: EnhancedIntent;
+  /** Name of the node that was queried, or "all" */
+  node?: string;
 }
 
 /**
@@ -29,62 +31,77 @@ export class LightningQueryProcessor {
   /**
    * Create a new Lightning query processor
    * @param intentParser The intent parser to use
-   * @param handlerRegistry The domain handler registry to use
+   * @param nodes The nodes to query, with their domain handlers
    */
   constructor(
     private readonly intentParser: IntentParserStrategy,
-    private readonly handlerRegistry: DomainHandlerRegistry
+    private readonly nodes: NodeRegistry
   ) {}
 
   /**
    * Process a natural language query
    * @param query The query to process
+   * @param domain Optional domain to scope the query to (e.g. from a domain-specific tool)
+   * @param node Optional name of the node to query, "all" to query all nodes at once.
+   * Defaults to the first configured node.
    * @returns Promise resolving to the query response
    */
-  async processQuery(query: string): Promise<QueryResponse> {
+  async processQuery(
+    query: string,
+    domain?: LightningDomain,
+    node?: string
+  ): Promise<QueryResponse> {
+    let intent: EnhancedIntent;
     try {
       logger.info('Processing Lightning Network query', {
         component: 'lightning-query-processor',
         query,
+        domain,
+        node,
       });
 
       // Parse the intent
-      const intent = this.intentParser.parseIntent(query);
+      intent = this.intentParser.parseIntent(query, domain);
       logger.debug('Intent parsed', {
         component: 'lightning-query-processor',
         domain: intent.domain,
         operation: intent.operation,
       });
+    } catch (error) {
+      return this.createErrorResponse(error, query, node);
+    }
 
-      // Get the appropriate handler
-      const handler = this.handlerRegistry.getHandlerForIntent(intent);
-      logger.debug('Handler found', {
-        component: 'lightning-query-processor',
-        handlerType: handler.constructor.name,
-      });
+    return this.processIntent(intent, node);
+  }
 
-      // Execute the handler
-      const result = await handler.handle(intent);
+  /**
+   * Process an intent built from typed tool arguments rather than parsed
+   * from a natural language query
+   * @param intent The intent to process
+   * @param node Optional name of the node to query, "all" to query all nodes at once.
+   * Defaults to the first configured node.
+   * @returns Promise resolving to the query response
+   */
+  async processIntent(intent: EnhancedIntent, node?: string): Promise<QueryResponse> {
+    try {
+      // Execute the intent on the requested node, or on all nodes
+      const result =
+        node === ALL_NODES
+          ? await this.handleOnAllNodes(intent)
+          : await this.handleOnNode(intent, node);
       logger.debug('Handler executed', {
         component: 'lightning-query-processor',
         resultType: typeof result,
       });
 
       // Extract the formatted text from the result
-      let text = '';
-      if (result.formattedResults) {
-        const operation = intent.operation;
-        // Use operation-specific format if available, otherwise fallback to list
-        if (operation === 'liquidity' && result.formattedResults.liquidity) {
-          text = result.formattedResults.liquidity;
-        } else if (result.formattedResults.list) {
-          text = result.formattedResults.list;
-        }
-      }
+      let text = this.getFormattedText(result, intent);
 
       // If we don't have formatted text, use a generic response
       if (!text) {
-        text = `I found information about ${result.channels?.length || 0} channels.`;
+        text = Array.isArray(result.channels)
+          ? `I found information about ${result.channels.length} channels.`
+          : `I found no ${intent.domain} information for your query.`;
       }
 
       // Return the response
@@ -92,26 +109,113 @@ export class LightningQueryProcessor {
         text,
         data: result,
         intent,
+        node: node === ALL_NODES ? node : this.nodes.getNode(node).name,
       };
     } catch (error) {
-      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
-      logger.error('Error processing query', sanitizedError, {
-        component: 'lightning-query-processor',
+      return this.createErrorResponse(error, intent.query, node);
+    }
+  }
+
+  /**
+   * Create the response to a query that could not be processed
+   * @param error The error that occurred
+   * @param query The query that was processed
+   * @param node The requested node, if any
+   * @returns The error response
+   * @private
+   */
+  private createErrorResponse(error: unknown, query: string, node?: string): QueryResponse {
+    const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+    logger.error('Error processing query', sanitizedError, {
+      component: 'lightning-query-processor',
+      query,
+    });
+
+    return {
+      text: `Sorry, I couldn't process your query: ${sanitizedError.message}`,
+      data: { error: sanitizedError.message },
+      intent: {
+        domain: 'unknown',
+        operation: 'unknown',
+        attributes: new Map(),
         query,
-      });
+        error: sanitizedError,
+      },
+      node,
+    };
+  }
 
-      // Return an error response
-      return {
-        text: `Sorry, I couldn't process your query: ${sanitizedError.message}`,
-        data: { error: sanitizedError.message },
-        intent: {
-          domain: 'unknown',
-          operation: 'unknown',
-          attributes: new Map(),
-          query,
-          error: sanitizedError,
-        },
-      };
+  /**
+   * Handle an intent on a single node
+   * @param intent The intent to handle
+   * @param node Name of the node, or undefined for the default node
+   * @returns Promise resolving to the handler's result
+   * @private
+   */
+  private async handleOnNode(intent: EnhancedIntent, node?: string): Promise<DomainQueryResult> {
+    const { handlers } = this.nodes.getNode(node);
+
+    // Get the appropriate handler
+    const handler = handlers.getHandlerForIntent(intent);
+    logger.debug('Handler found', {
+      component: 'lightning-query-processor',
+      handlerType: handler.constructor.name,
+      node,
+    });
+
+    return handler.handle(intent);
+  }
+
+  /**
+   * Handle an intent on every node and merge the results
+   * @param intent The intent to handle
+   * @returns Promise resolving to the merged result, or to the results per node
+   * if the domain's handler cannot merge them
+   * @private
+   */
+  private async handleOnAllNodes(intent: EnhancedIntent): Promise<DomainQueryResult> {
+    const nodes = this.nodes.getNodes();
+    const handlers = nodes.map(({ handlers }) => handlers.getHandlerForIntent(intent));
+
+    // All nodes use the same handler types, so the first one merges the results
+    const aggregate = handlers[0]?.aggregate;
+    const nodeIntent =
+      aggregate && handlers[0].getNodeIntent ? handlers[0].getNodeIntent(intent) : intent;
+
+    const results = await Promise.all(
+      nodes.map(async ({ name }, index) => ({
+        node: name,
+        result: await handlers[index].handle(nodeIntent),
+      }))
+    );
+
+    if (aggregate) {
+      return aggregate.call(handlers[0], results, intent);
+    }
+
+    const text = results
+      .map(({ node, result }) => `${node}:\n${this.getFormattedText(result, intent)}`)
+      .join('\n\n');
+
+    return {
+      nodes: Object.fromEntries(results.map(({ node, result }) => [node, result])),
+      formattedResults: { [intent.operation]: text },
+    };
+  }
+
+  /**
+   * Get the text of a result for the intent's operation
+   * @param result The handler's result
+   * @param intent The handled intent
+   * @returns The formatted text, or an empty string if there is none
+   * @private
+   */
+  private getFormattedText(result: DomainQueryResult, intent: EnhancedIntent): string {
+    if (!result.formattedResults) {
+      return '';
     }
+
+    // Use operation-specific format if available, otherwise fallback to list
+    return result.formattedResults[intent.operation] || result.formattedResults.list || '';
   }
 }
@@ -18,7 +18,9 @@ import logger from './core/logging/logger';
  */
 export async function createMcpServer(config: Config): Promise<McpServer> {
   logger.info(
-    `Creating MCP server (implementation: ${config.node.implementation}, method: ${config.node.connectionMethod})`
+    `Creating MCP server (nodes: ${config.nodes
+      .map((node) => `${node.name} (${node.implementation}, ${node.connectionMethod})`)
+      .join(', ')})`
   );
 
   // Create the MCP server using the factory method
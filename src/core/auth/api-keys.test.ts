@@ -0,0 +1,66 @@
+/**
+ * Unit tests for API key hashing, lookup and scopes
+ */
+
+import {
+  ApiKeyConfig,
+  findApiKey,
+  getDomainScope,
+  getDomainScopes,
+  hashApiKey,
+  hasScope,
+} from './api-keys';
+
+describe('API keys', () => {
+  const apiKeys: ApiKeyConfig[] = [
+    { name: 'dashboard', hash: hashApiKey('dashboard-key'), scopes: ['channels:read'] },
+    { name: 'operator', hash: hashApiKey('operator-key'), scopes: ['admin'] },
+  ];
+
+  describe('hashApiKey', () => {
+    it('should return the hex encoded SHA-256 hash', () => {
+      expect(hashApiKey('test')).toBe(
+        '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08'
+      );
+    });
+  });
+
+  describe('findApiKey', () => {
+    it('should find the key matching the hash', () => {
+      expect(findApiKey(apiKeys, 'operator-key')?.name).toBe('operator');
+    });
+
+    it('should not match unknown keys or hashes used as keys', () => {
+      expect(findApiKey(apiKeys, 'unknown-key')).toBeUndefined();
+      expect(findApiKey(apiKeys, apiKeys[0].hash)).toBeUndefined();
+    });
+  });
+
+  describe('hasScope', () => {
+    it('should grant the domain scopes of a key', () => {
+      expect(hasScope(apiKeys[0].scopes, getDomainScope('channels'))).toBe(true);
+      expect(hasScope(apiKeys[0].scopes, getDomainScope('payments'))).toBe(false);
+    });
+
+    it('should grant every scope to admin keys', () => {
+      expect(hasScope(apiKeys[1].scopes, getDomainScope('payments'))).toBe(true);
+    });
+  });
+
+  describe('getDomainScopes', () => {
+    it('should need the domain scope to query a domain', () => {
+      expect(getDomainScopes('payments')).toEqual(['payments:read']);
+      expect(getDomainScopes('channels')).toEqual(['channels:read']);
+    });
+
+    it('should also need the channel scope for domains answering with channel data', () => {
+      const forwardsOnly = ['forwards:read'];
+
+      expect(getDomainScopes('forwards')).toEqual(['forwards:read', 'channels:read']);
+      expect(getDomainScopes('peers')).toEqual(['peers:read', 'channels:read']);
+      expect(getDomainScopes('forwards').every((scope) => hasScope(forwardsOnly, scope))).toBe(
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * API keys - Hashing, lookup and scopes of the keys clients authenticate with
+ *
+ * Keys are configured as SHA-256 hashes, so the configuration never holds a
+ * usable key. Each key grants scopes that decide which data its client may
+ * read: one read scope per query domain, or admin for everything.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { LightningDomain } from '../../domain/intents/entities/EnhancedIntent';
+
+/**
+ * Scope granting access to all data
+ */
+export const ADMIN_SCOPE = 'admin';
+
+/**
+ * Scopes an API key can be granted
+ */
+export const API_KEY_SCOPES = [
+  'channels:read',
+  'nodes:read',
+  'transactions:read',
+  'wallet:read',
+  'invoices:read',
+  'payments:read',
+  'forwards:read',
+  'peers:read',
+  ADMIN_SCOPE,
+] as const;
+
+/**
+ * Scope an API key can be granted
+ */
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * A configured API key
+ */
+export interface ApiKeyConfig {
+  /** Name identifying the client in logs and errors */
+  name: string;
+  /** Hex encoded SHA-256 hash of the key */
+  hash: string;
+  /** Scopes granted to the key */
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Hash an API key the way configured hashes are stored
+ * @param apiKey The API key
+ * @returns The hex encoded SHA-256 hash
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey, 'utf8').digest('hex');
+}
+
+/**
+ * Find the configured key matching an API key
+ * @param apiKeys The configured keys
+ * @param apiKey The API key presented by a client
+ * @returns The matching key, or undefined if none matches
+ */
+export function findApiKey(apiKeys: ApiKeyConfig[], apiKey: string): ApiKeyConfig | undefined {
+  const hash = Buffer.from(hashApiKey(apiKey), 'hex');
+
+  // Compare in constant time, so response times do not reveal partial matches
+  return apiKeys.find(
+    (config) =>
+      config.hash.length === hash.length * 2 &&
+      timingSafeEqual(Buffer.from(config.hash, 'hex'), hash)
+  );
+}
+
+/**
+ * Get the scope needed to read a domain's data
+ * @param domain The query domain
+ * @returns The domain's read scope
+ */
+export function getDomainScope(domain: Exclude<LightningDomain, 'unknown'>): ApiKeyScope {
+  return `${domain}:read`;
+}
+
+/**
+ * Domains whose answers include the node's channels next to their own data:
+ * forwards are broken down per channel and peers list their channels
+ */
+const CHANNEL_READING_DOMAINS: LightningDomain[] = ['forwards', 'peers'];
+
+/**
+ * Get the scopes needed to answer queries about a domain
+ * @param domain The query domain
+ * @returns The domain's read scope, and the channel read scope if its answers include channels
+ */
+export function getDomainScopes(domain: Exclude<LightningDomain, 'unknown'>): ApiKeyScope[] {
+  return CHANNEL_READING_DOMAINS.includes(domain)
+    ? [getDomainScope(domain), getDomainScope('channels')]
+    : [getDomainScope(domain)];
+}
+
+/**
+ * Check whether granted scopes include a scope
+ * @param scopes The granted scopes
+ * @param scope The needed scope
+ * @returns True if the scope or the admin scope is granted
+ */
+export function hasScope(scopes: readonly string[], scope: ApiKeyScope): boolean {
+  return scopes.includes(ADMIN_SCOPE) || scopes.includes(scope);
+}
@@ -5,6 +5,7 @@
 
 import { jest } from '@jest/globals';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { getConfig } from './index';
 import logger from '../logging/logger';
@@ -67,25 +68,95 @@ describe('Configuration', () => {
       const config = getConfig();
 
       // Assert
-      expect(config).toEqual({
-        node: {
-          implementation: NodeImplementation.LND,
-          connectionMethod: ConnectionMethod.GRPC,
-          lnd: {
-            tlsCertPath: '/path/to/tls.cert',
-            macaroonPath: '/path/to/macaroon',
-            host: 'lnd.example.com',
-            port: '10010',
-          },
+      const node = {
+        implementation: NodeImplementation.LND,
+        connectionMethod: ConnectionMethod.GRPC,
+        lnd: {
+          tlsCertPath: '/path/to/tls.cert',
+          macaroonPath: '/path/to/macaroon',
+          host: 'lnd.example.com',
+          port: '10010',
         },
+      };
+      expect(config).toEqual({
+        node,
+        nodes: [{ name: 'default', ...node }],
         server: {
+          transport: 'stdio',
+          host: '127.0.0.1',
           port: 3000,
           logLevel: 'info',
           environment: 'test',
         },
+        auth: { apiKeys: [] },
+        channels: {
+          health: { minLocalRatio: 0.2, maxLocalRatio: 0.8 },
+          fees: { strategy: 'balanced' },
+        },
+        history: {
+          directory: undefined,
+          intervalMs: 3600000,
+          retention: { maxAgeDays: 90, fullResolutionDays: 7 },
+        },
+        queries: { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+      });
+    });
+
+    test('returns clnrest configuration for CLN nodes', () => {
+      // Arrange
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.CLN;
+      process.env.CLN_REST_URL = 'https://cln.example.com:3010';
+      process.env.CLN_RUNE = 'test-rune';
+
+      // Act
+      const config = getConfig();
+
+      // Assert
+      expect(config.node.connectionMethod).toBe(ConnectionMethod.CLN_REST);
+      expect(config.node.cln).toEqual({
+        restUrl: 'https://cln.example.com:3010',
+        rune: 'test-rune',
+        caCertPath: undefined,
       });
     });
 
+    test('throws error if clnrest rune is missing', () => {
+      // Arrange
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.CLN;
+      process.env.CONNECTION_TYPE = 'cln-rest';
+      process.env.CLN_REST_URL = 'https://cln.example.com:3010';
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('Missing required CLN configuration');
+    });
+
+    test('returns Eclair HTTP configuration for Eclair nodes', () => {
+      // Arrange
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.ECLAIR;
+      process.env.ECLAIR_API_URL = 'http://eclair.example.com:8080';
+      process.env.ECLAIR_API_PASSWORD = 'test-password';
+
+      // Act
+      const config = getConfig();
+
+      // Assert
+      expect(config.node.connectionMethod).toBe(ConnectionMethod.ECLAIR_HTTP);
+      expect(config.node.eclair).toEqual({
+        apiUrl: 'http://eclair.example.com:8080',
+        password: 'test-password',
+      });
+    });
+
+    test('throws error if Eclair API password is missing', () => {
+      // Arrange
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.ECLAIR;
+      process.env.CONNECTION_TYPE = 'eclair-http';
+      process.env.ECLAIR_API_URL = 'http://eclair.example.com:8080';
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('Missing required Eclair configuration');
+    });
+
     test('throws error if TLS certificate file does not exist', () => {
       // Arrange
       process.env.CONNECTION_TYPE = 'lnd-direct';
@@ -124,6 +195,49 @@ describe('Configuration', () => {
       expect(logger.error).toHaveBeenCalled();
     });
 
+    test('reads the LND REST macaroon from its file, however the path looks', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-rest';
+      process.env.LND_REST_URL = 'https://localhost:8080';
+      process.env.LND_REST_MACAROON_PATH = 'deadbeef';
+
+      // Act
+      const config = getConfig();
+
+      // Assert
+      expect(config.node.lndRest).toEqual({
+        url: 'https://localhost:8080',
+        macaroonPath: 'deadbeef',
+        macaroonHex: undefined,
+        tlsCertPath: undefined,
+      });
+      expect(fs.existsSync).toHaveBeenCalledWith('deadbeef');
+    });
+
+    test('rejects LND REST macaroons that are not even-length hex strings', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-rest';
+      process.env.LND_REST_URL = 'https://localhost:8080';
+      process.env.LND_REST_MACAROON_HEX = '0201036c6e6';
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('the hex value must be an even-length hex string');
+
+      process.env.LND_REST_MACAROON_HEX = '/path/to/readonly.macaroon';
+      expect(() => getConfig()).toThrow('the hex value must be an even-length hex string');
+    });
+
+    test('rejects an LND REST macaroon given both as a file and hex encoded', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-rest';
+      process.env.LND_REST_URL = 'https://localhost:8080';
+      process.env.LND_REST_MACAROON_PATH = '/path/to/readonly.macaroon';
+      process.env.LND_REST_MACAROON_HEX = '0201036c6e64';
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('set either the file path or the hex value, not both');
+    });
+
     test('validates port numbers', () => {
       // Arrange
       process.env.CONNECTION_TYPE = 'lnd-direct';
@@ -142,6 +256,89 @@ describe('Configuration', () => {
       expect(() => getConfig()).toThrow('Invalid server port');
     });
 
+    test('validates MCP transport', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-direct';
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.LND;
+      process.env.LND_TLS_CERT_PATH = '/test/fixtures/test-cert.pem';
+      process.env.LND_MACAROON_PATH = '/test/fixtures/test-macaroon';
+
+      // Set invalid transport
+      process.env.MCP_TRANSPORT = 'grpc';
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('Invalid MCP transport: grpc');
+    });
+
+    test('reads the channel health criteria', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-direct';
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.LND;
+      process.env.LND_TLS_CERT_PATH = '/test/fixtures/test-cert.pem';
+      process.env.LND_MACAROON_PATH = '/test/fixtures/test-macaroon';
+      process.env.CHANNEL_HEALTH_MIN_LOCAL_RATIO = '0.3';
+
+      // Act & Assert
+      expect(getConfig().channels.health).toEqual({ minLocalRatio: 0.3, maxLocalRatio: 0.8 });
+
+      // Ratios have to be numbers, with the minimum below the maximum
+      process.env.CHANNEL_HEALTH_MAX_LOCAL_RATIO = 'high';
+      expect(() => getConfig()).toThrow('Invalid CHANNEL_HEALTH_MAX_LOCAL_RATIO: high');
+      process.env.CHANNEL_HEALTH_MAX_LOCAL_RATIO = '0.25';
+      expect(() => getConfig()).toThrow('Invalid health criteria');
+    });
+
+    test('reads the fee recommendation strategy', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-direct';
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.LND;
+      process.env.LND_TLS_CERT_PATH = '/test/fixtures/test-cert.pem';
+      process.env.LND_MACAROON_PATH = '/test/fixtures/test-macaroon';
+      process.env.CHANNEL_FEE_STRATEGY = 'drain-protecting';
+
+      // Act & Assert
+      expect(getConfig().channels.fees).toEqual({ strategy: 'drain-protecting' });
+
+      process.env.CHANNEL_FEE_STRATEGY = 'greedy';
+      expect(() => getConfig()).toThrow('Invalid CHANNEL_FEE_STRATEGY: greedy');
+    });
+
+    test('reads the snapshot settings', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-direct';
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.LND;
+      process.env.LND_TLS_CERT_PATH = '/test/fixtures/test-cert.pem';
+      process.env.LND_MACAROON_PATH = '/test/fixtures/test-macaroon';
+      process.env.SNAPSHOT_DIR = '/var/lib/lightning-mcp/snapshots';
+      process.env.SNAPSHOT_INTERVAL_MINUTES = '15';
+      process.env.SNAPSHOT_FULL_RESOLUTION_DAYS = '0';
+
+      // Act & Assert
+      expect(getConfig().history).toEqual({
+        directory: '/var/lib/lightning-mcp/snapshots',
+        intervalMs: 900000,
+        retention: { maxAgeDays: 90, fullResolutionDays: 0 },
+      });
+
+      process.env.SNAPSHOT_RETENTION_DAYS = '0';
+      expect(() => getConfig()).toThrow('Invalid SNAPSHOT_RETENTION_DAYS: 0');
+    });
+
+    test('reads the time zone of queries', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnd-direct';
+      process.env.NODE_IMPLEMENTATION = NodeImplementation.LND;
+      process.env.LND_TLS_CERT_PATH = '/test/fixtures/test-cert.pem';
+      process.env.LND_MACAROON_PATH = '/test/fixtures/test-macaroon';
+      process.env.QUERY_TIMEZONE = 'Europe/Berlin';
+
+      // Act & Assert
+      expect(getConfig().queries).toEqual({ timeZone: 'Europe/Berlin' });
+
+      process.env.QUERY_TIMEZONE = 'Mars/Olympus_Mons';
+      expect(() => getConfig()).toThrow('Invalid QUERY_TIMEZONE: Mars/Olympus_Mons');
+    });
+
     test('validates LND port number', () => {
       // Arrange
       process.env.CONNECTION_TYPE = 'lnd-direct';
@@ -160,4 +357,211 @@ describe('Configuration', () => {
       expect(() => getConfig()).toThrow('Invalid LND port');
     });
   });
+
+  describe('node profiles', () => {
+    test('reads node profiles from indexed environment variables', () => {
+      // Arrange
+      process.env.NODE_1_NAME = 'alpha';
+      process.env.NODE_1_CONNECTION_TYPE = 'lnd-rest';
+      process.env.NODE_1_LND_REST_URL = 'https://alpha.example.com:8080';
+      process.env.NODE_1_LND_REST_MACAROON_HEX = '0201036c6e64';
+      process.env.NODE_2_NAME = 'beta';
+      process.env.NODE_2_IMPLEMENTATION = NodeImplementation.CLN;
+      process.env.NODE_2_CLN_REST_URL = 'https://beta.example.com:3010';
+      process.env.NODE_2_CLN_RUNE = 'test-rune';
+
+      // Act
+      const config = getConfig();
+
+      // Assert
+      expect(config.nodes.map((node) => [node.name, node.connectionMethod])).toEqual([
+        ['alpha', ConnectionMethod.REST],
+        ['beta', ConnectionMethod.CLN_REST],
+      ]);
+      expect(config.nodes[1].cln).toEqual({
+        restUrl: 'https://beta.example.com:3010',
+        rune: 'test-rune',
+        caCertPath: undefined,
+      });
+      expect(config.node).toEqual({
+        implementation: NodeImplementation.LND,
+        connectionMethod: ConnectionMethod.REST,
+        lnd: expect.any(Object),
+        lndRest: {
+          url: 'https://alpha.example.com:8080',
+          macaroonPath: undefined,
+          macaroonHex: '0201036c6e64',
+          tlsCertPath: undefined,
+        },
+      });
+    });
+
+    test('reads node profiles from the profiles file', () => {
+      // Arrange
+      process.env.NODES_CONFIG_PATH = '/path/to/nodes.json';
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({
+          nodes: [
+            {
+              name: 'alpha',
+              NODE_IMPLEMENTATION: 'eclair',
+              ECLAIR_API_URL: 'http://alpha.example.com:8080',
+              ECLAIR_API_PASSWORD: 'test-password',
+            },
+            { name: 'beta', CONNECTION_TYPE: 'lnc', LNC_CONNECTION_STRING: 'mailbox:443' },
+          ],
+        })
+      );
+
+      // Act
+      const config = getConfig();
+
+      // Assert
+      expect(fs.readFileSync).toHaveBeenCalledWith('/path/to/nodes.json', 'utf8');
+      expect(config.nodes.map((node) => node.name)).toEqual(['alpha', 'beta']);
+      expect(config.nodes[0].eclair).toEqual({
+        apiUrl: 'http://alpha.example.com:8080',
+        password: 'test-password',
+      });
+      expect(config.nodes[1].lnc).toMatchObject({ connectionString: 'mailbox:443' });
+    });
+
+    test('expands the home directory in the LNC credentials path', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnc';
+      process.env.LNC_CONNECTION_STRING = 'mailbox:443';
+      process.env.LNC_CREDENTIALS_PATH = '~/.lightning-mcp-server/lnc.json';
+
+      // Act
+      const config = getConfig();
+
+      // Assert
+      expect(config.nodes[0].lnc?.credentialsPath).toBe(
+        `${os.homedir()}/.lightning-mcp-server/lnc.json`
+      );
+    });
+
+    test('names the node of an invalid profile', () => {
+      // Arrange
+      process.env.NODE_1_NAME = 'alpha';
+      process.env.NODE_1_CONNECTION_TYPE = 'cln-rest';
+      process.env.NODE_1_CLN_REST_URL = 'https://alpha.example.com:3010';
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('Node alpha: Missing required CLN configuration');
+    });
+
+    test('rejects duplicate and reserved node names', () => {
+      // Arrange
+      process.env.NODE_1_NAME = 'alpha';
+      process.env.NODE_1_CONNECTION_TYPE = 'lnc';
+      process.env.NODE_1_LNC_CONNECTION_STRING = 'mailbox:443';
+      process.env.NODE_2_NAME = 'alpha';
+      process.env.NODE_2_CONNECTION_TYPE = 'lnc';
+      process.env.NODE_2_LNC_CONNECTION_STRING = 'mailbox:443';
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('Duplicate node name: alpha');
+
+      process.env.NODE_2_NAME = 'all';
+      expect(() => getConfig()).toThrow('Invalid node name: all');
+    });
+
+    test('validates the name of a single node', () => {
+      // Arrange
+      process.env.CONNECTION_TYPE = 'lnc';
+      process.env.LNC_CONNECTION_STRING = 'mailbox:443';
+      process.env.NODE_NAME = 'routing-1';
+
+      // Act & Assert
+      expect(getConfig().nodes[0].name).toBe('routing-1');
+
+      process.env.NODE_NAME = '../routing';
+      expect(() => getConfig()).toThrow('Invalid node name: ../routing');
+
+      process.env.NODE_NAME = 'ALL';
+      expect(() => getConfig()).toThrow('Invalid node name: ALL');
+    });
+
+    test('rejects LNC nodes sharing a credentials file', () => {
+      // Arrange
+      process.env.NODE_1_NAME = 'alpha';
+      process.env.NODE_1_CONNECTION_TYPE = 'lnc';
+      process.env.NODE_1_LNC_CONNECTION_STRING = 'mailbox:443';
+      process.env.NODE_1_LNC_CREDENTIALS_PATH = '/path/to/lnc.json';
+      process.env.NODE_2_NAME = 'beta';
+      process.env.NODE_2_CONNECTION_TYPE = 'lnc';
+      process.env.NODE_2_LNC_CONNECTION_STRING = 'mailbox:443';
+
+      // Act & Assert
+      expect(getConfig().nodes.map((node) => node.lnc?.credentialsPath)).toEqual([
+        '/path/to/lnc.json',
+        undefined,
+      ]);
+
+      process.env.NODE_2_LNC_CREDENTIALS_PATH = '/path/to/lnc.json';
+      expect(() => getConfig()).toThrow('Nodes alpha and beta share an LNC session file');
+    });
+  });
+
+  describe('API keys', () => {
+    const hash = 'ab'.repeat(32);
+
+    beforeEach(() => {
+      process.env.CONNECTION_TYPE = 'lnc';
+      process.env.LNC_CONNECTION_STRING = 'mailbox:443';
+      process.env.MCP_API_KEYS_PATH = '/path/to/api-keys.json';
+    });
+
+    test('reads API keys from the keys file', () => {
+      // Arrange
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({
+          clients: [
+            { name: 'dashboard', hash: hash.toUpperCase(), scopes: ['channels:read'] },
+            { name: 'operator', hash, scopes: ['admin'] },
+          ],
+        })
+      );
+
+      // Act
+      const config = getConfig();
+
+      // Assert
+      expect(config.auth.apiKeys).toEqual([
+        { name: 'dashboard', hash, scopes: ['channels:read'] },
+        { name: 'operator', hash, scopes: ['admin'] },
+      ]);
+    });
+
+    test('rejects unknown scopes and invalid hashes', () => {
+      // Arrange
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({ clients: [{ name: 'dashboard', hash, scopes: ['channels:write'] }] })
+      );
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('Validation error');
+
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({ clients: [{ name: 'dashboard', hash: 'plain', scopes: ['admin'] }] })
+      );
+      expect(() => getConfig()).toThrow('Validation error');
+    });
+
+    test('rejects duplicate client names', () => {
+      // Arrange
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({
+          clients: [
+            { name: 'dashboard', hash, scopes: ['admin'] },
+            { name: 'dashboard', hash, scopes: ['admin'] },
+          ],
+        })
+      );
+
+      // Act & Assert
+      expect(() => getConfig()).toThrow('Duplicate client name: dashboard');
+    });
+  });
 });
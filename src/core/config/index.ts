@@ -1,80 +1,222 @@
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { z } from 'zod';
 import logger from '../logging/logger';
 import { sanitizeErrorMessage, sanitizeConfig } from '../errors/sanitize';
 import { loadEnvironment } from './environment';
+import { validateWithZod } from '../validation/zod-validators';
 import { NodeImplementation, ConnectionMethod } from '../../domain/node/ConnectionAuth';
+import { ALL_NODES, DEFAULT_NODE_NAME } from '../../domain/node/NodeRegistry';
+import {
+  HealthCriteria,
+  HealthCriteriaParams,
+} from '../../domain/channels/value-objects/HealthCriteria';
+import { FeeStrategy, FeeStrategySchema } from '../../domain/channels/schemas/fee-recommendation';
+import { API_KEY_SCOPES, ApiKeyConfig } from '../auth/api-keys';
+import { RetentionPolicy } from '../../domain/history/entities/Snapshot';
 
 // Load environment configuration
 loadEnvironment();
 
+/**
+ * Connection configuration of a node
+ */
+export interface NodeConfig {
+  /**
+   * Type of Lightning node implementation
+   * Currently LND, CLN and Eclair are supported
+   */
+  implementation: NodeImplementation;
+
+  /**
+   * Connection method to use
+   */
+  connectionMethod: ConnectionMethod;
+
+  /**
+   * LND gRPC connection configuration
+   */
+  lnd: {
+    /** Path to the TLS certificate file */
+    tlsCertPath: string;
+    /** Path to the macaroon file for authentication */
+    macaroonPath: string;
+    /** LND host address */
+    host: string;
+    /** LND port number */
+    port: string;
+  };
+
+  /**
+   * Lightning Node Connect configuration
+   */
+  lnc?: {
+    /** LNC connection string */
+    connectionString: string;
+    /** Optional pairing phrase */
+    pairingPhrase?: string;
+    /** Optional path of the file storing the session keys */
+    credentialsPath?: string;
+  };
+
+  /**
+   * LND REST API configuration
+   */
+  lndRest?: {
+    /** Base URL of the REST API */
+    url: string;
+    /** Path to the macaroon file, unless the macaroon is given hex encoded */
+    macaroonPath?: string;
+    /** Hex encoded macaroon, unless it is read from a file */
+    macaroonHex?: string;
+    /** Optional certificate pinned to verify the server */
+    tlsCertPath?: string;
+  };
+
+  /**
+   * Core Lightning clnrest configuration
+   */
+  cln?: {
+    /** Base URL of the clnrest server */
+    restUrl: string;
+    /** Rune authorizing the server's RPC calls */
+    rune: string;
+    /** Optional CA certificate for clnrest's self-signed certificate */
+    caCertPath?: string;
+  };
+
+  /**
+   * Eclair HTTP API configuration
+   */
+  eclair?: {
+    /** Base URL of the Eclair API */
+    apiUrl: string;
+    /** API password set with eclair.api.password */
+    password: string;
+  };
+}
+
+/**
+ * Named connection configuration of one of several nodes
+ */
+export interface NodeProfile extends NodeConfig {
+  /** Name the node is selected by in tool calls */
+  name: string;
+}
+
 /**
  * Configuration interface
  */
 export interface Config {
   /**
-   * Node connection configuration
+   * Node connection configuration of the default node
    */
-  node: {
-    /**
-     * Type of Lightning node implementation
-     * Currently only LND is supported
-     */
-    implementation: NodeImplementation;
-
-    /**
-     * Connection method to use
-     */
-    connectionMethod: ConnectionMethod;
-
-    /**
-     * LND gRPC connection configuration
-     */
-    lnd: {
-      /** Path to the TLS certificate file */
-      tlsCertPath: string;
-      /** Path to the macaroon file for authentication */
-      macaroonPath: string;
-      /** LND host address */
-      host: string;
-      /** LND port number */
-      port: string;
-    };
+  node: NodeConfig;
 
-    /**
-     * Lightning Node Connect configuration
-     */
-    lnc?: {
-      /** LNC connection string */
-      connectionString: string;
-      /** Optional pairing phrase */
-      pairingPhrase?: string;
-    };
-  };
+  /**
+   * Profiles of all configured nodes, starting with the default node
+   */
+  nodes: NodeProfile[];
 
   /**
    * Server configuration
    */
   server: {
-    /** Server port number */
+    /** Transport the MCP server is served over */
+    transport: McpTransportType;
+    /** Address the HTTP transport listens on */
+    host: string;
+    /** Server port number, used by the HTTP transport */
     port: number;
     /** Application logging level */
     logLevel: string;
     /** Current environment (development, test, production) */
     environment: string;
   };
+
+  /**
+   * Authentication of clients of the HTTP transport
+   */
+  auth: {
+    /** Keys clients authenticate with; empty to serve without authentication */
+    apiKeys: ApiKeyConfig[];
+  };
+
+  /**
+   * Channel analysis settings
+   */
+  channels: {
+    /** Local balance ratios between which channels are considered healthy */
+    health: HealthCriteriaParams;
+    fees: {
+      /** Strategy fees are recommended with */
+      strategy: FeeStrategy;
+    };
+  };
+
+  /**
+   * Snapshots of channels and balances kept to answer history queries
+   */
+  history: {
+    /** Directory the snapshots are stored in; no snapshots are taken without it */
+    directory?: string;
+    /** Time between snapshots, in milliseconds */
+    intervalMs: number;
+    retention: RetentionPolicy;
+  };
+
+  /**
+   * Natural language query settings
+   */
+  queries: {
+    /** IANA time zone that dates and days in queries are interpreted in */
+    timeZone: string;
+  };
 }
 
 /**
- * Validate required configuration values
+ * Transports the MCP server can be served over: stdio for a single local
+ * client, http for streamable HTTP (with SSE fallback) shared by several clients
  */
-function validateConfig(
-  _implementation: NodeImplementation,
-  connectionMethod: ConnectionMethod
-): void {
+export type McpTransportType = 'stdio' | 'http';
+
+/**
+ * Reads a node setting by its environment variable name, e.g. CONNECTION_TYPE
+ */
+type NodeSettings = (name: string) => string | undefined;
+
+/**
+ * Schema of the node profiles file. Each profile holds a name and the same
+ * settings as the environment, e.g. CONNECTION_TYPE or LND_REST_URL.
+ */
+const NodeProfilesFileSchema = z.object({
+  nodes: z
+    .array(z.object({ name: z.string() }).catchall(z.union([z.string(), z.number()])))
+    .min(1, 'At least one node profile is required'),
+});
+
+/**
+ * Schema of the API keys file, listing the clients with the hash and scopes
+ * of their key
+ */
+const ApiKeysFileSchema = z.object({
+  clients: z.array(
+    z.object({
+      name: z.string().regex(/^[\w-]+$/, 'Client names may only contain letters, digits, _ and -'),
+      hash: z.string().regex(/^[0-9a-f]{64}$/i, 'Hashes must be hex encoded SHA-256 hashes'),
+      scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required'),
+    })
+  ),
+});
+
+/**
+ * Validate required node configuration values
+ */
+function validateNodeConfig(settings: NodeSettings, connectionMethod: ConnectionMethod): void {
   // When using gRPC connection, check if required files exist
   if (connectionMethod === ConnectionMethod.GRPC) {
-    const tlsCertPath = process.env.LND_TLS_CERT_PATH;
-    const macaroonPath = process.env.LND_MACAROON_PATH;
+    const tlsCertPath = settings('LND_TLS_CERT_PATH');
+    const macaroonPath = settings('LND_MACAROON_PATH');
 
     if (!tlsCertPath || !macaroonPath) {
       throw new Error('Missing required LND configuration (tlsCertPath or macaroonPath)');
@@ -92,80 +234,469 @@ function validateConfig(
 
   // Validate LNC configuration if using LNC
   if (connectionMethod === ConnectionMethod.LNC) {
-    if (!process.env.LNC_CONNECTION_STRING) {
+    if (!settings('LNC_CONNECTION_STRING')) {
       throw new Error('Missing required LNC configuration (connectionString)');
     }
   }
 
-  // Validate port numbers
-  const port = parseInt(process.env.PORT || '', 10);
-  if (isNaN(port) || port <= 0 || port > 65535) {
-    throw new Error('Invalid server port');
+  // Validate REST configuration if using LND's REST API
+  if (connectionMethod === ConnectionMethod.REST) {
+    const macaroonPath = settings('LND_REST_MACAROON_PATH');
+    const macaroonHex = settings('LND_REST_MACAROON_HEX');
+
+    // Messages do not name the macaroon, as sanitized errors redact the word
+    if (!settings('LND_REST_URL') || (!macaroonPath && !macaroonHex)) {
+      throw new Error(
+        'Missing required LND REST configuration (url, and a file path or hex value)'
+      );
+    }
+
+    if (macaroonPath && macaroonHex) {
+      throw new Error(
+        'Invalid LND REST configuration: set either the file path or the hex value, not both'
+      );
+    }
+
+    if (macaroonPath && !existsSync(macaroonPath)) {
+      throw new Error('Macaroon file not found');
+    }
+
+    if (macaroonHex && !/^(?:[0-9a-f]{2})+$/i.test(macaroonHex)) {
+      throw new Error(
+        'Invalid LND REST configuration: the hex value must be an even-length hex string'
+      );
+    }
+
+    const tlsCertPath = settings('LND_REST_TLS_CERT_PATH');
+    if (tlsCertPath && !existsSync(tlsCertPath)) {
+      throw new Error('TLS certificate file not found');
+    }
+  }
+
+  // Validate clnrest configuration if using CLN
+  if (connectionMethod === ConnectionMethod.CLN_REST) {
+    if (!settings('CLN_REST_URL') || !settings('CLN_RUNE')) {
+      throw new Error('Missing required CLN configuration (restUrl or rune)');
+    }
+
+    const caCertPath = settings('CLN_CA_CERT_PATH');
+    if (caCertPath && !existsSync(caCertPath)) {
+      throw new Error('CLN CA certificate file not found');
+    }
+  }
+
+  // Validate Eclair configuration if using Eclair
+  if (connectionMethod === ConnectionMethod.ECLAIR_HTTP) {
+    if (!settings('ECLAIR_API_URL') || !settings('ECLAIR_API_PASSWORD')) {
+      throw new Error('Missing required Eclair configuration (apiUrl or password)');
+    }
   }
 
-  if (process.env.LND_PORT) {
-    const lndPort = parseInt(process.env.LND_PORT, 10);
+  const lndPortSetting = settings('LND_PORT');
+  if (lndPortSetting) {
+    const lndPort = parseInt(lndPortSetting, 10);
     if (isNaN(lndPort) || lndPort <= 0 || lndPort > 65535) {
       throw new Error('Invalid LND port');
     }
   }
 }
 
+/**
+ * Expand a leading ~ in a path to the home directory, as a shell would for
+ * unquoted paths
+ * @param filePath The configured path
+ * @returns The path with the home directory expanded
+ */
+function expandHomePath(filePath?: string): string | undefined {
+  return filePath && /^~(?=$|[\\/])/.test(filePath) ? `${homedir()}${filePath.slice(1)}` : filePath;
+}
+
+/**
+ * Read the connection configuration of a node
+ * @param settings Reader of the node's settings
+ * @returns The validated node configuration
+ */
+function getNodeConfig(settings: NodeSettings): NodeConfig {
+  // Determine connection details from the settings
+  const implementation =
+    (settings('NODE_IMPLEMENTATION') as NodeImplementation) || NodeImplementation.LND;
+  const connectionType = settings('CONNECTION_TYPE');
+
+  let connectionMethod: ConnectionMethod;
+  // Map connection types to architecture
+  if (connectionType === 'lnd-direct') {
+    connectionMethod = ConnectionMethod.GRPC;
+  } else if (connectionType === 'lnc') {
+    connectionMethod = ConnectionMethod.LNC;
+  } else if (connectionType === 'lnd-rest') {
+    connectionMethod = ConnectionMethod.REST;
+  } else if (connectionType === 'cln-rest') {
+    connectionMethod = ConnectionMethod.CLN_REST;
+  } else if (connectionType === 'eclair-http') {
+    connectionMethod = ConnectionMethod.ECLAIR_HTTP;
+  } else if (connectionType === 'mock') {
+    // Mock mode has been removed
+    throw new Error(
+      'Mock mode has been removed. Use lnd-direct or lnc with a real Lightning node.'
+    );
+  } else if (implementation === NodeImplementation.CLN) {
+    // CLN is only reachable through clnrest
+    connectionMethod = ConnectionMethod.CLN_REST;
+  } else if (implementation === NodeImplementation.ECLAIR) {
+    // Eclair is only reachable through its HTTP API
+    connectionMethod = ConnectionMethod.ECLAIR_HTTP;
+  } else {
+    // Default to gRPC
+    connectionMethod = ConnectionMethod.GRPC;
+  }
+
+  // Validate configuration
+  validateNodeConfig(settings, connectionMethod);
+
+  const node: NodeConfig = {
+    implementation,
+    connectionMethod,
+    lnd: {
+      tlsCertPath: settings('LND_TLS_CERT_PATH') as string,
+      macaroonPath: settings('LND_MACAROON_PATH') as string,
+      host: settings('LND_HOST') || 'localhost',
+      port: settings('LND_PORT') || '10009',
+    },
+  };
+
+  // Add LNC config if needed
+  if (connectionMethod === ConnectionMethod.LNC) {
+    node.lnc = {
+      connectionString: settings('LNC_CONNECTION_STRING') as string,
+      pairingPhrase: settings('LNC_PAIRING_PHRASE'),
+      credentialsPath: expandHomePath(settings('LNC_CREDENTIALS_PATH')),
+    };
+  }
+
+  // Add LND REST config if needed
+  if (connectionMethod === ConnectionMethod.REST) {
+    node.lndRest = {
+      url: settings('LND_REST_URL') as string,
+      macaroonPath: settings('LND_REST_MACAROON_PATH'),
+      macaroonHex: settings('LND_REST_MACAROON_HEX'),
+      tlsCertPath: settings('LND_REST_TLS_CERT_PATH'),
+    };
+  }
+
+  // Add CLN config if needed
+  if (connectionMethod === ConnectionMethod.CLN_REST) {
+    node.cln = {
+      restUrl: settings('CLN_REST_URL') as string,
+      rune: settings('CLN_RUNE') as string,
+      caCertPath: settings('CLN_CA_CERT_PATH'),
+    };
+  }
+
+  // Add Eclair config if needed
+  if (connectionMethod === ConnectionMethod.ECLAIR_HTTP) {
+    node.eclair = {
+      apiUrl: settings('ECLAIR_API_URL') as string,
+      password: settings('ECLAIR_API_PASSWORD') as string,
+    };
+  }
+
+  return node;
+}
+
+/**
+ * Read a named node profile, naming the node in validation errors
+ * @param name Name of the node
+ * @param settings Reader of the node's settings
+ * @returns The node profile
+ */
+function getNodeProfile(name: string, settings: NodeSettings): NodeProfile {
+  try {
+    return { name, ...getNodeConfig(settings) };
+  } catch (error) {
+    throw new Error(`Node ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Read the node profiles from the file at NODES_CONFIG_PATH
+ * @param filePath Path of the JSON profiles file
+ * @returns The node profiles
+ */
+function getFileNodeProfiles(filePath: string): NodeProfile[] {
+  if (!existsSync(filePath)) {
+    throw new Error('Node profiles file not found');
+  }
+
+  const { nodes } = validateWithZod(
+    NodeProfilesFileSchema,
+    JSON.parse(readFileSync(filePath, 'utf8'))
+  );
+
+  return nodes.map(({ name, ...profile }) =>
+    getNodeProfile(name, (setting) =>
+      profile[setting] === undefined ? undefined : String(profile[setting])
+    )
+  );
+}
+
+/**
+ * Read the node profiles from indexed environment variables. Node N takes
+ * its name from NODE_N_NAME and its settings from the same variables as a
+ * single node, prefixed with NODE_N_ (e.g. NODE_1_CONNECTION_TYPE or
+ * NODE_1_IMPLEMENTATION).
+ * @returns The node profiles, empty if NODE_1_NAME is not set
+ */
+function getIndexedNodeProfiles(): NodeProfile[] {
+  const profiles: NodeProfile[] = [];
+
+  for (let index = 1; process.env[`NODE_${index}_NAME`]; index++) {
+    const prefix = `NODE_${index}_`;
+    profiles.push(
+      getNodeProfile(
+        process.env[`${prefix}NAME`] as string,
+        (setting) => process.env[`${prefix}${setting.replace(/^NODE_/, '')}`]
+      )
+    );
+  }
+
+  return profiles;
+}
+
+/**
+ * Validate the name of a node, which tool calls and file names use
+ * @param name Name of the node
+ * @throws Error if the name has characters other than letters, digits, _ and -,
+ * or is reserved for querying all nodes
+ */
+function validateNodeName(name: string): void {
+  if (!/^[\w-]+$/.test(name) || name.toLowerCase() === ALL_NODES) {
+    throw new Error(`Invalid node name: ${name}`);
+  }
+}
+
+/**
+ * Read the profiles of all configured nodes, from the profiles file, from
+ * indexed environment variables or from the single node environment
+ * @returns The node profiles, starting with the default node
+ */
+function getNodeProfiles(): NodeProfile[] {
+  let profiles: NodeProfile[];
+
+  if (process.env.NODES_CONFIG_PATH) {
+    profiles = getFileNodeProfiles(process.env.NODES_CONFIG_PATH);
+  } else {
+    profiles = getIndexedNodeProfiles();
+  }
+
+  if (profiles.length === 0) {
+    const name = process.env.NODE_NAME || DEFAULT_NODE_NAME;
+    validateNodeName(name);
+
+    return [{ name, ...getNodeConfig((setting) => process.env[setting]) }];
+  }
+
+  // Names select nodes in tool calls, so they have to be unique
+  const names = new Set<string>();
+  profiles.forEach(({ name }) => {
+    validateNodeName(name);
+    if (names.has(name)) {
+      throw new Error(`Duplicate node name: ${name}`);
+    }
+    names.add(name);
+  });
+
+  // Each LNC node stores its own session keys, which a shared file would overwrite
+  const credentialsPaths = new Map<string, string>();
+  profiles.forEach(({ name, lnc }) => {
+    if (!lnc?.credentialsPath) {
+      return;
+    }
+    const owner = credentialsPaths.get(lnc.credentialsPath);
+    if (owner) {
+      throw new Error(`Nodes ${owner} and ${name} share an LNC session file`);
+    }
+    credentialsPaths.set(lnc.credentialsPath, name);
+  });
+
+  return profiles;
+}
+
+/**
+ * Read the API keys from the file at MCP_API_KEYS_PATH
+ * @returns The API keys, empty if no file is configured
+ */
+function getApiKeys(): ApiKeyConfig[] {
+  const filePath = process.env.MCP_API_KEYS_PATH;
+  if (!filePath) {
+    return [];
+  }
+
+  // Error messages name clients rather than keys, which the sanitizer would redact
+  if (!existsSync(filePath)) {
+    throw new Error('Clients file not found');
+  }
+
+  const { clients } = validateWithZod(
+    ApiKeysFileSchema,
+    JSON.parse(readFileSync(filePath, 'utf8'))
+  );
+
+  const names = new Set<string>();
+  clients.forEach(({ name }) => {
+    if (names.has(name)) {
+      throw new Error(`Duplicate client name: ${name}`);
+    }
+    names.add(name);
+  });
+
+  return clients.map(({ name, hash, scopes }) => ({ name, hash: hash.toLowerCase(), scopes }));
+}
+
+/**
+ * Read the health criteria of channels from CHANNEL_HEALTH_MIN_LOCAL_RATIO
+ * and CHANNEL_HEALTH_MAX_LOCAL_RATIO
+ * @returns The health criteria, defaulting to a 20/80 balance distribution
+ */
+function getHealthCriteria(): HealthCriteriaParams {
+  const defaults = HealthCriteria.default();
+  const readRatio = (name: string, defaultRatio: number): number => {
+    const value = process.env[name];
+    if (!value) {
+      return defaultRatio;
+    }
+
+    const ratio = Number(value);
+    if (isNaN(ratio)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return ratio;
+  };
+
+  const params = {
+    minLocalRatio: readRatio('CHANNEL_HEALTH_MIN_LOCAL_RATIO', defaults.getMinLocalRatio()),
+    maxLocalRatio: readRatio('CHANNEL_HEALTH_MAX_LOCAL_RATIO', defaults.getMaxLocalRatio()),
+  };
+
+  // Throws if the ratios are out of range or in the wrong order
+  HealthCriteria.create(params);
+
+  return params;
+}
+
+/**
+ * Read the strategy of fee recommendations from CHANNEL_FEE_STRATEGY
+ * @returns The fee strategy, defaulting to balanced
+ */
+function getFeeStrategy(): FeeStrategy {
+  const value = process.env.CHANNEL_FEE_STRATEGY;
+  if (!value) {
+    return 'balanced';
+  }
+
+  const strategy = FeeStrategySchema.safeParse(value);
+  if (!strategy.success) {
+    throw new Error(`Invalid CHANNEL_FEE_STRATEGY: ${value}`);
+  }
+  return strategy.data;
+}
+
+/**
+ * Read the snapshot settings from SNAPSHOT_DIR, SNAPSHOT_INTERVAL_MINUTES,
+ * SNAPSHOT_RETENTION_DAYS and SNAPSHOT_FULL_RESOLUTION_DAYS
+ * @returns The snapshot settings, defaulting to hourly snapshots kept for
+ * 90 days, of which the last 7 days at full resolution
+ */
+function getHistoryConfig(): Config['history'] {
+  const readNumber = (name: string, defaultValue: number, allowZero = false): number => {
+    const value = process.env[name];
+    if (!value) {
+      return defaultValue;
+    }
+
+    const number = Number(value);
+    if (isNaN(number) || number < 0 || (number === 0 && !allowZero)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return number;
+  };
+
+  return {
+    directory: process.env.SNAPSHOT_DIR || undefined,
+    intervalMs: readNumber('SNAPSHOT_INTERVAL_MINUTES', 60) * 60 * 1000,
+    retention: {
+      maxAgeDays: readNumber('SNAPSHOT_RETENTION_DAYS', 90),
+      fullResolutionDays: readNumber('SNAPSHOT_FULL_RESOLUTION_DAYS', 7, true),
+    },
+  };
+}
+
+/**
+ * Read the time zone of queries from QUERY_TIMEZONE
+ * @returns The time zone, defaulting to the time zone of the system
+ */
+function getQueryTimeZone(): string {
+  const value = process.env.QUERY_TIMEZONE;
+  if (!value) {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  try {
+    // Throws a RangeError for time zones unknown to the runtime
+    return Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(`Invalid QUERY_TIMEZONE: ${value}`);
+  }
+}
+
 /**
  * Get configuration
  */
 export function getConfig(): Config {
   try {
-    // Determine connection details from environment
-    const implementation =
-      (process.env.NODE_IMPLEMENTATION as NodeImplementation) || NodeImplementation.LND;
-
-    let connectionMethod: ConnectionMethod;
-    // Map connection types to architecture
-    if (process.env.CONNECTION_TYPE === 'lnd-direct') {
-      connectionMethod = ConnectionMethod.GRPC;
-    } else if (process.env.CONNECTION_TYPE === 'lnc') {
-      connectionMethod = ConnectionMethod.LNC;
-    } else if (process.env.CONNECTION_TYPE === 'mock') {
-      // Mock mode has been removed
-      throw new Error(
-        'Mock mode has been removed. Use lnd-direct or lnc with a real Lightning node.'
-      );
-    } else {
-      // Default to gRPC
-      connectionMethod = ConnectionMethod.GRPC;
+    // Read the connection configuration of every node
+    const nodes = getNodeProfiles();
+
+    // Validate port numbers
+    const port = parseInt(process.env.PORT || '', 10);
+    if (isNaN(port) || port <= 0 || port > 65535) {
+      throw new Error('Invalid server port');
     }
 
-    // Validate configuration
-    validateConfig(implementation, connectionMethod);
+    // Validate the transport
+    const transport = (process.env.MCP_TRANSPORT || 'stdio') as McpTransportType;
+    if (transport !== 'stdio' && transport !== 'http') {
+      throw new Error(`Invalid MCP transport: ${transport}. Use stdio or http.`);
+    }
 
     // Create configuration object
+    const { name: _name, ...defaultNode } = nodes[0];
     const config: Config = {
-      node: {
-        implementation,
-        connectionMethod,
-        lnd: {
-          tlsCertPath: process.env.LND_TLS_CERT_PATH as string,
-          macaroonPath: process.env.LND_MACAROON_PATH as string,
-          host: process.env.LND_HOST || 'localhost',
-          port: process.env.LND_PORT || '10009',
-        },
-      },
+      node: defaultNode,
+      nodes,
 
       server: {
+        transport,
+        host: process.env.MCP_HTTP_HOST || '127.0.0.1',
         port: parseInt(process.env.PORT || '3000', 10),
         logLevel: process.env.LOG_LEVEL || 'info',
         environment: process.env.NODE_ENV || 'development',
       },
-    };
 
-    // Add LNC config if needed
-    if (connectionMethod === ConnectionMethod.LNC) {
-      config.node.lnc = {
-        connectionString: process.env.LNC_CONNECTION_STRING as string,
-        pairingPhrase: process.env.LNC_PAIRING_PHRASE,
-      };
-    }
+      auth: {
+        apiKeys: getApiKeys(),
+      },
+
+      channels: {
+        health: getHealthCriteria(),
+        fees: { strategy: getFeeStrategy() },
+      },
+
+      history: getHistoryConfig(),
+
+      queries: {
+        timeZone: getQueryTimeZone(),
+      },
+    };
 
     // Log sanitized configuration
     logger.info(`Configuration loaded successfully: ${JSON.stringify(sanitizeConfig(config))}`);
@@ -24,10 +24,13 @@ export const REDACT_PATHS = [
   'pairingPhrase',
   'pairing',
   'lncCredential',
+  // CLN connection patterns
+  'rune',
   // HTTP patterns
   'authorization',
   'cookie',
   'x-lnd-macaroon',
+  'x-api-key',
   // File paths that might contain credentials
   'certPath',
   'macaroonPath',
@@ -95,6 +95,19 @@ describe('sanitizeErrorMessage', () => {
     });
   });
 
+  it('should redact API keys sent in request headers', () => {
+    const apiKey = 'f3a91c07d2e84b6a9c15e0b7d4a2c8f1';
+    const messages = [
+      `Request failed with header Authorization: Bearer ${apiKey}`,
+      `Request failed with header X-API-Key: ${apiKey}`,
+    ];
+
+    messages.map(sanitizeErrorMessage).forEach((sanitizedMsg) => {
+      expect(sanitizedMsg).not.toContain(apiKey);
+      expect(sanitizedMsg).toContain('Request failed with header');
+    });
+  });
+
   it('should preserve non-sensitive parts of the message', () => {
     const message =
       'Error code 404: File not found at /home/user/certs/lnd.cert. Please check the path.';
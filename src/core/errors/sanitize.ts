@@ -202,7 +202,7 @@ export function sanitizeErrorMessage(message: string): string {
       sanitized = sanitized.replace(pattern, '[REDACTED_BASE64_DATA]');
     } else if (key === 'socket' || key === 'socketPath') {
       sanitized = sanitized.replace(pattern, '[REDACTED_SOCKET_PATH]');
-    } else if (key === 'bearer' || key === 'basicAuth') {
+    } else if (key === 'bearer' || key === 'basicAuth' || key === 'apiKeyHeader') {
       sanitized = sanitized.replace(pattern, '[REDACTED_AUTH_TOKEN]');
     } else if (key === 'jsonObject') {
       // More careful with this one as it could over-redact
@@ -110,6 +110,7 @@ describe('SensitivePatterns', () => {
       expect('cookie: session=abc123').toMatch(patterns.cookie);
       expect('x-lnd-macaroon: 1234').toMatch(patterns.xMacaroon);
       expect('bearer token').toMatch(patterns.bearer);
+      expect('X-API-Key: 3f9a0c').toMatch(patterns.apiKeyHeader);
     });
   });
 
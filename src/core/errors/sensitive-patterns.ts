@@ -28,6 +28,8 @@ export class SensitivePatterns {
     // LNC connection patterns
     'connectionstring',
     'pairingphrase',
+    // CLN connection patterns
+    'rune',
     // Generic sensitive patterns
     'private',
     'apikey',
@@ -36,6 +38,7 @@ export class SensitivePatterns {
     // HTTP related patterns
     'authorization',
     'cookie',
+    'x-api-key',
     // File paths that may contain sensitive information
     'certpath',
     'macaroonpath',
@@ -135,7 +138,8 @@ export class SensitivePatterns {
       authorization: /authorization/i,
       cookie: /cookie/i,
       xMacaroon: /x-.*macaroon/i,
-      bearer: /bearer\s+[a-zA-Z0-9\-_]+/i,
+      bearer: /bearer\s+[a-zA-Z0-9\-_.~+/]+=*/i,
+      apiKeyHeader: /x-api-key\s*[:=]\s*\S+/i,
       httpAuth: /http.*auth/i,
       basicAuth: /basic\s+[a-zA-Z0-9+/=]+/i,
     };
@@ -168,6 +168,7 @@ export function sanitizeHeaders(headers: Record<string, any>): Record<string, an
     'x-lnd-macaroon',
     'macaroon',
     'api-key',
+    'x-api-key',
     'token',
     'credential',
     'cert',
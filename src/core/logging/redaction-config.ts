@@ -26,10 +26,19 @@ export const REDACT_PATHS = [
   'connection.details.pairingPhrase',
   'connections[*].config.connectionString',
   'settings.backup.lncConfig.connectionString',
+  // CLN connection patterns
+  'rune',
+  'headers.rune',
   // HTTP patterns - use headers object syntax for HTTP headers
   'headers.authorization',
   'headers.cookie',
   'headers.macaroon',
+  'headers["x-api-key"]',
+  // API keys of MCP clients and the auth info carrying them
+  'apiKey',
+  'apiKeys',
+  'auth.apiKeys',
+  'authInfo.token',
   // File paths that might contain credentials
   'certPath',
   'macaroonPath',
@@ -28,6 +28,48 @@ export type HealthCriteria = z.infer<typeof HealthCriteriaSchema>;
  */
 export { ChannelData } from '../schemas/channel';
 
+/**
+ * Pending channel types from schema definition.
+ *
+ * Channels that are still opening or whose closing has not completed.
+ */
+export { PendingChannelData, PendingChannelState } from '../schemas/pending-channel';
+
+/**
+ * Closed channel types from schema definition.
+ *
+ * Channels that have been closed, with how they were closed.
+ */
+export { ClosedChannelData, ClosedChannelType } from '../schemas/closed-channel';
+
+/**
+ * Channel list parameter types from schema definition.
+ *
+ * Filters, sort order and paging of channel listings.
+ */
+export { ChannelListParams, ChannelSortField, ChannelSortOrder } from '../schemas/channel-list';
+
+/**
+ * Fee policy type from schema definition.
+ *
+ * Fees a node charges to forward payments over one of its channels.
+ */
+export { FeePolicyData } from '../schemas/fee-policy';
+
+/**
+ * Rebalance plan parameter type from schema definition.
+ *
+ * Health criteria, fee limit and size of a plan of circular rebalances.
+ */
+export { RebalancePlanParams } from '../schemas/rebalance-plan';
+
+/**
+ * Fee recommendation types from schema definition.
+ *
+ * Strategy and parameters of fee recommendations.
+ */
+export { FeeRecommendationParams, FeeStrategy } from '../schemas/fee-recommendation';
+
 /**
  * Channel Summary Statistics.
  *
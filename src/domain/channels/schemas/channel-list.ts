@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Zod schema definition for channel list parameters.
+ *
+ * This file defines the typed filters, sort order and paging of channel
+ * listings. They are validated before a listing is requested, passed to
+ * ChannelDomainHandler as intent attributes and applied by ChannelListService.
+ */
+
+import { z } from 'zod';
+import { satoshiValidator } from '../../../core/validation/zod-validators';
+
+/**
+ * Maximum number of channels returned by one listing
+ */
+export const MAX_CHANNEL_LIST_LIMIT = 500;
+
+/**
+ * Fields channels can be sorted by
+ */
+export const ChannelSortFieldSchema = z.enum([
+  'capacity',
+  'local_balance',
+  'remote_balance',
+  'local_ratio',
+  'alias',
+]);
+
+/**
+ * Direction channels are sorted in
+ */
+export const ChannelSortOrderSchema = z.enum(['asc', 'desc']);
+
+/**
+ * Ratio of a channel's local balance to its capacity
+ */
+export const localRatioValidator = z
+  .number()
+  .min(0, 'Local ratio cannot be below 0')
+  .max(1, 'Local ratio cannot be above 1');
+
+/**
+ * Share of a channel's capacity on its fuller side, from 0.5 for a channel
+ * split 50/50 to 1 for a channel entirely on one side
+ */
+export const imbalanceValidator = z
+  .number()
+  .min(0.5, 'Imbalance cannot be below 0.5')
+  .max(1, 'Imbalance cannot be above 1');
+
+/**
+ * Schema for the fields of the parameters of a channel listing
+ */
+const ChannelListFieldsSchema = z.object({
+  active: z
+    .boolean()
+    .optional()
+    .describe('Only list active channels if true, or inactive channels if false'),
+  peer: z
+    .string()
+    .trim()
+    .min(1, 'Peer cannot be empty')
+    .optional()
+    .describe('Public key of the peer, or part of its alias'),
+  minCapacity: satoshiValidator.optional().describe('Minimum channel capacity in sats'),
+  maxCapacity: satoshiValidator.optional().describe('Maximum channel capacity in sats'),
+  minLocalRatio: localRatioValidator
+    .optional()
+    .describe('Minimum share of the capacity on the local side, from 0 to 1'),
+  maxLocalRatio: localRatioValidator
+    .optional()
+    .describe('Maximum share of the capacity on the local side, from 0 to 1'),
+  minLocalBalance: satoshiValidator.optional().describe('Minimum local balance in sats'),
+  maxLocalBalance: satoshiValidator.optional().describe('Maximum local balance in sats'),
+  minRemoteBalance: satoshiValidator.optional().describe('Minimum remote balance in sats'),
+  maxRemoteBalance: satoshiValidator.optional().describe('Maximum remote balance in sats'),
+  minImbalance: imbalanceValidator
+    .optional()
+    .describe(
+      'Minimum share of the capacity on the fuller side, from 0.5 to 1, e.g. 0.8 for channels more imbalanced than 80/20'
+    ),
+  maxImbalance: imbalanceValidator
+    .optional()
+    .describe(
+      'Maximum share of the capacity on the fuller side, from 0.5 to 1, e.g. 0.6 for channels more balanced than 60/40'
+    ),
+  sortBy: ChannelSortFieldSchema.optional().describe('Field to sort by. Defaults to capacity.'),
+  sortOrder: ChannelSortOrderSchema.optional().describe(
+    'Sort direction. Defaults to desc, or asc when sorting by alias.'
+  ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CHANNEL_LIST_LIMIT)
+    .optional()
+    .describe('Maximum number of channels to return'),
+  offset: z.number().int().nonnegative().optional().describe('Number of matching channels to skip'),
+});
+
+/**
+ * Names of the parameters of a channel listing, which name the intent
+ * attributes that set them
+ */
+export const CHANNEL_LIST_PARAM_KEYS = ChannelListFieldsSchema.keyof().options;
+
+/**
+ * Schema for the parameters of a channel listing
+ */
+export const ChannelListParamsSchema = ChannelListFieldsSchema.strict()
+  .refine(
+    ({ minCapacity, maxCapacity }) =>
+      minCapacity === undefined || maxCapacity === undefined || minCapacity <= maxCapacity,
+    { message: 'minCapacity cannot be above maxCapacity', path: ['minCapacity'] }
+  )
+  .refine(
+    ({ minLocalRatio, maxLocalRatio }) =>
+      minLocalRatio === undefined || maxLocalRatio === undefined || minLocalRatio <= maxLocalRatio,
+    { message: 'minLocalRatio cannot be above maxLocalRatio', path: ['minLocalRatio'] }
+  )
+  .refine(
+    ({ minLocalBalance, maxLocalBalance }) =>
+      minLocalBalance === undefined ||
+      maxLocalBalance === undefined ||
+      minLocalBalance <= maxLocalBalance,
+    { message: 'minLocalBalance cannot be above maxLocalBalance', path: ['minLocalBalance'] }
+  )
+  .refine(
+    ({ minRemoteBalance, maxRemoteBalance }) =>
+      minRemoteBalance === undefined ||
+      maxRemoteBalance === undefined ||
+      minRemoteBalance <= maxRemoteBalance,
+    { message: 'minRemoteBalance cannot be above maxRemoteBalance', path: ['minRemoteBalance'] }
+  )
+  .refine(
+    ({ minImbalance, maxImbalance }) =>
+      minImbalance === undefined || maxImbalance === undefined || minImbalance <= maxImbalance,
+    { message: 'minImbalance cannot be above maxImbalance', path: ['minImbalance'] }
+  );
+
+/**
+ * Field channels can be sorted by
+ */
+export type ChannelSortField = z.infer<typeof ChannelSortFieldSchema>;
+
+/**
+ * Direction channels are sorted in
+ */
+export type ChannelSortOrder = z.infer<typeof ChannelSortOrderSchema>;
+
+/**
+ * Parameters of a channel listing
+ */
+export type ChannelListParams = z.infer<typeof ChannelListParamsSchema>;
@@ -4,10 +4,17 @@
  * This file defines the schemas for health criteria, channel summary,
  * channel query result, and channel query response. These schemas are used
  * for validating and inferring types related to channel query responses.
+ * The open, pending, closed and channel history query result schemas describe
+ * the results of ChannelDomainHandler as published in tool output schemas.
  */
 
 import { z } from 'zod';
 import { ChannelSchema } from './channel';
+import { PendingChannelSchema, PendingChannelStateSchema } from './pending-channel';
+import { ClosedChannelSchema, ClosedChannelTypeSchema } from './closed-channel';
+import { FeePolicySchema } from './fee-policy';
+import { FeeStrategySchema } from './fee-recommendation';
+import { NodeSummarySchema } from '../../history/schemas/snapshot';
 
 export const HealthCriteriaSchema = z.object({
   minLocalRatio: z.number(),
@@ -36,3 +43,207 @@ export const ChannelQueryResponseSchema = z.object({
   data: ChannelQueryResultSchema,
   error: z.any().optional(),
 });
+
+/**
+ * Schema of a channel taking part in a planned rebalance
+ */
+const RebalanceChannelSchema = z.object({
+  channel_point: z.string(),
+  remote_pubkey: z.string(),
+  remote_alias: z.string().optional(),
+  localRatio: z.number(),
+});
+
+/**
+ * Schema of the result of a query about open channels
+ */
+export const OpenChannelQueryResultSchema = z.object({
+  channels: z.array(ChannelSchema),
+  nodes: z.array(z.string()).optional(),
+  summary: z.object({
+    totalCapacity: z.number(),
+    totalLocalBalance: z.number(),
+    totalRemoteBalance: z.number(),
+    activeChannels: z.number(),
+    inactiveChannels: z.number(),
+    averageCapacity: z.number().optional(),
+    healthyChannels: z.number().optional(),
+    unhealthyChannels: z.number().optional(),
+  }),
+  pagination: z
+    .object({
+      total: z.number(),
+      offset: z.number(),
+      limit: z.number().optional(),
+    })
+    .optional(),
+  health: z
+    .object({
+      criteria: HealthCriteriaSchema,
+      channels: z.array(
+        z.object({
+          channel_point: z.string(),
+          remote_pubkey: z.string(),
+          remote_alias: z.string().optional(),
+          node: z.string().optional(),
+          active: z.boolean(),
+          localRatio: z.number(),
+          healthy: z.boolean(),
+          rebalanceAmount: z.number(),
+        })
+      ),
+    })
+    .optional(),
+  rebalance: z
+    .object({
+      criteria: HealthCriteriaSchema,
+      sources: z.number(),
+      targets: z.number(),
+      moves: z.array(
+        z.object({
+          from: RebalanceChannelSchema,
+          to: RebalanceChannelSchema,
+          node: z.string().optional(),
+          amount: z.number(),
+          estimatedFee: z.number().optional(),
+          costPpm: z.number().optional(),
+          feeEstimate: z.enum(['direct', 'median', 'unknown']),
+        })
+      ),
+    })
+    .optional(),
+  fees: z
+    .object({
+      channels: z.array(
+        z.object({
+          channel_point: z.string(),
+          remote_pubkey: z.string(),
+          remote_alias: z.string().optional(),
+          node: z.string().optional(),
+          active: z.boolean(),
+          local_policy: FeePolicySchema.optional(),
+          remote_policy: FeePolicySchema.optional(),
+          peerMedianFeeRate: z.number().optional(),
+          feeRateDifference: z.number().optional(),
+        })
+      ),
+    })
+    .optional(),
+  feeRecommendations: z
+    .object({
+      strategy: FeeStrategySchema,
+      channels: z.array(
+        z.object({
+          channel_point: z.string(),
+          remote_pubkey: z.string(),
+          remote_alias: z.string().optional(),
+          node: z.string().optional(),
+          active: z.boolean(),
+          localRatio: z.number(),
+          forwardedTokens: z.number(),
+          competitorFeeRate: z.number().optional(),
+          current: FeePolicySchema.optional(),
+          recommended: z.object({
+            base_fee_msat: z.number(),
+            fee_rate_ppm: z.number(),
+          }),
+          feeRateChange: z.number().optional(),
+          rationale: z.string(),
+        })
+      ),
+    })
+    .optional(),
+});
+
+/**
+ * Schema of the result of a query about pending channels
+ */
+export const PendingChannelQueryResultSchema = z.object({
+  pendingChannels: z.array(PendingChannelSchema),
+  nodes: z.array(z.string()).optional(),
+  summary: z.object({
+    totalPending: z.number(),
+    countByState: z.record(PendingChannelStateSchema, z.number()),
+    totalPendingCapacity: z.number(),
+    totalTimeLockedBalance: z.number(),
+    state: PendingChannelStateSchema.optional(),
+  }),
+});
+
+/**
+ * Schema of the result of a query about closed channels
+ */
+export const ClosedChannelQueryResultSchema = z.object({
+  closedChannels: z.array(ClosedChannelSchema),
+  nodes: z.array(z.string()).optional(),
+  peers: z.array(
+    z.object({
+      remote_pubkey: z.string(),
+      remote_alias: z.string().optional(),
+      closedChannels: z.number(),
+      totalCapacity: z.number(),
+      countByType: z.record(ClosedChannelTypeSchema, z.number()),
+    })
+  ),
+  summary: z.object({
+    totalClosed: z.number(),
+    totalClosedCapacity: z.number(),
+    countByType: z.record(ClosedChannelTypeSchema, z.number()),
+    totalRecovered: z.number(),
+    totalTimeLocked: z.number(),
+    closeType: ClosedChannelTypeSchema.optional(),
+  }),
+});
+
+/**
+ * Schema of the trend of a node total over a period
+ */
+const TrendSchema = z.object({
+  direction: z.enum(['increasing', 'decreasing', 'stable']),
+  slopePerDay: z.number(),
+});
+
+/**
+ * Schema of the result of a query about how channels changed over time
+ */
+export const ChannelHistoryQueryResultSchema = z.object({
+  history: z.array(
+    z.object({
+      node: z.string().optional(),
+      from: z.string(),
+      to: z.string(),
+      snapshots: z.number(),
+      before: NodeSummarySchema,
+      after: NodeSummarySchema,
+      deltas: NodeSummarySchema,
+      trends: z.record(NodeSummarySchema.keyof(), TrendSchema),
+      openedChannels: z.number(),
+      closedChannels: z.number(),
+      channels: z.array(
+        z.object({
+          channel_point: z.string(),
+          remote_pubkey: z.string(),
+          remote_alias: z.string().optional(),
+          status: z.enum(['opened', 'closed', 'open']),
+          capacity: z.number(),
+          localBalanceBefore: z.number().optional(),
+          localBalanceAfter: z.number().optional(),
+          localBalanceChange: z.number(),
+        })
+      ),
+    })
+  ),
+  nodes: z.array(z.string()).optional(),
+  period: z.string(),
+  recording: z.boolean(),
+});
+
+/**
+ * Schema of the result of any channel query, without its formatted text
+ */
+export const ChannelDomainResultSchema = z.union([
+  OpenChannelQueryResultSchema,
+  PendingChannelQueryResultSchema,
+  ClosedChannelQueryResultSchema,
+  ChannelHistoryQueryResultSchema,
+]);
@@ -6,12 +6,14 @@
  */
 
 import { z } from 'zod';
+import { FeePolicySchema } from './fee-policy';
 
 /**
  * Schema for raw channel data
  * @internal Used only within schemas
  */
 const RawChannelSchema = z.object({
+  id: z.string().optional(),
   capacity: z.number(),
   local_balance: z.number(),
   remote_balance: z.number(),
@@ -19,6 +21,12 @@ const RawChannelSchema = z.object({
   remote_pubkey: z.string(),
   channel_point: z.string(),
   remote_alias: z.string().optional(),
+  /** Name of the node the channel belongs to, set when querying several nodes */
+  node: z.string().optional(),
+  /** Routing policy we announce for forwarding over the channel */
+  local_policy: FeePolicySchema.optional(),
+  /** Routing policy the peer announces for forwarding over the channel to us */
+  remote_policy: FeePolicySchema.optional(),
   _error: z
     .object({
       type: z.string(),
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Zod schema definition for closed Lightning Network channels.
+ *
+ * This file defines schemas for channels that have been closed. They are
+ * used for both runtime validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+import { satoshiValidator } from '../../../core/validation/zod-validators';
+
+/**
+ * How a channel was closed
+ *
+ * - cooperative: both sides agreed on a mutual close
+ * - local_force: we broadcast our commitment transaction
+ * - remote_force: the peer broadcast their commitment transaction
+ * - breach: the peer broadcast a revoked commitment transaction
+ * - funding_canceled: the funding transaction never confirmed
+ * - unknown: the close type was not reported
+ */
+export const ClosedChannelTypeSchema = z.enum([
+  'cooperative',
+  'local_force',
+  'remote_force',
+  'breach',
+  'funding_canceled',
+  'unknown',
+]);
+
+/**
+ * Schema for a closed channel
+ */
+export const ClosedChannelSchema = z.object({
+  id: z.string().optional(),
+  close_type: ClosedChannelTypeSchema,
+  remote_pubkey: z.string(),
+  remote_alias: z.string().optional(),
+  /** Name of the node the channel belonged to, set when querying several nodes */
+  node: z.string().optional(),
+  capacity: satoshiValidator,
+  /** Local funds that were settled back to the wallet by the close */
+  final_local_balance: satoshiValidator,
+  /** Local funds that were locked in time-locked outputs at the time of closing */
+  final_time_locked_balance: satoshiValidator,
+  transaction_id: z.string(),
+  transaction_vout: z.number().int().nonnegative(),
+  close_transaction_id: z.string().optional(),
+  close_confirm_height: z.number().int().nonnegative().optional(),
+  is_partner_initiated: z.boolean().optional(),
+});
+
+/**
+ * Type for closed channel type
+ */
+export type ClosedChannelType = z.infer<typeof ClosedChannelTypeSchema>;
+
+/**
+ * Type for closed channel data structure
+ */
+export type ClosedChannelData = z.infer<typeof ClosedChannelSchema>;
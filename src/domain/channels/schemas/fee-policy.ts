@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Zod schema definition for channel fee policies.
+ *
+ * This file defines the schema for the routing policy a node announces
+ * for one of its channels: the fees it charges to forward payments over
+ * the channel and the limits of the HTLCs it forwards. It is used for both
+ * runtime validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for the fee policy of one side of a channel
+ */
+export const FeePolicySchema = z.object({
+  /** Fixed fee per forwarded payment in millisatoshis */
+  base_fee_msat: z.number().int().nonnegative(),
+  /** Proportional fee in parts per million of the forwarded amount */
+  fee_rate_ppm: z.number().int().nonnegative(),
+  /** Whether the node stopped forwarding over the channel */
+  disabled: z.boolean().optional(),
+  /** Blocks the node requires between incoming and outgoing HTLC expiries */
+  cltv_delta: z.number().int().nonnegative().optional(),
+  /** Smallest HTLC the node forwards in millisatoshis */
+  min_htlc_msat: z.number().int().nonnegative().optional(),
+  /** Largest HTLC the node forwards in millisatoshis */
+  max_htlc_msat: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * Type for fee policy data structure
+ */
+export type FeePolicyData = z.infer<typeof FeePolicySchema>;
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Zod schema definition for fee recommendation parameters.
+ *
+ * This file defines the strategies fees can be recommended with and the
+ * parameters of a recommendation. They are validated before
+ * recommendations are requested and are applied by ChannelDomainHandler as
+ * intent attributes.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Strategies fees can be recommended with
+ *
+ * - balanced: follow competitors and move channels towards even liquidity
+ * - drain-protecting: price depleted channels up to keep outbound liquidity
+ * - volume-seeking: undercut competitors to attract forwards
+ */
+export const FeeStrategySchema = z.enum(['balanced', 'drain-protecting', 'volume-seeking']);
+
+/**
+ * Schema for the parameters of a fee recommendation, transformed to the
+ * intent attributes ChannelDomainHandler reads
+ */
+export const FeeRecommendationParamsSchema = z
+  .object({
+    strategy: FeeStrategySchema.optional().describe(
+      'Strategy to recommend fees with. Defaults to the configured strategy.'
+    ),
+    peer: z
+      .string()
+      .trim()
+      .min(1, 'Peer cannot be empty')
+      .optional()
+      .describe('Only recommend fees for channels with this peer: public key or part of its alias'),
+    active: z
+      .boolean()
+      .optional()
+      .describe('Only recommend fees for active channels if true, or inactive channels if false'),
+  })
+  .strict()
+  .transform(({ strategy, peer, active }) =>
+    Object.fromEntries(
+      Object.entries({ feeStrategy: strategy, peer, active }).filter(
+        ([, value]) => value !== undefined
+      )
+    )
+  );
+
+/**
+ * Strategy fees are recommended with
+ */
+export type FeeStrategy = z.infer<typeof FeeStrategySchema>;
+
+/**
+ * Parameters of a fee recommendation
+ */
+export type FeeRecommendationParams = z.input<typeof FeeRecommendationParamsSchema>;
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Zod schema definition for pending Lightning Network channels.
+ *
+ * This file defines schemas for channels that are not yet open or not yet
+ * fully closed. They are used for both runtime validation and compile-time
+ * type inference.
+ */
+
+import { z } from 'zod';
+import { satoshiValidator } from '../../../core/validation/zod-validators';
+
+/**
+ * Lifecycle state of a pending channel
+ *
+ * - opening: funding transaction is waiting for confirmations
+ * - closing: cooperative close transaction is waiting for confirmation
+ * - force_closing: commitment transaction confirmed, local funds are time-locked
+ * - waiting_close: close was initiated but no closing transaction is confirmed yet
+ */
+export const PendingChannelStateSchema = z.enum([
+  'opening',
+  'closing',
+  'force_closing',
+  'waiting_close',
+]);
+
+/**
+ * Schema for a pending channel
+ */
+export const PendingChannelSchema = z.object({
+  state: PendingChannelStateSchema,
+  remote_pubkey: z.string(),
+  remote_alias: z.string().optional(),
+  /** Name of the node the channel belongs to, set when querying several nodes */
+  node: z.string().optional(),
+  capacity: satoshiValidator,
+  local_balance: satoshiValidator,
+  remote_balance: satoshiValidator,
+  transaction_id: z.string(),
+  transaction_vout: z.number().int().nonnegative(),
+  close_transaction_id: z.string().optional(),
+  /** Local funds still waiting to be swept back to the wallet */
+  pending_balance: satoshiValidator.optional(),
+  /** Block height at which time-locked funds of a force close become spendable */
+  maturity_height: z.number().int().nonnegative().optional(),
+  /** Blocks remaining until time-locked funds of a force close become spendable */
+  blocks_until_maturity: z.number().int().optional(),
+});
+
+/**
+ * Type for pending channel state
+ */
+export type PendingChannelState = z.infer<typeof PendingChannelStateSchema>;
+
+/**
+ * Type for pending channel data structure
+ */
+export type PendingChannelData = z.infer<typeof PendingChannelSchema>;
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Zod schema definition for rebalance plan parameters.
+ *
+ * This file defines the health criteria, fee limit and size of a plan of
+ * circular rebalances. They are validated before a plan is requested and
+ * are applied by ChannelDomainHandler as intent attributes.
+ */
+
+import { z } from 'zod';
+import { localRatioValidator } from './channel-list';
+
+/**
+ * Maximum number of moves proposed by one plan
+ */
+export const MAX_REBALANCE_MOVE_LIMIT = 100;
+
+/**
+ * Schema for the parameters of a rebalance plan, transformed to the intent
+ * attributes ChannelDomainHandler reads
+ */
+export const RebalancePlanParamsSchema = z
+  .object({
+    minLocalRatio: localRatioValidator
+      .optional()
+      .describe(
+        'Share of the capacity on the local side below which a channel needs inbound moves, from 0 to 1. Defaults to the configured health criteria.'
+      ),
+    maxLocalRatio: localRatioValidator
+      .optional()
+      .describe(
+        'Share of the capacity on the local side above which a channel needs outbound moves, from 0 to 1. Defaults to the configured health criteria.'
+      ),
+    maxFeePpm: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe('Leave out moves estimated to cost more, in parts per million of the amount'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_REBALANCE_MOVE_LIMIT)
+      .optional()
+      .describe('Maximum number of moves to propose. Defaults to 10.'),
+  })
+  .strict()
+  .refine(
+    ({ minLocalRatio, maxLocalRatio }) =>
+      minLocalRatio === undefined || maxLocalRatio === undefined || minLocalRatio < maxLocalRatio,
+    { message: 'minLocalRatio must be below maxLocalRatio', path: ['minLocalRatio'] }
+  )
+  .transform(({ minLocalRatio, maxLocalRatio, maxFeePpm, limit }) =>
+    Object.fromEntries(
+      Object.entries({
+        healthMinLocalRatio: minLocalRatio,
+        healthMaxLocalRatio: maxLocalRatio,
+        maxFeePpm,
+        maxMoves: limit,
+      }).filter(([, value]) => value !== undefined)
+    )
+  );
+
+/**
+ * Parameters of a rebalance plan
+ */
+export type RebalancePlanParams = z.input<typeof RebalancePlanParamsSchema>;
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Tests for ChannelFeeService
+ */
+
+import { ChannelFeeService } from './ChannelFeeService';
+import { ChannelData } from '../entities/Channel';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { createMockGateway } from '../../../test/mocks/gateway.mock';
+
+jest.mock('../../../core/logging/logger');
+
+describe('ChannelFeeService', () => {
+  const channel = (remote_pubkey: string, fee_rate_ppm?: number): ChannelData => ({
+    capacity: 1000000,
+    local_balance: 500000,
+    remote_balance: 500000,
+    active: true,
+    remote_pubkey,
+    remote_alias: `Alias ${remote_pubkey}`,
+    channel_point: `txid-${remote_pubkey}:0`,
+    local_policy: fee_rate_ppm === undefined ? undefined : { base_fee_msat: 1000, fee_rate_ppm },
+    remote_policy: { base_fee_msat: 0, fee_rate_ppm: 10, disabled: true },
+  });
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let service: ChannelFeeService;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getNodeDetails: jest.fn().mockImplementation(async (pubkey: string) => {
+        if (pubkey === 'pubkey-c') {
+          throw new Error('Node not found');
+        }
+
+        return {
+          public_key: pubkey,
+          alias: `Alias ${pubkey}`,
+          sockets: [],
+          capacity: 2000000,
+          channel_count: 2,
+          channels: [100, 300].map((fee_rate_ppm, index) => ({
+            id: `${index}`,
+            capacity: 1000000,
+            fee_policy: { base_fee_msat: 0, fee_rate_ppm },
+          })),
+          features: [],
+        };
+      }),
+    });
+    service = new ChannelFeeService(gateway);
+  });
+
+  test("should compare our fee rates with the peer's median fee rate", async () => {
+    const fees = await service.compare([
+      channel('pubkey-a', 500),
+      channel('pubkey-b'),
+      channel('pubkey-c', 100),
+    ]);
+
+    expect(
+      fees.map(({ peerMedianFeeRate, feeRateDifference }) => [peerMedianFeeRate, feeRateDifference])
+    ).toEqual([
+      [200, 300],
+      [200, undefined],
+      [undefined, undefined],
+    ]);
+  });
+
+  test('should format the fees numbered from the offset of the page', async () => {
+    const output = service.format(
+      await service.compare([channel('pubkey-a', 200), channel('pubkey-c', 100)]),
+      10
+    );
+
+    expect(output).toContain(
+      "11. Alias pubkey-a: you charge 1,000 msat + 200 ppm, the peer charges 0 msat + 10 ppm (disabled); same as the peer's median of 200 ppm\n"
+    );
+    expect(output).toContain(
+      '12. Alias pubkey-c: you charge 1,000 msat + 100 ppm, the peer charges 0 msat + 10 ppm (disabled)\n'
+    );
+    expect(service.format([])).toBe('No channels found.');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Fee policies of open channels.
+ *
+ * Compares the fee rate we charge on each channel with the median fee rate
+ * its peer charges on its channels in the graph, which tells whether we
+ * price the channel above or below what the peer itself asks.
+ */
+
+import { ChannelData, FeePolicyData } from '../entities/Channel';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { getMedianOutboundPolicy } from './fee-statistics';
+import { fetchPeerDetails } from './peer-details';
+import { formatChannelName, formatFeePolicy } from './channel-formatting';
+
+/**
+ * Fee policies of an open channel, compared with what its peer charges elsewhere
+ */
+export interface ChannelFees {
+  channel_point: string;
+  remote_pubkey: string;
+  remote_alias?: string;
+  /** Name of the node the channel belongs to, set when querying several nodes */
+  node?: string;
+  active: boolean;
+  /** Fees we charge to forward over the channel */
+  local_policy?: FeePolicyData;
+  /** Fees the peer charges to forward over the channel to us */
+  remote_policy?: FeePolicyData;
+  /** Median fee rate the peer charges on its channels in the graph, in ppm */
+  peerMedianFeeRate?: number;
+  /** Our fee rate minus the peer's median fee rate, in ppm */
+  feeRateDifference?: number;
+}
+
+/**
+ * Compares the fees of channels with the fees their peers charge
+ */
+export class ChannelFeeService {
+  /**
+   * Create a new channel fee service
+   * @param gateway The Lightning Network gateway to fetch the peers' fee policies from
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Compare the fees of channels with the median fee rate their peers charge
+   * on their channels in the graph
+   * @param channels The channels
+   * @returns Promise resolving to the fees of each channel, in the order of the channels
+   */
+  async compare(channels: ChannelData[]): Promise<ChannelFees[]> {
+    const peers = await fetchPeerDetails(this.gateway, channels);
+
+    return channels.map((channel) => {
+      const peerMedianFeeRate = getMedianOutboundPolicy(
+        peers.get(channel.remote_pubkey)
+      )?.fee_rate_ppm;
+      const localFeeRate = channel.local_policy?.fee_rate_ppm;
+
+      return {
+        channel_point: channel.channel_point,
+        remote_pubkey: channel.remote_pubkey,
+        remote_alias: channel.remote_alias,
+        node: channel.node,
+        active: channel.active,
+        local_policy: channel.local_policy,
+        remote_policy: channel.remote_policy,
+        peerMedianFeeRate,
+        feeRateDifference:
+          localFeeRate !== undefined && peerMedianFeeRate !== undefined
+            ? localFeeRate - peerMedianFeeRate
+            : undefined,
+      };
+    });
+  }
+
+  /**
+   * Format the fees of channels as text
+   * @param channels The fees of the listed channels
+   * @param offset Position of the first listed channel among the matching channels
+   * @returns Formatted channel fees
+   */
+  format(channels: ChannelFees[] | undefined, offset = 0): string {
+    if (!channels || channels.length === 0) {
+      return 'No channels found.';
+    }
+
+    let output = 'Fees on your channels:\n';
+    channels.forEach((channel, index) => {
+      output += `${offset + index + 1}. ${formatChannelName(channel)}: you charge ${formatFeePolicy(
+        channel.local_policy
+      )}, the peer charges ${formatFeePolicy(channel.remote_policy)}`;
+
+      if (channel.feeRateDifference !== undefined) {
+        const difference = channel.feeRateDifference;
+        output +=
+          difference === 0
+            ? `; same as the peer's median of ${channel.peerMedianFeeRate} ppm`
+            : `; ${Math.abs(difference)} ppm ${
+                difference > 0 ? 'above' : 'below'
+              } the peer's median of ${channel.peerMedianFeeRate} ppm`;
+      }
+
+      output += `${channel.active ? '' : ' (inactive)'}\n`;
+    });
+
+    return output;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Tests for ChannelHealthService
+ */
+
+import { ChannelHealthService } from './ChannelHealthService';
+import { ChannelData } from '../entities/Channel';
+import { HealthCriteria } from '../value-objects/HealthCriteria';
+
+describe('ChannelHealthService', () => {
+  const service = new ChannelHealthService(
+    HealthCriteria.create({ minLocalRatio: 0.3, maxLocalRatio: 0.7 })
+  );
+
+  const channel = (remote_pubkey: string, local_balance: number, active = true): ChannelData => ({
+    capacity: 1000000,
+    local_balance,
+    remote_balance: 1000000 - local_balance,
+    active,
+    remote_pubkey,
+    remote_alias: `Alias ${remote_pubkey}`,
+    channel_point: `txid-${remote_pubkey}:0`,
+  });
+
+  const channels = [
+    channel('pubkey-a', 500000),
+    channel('pubkey-b', 900000, false),
+    channel('pubkey-c', 100000),
+  ];
+
+  test('should override the configured ratios with the query ratios', () => {
+    const criteria = service.getCriteria({ maxLocalRatio: 0.95 });
+
+    expect(criteria.getMinLocalRatio()).toBe(0.3);
+    expect(criteria.getMaxLocalRatio()).toBe(0.95);
+    expect(() => service.getCriteria({ minLocalRatio: 0.8 })).toThrow('Invalid health criteria');
+  });
+
+  test('should classify channels and suggest the amount to the middle of the range', () => {
+    const criteria = service.getCriteria();
+    const report = service.assess(channels, criteria);
+
+    expect(service.countHealthy(channels, criteria)).toBe(1);
+    expect(report.criteria).toEqual({ minLocalRatio: 0.3, maxLocalRatio: 0.7 });
+    expect(report.channels).toEqual([
+      expect.objectContaining({ remote_pubkey: 'pubkey-a', healthy: true, rebalanceAmount: 0 }),
+      expect.objectContaining({
+        remote_pubkey: 'pubkey-b',
+        healthy: false,
+        localRatio: 0.9,
+        rebalanceAmount: -400000,
+      }),
+      expect.objectContaining({
+        remote_pubkey: 'pubkey-c',
+        healthy: false,
+        rebalanceAmount: 400000,
+      }),
+    ]);
+  });
+
+  test('should format the unhealthy channels with their rebalance direction', () => {
+    const output = service.format(service.assess(channels, service.getCriteria()), 1, 3);
+
+    expect(output).toContain(
+      '1 of 3 channels are healthy, with between 30% and 70% of their capacity on your side.'
+    );
+    expect(output).toContain(
+      '1. Alias pubkey-b: 90% local, send 0.00400000 BTC (400,000 sats) to rebalance (inactive)'
+    );
+    expect(output).toContain(
+      '2. Alias pubkey-c: 10% local, receive 0.00400000 BTC (400,000 sats) to rebalance'
+    );
+    expect(service.format(service.assess([], service.getCriteria()), 0, 0)).toBe(
+      'No channels found.'
+    );
+  });
+});
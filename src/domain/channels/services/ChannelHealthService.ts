@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Health of open channels.
+ *
+ * A channel is healthy while the share of its capacity on our side stays
+ * within the range of the health criteria. Unhealthy channels are given the
+ * amount to send or receive to reach the middle of the range. Queries can
+ * override the configured range.
+ */
+
+import { Channel } from '../entities/Channel.class';
+import { ChannelData } from '../entities/Channel';
+import { HealthCriteria, HealthCriteriaParams } from '../value-objects/HealthCriteria';
+import { formatChannelName, formatPercentage } from './channel-formatting';
+import { formatSatoshis } from '../../../core/utils/format_bitcoin';
+
+/**
+ * Health of an open channel
+ */
+export interface ChannelHealth {
+  channel_point: string;
+  remote_pubkey: string;
+  remote_alias?: string;
+  /** Name of the node the channel belongs to, set when querying several nodes */
+  node?: string;
+  active: boolean;
+  /** Share of the capacity on the local side */
+  localRatio: number;
+  /** Whether the local ratio is within the healthy range */
+  healthy: boolean;
+  /** Sats to move to reach the middle of the healthy range: positive to receive, negative to send */
+  rebalanceAmount: number;
+}
+
+/**
+ * Health of a list of channels
+ */
+export interface ChannelHealthReport {
+  criteria: HealthCriteriaParams;
+  channels: ChannelHealth[];
+}
+
+/**
+ * Get the local ratios of health criteria
+ * @param criteria The health criteria
+ * @returns The minimum and maximum local ratio
+ */
+export function getHealthCriteriaParams(criteria: HealthCriteria): HealthCriteriaParams {
+  return {
+    minLocalRatio: criteria.getMinLocalRatio(),
+    maxLocalRatio: criteria.getMaxLocalRatio(),
+  };
+}
+
+/**
+ * Classifies channels against the health criteria
+ */
+export class ChannelHealthService {
+  /**
+   * Create a new channel health service
+   * @param criteria Criteria of healthy channels, unless overridden by a query
+   */
+  constructor(private readonly criteria: HealthCriteria = HealthCriteria.default()) {}
+
+  /**
+   * Get the criteria of healthy channels, with the local ratios a query overrides
+   * @param overrides The local ratios of the query, if any
+   * @returns The health criteria
+   * @throws Error if the ratios are out of range or the minimum is not below the maximum
+   */
+  getCriteria(overrides: Partial<HealthCriteriaParams> = {}): HealthCriteria {
+    return HealthCriteria.create({
+      minLocalRatio: overrides.minLocalRatio ?? this.criteria.getMinLocalRatio(),
+      maxLocalRatio: overrides.maxLocalRatio ?? this.criteria.getMaxLocalRatio(),
+    });
+  }
+
+  /**
+   * Count the channels within the healthy range
+   * @param channels The channels
+   * @param criteria The health criteria
+   * @returns Number of healthy channels
+   */
+  countHealthy(channels: ChannelData[], criteria: HealthCriteria): number {
+    return channels.filter((channel) => Channel.fromRaw(channel).isBalanced(criteria)).length;
+  }
+
+  /**
+   * Classify channels and suggest the rebalance amount of each
+   * @param channels The channels
+   * @param criteria The health criteria
+   * @returns The health of each channel, in the order of the channels
+   */
+  assess(channels: ChannelData[], criteria: HealthCriteria): ChannelHealthReport {
+    return {
+      criteria: getHealthCriteriaParams(criteria),
+      channels: channels.map((data) => {
+        const channel = Channel.fromRaw(data);
+
+        return {
+          channel_point: data.channel_point,
+          remote_pubkey: data.remote_pubkey,
+          remote_alias: data.remote_alias,
+          node: data.node,
+          active: data.active,
+          localRatio: channel.localBalanceRatio(),
+          healthy: channel.isBalanced(criteria),
+          rebalanceAmount: channel.calculateRebalanceAmount(criteria),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Format channel health as text
+   * @param report The health of the listed channels
+   * @param healthyChannels Number of healthy channels among all matching channels
+   * @param totalChannels Number of matching channels
+   * @returns Formatted channel health
+   */
+  format(
+    report: ChannelHealthReport | undefined,
+    healthyChannels: number,
+    totalChannels: number
+  ): string {
+    if (!report || report.channels.length === 0) {
+      return 'No channels found.';
+    }
+
+    const { minLocalRatio, maxLocalRatio } = report.criteria;
+    let output = `${healthyChannels} of ${totalChannels} channels are healthy, with between ${formatPercentage(
+      minLocalRatio
+    )} and ${formatPercentage(maxLocalRatio)} of their capacity on your side.\n`;
+
+    const unhealthyChannels = report.channels.filter((channel) => !channel.healthy);
+    if (unhealthyChannels.length === 0) {
+      return output;
+    }
+
+    // Suggest the rebalance that moves each channel to the middle of the healthy range
+    output += '\nUnhealthy channels:\n';
+    unhealthyChannels.forEach((channel, index) => {
+      const direction = channel.rebalanceAmount < 0 ? 'send' : 'receive';
+      output += `${index + 1}. ${formatChannelName(channel)}: ${formatPercentage(
+        channel.localRatio
+      )} local, ${direction} ${formatSatoshis(Math.abs(channel.rebalanceAmount))} to rebalance${
+        channel.active ? '' : ' (inactive)'
+      }\n`;
+    });
+
+    return output;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Tests for ChannelListService
+ */
+
+import { ChannelListService } from './ChannelListService';
+import { ChannelData } from '../entities/Channel';
+
+describe('ChannelListService', () => {
+  const service = new ChannelListService();
+
+  const channel = (
+    remote_alias: string,
+    capacity: number,
+    local_balance: number,
+    active = true
+  ): ChannelData => ({
+    capacity,
+    local_balance,
+    remote_balance: capacity - local_balance,
+    active,
+    remote_pubkey: `pubkey-${remote_alias.toLowerCase()}`,
+    remote_alias,
+    channel_point: `txid-${remote_alias.toLowerCase()}:0`,
+  });
+
+  const channels = [
+    channel('Bravo', 1000000, 900000),
+    channel('Alpha', 3000000, 1500000),
+    channel('Charlie', 2000000, 200000, false),
+  ];
+
+  const aliases = (list: ChannelData[]) => list.map(({ remote_alias }) => remote_alias);
+
+  test('should keep the channels matching every filter', () => {
+    expect(aliases(service.filter(channels, { active: true, minCapacity: 2000000 }))).toEqual([
+      'Alpha',
+    ]);
+    expect(aliases(service.filter(channels, { minImbalance: 0.8 }))).toEqual(['Bravo', 'Charlie']);
+    expect(aliases(service.filter(channels, { peer: 'PUBKEY-CHARLIE' }))).toEqual(['Charlie']);
+    expect(aliases(service.filter(channels, { peer: 'rav' }))).toEqual(['Bravo']);
+  });
+
+  test('should sort largest first unless sorting by alias', () => {
+    expect(aliases(service.sort(channels, {}))).toEqual(['Alpha', 'Charlie', 'Bravo']);
+    expect(aliases(service.sort(channels, { sortBy: 'alias' }))).toEqual([
+      'Alpha',
+      'Bravo',
+      'Charlie',
+    ]);
+    expect(aliases(service.sort(channels, { sortBy: 'local_ratio', sortOrder: 'asc' }))).toEqual([
+      'Charlie',
+      'Alpha',
+      'Bravo',
+    ]);
+  });
+
+  test('should page the channels only when paging is requested', () => {
+    expect(service.paginate(channels, {})).toEqual({ channels });
+    expect(service.paginate(channels, { offset: 1, limit: 1 })).toEqual({
+      channels: [channels[1]],
+      pagination: { total: 3, offset: 1, limit: 1 },
+    });
+  });
+
+  test('should summarize and format the listed page', () => {
+    const summary = service.summarize(channels);
+    const page = service.paginate(channels, { offset: 2 });
+
+    expect(summary).toEqual({
+      totalCapacity: 6000000,
+      totalLocalBalance: 2600000,
+      totalRemoteBalance: 3400000,
+      activeChannels: 2,
+      inactiveChannels: 1,
+      averageCapacity: 2000000,
+    });
+    expect(service.formatList({ ...page, summary })).toContain(
+      'Your channels 3-3 of 3:\n3. Charlie: 0.02000000 BTC (2,000,000 sats) (inactive)\n'
+    );
+    expect(service.formatInactiveChannels(channels)).toBe(
+      '\n\nInactive channels (1):\n1. Charlie: 0.02000000 BTC (2,000,000 sats)\n'
+    );
+    expect(service.formatInactiveChannels([channels[0]])).toBe('');
+    expect(service.formatLiquidity({ channels, summary })).toContain(
+      'Your most balanced channels:\n1. Alpha: 50% local / 50% remote\n'
+    );
+  });
+});
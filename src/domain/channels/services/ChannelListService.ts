@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Listings of open channels.
+ *
+ * Applies the typed filters, sort order and paging of channel listings.
+ * Summaries cover all matching channels, while only the requested page of
+ * them is listed, numbered by its position among the matching channels.
+ */
+
+import { ChannelData, ChannelListParams, ChannelSortField } from '../entities/Channel';
+import { formatChannelName } from './channel-formatting';
+import { formatSatoshis } from '../../../core/utils/format_bitcoin';
+
+/**
+ * Totals of the channels matching a listing
+ */
+export interface ChannelListSummary {
+  totalCapacity: number;
+  totalLocalBalance: number;
+  totalRemoteBalance: number;
+  activeChannels: number;
+  inactiveChannels: number;
+  averageCapacity?: number;
+  healthyChannels?: number;
+  unhealthyChannels?: number;
+}
+
+/**
+ * Paging of the channels matching a listing
+ */
+export interface ChannelListPagination {
+  /** Number of channels matching the filters */
+  total: number;
+  offset: number;
+  limit?: number;
+}
+
+/**
+ * A page of the channels matching a listing
+ */
+export interface ChannelListPage {
+  channels: ChannelData[];
+  /** Paging of the matching channels, set when a limit or offset was requested */
+  pagination?: ChannelListPagination;
+}
+
+/**
+ * A listed page of channels with the totals of all matching channels
+ */
+export interface ChannelListing extends ChannelListPage {
+  summary: ChannelListSummary;
+  /** Names of the nodes the channels were merged from */
+  nodes?: string[];
+}
+
+/**
+ * Get the share of a channel's capacity on the local side
+ * @param channel The channel
+ * @returns The local balance divided by the capacity, 0 for channels without capacity
+ */
+function getLocalRatio(channel: ChannelData): number {
+  return channel.capacity > 0 ? channel.local_balance / channel.capacity : 0;
+}
+
+/**
+ * Filters, sorts, pages and formats listings of open channels
+ */
+export class ChannelListService {
+  /**
+   * Filter channels by the listing's filters
+   * @param channels The channels to filter
+   * @param params The filters of the listing
+   * @returns The channels matching every filter
+   */
+  filter(channels: ChannelData[], params: ChannelListParams): ChannelData[] {
+    const peer = params.peer?.toLowerCase();
+
+    return channels.filter((channel) => {
+      const localRatio = getLocalRatio(channel);
+      // Share of the capacity on the fuller side, whichever side that is
+      const imbalance = Math.max(localRatio, 1 - localRatio);
+
+      return (
+        (params.active === undefined || channel.active === params.active) &&
+        (!peer ||
+          channel.remote_pubkey.toLowerCase() === peer ||
+          (channel.remote_alias || '').toLowerCase().includes(peer)) &&
+        (params.minCapacity === undefined || channel.capacity >= params.minCapacity) &&
+        (params.maxCapacity === undefined || channel.capacity <= params.maxCapacity) &&
+        (params.minLocalRatio === undefined || localRatio >= params.minLocalRatio) &&
+        (params.maxLocalRatio === undefined || localRatio <= params.maxLocalRatio) &&
+        (params.minLocalBalance === undefined || channel.local_balance >= params.minLocalBalance) &&
+        (params.maxLocalBalance === undefined || channel.local_balance <= params.maxLocalBalance) &&
+        (params.minRemoteBalance === undefined ||
+          channel.remote_balance >= params.minRemoteBalance) &&
+        (params.maxRemoteBalance === undefined ||
+          channel.remote_balance <= params.maxRemoteBalance) &&
+        (params.minImbalance === undefined || imbalance >= params.minImbalance) &&
+        (params.maxImbalance === undefined || imbalance <= params.maxImbalance)
+      );
+    });
+  }
+
+  /**
+   * Sort channels by the listing's sort field and order, by default largest first
+   * @param channels The channels to sort
+   * @param params The sort field and order of the listing
+   * @returns The sorted channels
+   */
+  sort(channels: ChannelData[], params: ChannelListParams): ChannelData[] {
+    const sortBy: ChannelSortField = params.sortBy || 'capacity';
+    const sortOrder = params.sortOrder || (sortBy === 'alias' ? 'asc' : 'desc');
+    const direction = sortOrder === 'asc' ? 1 : -1;
+
+    const compare = (a: ChannelData, b: ChannelData): number => {
+      switch (sortBy) {
+        case 'alias':
+          return (a.remote_alias || a.remote_pubkey).localeCompare(
+            b.remote_alias || b.remote_pubkey
+          );
+        case 'local_ratio':
+          return getLocalRatio(a) - getLocalRatio(b);
+        default:
+          return a[sortBy] - b[sortBy];
+      }
+    };
+
+    return [...channels].sort((a, b) => direction * compare(a, b));
+  }
+
+  /**
+   * Select the page of channels requested by the listing's limit and offset
+   * @param channels All matching channels, sorted
+   * @param params The limit and offset of the listing
+   * @returns The page of channels, with its paging if one was requested
+   */
+  paginate(channels: ChannelData[], params: ChannelListParams): ChannelListPage {
+    const { limit, offset } = params;
+
+    if (limit === undefined && offset === undefined) {
+      return { channels };
+    }
+
+    const start = offset || 0;
+
+    return {
+      channels: channels.slice(start, limit === undefined ? undefined : start + limit),
+      pagination: { total: channels.length, offset: start, limit },
+    };
+  }
+
+  /**
+   * Calculate summary statistics for channels
+   * @param channels The channels to calculate statistics for
+   * @returns Summary statistics
+   */
+  summarize(channels: ChannelData[]): ChannelListSummary {
+    if (channels.length === 0) {
+      return {
+        totalCapacity: 0,
+        totalLocalBalance: 0,
+        totalRemoteBalance: 0,
+        activeChannels: 0,
+        inactiveChannels: 0,
+        averageCapacity: 0,
+      };
+    }
+
+    const activeChannels = channels.filter((c) => c.active);
+    const inactiveChannels = channels.filter((c) => !c.active);
+
+    const totalCapacity = channels.reduce((sum, channel) => sum + channel.capacity, 0);
+    const totalLocalBalance = channels.reduce((sum, channel) => sum + channel.local_balance, 0);
+    const totalRemoteBalance = channels.reduce((sum, channel) => sum + channel.remote_balance, 0);
+
+    return {
+      totalCapacity,
+      totalLocalBalance,
+      totalRemoteBalance,
+      activeChannels: activeChannels.length,
+      inactiveChannels: inactiveChannels.length,
+      averageCapacity: totalCapacity / channels.length,
+    };
+  }
+
+  /**
+   * Format channel list as text
+   * @param listing The listed channels
+   * @returns Formatted channel list
+   */
+  formatList(listing: ChannelListing): string {
+    const { channels, summary, pagination } = listing;
+    const offset = pagination?.offset || 0;
+
+    if (channels.length === 0) {
+      return pagination?.total
+        ? `No channels found after the first ${offset}.`
+        : 'No channels found.';
+    }
+
+    // Format the summary of all matching channels; channels are already sorted
+    let output = `${listing.nodes ? `Your ${listing.nodes.length} nodes have` : 'Your node has'} ${
+      summary.activeChannels + summary.inactiveChannels
+    } channels with a total capacity of ${formatSatoshis(summary.totalCapacity)}. ${
+      summary.activeChannels
+    } channels are active and ${summary.inactiveChannels} are inactive.\n\n`;
+
+    // Format the channel list, numbered by position among the matching channels
+    output += pagination
+      ? `Your channels ${offset + 1}-${offset + channels.length} of ${pagination.total}:\n`
+      : 'Your channels:\n';
+    channels.forEach((channel, index) => {
+      output += `${offset + index + 1}. ${formatChannelName(channel)}: ${formatSatoshis(
+        channel.capacity
+      )} (${channel.active ? 'active' : 'inactive'})\n`;
+    });
+
+    return output;
+  }
+
+  /**
+   * Format the inactive channels of a list as text
+   * @param channels The listed channels
+   * @returns Formatted inactive channels, empty when all channels are active
+   */
+  formatInactiveChannels(channels: ChannelData[]): string {
+    const inactiveChannels = channels.filter((c) => !c.active);
+
+    if (inactiveChannels.length === 0) {
+      return '';
+    }
+
+    let output = `\n\nInactive channels (${inactiveChannels.length}):\n`;
+    inactiveChannels.forEach((channel, index) => {
+      output += `${index + 1}. ${formatChannelName(channel)}: ${formatSatoshis(
+        channel.capacity
+      )}\n`;
+    });
+
+    return output;
+  }
+
+  /**
+   * Format channel liquidity as text
+   * @param listing The listed channels
+   * @returns Formatted channel liquidity
+   */
+  formatLiquidity(listing: ChannelListing): string {
+    const { channels, summary } = listing;
+
+    if (channels.length === 0) {
+      return 'No channels found.';
+    }
+
+    // Calculate local and remote percentages
+    const localPercentage = (summary.totalLocalBalance / summary.totalCapacity) * 100;
+    const remotePercentage = (summary.totalRemoteBalance / summary.totalCapacity) * 100;
+
+    // Format the summary
+    let output = `Liquidity Distribution: ${formatSatoshis(
+      summary.totalLocalBalance
+    )} local (${localPercentage.toFixed(0)}%), ${formatSatoshis(
+      summary.totalRemoteBalance
+    )} remote (${remotePercentage.toFixed(0)}%).\n\n`;
+
+    // Calculate balance ratios for each channel
+    const channelsWithRatios = channels.map((channel) => ({
+      ...channel,
+      localRatio: channel.local_balance / channel.capacity,
+    }));
+
+    // Sort by balance ratio (most balanced first)
+    const mostBalanced = [...channelsWithRatios]
+      .filter((c) => c.active)
+      .sort((a, b) => Math.abs(0.5 - a.localRatio) - Math.abs(0.5 - b.localRatio))
+      .slice(0, 3);
+
+    // Sort by balance ratio (most imbalanced first)
+    const mostImbalanced = [...channelsWithRatios]
+      .filter((c) => c.active)
+      .sort((a, b) => Math.abs(0.5 - b.localRatio) - Math.abs(0.5 - a.localRatio))
+      .slice(0, 3);
+
+    // Format the most balanced channels
+    if (mostBalanced.length > 0) {
+      output += 'Your most balanced channels:\n';
+      mostBalanced.forEach((channel, index) => {
+        const localPercentage = (channel.localRatio * 100).toFixed(0);
+        const remotePercentage = (100 - channel.localRatio * 100).toFixed(0);
+        output += `${index + 1}. ${formatChannelName(
+          channel
+        )}: ${localPercentage}% local / ${remotePercentage}% remote\n`;
+      });
+      output += '\n';
+    }
+
+    // Format the most imbalanced channels
+    if (mostImbalanced.length > 0) {
+      output += 'Your most imbalanced channels:\n';
+      mostImbalanced.forEach((channel, index) => {
+        const localPercentage = (channel.localRatio * 100).toFixed(0);
+        const remotePercentage = (100 - channel.localRatio * 100).toFixed(0);
+        output += `${index + 1}. ${formatChannelName(
+          channel
+        )}: ${localPercentage}% local / ${remotePercentage}% remote\n`;
+      });
+    }
+
+    return output;
+  }
+}
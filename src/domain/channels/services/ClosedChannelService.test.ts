@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Tests for ClosedChannelService
+ */
+
+import { ClosedChannelService } from './ClosedChannelService';
+import { ClosedChannelData, ClosedChannelType } from '../entities/Channel';
+
+describe('ClosedChannelService', () => {
+  const service = new ClosedChannelService();
+
+  const closed = (
+    remote_alias: string,
+    close_type: ClosedChannelType,
+    capacity = 1000000
+  ): ClosedChannelData => ({
+    close_type,
+    remote_pubkey: `pubkey-${remote_alias.toLowerCase()}`,
+    remote_alias,
+    capacity,
+    final_local_balance: 300000,
+    final_time_locked_balance: close_type === 'local_force' ? 100000 : 0,
+    transaction_id: `txid-${remote_alias.toLowerCase()}`,
+    transaction_vout: 0,
+  });
+
+  const channels = [
+    closed('Alpha', 'cooperative'),
+    closed('Bravo', 'remote_force', 3000000),
+    closed('Bravo', 'local_force'),
+    closed('Charlie', 'cooperative', 2000000),
+  ];
+
+  test('should break closures down per peer, most closures first', () => {
+    const peers = service.breakDownByPeer(channels);
+
+    expect(peers.map(({ remote_alias }) => remote_alias)).toEqual(['Bravo', 'Charlie', 'Alpha']);
+    expect(peers[0]).toEqual(
+      expect.objectContaining({
+        closedChannels: 2,
+        totalCapacity: 4000000,
+        countByType: expect.objectContaining({ local_force: 1, remote_force: 1, cooperative: 0 }),
+      })
+    );
+  });
+
+  test('should total the closed capacity and the funds recovered or time-locked', () => {
+    expect(service.summarize(channels, 'cooperative')).toEqual({
+      totalClosed: 4,
+      totalClosedCapacity: 7000000,
+      countByType: {
+        cooperative: 2,
+        local_force: 1,
+        remote_force: 1,
+        breach: 0,
+        funding_canceled: 0,
+        unknown: 0,
+      },
+      totalRecovered: 1200000,
+      totalTimeLocked: 100000,
+      closeType: 'cooperative',
+    });
+  });
+
+  test('should list at most ten peers', () => {
+    const manyPeers = Array.from({ length: 12 }, (_, index) => closed(`Peer ${index}`, 'breach'));
+    const output = service.format({
+      peers: service.breakDownByPeer(manyPeers),
+      summary: service.summarize(manyPeers),
+    });
+
+    expect(output).toContain('Closures by type:\n- Breach: 12\n');
+    expect(output).toContain('1. Peer 0: 1 channels, 0.01000000 BTC (1,000,000 sats) (1 breach)\n');
+    expect(output).toContain('...and 2 more.\n');
+  });
+
+  test('should name the requested close type when no channels are found', () => {
+    expect(service.format({ peers: [], summary: service.summarize([], 'remote_force') })).toBe(
+      'No closed channels found (force closed by peer).'
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Breakdown of closed channels.
+ *
+ * Counts past closures by how the channel was closed and by peer, so peers
+ * that repeatedly force close stand out. Totals tell how much of the local
+ * balance came back to the wallet and how much was time-locked at close.
+ */
+
+import { ClosedChannelData, ClosedChannelType } from '../entities/Channel';
+import { capitalize } from './channel-formatting';
+import { formatSatoshis } from '../../../core/utils/format_bitcoin';
+
+/**
+ * Channel close types in display order
+ */
+const CLOSED_CHANNEL_TYPES: ClosedChannelType[] = [
+  'cooperative',
+  'local_force',
+  'remote_force',
+  'breach',
+  'funding_canceled',
+  'unknown',
+];
+
+/**
+ * Human-readable labels for channel close types
+ */
+const CLOSED_CHANNEL_TYPE_LABELS: Record<ClosedChannelType, string> = {
+  cooperative: 'cooperative',
+  local_force: 'force closed by us',
+  remote_force: 'force closed by peer',
+  breach: 'breach',
+  funding_canceled: 'funding canceled',
+  unknown: 'unknown',
+};
+
+/**
+ * Maximum number of peers included in the closed channel breakdown
+ */
+const MAX_LISTED_PEERS = 10;
+
+/**
+ * Closed channels with a single peer
+ */
+export interface ClosedChannelPeerStats {
+  remote_pubkey: string;
+  remote_alias?: string;
+  closedChannels: number;
+  totalCapacity: number;
+  countByType: Record<ClosedChannelType, number>;
+}
+
+/**
+ * Totals of closed channels
+ */
+export interface ClosedChannelSummary {
+  totalClosed: number;
+  totalClosedCapacity: number;
+  countByType: Record<ClosedChannelType, number>;
+  /** Local funds settled back to the wallet by the closes */
+  totalRecovered: number;
+  /** Local funds locked in time-locked outputs at the time of closing */
+  totalTimeLocked: number;
+  closeType?: ClosedChannelType;
+}
+
+/**
+ * Breakdown of closed channels per peer with their totals
+ */
+export interface ClosedChannelReport {
+  peers: ClosedChannelPeerStats[];
+  summary: ClosedChannelSummary;
+}
+
+/**
+ * Count closed channels per close type
+ * @param channels The closed channels to count
+ * @returns Number of closed channels of each type
+ */
+function countByCloseType(channels: ClosedChannelData[]): Record<ClosedChannelType, number> {
+  return CLOSED_CHANNEL_TYPES.reduce(
+    (counts, type) => ({
+      ...counts,
+      [type]: channels.filter((channel) => channel.close_type === type).length,
+    }),
+    {} as Record<ClosedChannelType, number>
+  );
+}
+
+/**
+ * Summarizes and formats closed channels
+ */
+export class ClosedChannelService {
+  /**
+   * Break closed channels down per peer
+   * @param channels The closed channels to break down
+   * @returns Closed channel statistics per peer, most closures first
+   */
+  breakDownByPeer(channels: ClosedChannelData[]): ClosedChannelPeerStats[] {
+    const channelsByPeer = new Map<string, ClosedChannelData[]>();
+    channels.forEach((channel) => {
+      channelsByPeer.set(channel.remote_pubkey, [
+        ...(channelsByPeer.get(channel.remote_pubkey) || []),
+        channel,
+      ]);
+    });
+
+    return Array.from(channelsByPeer.entries())
+      .map(([pubkey, peerChannels]) => ({
+        remote_pubkey: pubkey,
+        remote_alias: peerChannels[0].remote_alias,
+        closedChannels: peerChannels.length,
+        totalCapacity: peerChannels.reduce((sum, channel) => sum + channel.capacity, 0),
+        countByType: countByCloseType(peerChannels),
+      }))
+      .sort((a, b) => b.closedChannels - a.closedChannels || b.totalCapacity - a.totalCapacity);
+  }
+
+  /**
+   * Calculate summary statistics for closed channels
+   * @param channels The closed channels to summarize
+   * @param closeType The close type the query was restricted to, if any
+   * @returns Summary statistics
+   */
+  summarize(channels: ClosedChannelData[], closeType?: ClosedChannelType): ClosedChannelSummary {
+    return {
+      totalClosed: channels.length,
+      totalClosedCapacity: channels.reduce((sum, channel) => sum + channel.capacity, 0),
+      countByType: countByCloseType(channels),
+      totalRecovered: channels.reduce((sum, channel) => sum + channel.final_local_balance, 0),
+      totalTimeLocked: channels.reduce(
+        (sum, channel) => sum + channel.final_time_locked_balance,
+        0
+      ),
+      closeType,
+    };
+  }
+
+  /**
+   * Format closed channels as text
+   * @param report The breakdown of the closed channels
+   * @returns Formatted closed channel breakdown
+   */
+  format(report: ClosedChannelReport): string {
+    const { peers, summary } = report;
+    const typeLabel = summary.closeType
+      ? ` (${CLOSED_CHANNEL_TYPE_LABELS[summary.closeType]})`
+      : '';
+
+    if (summary.totalClosed === 0) {
+      return `No closed channels found${typeLabel}.`;
+    }
+
+    let output = `You have ${
+      summary.totalClosed
+    } closed channels${typeLabel} with a total capacity of ${formatSatoshis(
+      summary.totalClosedCapacity
+    )}.\n\n`;
+
+    output += 'Closures by type:\n';
+    CLOSED_CHANNEL_TYPES.filter((type) => summary.countByType[type] > 0).forEach((type) => {
+      output += `- ${capitalize(CLOSED_CHANNEL_TYPE_LABELS[type])}: ${summary.countByType[type]}\n`;
+    });
+
+    output += `\nRecovered to the wallet: ${formatSatoshis(summary.totalRecovered)}\n`;
+    output += `Time-locked at close: ${formatSatoshis(summary.totalTimeLocked)}\n`;
+
+    output += '\nClosures by peer:\n';
+    peers.slice(0, MAX_LISTED_PEERS).forEach((peer, index) => {
+      const types = CLOSED_CHANNEL_TYPES.filter((type) => peer.countByType[type] > 0)
+        .map((type) => `${peer.countByType[type]} ${CLOSED_CHANNEL_TYPE_LABELS[type]}`)
+        .join(', ');
+      output += `${index + 1}. ${peer.remote_alias}: ${
+        peer.closedChannels
+      } channels, ${formatSatoshis(peer.totalCapacity)} (${types})\n`;
+    });
+
+    if (peers.length > MAX_LISTED_PEERS) {
+      output += `...and ${peers.length - MAX_LISTED_PEERS} more.\n`;
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Tests for FeeRecommendationService
+ */
+
+import { FeeRecommendationService } from './FeeRecommendationService';
+import { ChannelData } from '../entities/Channel';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { createMockGateway } from '../../../test/mocks/gateway.mock';
+
+jest.mock('../../../core/logging/logger');
+
+describe('FeeRecommendationService', () => {
+  const channels: ChannelData[] = [
+    {
+      id: '1',
+      capacity: 1000000,
+      local_balance: 500000,
+      remote_balance: 500000,
+      active: true,
+      remote_pubkey: 'pubkey-a',
+      remote_alias: 'Alias pubkey-a',
+      channel_point: 'txid-a:0',
+      local_policy: { base_fee_msat: 1000, fee_rate_ppm: 100 },
+    },
+    {
+      id: '2',
+      capacity: 1000000,
+      local_balance: 500000,
+      remote_balance: 500000,
+      active: false,
+      remote_pubkey: 'pubkey-b',
+      remote_alias: 'Alias pubkey-b',
+      channel_point: 'txid-b:0',
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let service: FeeRecommendationService;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getForwards: jest.fn().mockResolvedValue(
+        [200000, 400000].map((tokens) => ({
+          created_at: '2024-01-01T00:00:00Z',
+          fee: 10,
+          incoming_channel: '9',
+          outgoing_channel: '1',
+          tokens,
+        }))
+      ),
+      getNodeDetails: jest.fn().mockImplementation(async (pubkey: string) => {
+        if (pubkey === 'pubkey-b') {
+          throw new Error('Node not found');
+        }
+
+        return {
+          public_key: pubkey,
+          alias: `Alias ${pubkey}`,
+          sockets: [],
+          capacity: 1000000,
+          channel_count: 1,
+          channels: [
+            {
+              id: '10',
+              capacity: 1000000,
+              peer_fee_policy: { base_fee_msat: 0, fee_rate_ppm: 300 },
+            },
+          ],
+          features: [],
+        };
+      }),
+    });
+    service = new FeeRecommendationService(gateway, 'drain-protecting');
+  });
+
+  test('should use the configured strategy unless the query overrides it', () => {
+    expect(service.getStrategy()).toBe('drain-protecting');
+    expect(service.getStrategy('volume-seeking')).toBe('volume-seeking');
+  });
+
+  test('should weigh the forwards of the last week and the fees of competitors', async () => {
+    const report = await service.recommend(channels, 'balanced');
+
+    const [{ after, before }] = gateway.getForwards.mock.calls[0] as [
+      { after: string; before: string }
+    ];
+    expect(Date.parse(before) - Date.parse(after)).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(report.strategy).toBe('balanced');
+    expect(report.channels).toEqual([
+      expect.objectContaining({
+        remote_pubkey: 'pubkey-a',
+        forwardedTokens: 600000,
+        competitorFeeRate: 300,
+      }),
+      expect.objectContaining({ remote_pubkey: 'pubkey-b', competitorFeeRate: undefined }),
+    ]);
+  });
+
+  test('should format the recommendations numbered from the offset of the page', async () => {
+    const report = await service.recommend(channels, 'balanced');
+    const output = service.format(report, 5);
+
+    expect(output).toContain('Recommended fees (balanced strategy, nothing has been changed):\n');
+    expect(output).toContain(
+      `6. Alias pubkey-a: 1,000 msat + ${report.channels[0].recommended.fee_rate_ppm} ppm (+${report.channels[0].feeRateChange} ppm), currently 1,000 msat + 100 ppm\n   ${report.channels[0].rationale}\n`
+    );
+    expect(output).toContain('currently unknown fees (inactive)');
+    expect(service.format(undefined)).toBe('No channels found.');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Fee recommendations of a node's channels.
+ *
+ * Gathers what the recommender weighs: the sats each channel forwarded out
+ * in the last week and the fees other nodes charge to reach the channels'
+ * peers. Queries can override the configured strategy. Recommendations are
+ * never applied.
+ */
+
+import { ChannelData, FeeStrategy } from '../entities/Channel';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { TimePeriod, TimeWindow, resolveTimePeriod } from '../../intents/entities/TimePeriod';
+import { FeeRecommendation, FeeRecommender } from './FeeRecommender';
+import { fetchPeerDetails } from './peer-details';
+import { formatChannelName, formatFeePolicy } from './channel-formatting';
+
+/**
+ * Period whose forwarding volume fee recommendations take into account
+ */
+const FEE_RECOMMENDATION_PERIOD: TimePeriod = 'week';
+
+/**
+ * Fee policies recommended for a list of channels
+ */
+export interface FeeRecommendationReport {
+  strategy: FeeStrategy;
+  channels: FeeRecommendation[];
+}
+
+/**
+ * Recommends fee policies for the channels of a node
+ */
+export class FeeRecommendationService {
+  private readonly recommender = new FeeRecommender();
+
+  /**
+   * Create a new fee recommendation service
+   * @param gateway The Lightning Network gateway to fetch forwards and peers' fee policies from
+   * @param strategy Strategy fees are recommended with, unless overridden by a query
+   */
+  constructor(
+    private readonly gateway: LightningNetworkGateway,
+    private readonly strategy: FeeStrategy = 'balanced'
+  ) {}
+
+  /**
+   * Get the strategy to recommend fees with
+   * @param override The strategy of the query, if any
+   * @returns The strategy of the query, or the configured strategy
+   */
+  getStrategy(override?: FeeStrategy): FeeStrategy {
+    return override || this.strategy;
+  }
+
+  /**
+   * Recommend fee policies for channels from their liquidity, their
+   * forwarding volume in the last week and the fees other nodes charge to
+   * reach their peers
+   * @param channels The channels
+   * @param strategy The strategy of the query, if any
+   * @returns Promise resolving to the recommendations, in the order of the channels
+   */
+  async recommend(
+    channels: ChannelData[],
+    strategy?: FeeStrategy
+  ): Promise<FeeRecommendationReport> {
+    const resolvedStrategy = this.getStrategy(strategy);
+    const window = resolveTimePeriod(FEE_RECOMMENDATION_PERIOD);
+
+    const [forwardedTokens, peers] = await Promise.all([
+      this.fetchForwardedTokens(window),
+      fetchPeerDetails(this.gateway, channels),
+    ]);
+
+    return {
+      strategy: resolvedStrategy,
+      channels: this.recommender.recommend(channels, {
+        strategy: resolvedStrategy,
+        forwardedTokens,
+        peers,
+        periodLabel: window.label,
+      }),
+    };
+  }
+
+  /**
+   * Format fee recommendations as text
+   * @param report The fees recommended for the listed channels
+   * @param offset Position of the first listed channel among the matching channels
+   * @returns Formatted fee recommendations
+   */
+  format(report: FeeRecommendationReport | undefined, offset = 0): string {
+    if (!report || report.channels.length === 0) {
+      return 'No channels found.';
+    }
+
+    let output = `Recommended fees (${report.strategy} strategy, nothing has been changed):\n`;
+    report.channels.forEach((channel, index) => {
+      const change =
+        channel.feeRateChange === undefined || channel.feeRateChange === 0
+          ? ''
+          : ` (${channel.feeRateChange > 0 ? '+' : ''}${channel.feeRateChange} ppm)`;
+      output += `${offset + index + 1}. ${formatChannelName(channel)}: ${formatFeePolicy(
+        channel.recommended
+      )}${change}, currently ${formatFeePolicy(channel.current)}${
+        channel.active ? '' : ' (inactive)'
+      }\n   ${channel.rationale}\n`;
+    });
+
+    return output;
+  }
+
+  /**
+   * Sum the sats forwarded out through each channel in a time window
+   * @param window The time window
+   * @returns Promise resolving to the forwarded sats, keyed by channel id
+   * @private
+   */
+  private async fetchForwardedTokens(window: TimeWindow): Promise<Map<string, number>> {
+    const forwards = await this.gateway.getForwards({
+      after: new Date(window.from).toISOString(),
+      before: new Date(window.to).toISOString(),
+    });
+
+    return forwards.reduce(
+      (tokens, forward) =>
+        tokens.set(
+          forward.outgoing_channel,
+          (tokens.get(forward.outgoing_channel) || 0) + forward.tokens
+        ),
+      new Map<string, number>()
+    );
+  }
+}
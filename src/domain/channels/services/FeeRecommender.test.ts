@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Tests for FeeRecommender
+ */
+
+import { FeeRecommendationContext, FeeRecommender } from './FeeRecommender';
+import { ChannelData } from '../entities/Channel';
+import { NodeDetailsData } from '../../nodes/entities/Node';
+
+describe('FeeRecommender', () => {
+  const recommender = new FeeRecommender();
+
+  const channel = (id: string, remote_pubkey: string, local_balance: number): ChannelData => ({
+    id,
+    capacity: 1000000,
+    local_balance,
+    remote_balance: 1000000 - local_balance,
+    active: true,
+    remote_pubkey,
+    channel_point: `txid-${id}:0`,
+    local_policy: { base_fee_msat: 1000, fee_rate_ppm: 200 },
+  });
+
+  // Other nodes charge 100, 300 and 500 ppm to forward to pubkey-a
+  const peers = new Map<string, NodeDetailsData>([
+    [
+      'pubkey-a',
+      {
+        public_key: 'pubkey-a',
+        alias: 'Alias pubkey-a',
+        sockets: [],
+        capacity: 3000000,
+        channel_count: 3,
+        channels: [100, 300, 500].map((fee_rate_ppm, index) => ({
+          id: `${index + 10}`,
+          capacity: 1000000,
+          peer_fee_policy: { base_fee_msat: 0, fee_rate_ppm },
+        })),
+        features: [],
+      },
+    ],
+  ]);
+
+  const context = (
+    overrides: Partial<FeeRecommendationContext> = {}
+  ): FeeRecommendationContext => ({
+    strategy: 'balanced',
+    forwardedTokens: new Map([['1', 100000]]),
+    peers,
+    periodLabel: 'in the last 7 days',
+    ...overrides,
+  });
+
+  test("should follow competitors' median fee rate on balanced channels", () => {
+    const [recommendation] = recommender.recommend([channel('1', 'pubkey-a', 500000)], context());
+
+    expect(recommendation).toMatchObject({
+      localRatio: 0.5,
+      forwardedTokens: 100000,
+      competitorFeeRate: 300,
+      recommended: { base_fee_msat: 1000, fee_rate_ppm: 300 },
+      feeRateChange: 100,
+    });
+    expect(recommendation.rationale).toBe(
+      'Competitors charge a median of 300 ppm to reach this peer; liquidity is fairly balanced (50% local); 100,000 sats were forwarded in the last 7 days. Priced in line with competitors while evening out liquidity.'
+    );
+  });
+
+  test('should raise fees of depleted channels and lower fees of full ones', () => {
+    const [depleted, full] = recommender.recommend(
+      [channel('1', 'pubkey-a', 100000), channel('2', 'pubkey-a', 900000)],
+      context()
+    );
+
+    // 0.1 local: 300 * (1 + 0.5 * 0.8); 0.9 local and idle: 300 * (1 - 0.5 * 0.8) * 0.9
+    expect(depleted.recommended.fee_rate_ppm).toBe(420);
+    expect(depleted.rationale).toContain('little outbound liquidity is left (10% local)');
+    expect(full.recommended.fee_rate_ppm).toBe(162);
+    expect(full.rationale).toContain('nothing was forwarded in the last 7 days');
+  });
+
+  test('should weigh the signals by strategy', () => {
+    const channels = [channel('1', 'pubkey-a', 100000)];
+
+    // Drain-protecting prices above competitors and doubles the premium of depletion
+    expect(
+      recommender.recommend(channels, context({ strategy: 'drain-protecting' }))[0].recommended
+    ).toEqual({ base_fee_msat: 1000, fee_rate_ppm: 594 });
+
+    // Volume-seeking undercuts competitors without a base fee
+    expect(
+      recommender.recommend(channels, context({ strategy: 'volume-seeking' }))[0].recommended
+    ).toEqual({ base_fee_msat: 0, fee_rate_ppm: 288 });
+  });
+
+  test('should start from the current fees without competitor fees', () => {
+    const [current, unknown] = recommender.recommend(
+      [
+        channel('1', 'pubkey-b', 500000),
+        { ...channel('2', 'pubkey-b', 500000), local_policy: undefined },
+      ],
+      context({ forwardedTokens: new Map([['1', 600000]]) })
+    );
+
+    // A busy channel gets a premium on its current fee rate: 200 * 1.1
+    expect(current.competitorFeeRate).toBeUndefined();
+    expect(current.recommended.fee_rate_ppm).toBe(220);
+    expect(current.rationale).toContain('a busy channel');
+
+    // An idle channel without fees starts from the default: 100 * 0.9
+    expect(unknown.recommended).toEqual({ base_fee_msat: 1000, fee_rate_ppm: 90 });
+    expect(unknown.feeRateChange).toBeUndefined();
+  });
+});
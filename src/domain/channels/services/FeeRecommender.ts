@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Recommender of channel fee policies.
+ *
+ * Fees are anchored on what competitors charge to forward payments to the
+ * same peer, then adjusted for the channel's local liquidity and for how
+ * much it recently forwarded. The strategy decides how strongly each
+ * signal moves the fee. Recommendations are never applied.
+ */
+
+import { Channel } from '../entities/Channel.class';
+import { ChannelData, FeePolicyData, FeeStrategy } from '../entities/Channel';
+import { NodeDetailsData } from '../../nodes/entities/Node';
+import { getMedianInboundPolicy } from './fee-statistics';
+
+/**
+ * Fee rate recommended as a starting point when no fees are known, in ppm
+ */
+const DEFAULT_FEE_RATE_PPM = 100;
+
+/**
+ * Base fee recommended when no base fee is known, in millisatoshis
+ */
+const DEFAULT_BASE_FEE_MSAT = 1000;
+
+/**
+ * Share of its capacity a channel forwards in the period to count as busy
+ */
+const BUSY_TURNOVER = 0.5;
+
+/**
+ * Local ratios below and above which liquidity is called depleted or abundant
+ */
+const LOW_LOCAL_RATIO = 0.25;
+const HIGH_LOCAL_RATIO = 0.75;
+
+/**
+ * How strongly each signal moves the fee under a strategy
+ */
+interface FeeStrategySettings {
+  /** Multiplier of the competitors' fee rate */
+  competitorFactor: number;
+  /** Fee increase of an empty channel, relative to a balanced one */
+  depletedPremium: number;
+  /** Fee decrease of a full channel, relative to a balanced one */
+  abundantDiscount: number;
+  /** Fee decrease of a channel that forwarded nothing */
+  idleDiscount: number;
+  /** Fee increase of a channel that forwarded much of its capacity */
+  busyPremium: number;
+  /** Base fee to recommend, instead of keeping the current one */
+  baseFeeMsat?: number;
+  /** What the strategy aims for, ending the rationale */
+  goal: string;
+}
+
+const FEE_STRATEGY_SETTINGS: Record<FeeStrategy, FeeStrategySettings> = {
+  balanced: {
+    competitorFactor: 1,
+    depletedPremium: 0.5,
+    abundantDiscount: 0.5,
+    idleDiscount: 0.1,
+    busyPremium: 0.1,
+    goal: 'in line with competitors while evening out liquidity',
+  },
+  'drain-protecting': {
+    competitorFactor: 1.1,
+    depletedPremium: 1,
+    abundantDiscount: 0.25,
+    idleDiscount: 0,
+    busyPremium: 0.2,
+    goal: 'to keep outbound liquidity from draining',
+  },
+  'volume-seeking': {
+    competitorFactor: 0.8,
+    depletedPremium: 0.25,
+    abundantDiscount: 0.5,
+    idleDiscount: 0.25,
+    busyPremium: 0,
+    baseFeeMsat: 0,
+    goal: 'to undercut competitors and attract forwards',
+  },
+};
+
+/**
+ * A recommended fee policy for a channel
+ */
+export interface FeeRecommendation {
+  channel_point: string;
+  remote_pubkey: string;
+  remote_alias?: string;
+  /** Name of the node the channel belongs to, set when querying several nodes */
+  node?: string;
+  active: boolean;
+  /** Share of the capacity on the local side */
+  localRatio: number;
+  /** Sats forwarded out through the channel in the period */
+  forwardedTokens: number;
+  /** Median fee rate other nodes charge to forward to the peer, in ppm */
+  competitorFeeRate?: number;
+  /** Fees we currently charge on the channel */
+  current?: FeePolicyData;
+  recommended: {
+    base_fee_msat: number;
+    fee_rate_ppm: number;
+  };
+  /** Recommended minus current fee rate, in ppm */
+  feeRateChange?: number;
+  /** Why the fees are recommended */
+  rationale: string;
+}
+
+/**
+ * Signals fees are recommended from
+ */
+export interface FeeRecommendationContext {
+  strategy: FeeStrategy;
+  /** Sats forwarded out through each channel in the period, by channel id */
+  forwardedTokens: Map<string, number>;
+  /** Graph details of the channels' peers, keyed by public key */
+  peers: Map<string, NodeDetailsData>;
+  /** Description of the period, e.g. "in the last 7 days" */
+  periodLabel: string;
+}
+
+/**
+ * Recommends fee policies for channels from their liquidity, recent
+ * forwarding volume and competitors' fees
+ */
+export class FeeRecommender {
+  /**
+   * Recommend fee policies for channels
+   * @param channels The channels
+   * @param context Strategy, forwarding volumes and peers' graph details
+   * @returns A recommendation for each channel, in the order of the channels
+   */
+  recommend(channels: ChannelData[], context: FeeRecommendationContext): FeeRecommendation[] {
+    return channels.map((channel) => this.recommendChannel(channel, context));
+  }
+
+  /**
+   * Recommend the fee policy of a channel
+   * @param channel The channel
+   * @param context Strategy, forwarding volumes and peers' graph details
+   * @returns The recommendation with its rationale
+   * @private
+   */
+  private recommendChannel(
+    channel: ChannelData,
+    context: FeeRecommendationContext
+  ): FeeRecommendation {
+    const settings = FEE_STRATEGY_SETTINGS[context.strategy];
+    const localRatio = Channel.fromRaw(channel).localBalanceRatio();
+    const forwardedTokens = (channel.id && context.forwardedTokens.get(channel.id)) || 0;
+    const current = channel.local_policy;
+
+    // Other nodes' channels to the peer compete with ours
+    const competitorFeeRate = getMedianInboundPolicy(
+      context.peers.get(channel.remote_pubkey),
+      channel.id ? [channel.id] : []
+    )?.fee_rate_ppm;
+
+    const reasons: string[] = [];
+    let feeRate: number;
+    if (competitorFeeRate !== undefined) {
+      feeRate = competitorFeeRate * settings.competitorFactor;
+      reasons.push(`competitors charge a median of ${competitorFeeRate} ppm to reach this peer`);
+    } else if (current) {
+      feeRate = current.fee_rate_ppm;
+      reasons.push(
+        `no competitor fees are known, so your current ${current.fee_rate_ppm} ppm is kept as the starting point`
+      );
+    } else {
+      feeRate = DEFAULT_FEE_RATE_PPM;
+      reasons.push(`no fees are known, so ${DEFAULT_FEE_RATE_PPM} ppm is the starting point`);
+    }
+
+    // Scale between the premium of an empty channel and the discount of a full one
+    const percentage = `${Math.round(localRatio * 100)}% local`;
+    feeRate *=
+      localRatio < 0.5
+        ? 1 + settings.depletedPremium * (1 - 2 * localRatio)
+        : 1 - settings.abundantDiscount * (2 * localRatio - 1);
+    if (localRatio < LOW_LOCAL_RATIO) {
+      reasons.push(
+        `little outbound liquidity is left (${percentage}), which calls for a higher fee`
+      );
+    } else if (localRatio > HIGH_LOCAL_RATIO) {
+      reasons.push(`outbound liquidity is plentiful (${percentage}), which calls for a lower fee`);
+    } else {
+      reasons.push(`liquidity is fairly balanced (${percentage})`);
+    }
+
+    if (forwardedTokens === 0) {
+      feeRate *= 1 - settings.idleDiscount;
+      reasons.push(`nothing was forwarded ${context.periodLabel}`);
+    } else if (channel.capacity > 0 && forwardedTokens / channel.capacity >= BUSY_TURNOVER) {
+      feeRate *= 1 + settings.busyPremium;
+      reasons.push(
+        `${forwardedTokens.toLocaleString()} sats were forwarded ${
+          context.periodLabel
+        }, a busy channel`
+      );
+    } else {
+      reasons.push(
+        `${forwardedTokens.toLocaleString()} sats were forwarded ${context.periodLabel}`
+      );
+    }
+
+    const recommended = {
+      base_fee_msat: settings.baseFeeMsat ?? current?.base_fee_msat ?? DEFAULT_BASE_FEE_MSAT,
+      fee_rate_ppm: Math.max(0, Math.round(feeRate)),
+    };
+
+    return {
+      channel_point: channel.channel_point,
+      remote_pubkey: channel.remote_pubkey,
+      remote_alias: channel.remote_alias,
+      node: channel.node,
+      active: channel.active,
+      localRatio,
+      forwardedTokens,
+      competitorFeeRate,
+      current,
+      recommended,
+      feeRateChange: current ? recommended.fee_rate_ppm - current.fee_rate_ppm : undefined,
+      rationale: `${capitalize(reasons.join('; '))}. Priced ${settings.goal}.`,
+    };
+  }
+}
+
+/**
+ * Capitalize the first letter of a string
+ * @param text The text to capitalize
+ * @returns Capitalized text
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
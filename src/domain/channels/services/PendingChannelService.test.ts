@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Tests for PendingChannelService
+ */
+
+import { PendingChannelService } from './PendingChannelService';
+import { PendingChannelData } from '../entities/Channel';
+
+describe('PendingChannelService', () => {
+  const service = new PendingChannelService();
+
+  const forceClosing = (
+    remote_alias: string,
+    blocks_until_maturity?: number
+  ): PendingChannelData => ({
+    state: 'force_closing',
+    remote_pubkey: `pubkey-${remote_alias.toLowerCase()}`,
+    remote_alias,
+    capacity: 1000000,
+    local_balance: 400000,
+    remote_balance: 600000,
+    transaction_id: `txid-${remote_alias.toLowerCase()}`,
+    transaction_vout: 0,
+    maturity_height: blocks_until_maturity === undefined ? undefined : 800000,
+    blocks_until_maturity,
+  });
+
+  const channels: PendingChannelData[] = [
+    forceClosing('Alpha'),
+    forceClosing('Bravo', 0),
+    forceClosing('Charlie', 30),
+    {
+      state: 'waiting_close',
+      remote_pubkey: 'pubkey-delta',
+      remote_alias: 'Delta',
+      capacity: 500000,
+      local_balance: 250000,
+      remote_balance: 250000,
+      transaction_id: 'txid-delta',
+      transaction_vout: 1,
+    },
+  ];
+
+  test('should count the channels of each state and their time-locked funds', () => {
+    expect(service.summarize(channels, 'force_closing')).toEqual({
+      totalPending: 4,
+      countByState: { opening: 0, closing: 0, force_closing: 3, waiting_close: 1 },
+      totalPendingCapacity: 3500000,
+      totalTimeLockedBalance: 1200000,
+      state: 'force_closing',
+    });
+  });
+
+  test('should describe when the funds of each force close become spendable', () => {
+    const output = service.format({
+      pendingChannels: channels,
+      summary: service.summarize(channels),
+    });
+
+    expect(output).toContain(
+      '1. Alpha: 0.01000000 BTC (1,000,000 sats), 0.00400000 BTC (400,000 sats) waiting for the closing transaction to confirm\n'
+    );
+    expect(output).toContain(
+      '2. Bravo: 0.01000000 BTC (1,000,000 sats), 0.00400000 BTC (400,000 sats) spendable now'
+    );
+    expect(output).toContain('in 30 blocks, about 5 hours)');
+    expect(output).toContain('Waiting close channels:\n1. Delta: 0.00500000 BTC (500,000 sats)\n');
+  });
+
+  test('should name the requested state when no channels are found', () => {
+    expect(
+      service.format({ pendingChannels: [], summary: service.summarize([], 'waiting_close') })
+    ).toBe('No waiting close channels found.');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Channels that are still opening or closing.
+ *
+ * Summarizes pending channels by state and tells when the funds of
+ * force-closed channels become spendable: the local output of a force close
+ * is time-locked for a number of blocks after the closing transaction
+ * confirms.
+ */
+
+import { PendingChannelData, PendingChannelState } from '../entities/Channel';
+import { capitalize, formatChannelName } from './channel-formatting';
+import { formatSatoshis } from '../../../core/utils/format_bitcoin';
+
+/**
+ * Pending channel states in display order
+ */
+const PENDING_CHANNEL_STATES: PendingChannelState[] = [
+  'opening',
+  'closing',
+  'force_closing',
+  'waiting_close',
+];
+
+/**
+ * Average number of minutes between Bitcoin blocks
+ */
+const MINUTES_PER_BLOCK = 10;
+
+/**
+ * Totals of pending channels
+ */
+export interface PendingChannelSummary {
+  totalPending: number;
+  countByState: Record<PendingChannelState, number>;
+  totalPendingCapacity: number;
+  /** Local funds of force-closed channels that are not yet spendable */
+  totalTimeLockedBalance: number;
+  state?: PendingChannelState;
+}
+
+/**
+ * Pending channels with their totals
+ */
+export interface PendingChannelReport {
+  pendingChannels: PendingChannelData[];
+  summary: PendingChannelSummary;
+}
+
+/**
+ * Summarizes and formats channels that are still opening or closing
+ */
+export class PendingChannelService {
+  /**
+   * Calculate summary statistics for pending channels
+   * @param channels The pending channels to summarize
+   * @param state The pending state the query was restricted to, if any
+   * @returns Summary statistics
+   */
+  summarize(channels: PendingChannelData[], state?: PendingChannelState): PendingChannelSummary {
+    const countByState = PENDING_CHANNEL_STATES.reduce(
+      (counts, pendingState) => ({
+        ...counts,
+        [pendingState]: channels.filter((channel) => channel.state === pendingState).length,
+      }),
+      {} as Record<PendingChannelState, number>
+    );
+
+    return {
+      totalPending: channels.length,
+      countByState,
+      totalPendingCapacity: channels.reduce((sum, channel) => sum + channel.capacity, 0),
+      totalTimeLockedBalance: channels
+        .filter((channel) => channel.state === 'force_closing')
+        .reduce((sum, channel) => sum + (channel.pending_balance ?? channel.local_balance), 0),
+      state,
+    };
+  }
+
+  /**
+   * Format pending channels as text
+   * @param report The pending channels and their summary
+   * @returns Formatted pending channels
+   */
+  format(report: PendingChannelReport): string {
+    const { pendingChannels, summary } = report;
+    const stateLabel = summary.state ? `${this.formatState(summary.state)} ` : 'pending ';
+
+    if (pendingChannels.length === 0) {
+      return `No ${stateLabel}channels found.`;
+    }
+
+    let output = `You have ${
+      pendingChannels.length
+    } ${stateLabel}channels with a total capacity of ${formatSatoshis(
+      summary.totalPendingCapacity
+    )} (${PENDING_CHANNEL_STATES.map(
+      (state) => `${summary.countByState[state]} ${this.formatState(state)}`
+    ).join(', ')}).\n`;
+
+    PENDING_CHANNEL_STATES.forEach((state) => {
+      const channels = pendingChannels.filter((channel) => channel.state === state);
+      if (channels.length === 0) {
+        return;
+      }
+
+      output += `\n${capitalize(this.formatState(state))} channels:\n`;
+      channels.forEach((channel, index) => {
+        output += `${index + 1}. ${formatChannelName(channel)}: ${formatSatoshis(
+          channel.capacity
+        )}${state === 'force_closing' ? `, ${this.formatMaturity(channel)}` : ''}\n`;
+      });
+    });
+
+    if (summary.totalTimeLockedBalance > 0) {
+      output += `\n${formatSatoshis(
+        summary.totalTimeLockedBalance
+      )} from force-closed channels is not yet spendable.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Describe when the time-locked funds of a force-closed channel become spendable
+   * @param channel The force-closing channel
+   * @returns Formatted maturity description
+   * @private
+   */
+  private formatMaturity(channel: PendingChannelData): string {
+    const amount = formatSatoshis(channel.pending_balance ?? channel.local_balance);
+
+    if (channel.blocks_until_maturity === undefined) {
+      return `${amount} waiting for the closing transaction to confirm`;
+    }
+    if (channel.blocks_until_maturity <= 0) {
+      return `${amount} spendable now, waiting to be swept to the wallet`;
+    }
+
+    const hours = (channel.blocks_until_maturity * MINUTES_PER_BLOCK) / 60;
+    const eta = hours < 48 ? `${Math.ceil(hours)} hours` : `${Math.ceil(hours / 24)} days`;
+
+    return `${amount} spendable at block ${channel.maturity_height} (in ${channel.blocks_until_maturity} blocks, about ${eta})`;
+  }
+
+  /**
+   * Format a pending channel state for display
+   * @param state The pending channel state
+   * @returns Human-readable state
+   * @private
+   */
+  private formatState(state: PendingChannelState): string {
+    return state.replace('_', ' ');
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Tests for RebalancePlanner
+ */
+
+import { RebalancePlanner } from './RebalancePlanner';
+import { ChannelData } from '../entities/Channel';
+import { HealthCriteria } from '../value-objects/HealthCriteria';
+import { NodeDetailsData } from '../../nodes/entities/Node';
+
+describe('RebalancePlanner', () => {
+  const planner = new RebalancePlanner();
+  const criteria = HealthCriteria.default();
+
+  const channel = (
+    id: string,
+    remote_pubkey: string,
+    local_balance: number,
+    active = true
+  ): ChannelData => ({
+    id,
+    capacity: 1000000,
+    local_balance,
+    remote_balance: 1000000 - local_balance,
+    active,
+    remote_pubkey,
+    remote_alias: `Alias ${remote_pubkey}`,
+    channel_point: `txid-${id}:0`,
+  });
+
+  const peer = (public_key: string, channels: NodeDetailsData['channels']): NodeDetailsData => ({
+    public_key,
+    alias: `Alias ${public_key}`,
+    sockets: [],
+    capacity: 0,
+    channel_count: channels.length,
+    channels,
+    features: [],
+  });
+
+  const channels = [
+    channel('1', 'pubkey-a', 900000),
+    channel('2', 'pubkey-b', 100000),
+    channel('3', 'pubkey-c', 50000),
+    // A second channel with the source's peer cannot be rebalanced against it
+    channel('4', 'pubkey-a', 100000),
+    channel('5', 'pubkey-d', 950000, false),
+    channel('6', 'pubkey-e', 500000),
+  ];
+
+  const peers = new Map([
+    [
+      'pubkey-a',
+      peer('pubkey-a', [
+        {
+          id: '100',
+          capacity: 5000000,
+          peer_public_key: 'pubkey-b',
+          fee_policy: { base_fee_msat: 1000, fee_rate_ppm: 100 },
+        },
+        {
+          id: '101',
+          capacity: 5000000,
+          peer_public_key: 'pubkey-z',
+          fee_policy: { base_fee_msat: 0, fee_rate_ppm: 500 },
+        },
+      ]),
+    ],
+    [
+      'pubkey-b',
+      peer('pubkey-b', [
+        { id: '2', capacity: 1000000, fee_policy: { base_fee_msat: 1000, fee_rate_ppm: 200 } },
+      ]),
+    ],
+    [
+      'pubkey-c',
+      peer('pubkey-c', [
+        { id: '3', capacity: 1000000, fee_policy: { base_fee_msat: 0, fee_rate_ppm: 1000 } },
+      ]),
+    ],
+  ]);
+
+  test('should pair active channels with too much and too little local liquidity', () => {
+    const moves = planner.plan(channels, peers, { criteria });
+
+    expect(
+      moves.map(({ from, to, amount }) => `${from.remote_pubkey}>${to.remote_pubkey}:${amount}`)
+    ).toEqual(['pubkey-a>pubkey-b:400000', 'pubkey-a>pubkey-c:400000']);
+    expect(moves[0].from).toEqual({
+      channel_point: 'txid-1:0',
+      remote_pubkey: 'pubkey-a',
+      remote_alias: 'Alias pubkey-a',
+      localRatio: 0.9,
+    });
+  });
+
+  test('should estimate fees over a direct channel between the peers', () => {
+    const [move] = planner.plan(channels, peers, { criteria });
+
+    // 1 sat + 100 ppm over the peers' channel, 1 sat + 200 ppm back to us
+    expect(move).toMatchObject({ estimatedFee: 122, costPpm: 305, feeEstimate: 'direct' });
+  });
+
+  test("should estimate fees from the first peer's median policy without a direct channel", () => {
+    const [, move] = planner.plan(channels, peers, { criteria });
+
+    // 0.5 sat + 300 ppm at the median, 1000 ppm back to us
+    expect(move).toMatchObject({ estimatedFee: 521, costPpm: 1301, feeEstimate: 'median' });
+  });
+
+  test('should leave out moves above the fee limit and rank unknown fees last', () => {
+    expect(planner.plan(channels, peers, { criteria, maxFeePpm: 1000 })).toHaveLength(1);
+
+    const moves = planner.plan(
+      channels,
+      new Map([['pubkey-a', peers.get('pubkey-a') as NodeDetailsData]]),
+      { criteria }
+    );
+    expect(moves.map(({ feeEstimate }) => feeEstimate)).toEqual(['unknown', 'unknown']);
+    expect(moves[0].costPpm).toBeUndefined();
+    expect(planner.plan(channels, new Map(), { criteria, maxFeePpm: 1000 })).toEqual([]);
+  });
+
+  test('should limit the number of moves', () => {
+    expect(planner.plan(channels, peers, { criteria, limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Planner of circular rebalances between channels.
+ *
+ * A circular rebalance pays ourselves: the amount leaves through a channel
+ * with too much local liquidity and comes back through a channel with too
+ * little. The planner pairs such channels, proposes the amount that moves
+ * both towards the middle of the healthy range, and estimates the routing
+ * fee from the fee policies the peers announce in the graph.
+ */
+
+import { Channel } from '../entities/Channel.class';
+import { ChannelData } from '../entities/Channel';
+import { HealthCriteria } from '../value-objects/HealthCriteria';
+import { NodeDetailsData } from '../../nodes/entities/Node';
+import { getMedianOutboundPolicy } from './fee-statistics';
+
+/**
+ * How the routing fee of a move was estimated
+ *
+ * - direct: the peers share a channel, so the route and its fees are known
+ * - median: the first peer forwards at its median fee rate over an unknown route
+ * - unknown: the peers announced no fee policies
+ */
+export type RebalanceFeeEstimate = 'direct' | 'median' | 'unknown';
+
+/**
+ * A channel taking part in a rebalance
+ */
+export interface RebalanceChannel {
+  channel_point: string;
+  remote_pubkey: string;
+  remote_alias?: string;
+  /** Share of the capacity on the local side before the rebalance */
+  localRatio: number;
+}
+
+/**
+ * A proposed circular rebalance
+ */
+export interface RebalanceMove {
+  /** Channel the amount leaves through, with too much local liquidity */
+  from: RebalanceChannel;
+  /** Channel the amount comes back through, with too little local liquidity */
+  to: RebalanceChannel;
+  /** Name of the node the channels belong to, set when planning for several nodes */
+  node?: string;
+  /** Amount to move in sats */
+  amount: number;
+  /** Estimated routing fee in sats, unless the fees are unknown */
+  estimatedFee?: number;
+  /** Estimated routing fee in parts per million of the amount */
+  costPpm?: number;
+  feeEstimate: RebalanceFeeEstimate;
+}
+
+/**
+ * Options of a rebalance plan
+ */
+export interface RebalancePlanOptions {
+  /** Criteria of healthy channels, whose middle the moves aim for */
+  criteria: HealthCriteria;
+  /** Moves estimated to cost more are left out */
+  maxFeePpm?: number;
+  /** Maximum number of moves to propose */
+  limit?: number;
+}
+
+/**
+ * Default maximum number of proposed moves
+ */
+export const DEFAULT_REBALANCE_MOVE_LIMIT = 10;
+
+/**
+ * Pairs channels with too much and too little local liquidity into circular
+ * rebalances, cheapest first
+ */
+export class RebalancePlanner {
+  /**
+   * Plan rebalances between channels
+   * @param channels The open channels
+   * @param peers Graph details of the channels' peers, keyed by public key
+   * @param options Health criteria and fee limit of the plan
+   * @returns Candidate moves, cheapest first and largest first at equal cost
+   */
+  plan(
+    channels: ChannelData[],
+    peers: Map<string, NodeDetailsData>,
+    options: RebalancePlanOptions
+  ): RebalanceMove[] {
+    const { criteria, maxFeePpm, limit } = options;
+
+    // Only active channels can forward the rebalance
+    const unhealthy = channels
+      .filter((data) => data.active)
+      .map((data) => ({ data, channel: Channel.fromRaw(data) }))
+      .filter(({ channel }) => !channel.isBalanced(criteria))
+      .map(({ data, channel }) => ({
+        data,
+        amount: channel.calculateRebalanceAmount(criteria),
+      }));
+
+    const sources = unhealthy.filter(({ amount }) => amount < 0);
+    const targets = unhealthy.filter(({ amount }) => amount > 0);
+
+    const moves = sources.flatMap((source) =>
+      targets
+        .filter((target) => target.data.remote_pubkey !== source.data.remote_pubkey)
+        .map((target) =>
+          this.createMove(source.data, target.data, Math.min(-source.amount, target.amount), peers)
+        )
+    );
+
+    return this.rank(
+      moves.filter((move) => maxFeePpm === undefined || (move.costPpm ?? Infinity) <= maxFeePpm),
+      limit
+    );
+  }
+
+  /**
+   * Rank moves cheapest first, then largest first at equal cost; moves with
+   * unknown fees come last
+   * @param moves The moves to rank
+   * @param limit Maximum number of moves to keep
+   * @returns The best moves, ranked
+   */
+  rank(moves: RebalanceMove[], limit = DEFAULT_REBALANCE_MOVE_LIMIT): RebalanceMove[] {
+    return [...moves]
+      .sort((a, b) => (a.costPpm ?? Infinity) - (b.costPpm ?? Infinity) || b.amount - a.amount)
+      .slice(0, limit);
+  }
+
+  /**
+   * Create the move between two channels with its estimated fee
+   * @param from Channel the amount leaves through
+   * @param to Channel the amount comes back through
+   * @param amount Amount to move in sats
+   * @param peers Graph details of the channels' peers
+   * @returns The move
+   * @private
+   */
+  private createMove(
+    from: ChannelData,
+    to: ChannelData,
+    amount: number,
+    peers: Map<string, NodeDetailsData>
+  ): RebalanceMove {
+    const move: RebalanceMove = {
+      from: this.describeChannel(from),
+      to: this.describeChannel(to),
+      amount,
+      feeEstimate: 'unknown',
+    };
+
+    const fromPeer = peers.get(from.remote_pubkey);
+    const toPeer = peers.get(to.remote_pubkey);
+
+    // The last peer charges its policy on our channel for forwarding back to us
+    const lastHop =
+      to.remote_policy ||
+      toPeer?.channels.find((channel) => channel.id === to.id)?.fee_policy ||
+      getMedianOutboundPolicy(toPeer);
+
+    // The first peer forwards to the last peer directly if they share a
+    // channel, otherwise over an unknown route priced at its median rate
+    const directPolicy = fromPeer?.channels.find(
+      (channel) => channel.peer_public_key === to.remote_pubkey && !channel.fee_policy?.disabled
+    )?.fee_policy;
+    const firstHop = directPolicy || getMedianOutboundPolicy(fromPeer);
+
+    if (!lastHop || !firstHop) {
+      return move;
+    }
+
+    const feeMsat = [firstHop, lastHop].reduce(
+      (sum, policy) => sum + policy.base_fee_msat + (amount * 1000 * policy.fee_rate_ppm) / 1e6,
+      0
+    );
+
+    return {
+      ...move,
+      estimatedFee: Math.ceil(feeMsat / 1000),
+      costPpm: Math.round((feeMsat / 1000 / amount) * 1e6),
+      feeEstimate: directPolicy ? 'direct' : 'median',
+    };
+  }
+
+  /**
+   * Describe a channel taking part in a move
+   * @param channel The channel
+   * @returns The channel's identity and local ratio
+   * @private
+   */
+  private describeChannel(channel: ChannelData): RebalanceChannel {
+    return {
+      channel_point: channel.channel_point,
+      remote_pubkey: channel.remote_pubkey,
+      remote_alias: channel.remote_alias,
+      localRatio: Channel.fromRaw(channel).localBalanceRatio(),
+    };
+  }
+}
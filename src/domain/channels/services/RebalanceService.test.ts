@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Tests for RebalanceService
+ */
+
+import { RebalanceService } from './RebalanceService';
+import { ChannelData } from '../entities/Channel';
+import { HealthCriteria } from '../value-objects/HealthCriteria';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { createMockGateway } from '../../../test/mocks/gateway.mock';
+
+jest.mock('../../../core/logging/logger');
+
+describe('RebalanceService', () => {
+  const criteria = HealthCriteria.default();
+
+  const channel = (
+    id: string,
+    remote_pubkey: string,
+    local_balance: number,
+    active = true
+  ): ChannelData => ({
+    id,
+    capacity: 1000000,
+    local_balance,
+    remote_balance: 1000000 - local_balance,
+    active,
+    remote_pubkey,
+    remote_alias: `Alias ${remote_pubkey}`,
+    channel_point: `txid-${id}:0`,
+  });
+
+  const channels = [
+    channel('1', 'pubkey-a', 900000),
+    channel('2', 'pubkey-b', 100000),
+    channel('3', 'pubkey-c', 50000),
+    // Inactive channels cannot forward the rebalance
+    channel('4', 'pubkey-d', 950000, false),
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let service: RebalanceService;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getNodeDetails: jest.fn().mockImplementation(async (pubkey: string) => {
+        if (pubkey === 'pubkey-c') {
+          throw new Error('Node not found');
+        }
+
+        return {
+          public_key: pubkey,
+          alias: `Alias ${pubkey}`,
+          sockets: [],
+          capacity: 1000000,
+          channel_count: 1,
+          channels: [
+            { id: '9', capacity: 1000000, fee_policy: { base_fee_msat: 0, fee_rate_ppm: 100 } },
+          ],
+          features: [],
+        };
+      }),
+    });
+    service = new RebalanceService(gateway);
+  });
+
+  test('should plan moves with the fees of the peers that can be fetched', async () => {
+    const plan = await service.plan(channels, { criteria });
+
+    expect(gateway.getNodeDetails).toHaveBeenCalledTimes(4);
+    expect(plan).toMatchObject({
+      criteria: { minLocalRatio: 0.2, maxLocalRatio: 0.8 },
+      sources: 1,
+      targets: 2,
+    });
+    expect(plan.moves.map(({ to, feeEstimate }) => `${to.remote_pubkey}:${feeEstimate}`)).toEqual([
+      'pubkey-b:median',
+      'pubkey-c:unknown',
+    ]);
+  });
+
+  test('should rank the moves of several nodes together', async () => {
+    const plan = await service.plan(channels, { criteria });
+    const merged = service.merge(
+      [{ node: 'alpha', plan }, { node: 'beta', plan }, { node: 'gamma' }],
+      criteria,
+      3
+    );
+
+    expect(merged).toMatchObject({ sources: 2, targets: 4 });
+    expect(merged.moves.map(({ node, feeEstimate }) => `${node}:${feeEstimate}`)).toEqual([
+      'alpha:median',
+      'beta:median',
+      'alpha:unknown',
+    ]);
+  });
+
+  test('should format the moves or explain why there are none', async () => {
+    const plan = await service.plan(channels, { criteria });
+
+    expect(service.format(plan, channels.length)).toContain(
+      '1. 0.00400000 BTC (400,000 sats) from Alias pubkey-a (90% local) to Alias pubkey-b (10% local): about 80 sats fee (200 ppm, estimated from median fees)'
+    );
+    expect(service.format(plan, channels.length)).toContain(
+      'to Alias pubkey-c (5% local): fee unknown'
+    );
+    expect(service.format({ ...plan, moves: [] }, channels.length)).toBe(
+      'No rebalances found within the fee limit.'
+    );
+    expect(service.format({ ...plan, sources: 0, moves: [] }, channels.length)).toContain(
+      'No rebalances needed'
+    );
+    expect(service.format(plan, 0)).toBe('No channels found.');
+  });
+});
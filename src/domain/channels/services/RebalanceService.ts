@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Rebalance plans of a node's channels.
+ *
+ * Fetches the fee policies the channels' peers announce in the graph and
+ * lets the planner pair channels with too much and too little local
+ * liquidity. Channels of different nodes cannot be rebalanced against each
+ * other, so plans merged from several nodes only rank their moves together.
+ */
+
+import { ChannelData } from '../entities/Channel';
+import { Channel } from '../entities/Channel.class';
+import { HealthCriteria, HealthCriteriaParams } from '../value-objects/HealthCriteria';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { RebalanceMove, RebalancePlanner, RebalancePlanOptions } from './RebalancePlanner';
+import { getHealthCriteriaParams } from './ChannelHealthService';
+import { fetchPeerDetails } from './peer-details';
+import { formatChannelName, formatPercentage } from './channel-formatting';
+import { formatSatoshis } from '../../../core/utils/format_bitcoin';
+
+/**
+ * Proposed circular rebalances of a node's channels
+ */
+export interface RebalancePlan {
+  criteria: HealthCriteriaParams;
+  /** Channels with too much local liquidity */
+  sources: number;
+  /** Channels with too little local liquidity */
+  targets: number;
+  moves: RebalanceMove[];
+}
+
+/**
+ * Plans circular rebalances between the channels of a node
+ */
+export class RebalanceService {
+  private readonly planner = new RebalancePlanner();
+
+  /**
+   * Create a new rebalance service
+   * @param gateway The Lightning Network gateway to fetch the peers' fee policies from
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Plan circular rebalances between channels, estimating their fees from
+   * the fee policies the peers announce in the graph
+   * @param channels The open channels
+   * @param options Health criteria, fee limit and number of moves of the plan
+   * @returns Promise resolving to the plan
+   */
+  async plan(channels: ChannelData[], options: RebalancePlanOptions): Promise<RebalancePlan> {
+    const { criteria } = options;
+    const amounts = channels
+      .filter((data) => data.active)
+      .map((data) => Channel.fromRaw(data))
+      .filter((channel) => !channel.isBalanced(criteria))
+      .map((channel) => channel.calculateRebalanceAmount(criteria));
+
+    return {
+      criteria: getHealthCriteriaParams(criteria),
+      sources: amounts.filter((amount) => amount < 0).length,
+      targets: amounts.filter((amount) => amount > 0).length,
+      moves: this.planner.plan(channels, await fetchPeerDetails(this.gateway, channels), options),
+    };
+  }
+
+  /**
+   * Merge the plans of several nodes, tagging each move with its node
+   * @param plans The plan of each node, if any
+   * @param criteria The health criteria the plans were made with
+   * @param limit Maximum number of moves to keep
+   * @returns The merged plan with the best moves of all nodes
+   */
+  merge(
+    plans: { node: string; plan?: RebalancePlan }[],
+    criteria: HealthCriteria,
+    limit?: number
+  ): RebalancePlan {
+    return {
+      criteria: getHealthCriteriaParams(criteria),
+      sources: plans.reduce((sum, { plan }) => sum + (plan?.sources || 0), 0),
+      targets: plans.reduce((sum, { plan }) => sum + (plan?.targets || 0), 0),
+      moves: this.planner.rank(
+        plans.flatMap(({ node, plan }) => (plan?.moves || []).map((move) => ({ ...move, node }))),
+        limit
+      ),
+    };
+  }
+
+  /**
+   * Format a rebalance plan as text
+   * @param plan The planned rebalances
+   * @param channelCount Number of listed channels
+   * @returns Formatted rebalance plan
+   */
+  format(plan: RebalancePlan | undefined, channelCount: number): string {
+    if (!plan || channelCount === 0) {
+      return 'No channels found.';
+    }
+
+    if (plan.moves.length === 0) {
+      return plan.sources === 0 || plan.targets === 0
+        ? 'No rebalances needed: no active channels have both too much and too little local liquidity.'
+        : 'No rebalances found within the fee limit.';
+    }
+
+    let output = `${plan.sources} channels have too much and ${plan.targets} too little local liquidity. Suggested rebalances, cheapest first:\n`;
+    plan.moves.forEach((move, index) => {
+      const cost =
+        move.costPpm === undefined
+          ? 'fee unknown'
+          : `about ${move.estimatedFee?.toLocaleString()} sats fee (${move.costPpm} ppm${
+              move.feeEstimate === 'median' ? ', estimated from median fees' : ''
+            })`;
+      output += `${index + 1}. ${formatSatoshis(move.amount)} from ${formatChannelName({
+        ...move.from,
+        node: move.node,
+      })} (${formatPercentage(move.from.localRatio)} local) to ${
+        move.to.remote_alias
+      } (${formatPercentage(move.to.localRatio)} local): ${cost}\n`;
+    });
+
+    return output;
+  }
+}
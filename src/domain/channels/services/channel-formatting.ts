@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Text formatting shared by the channel services.
+ *
+ * Channels merged from several nodes are prefixed with their node, so the
+ * same peer can be told apart on each node. Ratios are shown as whole
+ * percentages and fee policies as their base fee and fee rate.
+ */
+
+import { FeePolicyData } from '../entities/Channel';
+
+/**
+ * Format the name of a channel, prefixed with its node when merged from several nodes
+ * @param channel The channel to name
+ * @returns The peer alias, e.g. "[alpha] ACINQ"
+ */
+export function formatChannelName(channel: { remote_alias?: string; node?: string }): string {
+  return channel.node ? `[${channel.node}] ${channel.remote_alias}` : `${channel.remote_alias}`;
+}
+
+/**
+ * Format a ratio as a percentage
+ * @param ratio The ratio to format
+ * @returns The percentage, e.g. "20%"
+ */
+export function formatPercentage(ratio: number): string {
+  return `${(ratio * 100).toFixed(0)}%`;
+}
+
+/**
+ * Format a fee policy as text
+ * @param policy The fee policy
+ * @returns The base fee and fee rate, e.g. "1,000 msat + 100 ppm"
+ */
+export function formatFeePolicy(policy?: FeePolicyData): string {
+  if (!policy) {
+    return 'unknown fees';
+  }
+
+  return `${policy.base_fee_msat.toLocaleString()} msat + ${policy.fee_rate_ppm} ppm${
+    policy.disabled ? ' (disabled)' : ''
+  }`;
+}
+
+/**
+ * Capitalize the first letter of a string
+ * @param text The text to capitalize
+ * @returns Capitalized text
+ */
+export function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
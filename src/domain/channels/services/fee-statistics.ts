@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Statistics of the fee policies nodes announce in the graph.
+ *
+ * A node's outbound fees are the fee policies it announces for its own side
+ * of its channels. Their median tells what the node typically charges to
+ * forward a payment, regardless of the route it takes. The policies of the
+ * other sides tell what the node's peers charge to forward payments to it,
+ * which is the competition of anyone else opening a channel to the node.
+ */
+
+import { FeePolicyData } from '../entities/Channel';
+import { NodeDetailsData } from '../../nodes/entities/Node';
+
+/**
+ * Get the median outbound fee policy of a node's enabled channels
+ * @param node Graph details of the node
+ * @returns The median base fee and fee rate, or undefined without announced policies
+ */
+export function getMedianOutboundPolicy(node?: NodeDetailsData): FeePolicyData | undefined {
+  return getMedianPolicy((node?.channels || []).map((channel) => channel.fee_policy));
+}
+
+/**
+ * Get the median fee policy the node's peers charge to forward payments to it
+ * @param node Graph details of the node
+ * @param excludedChannelIds Channels to leave out, e.g. our own channels with the node
+ * @returns The median base fee and fee rate, or undefined without announced policies
+ */
+export function getMedianInboundPolicy(
+  node?: NodeDetailsData,
+  excludedChannelIds: string[] = []
+): FeePolicyData | undefined {
+  return getMedianPolicy(
+    (node?.channels || [])
+      .filter((channel) => !excludedChannelIds.includes(channel.id))
+      .map((channel) => channel.peer_fee_policy)
+  );
+}
+
+/**
+ * Get the median of enabled fee policies
+ * @param policies The policies, undefined where none was announced
+ * @returns The median base fee and fee rate, or undefined without enabled policies
+ */
+function getMedianPolicy(policies: Array<FeePolicyData | undefined>): FeePolicyData | undefined {
+  const enabled = policies.filter(
+    (policy): policy is FeePolicyData => !!policy && !policy.disabled
+  );
+
+  if (enabled.length === 0) {
+    return undefined;
+  }
+
+  return {
+    base_fee_msat: median(enabled.map((policy) => policy.base_fee_msat)),
+    fee_rate_ppm: median(enabled.map((policy) => policy.fee_rate_ppm)),
+  };
+}
+
+/**
+ * Compute the median of numbers
+ * @param values The numbers, at least one
+ * @returns The median, rounded down between the two middle numbers
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? Math.floor((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+}
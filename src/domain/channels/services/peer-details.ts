@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Graph details of the peers of channels.
+ *
+ * Rebalance fee estimates and fee comparisons read the policies peers
+ * announce in the graph. Peers missing from the graph are left out rather
+ * than failing the query, so their channels are treated as having unknown
+ * fees.
+ */
+
+import { ChannelData } from '../entities/Channel';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { NodeDetailsData } from '../../nodes/entities/Node';
+import logger from '../../../core/logging/logger';
+import { sanitizeError } from '../../../core/errors/sanitize';
+
+/**
+ * Fetch the graph details of the channels' peers, skipping peers that are
+ * not in the graph or cannot be fetched
+ * @param gateway The Lightning Network gateway to fetch the details from
+ * @param channels The channels
+ * @returns Promise resolving to the details of each peer, keyed by public key
+ */
+export async function fetchPeerDetails(
+  gateway: LightningNetworkGateway,
+  channels: ChannelData[]
+): Promise<Map<string, NodeDetailsData>> {
+  const pubkeys = Array.from(new Set(channels.map((channel) => channel.remote_pubkey)));
+
+  const details = await Promise.all(
+    pubkeys.map(async (pubkey) => {
+      try {
+        return await gateway.getNodeDetails(pubkey);
+      } catch (error) {
+        logger.debug(`Could not fetch details for node ${pubkey.substring(0, 8)}...`, {
+          component: 'peer-details',
+          error: sanitizeError(error)?.message || 'Unknown error',
+        });
+        return undefined;
+      }
+    })
+  );
+
+  return new Map(
+    details.filter((node): node is NodeDetailsData => !!node).map((node) => [node.public_key, node])
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Type definitions for Lightning Network forwarding events.
+ *
+ * Types are derived from the Zod schemas to keep runtime validation
+ * and compile-time type checking consistent.
+ */
+
+export { ForwardData } from '../schemas/forward';
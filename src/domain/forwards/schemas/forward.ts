@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Zod schema definition for Lightning Network forwarding events.
+ *
+ * This file defines forward-related schemas that are used for both runtime
+ * validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for a payment forwarded by the node
+ */
+export const ForwardSchema = z.object({
+  created_at: z.string(),
+  fee: z.number(),
+  tokens: z.number(),
+  incoming_channel: z.string(),
+  outgoing_channel: z.string(),
+});
+
+/**
+ * Type for forward data structure
+ */
+export type ForwardData = z.infer<typeof ForwardSchema>;
+
+/**
+ * Schema of the result of a forwarding query, without its formatted text
+ */
+export const ForwardQueryResultSchema = z.object({
+  forwards: z.array(ForwardSchema),
+  channels: z.array(
+    z.object({
+      channel_id: z.string(),
+      remote_pubkey: z.string().optional(),
+      remote_alias: z.string().optional(),
+      capacity: z.number().optional(),
+      is_open: z.boolean(),
+      incoming_forwards: z.number(),
+      outgoing_forwards: z.number(),
+      outgoing_tokens: z.number(),
+      earned_fees: z.number(),
+    })
+  ),
+  peers: z.array(
+    z.object({
+      remote_pubkey: z.string(),
+      remote_alias: z.string().optional(),
+      channels: z.number(),
+      outgoing_forwards: z.number(),
+      outgoing_tokens: z.number(),
+      earned_fees: z.number(),
+    })
+  ),
+  days: z.array(
+    z.object({
+      date: z.string(),
+      forwards: z.number(),
+      tokens: z.number(),
+      earned_fees: z.number(),
+    })
+  ),
+  summary: z.object({
+    totalForwards: z.number(),
+    totalForwarded: z.number(),
+    totalFees: z.number(),
+    averageFeePpm: z.number(),
+    topEarningChannels: z.array(z.string()),
+    idleChannels: z.array(z.string()),
+    period: z
+      .object({
+        from: z.string(),
+        to: z.string(),
+        label: z.string(),
+      })
+      .optional(),
+  }),
+});
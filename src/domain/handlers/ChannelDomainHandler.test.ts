@@ -0,0 +1,916 @@
+/**
+ * @fileoverview Tests for ChannelDomainHandler
+ */
+
+import {
+  ChannelDomainHandler,
+  ChannelHistoryQueryResult,
+  ClosedChannelQueryResult,
+  OpenChannelQueryResult,
+  PendingChannelQueryResult,
+} from './ChannelDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { ChannelData, ClosedChannelData, PendingChannelData } from '../channels/entities/Channel';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+import { ChannelDomainResultSchema } from '../channels/schemas/channel-response';
+import { HealthCriteria } from '../channels/value-objects/HealthCriteria';
+import { SnapshotStore } from '../history/repositories/SnapshotStore';
+import { createSnapshot } from '../history/services/SnapshotScheduler';
+import { resolveTimePeriod, toTimeRange } from '../intents/entities/TimePeriod';
+
+jest.mock('../../core/logging/logger');
+
+describe('ChannelDomainHandler', () => {
+  const channels: ChannelData[] = [
+    {
+      capacity: 1000000,
+      local_balance: 500000,
+      remote_balance: 500000,
+      active: true,
+      remote_pubkey: 'pubkey-a',
+      channel_point: 'txid-a:0',
+    },
+    {
+      capacity: 2000000,
+      local_balance: 1800000,
+      remote_balance: 200000,
+      active: false,
+      remote_pubkey: 'pubkey-b',
+      channel_point: 'txid-b:0',
+    },
+  ];
+
+  const pendingChannels: PendingChannelData[] = [
+    {
+      state: 'opening',
+      remote_pubkey: 'pubkey-c',
+      capacity: 500000,
+      local_balance: 500000,
+      remote_balance: 0,
+      transaction_id: 'txid-c',
+      transaction_vout: 0,
+    },
+    {
+      state: 'force_closing',
+      remote_pubkey: 'pubkey-d',
+      capacity: 3000000,
+      local_balance: 1000000,
+      remote_balance: 2000000,
+      transaction_id: 'txid-d',
+      transaction_vout: 1,
+      close_transaction_id: 'close-txid-d',
+      pending_balance: 990000,
+      maturity_height: 800432,
+      blocks_until_maturity: 432,
+    },
+  ];
+
+  const closedChannels: ClosedChannelData[] = [
+    {
+      close_type: 'cooperative',
+      remote_pubkey: 'pubkey-e',
+      capacity: 1000000,
+      final_local_balance: 600000,
+      final_time_locked_balance: 0,
+      transaction_id: 'txid-e',
+      transaction_vout: 0,
+    },
+    {
+      close_type: 'remote_force',
+      remote_pubkey: 'pubkey-f',
+      capacity: 2000000,
+      final_local_balance: 300000,
+      final_time_locked_balance: 0,
+      transaction_id: 'txid-f',
+      transaction_vout: 0,
+    },
+    {
+      close_type: 'local_force',
+      remote_pubkey: 'pubkey-f',
+      capacity: 500000,
+      final_local_balance: 200000,
+      final_time_locked_balance: 200000,
+      transaction_id: 'txid-g',
+      transaction_vout: 1,
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: ChannelDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getChannels: jest.fn().mockResolvedValue(channels),
+      getPendingChannels: jest.fn().mockResolvedValue(pendingChannels),
+      getClosedChannels: jest.fn().mockResolvedValue(closedChannels),
+      getNodeAlias: jest.fn().mockImplementation(async (pubkey: string) => `Alias ${pubkey}`),
+    });
+
+    handler = new ChannelDomainHandler(gateway);
+  });
+
+  test('should only handle channel intents', () => {
+    expect(handler.canHandle(createIntent('channels', 'list', 'show channels'))).toBe(true);
+    expect(handler.canHandle(createIntent('peers', 'list', 'show peers'))).toBe(false);
+  });
+
+  test('should list open channels with aliases', async () => {
+    const result = (await handler.handle(
+      createIntent('channels', 'list', 'Show my channels')
+    )) as OpenChannelQueryResult;
+
+    expect(gateway.getPendingChannels).not.toHaveBeenCalled();
+    expect(result.formattedResults?.list).toContain('Your node has 2 channels');
+    expect(result.formattedResults?.list).toContain('Inactive channels (1)');
+  });
+
+  test.each(['list', 'pending', 'closed'] as const)(
+    'should return %s results matching the published result schema',
+    async (operation) => {
+      gateway.getPendingChannels.mockResolvedValue(operation === 'pending' ? pendingChannels : []);
+
+      const result = await handler.handle(createIntent('channels', operation, 'Show channels'));
+
+      expect(ChannelDomainResultSchema.safeParse(result).success).toBe(true);
+    }
+  );
+
+  describe('channel list filters', () => {
+    const listChannels = async (params: Record<string, unknown>) =>
+      (await handler.handle(
+        createIntent('channels', 'list', 'listChannels', new Map(Object.entries(params)))
+      )) as OpenChannelQueryResult;
+
+    beforeEach(() => {
+      gateway.getChannels.mockResolvedValue([
+        ...channels,
+        {
+          capacity: 5000000,
+          local_balance: 1000000,
+          remote_balance: 4000000,
+          active: true,
+          remote_pubkey: 'pubkey-g',
+          channel_point: 'txid-g:0',
+        },
+      ]);
+    });
+
+    test('should filter by state, capacity and local ratio', async () => {
+      const result = await listChannels({
+        active: true,
+        minCapacity: 1000000,
+        maxCapacity: 4000000,
+        minLocalRatio: 0.4,
+      });
+
+      expect(result.channels.map((channel) => channel.remote_pubkey)).toEqual(['pubkey-a']);
+      expect(result.summary).toMatchObject({ activeChannels: 1, inactiveChannels: 0 });
+      expect(result.formattedResults?.list).toContain('Your node has 1 channels');
+    });
+
+    test('should filter by balances and imbalance', async () => {
+      const remote = await listChannels({ minRemoteBalance: 1000000, maxLocalBalance: 1000000 });
+      expect(remote.channels.map((channel) => channel.remote_pubkey)).toEqual(['pubkey-g']);
+
+      const imbalanced = await listChannels({ minImbalance: 0.8 });
+      expect(imbalanced.channels.map((channel) => channel.remote_pubkey)).toEqual([
+        'pubkey-g',
+        'pubkey-b',
+      ]);
+      expect(imbalanced.summary.totalCapacity).toBe(7000000);
+      expect(ChannelDomainResultSchema.safeParse(imbalanced).success).toBe(true);
+
+      const balanced = await listChannels({ maxImbalance: 0.7 });
+      expect(balanced.channels.map((channel) => channel.remote_pubkey)).toEqual(['pubkey-a']);
+    });
+
+    test('should match peers by public key or alias', async () => {
+      expect((await listChannels({ peer: 'PUBKEY-B' })).channels).toHaveLength(1);
+      expect((await listChannels({ peer: 'alias pubkey-g' })).channels).toHaveLength(1);
+      expect((await listChannels({ peer: 'pubkey' })).channels).toHaveLength(3);
+    });
+
+    test('should sort by the requested field and order', async () => {
+      const result = await listChannels({ sortBy: 'local_ratio', sortOrder: 'asc' });
+
+      expect(result.channels.map((channel) => channel.remote_pubkey)).toEqual([
+        'pubkey-g',
+        'pubkey-a',
+        'pubkey-b',
+      ]);
+    });
+
+    test('should page the matching channels and summarize all of them', async () => {
+      const result = await listChannels({ limit: 1, offset: 1 });
+
+      expect(result.channels.map((channel) => channel.remote_pubkey)).toEqual(['pubkey-b']);
+      expect(result.pagination).toEqual({ total: 3, offset: 1, limit: 1 });
+      expect(result.summary.totalCapacity).toBe(8000000);
+      expect(result.formattedResults?.list).toContain('Your channels 2-2 of 3:\n2. Alias pubkey-b');
+      expect(ChannelDomainResultSchema.safeParse(result).success).toBe(true);
+    });
+
+    test('should ignore attributes that are not listing parameters', async () => {
+      const result = await listChannels({
+        active: true,
+        healthMinLocalRatio: 0.9,
+        timeLabel: 'in the last 7 days',
+        node: 'alpha',
+      });
+
+      expect(result.channels.map((channel) => channel.remote_pubkey)).toEqual([
+        'pubkey-g',
+        'pubkey-a',
+      ]);
+    });
+
+    test('should reject invalid listing parameters', async () => {
+      await expect(listChannels({ sortBy: 'fees', limit: 0 })).rejects.toThrow(
+        'Invalid channel listing: sortBy:'
+      );
+      await expect(listChannels({ minCapacity: 2000000, maxCapacity: 1000000 })).rejects.toThrow(
+        'minCapacity cannot be above maxCapacity'
+      );
+    });
+
+    test('should page merged channels of several nodes', async () => {
+      const intent = createIntent(
+        'channels',
+        'list',
+        'listChannels',
+        new Map<string, unknown>([
+          ['sortBy', 'capacity'],
+          ['limit', 2],
+        ])
+      );
+      const nodeIntent = handler.getNodeIntent(intent);
+      const alpha = await handler.handle(nodeIntent);
+      const beta = await handler.handle(nodeIntent);
+
+      const result = (await handler.aggregate(
+        [
+          { node: 'alpha', result: alpha },
+          { node: 'beta', result: beta },
+        ],
+        intent
+      )) as OpenChannelQueryResult;
+
+      expect(nodeIntent.attributes.has('limit')).toBe(false);
+      expect(result.channels.map(({ node, remote_pubkey }) => `${node}:${remote_pubkey}`)).toEqual([
+        'alpha:pubkey-g',
+        'beta:pubkey-g',
+      ]);
+      expect(result.pagination).toEqual({ total: 6, offset: 0, limit: 2 });
+    });
+  });
+
+  describe('channel health', () => {
+    test('should classify channels and suggest rebalance amounts', async () => {
+      const result = (await handler.handle(
+        createIntent('channels', 'health', 'What is the health of my channels?')
+      )) as OpenChannelQueryResult;
+
+      expect(result.summary).toMatchObject({ healthyChannels: 1, unhealthyChannels: 1 });
+      expect(result.health?.criteria).toEqual({ minLocalRatio: 0.2, maxLocalRatio: 0.8 });
+      expect(result.health?.channels).toEqual([
+        expect.objectContaining({
+          remote_pubkey: 'pubkey-b',
+          healthy: false,
+          rebalanceAmount: -800000,
+        }),
+        expect.objectContaining({ remote_pubkey: 'pubkey-a', healthy: true, rebalanceAmount: 0 }),
+      ]);
+      expect(result.formattedResults?.health).toContain('1 of 2 channels are healthy');
+      expect(result.formattedResults?.health).toContain(
+        '1. Alias pubkey-b: 90% local, send 0.00800000 BTC (800,000 sats) to rebalance (inactive)'
+      );
+      expect(ChannelDomainResultSchema.safeParse(result).success).toBe(true);
+    });
+
+    test('should use the configured criteria unless the query overrides them', async () => {
+      handler = new ChannelDomainHandler(
+        gateway,
+        HealthCriteria.create({ minLocalRatio: 0.1, maxLocalRatio: 0.95 })
+      );
+
+      const configured = (await handler.handle(
+        createIntent('channels', 'health', 'Are my channels healthy?')
+      )) as OpenChannelQueryResult;
+      const overridden = (await handler.handle(
+        createIntent(
+          'channels',
+          'health',
+          'Are my channels healthy with max local ratio 0.4?',
+          new Map([['healthMaxLocalRatio', 0.4]])
+        )
+      )) as OpenChannelQueryResult;
+
+      expect(configured.summary.unhealthyChannels).toBe(0);
+      expect(overridden.health?.criteria).toEqual({ minLocalRatio: 0.1, maxLocalRatio: 0.4 });
+      expect(overridden.summary.unhealthyChannels).toBe(2);
+    });
+
+    test('should reject criteria with the minimum above the maximum', async () => {
+      await expect(
+        handler.handle(
+          createIntent(
+            'channels',
+            'health',
+            'health',
+            new Map([
+              ['healthMinLocalRatio', 0.6],
+              ['healthMaxLocalRatio', 0.4],
+            ])
+          )
+        )
+      ).rejects.toThrow(
+        'Invalid health criteria: the minimum local ratio 60% must be below the maximum local ratio 40%'
+      );
+    });
+
+    test('should name the configured ratio an override conflicts with', async () => {
+      await expect(
+        handler.handle(
+          createIntent(
+            'channels',
+            'health',
+            'Are my channels healthy with min local ratio 0.9?',
+            new Map([['healthMinLocalRatio', 0.9]])
+          )
+        )
+      ).rejects.toThrow(
+        'Invalid health criteria: the minimum local ratio 90% must be below the maximum local ratio 80% (configured)'
+      );
+    });
+
+    test('should reject ratios outside 0% to 100%', async () => {
+      await expect(
+        handler.handle(
+          createIntent('channels', 'health', 'health', new Map([['healthMaxLocalRatio', 1.5]]))
+        )
+      ).rejects.toThrow('must be between 0% and 100%');
+    });
+  });
+
+  describe('channel fees', () => {
+    beforeEach(() => {
+      gateway.getChannels.mockResolvedValue([
+        {
+          ...channels[0],
+          local_policy: { base_fee_msat: 1000, fee_rate_ppm: 100 },
+          remote_policy: { base_fee_msat: 0, fee_rate_ppm: 50 },
+        },
+        channels[1],
+      ]);
+      gateway.getNodeDetails.mockImplementation(async (pubkey: string) =>
+        pubkey === 'pubkey-a'
+          ? {
+              public_key: pubkey,
+              alias: `Alias ${pubkey}`,
+              sockets: [],
+              capacity: 3000000,
+              channel_count: 3,
+              channels: [200, 400, 300].map((fee_rate_ppm, index) => ({
+                id: `${index}`,
+                capacity: 1000000,
+                fee_policy: { base_fee_msat: 0, fee_rate_ppm },
+              })),
+              features: [],
+            }
+          : undefined
+      );
+    });
+
+    test("should compare our fee rates with the peer's median fee rate", async () => {
+      const result = (await handler.handle(
+        createIntent('channels', 'fees', 'What am I charging on my channels?')
+      )) as OpenChannelQueryResult;
+
+      expect(result.fees?.channels).toEqual([
+        expect.objectContaining({ remote_pubkey: 'pubkey-b', local_policy: undefined }),
+        expect.objectContaining({
+          remote_pubkey: 'pubkey-a',
+          local_policy: { base_fee_msat: 1000, fee_rate_ppm: 100 },
+          remote_policy: { base_fee_msat: 0, fee_rate_ppm: 50 },
+          peerMedianFeeRate: 300,
+          feeRateDifference: -200,
+        }),
+      ]);
+      expect(result.formattedResults?.fees).toContain(
+        "2. Alias pubkey-a: you charge 1,000 msat + 100 ppm, the peer charges 0 msat + 50 ppm; 200 ppm below the peer's median of 300 ppm"
+      );
+      expect(result.formattedResults?.fees).toContain(
+        '1. Alias pubkey-b: you charge unknown fees, the peer charges unknown fees (inactive)'
+      );
+      expect(ChannelDomainResultSchema.safeParse(result).success).toBe(true);
+    });
+
+    test('should keep the fees of the merged page of channels', async () => {
+      const intent = createIntent('channels', 'fees', 'fees', new Map([['limit', 1]]));
+      const nodeIntent = handler.getNodeIntent(intent);
+      const alpha = await handler.handle(nodeIntent);
+      const beta = await handler.handle(nodeIntent);
+
+      const result = (await handler.aggregate(
+        [
+          { node: 'alpha', result: alpha },
+          { node: 'beta', result: beta },
+        ],
+        intent
+      )) as OpenChannelQueryResult;
+
+      expect(result.fees?.channels).toEqual([
+        expect.objectContaining({ node: 'alpha', remote_pubkey: 'pubkey-b' }),
+      ]);
+    });
+  });
+
+  describe('fee recommendations', () => {
+    beforeEach(() => {
+      gateway.getChannels.mockResolvedValue([
+        { ...channels[0], id: '1', local_policy: { base_fee_msat: 1000, fee_rate_ppm: 100 } },
+        channels[1],
+      ]);
+      gateway.getForwards.mockResolvedValue([
+        {
+          created_at: '2024-01-01T00:00:00Z',
+          fee: 60,
+          incoming_channel: '9',
+          outgoing_channel: '1',
+          tokens: 600000,
+        },
+      ]);
+      gateway.getNodeDetails.mockImplementation(async (pubkey: string) =>
+        pubkey === 'pubkey-a'
+          ? {
+              public_key: pubkey,
+              alias: `Alias ${pubkey}`,
+              sockets: [],
+              capacity: 4000000,
+              channel_count: 4,
+              // Our own channel with the peer is not a competitor
+              channels: [200, 400, 300, 1000].map((fee_rate_ppm, index) => ({
+                id: index === 3 ? '1' : `${index + 10}`,
+                capacity: 1000000,
+                peer_fee_policy: { base_fee_msat: 0, fee_rate_ppm },
+              })),
+              features: [],
+            }
+          : undefined
+      );
+    });
+
+    test("should recommend fees from competitors' fees, liquidity and volume", async () => {
+      const result = (await handler.handle(
+        createIntent('channels', 'recommend', 'Recommend fees for my channels')
+      )) as OpenChannelQueryResult;
+
+      expect(gateway.getForwards).toHaveBeenCalledWith({
+        after: expect.any(String),
+        before: expect.any(String),
+      });
+      expect(result.feeRecommendations?.strategy).toBe('balanced');
+      expect(result.feeRecommendations?.channels).toEqual([
+        expect.objectContaining({
+          remote_pubkey: 'pubkey-b',
+          recommended: { base_fee_msat: 1000, fee_rate_ppm: 54 },
+        }),
+        expect.objectContaining({
+          remote_pubkey: 'pubkey-a',
+          forwardedTokens: 600000,
+          competitorFeeRate: 300,
+          recommended: { base_fee_msat: 1000, fee_rate_ppm: 330 },
+          feeRateChange: 230,
+        }),
+      ]);
+      expect(result.formattedResults?.recommend).toContain(
+        'Recommended fees (balanced strategy, nothing has been changed)'
+      );
+      expect(result.formattedResults?.recommend).toContain(
+        '2. Alias pubkey-a: 1,000 msat + 330 ppm (+230 ppm), currently 1,000 msat + 100 ppm'
+      );
+      expect(result.formattedResults?.recommend).toContain(
+        'Competitors charge a median of 300 ppm to reach this peer'
+      );
+      expect(ChannelDomainResultSchema.safeParse(result).success).toBe(true);
+    });
+
+    test('should use the configured strategy unless the query overrides it', async () => {
+      handler = new ChannelDomainHandler(gateway, HealthCriteria.default(), 'volume-seeking');
+
+      const configured = (await handler.handle(
+        createIntent('channels', 'recommend', 'Recommend fees')
+      )) as OpenChannelQueryResult;
+      expect(configured.feeRecommendations?.channels[0].recommended).toEqual({
+        base_fee_msat: 0,
+        fee_rate_ppm: 45,
+      });
+
+      const overridden = (await handler.handle(
+        createIntent(
+          'channels',
+          'recommend',
+          'Recommend fees',
+          new Map([['feeStrategy', 'drain-protecting']])
+        )
+      )) as OpenChannelQueryResult;
+      expect(overridden.feeRecommendations?.strategy).toBe('drain-protecting');
+      expect(overridden.feeRecommendations?.channels[0].recommended).toEqual({
+        base_fee_msat: 1000,
+        fee_rate_ppm: 80,
+      });
+    });
+  });
+
+  describe('rebalance plan', () => {
+    const unbalancedChannels: ChannelData[] = [
+      { ...channels[0], id: '1', local_balance: 900000, remote_balance: 100000 },
+      { ...channels[0], id: '2', remote_pubkey: 'pubkey-c', channel_point: 'txid-c:0' },
+      {
+        ...channels[0],
+        id: '3',
+        remote_pubkey: 'pubkey-e',
+        channel_point: 'txid-e:0',
+        local_balance: 100000,
+        remote_balance: 900000,
+      },
+    ];
+
+    beforeEach(() => {
+      gateway.getChannels.mockResolvedValue(unbalancedChannels);
+      gateway.getNodeDetails.mockImplementation(async (pubkey: string) =>
+        pubkey === 'pubkey-e'
+          ? {
+              public_key: pubkey,
+              alias: `Alias ${pubkey}`,
+              sockets: [],
+              capacity: 1000000,
+              channel_count: 1,
+              channels: [
+                {
+                  id: '3',
+                  capacity: 1000000,
+                  fee_policy: { base_fee_msat: 0, fee_rate_ppm: 200 },
+                },
+              ],
+              features: [],
+            }
+          : {
+              public_key: pubkey,
+              alias: `Alias ${pubkey}`,
+              sockets: [],
+              capacity: 5000000,
+              channel_count: 1,
+              channels: [
+                {
+                  id: '9',
+                  capacity: 5000000,
+                  peer_public_key: 'pubkey-e',
+                  fee_policy: { base_fee_msat: 0, fee_rate_ppm: 100 },
+                },
+              ],
+              features: [],
+            }
+      );
+    });
+
+    test('should propose moves ranked by estimated fee', async () => {
+      const result = (await handler.handle(
+        createIntent('channels', 'rebalance', 'Plan circular rebalances')
+      )) as OpenChannelQueryResult;
+
+      expect(result.rebalance).toMatchObject({ sources: 1, targets: 1 });
+      expect(result.rebalance?.moves).toEqual([
+        expect.objectContaining({
+          from: expect.objectContaining({ remote_pubkey: 'pubkey-a', localRatio: 0.9 }),
+          to: expect.objectContaining({ remote_pubkey: 'pubkey-e', localRatio: 0.1 }),
+          amount: 400000,
+          estimatedFee: 120,
+          costPpm: 300,
+          feeEstimate: 'direct',
+        }),
+      ]);
+      expect(result.formattedResults?.rebalance).toContain(
+        '1. 0.00400000 BTC (400,000 sats) from Alias pubkey-a (90% local) to Alias pubkey-e (10% local): about 120 sats fee (300 ppm)'
+      );
+      expect(ChannelDomainResultSchema.safeParse(result).success).toBe(true);
+    });
+
+    test('should report when no moves fit the fee limit', async () => {
+      const result = (await handler.handle(
+        createIntent('channels', 'rebalance', 'rebalance', new Map([['maxFeePpm', 100]]))
+      )) as OpenChannelQueryResult;
+
+      expect(result.rebalance?.moves).toEqual([]);
+      expect(result.formattedResults?.rebalance).toBe('No rebalances found within the fee limit.');
+    });
+
+    test('should rank the moves of several nodes together', async () => {
+      const intent = createIntent('channels', 'rebalance', 'rebalance', new Map([['maxMoves', 1]]));
+      const alpha = await handler.handle(intent);
+      const beta = await handler.handle(intent);
+
+      const result = (await handler.aggregate(
+        [
+          { node: 'alpha', result: alpha },
+          { node: 'beta', result: beta },
+        ],
+        intent
+      )) as OpenChannelQueryResult;
+
+      expect(result.rebalance).toMatchObject({ sources: 2, targets: 2 });
+      expect(result.rebalance?.moves.map(({ node }) => node)).toEqual(['alpha']);
+      expect(result.formattedResults?.rebalance).toContain('from [alpha] Alias pubkey-a');
+    });
+  });
+
+  describe('channel history', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    let store: jest.Mocked<SnapshotStore>;
+
+    const snapshot = (daysAgo: number, snapshotChannels: ChannelData[]) =>
+      createSnapshot(
+        'alpha',
+        snapshotChannels,
+        { confirmed_balance: 100000, unconfirmed_balance: 0 },
+        new Date(Date.now() - daysAgo * DAY_MS)
+      );
+
+    beforeEach(() => {
+      store = {
+        append: jest.fn(),
+        query: jest
+          .fn()
+          .mockResolvedValue([
+            snapshot(6, channels),
+            snapshot(1, [channels[0], { ...channels[1], local_balance: 1400000 }]),
+          ]),
+        prune: jest.fn(),
+      };
+      handler = new ChannelDomainHandler(gateway, undefined, undefined, {
+        store,
+        node: 'alpha',
+      });
+    });
+
+    test('should compare the snapshots of the requested period', async () => {
+      const week = toTimeRange(resolveTimePeriod('week'));
+      const result = (await handler.handle(
+        createIntent(
+          'channels',
+          'history',
+          'How has my outbound liquidity changed in the last 7 days?',
+          new Map<string, unknown>([
+            ['from', week.from],
+            ['to', week.to],
+            ['timeLabel', week.label],
+          ])
+        )
+      )) as ChannelHistoryQueryResult;
+
+      const [{ node, from, to }] = store.query.mock.calls[0];
+      expect(node).toBe('alpha');
+      expect((to as number) - (from as number)).toBe(7 * DAY_MS);
+      expect(gateway.getChannels).not.toHaveBeenCalled();
+      expect(ChannelDomainResultSchema.safeParse(result).success).toBe(true);
+
+      expect(result.history[0].deltas.totalLocalBalance).toBe(-400000);
+      expect(result.history[0].trends.totalLocalBalance.direction).toBe('decreasing');
+      expect(result.formattedResults?.history).toContain(
+        'Channel history in the last 7 days (2 snapshots from'
+      );
+      expect(result.formattedResults?.history).toContain(
+        '- Outbound liquidity: 2,300,000 → 1,900,000 sats (-400,000 sats, decreasing)'
+      );
+      expect(result.formattedResults?.history).toContain(
+        'Largest changes:\n1. Alias pubkey-b: -400,000 sats local'
+      );
+    });
+
+    test('should explain when there is not enough history', async () => {
+      const intent = createIntent('channels', 'history', 'Show my channel balance trend');
+
+      store.query.mockResolvedValue([snapshot(1, channels)]);
+      expect((await handler.handle(intent)).formattedResults).toEqual({
+        history:
+          'Not enough snapshots in the last 30 days to compare yet. At least two are needed.',
+      });
+
+      const unrecorded = (await new ChannelDomainHandler(gateway).handle(
+        intent
+      )) as ChannelHistoryQueryResult;
+      expect(unrecorded).toMatchObject({ history: [], recording: false });
+      expect(unrecorded.formattedResults?.history).toContain('Set SNAPSHOT_DIR');
+    });
+
+    test('should merge the histories of several nodes', async () => {
+      const intent = createIntent('channels', 'history', 'Show my channel history');
+      const alpha = await handler.handle(intent);
+
+      const result = (await handler.aggregate(
+        [
+          { node: 'alpha', result: alpha },
+          { node: 'beta', result: await new ChannelDomainHandler(gateway).handle(intent) },
+        ],
+        intent
+      )) as ChannelHistoryQueryResult;
+
+      expect(result.nodes).toEqual(['alpha', 'beta']);
+      expect(result.recording).toBe(true);
+      expect(result.history.map((history) => history.node)).toEqual(['alpha']);
+      expect(result.formattedResults?.history).toMatch(
+        /^\[alpha\] Channel history in the last 30 days/
+      );
+    });
+  });
+
+  describe('pending channels', () => {
+    test('should summarize pending channels by state', async () => {
+      const result = (await handler.handle(
+        createIntent('channels', 'pending', 'Show pending channels')
+      )) as PendingChannelQueryResult;
+
+      expect(gateway.getChannels).not.toHaveBeenCalled();
+      expect(result.pendingChannels.map((channel) => channel.remote_alias)).toEqual([
+        'Alias pubkey-c',
+        'Alias pubkey-d',
+      ]);
+      expect(result.summary).toEqual({
+        totalPending: 2,
+        countByState: { opening: 1, closing: 0, force_closing: 1, waiting_close: 0 },
+        totalPendingCapacity: 3500000,
+        totalTimeLockedBalance: 990000,
+        state: undefined,
+      });
+      expect(result.formattedResults?.pending).toContain(
+        'You have 2 pending channels with a total capacity of 0.03500000 BTC (3,500,000 sats) (1 opening, 0 closing, 1 force closing, 0 waiting close)'
+      );
+    });
+
+    test('should only show channels that are still opening when requested', async () => {
+      const intent = createIntent(
+        'channels',
+        'pending',
+        'What channels are still opening?',
+        new Map([['pendingState', 'opening']])
+      );
+
+      const result = (await handler.handle(intent)) as PendingChannelQueryResult;
+
+      expect(result.pendingChannels).toHaveLength(1);
+      expect(result.formattedResults?.pending).toContain('You have 1 opening channels');
+      expect(result.formattedResults?.pending).toContain(
+        'Opening channels:\n1. Alias pubkey-c: 0.00500000 BTC (500,000 sats)'
+      );
+    });
+
+    test('should estimate when force-closed funds become spendable', async () => {
+      const intent = createIntent(
+        'channels',
+        'pending',
+        'When will my force-closed funds be spendable?',
+        new Map([['pendingState', 'force_closing']])
+      );
+
+      const result = (await handler.handle(intent)) as PendingChannelQueryResult;
+
+      expect(result.formattedResults?.pending).toContain(
+        '0.00990000 BTC (990,000 sats) spendable at block 800432 (in 432 blocks, about 3 days)'
+      );
+      expect(result.formattedResults?.pending).toContain(
+        '0.00990000 BTC (990,000 sats) from force-closed channels is not yet spendable'
+      );
+    });
+
+    test('should report when no pending channels are found', async () => {
+      gateway.getPendingChannels.mockResolvedValue([]);
+
+      const result = await handler.handle(
+        createIntent('channels', 'pending', 'Show pending channels')
+      );
+
+      expect(result.formattedResults).toEqual({ pending: 'No pending channels found.' });
+    });
+  });
+
+  describe('closed channels', () => {
+    test('should break closures down by type and peer', async () => {
+      const result = (await handler.handle(
+        createIntent('channels', 'closed', 'Show my closed channels by type')
+      )) as ClosedChannelQueryResult;
+
+      expect(gateway.getChannels).not.toHaveBeenCalled();
+      expect(result.summary).toEqual({
+        totalClosed: 3,
+        totalClosedCapacity: 3500000,
+        countByType: {
+          cooperative: 1,
+          local_force: 1,
+          remote_force: 1,
+          breach: 0,
+          funding_canceled: 0,
+          unknown: 0,
+        },
+        totalRecovered: 1100000,
+        totalTimeLocked: 200000,
+        closeType: undefined,
+      });
+      expect(result.peers[0]).toMatchObject({
+        remote_pubkey: 'pubkey-f',
+        remote_alias: 'Alias pubkey-f',
+        closedChannels: 2,
+        totalCapacity: 2500000,
+      });
+      expect(result.formattedResults?.closed).toContain('- Force closed by peer: 1');
+      expect(result.formattedResults?.closed).toContain(
+        '1. Alias pubkey-f: 2 channels, 0.02500000 BTC (2,500,000 sats) (1 force closed by us, 1 force closed by peer)'
+      );
+      expect(result.formattedResults?.closed).toContain(
+        'Time-locked at close: 0.00200000 BTC (200,000 sats)'
+      );
+    });
+
+    test('should only show closures of the requested type', async () => {
+      const intent = createIntent(
+        'channels',
+        'closed',
+        'Which channels were force closed by peers?',
+        new Map([['closeType', 'remote_force']])
+      );
+
+      const result = (await handler.handle(intent)) as ClosedChannelQueryResult;
+
+      expect(result.closedChannels).toHaveLength(1);
+      expect(result.formattedResults?.closed).toContain(
+        'You have 1 closed channels (force closed by peer)'
+      );
+    });
+
+    test('should report when no closed channels are found', async () => {
+      gateway.getClosedChannels.mockResolvedValue([]);
+
+      const result = await handler.handle(
+        createIntent('channels', 'closed', 'Show my closed channels')
+      );
+
+      expect(result.formattedResults).toEqual({ closed: 'No closed channels found.' });
+    });
+  });
+
+  describe('aggregate', () => {
+    test('should merge open channels of several nodes and tag them with their node', async () => {
+      const intent = createIntent('channels', 'list', 'Show my channels');
+      const alpha = await handler.handle(intent);
+      gateway.getChannels.mockResolvedValue([channels[0]]);
+      const beta = await handler.handle(intent);
+
+      const result = (await handler.aggregate(
+        [
+          { node: 'alpha', result: alpha },
+          { node: 'beta', result: beta },
+        ],
+        intent
+      )) as OpenChannelQueryResult;
+
+      expect(result.nodes).toEqual(['alpha', 'beta']);
+      expect(result.channels.map((channel) => channel.node)).toEqual(['alpha', 'alpha', 'beta']);
+      expect(result.summary).toEqual({
+        totalCapacity: 4000000,
+        totalLocalBalance: 2800000,
+        totalRemoteBalance: 1200000,
+        activeChannels: 2,
+        inactiveChannels: 1,
+        averageCapacity: 4000000 / 3,
+      });
+      expect(result.formattedResults?.list).toContain('Your 2 nodes have 3 channels');
+      expect(result.formattedResults?.list).toContain(
+        '1. [alpha] Alias pubkey-b: 0.02000000 BTC (2,000,000 sats) (inactive)'
+      );
+    });
+
+    test('should merge pending channel summaries of several nodes', async () => {
+      const intent = createIntent('channels', 'pending', 'Show pending channels');
+      const alpha = await handler.handle(intent);
+      gateway.getPendingChannels.mockResolvedValue([pendingChannels[0]]);
+      const beta = await handler.handle(intent);
+
+      const result = (await handler.aggregate(
+        [
+          { node: 'alpha', result: alpha },
+          { node: 'beta', result: beta },
+        ],
+        intent
+      )) as PendingChannelQueryResult;
+
+      expect(result.summary).toMatchObject({
+        totalPending: 3,
+        countByState: { opening: 2, closing: 0, force_closing: 1, waiting_close: 0 },
+        totalPendingCapacity: 4000000,
+      });
+      expect(result.formattedResults?.pending).toContain(
+        'Opening channels:\n1. [alpha] Alias pubkey-c: 0.00500000 BTC (500,000 sats)\n2. [beta] Alias pubkey-c'
+      );
+    });
+  });
+});
@@ -2,46 +2,175 @@
  * @fileoverview Channel domain handler.
  *
  * Handles intents related to Lightning Network channels.
- * This includes listing channels and analyzing liquidity.
+ * This includes listing channels, analyzing liquidity and fees, recommending
+ * fees, planning rebalances, tracking channels that are still opening or closing, analyzing past closures
+ * and comparing snapshots of the channels over time.
  */
 
-import { DomainHandler } from './DomainHandler';
+import { DomainHandler, DomainQueryResult, NodeQueryResult } from './DomainHandler';
 import { EnhancedIntent, LightningOperation } from '../intents/entities/EnhancedIntent';
 import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
 import logger from '../../core/logging/logger';
 import { sanitizeError } from '../../core/errors/sanitize';
-import { ChannelData } from '../channels/entities/Channel';
+import {
+  ChannelData,
+  ClosedChannelData,
+  ClosedChannelType,
+  ChannelListParams,
+  FeeStrategy,
+  PendingChannelData,
+  PendingChannelState,
+} from '../channels/entities/Channel';
+import { HealthCriteria, HealthCriteriaParams } from '../channels/value-objects/HealthCriteria';
+import { formatPercentage } from '../channels/services/channel-formatting';
+import { LightningErrorCode, QueryError } from '../errors/LightningErrors';
+import { CHANNEL_LIST_PARAM_KEYS, ChannelListParamsSchema } from '../channels/schemas/channel-list';
+import {
+  ChannelListPagination,
+  ChannelListService,
+  ChannelListSummary,
+} from '../channels/services/ChannelListService';
+import { RebalancePlan, RebalanceService } from '../channels/services/RebalanceService';
+import {
+  ChannelHealthReport,
+  ChannelHealthService,
+} from '../channels/services/ChannelHealthService';
+import { ChannelFees, ChannelFeeService } from '../channels/services/ChannelFeeService';
+import {
+  FeeRecommendationReport,
+  FeeRecommendationService,
+} from '../channels/services/FeeRecommendationService';
+import {
+  PendingChannelService,
+  PendingChannelSummary,
+} from '../channels/services/PendingChannelService';
+import {
+  ClosedChannelPeerStats,
+  ClosedChannelService,
+  ClosedChannelSummary,
+} from '../channels/services/ClosedChannelService';
+import { TimeWindow, getTimeWindow } from '../intents/entities/TimePeriod';
+import { ChannelHistory } from '../history/services/ChannelHistoryAnalyzer';
+import {
+  ChannelHistorySource,
+  ChannelHistoryService,
+} from '../history/services/ChannelHistoryService';
 
 /**
- * Result of a channel query
+ * Result of a query about open channels
  */
-export interface ChannelQueryResult {
+export interface OpenChannelQueryResult extends DomainQueryResult {
   channels: ChannelData[];
-  summary: {
-    totalCapacity: number;
-    totalLocalBalance: number;
-    totalRemoteBalance: number;
-    activeChannels: number;
-    inactiveChannels: number;
-    averageCapacity?: number;
-    healthyChannels?: number;
-    unhealthyChannels?: number;
+  /** Names of the nodes the channels were merged from */
+  nodes?: string[];
+  summary: ChannelListSummary;
+  /** Paging of the matching channels, set when a limit or offset was requested */
+  pagination?: ChannelListPagination;
+  /** Health of the listed channels, set by health queries */
+  health?: ChannelHealthReport;
+  /** Proposed circular rebalances, set by rebalance queries */
+  rebalance?: RebalancePlan;
+  /** Fee policies of the listed channels, set by fee queries */
+  fees?: {
+    channels: ChannelFees[];
   };
+  /** Recommended fee policies of the listed channels, set by fee recommendation queries */
+  feeRecommendations?: FeeRecommendationReport;
   formattedResults?: {
     list?: string;
     liquidity?: string;
+    health?: string;
+    rebalance?: string;
+    fees?: string;
+    recommend?: string;
+  };
+}
+
+/**
+ * Result of a query about pending channels
+ */
+export interface PendingChannelQueryResult extends DomainQueryResult {
+  pendingChannels: PendingChannelData[];
+  /** Names of the nodes the channels were merged from */
+  nodes?: string[];
+  summary: PendingChannelSummary;
+  formattedResults?: {
+    pending?: string;
+  };
+}
+
+/**
+ * Result of a query about closed channels
+ */
+export interface ClosedChannelQueryResult extends DomainQueryResult {
+  closedChannels: ClosedChannelData[];
+  /** Names of the nodes the channels were merged from */
+  nodes?: string[];
+  peers: ClosedChannelPeerStats[];
+  summary: ClosedChannelSummary;
+  formattedResults?: {
+    closed?: string;
+  };
+}
+
+/**
+ * Result of a query about how channels changed over time
+ */
+export interface ChannelHistoryQueryResult extends DomainQueryResult {
+  /** Changes of each node with at least two snapshots in the period */
+  history: ChannelHistory[];
+  /** Names of the nodes the histories were merged from */
+  nodes?: string[];
+  /** Description of the period, e.g. "in the last 30 days" */
+  period: string;
+  /** Whether snapshots are being taken */
+  recording: boolean;
+  formattedResults?: {
+    history?: string;
   };
 }
 
+/**
+ * Result of a channel query
+ */
+export type ChannelQueryResult =
+  | OpenChannelQueryResult
+  | PendingChannelQueryResult
+  | ClosedChannelQueryResult
+  | ChannelHistoryQueryResult;
+
 /**
  * Handler for channel-related intents
  */
-export class ChannelDomainHandler implements DomainHandler {
+export class ChannelDomainHandler implements DomainHandler<ChannelQueryResult> {
+  private readonly listService = new ChannelListService();
+  private readonly pendingService = new PendingChannelService();
+  private readonly closedService = new ClosedChannelService();
+  private readonly healthService: ChannelHealthService;
+  private readonly rebalanceService: RebalanceService;
+  private readonly feeService: ChannelFeeService;
+  private readonly feeRecommendationService: FeeRecommendationService;
+  private readonly historyService: ChannelHistoryService;
+
   /**
    * Create a new channel domain handler
    * @param gateway The Lightning Network gateway to use
+   * @param healthCriteria Criteria of healthy channels, unless overridden by a query
+   * @param feeStrategy Strategy fees are recommended with, unless overridden by a query
+   * @param history Snapshots of the node, unless snapshots are disabled
    */
-  constructor(private readonly gateway: LightningNetworkGateway) {}
+  constructor(
+    private readonly gateway: LightningNetworkGateway,
+    healthCriteria: HealthCriteria = HealthCriteria.default(),
+    feeStrategy: FeeStrategy = 'balanced',
+    history?: ChannelHistorySource
+  ) {
+    this.healthService = new ChannelHealthService(healthCriteria);
+    this.rebalanceService = new RebalanceService(gateway);
+    this.feeService = new ChannelFeeService(gateway);
+    this.feeRecommendationService = new FeeRecommendationService(gateway, feeStrategy);
+    this.historyService = new ChannelHistoryService(history);
+  }
 
   /**
    * Check if this handler can handle the given intent
@@ -64,22 +193,66 @@ export class ChannelDomainHandler implements DomainHandler {
         operation: intent.operation,
       });
 
+      // Pending and closed channels have their own data and result shapes
+      if (intent.operation === 'pending' || intent.operation === 'closed') {
+        const historyResult =
+          intent.operation === 'pending'
+            ? await this.queryPendingChannels(intent)
+            : await this.queryClosedChannels(intent);
+
+        await this.formatResults(historyResult, intent.operation);
+
+        return historyResult;
+      }
+
+      // Changes over time are answered from snapshots rather than live channels
+      if (intent.operation === 'history') {
+        const historyResult = await this.queryChannelHistory(intent);
+
+        await this.formatResults(historyResult, intent.operation);
+
+        return historyResult;
+      }
+
       // Get the channels from the gateway
       const channels = await this.gateway.getChannels();
 
       // Enrich channels with node aliases
       const enrichedChannels = await this.enrichChannelsWithMetadata(channels);
 
-      // Calculate summary statistics
-      const summary = this.calculateChannelSummary(enrichedChannels);
+      // Filter and sort the channels; peers can be matched by their alias
+      const params = this.getListParams(intent);
+      const matchingChannels = this.listService.sort(
+        this.listService.filter(enrichedChannels, params),
+        params
+      );
 
-      // Create the base result
-      const result: ChannelQueryResult = {
-        channels: enrichedChannels,
+      // Calculate summary statistics of all matching channels
+      const summary = this.listService.summarize(matchingChannels);
+
+      // Create the base result with the requested page of channels
+      const result: OpenChannelQueryResult = {
+        ...this.listService.paginate(matchingChannels, params),
         summary,
         formattedResults: {},
       };
 
+      if (intent.operation === 'health') {
+        this.addChannelHealth(result, matchingChannels, intent);
+      }
+
+      if (intent.operation === 'rebalance') {
+        await this.addRebalancePlan(result, matchingChannels, intent);
+      }
+
+      if (intent.operation === 'fees') {
+        await this.addChannelFees(result);
+      }
+
+      if (intent.operation === 'recommend') {
+        await this.addFeeRecommendations(result, intent);
+      }
+
       // Format the results based on the operation
       await this.formatResults(result, intent.operation);
 
@@ -94,13 +267,340 @@ export class ChannelDomainHandler implements DomainHandler {
     }
   }
 
+  /**
+   * Merge the results of a channel intent handled on several nodes, tagging
+   * each channel with its node and summarizing the merged channels
+   * @param results The result of each node
+   * @param intent The intent that was handled
+   * @returns Promise resolving to the merged result
+   */
+  async aggregate(
+    results: NodeQueryResult<ChannelQueryResult>[],
+    intent: EnhancedIntent
+  ): Promise<ChannelQueryResult> {
+    const nodes = results.map(({ node }) => node);
+    let merged: ChannelQueryResult;
+
+    if (intent.operation === 'pending') {
+      const pendingChannels = results.flatMap(({ node, result }) =>
+        (result as PendingChannelQueryResult).pendingChannels.map((channel) => ({
+          ...channel,
+          node,
+        }))
+      );
+
+      merged = {
+        pendingChannels,
+        nodes,
+        summary: this.pendingService.summarize(
+          pendingChannels,
+          intent.attributes.get('pendingState')
+        ),
+        formattedResults: {},
+      };
+    } else if (intent.operation === 'closed') {
+      const closedChannels = results.flatMap(({ node, result }) =>
+        (result as ClosedChannelQueryResult).closedChannels.map((channel) => ({
+          ...channel,
+          node,
+        }))
+      );
+
+      merged = {
+        closedChannels,
+        nodes,
+        peers: this.closedService.breakDownByPeer(closedChannels),
+        summary: this.closedService.summarize(closedChannels, intent.attributes.get('closeType')),
+        formattedResults: {},
+      };
+    } else if (intent.operation === 'history') {
+      const histories = results.map(({ result }) => result as ChannelHistoryQueryResult);
+
+      merged = {
+        history: results.flatMap(({ node, result }) =>
+          (result as ChannelHistoryQueryResult).history.map((history) => ({ ...history, node }))
+        ),
+        nodes,
+        period: histories[0]?.period || this.getHistoryWindow(intent).label,
+        recording: histories.some(({ recording }) => recording),
+        formattedResults: {},
+      };
+    } else {
+      // Nodes return all matching channels, so the merged channels are paged
+      const params = this.getListParams(intent);
+      const channels = this.listService.sort(
+        results.flatMap(({ node, result }) =>
+          (result as OpenChannelQueryResult).channels.map((channel) => ({ ...channel, node }))
+        ),
+        params
+      );
+
+      const openResult: OpenChannelQueryResult = {
+        ...this.listService.paginate(channels, params),
+        nodes,
+        summary: this.listService.summarize(channels),
+        formattedResults: {},
+      };
+
+      if (intent.operation === 'health') {
+        this.addChannelHealth(openResult, channels, intent);
+      }
+
+      // Channels of different nodes cannot be rebalanced against each other,
+      // so the moves planned by each node are ranked together
+      if (intent.operation === 'rebalance') {
+        openResult.rebalance = this.rebalanceService.merge(
+          results.map(({ node, result }) => ({
+            node,
+            plan: (result as OpenChannelQueryResult).rebalance,
+          })),
+          this.getHealthCriteria(intent),
+          intent.attributes.get('maxMoves')
+        );
+      }
+
+      // Nodes compare the fees of all their channels, so the merged page
+      // picks its channels' comparisons from their node
+      if (intent.operation === 'fees') {
+        openResult.fees = {
+          channels: this.selectPageEntries(
+            openResult,
+            results.map(({ node, result }) => ({
+              node,
+              entries: (result as OpenChannelQueryResult).fees?.channels,
+            }))
+          ),
+        };
+      }
+
+      // Likewise for the fees recommended by each node
+      if (intent.operation === 'recommend') {
+        openResult.feeRecommendations = {
+          strategy: this.getFeeStrategy(intent),
+          channels: this.selectPageEntries(
+            openResult,
+            results.map(({ node, result }) => ({
+              node,
+              entries: (result as OpenChannelQueryResult).feeRecommendations?.channels,
+            }))
+          ),
+        };
+      }
+
+      merged = openResult;
+    }
+
+    await this.formatResults(merged, intent.operation);
+
+    return merged;
+  }
+
+  /**
+   * Get the intent to handle on each node when merging their results, which
+   * lists all matching channels so the merged channels can be paged
+   * @param intent The intent to handle
+   * @returns The intent without paging
+   */
+  getNodeIntent(intent: EnhancedIntent): EnhancedIntent {
+    if (!intent.attributes.has('limit') && !intent.attributes.has('offset')) {
+      return intent;
+    }
+
+    const attributes = new Map(intent.attributes);
+    attributes.delete('limit');
+    attributes.delete('offset');
+
+    return { ...intent, attributes };
+  }
+
+  /**
+   * Get the filters, sort order and paging of a channel listing
+   * @param intent The intent with the listing parameters as attributes
+   * @returns The listing parameters
+   * @throws QueryError if a listing parameter is invalid
+   * @private
+   */
+  private getListParams(intent: EnhancedIntent): ChannelListParams {
+    // Listing attributes are named after the parameters they set; other attributes are ignored
+    const params = ChannelListParamsSchema.safeParse(
+      Object.fromEntries(
+        CHANNEL_LIST_PARAM_KEYS.filter((key) => intent.attributes.has(key)).map((key) => [
+          key,
+          intent.attributes.get(key),
+        ])
+      )
+    );
+
+    if (!params.success) {
+      throw new QueryError(
+        `Invalid channel listing: ${params.error.issues
+          .map(({ path, message }) => (path.length ? `${path.join('.')}: ${message}` : message))
+          .join('; ')}`,
+        { code: LightningErrorCode.INVALID_QUERY }
+      );
+    }
+
+    return params.data;
+  }
+
+  /**
+   * Get the criteria of healthy channels, with the local ratios the intent overrides
+   * @param intent The intent with the overridden ratios as attributes
+   * @returns The health criteria
+   * @throws QueryError if the ratios are out of range or the minimum is not below the maximum
+   * @private
+   */
+  private getHealthCriteria(intent: EnhancedIntent): HealthCriteria {
+    const configured = this.healthService.getCriteria();
+    const overrides: Partial<HealthCriteriaParams> = {
+      minLocalRatio: intent.attributes.get('healthMinLocalRatio'),
+      maxLocalRatio: intent.attributes.get('healthMaxLocalRatio'),
+    };
+    const minLocalRatio = overrides.minLocalRatio ?? configured.getMinLocalRatio();
+    const maxLocalRatio = overrides.maxLocalRatio ?? configured.getMaxLocalRatio();
+
+    // Mark the ratios taken from the configuration rather than the query
+    const describe = (label: string, ratio: number, override?: number): string =>
+      `${label} ${formatPercentage(ratio)}${override === undefined ? ' (configured)' : ''}`;
+    const min = describe('minimum local ratio', minLocalRatio, overrides.minLocalRatio);
+    const max = describe('maximum local ratio', maxLocalRatio, overrides.maxLocalRatio);
+    const options = {
+      code: LightningErrorCode.INVALID_QUERY,
+      metadata: { minLocalRatio, maxLocalRatio },
+    };
+
+    if ([minLocalRatio, maxLocalRatio].some((ratio) => ratio < 0 || ratio > 1)) {
+      throw new QueryError(
+        `Invalid health criteria: the ${min} and ${max} must be between 0% and 100%`,
+        options
+      );
+    }
+    if (minLocalRatio >= maxLocalRatio) {
+      throw new QueryError(`Invalid health criteria: the ${min} must be below the ${max}`, options);
+    }
+
+    return this.healthService.getCriteria({ minLocalRatio, maxLocalRatio });
+  }
+
+  /**
+   * Classify channels against the health criteria, adding the health of the
+   * listed channels and the healthy channel counts of all matching channels
+   * @param result The result listing a page of the channels
+   * @param channels All matching channels
+   * @param intent The intent with the health criteria overrides as attributes
+   * @private
+   */
+  private addChannelHealth(
+    result: OpenChannelQueryResult,
+    channels: ChannelData[],
+    intent: EnhancedIntent
+  ): void {
+    const criteria = this.getHealthCriteria(intent);
+    const healthyChannels = this.healthService.countHealthy(channels, criteria);
+
+    result.summary = {
+      ...result.summary,
+      healthyChannels,
+      unhealthyChannels: channels.length - healthyChannels,
+    };
+    result.health = this.healthService.assess(result.channels, criteria);
+  }
+
+  /**
+   * Plan circular rebalances between the matching channels, estimating their
+   * fees from the fee policies the peers announce in the graph
+   * @param result The result listing the channels
+   * @param channels All matching channels
+   * @param intent The intent with the health criteria overrides, fee limit and
+   * number of moves as attributes
+   * @private
+   */
+  private async addRebalancePlan(
+    result: OpenChannelQueryResult,
+    channels: ChannelData[],
+    intent: EnhancedIntent
+  ): Promise<void> {
+    result.rebalance = await this.rebalanceService.plan(channels, {
+      criteria: this.getHealthCriteria(intent),
+      maxFeePpm: intent.attributes.get('maxFeePpm'),
+      limit: intent.attributes.get('maxMoves'),
+    });
+  }
+
+  /**
+   * Compare the fees of the listed channels with the median fee rate their
+   * peers charge on their channels in the graph
+   * @param result The result listing a page of the channels
+   * @private
+   */
+  private async addChannelFees(result: OpenChannelQueryResult): Promise<void> {
+    result.fees = { channels: await this.feeService.compare(result.channels) };
+  }
+
+  /**
+   * Recommend fee policies for the listed channels from their liquidity,
+   * their forwarding volume in the last week and the fees other nodes charge
+   * to reach their peers
+   * @param result The result listing a page of the channels
+   * @param intent The intent with the fee strategy override as attribute
+   * @private
+   */
+  private async addFeeRecommendations(
+    result: OpenChannelQueryResult,
+    intent: EnhancedIntent
+  ): Promise<void> {
+    result.feeRecommendations = await this.feeRecommendationService.recommend(
+      result.channels,
+      intent.attributes.get('feeStrategy')
+    );
+  }
+
+  /**
+   * Get the strategy to recommend fees with
+   * @param intent The intent with the fee strategy override as attribute
+   * @returns The strategy of the intent, or the configured strategy
+   * @private
+   */
+  private getFeeStrategy(intent: EnhancedIntent): FeeStrategy {
+    return this.feeRecommendationService.getStrategy(intent.attributes.get('feeStrategy'));
+  }
+
+  /**
+   * Pick the entries describing the channels of a merged page from the
+   * results of their nodes, tagging each entry with its node
+   * @param result The merged result listing the page of channels
+   * @param nodeEntries The entries of each node, one per channel
+   * @returns The entries of the page's channels, in the order of the page
+   * @private
+   */
+  private selectPageEntries<T extends { channel_point: string }>(
+    result: OpenChannelQueryResult,
+    nodeEntries: { node: string; entries?: T[] }[]
+  ): (T & { node: string })[] {
+    const entries = new Map(
+      nodeEntries.flatMap(({ node, entries }) =>
+        (entries || []).map((entry): [string, T & { node: string }] => [
+          `${node}:${entry.channel_point}`,
+          { ...entry, node },
+        ])
+      )
+    );
+
+    return result.channels.flatMap((channel) => {
+      const entry = entries.get(`${channel.node}:${channel.channel_point}`);
+      return entry ? [entry] : [];
+    });
+  }
+
   /**
    * Enrich channels with additional metadata
    * @param channels The channels to enrich
    * @returns Promise resolving to enriched channels
    * @private
    */
-  private async enrichChannelsWithMetadata(channels: ChannelData[]): Promise<ChannelData[]> {
+  private async enrichChannelsWithMetadata<
+    T extends Pick<ChannelData, 'remote_pubkey' | 'remote_alias'>
+  >(channels: T[]): Promise<T[]> {
     if (channels.length === 0) {
       return [];
     }
@@ -152,41 +652,6 @@ export class ChannelDomainHandler implements DomainHandler {
     }
   }
 
-  /**
-   * Calculate summary statistics for channels
-   * @param channels The channels to calculate statistics for
-   * @returns Summary statistics
-   * @private
-   */
-  private calculateChannelSummary(channels: ChannelData[]): ChannelQueryResult['summary'] {
-    if (channels.length === 0) {
-      return {
-        totalCapacity: 0,
-        totalLocalBalance: 0,
-        totalRemoteBalance: 0,
-        activeChannels: 0,
-        inactiveChannels: 0,
-        averageCapacity: 0,
-      };
-    }
-
-    const activeChannels = channels.filter((c) => c.active);
-    const inactiveChannels = channels.filter((c) => !c.active);
-
-    const totalCapacity = channels.reduce((sum, channel) => sum + channel.capacity, 0);
-    const totalLocalBalance = channels.reduce((sum, channel) => sum + channel.local_balance, 0);
-    const totalRemoteBalance = channels.reduce((sum, channel) => sum + channel.remote_balance, 0);
-
-    return {
-      totalCapacity,
-      totalLocalBalance,
-      totalRemoteBalance,
-      activeChannels: activeChannels.length,
-      inactiveChannels: inactiveChannels.length,
-      averageCapacity: totalCapacity / channels.length,
-    };
-  }
-
   /**
    * Format results based on the operation
    * @param result The result to format
@@ -197,45 +662,94 @@ export class ChannelDomainHandler implements DomainHandler {
     result: ChannelQueryResult,
     operation: LightningOperation
   ): Promise<void> {
+    // Pending and closed channel results have a single representation
+    if (operation === 'pending') {
+      result.formattedResults = {
+        pending: this.pendingService.format(result as PendingChannelQueryResult),
+      };
+      return;
+    }
+
+    if (operation === 'closed') {
+      result.formattedResults = {
+        closed: this.closedService.format(result as ClosedChannelQueryResult),
+      };
+      return;
+    }
+
+    if (operation === 'history') {
+      result.formattedResults = {
+        history: this.historyService.format(result as ChannelHistoryQueryResult),
+      };
+      return;
+    }
+
+    const openResult = result as OpenChannelQueryResult;
+
     // Format the results based on the operation
     switch (operation) {
       case 'list': {
-        // Create a base list format that will be used for all channel queries
-        let listText = this.formatChannelList(result);
-
-        // Check if there are any special formatting needs based on attributes
-        const inactiveChannels = result.channels.filter((c) => !c.active);
-
-        // If there are inactive channels, enhance the output with health information
-        if (inactiveChannels.length > 0) {
-          listText += `\n\nInactive channels (${inactiveChannels.length}):\n`;
-          inactiveChannels.forEach((channel, index) => {
-            listText += `${index + 1}. ${channel.remote_alias}: ${this.formatSats(
-              channel.capacity
-            )}\n`;
-          });
-        }
-
-        result.formattedResults = {
-          ...result.formattedResults,
-          list: listText,
+        openResult.formattedResults = {
+          ...openResult.formattedResults,
+          list:
+            this.listService.formatList(openResult) +
+            this.listService.formatInactiveChannels(openResult.channels),
         };
         break;
       }
 
       case 'liquidity': {
-        result.formattedResults = {
-          ...result.formattedResults,
-          liquidity: this.formatChannelLiquidity(result),
+        openResult.formattedResults = {
+          ...openResult.formattedResults,
+          liquidity: this.listService.formatLiquidity(openResult),
+        };
+        break;
+      }
+
+      case 'health': {
+        openResult.formattedResults = {
+          ...openResult.formattedResults,
+          health: this.healthService.format(
+            openResult.health,
+            openResult.summary.healthyChannels ?? 0,
+            openResult.summary.activeChannels + openResult.summary.inactiveChannels
+          ),
+        };
+        break;
+      }
+
+      case 'fees': {
+        openResult.formattedResults = {
+          ...openResult.formattedResults,
+          fees: this.feeService.format(openResult.fees?.channels, openResult.pagination?.offset),
+        };
+        break;
+      }
+
+      case 'rebalance': {
+        openResult.formattedResults = {
+          ...openResult.formattedResults,
+          rebalance: this.rebalanceService.format(openResult.rebalance, openResult.channels.length),
+        };
+        break;
+      }
+
+      case 'recommend': {
+        openResult.formattedResults = {
+          ...openResult.formattedResults,
+          recommend: this.feeRecommendationService.format(
+            openResult.feeRecommendations,
+            openResult.pagination?.offset
+          ),
         };
         break;
       }
 
       default: {
         // For unknown operations, format as a generic list
-        result.formattedResults = {
-          ...result.formattedResults,
-          list: this.formatChannelList(result),
+        openResult.formattedResults = {
+          ...openResult.formattedResults,
+          list: this.listService.formatList(openResult),
         };
         break;
       }
@@ -243,117 +757,88 @@ export class ChannelDomainHandler implements DomainHandler {
   }
 
   /**
-   * Format channel list as text
-   * @param result The channel query result
-   * @returns Formatted channel list
+   * Query channels that are still opening or closing
+   * @param intent The intent to handle
+   * @returns Promise resolving to pending channels and their summary
    * @private
    */
-  private formatChannelList(result: ChannelQueryResult): string {
-    const { channels, summary } = result;
+  private async queryPendingChannels(intent: EnhancedIntent): Promise<PendingChannelQueryResult> {
+    const state = intent.attributes.get('pendingState') as PendingChannelState | undefined;
 
-    if (channels.length === 0) {
-      return 'No channels found.';
-    }
+    // Get the pending channels from the gateway, restricted to the requested state
+    const pendingChannels = (await this.gateway.getPendingChannels()).filter(
+      (channel) => !state || channel.state === state
+    );
 
-    // Sort channels by capacity (descending)
-    const sortedChannels = [...channels].sort((a, b) => b.capacity - a.capacity);
-
-    // Format the summary
-    let output = `Your node has ${
-      channels.length
-    } channels with a total capacity of ${this.formatSats(summary.totalCapacity)}. ${
-      summary.activeChannels
-    } channels are active and ${summary.inactiveChannels} are inactive.\n\n`;
-
-    // Format the channel list
-    output += 'Your channels:\n';
-    sortedChannels.forEach((channel, index) => {
-      output += `${index + 1}. ${channel.remote_alias}: ${this.formatSats(channel.capacity)} (${
-        channel.active ? 'active' : 'inactive'
-      })\n`;
-    });
+    // Enrich pending channels with node aliases
+    const enrichedChannels = await this.enrichChannelsWithMetadata(pendingChannels);
 
-    return output;
+    return {
+      pendingChannels: enrichedChannels,
+      summary: this.pendingService.summarize(enrichedChannels, state),
+      formattedResults: {},
+    };
   }
 
   /**
-   * Format channel liquidity as text
-   * @param result The channel query result
-   * @returns Formatted channel liquidity
+   * Query channels that have been closed
+   * @param intent The intent to handle
+   * @returns Promise resolving to closed channels, per-peer breakdown and summary
    * @private
    */
-  private formatChannelLiquidity(result: ChannelQueryResult): string {
-    const { channels, summary } = result;
+  private async queryClosedChannels(intent: EnhancedIntent): Promise<ClosedChannelQueryResult> {
+    const closeType = intent.attributes.get('closeType') as ClosedChannelType | undefined;
 
-    if (channels.length === 0) {
-      return 'No channels found.';
-    }
+    // Get the closed channels from the gateway, restricted to the requested close type
+    const closedChannels = (await this.gateway.getClosedChannels()).filter(
+      (channel) => !closeType || channel.close_type === closeType
+    );
 
-    // Calculate local and remote percentages
-    const localPercentage = (summary.totalLocalBalance / summary.totalCapacity) * 100;
-    const remotePercentage = (summary.totalRemoteBalance / summary.totalCapacity) * 100;
-
-    // Format the summary
-    let output = `Liquidity Distribution: ${this.formatSats(
-      summary.totalLocalBalance
-    )} local (${localPercentage.toFixed(0)}%), ${this.formatSats(
-      summary.totalRemoteBalance
-    )} remote (${remotePercentage.toFixed(0)}%).\n\n`;
-
-    // Calculate balance ratios for each channel
-    const channelsWithRatios = channels.map((channel) => ({
-      ...channel,
-      localRatio: channel.local_balance / channel.capacity,
-    }));
-
-    // Sort by balance ratio (most balanced first)
-    const mostBalanced = [...channelsWithRatios]
-      .filter((c) => c.active)
-      .sort((a, b) => Math.abs(0.5 - a.localRatio) - Math.abs(0.5 - b.localRatio))
-      .slice(0, 3);
-
-    // Sort by balance ratio (most imbalanced first)
-    const mostImbalanced = [...channelsWithRatios]
-      .filter((c) => c.active)
-      .sort((a, b) => Math.abs(0.5 - b.localRatio) - Math.abs(0.5 - a.localRatio))
-      .slice(0, 3);
-
-    // Format the most balanced channels
-    if (mostBalanced.length > 0) {
-      output += 'Your most balanced channels:\n';
-      mostBalanced.forEach((channel, index) => {
-        const localPercentage = (channel.localRatio * 100).toFixed(0);
-        const remotePercentage = (100 - channel.localRatio * 100).toFixed(0);
-        output += `${index + 1}. ${
-          channel.remote_alias
-        }: ${localPercentage}% local / ${remotePercentage}% remote\n`;
-      });
-      output += '\n';
-    }
+    // Enrich closed channels with node aliases
+    const enrichedChannels = await this.enrichChannelsWithMetadata(closedChannels);
+
+    return {
+      closedChannels: enrichedChannels,
+      peers: this.closedService.breakDownByPeer(enrichedChannels),
+      summary: this.closedService.summarize(enrichedChannels, closeType),
+      formattedResults: {},
+    };
+  }
 
-    // Format the most imbalanced channels
-    if (mostImbalanced.length > 0) {
-      output += 'Your most imbalanced channels:\n';
-      mostImbalanced.forEach((channel, index) => {
-        const localPercentage = (channel.localRatio * 100).toFixed(0);
-        const remotePercentage = (100 - channel.localRatio * 100).toFixed(0);
-        output += `${index + 1}. ${
-          channel.remote_alias
-        }: ${localPercentage}% local / ${remotePercentage}% remote\n`;
+  /**
+   * Compare the snapshots of the node over the requested period
+   * @param intent The intent with the time window as attributes
+   * @returns Promise resolving to the changes, empty without two snapshots in the period
+   * @private
+   */
+  private async queryChannelHistory(intent: EnhancedIntent): Promise<ChannelHistoryQueryResult> {
+    const window = this.getHistoryWindow(intent);
+    const result: ChannelHistoryQueryResult = {
+      history: [],
+      period: window.label,
+      recording: this.historyService.isRecording(),
+      formattedResults: {},
+    };
+
+    const history = await this.historyService.analyze(window);
+    if (history) {
+      // Enrich the changed channels with node aliases
+      result.history.push({
+        ...history,
+        channels: await this.enrichChannelsWithMetadata(history.channels),
       });
     }
 
-    return output;
+    return result;
   }
 
   /**
-   * Format satoshis as a string
-   * @param sats The satoshis to format
-   * @returns Formatted satoshis
+   * Get the time window of a history query
+   * @param intent The intent to handle
+   * @returns The time window requested by the query, or the default period
    * @private
    */
-  private formatSats(sats: number): string {
-    const btc = sats / 100000000;
-    return `${btc.toFixed(8)} BTC (${sats.toLocaleString()} sats)`;
+  private getHistoryWindow(intent: EnhancedIntent): TimeWindow {
+    return this.historyService.getWindow(getTimeWindow(intent.attributes));
   }
 }
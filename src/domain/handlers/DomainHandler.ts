@@ -6,18 +6,37 @@
  */
 
 import { EnhancedIntent } from '../intents/entities/EnhancedIntent';
-import { ChannelQueryResult } from './ChannelDomainHandler';
+
+/**
+ * Base shape shared by all domain query results
+ *
+ * Each domain adds its own data and summary fields. The formatted results
+ * are keyed by operation so the query processor can pick the right text.
+ */
+export interface DomainQueryResult {
+  formattedResults?: Record<string, string | undefined>;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of handling an intent on one of several nodes
+ */
+export interface NodeQueryResult<TResult extends DomainQueryResult = DomainQueryResult> {
+  /** Name of the node the intent was handled on */
+  node: string;
+  result: TResult;
+}
 
 /**
  * Interface for domain-specific handlers
  */
-export interface DomainHandler {
+export interface DomainHandler<TResult extends DomainQueryResult = DomainQueryResult> {
   /**
    * Handle an intent for this domain
    * @param intent The intent to handle
    * @returns Promise resolving to the result of handling the intent
    */
-  handle(intent: EnhancedIntent): Promise<ChannelQueryResult>;
+  handle(intent: EnhancedIntent): Promise<TResult>;
 
   /**
    * Check if this handler can handle the given intent
@@ -25,4 +44,22 @@ export interface DomainHandler {
    * @returns Whether this handler can handle the intent
    */
   canHandle(intent: EnhancedIntent): boolean;
+
+  /**
+   * Merge the results of an intent handled on several nodes into one result.
+   * Results of handlers without it are listed per node.
+   * @param results The result of each node
+   * @param intent The intent that was handled
+   * @returns Promise resolving to the merged result
+   */
+  aggregate?(results: NodeQueryResult<TResult>[], intent: EnhancedIntent): Promise<TResult>;
+
+  /**
+   * Get the intent to handle on each node before the results are merged with
+   * aggregate, e.g. without the paging that applies to the merged result.
+   * Handlers without it handle the intent itself on each node.
+   * @param intent The intent to handle
+   * @returns The intent to handle on each node
+   */
+  getNodeIntent?(intent: EnhancedIntent): EnhancedIntent;
 }
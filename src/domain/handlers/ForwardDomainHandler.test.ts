@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Tests for ForwardDomainHandler
+ */
+
+import { ForwardDomainHandler } from './ForwardDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { ForwardData } from '../forwards/entities/Forward';
+import { ChannelData } from '../channels/entities/Channel';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+import { resolveTimePeriod, toTimeRange } from '../intents/entities/TimePeriod';
+
+jest.mock('../../core/logging/logger');
+
+describe('ForwardDomainHandler', () => {
+  const channels: ChannelData[] = [
+    {
+      id: '100x1x0',
+      capacity: 1000000,
+      local_balance: 500000,
+      remote_balance: 500000,
+      active: true,
+      remote_pubkey: 'pubkey-a',
+      channel_point: 'txid-a:0',
+    },
+    {
+      id: '100x2x0',
+      capacity: 2000000,
+      local_balance: 1000000,
+      remote_balance: 1000000,
+      active: true,
+      remote_pubkey: 'pubkey-b',
+      channel_point: 'txid-b:0',
+    },
+    {
+      id: '100x3x0',
+      capacity: 3000000,
+      local_balance: 1500000,
+      remote_balance: 1500000,
+      active: true,
+      remote_pubkey: 'pubkey-c',
+      channel_point: 'txid-c:0',
+    },
+  ];
+
+  const forwards: ForwardData[] = [
+    {
+      created_at: '2024-03-01T10:00:00.000Z',
+      fee: 10,
+      tokens: 100000,
+      incoming_channel: '100x1x0',
+      outgoing_channel: '100x2x0',
+    },
+    {
+      created_at: '2024-03-01T12:00:00.000Z',
+      fee: 30,
+      tokens: 200000,
+      incoming_channel: '100x1x0',
+      outgoing_channel: '100x2x0',
+    },
+    {
+      created_at: '2024-03-02T09:00:00.000Z',
+      fee: 5,
+      tokens: 50000,
+      incoming_channel: '100x2x0',
+      outgoing_channel: '99x9x0',
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: ForwardDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getForwards: jest.fn().mockResolvedValue(forwards),
+      getChannels: jest.fn().mockResolvedValue(channels),
+      getNodeAlias: jest.fn().mockImplementation(async (pubkey: string) => `Alias ${pubkey}`),
+    });
+
+    handler = new ForwardDomainHandler(gateway);
+  });
+
+  test('should only handle forward intents', () => {
+    expect(handler.canHandle(createIntent('forwards', 'list', 'show forwards'))).toBe(true);
+    expect(handler.canHandle(createIntent('payments', 'list', 'show payments'))).toBe(false);
+  });
+
+  test('should request forwards within the requested period', async () => {
+    const week = toTimeRange(resolveTimePeriod('week'));
+    const intent = createIntent(
+      'forwards',
+      'summary',
+      'How much did I earn in the last 7 days?',
+      new Map<string, unknown>([
+        ['from', week.from],
+        ['to', week.to],
+        ['timeLabel', week.label],
+      ])
+    );
+
+    await handler.handle(intent);
+
+    const [window] = gateway.getForwards.mock.calls[0];
+    expect(window).toEqual({ after: expect.any(String), before: expect.any(String) });
+    expect(Date.parse(window?.before ?? '') - Date.parse(window?.after ?? '')).toBe(
+      7 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  test('should aggregate routing revenue per channel and peer', async () => {
+    const result = await handler.handle(createIntent('forwards', 'summary', 'Total earnings'));
+
+    expect(gateway.getForwards).toHaveBeenCalledWith(undefined);
+    expect(result.channels[0]).toEqual({
+      channel_id: '100x2x0',
+      remote_pubkey: 'pubkey-b',
+      remote_alias: 'Alias pubkey-b',
+      capacity: 2000000,
+      is_open: true,
+      incoming_forwards: 1,
+      outgoing_forwards: 2,
+      outgoing_tokens: 300000,
+      earned_fees: 40,
+    });
+    expect(result.peers.map((peer) => [peer.remote_pubkey, peer.earned_fees])).toEqual([
+      ['pubkey-b', 40],
+      ['pubkey-a', 0],
+      ['pubkey-c', 0],
+    ]);
+    expect(result.days).toEqual([
+      { date: '2024-03-01', forwards: 2, tokens: 300000, earned_fees: 40 },
+      { date: '2024-03-02', forwards: 1, tokens: 50000, earned_fees: 5 },
+    ]);
+  });
+
+  test('should summarize top earning and idle channels', async () => {
+    const result = await handler.handle(createIntent('forwards', 'summary', 'Total earnings'));
+
+    expect(result.summary).toEqual({
+      totalForwards: 3,
+      totalForwarded: 350000,
+      totalFees: 45,
+      averageFeePpm: 129,
+      topEarningChannels: ['100x2x0', '99x9x0'],
+      idleChannels: ['100x3x0'],
+      period: undefined,
+    });
+    expect(result.formattedResults?.summary).toContain('Your node forwarded 3 payments');
+    expect(result.formattedResults?.summary).toContain('1. Alias pubkey-b (100x2x0): 40 sats');
+    expect(result.formattedResults?.summary).toContain('99x9x0 (closed)');
+    expect(result.formattedResults?.summary).toContain('Idle channels with no forwards (1)');
+  });
+
+  test('should list recent forwards, most recent first', async () => {
+    const result = await handler.handle(createIntent('forwards', 'list', 'Show forwards'));
+
+    expect(result.forwards.map((forward) => forward.created_at)).toEqual([
+      '2024-03-02T09:00:00.000Z',
+      '2024-03-01T12:00:00.000Z',
+      '2024-03-01T10:00:00.000Z',
+    ]);
+    expect(result.formattedResults?.list).toContain(
+      '1. 2024-03-02 09:00 Alias pubkey-b (100x2x0) -> 99x9x0 (closed)'
+    );
+  });
+
+  test('should report when no forwards are found', async () => {
+    gateway.getForwards.mockResolvedValue([]);
+
+    const result = await handler.handle(createIntent('forwards', 'list', 'Show forwards'));
+
+    expect(result.forwards).toEqual([]);
+    expect(result.formattedResults?.list).toBe('No forwarded payments found.');
+  });
+
+  test('should propagate gateway errors', async () => {
+    gateway.getForwards.mockRejectedValue(new Error('Failed to fetch forwards'));
+
+    await expect(handler.handle(createIntent('forwards', 'list', 'Show forwards'))).rejects.toThrow(
+      'Failed to fetch forwards'
+    );
+  });
+});
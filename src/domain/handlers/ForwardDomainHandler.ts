@@ -0,0 +1,494 @@
+/**
+ * @fileoverview Forward domain handler.
+ *
+ * Handles intents related to payments forwarded by the node.
+ * This includes routing revenue per channel, per peer and per day,
+ * as well as identifying top-earning and idle channels.
+ */
+
+import { DomainHandler, DomainQueryResult } from './DomainHandler';
+import { EnhancedIntent, LightningOperation } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { formatSatoshis } from '../../core/utils/format_bitcoin';
+import { ForwardData } from '../forwards/entities/Forward';
+import { ChannelData } from '../channels/entities/Channel';
+import { TimeRange, TimeWindow, getTimeWindow, toTimeRange } from '../intents/entities/TimePeriod';
+
+/**
+ * Number of entries included in formatted rankings
+ */
+const MAX_RANKED_ENTRIES = 5;
+
+/**
+ * Number of forwards included in formatted lists
+ */
+const MAX_LISTED_FORWARDS = 20;
+
+/**
+ * Routing statistics for a single channel
+ */
+export interface ChannelForwardingStats {
+  channel_id: string;
+  remote_pubkey?: string;
+  remote_alias?: string;
+  capacity?: number;
+  /** Whether the channel is still open */
+  is_open: boolean;
+  /** Forwards that arrived through this channel */
+  incoming_forwards: number;
+  /** Forwards that left through this channel */
+  outgoing_forwards: number;
+  /** Tokens that left through this channel */
+  outgoing_tokens: number;
+  /** Fees earned on forwards leaving through this channel */
+  earned_fees: number;
+}
+
+/**
+ * Routing statistics for a single peer, across all channels with it
+ */
+export interface PeerForwardingStats {
+  remote_pubkey: string;
+  remote_alias?: string;
+  channels: number;
+  outgoing_forwards: number;
+  outgoing_tokens: number;
+  earned_fees: number;
+}
+
+/**
+ * Routing statistics for a single day
+ */
+export interface DailyForwardingStats {
+  /** UTC date in YYYY-MM-DD format */
+  date: string;
+  forwards: number;
+  tokens: number;
+  earned_fees: number;
+}
+
+/**
+ * Result of a forwarding query
+ */
+export interface ForwardQueryResult extends DomainQueryResult {
+  forwards: ForwardData[];
+  channels: ChannelForwardingStats[];
+  peers: PeerForwardingStats[];
+  days: DailyForwardingStats[];
+  summary: {
+    totalForwards: number;
+    totalForwarded: number;
+    totalFees: number;
+    averageFeePpm: number;
+    topEarningChannels: string[];
+    idleChannels: string[];
+    period?: TimeRange;
+  };
+  formattedResults?: {
+    list?: string;
+    summary?: string;
+  };
+}
+
+/**
+ * Handler for forwarding-related intents
+ */
+export class ForwardDomainHandler implements DomainHandler<ForwardQueryResult> {
+  /**
+   * Create a new forward domain handler
+   * @param gateway The Lightning Network gateway to use
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Check if this handler can handle the given intent
+   * @param intent The intent to check
+   * @returns Whether this handler can handle the intent
+   */
+  canHandle(intent: EnhancedIntent): boolean {
+    return intent.domain === 'forwards';
+  }
+
+  /**
+   * Handle a forwarding-related intent
+   * @param intent The intent to handle
+   * @returns Promise resolving to the result of handling the intent
+   */
+  async handle(intent: EnhancedIntent): Promise<ForwardQueryResult> {
+    try {
+      logger.debug(`Handling forward intent: ${intent.operation}`, {
+        component: 'forward-domain-handler',
+        operation: intent.operation,
+      });
+
+      const window = getTimeWindow(intent.attributes);
+      const period = window && toTimeRange(window);
+
+      // Get the forwards and open channels from the gateway
+      const [forwards, openChannels] = await Promise.all([
+        this.gateway.getForwards(window ? this.toIsoWindow(window) : undefined),
+        this.gateway.getChannels(),
+      ]);
+
+      const aliases = await this.fetchAliases(openChannels);
+      const channels = this.calculateChannelStats(forwards, openChannels, aliases);
+      const peers = this.calculatePeerStats(channels);
+
+      const sortedForwards = [...forwards].sort(
+        (a, b) => Date.parse(b.created_at) - Date.parse(a.created_at)
+      );
+
+      const result: ForwardQueryResult = {
+        forwards: sortedForwards,
+        channels,
+        peers,
+        days: this.calculateDailyStats(forwards),
+        summary: this.calculateForwardSummary(forwards, channels, period),
+        formattedResults: {},
+      };
+
+      this.formatResults(result, intent.operation);
+
+      return result;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error handling forward intent: ${intent.operation}`, sanitizedError, {
+        component: 'forward-domain-handler',
+        operation: intent.operation,
+      });
+      throw sanitizedError;
+    }
+  }
+
+  /**
+   * Convert a time window into the ISO 8601 bounds expected by the gateway
+   * @param window The time window
+   * @returns ISO 8601 bounds of the window
+   * @private
+   */
+  private toIsoWindow(window: TimeWindow): { after: string; before: string } {
+    return {
+      after: new Date(window.from).toISOString(),
+      before: new Date(window.to).toISOString(),
+    };
+  }
+
+  /**
+   * Fetch aliases for the peers of the given channels
+   * @param channels The channels whose peers to look up
+   * @returns Promise resolving to a map of pubkeys to aliases
+   * @private
+   */
+  private async fetchAliases(channels: ChannelData[]): Promise<Map<string, string>> {
+    const pubkeys = Array.from(new Set(channels.map((channel) => channel.remote_pubkey)));
+
+    const aliases = await Promise.all(
+      pubkeys.map(async (pubkey) => {
+        try {
+          return [pubkey, (await this.gateway.getNodeAlias(pubkey)) || 'Unknown'] as const;
+        } catch (error) {
+          logger.debug(`Could not fetch alias for node ${pubkey.substring(0, 8)}...`, {
+            component: 'forward-domain-handler',
+            error: sanitizeError(error)?.message || 'Unknown error',
+          });
+          return [pubkey, 'Unknown'] as const;
+        }
+      })
+    );
+
+    return new Map<string, string>(aliases);
+  }
+
+  /**
+   * Aggregate forwards per channel, joined onto open channel data by channel ID
+   *
+   * Fees are attributed to the outgoing channel, since that is the liquidity
+   * the fee was charged for. Open channels without forwards are included so
+   * idle channels can be identified.
+   *
+   * @param forwards The forwards to aggregate
+   * @param openChannels The node's open channels
+   * @param aliases Map of peer pubkeys to aliases
+   * @returns Statistics per channel, highest earning first
+   * @private
+   */
+  private calculateChannelStats(
+    forwards: ForwardData[],
+    openChannels: ChannelData[],
+    aliases: Map<string, string>
+  ): ChannelForwardingStats[] {
+    const stats = new Map<string, ChannelForwardingStats>();
+
+    const getStats = (channelId: string): ChannelForwardingStats => {
+      let entry = stats.get(channelId);
+      if (!entry) {
+        entry = {
+          channel_id: channelId,
+          is_open: false,
+          incoming_forwards: 0,
+          outgoing_forwards: 0,
+          outgoing_tokens: 0,
+          earned_fees: 0,
+        };
+        stats.set(channelId, entry);
+      }
+      return entry;
+    };
+
+    openChannels.forEach((channel) => {
+      if (!channel.id) {
+        return;
+      }
+      const entry = getStats(channel.id);
+      entry.is_open = true;
+      entry.remote_pubkey = channel.remote_pubkey;
+      entry.remote_alias = channel.remote_alias || aliases.get(channel.remote_pubkey);
+      entry.capacity = channel.capacity;
+    });
+
+    forwards.forEach((forward) => {
+      getStats(forward.incoming_channel).incoming_forwards += 1;
+
+      const outgoing = getStats(forward.outgoing_channel);
+      outgoing.outgoing_forwards += 1;
+      outgoing.outgoing_tokens += forward.tokens;
+      outgoing.earned_fees += forward.fee;
+    });
+
+    return Array.from(stats.values()).sort(
+      (a, b) => b.earned_fees - a.earned_fees || b.outgoing_tokens - a.outgoing_tokens
+    );
+  }
+
+  /**
+   * Aggregate channel statistics per peer
+   * @param channels Statistics per channel
+   * @returns Statistics per peer, highest earning first
+   * @private
+   */
+  private calculatePeerStats(channels: ChannelForwardingStats[]): PeerForwardingStats[] {
+    const stats = new Map<string, PeerForwardingStats>();
+
+    channels.forEach((channel) => {
+      // Forwards over closed channels can't be attributed to a peer
+      if (!channel.remote_pubkey) {
+        return;
+      }
+
+      const entry = stats.get(channel.remote_pubkey) || {
+        remote_pubkey: channel.remote_pubkey,
+        remote_alias: channel.remote_alias,
+        channels: 0,
+        outgoing_forwards: 0,
+        outgoing_tokens: 0,
+        earned_fees: 0,
+      };
+
+      entry.channels += 1;
+      entry.outgoing_forwards += channel.outgoing_forwards;
+      entry.outgoing_tokens += channel.outgoing_tokens;
+      entry.earned_fees += channel.earned_fees;
+      stats.set(channel.remote_pubkey, entry);
+    });
+
+    return Array.from(stats.values()).sort((a, b) => b.earned_fees - a.earned_fees);
+  }
+
+  /**
+   * Aggregate forwards per UTC day
+   * @param forwards The forwards to aggregate
+   * @returns Statistics per day, oldest first
+   * @private
+   */
+  private calculateDailyStats(forwards: ForwardData[]): DailyForwardingStats[] {
+    const stats = new Map<string, DailyForwardingStats>();
+
+    forwards.forEach((forward) => {
+      const date = new Date(forward.created_at).toISOString().substring(0, 10);
+      const entry = stats.get(date) || { date, forwards: 0, tokens: 0, earned_fees: 0 };
+      entry.forwards += 1;
+      entry.tokens += forward.tokens;
+      entry.earned_fees += forward.fee;
+      stats.set(date, entry);
+    });
+
+    return Array.from(stats.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Calculate summary statistics for forwards
+   * @param forwards The forwards to summarize
+   * @param channels Statistics per channel, highest earning first
+   * @param period The time window of the summarized forwards
+   * @returns Summary statistics
+   * @private
+   */
+  private calculateForwardSummary(
+    forwards: ForwardData[],
+    channels: ChannelForwardingStats[],
+    period?: TimeRange
+  ): ForwardQueryResult['summary'] {
+    const totalForwarded = forwards.reduce((sum, forward) => sum + forward.tokens, 0);
+    const totalFees = forwards.reduce((sum, forward) => sum + forward.fee, 0);
+
+    return {
+      totalForwards: forwards.length,
+      totalForwarded,
+      totalFees,
+      averageFeePpm: totalForwarded > 0 ? Math.round((totalFees / totalForwarded) * 1000000) : 0,
+      topEarningChannels: channels
+        .filter((channel) => channel.earned_fees > 0)
+        .slice(0, MAX_RANKED_ENTRIES)
+        .map((channel) => channel.channel_id),
+      idleChannels: channels
+        .filter(
+          (channel) =>
+            channel.is_open && channel.incoming_forwards === 0 && channel.outgoing_forwards === 0
+        )
+        .map((channel) => channel.channel_id),
+      period,
+    };
+  }
+
+  /**
+   * Format results based on the operation
+   * @param result The result to format
+   * @param operation The operation that was performed
+   * @private
+   */
+  private formatResults(result: ForwardQueryResult, operation: LightningOperation): void {
+    if (operation === 'summary') {
+      result.formattedResults = {
+        ...result.formattedResults,
+        summary: this.formatForwardSummary(result),
+      };
+      return;
+    }
+
+    result.formattedResults = {
+      ...result.formattedResults,
+      list: this.formatForwardList(result),
+    };
+  }
+
+  /**
+   * Format recent forwards as text
+   * @param result The forward query result
+   * @returns Formatted forward list
+   * @private
+   */
+  private formatForwardList(result: ForwardQueryResult): string {
+    const { forwards, channels, summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+
+    if (forwards.length === 0) {
+      return `No forwarded payments found${periodLabel}.`;
+    }
+
+    const channelNames = new Map(
+      channels.map((channel) => [channel.channel_id, this.formatChannelName(channel)])
+    );
+
+    let output = `${this.formatTotals(result)}\n\nRecent forwards:\n`;
+    forwards.slice(0, MAX_LISTED_FORWARDS).forEach((forward, index) => {
+      output += `${index + 1}. ${forward.created_at.substring(0, 16).replace('T', ' ')} ${
+        channelNames.get(forward.incoming_channel) || forward.incoming_channel
+      } -> ${
+        channelNames.get(forward.outgoing_channel) || forward.outgoing_channel
+      }: ${forward.tokens.toLocaleString()} sats (fee: ${forward.fee.toLocaleString()} sats)\n`;
+    });
+
+    if (forwards.length > MAX_LISTED_FORWARDS) {
+      output += `...and ${forwards.length - MAX_LISTED_FORWARDS} more.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Format routing revenue, top earners and idle channels as text
+   * @param result The forward query result
+   * @returns Formatted forward summary
+   * @private
+   */
+  private formatForwardSummary(result: ForwardQueryResult): string {
+    const { channels, peers, summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+
+    let output =
+      summary.totalForwards === 0
+        ? `No forwarded payments found${periodLabel}.`
+        : this.formatTotals(result);
+
+    const topChannels = channels.filter((channel) =>
+      summary.topEarningChannels.includes(channel.channel_id)
+    );
+    if (topChannels.length > 0) {
+      output += '\n\nTop earning channels:\n';
+      topChannels.forEach((channel, index) => {
+        output += `${index + 1}. ${this.formatChannelName(channel)}: ${
+          channel.earned_fees
+        } sats from ${channel.outgoing_forwards} forwards (${formatSatoshis(
+          channel.outgoing_tokens
+        )} routed)\n`;
+      });
+    }
+
+    const topPeers = peers.filter((peer) => peer.earned_fees > 0).slice(0, MAX_RANKED_ENTRIES);
+    if (topPeers.length > 0) {
+      output += '\nTop earning peers:\n';
+      topPeers.forEach((peer, index) => {
+        output += `${index + 1}. ${peer.remote_alias || peer.remote_pubkey}: ${
+          peer.earned_fees
+        } sats across ${peer.channels} channels\n`;
+      });
+    }
+
+    const idleChannels = channels.filter((channel) =>
+      summary.idleChannels.includes(channel.channel_id)
+    );
+    if (idleChannels.length > 0) {
+      output += `\nIdle channels with no forwards${periodLabel} (${idleChannels.length}):\n`;
+      idleChannels.forEach((channel, index) => {
+        output += `${index + 1}. ${this.formatChannelName(channel)}: ${formatSatoshis(
+          channel.capacity || 0
+        )}\n`;
+      });
+    }
+
+    return output;
+  }
+
+  /**
+   * Format the forwarding totals sentence
+   * @param result The forward query result
+   * @returns Formatted totals
+   * @private
+   */
+  private formatTotals(result: ForwardQueryResult): string {
+    const { summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+
+    return `Your node forwarded ${
+      summary.totalForwards
+    } payments${periodLabel}, routing ${formatSatoshis(
+      summary.totalForwarded
+    )} and earning ${summary.totalFees.toLocaleString()} sats in fees (${
+      summary.averageFeePpm
+    } ppm on average).`;
+  }
+
+  /**
+   * Format a channel name for display
+   * @param channel Statistics of the channel
+   * @returns Alias and channel ID, or just the ID for closed channels
+   * @private
+   */
+  private formatChannelName(channel: ChannelForwardingStats): string {
+    return channel.remote_alias
+      ? `${channel.remote_alias} (${channel.channel_id})`
+      : `${channel.channel_id}${channel.is_open ? '' : ' (closed)'}`;
+  }
+}
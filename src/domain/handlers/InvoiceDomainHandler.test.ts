@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Tests for InvoiceDomainHandler
+ */
+
+import { InvoiceDomainHandler } from './InvoiceDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { InvoiceData } from '../invoices/entities/Invoice';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+import { resolveTimePeriod, toTimeRange } from '../intents/entities/TimePeriod';
+
+jest.mock('../../core/logging/logger');
+
+describe('InvoiceDomainHandler', () => {
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  const invoices: InvoiceData[] = [
+    {
+      id: 'invoice-1',
+      tokens: 10000,
+      received: 10000,
+      state: 'settled',
+      description: 'Coffee',
+      created_at: hoursAgo(5),
+      confirmed_at: hoursAgo(4),
+    },
+    {
+      id: 'invoice-2',
+      tokens: 20000,
+      received: 20000,
+      state: 'settled',
+      description: 'Book',
+      created_at: hoursAgo(100),
+      confirmed_at: hoursAgo(98),
+    },
+    {
+      id: 'invoice-3',
+      tokens: 5000,
+      received: 0,
+      state: 'open',
+      description: 'Tip',
+      created_at: hoursAgo(1),
+      expires_at: hoursAgo(-23),
+    },
+    {
+      id: 'invoice-4',
+      tokens: 7000,
+      received: 0,
+      state: 'expired',
+      created_at: hoursAgo(200),
+      expires_at: hoursAgo(199),
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: InvoiceDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({ getInvoices: jest.fn().mockResolvedValue(invoices) });
+    handler = new InvoiceDomainHandler(gateway);
+  });
+
+  test('should only handle invoice intents', () => {
+    expect(handler.canHandle(createIntent('invoices', 'list', 'show invoices'))).toBe(true);
+    expect(handler.canHandle(createIntent('payments', 'list', 'show payments'))).toBe(false);
+  });
+
+  test('should list unpaid invoices', async () => {
+    const intent = createIntent(
+      'invoices',
+      'list',
+      'Which invoices are still unpaid?',
+      new Map([['status', 'open']])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(result.invoices.map((i) => i.id)).toEqual(['invoice-3']);
+    expect(result.summary.countByState).toEqual({ settled: 0, open: 1, expired: 0, canceled: 0 });
+    expect(result.formattedResults?.list).toContain('Found 1 open invoices');
+    expect(result.formattedResults?.list).toContain('Tip');
+  });
+
+  test('should summarize received funds with settle time', async () => {
+    const result = await handler.handle(
+      createIntent('invoices', 'summary', 'How much did I receive?')
+    );
+
+    expect(result.summary.totalInvoices).toBe(4);
+    expect(result.summary.totalReceived).toBe(30000);
+    expect(result.summary.countByState).toEqual({ settled: 2, open: 1, expired: 1, canceled: 0 });
+    // Average of one and two hours
+    expect(result.summary.averageSettleTimeSeconds).toBe(5400);
+    expect(result.formattedResults?.summary).toContain('across 2 settled invoices');
+    expect(result.formattedResults?.summary).toContain('1.5 hours after creation');
+  });
+
+  test('should filter settled invoices by settle time', async () => {
+    const day = toTimeRange(resolveTimePeriod('day'));
+    const intent = createIntent(
+      'invoices',
+      'summary',
+      'How much did I receive in the last 24 hours?',
+      new Map<string, unknown>([
+        ['from', day.from],
+        ['to', day.to],
+        ['timeLabel', day.label],
+      ])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(result.invoices.map((i) => i.id)).toEqual(['invoice-3', 'invoice-1']);
+    expect(result.summary.totalReceived).toBe(10000);
+    expect(result.formattedResults?.summary).toContain('in the last 24 hours');
+  });
+
+  test('should report when no invoices are found', async () => {
+    gateway.getInvoices.mockResolvedValue([]);
+
+    const result = await handler.handle(createIntent('invoices', 'list', 'Show invoices'));
+
+    expect(result.formattedResults?.list).toBe('No invoices found.');
+  });
+});
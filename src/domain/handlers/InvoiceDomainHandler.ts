@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Invoice domain handler.
+ *
+ * Handles intents related to Lightning Network invoices.
+ * This includes listing invoices by state and summarizing received funds.
+ */
+
+import { DomainHandler, DomainQueryResult } from './DomainHandler';
+import { EnhancedIntent, LightningOperation } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { formatSatoshis } from '../../core/utils/format_bitcoin';
+import { InvoiceData, InvoiceState } from '../invoices/entities/Invoice';
+import {
+  TimeRange,
+  TimeWindow,
+  getTimeWindow,
+  isWithinTimeWindow,
+  toTimeRange,
+} from '../intents/entities/TimePeriod';
+
+/**
+ * Invoice states in display order
+ */
+const INVOICE_STATES: InvoiceState[] = ['settled', 'open', 'expired', 'canceled'];
+
+/**
+ * Maximum number of invoices included in formatted lists
+ */
+const MAX_LISTED_INVOICES = 20;
+
+/**
+ * Result of an invoice query
+ */
+export interface InvoiceQueryResult extends DomainQueryResult {
+  invoices: InvoiceData[];
+  summary: {
+    totalInvoices: number;
+    totalReceived: number;
+    countByState: Record<InvoiceState, number>;
+    averageSettleTimeSeconds?: number;
+    state?: InvoiceState;
+    period?: TimeRange;
+  };
+  formattedResults?: {
+    list?: string;
+    summary?: string;
+  };
+}
+
+/**
+ * Handler for invoice-related intents
+ */
+export class InvoiceDomainHandler implements DomainHandler<InvoiceQueryResult> {
+  /**
+   * Create a new invoice domain handler
+   * @param gateway The Lightning Network gateway to use
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Check if this handler can handle the given intent
+   * @param intent The intent to check
+   * @returns Whether this handler can handle the intent
+   */
+  canHandle(intent: EnhancedIntent): boolean {
+    return intent.domain === 'invoices';
+  }
+
+  /**
+   * Handle an invoice-related intent
+   * @param intent The intent to handle
+   * @returns Promise resolving to the result of handling the intent
+   */
+  async handle(intent: EnhancedIntent): Promise<InvoiceQueryResult> {
+    try {
+      logger.debug(`Handling invoice intent: ${intent.operation}`, {
+        component: 'invoice-domain-handler',
+        operation: intent.operation,
+      });
+
+      const state = intent.attributes.get('status') as InvoiceState | undefined;
+      const window = getTimeWindow(intent.attributes);
+      const period = window && toTimeRange(window);
+
+      // Get the invoices from the gateway
+      const invoices = await this.gateway.getInvoices();
+
+      // Restrict to the requested time window and state, most recent first
+      const filteredInvoices = this.filterByWindow(invoices, window)
+        .filter((invoice) => !state || invoice.state === state)
+        .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+
+      const result: InvoiceQueryResult = {
+        invoices: filteredInvoices,
+        summary: this.calculateInvoiceSummary(filteredInvoices, state, period),
+        formattedResults: {},
+      };
+
+      this.formatResults(result, intent.operation);
+
+      return result;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error handling invoice intent: ${intent.operation}`, sanitizedError, {
+        component: 'invoice-domain-handler',
+        operation: intent.operation,
+      });
+      throw sanitizedError;
+    }
+  }
+
+  /**
+   * Keep only invoices that were settled (or, if unsettled, created) within a time window
+   * @param invoices The invoices to filter
+   * @param window The time window, if any
+   * @returns Invoices within the time window
+   * @private
+   */
+  private filterByWindow(invoices: InvoiceData[], window?: TimeWindow): InvoiceData[] {
+    if (!window) {
+      return [...invoices];
+    }
+
+    return invoices.filter((invoice) =>
+      isWithinTimeWindow(invoice.confirmed_at || invoice.created_at, window)
+    );
+  }
+
+  /**
+   * Calculate summary statistics for invoices
+   * @param invoices The invoices to summarize
+   * @param state The invoice state the query was restricted to, if any
+   * @param period The time window of the summarized invoices
+   * @returns Summary statistics
+   * @private
+   */
+  private calculateInvoiceSummary(
+    invoices: InvoiceData[],
+    state?: InvoiceState,
+    period?: TimeRange
+  ): InvoiceQueryResult['summary'] {
+    const countByState = INVOICE_STATES.reduce(
+      (counts, invoiceState) => ({
+        ...counts,
+        [invoiceState]: invoices.filter((invoice) => invoice.state === invoiceState).length,
+      }),
+      {} as Record<InvoiceState, number>
+    );
+
+    const settledInvoices = invoices.filter(
+      (invoice) => invoice.state === 'settled' && invoice.confirmed_at
+    );
+    const totalReceived = settledInvoices.reduce((sum, invoice) => sum + invoice.received, 0);
+
+    // Settle time is the delay between creating an invoice and it being paid
+    const totalSettleTimeMs = settledInvoices.reduce(
+      (sum, invoice) =>
+        sum + (Date.parse(invoice.confirmed_at as string) - Date.parse(invoice.created_at)),
+      0
+    );
+
+    return {
+      totalInvoices: invoices.length,
+      totalReceived,
+      countByState,
+      averageSettleTimeSeconds:
+        settledInvoices.length > 0
+          ? Math.round(totalSettleTimeMs / settledInvoices.length / 1000)
+          : undefined,
+      state,
+      period,
+    };
+  }
+
+  /**
+   * Format results based on the operation
+   * @param result The result to format
+   * @param operation The operation that was performed
+   * @private
+   */
+  private formatResults(result: InvoiceQueryResult, operation: LightningOperation): void {
+    if (operation === 'summary') {
+      result.formattedResults = {
+        ...result.formattedResults,
+        summary: this.formatInvoiceSummary(result),
+      };
+      return;
+    }
+
+    result.formattedResults = {
+      ...result.formattedResults,
+      list: this.formatInvoiceList(result),
+    };
+  }
+
+  /**
+   * Format invoice list as text
+   * @param result The invoice query result
+   * @returns Formatted invoice list
+   * @private
+   */
+  private formatInvoiceList(result: InvoiceQueryResult): string {
+    const { invoices, summary } = result;
+    const stateLabel = summary.state ? `${summary.state} ` : '';
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+
+    if (invoices.length === 0) {
+      return `No ${stateLabel}invoices found${periodLabel}.`;
+    }
+
+    let output = `Found ${
+      invoices.length
+    } ${stateLabel}invoices${periodLabel} (${this.formatStateCounts(summary.countByState)}).\n\n`;
+
+    output += 'Your invoices:\n';
+    invoices.slice(0, MAX_LISTED_INVOICES).forEach((invoice, index) => {
+      const amount = invoice.state === 'settled' ? invoice.received : invoice.tokens;
+      output += `${index + 1}. ${invoice.created_at.substring(0, 10)} ${
+        invoice.description || 'No description'
+      }: ${formatSatoshis(amount)} (${invoice.state})\n`;
+    });
+
+    if (invoices.length > MAX_LISTED_INVOICES) {
+      output += `...and ${invoices.length - MAX_LISTED_INVOICES} more.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Format invoice totals as text
+   * @param result The invoice query result
+   * @returns Formatted invoice summary
+   * @private
+   */
+  private formatInvoiceSummary(result: InvoiceQueryResult): string {
+    const { summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+
+    if (summary.totalInvoices === 0) {
+      return `No invoices found${periodLabel}.`;
+    }
+
+    let output = `You received ${formatSatoshis(summary.totalReceived)} across ${
+      summary.countByState.settled
+    } settled invoices${periodLabel}.`;
+
+    if (summary.averageSettleTimeSeconds !== undefined) {
+      output += ` Invoices were paid ${this.formatDuration(
+        summary.averageSettleTimeSeconds
+      )} after creation on average.`;
+    }
+
+    output += `\n\nInvoices by state: ${this.formatStateCounts(summary.countByState)}.`;
+
+    return output;
+  }
+
+  /**
+   * Format invoice counts per state as text
+   * @param countByState Number of invoices in each state
+   * @returns Formatted state counts
+   * @private
+   */
+  private formatStateCounts(countByState: Record<InvoiceState, number>): string {
+    return INVOICE_STATES.map((state) => `${countByState[state]} ${state}`).join(', ');
+  }
+
+  /**
+   * Format a duration in seconds as text
+   * @param seconds The duration in seconds
+   * @returns Formatted duration
+   * @private
+   */
+  private formatDuration(seconds: number): string {
+    if (seconds < 60) {
+      return `${seconds} seconds`;
+    }
+    if (seconds < 3600) {
+      return `${Math.round(seconds / 60)} minutes`;
+    }
+    return `${(seconds / 3600).toFixed(1)} hours`;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Tests for NodeDomainHandler
+ */
+
+import { NodeDomainHandler } from './NodeDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { NodeDetailsData } from '../nodes/entities/Node';
+import { NodeQueryResultSchema } from '../nodes/schemas/node-response';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+
+jest.mock('../../core/logging/logger');
+
+describe('NodeDomainHandler', () => {
+  const pubkey = `03${'a'.repeat(64)}`;
+
+  const details: NodeDetailsData = {
+    public_key: pubkey,
+    alias: 'ACINQ',
+    color: '#49daaa',
+    sockets: ['3.33.236.230:9735'],
+    updated_at: '2024-03-01T00:00:00.000Z',
+    capacity: 3000000,
+    channel_count: 2,
+    channels: [
+      { id: '100x1x0', capacity: 1000000, peer_public_key: 'pubkey-b' },
+      { id: '100x2x0', capacity: 2000000, peer_public_key: 'pubkey-c' },
+    ],
+    features: [
+      { bit: 1, type: 'data_loss_protection', is_required: true },
+      { bit: 17, type: 'multipath', is_required: false },
+    ],
+  };
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: NodeDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getNetworkGraphNodes: jest.fn().mockResolvedValue([
+        { public_key: pubkey, alias: 'ACINQ', sockets: [] },
+        { public_key: 'pubkey-acinq-test', alias: 'ACINQ testnet', sockets: [] },
+      ]),
+      getNodeDetails: jest.fn().mockResolvedValue(details),
+    });
+
+    handler = new NodeDomainHandler(gateway);
+  });
+
+  test('should only handle node intents', () => {
+    expect(handler.canHandle(createIntent('nodes', 'details', 'tell me about ACINQ'))).toBe(true);
+    expect(handler.canHandle(createIntent('peers', 'list', 'show peers'))).toBe(false);
+  });
+
+  test('should look up nodes by public key without loading the graph', async () => {
+    const intent = createIntent('nodes', 'details', 'who is', new Map([['node', pubkey]]));
+
+    const result = await handler.handle(intent);
+
+    expect(gateway.getNetworkGraphNodes).not.toHaveBeenCalled();
+    expect(gateway.getNodeDetails).toHaveBeenCalledWith(pubkey);
+    expect(result.node).toEqual(details);
+  });
+
+  test('should resolve aliases through the cached graph', async () => {
+    const intent = createIntent(
+      'nodes',
+      'details',
+      'Tell me about node acinq',
+      new Map([['node', 'acinq']])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(gateway.getNodeDetails).toHaveBeenCalledWith(pubkey);
+    expect(result.candidates.map((candidate) => candidate.public_key)).toEqual([
+      'pubkey-acinq-test',
+    ]);
+    expect(result.formattedResults?.details).toContain(`ACINQ (${pubkey})`);
+    expect(result.formattedResults?.details).toContain(
+      '- Total capacity: 0.03000000 BTC (3,000,000 sats)'
+    );
+    expect(result.formattedResults?.details).toContain('- Addresses: 3.33.236.230:9735');
+    expect(result.formattedResults?.details).toContain(
+      '- Features: data_loss_protection (required), multipath'
+    );
+    expect(result.formattedResults?.details).toContain('1. 100x2x0: 0.02000000 BTC');
+    expect(result.formattedResults?.details).toContain('Other nodes matching "acinq"');
+  });
+
+  test('should report when no node matches', async () => {
+    const intent = createIntent(
+      'nodes',
+      'details',
+      'Tell me about Kraken',
+      new Map([['node', 'Kraken']])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(gateway.getNodeDetails).not.toHaveBeenCalled();
+    expect(result.formattedResults?.details).toBe('No node found matching "Kraken".');
+  });
+
+  test('should ask for a node when none was given', async () => {
+    const result = await handler.handle(createIntent('nodes', 'details', 'Tell me about a node'));
+
+    expect(result.formattedResults?.details).toContain('Please specify the alias or public key');
+  });
+
+  test('should recommend channel candidates from the cached graph', async () => {
+    gateway.getNetworkGraphChannels.mockResolvedValue(
+      ['pubkey-b', 'pubkey-c', 'pubkey-d'].map((peer, index) => ({
+        id: `100x${index}x0`,
+        capacity: 1000000,
+        node1_public_key: pubkey,
+        node2_public_key: peer,
+        node1_fee_policy: { base_fee_msat: 1000, fee_rate_ppm: 100 },
+      }))
+    );
+    const intent = createIntent(
+      'nodes',
+      'recommend',
+      'Who should I open a channel with?',
+      new Map<string, unknown>([
+        ['limit', 1],
+        ['minChannels', 2],
+      ])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(NodeQueryResultSchema.safeParse(result).success).toBe(true);
+    expect(gateway.getChannels).toHaveBeenCalled();
+    expect(gateway.getNodeDetails).not.toHaveBeenCalled();
+    expect(result.channelCandidates?.map((candidate) => candidate.public_key)).toEqual([pubkey]);
+    expect(result.formattedResults?.recommend).toContain(
+      `Nodes to consider opening a channel with, best first:\n1. ACINQ (${pubkey}): score`
+    );
+    expect(result.formattedResults?.recommend).toContain('3,000,000 sats over 3 channels');
+  });
+
+  test('should report when no channel candidates are found', async () => {
+    const result = await handler.handle(
+      createIntent('nodes', 'recommend', 'Who should I open a channel with?')
+    );
+
+    expect(result.channelCandidates).toEqual([]);
+    expect(result.formattedResults?.recommend).toBe(
+      'No channel candidates found in the network graph.'
+    );
+  });
+
+  test('should propagate gateway errors', async () => {
+    gateway.getNodeDetails.mockRejectedValue(new Error('Failed to fetch node details'));
+
+    await expect(
+      handler.handle(createIntent('nodes', 'details', 'who is', new Map([['node', pubkey]])))
+    ).rejects.toThrow('Failed to fetch node details');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Node domain handler.
+ *
+ * Handles intents related to remote nodes in the Lightning Network graph.
+ * Nodes can be looked up by public key or by (approximate) alias, and the
+ * graph can be searched for nodes worth opening channels with.
+ */
+
+import { DomainHandler, DomainQueryResult } from './DomainHandler';
+import { EnhancedIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { formatSatoshis } from '../../core/utils/format_bitcoin';
+import { ChannelCandidateData, GraphNodeData, NodeDetailsData } from '../nodes/entities/Node';
+import { NetworkGraphCache } from '../nodes/services/NetworkGraphCache';
+import { ChannelCandidateRecommender } from '../nodes/services/ChannelCandidateRecommender';
+
+/**
+ * Maximum number of channels included in formatted node details
+ */
+const MAX_LISTED_CHANNELS = 10;
+
+/**
+ * Result of a node query
+ */
+export interface NodeQueryResult extends DomainQueryResult {
+  /** The alias or public key that was looked up */
+  query?: string;
+  node?: NodeDetailsData;
+  /** Other graph nodes whose alias resembles the query */
+  candidates: GraphNodeData[];
+  /** Nodes recommended to open channels with, set by recommendation queries */
+  channelCandidates?: ChannelCandidateData[];
+  formattedResults?: {
+    details?: string;
+    recommend?: string;
+  };
+}
+
+/**
+ * Handler for node-related intents
+ */
+export class NodeDomainHandler implements DomainHandler<NodeQueryResult> {
+  private readonly candidateRecommender = new ChannelCandidateRecommender();
+
+  /**
+   * Create a new node domain handler
+   * @param gateway The Lightning Network gateway to use
+   * @param graphCache Cached network graph used to resolve aliases and
+   * recommend channel candidates
+   */
+  constructor(
+    private readonly gateway: LightningNetworkGateway,
+    private readonly graphCache: NetworkGraphCache = new NetworkGraphCache(gateway)
+  ) {}
+
+  /**
+   * Check if this handler can handle the given intent
+   * @param intent The intent to check
+   * @returns Whether this handler can handle the intent
+   */
+  canHandle(intent: EnhancedIntent): boolean {
+    return intent.domain === 'nodes';
+  }
+
+  /**
+   * Handle a node-related intent
+   * @param intent The intent to handle
+   * @returns Promise resolving to the result of handling the intent
+   */
+  async handle(intent: EnhancedIntent): Promise<NodeQueryResult> {
+    try {
+      logger.debug(`Handling node intent: ${intent.operation}`, {
+        component: 'node-domain-handler',
+        operation: intent.operation,
+      });
+
+      if (intent.operation === 'recommend') {
+        return await this.recommendChannelCandidates(intent);
+      }
+
+      const query = intent.attributes.get('node') as string | undefined;
+
+      if (!query) {
+        return {
+          candidates: [],
+          formattedResults: {
+            details: 'Please specify the alias or public key of the node you want to look up.',
+          },
+        };
+      }
+
+      const { pubkey, candidates } = await this.resolveNode(query);
+      const node = pubkey ? await this.gateway.getNodeDetails(pubkey) : undefined;
+
+      const result: NodeQueryResult = { query, node, candidates };
+
+      // Node queries only have a details representation
+      result.formattedResults = { details: this.formatNodeDetails(result) };
+
+      return result;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error handling node intent: ${intent.operation}`, sanitizedError, {
+        component: 'node-domain-handler',
+        operation: intent.operation,
+      });
+      throw sanitizedError;
+    }
+  }
+
+  /**
+   * Recommend nodes of the cached network graph to open channels with
+   * @param intent The intent with the number and minimum size of candidates as attributes
+   * @returns Promise resolving to the best candidates
+   * @private
+   */
+  private async recommendChannelCandidates(intent: EnhancedIntent): Promise<NodeQueryResult> {
+    const [nodes, graphChannels, channels] = await Promise.all([
+      this.graphCache.getNodes(),
+      this.graphCache.getChannels(),
+      this.gateway.getChannels(),
+    ]);
+
+    const result: NodeQueryResult = {
+      candidates: [],
+      channelCandidates: this.candidateRecommender.recommend(nodes, graphChannels, channels, {
+        limit: intent.attributes.get('limit'),
+        minChannels: intent.attributes.get('minChannels'),
+        minCapacity: intent.attributes.get('minCapacity'),
+      }),
+    };
+
+    result.formattedResults = { recommend: this.formatChannelCandidates(result) };
+
+    return result;
+  }
+
+  /**
+   * Resolve an alias or public key to the public key of a node
+   * @param query The alias or public key to resolve
+   * @returns Promise resolving to the best matching public key and alternative matches
+   * @private
+   */
+  private async resolveNode(
+    query: string
+  ): Promise<{ pubkey?: string; candidates: GraphNodeData[] }> {
+    if (/^[0-9a-f]{66}$/i.test(query)) {
+      return { pubkey: query.toLowerCase(), candidates: [] };
+    }
+
+    const matches = await this.graphCache.findByAlias(query);
+
+    return {
+      pubkey: matches[0]?.node.public_key,
+      candidates: matches.slice(1).map((match) => match.node),
+    };
+  }
+
+  /**
+   * Format channel candidates as text
+   * @param result The node query result with the recommended candidates
+   * @returns Formatted channel candidates
+   * @private
+   */
+  private formatChannelCandidates(result: NodeQueryResult): string {
+    const { channelCandidates } = result;
+
+    if (!channelCandidates || channelCandidates.length === 0) {
+      return 'No channel candidates found in the network graph.';
+    }
+
+    let output = 'Nodes to consider opening a channel with, best first:\n';
+    channelCandidates.forEach((candidate, index) => {
+      output += `${index + 1}. ${candidate.alias || 'Unknown'} (${
+        candidate.public_key
+      }): score ${candidate.score.toFixed(2)}\n   ${candidate.rationale}\n`;
+    });
+
+    return output;
+  }
+
+  /**
+   * Format node details as text
+   * @param result The node query result
+   * @returns Formatted node details
+   * @private
+   */
+  private formatNodeDetails(result: NodeQueryResult): string {
+    const { node, candidates, query } = result;
+
+    if (!node) {
+      return `No node found matching "${query}".`;
+    }
+
+    let output = `${node.alias || 'Unknown'} (${node.public_key})\n\n`;
+    output += `- Total capacity: ${formatSatoshis(node.capacity)}\n`;
+    output += `- Channels: ${node.channel_count}\n`;
+    output += `- Addresses: ${node.sockets.length > 0 ? node.sockets.join(', ') : 'None'}\n`;
+    output += `- Features: ${
+      node.features.length > 0
+        ? node.features
+            .map((feature) => `${feature.type}${feature.is_required ? ' (required)' : ''}`)
+            .join(', ')
+        : 'None'
+    }\n`;
+    output += `- Last update: ${node.updated_at || 'Unknown'}\n`;
+
+    const largestChannels = [...node.channels]
+      .sort((a, b) => b.capacity - a.capacity)
+      .slice(0, MAX_LISTED_CHANNELS);
+
+    if (largestChannels.length > 0) {
+      output += '\nLargest channels:\n';
+      largestChannels.forEach((channel, index) => {
+        output += `${index + 1}. ${channel.id}: ${formatSatoshis(channel.capacity)}${
+          channel.peer_public_key ? ` with ${channel.peer_public_key}` : ''
+        }\n`;
+      });
+    }
+
+    if (candidates.length > 0) {
+      output += `\nOther nodes matching "${query}":\n`;
+      candidates.forEach((candidate, index) => {
+        output += `${index + 1}. ${candidate.alias} (${candidate.public_key})\n`;
+      });
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Tests for PaymentDomainHandler
+ */
+
+import { PaymentDomainHandler } from './PaymentDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { PaymentData } from '../payments/entities/Payment';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+import { resolveTimePeriod, toTimeRange } from '../intents/entities/TimePeriod';
+
+jest.mock('../../core/logging/logger');
+
+describe('PaymentDomainHandler', () => {
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const payments: PaymentData[] = [
+    {
+      id: 'hash-1',
+      destination: 'pubkey-a',
+      tokens: 100000,
+      fee: 10,
+      status: 'succeeded',
+      created_at: daysAgo(1),
+    },
+    {
+      id: 'hash-2',
+      destination: 'pubkey-b',
+      tokens: 50000,
+      fee: 5,
+      status: 'succeeded',
+      created_at: daysAgo(3),
+    },
+    {
+      id: 'hash-3',
+      destination: 'pubkey-a',
+      tokens: 200000,
+      fee: 40,
+      status: 'succeeded',
+      created_at: daysAgo(20),
+    },
+  ];
+
+  const failedPayments: PaymentData[] = [
+    {
+      id: 'hash-4',
+      destination: 'pubkey-c',
+      tokens: 75000,
+      fee: 0,
+      status: 'failed',
+      created_at: daysAgo(2),
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: PaymentDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getPayments: jest.fn().mockResolvedValue(payments),
+      getFailedPayments: jest.fn().mockResolvedValue(failedPayments),
+      getNodeAlias: jest.fn().mockImplementation(async (pubkey: string) => {
+        if (pubkey === 'pubkey-b') {
+          throw new Error('Node not found');
+        }
+        return `Alias ${pubkey}`;
+      }),
+    });
+
+    handler = new PaymentDomainHandler(gateway);
+  });
+
+  test('should only handle payment intents', () => {
+    expect(handler.canHandle(createIntent('payments', 'list', 'show payments'))).toBe(true);
+    expect(handler.canHandle(createIntent('channels', 'list', 'show channels'))).toBe(false);
+  });
+
+  test('should list payments within the requested period, most recent first', async () => {
+    const week = toTimeRange(resolveTimePeriod('week'));
+    const intent = createIntent(
+      'payments',
+      'list',
+      'What did I pay in the last 7 days?',
+      new Map<string, unknown>([
+        ['from', week.from],
+        ['to', week.to],
+        ['timeLabel', week.label],
+      ])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(gateway.getPayments).toHaveBeenCalled();
+    expect(result.payments.map((p) => p.id)).toEqual(['hash-1', 'hash-2']);
+    expect(result.payments[0].destination_alias).toBe('Alias pubkey-a');
+    expect(result.payments[1].destination_alias).toBe('Unknown');
+    expect(result.summary).toEqual({
+      totalPayments: 2,
+      totalSent: 150000,
+      totalFees: 15,
+      averageFeePpm: 100,
+      status: 'succeeded',
+      period: week,
+    });
+    expect(result.formattedResults?.list).toContain('You made 2 payments in the last 7 days');
+  });
+
+  test('should only look up the aliases of the listed payments', async () => {
+    gateway.getPayments.mockResolvedValue(
+      Array.from({ length: 25 }, (_, index) => ({
+        id: `hash-${index}`,
+        destination: `pubkey-${index}`,
+        tokens: 1000,
+        fee: 1,
+        status: 'succeeded' as const,
+        created_at: daysAgo(index),
+      }))
+    );
+
+    const result = await handler.handle(createIntent('payments', 'list', 'What did I pay?'));
+
+    expect(gateway.getNodeAlias).toHaveBeenCalledTimes(20);
+    expect(result.payments).toHaveLength(25);
+    expect(result.payments[19].destination_alias).toBe('Alias pubkey-19');
+    expect(result.payments[20].destination_alias).toBeUndefined();
+    expect(result.formattedResults?.list).toContain('...and 5 more.');
+  });
+
+  test('should list failed payments', async () => {
+    const intent = createIntent(
+      'payments',
+      'list',
+      'Show failed payments',
+      new Map([['status', 'failed']])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(gateway.getFailedPayments).toHaveBeenCalled();
+    expect(gateway.getPayments).not.toHaveBeenCalled();
+    expect(result.summary.status).toBe('failed');
+    expect(result.formattedResults?.list).toContain('1 payments failed');
+    expect(result.formattedResults?.list).toContain('Alias pubkey-c');
+  });
+
+  test('should summarize total fees paid', async () => {
+    const intent = createIntent('payments', 'summary', 'Total fees paid');
+
+    const result = await handler.handle(intent);
+
+    expect(result.summary.totalFees).toBe(55);
+    expect(result.summary.totalSent).toBe(350000);
+    expect(result.formattedResults?.summary).toContain('across 3 payments');
+    expect(result.formattedResults?.summary).toContain('(157 ppm on average)');
+  });
+
+  test('should report when no payments are found', async () => {
+    gateway.getPayments.mockResolvedValue([]);
+
+    const result = await handler.handle(createIntent('payments', 'list', 'Show payments'));
+
+    expect(result.payments).toEqual([]);
+    expect(result.formattedResults?.list).toBe('No payments found.');
+  });
+
+  test('should propagate gateway errors', async () => {
+    gateway.getPayments.mockRejectedValue(new Error('Failed to fetch payments'));
+
+    await expect(handler.handle(createIntent('payments', 'list', 'Show payments'))).rejects.toThrow(
+      'Failed to fetch payments'
+    );
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Payment domain handler.
+ *
+ * Handles intents related to outgoing Lightning Network payments.
+ * This includes listing payments, failed payments and fee totals.
+ */
+
+import { DomainHandler, DomainQueryResult } from './DomainHandler';
+import { EnhancedIntent, LightningOperation } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { formatSatoshis } from '../../core/utils/format_bitcoin';
+import { PaymentData } from '../payments/entities/Payment';
+import {
+  TimeRange,
+  TimeWindow,
+  getTimeWindow,
+  isWithinTimeWindow,
+  toTimeRange,
+} from '../intents/entities/TimePeriod';
+
+/**
+ * Maximum number of payments included in formatted lists
+ */
+const MAX_LISTED_PAYMENTS = 20;
+
+/**
+ * Result of a payment query
+ */
+export interface PaymentQueryResult extends DomainQueryResult {
+  payments: PaymentData[];
+  summary: {
+    totalPayments: number;
+    totalSent: number;
+    totalFees: number;
+    averageFeePpm: number;
+    status: PaymentData['status'];
+    period?: TimeRange;
+  };
+  formattedResults?: {
+    list?: string;
+    summary?: string;
+  };
+}
+
+/**
+ * Handler for payment-related intents
+ */
+export class PaymentDomainHandler implements DomainHandler<PaymentQueryResult> {
+  /**
+   * Create a new payment domain handler
+   * @param gateway The Lightning Network gateway to use
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Check if this handler can handle the given intent
+   * @param intent The intent to check
+   * @returns Whether this handler can handle the intent
+   */
+  canHandle(intent: EnhancedIntent): boolean {
+    return intent.domain === 'payments';
+  }
+
+  /**
+   * Handle a payment-related intent
+   * @param intent The intent to handle
+   * @returns Promise resolving to the result of handling the intent
+   */
+  async handle(intent: EnhancedIntent): Promise<PaymentQueryResult> {
+    try {
+      logger.debug(`Handling payment intent: ${intent.operation}`, {
+        component: 'payment-domain-handler',
+        operation: intent.operation,
+      });
+
+      const status: PaymentData['status'] =
+        intent.attributes.get('status') === 'failed' ? 'failed' : 'succeeded';
+      const window = getTimeWindow(intent.attributes);
+      const period = window && toTimeRange(window);
+
+      // Get the payments from the gateway
+      const payments =
+        status === 'failed'
+          ? await this.gateway.getFailedPayments()
+          : await this.gateway.getPayments();
+
+      // Restrict to the requested time window, most recent first
+      const filteredPayments = this.filterByWindow(payments, window).sort(
+        (a, b) => Date.parse(b.created_at) - Date.parse(a.created_at)
+      );
+
+      // Enrich the listed payments with destination aliases
+      const enrichedPayments = await this.enrichPaymentsWithAliases(filteredPayments);
+
+      const result: PaymentQueryResult = {
+        payments: enrichedPayments,
+        summary: this.calculatePaymentSummary(enrichedPayments, status, period),
+        formattedResults: {},
+      };
+
+      this.formatResults(result, intent.operation);
+
+      return result;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error handling payment intent: ${intent.operation}`, sanitizedError, {
+        component: 'payment-domain-handler',
+        operation: intent.operation,
+      });
+      throw sanitizedError;
+    }
+  }
+
+  /**
+   * Keep only payments created within the given time window
+   * @param payments The payments to filter
+   * @param window The time window, if any
+   * @returns Payments created within the time window
+   * @private
+   */
+  private filterByWindow(payments: PaymentData[], window?: TimeWindow): PaymentData[] {
+    if (!window) {
+      return [...payments];
+    }
+
+    return payments.filter((payment) => isWithinTimeWindow(payment.created_at, window));
+  }
+
+  /**
+   * Enrich the payments included in formatted lists with the aliases of their
+   * destinations, so a long payment history does not look up every destination
+   * @param payments The payments to enrich, most recent first
+   * @returns Promise resolving to the payments, the listed ones enriched
+   * @private
+   */
+  private async enrichPaymentsWithAliases(payments: PaymentData[]): Promise<PaymentData[]> {
+    const listedPayments = payments.slice(0, MAX_LISTED_PAYMENTS);
+    const destinations = Array.from(new Set(listedPayments.map((payment) => payment.destination)));
+
+    const aliases = await Promise.all(
+      destinations.map(async (pubkey) => {
+        try {
+          return [pubkey, (await this.gateway.getNodeAlias(pubkey)) || 'Unknown'] as const;
+        } catch (error) {
+          // Private or unannounced destinations are not in the graph
+          logger.debug(`Could not fetch alias for node ${pubkey.substring(0, 8)}...`, {
+            component: 'payment-domain-handler',
+            error: sanitizeError(error)?.message || 'Unknown error',
+          });
+          return [pubkey, 'Unknown'] as const;
+        }
+      })
+    );
+
+    const aliasMap = new Map<string, string>(aliases);
+
+    return [
+      ...listedPayments.map((payment) => ({
+        ...payment,
+        destination_alias: aliasMap.get(payment.destination) || 'Unknown',
+      })),
+      ...payments.slice(MAX_LISTED_PAYMENTS),
+    ];
+  }
+
+  /**
+   * Calculate summary statistics for payments
+   * @param payments The payments to summarize
+   * @param status The status of the summarized payments
+   * @param period The time window of the summarized payments
+   * @returns Summary statistics
+   * @private
+   */
+  private calculatePaymentSummary(
+    payments: PaymentData[],
+    status: PaymentData['status'],
+    period?: TimeRange
+  ): PaymentQueryResult['summary'] {
+    const totalSent = payments.reduce((sum, payment) => sum + payment.tokens, 0);
+    const totalFees = payments.reduce((sum, payment) => sum + payment.fee, 0);
+
+    return {
+      totalPayments: payments.length,
+      totalSent,
+      totalFees,
+      averageFeePpm: totalSent > 0 ? Math.round((totalFees / totalSent) * 1000000) : 0,
+      status,
+      period,
+    };
+  }
+
+  /**
+   * Format results based on the operation
+   * @param result The result to format
+   * @param operation The operation that was performed
+   * @private
+   */
+  private formatResults(result: PaymentQueryResult, operation: LightningOperation): void {
+    if (operation === 'summary') {
+      result.formattedResults = {
+        ...result.formattedResults,
+        summary: this.formatPaymentSummary(result),
+      };
+      return;
+    }
+
+    result.formattedResults = {
+      ...result.formattedResults,
+      list: this.formatPaymentList(result),
+    };
+  }
+
+  /**
+   * Format payment list as text
+   * @param result The payment query result
+   * @returns Formatted payment list
+   * @private
+   */
+  private formatPaymentList(result: PaymentQueryResult): string {
+    const { payments, summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+    const isFailed = summary.status === 'failed';
+
+    if (payments.length === 0) {
+      return `No ${isFailed ? 'failed ' : ''}payments found${periodLabel}.`;
+    }
+
+    let output = isFailed
+      ? `${payments.length} payments failed${periodLabel}, attempting to send ${formatSatoshis(
+          summary.totalSent
+        )}.\n\n`
+      : `You made ${payments.length} payments${periodLabel}, sending ${formatSatoshis(
+          summary.totalSent
+        )} and paying ${formatSatoshis(summary.totalFees)} in fees.\n\n`;
+
+    output += isFailed ? 'Failed payments:\n' : 'Your payments:\n';
+    payments.slice(0, MAX_LISTED_PAYMENTS).forEach((payment, index) => {
+      output += `${index + 1}. ${payment.created_at.substring(0, 10)} ${
+        payment.destination_alias
+      }: ${formatSatoshis(payment.tokens)}${
+        isFailed ? '' : ` (fee: ${payment.fee.toLocaleString()} sats)`
+      }\n`;
+    });
+
+    if (payments.length > MAX_LISTED_PAYMENTS) {
+      output += `...and ${payments.length - MAX_LISTED_PAYMENTS} more.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Format payment totals as text
+   * @param result The payment query result
+   * @returns Formatted payment summary
+   * @private
+   */
+  private formatPaymentSummary(result: PaymentQueryResult): string {
+    const { summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+
+    if (summary.totalPayments === 0) {
+      return `No ${summary.status === 'failed' ? 'failed ' : ''}payments found${periodLabel}.`;
+    }
+
+    if (summary.status === 'failed') {
+      return `${
+        summary.totalPayments
+      } payments failed${periodLabel}, attempting to send ${formatSatoshis(summary.totalSent)}.`;
+    }
+
+    return `You sent ${formatSatoshis(summary.totalSent)} across ${
+      summary.totalPayments
+    } payments${periodLabel} and paid ${formatSatoshis(summary.totalFees)} in routing fees (${
+      summary.averageFeePpm
+    } ppm on average).`;
+  }
+}
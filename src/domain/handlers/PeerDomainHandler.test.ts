@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Tests for PeerDomainHandler
+ */
+
+import { PeerDomainHandler } from './PeerDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { PeerData } from '../peers/entities/Peer';
+import { ChannelData } from '../channels/entities/Channel';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+
+jest.mock('../../core/logging/logger');
+
+describe('PeerDomainHandler', () => {
+  const peers: PeerData[] = [
+    {
+      public_key: 'pubkey-a',
+      socket: '10.0.0.1:9735',
+      ping_time: 42,
+      bytes_sent: 2048,
+      bytes_received: 512,
+      is_inbound: false,
+    },
+    {
+      public_key: 'pubkey-b',
+      socket: '10.0.0.2:9735',
+      ping_time: 120,
+      bytes_sent: 100,
+      bytes_received: 3 * 1024 * 1024,
+      is_inbound: true,
+    },
+  ];
+
+  const channels: ChannelData[] = [
+    {
+      capacity: 1000000,
+      local_balance: 600000,
+      remote_balance: 400000,
+      active: true,
+      remote_pubkey: 'pubkey-a',
+      channel_point: 'txid-a:0',
+    },
+    {
+      capacity: 2000000,
+      local_balance: 1000000,
+      remote_balance: 1000000,
+      active: false,
+      remote_pubkey: 'pubkey-c',
+      channel_point: 'txid-c:0',
+    },
+    {
+      capacity: 500000,
+      local_balance: 100000,
+      remote_balance: 400000,
+      active: false,
+      remote_pubkey: 'pubkey-c',
+      channel_point: 'txid-c:1',
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: PeerDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getPeers: jest.fn().mockResolvedValue(peers),
+      getChannels: jest.fn().mockResolvedValue(channels),
+      getNodeAlias: jest.fn().mockImplementation(async (pubkey: string) => {
+        if (pubkey === 'pubkey-b') {
+          throw new Error('Node not found');
+        }
+        return `Alias ${pubkey}`;
+      }),
+    });
+
+    handler = new PeerDomainHandler(gateway);
+  });
+
+  test('should only handle peer intents', () => {
+    expect(handler.canHandle(createIntent('peers', 'list', 'show peers'))).toBe(true);
+    expect(handler.canHandle(createIntent('channels', 'list', 'show channels'))).toBe(false);
+  });
+
+  test('should cross-reference peers and channels by public key', async () => {
+    const result = await handler.handle(createIntent('peers', 'list', 'Show my peers'));
+
+    expect(result.peers.map((peer) => [peer.public_key, peer.alias, peer.channel_count])).toEqual([
+      ['pubkey-a', 'Alias pubkey-a', 1],
+      ['pubkey-b', 'Unknown', 0],
+    ]);
+    expect(result.peersWithoutChannels.map((peer) => peer.public_key)).toEqual(['pubkey-b']);
+    expect(result.disconnectedPartners).toEqual([
+      {
+        remote_pubkey: 'pubkey-c',
+        remote_alias: 'Alias pubkey-c',
+        channel_count: 2,
+        capacity: 2500000,
+        local_balance: 1100000,
+      },
+    ]);
+    expect(result.summary).toEqual({
+      totalPeers: 2,
+      inboundPeers: 1,
+      outboundPeers: 1,
+      peersWithoutChannelsCount: 1,
+      disconnectedPartnersCount: 1,
+      filter: undefined,
+    });
+  });
+
+  test('should format connection metadata for connected peers', async () => {
+    const result = await handler.handle(createIntent('peers', 'list', 'Show my peers'));
+
+    expect(result.formattedResults?.list).toContain(
+      'Your node is connected to 2 peers (1 inbound, 1 outbound)'
+    );
+    expect(result.formattedResults?.list).toContain(
+      '1. Alias pubkey-a (10.0.0.1:9735): outbound, ping 42 ms, sent 2.0 KB, received 512 B, 1 channels'
+    );
+    expect(result.formattedResults?.list).toContain('received 3.0 MB');
+    expect(result.formattedResults?.list).toContain('Connected peers without a channel (1)');
+    expect(result.formattedResults?.list).toContain('Disconnected channel partners (1)');
+  });
+
+  test('should only show disconnected channel partners when requested', async () => {
+    const intent = createIntent(
+      'peers',
+      'list',
+      'Which channel partners are disconnected?',
+      new Map([['peerFilter', 'disconnected']])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(result.formattedResults?.list).toBe(
+      'Disconnected channel partners (1):\n1. Alias pubkey-c: 2 channels, 0.02500000 BTC (2,500,000 sats) capacity\n'
+    );
+  });
+
+  test('should report when all connected peers have channels', async () => {
+    gateway.getPeers.mockResolvedValue([peers[0]]);
+
+    const intent = createIntent(
+      'peers',
+      'list',
+      'Which peers do I have no channel with?',
+      new Map([['peerFilter', 'withoutChannel']])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(result.formattedResults?.list).toBe('You have channels with all connected peers.\n');
+  });
+
+  test('should propagate gateway errors', async () => {
+    gateway.getPeers.mockRejectedValue(new Error('Failed to fetch peers'));
+
+    await expect(handler.handle(createIntent('peers', 'list', 'Show peers'))).rejects.toThrow(
+      'Failed to fetch peers'
+    );
+  });
+});
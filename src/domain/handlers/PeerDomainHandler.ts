@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Peer domain handler.
+ *
+ * Handles intents related to the node's peer connections.
+ * This includes connection metadata, connected peers without channels
+ * and channel partners that are currently disconnected.
+ */
+
+import { DomainHandler, DomainQueryResult } from './DomainHandler';
+import { EnhancedIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { formatSatoshis } from '../../core/utils/format_bitcoin';
+import { PeerData } from '../peers/entities/Peer';
+import { ChannelData } from '../channels/entities/Channel';
+
+/**
+ * Maximum number of peers included in each formatted section
+ */
+const MAX_LISTED_PEERS = 20;
+
+/**
+ * Peer filters that can be requested through intent attributes
+ */
+export type PeerFilter = 'withoutChannel' | 'disconnected';
+
+/**
+ * A connected peer with the number of channels we have with it
+ */
+export interface ConnectedPeer extends PeerData {
+  channel_count: number;
+}
+
+/**
+ * A channel partner that is not currently connected
+ */
+export interface DisconnectedPartner {
+  remote_pubkey: string;
+  remote_alias?: string;
+  channel_count: number;
+  capacity: number;
+  local_balance: number;
+}
+
+/**
+ * Result of a peer query
+ */
+export interface PeerQueryResult extends DomainQueryResult {
+  peers: ConnectedPeer[];
+  peersWithoutChannels: ConnectedPeer[];
+  disconnectedPartners: DisconnectedPartner[];
+  summary: {
+    totalPeers: number;
+    inboundPeers: number;
+    outboundPeers: number;
+    peersWithoutChannelsCount: number;
+    disconnectedPartnersCount: number;
+    filter?: PeerFilter;
+  };
+  formattedResults?: {
+    list?: string;
+  };
+}
+
+/**
+ * Handler for peer-related intents
+ */
+export class PeerDomainHandler implements DomainHandler<PeerQueryResult> {
+  /**
+   * Create a new peer domain handler
+   * @param gateway The Lightning Network gateway to use
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Check if this handler can handle the given intent
+   * @param intent The intent to check
+   * @returns Whether this handler can handle the intent
+   */
+  canHandle(intent: EnhancedIntent): boolean {
+    return intent.domain === 'peers';
+  }
+
+  /**
+   * Handle a peer-related intent
+   * @param intent The intent to handle
+   * @returns Promise resolving to the result of handling the intent
+   */
+  async handle(intent: EnhancedIntent): Promise<PeerQueryResult> {
+    try {
+      logger.debug(`Handling peer intent: ${intent.operation}`, {
+        component: 'peer-domain-handler',
+        operation: intent.operation,
+      });
+
+      const filter = intent.attributes.get('peerFilter') as PeerFilter | undefined;
+
+      // Get the peers and channels from the gateway
+      const [peers, channels] = await Promise.all([
+        this.gateway.getPeers(),
+        this.gateway.getChannels(),
+      ]);
+
+      // Cross-reference peers and channels by public key
+      const channelsByPeer = this.groupChannelsByPeer(channels);
+      const connectedKeys = new Set(peers.map((peer) => peer.public_key));
+
+      const aliases = await this.fetchAliases(
+        Array.from(new Set([...Array.from(connectedKeys), ...Array.from(channelsByPeer.keys())]))
+      );
+
+      const connectedPeers: ConnectedPeer[] = peers.map((peer) => ({
+        ...peer,
+        alias: aliases.get(peer.public_key),
+        channel_count: channelsByPeer.get(peer.public_key)?.length || 0,
+      }));
+
+      const disconnectedPartners = this.findDisconnectedPartners(
+        channelsByPeer,
+        connectedKeys,
+        aliases
+      );
+
+      const peersWithoutChannels = connectedPeers.filter((peer) => peer.channel_count === 0);
+
+      const result: PeerQueryResult = {
+        peers: connectedPeers,
+        peersWithoutChannels,
+        disconnectedPartners,
+        summary: {
+          totalPeers: connectedPeers.length,
+          inboundPeers: connectedPeers.filter((peer) => peer.is_inbound).length,
+          outboundPeers: connectedPeers.filter((peer) => !peer.is_inbound).length,
+          peersWithoutChannelsCount: peersWithoutChannels.length,
+          disconnectedPartnersCount: disconnectedPartners.length,
+          filter,
+        },
+      };
+
+      // Peer queries only have a list representation
+      result.formattedResults = { list: this.formatPeerList(result) };
+
+      return result;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error handling peer intent: ${intent.operation}`, sanitizedError, {
+        component: 'peer-domain-handler',
+        operation: intent.operation,
+      });
+      throw sanitizedError;
+    }
+  }
+
+  /**
+   * Group channels by the public key of their remote peer
+   * @param channels The channels to group
+   * @returns Map of peer public keys to their channels
+   * @private
+   */
+  private groupChannelsByPeer(channels: ChannelData[]): Map<string, ChannelData[]> {
+    const channelsByPeer = new Map<string, ChannelData[]>();
+
+    channels.forEach((channel) => {
+      channelsByPeer.set(channel.remote_pubkey, [
+        ...(channelsByPeer.get(channel.remote_pubkey) || []),
+        channel,
+      ]);
+    });
+
+    return channelsByPeer;
+  }
+
+  /**
+   * Find channel partners that are not in the connected peer list
+   * @param channelsByPeer Map of peer public keys to their channels
+   * @param connectedKeys Public keys of connected peers
+   * @param aliases Map of public keys to aliases
+   * @returns Disconnected channel partners, largest capacity first
+   * @private
+   */
+  private findDisconnectedPartners(
+    channelsByPeer: Map<string, ChannelData[]>,
+    connectedKeys: Set<string>,
+    aliases: Map<string, string>
+  ): DisconnectedPartner[] {
+    return Array.from(channelsByPeer.entries())
+      .filter(([pubkey]) => !connectedKeys.has(pubkey))
+      .map(([pubkey, channels]) => ({
+        remote_pubkey: pubkey,
+        remote_alias: aliases.get(pubkey),
+        channel_count: channels.length,
+        capacity: channels.reduce((sum, channel) => sum + channel.capacity, 0),
+        local_balance: channels.reduce((sum, channel) => sum + channel.local_balance, 0),
+      }))
+      .sort((a, b) => b.capacity - a.capacity);
+  }
+
+  /**
+   * Fetch aliases for the given public keys
+   * @param pubkeys The public keys to look up
+   * @returns Promise resolving to a map of public keys to aliases
+   * @private
+   */
+  private async fetchAliases(pubkeys: string[]): Promise<Map<string, string>> {
+    const aliases = await Promise.all(
+      pubkeys.map(async (pubkey) => {
+        try {
+          return [pubkey, (await this.gateway.getNodeAlias(pubkey)) || 'Unknown'] as const;
+        } catch (error) {
+          // Peers without public channels are not in the graph
+          logger.debug(`Could not fetch alias for node ${pubkey.substring(0, 8)}...`, {
+            component: 'peer-domain-handler',
+            error: sanitizeError(error)?.message || 'Unknown error',
+          });
+          return [pubkey, 'Unknown'] as const;
+        }
+      })
+    );
+
+    return new Map<string, string>(aliases);
+  }
+
+  /**
+   * Format peers as text
+   * @param result The peer query result
+   * @returns Formatted peer list
+   * @private
+   */
+  private formatPeerList(result: PeerQueryResult): string {
+    const { summary } = result;
+
+    if (summary.filter === 'withoutChannel') {
+      return this.formatPeersWithoutChannels(result);
+    }
+    if (summary.filter === 'disconnected') {
+      return this.formatDisconnectedPartners(result);
+    }
+
+    if (summary.totalPeers === 0 && summary.disconnectedPartnersCount === 0) {
+      return 'Your node has no connected peers.';
+    }
+
+    let output = `Your node is connected to ${summary.totalPeers} peers (${summary.inboundPeers} inbound, ${summary.outboundPeers} outbound).\n\n`;
+
+    output += 'Connected peers:\n';
+    result.peers.slice(0, MAX_LISTED_PEERS).forEach((peer, index) => {
+      output += `${index + 1}. ${peer.alias || peer.public_key} (${peer.socket}): ${
+        peer.is_inbound ? 'inbound' : 'outbound'
+      }, ping ${peer.ping_time} ms, sent ${this.formatBytes(
+        peer.bytes_sent
+      )}, received ${this.formatBytes(peer.bytes_received)}, ${peer.channel_count} channels\n`;
+    });
+
+    if (result.peers.length > MAX_LISTED_PEERS) {
+      output += `...and ${result.peers.length - MAX_LISTED_PEERS} more.\n`;
+    }
+
+    output += `\n${this.formatPeersWithoutChannels(result)}`;
+    output += `\n${this.formatDisconnectedPartners(result)}`;
+
+    return output;
+  }
+
+  /**
+   * Format connected peers without channels as text
+   * @param result The peer query result
+   * @returns Formatted list of peers without channels
+   * @private
+   */
+  private formatPeersWithoutChannels(result: PeerQueryResult): string {
+    const { peersWithoutChannels } = result;
+
+    if (peersWithoutChannels.length === 0) {
+      return 'You have channels with all connected peers.\n';
+    }
+
+    let output = `Connected peers without a channel (${peersWithoutChannels.length}):\n`;
+    peersWithoutChannels.slice(0, MAX_LISTED_PEERS).forEach((peer, index) => {
+      output += `${index + 1}. ${peer.alias || peer.public_key} (${peer.socket})\n`;
+    });
+
+    if (peersWithoutChannels.length > MAX_LISTED_PEERS) {
+      output += `...and ${peersWithoutChannels.length - MAX_LISTED_PEERS} more.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Format disconnected channel partners as text
+   * @param result The peer query result
+   * @returns Formatted list of disconnected channel partners
+   * @private
+   */
+  private formatDisconnectedPartners(result: PeerQueryResult): string {
+    const { disconnectedPartners } = result;
+
+    if (disconnectedPartners.length === 0) {
+      return 'All channel partners are connected.\n';
+    }
+
+    let output = `Disconnected channel partners (${disconnectedPartners.length}):\n`;
+    disconnectedPartners.slice(0, MAX_LISTED_PEERS).forEach((partner, index) => {
+      output += `${index + 1}. ${partner.remote_alias || partner.remote_pubkey}: ${
+        partner.channel_count
+      } channels, ${formatSatoshis(partner.capacity)} capacity\n`;
+    });
+
+    if (disconnectedPartners.length > MAX_LISTED_PEERS) {
+      output += `...and ${disconnectedPartners.length - MAX_LISTED_PEERS} more.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Format a byte count as text
+   * @param bytes The number of bytes
+   * @returns Formatted byte count
+   * @private
+   */
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+}
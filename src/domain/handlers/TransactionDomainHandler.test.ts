@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Tests for TransactionDomainHandler
+ */
+
+import { TransactionDomainHandler } from './TransactionDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { ChainTransactionData } from '../transactions/entities/Transaction';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+import { resolveTimePeriod, toTimeRange } from '../intents/entities/TimePeriod';
+
+jest.mock('../../core/logging/logger');
+
+describe('TransactionDomainHandler', () => {
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const transactions: ChainTransactionData[] = [
+    {
+      id: 'tx-1',
+      tokens: 1000000,
+      is_confirmed: true,
+      is_outgoing: false,
+      confirmation_count: 100,
+      created_at: daysAgo(20),
+    },
+    {
+      id: 'tx-2',
+      tokens: 300000,
+      fee: 1500,
+      is_confirmed: true,
+      is_outgoing: true,
+      confirmation_count: 10,
+      created_at: daysAgo(3),
+      description: 'Channel open',
+    },
+    {
+      id: 'tx-3',
+      tokens: 200000,
+      is_confirmed: false,
+      is_outgoing: false,
+      confirmation_count: 0,
+      created_at: daysAgo(1),
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: TransactionDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getChainTransactions: jest.fn().mockResolvedValue(transactions),
+    });
+
+    handler = new TransactionDomainHandler(gateway);
+  });
+
+  test('should only handle transaction intents', () => {
+    expect(handler.canHandle(createIntent('transactions', 'list', 'show transactions'))).toBe(true);
+    expect(handler.canHandle(createIntent('wallet', 'summary', 'wallet balance'))).toBe(false);
+  });
+
+  test('should list the requested number of transactions, most recent first', async () => {
+    const intent = createIntent(
+      'transactions',
+      'list',
+      'Show my last 2 on-chain transactions',
+      new Map([['limit', 2]])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(result.transactions.map((transaction) => transaction.id)).toEqual(['tx-3', 'tx-2']);
+    expect(result.formattedResults?.list).toContain('Your last 2 on-chain transactions:');
+    expect(result.formattedResults?.list).toContain('Received 0.00200000 BTC');
+    expect(result.formattedResults?.list).toContain('[unconfirmed]');
+    expect(result.formattedResults?.list).toContain('(fee: 1,500 sats) - Channel open');
+  });
+
+  test('should summarize on-chain flows within the requested period', async () => {
+    const week = toTimeRange(resolveTimePeriod('week'));
+    const intent = createIntent(
+      'transactions',
+      'summary',
+      'How much did I move on-chain in the last 7 days?',
+      new Map<string, unknown>([
+        ['from', week.from],
+        ['to', week.to],
+        ['timeLabel', week.label],
+      ])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(result.summary).toEqual({
+      totalTransactions: 2,
+      totalReceived: 200000,
+      totalSent: 300000,
+      totalFees: 1500,
+      unconfirmedCount: 1,
+      minAmount: undefined,
+      limit: undefined,
+      period: week,
+    });
+    expect(result.formattedResults?.summary).toContain(
+      'Across 2 on-chain transactions in the last 7 days'
+    );
+    expect(result.formattedResults?.summary).toContain('1 transactions are still unconfirmed');
+  });
+
+  test('should report when no transactions are found', async () => {
+    gateway.getChainTransactions.mockResolvedValue([]);
+
+    const result = await handler.handle(createIntent('transactions', 'list', 'Show transactions'));
+
+    expect(result.formattedResults?.list).toBe('No on-chain transactions found.');
+  });
+
+  test('should propagate gateway errors', async () => {
+    gateway.getChainTransactions.mockRejectedValue(new Error('Failed to fetch chain transactions'));
+
+    await expect(
+      handler.handle(createIntent('transactions', 'list', 'Show transactions'))
+    ).rejects.toThrow('Failed to fetch chain transactions');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Transaction domain handler.
+ *
+ * Handles intents related to on-chain transactions of the node's wallet.
+ * This includes listing recent transactions and summarizing on-chain flows.
+ */
+
+import { DomainHandler, DomainQueryResult } from './DomainHandler';
+import { EnhancedIntent, LightningOperation } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { formatSatoshis } from '../../core/utils/format_bitcoin';
+import { ChainTransactionData } from '../transactions/entities/Transaction';
+import {
+  TimeRange,
+  TimeWindow,
+  getTimeWindow,
+  isWithinTimeWindow,
+  toTimeRange,
+} from '../intents/entities/TimePeriod';
+
+/**
+ * Maximum number of transactions included in formatted lists
+ */
+const MAX_LISTED_TRANSACTIONS = 20;
+
+/**
+ * Result of a transaction query
+ */
+export interface TransactionQueryResult extends DomainQueryResult {
+  transactions: ChainTransactionData[];
+  summary: {
+    totalTransactions: number;
+    totalReceived: number;
+    totalSent: number;
+    totalFees: number;
+    unconfirmedCount: number;
+    minAmount?: number;
+    limit?: number;
+    period?: TimeRange;
+  };
+  formattedResults?: {
+    list?: string;
+    summary?: string;
+  };
+}
+
+/**
+ * Handler for on-chain transaction intents
+ */
+export class TransactionDomainHandler implements DomainHandler<TransactionQueryResult> {
+  /**
+   * Create a new transaction domain handler
+   * @param gateway The Lightning Network gateway to use
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Check if this handler can handle the given intent
+   * @param intent The intent to check
+   * @returns Whether this handler can handle the intent
+   */
+  canHandle(intent: EnhancedIntent): boolean {
+    return intent.domain === 'transactions';
+  }
+
+  /**
+   * Handle an on-chain transaction intent
+   * @param intent The intent to handle
+   * @returns Promise resolving to the result of handling the intent
+   */
+  async handle(intent: EnhancedIntent): Promise<TransactionQueryResult> {
+    try {
+      logger.debug(`Handling transaction intent: ${intent.operation}`, {
+        component: 'transaction-domain-handler',
+        operation: intent.operation,
+      });
+
+      const minAmount = intent.attributes.get('minAmount') as number | undefined;
+      const limit = intent.attributes.get('limit') as number | undefined;
+      const window = getTimeWindow(intent.attributes);
+      const period = window && toTimeRange(window);
+
+      // Get the transactions from the gateway
+      const transactions = await this.gateway.getChainTransactions();
+
+      // Restrict to the requested time window and amount, most recent first
+      const filteredTransactions = this.filterByWindow(transactions, window)
+        .filter((transaction) => minAmount === undefined || transaction.tokens > minAmount)
+        .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+        .slice(0, limit);
+
+      const result: TransactionQueryResult = {
+        transactions: filteredTransactions,
+        summary: this.calculateTransactionSummary(filteredTransactions, {
+          minAmount,
+          limit,
+          period,
+        }),
+        formattedResults: {},
+      };
+
+      this.formatResults(result, intent.operation);
+
+      return result;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error handling transaction intent: ${intent.operation}`, sanitizedError, {
+        component: 'transaction-domain-handler',
+        operation: intent.operation,
+      });
+      throw sanitizedError;
+    }
+  }
+
+  /**
+   * Keep only transactions created within the given time window
+   * @param transactions The transactions to filter
+   * @param window The time window, if any
+   * @returns Transactions created within the time window
+   * @private
+   */
+  private filterByWindow(
+    transactions: ChainTransactionData[],
+    window?: TimeWindow
+  ): ChainTransactionData[] {
+    if (!window) {
+      return [...transactions];
+    }
+
+    return transactions.filter((transaction) => isWithinTimeWindow(transaction.created_at, window));
+  }
+
+  /**
+   * Calculate summary statistics for transactions
+   * @param transactions The transactions to summarize
+   * @param filters The filters the query was restricted to
+   * @returns Summary statistics
+   * @private
+   */
+  private calculateTransactionSummary(
+    transactions: ChainTransactionData[],
+    filters: Pick<TransactionQueryResult['summary'], 'minAmount' | 'limit' | 'period'>
+  ): TransactionQueryResult['summary'] {
+    const incoming = transactions.filter((transaction) => !transaction.is_outgoing);
+    const outgoing = transactions.filter((transaction) => transaction.is_outgoing);
+
+    return {
+      totalTransactions: transactions.length,
+      totalReceived: incoming.reduce((sum, transaction) => sum + transaction.tokens, 0),
+      totalSent: outgoing.reduce((sum, transaction) => sum + transaction.tokens, 0),
+      totalFees: outgoing.reduce((sum, transaction) => sum + (transaction.fee || 0), 0),
+      unconfirmedCount: transactions.filter((transaction) => !transaction.is_confirmed).length,
+      ...filters,
+    };
+  }
+
+  /**
+   * Format results based on the operation
+   * @param result The result to format
+   * @param operation The operation that was performed
+   * @private
+   */
+  private formatResults(result: TransactionQueryResult, operation: LightningOperation): void {
+    if (operation === 'summary') {
+      result.formattedResults = {
+        ...result.formattedResults,
+        summary: this.formatTransactionSummary(result),
+      };
+      return;
+    }
+
+    result.formattedResults = {
+      ...result.formattedResults,
+      list: this.formatTransactionList(result),
+    };
+  }
+
+  /**
+   * Format transaction list as text
+   * @param result The transaction query result
+   * @returns Formatted transaction list
+   * @private
+   */
+  private formatTransactionList(result: TransactionQueryResult): string {
+    const { transactions, summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+    const amountLabel =
+      summary.minAmount !== undefined ? ` over ${summary.minAmount.toLocaleString()} sats` : '';
+
+    if (transactions.length === 0) {
+      return `No on-chain transactions found${amountLabel}${periodLabel}.`;
+    }
+
+    let output = summary.limit
+      ? `Your last ${transactions.length} on-chain transactions${amountLabel}${periodLabel}:\n`
+      : `Found ${transactions.length} on-chain transactions${amountLabel}${periodLabel}:\n`;
+
+    transactions.slice(0, MAX_LISTED_TRANSACTIONS).forEach((transaction, index) => {
+      output += `${index + 1}. ${transaction.created_at.substring(0, 10)} ${
+        transaction.is_outgoing ? 'Sent' : 'Received'
+      } ${formatSatoshis(transaction.tokens)}${
+        transaction.is_outgoing && transaction.fee
+          ? ` (fee: ${transaction.fee.toLocaleString()} sats)`
+          : ''
+      }${transaction.is_confirmed ? '' : ' [unconfirmed]'}${
+        transaction.description ? ` - ${transaction.description}` : ''
+      }\n`;
+    });
+
+    if (transactions.length > MAX_LISTED_TRANSACTIONS) {
+      output += `...and ${transactions.length - MAX_LISTED_TRANSACTIONS} more.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Format on-chain totals as text
+   * @param result The transaction query result
+   * @returns Formatted transaction summary
+   * @private
+   */
+  private formatTransactionSummary(result: TransactionQueryResult): string {
+    const { summary } = result;
+    const periodLabel = summary.period ? ` ${summary.period.label}` : '';
+
+    if (summary.totalTransactions === 0) {
+      return `No on-chain transactions found${periodLabel}.`;
+    }
+
+    let output = `Across ${
+      summary.totalTransactions
+    } on-chain transactions${periodLabel}, you received ${formatSatoshis(
+      summary.totalReceived
+    )} and sent ${formatSatoshis(summary.totalSent)}, paying ${formatSatoshis(
+      summary.totalFees
+    )} in chain fees.`;
+
+    if (summary.unconfirmedCount > 0) {
+      output += ` ${summary.unconfirmedCount} transactions are still unconfirmed.`;
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Tests for WalletDomainHandler
+ */
+
+import { WalletDomainHandler } from './WalletDomainHandler';
+import { createIntent } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { UtxoData } from '../wallet/entities/Wallet';
+import { createMockGateway } from '../../test/mocks/gateway.mock';
+
+jest.mock('../../core/logging/logger');
+
+describe('WalletDomainHandler', () => {
+  const utxos: UtxoData[] = [
+    {
+      transaction_id: 'txid-a',
+      transaction_vout: 0,
+      tokens: 500000,
+      confirmation_count: 12,
+      address: 'bc1qa',
+    },
+    {
+      transaction_id: 'txid-b',
+      transaction_vout: 1,
+      tokens: 2500000,
+      confirmation_count: 0,
+      address: 'bc1qb',
+    },
+    {
+      transaction_id: 'txid-c',
+      transaction_vout: 0,
+      tokens: 1500000,
+      confirmation_count: 3,
+      address: 'bc1qc',
+    },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+  let handler: WalletDomainHandler;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getChainBalance: jest
+        .fn()
+        .mockResolvedValue({ confirmed_balance: 2000000, unconfirmed_balance: 2500000 }),
+      getUtxos: jest.fn().mockResolvedValue(utxos),
+    });
+
+    handler = new WalletDomainHandler(gateway);
+  });
+
+  test('should only handle wallet intents', () => {
+    expect(handler.canHandle(createIntent('wallet', 'summary', 'wallet balance'))).toBe(true);
+    expect(handler.canHandle(createIntent('channels', 'list', 'show channels'))).toBe(false);
+  });
+
+  test('should summarize confirmed and unconfirmed balances', async () => {
+    const result = await handler.handle(
+      createIntent('wallet', 'summary', 'How much is confirmed vs unconfirmed?')
+    );
+
+    expect(result.summary).toEqual({
+      confirmedBalance: 2000000,
+      unconfirmedBalance: 2500000,
+      totalBalance: 4500000,
+      utxoCount: 3,
+      utxoTotal: 4500000,
+      minAmount: undefined,
+    });
+    expect(result.formattedResults?.summary).toContain(
+      'Confirmed: 0.02000000 BTC (2,000,000 sats)'
+    );
+    expect(result.formattedResults?.summary).toContain(
+      'Unconfirmed: 0.02500000 BTC (2,500,000 sats)'
+    );
+  });
+
+  test('should list UTXOs over the requested amount, largest first', async () => {
+    const intent = createIntent(
+      'wallet',
+      'list',
+      'List my UTXOs over 1M sats',
+      new Map([['minAmount', 1000000]])
+    );
+
+    const result = await handler.handle(intent);
+
+    expect(result.utxos.map((utxo) => utxo.transaction_id)).toEqual(['txid-b', 'txid-c']);
+    expect(result.summary.utxoTotal).toBe(4000000);
+    expect(result.formattedResults?.list).toContain('Found 2 UTXOs over 1,000,000 sats');
+    expect(result.formattedResults?.list).toContain('1. txid-b:1: 0.02500000 BTC');
+    expect(result.formattedResults?.list).toContain('(unconfirmed)');
+    expect(result.formattedResults?.list).toContain('(3 confirmations)');
+  });
+
+  test('should report when no UTXOs are found', async () => {
+    gateway.getUtxos.mockResolvedValue([]);
+
+    const result = await handler.handle(createIntent('wallet', 'list', 'List my UTXOs'));
+
+    expect(result.formattedResults?.list).toBe('No UTXOs found.');
+  });
+
+  test('should propagate gateway errors', async () => {
+    gateway.getChainBalance.mockRejectedValue(new Error('Failed to fetch chain balance'));
+
+    await expect(
+      handler.handle(createIntent('wallet', 'summary', 'Wallet balance'))
+    ).rejects.toThrow('Failed to fetch chain balance');
+  });
+});
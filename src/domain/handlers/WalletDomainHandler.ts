@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Wallet domain handler.
+ *
+ * Handles intents related to the node's on-chain wallet.
+ * This includes confirmed and unconfirmed balances and the UTXO set.
+ */
+
+import { DomainHandler, DomainQueryResult } from './DomainHandler';
+import { EnhancedIntent, LightningOperation } from '../intents/entities/EnhancedIntent';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { formatSatoshis } from '../../core/utils/format_bitcoin';
+import { ChainBalanceData, UtxoData } from '../wallet/entities/Wallet';
+
+/**
+ * Maximum number of UTXOs included in formatted lists
+ */
+const MAX_LISTED_UTXOS = 20;
+
+/**
+ * Result of a wallet query
+ */
+export interface WalletQueryResult extends DomainQueryResult {
+  balance: ChainBalanceData;
+  utxos: UtxoData[];
+  summary: {
+    confirmedBalance: number;
+    unconfirmedBalance: number;
+    totalBalance: number;
+    utxoCount: number;
+    utxoTotal: number;
+    minAmount?: number;
+  };
+  formattedResults?: {
+    list?: string;
+    summary?: string;
+  };
+}
+
+/**
+ * Handler for wallet-related intents
+ */
+export class WalletDomainHandler implements DomainHandler<WalletQueryResult> {
+  /**
+   * Create a new wallet domain handler
+   * @param gateway The Lightning Network gateway to use
+   */
+  constructor(private readonly gateway: LightningNetworkGateway) {}
+
+  /**
+   * Check if this handler can handle the given intent
+   * @param intent The intent to check
+   * @returns Whether this handler can handle the intent
+   */
+  canHandle(intent: EnhancedIntent): boolean {
+    return intent.domain === 'wallet';
+  }
+
+  /**
+   * Handle a wallet-related intent
+   * @param intent The intent to handle
+   * @returns Promise resolving to the result of handling the intent
+   */
+  async handle(intent: EnhancedIntent): Promise<WalletQueryResult> {
+    try {
+      logger.debug(`Handling wallet intent: ${intent.operation}`, {
+        component: 'wallet-domain-handler',
+        operation: intent.operation,
+      });
+
+      const minAmount = intent.attributes.get('minAmount') as number | undefined;
+      const limit = intent.attributes.get('limit') as number | undefined;
+
+      // Get the balance and UTXOs from the gateway
+      const [balance, utxos] = await Promise.all([
+        this.gateway.getChainBalance(),
+        this.gateway.getUtxos(),
+      ]);
+
+      // Restrict to UTXOs above the requested amount, largest first
+      const filteredUtxos = utxos
+        .filter((utxo) => minAmount === undefined || utxo.tokens > minAmount)
+        .sort((a, b) => b.tokens - a.tokens)
+        .slice(0, limit);
+
+      const result: WalletQueryResult = {
+        balance,
+        utxos: filteredUtxos,
+        summary: this.calculateWalletSummary(balance, filteredUtxos, minAmount),
+        formattedResults: {},
+      };
+
+      this.formatResults(result, intent.operation);
+
+      return result;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error handling wallet intent: ${intent.operation}`, sanitizedError, {
+        component: 'wallet-domain-handler',
+        operation: intent.operation,
+      });
+      throw sanitizedError;
+    }
+  }
+
+  /**
+   * Calculate summary statistics for the wallet
+   * @param balance The on-chain balance
+   * @param utxos The UTXOs to summarize
+   * @param minAmount The minimum UTXO amount the query was restricted to, if any
+   * @returns Summary statistics
+   * @private
+   */
+  private calculateWalletSummary(
+    balance: ChainBalanceData,
+    utxos: UtxoData[],
+    minAmount?: number
+  ): WalletQueryResult['summary'] {
+    return {
+      confirmedBalance: balance.confirmed_balance,
+      unconfirmedBalance: balance.unconfirmed_balance,
+      totalBalance: balance.confirmed_balance + balance.unconfirmed_balance,
+      utxoCount: utxos.length,
+      utxoTotal: utxos.reduce((sum, utxo) => sum + utxo.tokens, 0),
+      minAmount,
+    };
+  }
+
+  /**
+   * Format results based on the operation
+   * @param result The result to format
+   * @param operation The operation that was performed
+   * @private
+   */
+  private formatResults(result: WalletQueryResult, operation: LightningOperation): void {
+    if (operation === 'summary') {
+      result.formattedResults = {
+        ...result.formattedResults,
+        summary: this.formatWalletSummary(result),
+      };
+      return;
+    }
+
+    result.formattedResults = {
+      ...result.formattedResults,
+      list: this.formatUtxoList(result),
+    };
+  }
+
+  /**
+   * Format UTXO list as text
+   * @param result The wallet query result
+   * @returns Formatted UTXO list
+   * @private
+   */
+  private formatUtxoList(result: WalletQueryResult): string {
+    const { utxos, summary } = result;
+    const amountLabel =
+      summary.minAmount !== undefined ? ` over ${summary.minAmount.toLocaleString()} sats` : '';
+
+    if (utxos.length === 0) {
+      return `No UTXOs found${amountLabel}.`;
+    }
+
+    let output = `Found ${utxos.length} UTXOs${amountLabel} holding ${formatSatoshis(
+      summary.utxoTotal
+    )}.\n\n`;
+
+    output += 'Your UTXOs:\n';
+    utxos.slice(0, MAX_LISTED_UTXOS).forEach((utxo, index) => {
+      output += `${index + 1}. ${utxo.transaction_id}:${utxo.transaction_vout}: ${formatSatoshis(
+        utxo.tokens
+      )} (${
+        utxo.confirmation_count > 0 ? `${utxo.confirmation_count} confirmations` : 'unconfirmed'
+      })\n`;
+    });
+
+    if (utxos.length > MAX_LISTED_UTXOS) {
+      output += `...and ${utxos.length - MAX_LISTED_UTXOS} more.\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Format wallet balances as text
+   * @param result The wallet query result
+   * @returns Formatted wallet summary
+   * @private
+   */
+  private formatWalletSummary(result: WalletQueryResult): string {
+    const { summary } = result;
+
+    let output = `Your on-chain wallet holds ${formatSatoshis(summary.totalBalance)}.\n\n`;
+    output += `- Confirmed: ${formatSatoshis(summary.confirmedBalance)}\n`;
+    output += `- Unconfirmed: ${formatSatoshis(summary.unconfirmedBalance)}\n`;
+    output += `- UTXOs: ${summary.utxoCount}\n`;
+
+    return output;
+  }
+}
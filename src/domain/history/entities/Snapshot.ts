@@ -0,0 +1,22 @@
+/**
+ * Type definitions for historical snapshots of nodes.
+ *
+ * Types are derived from the Zod schemas to keep runtime validation
+ * and compile-time type checking consistent.
+ */
+
+export { NodeSummaryData, RetentionPolicy, SnapshotData } from '../schemas/snapshot';
+
+/**
+ * Selection of stored snapshots
+ */
+export interface SnapshotQuery {
+  /** Name of the node whose snapshots to return */
+  node: string;
+  /** Only return snapshots taken at or after this time, in milliseconds */
+  from?: number;
+  /** Only return snapshots taken before this time, in milliseconds */
+  to?: number;
+  /** Only return the latest snapshots, up to this many */
+  limit?: number;
+}
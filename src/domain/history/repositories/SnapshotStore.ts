@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Snapshot store interface.
+ *
+ * Defines how snapshots of nodes are persisted and read back, regardless of
+ * the storage used. Implements the Repository pattern so history queries and
+ * the snapshot schedule do not depend on files or databases.
+ */
+
+import { RetentionPolicy, SnapshotData, SnapshotQuery } from '../entities/Snapshot';
+
+/**
+ * Store of historical snapshots of nodes
+ */
+export interface SnapshotStore {
+  /**
+   * Persist a snapshot
+   * @param snapshot The snapshot to persist
+   * @throws Error if the snapshot cannot be written
+   */
+  append(snapshot: SnapshotData): Promise<void>;
+
+  /**
+   * Read stored snapshots
+   * @param query The node and time range of the snapshots
+   * @returns Promise resolving to the matching snapshots, oldest first
+   * @throws Error if the snapshots cannot be read
+   */
+  query(query: SnapshotQuery): Promise<SnapshotData[]>;
+
+  /**
+   * Delete or thin out snapshots as the retention policy requires
+   * @param policy The retention policy
+   * @param now The reference time (defaults to the current time)
+   * @returns Promise resolving to the number of snapshots removed
+   * @throws Error if the snapshots cannot be rewritten
+   */
+  prune(policy: RetentionPolicy, now?: Date): Promise<number>;
+}
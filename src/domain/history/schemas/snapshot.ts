@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Zod schema definitions for historical snapshots.
+ *
+ * This file defines the snapshots of a node's channels and balances that
+ * are taken on a schedule and kept by a snapshot store, so changes over time
+ * can be compared. Stored snapshots are validated against these schemas when
+ * they are read back.
+ */
+
+import { z } from 'zod';
+import { ChannelSchema } from '../../channels/schemas/channel';
+
+/**
+ * Schema for the totals of a node at the time of a snapshot
+ */
+export const NodeSummarySchema = z.object({
+  channelCount: z.number(),
+  activeChannels: z.number(),
+  totalCapacity: z.number(),
+  totalLocalBalance: z.number(),
+  totalRemoteBalance: z.number(),
+  /** Confirmed on-chain wallet balance */
+  confirmedChainBalance: z.number(),
+  /** Unconfirmed on-chain wallet balance */
+  unconfirmedChainBalance: z.number(),
+});
+
+/**
+ * Schema for a snapshot of a node's channels and balances
+ */
+export const SnapshotSchema = z.object({
+  /** Name of the node the snapshot was taken of */
+  node: z.string(),
+  /** Time the snapshot was taken, as an ISO 8601 timestamp */
+  taken_at: z.string(),
+  summary: NodeSummarySchema,
+  channels: z.array(ChannelSchema),
+});
+
+/**
+ * Schema for the retention policy of stored snapshots
+ */
+export const RetentionPolicySchema = z.object({
+  /** Days after which snapshots are deleted */
+  maxAgeDays: z.number().positive(),
+  /** Days during which every snapshot is kept; older days keep their last snapshot only */
+  fullResolutionDays: z.number().nonnegative(),
+});
+
+/**
+ * Type for the totals of a node at the time of a snapshot
+ */
+export type NodeSummaryData = z.infer<typeof NodeSummarySchema>;
+
+/**
+ * Type for a snapshot of a node's channels and balances
+ */
+export type SnapshotData = z.infer<typeof SnapshotSchema>;
+
+/**
+ * Type for the retention policy of stored snapshots
+ */
+export type RetentionPolicy = z.infer<typeof RetentionPolicySchema>;
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Tests for ChannelHistoryAnalyzer
+ */
+
+import { ChannelHistoryAnalyzer } from './ChannelHistoryAnalyzer';
+import { createSnapshot } from './SnapshotScheduler';
+import { ChannelData } from '../../channels/entities/Channel';
+
+describe('ChannelHistoryAnalyzer', () => {
+  const analyzer = new ChannelHistoryAnalyzer();
+
+  const channel = (id: string, local_balance: number): ChannelData => ({
+    id,
+    capacity: 1000000,
+    local_balance,
+    remote_balance: 1000000 - local_balance,
+    active: true,
+    remote_pubkey: `pubkey-${id}`,
+    channel_point: `txid-${id}:0`,
+  });
+
+  const snapshot = (day: number, channels: ChannelData[]) =>
+    createSnapshot(
+      'alpha',
+      channels,
+      { confirmed_balance: 100000, unconfirmed_balance: 0 },
+      new Date(Date.UTC(2024, 2, day))
+    );
+
+  test('should compare the totals and channels of the first and last snapshot', () => {
+    const history = analyzer.analyze([
+      snapshot(1, [channel('1', 800000), channel('2', 500000), channel('3', 300000)]),
+      snapshot(8, [channel('1', 600000), channel('2', 500000), channel('3', 300000)]),
+      snapshot(15, [channel('1', 400000), channel('2', 500000), channel('4', 1000000)]),
+    ]);
+
+    expect(history).toMatchObject({
+      from: '2024-03-01T00:00:00.000Z',
+      to: '2024-03-15T00:00:00.000Z',
+      snapshots: 3,
+      deltas: {
+        channelCount: 0,
+        totalCapacity: 0,
+        totalLocalBalance: 300000,
+        totalRemoteBalance: -300000,
+        confirmedChainBalance: 0,
+      },
+      openedChannels: 1,
+      closedChannels: 1,
+    });
+
+    // Unchanged channels are left out, the largest change comes first
+    expect(
+      history?.channels.map(({ channel_point, status, localBalanceChange }) => ({
+        channel_point,
+        status,
+        localBalanceChange,
+      }))
+    ).toEqual([
+      { channel_point: 'txid-4:0', status: 'opened', localBalanceChange: 1000000 },
+      { channel_point: 'txid-1:0', status: 'open', localBalanceChange: -400000 },
+      { channel_point: 'txid-3:0', status: 'closed', localBalanceChange: -300000 },
+    ]);
+  });
+
+  test('should fit the trend of each total through all snapshots', () => {
+    const history = analyzer.analyze([
+      snapshot(1, [channel('1', 900000)]),
+      snapshot(2, [channel('1', 800000)]),
+      snapshot(3, [channel('1', 700000)]),
+      snapshot(4, [channel('1', 700000)]),
+    ]);
+
+    expect(history?.trends.totalLocalBalance).toEqual({
+      direction: 'decreasing',
+      slopePerDay: -70000,
+    });
+    expect(history?.trends.totalRemoteBalance.direction).toBe('increasing');
+    expect(history?.trends.totalCapacity).toEqual({ direction: 'stable', slopePerDay: 0 });
+  });
+
+  test('should need at least two snapshots', () => {
+    expect(analyzer.analyze([])).toBeUndefined();
+    expect(analyzer.analyze([snapshot(1, [channel('1', 500000)])])).toBeUndefined();
+  });
+});
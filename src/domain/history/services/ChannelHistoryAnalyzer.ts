@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Analyzer of changes between node snapshots.
+ *
+ * Compares the first and last snapshot of a period to find how the node's
+ * totals and each channel's balance changed, and fits a line through all
+ * snapshots of the period to tell whether each total is trending up, down
+ * or holding steady.
+ */
+
+import { ChannelData } from '../../channels/entities/Channel';
+import { NodeSummaryData, SnapshotData } from '../entities/Snapshot';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Change over the period, relative to the largest value, below which a
+ * total counts as stable
+ */
+const STABLE_TREND_SHARE = 0.01;
+
+/**
+ * Direction of a total over the period
+ */
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable';
+
+/**
+ * Trend of a total over the period
+ */
+export interface Trend {
+  direction: TrendDirection;
+  /** Change per day of a line fitted through all snapshots */
+  slopePerDay: number;
+}
+
+/**
+ * How a channel changed over the period
+ */
+export interface ChannelChange {
+  channel_point: string;
+  remote_pubkey: string;
+  remote_alias?: string;
+  /** Whether the channel was opened or closed during the period, or open throughout */
+  status: 'opened' | 'closed' | 'open';
+  capacity: number;
+  /** Local balance in the first snapshot, unless the channel was opened since */
+  localBalanceBefore?: number;
+  /** Local balance in the last snapshot, unless the channel was closed since */
+  localBalanceAfter?: number;
+  /** Change of the local balance: positive for inbound flow, negative for outbound */
+  localBalanceChange: number;
+}
+
+/**
+ * Changes of a node between snapshots
+ */
+export interface ChannelHistory {
+  /** Name of the node, set when querying several nodes */
+  node?: string;
+  /** Time of the first and last snapshot compared */
+  from: string;
+  to: string;
+  /** Number of snapshots in the period */
+  snapshots: number;
+  before: NodeSummaryData;
+  after: NodeSummaryData;
+  /** Last minus first value of each total */
+  deltas: NodeSummaryData;
+  trends: Record<keyof NodeSummaryData, Trend>;
+  openedChannels: number;
+  closedChannels: number;
+  /** Channels whose balance changed or that were opened or closed, largest change first */
+  channels: ChannelChange[];
+}
+
+/**
+ * Computes deltas and trends between snapshots of a node
+ */
+export class ChannelHistoryAnalyzer {
+  /**
+   * Analyze the snapshots of a node
+   * @param snapshots Snapshots of a single node, oldest first
+   * @returns The changes between the snapshots, unless there are fewer than two
+   */
+  analyze(snapshots: SnapshotData[]): ChannelHistory | undefined {
+    if (snapshots.length < 2) {
+      return undefined;
+    }
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const totals = Object.keys(first.summary) as (keyof NodeSummaryData)[];
+    const channels = this.compareChannels(first.channels, last.channels);
+
+    return {
+      from: first.taken_at,
+      to: last.taken_at,
+      snapshots: snapshots.length,
+      before: first.summary,
+      after: last.summary,
+      deltas: Object.fromEntries(
+        totals.map((total) => [total, last.summary[total] - first.summary[total]])
+      ) as NodeSummaryData,
+      trends: Object.fromEntries(
+        totals.map((total) => [total, this.fitTrend(snapshots, total)])
+      ) as Record<keyof NodeSummaryData, Trend>,
+      openedChannels: channels.filter(({ status }) => status === 'opened').length,
+      closedChannels: channels.filter(({ status }) => status === 'closed').length,
+      channels,
+    };
+  }
+
+  /**
+   * Compare the channels of the first and last snapshot
+   * @param before Channels of the first snapshot
+   * @param after Channels of the last snapshot
+   * @returns The channels that changed, largest change first
+   * @private
+   */
+  private compareChannels(before: ChannelData[], after: ChannelData[]): ChannelChange[] {
+    const previous = new Map(before.map((channel) => [channel.channel_point, channel]));
+    const current = new Map(after.map((channel) => [channel.channel_point, channel]));
+
+    const changes: ChannelChange[] = after.map((channel) => {
+      const old = previous.get(channel.channel_point);
+
+      return {
+        channel_point: channel.channel_point,
+        remote_pubkey: channel.remote_pubkey,
+        remote_alias: channel.remote_alias,
+        status: old ? 'open' : 'opened',
+        capacity: channel.capacity,
+        localBalanceBefore: old?.local_balance,
+        localBalanceAfter: channel.local_balance,
+        localBalanceChange: channel.local_balance - (old?.local_balance || 0),
+      };
+    });
+
+    before
+      .filter((channel) => !current.has(channel.channel_point))
+      .forEach((channel) => {
+        changes.push({
+          channel_point: channel.channel_point,
+          remote_pubkey: channel.remote_pubkey,
+          remote_alias: channel.remote_alias,
+          status: 'closed',
+          capacity: channel.capacity,
+          localBalanceBefore: channel.local_balance,
+          localBalanceChange: -channel.local_balance,
+        });
+      });
+
+    return changes
+      .filter((change) => change.status !== 'open' || change.localBalanceChange !== 0)
+      .sort((a, b) => Math.abs(b.localBalanceChange) - Math.abs(a.localBalanceChange));
+  }
+
+  /**
+   * Fit a least-squares line through a total of all snapshots
+   * @param snapshots The snapshots, oldest first
+   * @param total The total to fit
+   * @returns The direction and slope of the line
+   * @private
+   */
+  private fitTrend(snapshots: SnapshotData[], total: keyof NodeSummaryData): Trend {
+    const start = Date.parse(snapshots[0].taken_at);
+    const points = snapshots.map((snapshot) => ({
+      x: (Date.parse(snapshot.taken_at) - start) / DAY_MS,
+      y: snapshot.summary[total],
+    }));
+
+    const meanX = points.reduce((sum, { x }) => sum + x, 0) / points.length;
+    const meanY = points.reduce((sum, { y }) => sum + y, 0) / points.length;
+    const variance = points.reduce((sum, { x }) => sum + (x - meanX) ** 2, 0);
+    const slopePerDay =
+      variance === 0
+        ? 0
+        : points.reduce((sum, { x, y }) => sum + (x - meanX) * (y - meanY), 0) / variance;
+
+    // Compare the change along the line with the size of the total
+    const span = points[points.length - 1].x - points[0].x;
+    const largest = Math.max(...points.map(({ y }) => Math.abs(y)));
+    const change = slopePerDay * span;
+
+    let direction: TrendDirection = 'stable';
+    if (largest > 0 && Math.abs(change) > largest * STABLE_TREND_SHARE) {
+      direction = change > 0 ? 'increasing' : 'decreasing';
+    }
+
+    return { direction, slopePerDay: Math.round(slopePerDay) };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Tests for ChannelHistoryService
+ */
+
+import { ChannelHistoryService } from './ChannelHistoryService';
+import { createSnapshot } from './SnapshotScheduler';
+import { SnapshotStore } from '../repositories/SnapshotStore';
+import { ChannelData } from '../../channels/entities/Channel';
+
+describe('ChannelHistoryService', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const channels: ChannelData[] = Array.from({ length: 12 }, (_, index) => ({
+    capacity: 1000000,
+    local_balance: 500000,
+    remote_balance: 500000,
+    active: true,
+    remote_pubkey: `pubkey-${index}`,
+    remote_alias: `Alias ${index}`,
+    channel_point: `txid-${index}:0`,
+  }));
+
+  const snapshot = (daysAgo: number, snapshotChannels: ChannelData[]) =>
+    createSnapshot(
+      'alpha',
+      snapshotChannels,
+      { confirmed_balance: 100000, unconfirmed_balance: 0 },
+      new Date(Date.now() - daysAgo * DAY_MS)
+    );
+
+  let store: jest.Mocked<SnapshotStore>;
+  let service: ChannelHistoryService;
+
+  beforeEach(() => {
+    store = {
+      append: jest.fn(),
+      query: jest.fn().mockResolvedValue([
+        snapshot(6, channels),
+        snapshot(
+          1,
+          channels.map((channel, index) => ({
+            ...channel,
+            local_balance: channel.local_balance - (index + 1) * 10000,
+          }))
+        ),
+      ]),
+      prune: jest.fn(),
+    };
+    service = new ChannelHistoryService({ store, node: 'alpha' });
+  });
+
+  test('should compare the snapshots of the last month by default', async () => {
+    const window = service.getWindow();
+    const history = await service.analyze(window);
+
+    expect(window.to - window.from).toBe(30 * DAY_MS);
+    expect(store.query).toHaveBeenCalledWith({ node: 'alpha', from: window.from, to: window.to });
+    expect(history?.deltas.totalLocalBalance).toBe(-780000);
+    expect(history?.channels).toHaveLength(12);
+  });
+
+  test('should not query anything without snapshots', async () => {
+    const unrecorded = new ChannelHistoryService();
+
+    expect(unrecorded.isRecording()).toBe(false);
+    await expect(unrecorded.analyze(unrecorded.getWindow())).resolves.toBeUndefined();
+    expect(
+      unrecorded.format({ history: [], period: 'in the last 30 days', recording: false })
+    ).toBe(
+      'No channel history is recorded. Set SNAPSHOT_DIR to take periodic snapshots of your channels.'
+    );
+  });
+
+  test('should list the largest channel changes of each node', async () => {
+    const history = await service.analyze(service.getWindow());
+    const output = service.format({
+      history: history ? [{ ...history, node: 'alpha' }] : [],
+      period: 'in the last 30 days',
+      recording: true,
+    });
+
+    expect(output).toMatch(/^\[alpha\] Channel history in the last 30 days \(2 snapshots from/);
+    expect(output).toContain('1. Alias 11: -120,000 sats local\n');
+    expect(output).toContain('...and 2 more.\n');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview History of a node's channels.
+ *
+ * Answers history queries from the snapshots stored for the node, comparing
+ * the snapshots of the requested period or, by default, of the last month.
+ * Without a snapshot store nothing is recorded, which is reported instead of
+ * an empty history.
+ */
+
+import { SnapshotStore } from '../repositories/SnapshotStore';
+import { ChannelHistory, ChannelHistoryAnalyzer } from './ChannelHistoryAnalyzer';
+import { TimePeriod, TimeWindow, resolveTimePeriod } from '../../intents/entities/TimePeriod';
+
+/**
+ * Period history queries compare, unless the query names one
+ */
+const DEFAULT_HISTORY_PERIOD: TimePeriod = 'month';
+
+/**
+ * Maximum number of channels listed per node in the history of channels
+ */
+const MAX_LISTED_CHANNEL_CHANGES = 10;
+
+/**
+ * Snapshots of a node that history queries are answered from
+ */
+export interface ChannelHistorySource {
+  store: SnapshotStore;
+  /** Name of the node the snapshots are stored under */
+  node: string;
+}
+
+/**
+ * Changes of the channels of one or more nodes over a period
+ */
+export interface ChannelHistoryReport {
+  /** Changes of each node with at least two snapshots in the period */
+  history: ChannelHistory[];
+  /** Description of the period, e.g. "in the last 30 days" */
+  period: string;
+  /** Whether snapshots are being taken */
+  recording: boolean;
+}
+
+/**
+ * Compares the stored snapshots of a node over a period
+ */
+export class ChannelHistoryService {
+  private readonly analyzer = new ChannelHistoryAnalyzer();
+
+  /**
+   * Create a new channel history service
+   * @param source Snapshots of the node, unless snapshots are disabled
+   */
+  constructor(private readonly source?: ChannelHistorySource) {}
+
+  /**
+   * Check whether snapshots of the node are being taken
+   * @returns Whether the node has a snapshot store
+   */
+  isRecording(): boolean {
+    return this.source !== undefined;
+  }
+
+  /**
+   * Get the time window of a history query
+   * @param window The time window named by the query, if any
+   * @returns The time window of the query, or the default period
+   */
+  getWindow(window?: TimeWindow): TimeWindow {
+    return window || resolveTimePeriod(DEFAULT_HISTORY_PERIOD);
+  }
+
+  /**
+   * Compare the snapshots of the node in a time window
+   * @param window The time window
+   * @returns Promise resolving to the changes, undefined without two snapshots in the window
+   */
+  async analyze(window: TimeWindow): Promise<ChannelHistory | undefined> {
+    if (!this.source) {
+      return undefined;
+    }
+
+    const snapshots = await this.source.store.query({
+      node: this.source.node,
+      from: window.from,
+      to: window.to,
+    });
+
+    return this.analyzer.analyze(snapshots);
+  }
+
+  /**
+   * Format the changes of channels over time as text
+   * @param report The changes of each node
+   * @returns Formatted totals, trends and channel changes of each node
+   */
+  format(report: ChannelHistoryReport): string {
+    if (!report.recording) {
+      return 'No channel history is recorded. Set SNAPSHOT_DIR to take periodic snapshots of your channels.';
+    }
+
+    if (report.history.length === 0) {
+      return `Not enough snapshots ${report.period} to compare yet. At least two are needed.`;
+    }
+
+    const formatChange = (sats: number): string =>
+      `${sats > 0 ? '+' : ''}${sats.toLocaleString()} sats`;
+
+    return report.history
+      .map((history) => {
+        const { before, after, deltas, trends } = history;
+        let output = `${history.node ? `[${history.node}] ` : ''}Channel history ${
+          report.period
+        } (${history.snapshots} snapshots from ${history.from} to ${history.to}):\n`;
+
+        output += `- Outbound liquidity: ${before.totalLocalBalance.toLocaleString()} → ${after.totalLocalBalance.toLocaleString()} sats (${formatChange(
+          deltas.totalLocalBalance
+        )}, ${trends.totalLocalBalance.direction})\n`;
+        output += `- Inbound liquidity: ${before.totalRemoteBalance.toLocaleString()} → ${after.totalRemoteBalance.toLocaleString()} sats (${formatChange(
+          deltas.totalRemoteBalance
+        )}, ${trends.totalRemoteBalance.direction})\n`;
+        output += `- Capacity: ${before.totalCapacity.toLocaleString()} → ${after.totalCapacity.toLocaleString()} sats (${formatChange(
+          deltas.totalCapacity
+        )})\n`;
+        output += `- Channels: ${before.channelCount} → ${after.channelCount} (${history.openedChannels} opened, ${history.closedChannels} closed)\n`;
+        output += `- On-chain balance: ${formatChange(deltas.confirmedChainBalance)} confirmed\n`;
+
+        if (history.channels.length > 0) {
+          output += '\nLargest changes:\n';
+          history.channels.slice(0, MAX_LISTED_CHANNEL_CHANGES).forEach((channel, index) => {
+            const status = channel.status === 'open' ? '' : ` (${channel.status})`;
+            output += `${index + 1}. ${channel.remote_alias}${status}: ${formatChange(
+              channel.localBalanceChange
+            )} local\n`;
+          });
+
+          if (history.channels.length > MAX_LISTED_CHANNEL_CHANGES) {
+            output += `...and ${history.channels.length - MAX_LISTED_CHANNEL_CHANGES} more.\n`;
+          }
+        }
+
+        return output;
+      })
+      .join('\n');
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Tests for SnapshotScheduler
+ */
+
+import { SnapshotScheduler } from './SnapshotScheduler';
+import { SnapshotStore } from '../repositories/SnapshotStore';
+import { createMockGateway } from '../../../test/mocks/gateway.mock';
+
+jest.mock('../../../core/logging/logger');
+
+describe('SnapshotScheduler', () => {
+  const retention = { maxAgeDays: 90, fullResolutionDays: 7 };
+  const now = new Date('2024-03-01T10:00:00.000Z');
+
+  let store: jest.Mocked<SnapshotStore>;
+
+  beforeEach(() => {
+    store = {
+      append: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockResolvedValue([]),
+      prune: jest.fn().mockResolvedValue(0),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should snapshot the channels and balances of every node, then prune', async () => {
+    const alpha = createMockGateway({
+      getChannels: jest.fn().mockResolvedValue([
+        {
+          id: '1',
+          capacity: 1000000,
+          local_balance: 600000,
+          remote_balance: 400000,
+          active: true,
+          remote_pubkey: 'pubkey-a',
+          channel_point: 'txid-1:0',
+        },
+        {
+          id: '2',
+          capacity: 500000,
+          local_balance: 100000,
+          remote_balance: 400000,
+          active: false,
+          remote_pubkey: 'pubkey-b',
+          channel_point: 'txid-2:0',
+        },
+      ]),
+      getChainBalance: jest
+        .fn()
+        .mockResolvedValue({ confirmed_balance: 200000, unconfirmed_balance: 5000 }),
+    });
+    const scheduler = new SnapshotScheduler(store, [{ name: 'alpha', gateway: alpha }], {
+      intervalMs: 60000,
+      retention,
+    });
+
+    const [snapshot] = await scheduler.takeSnapshots(now);
+
+    expect(snapshot.node).toBe('alpha');
+    expect(snapshot.taken_at).toBe('2024-03-01T10:00:00.000Z');
+    expect(snapshot.channels).toHaveLength(2);
+    expect(snapshot.summary).toEqual({
+      channelCount: 2,
+      activeChannels: 1,
+      totalCapacity: 1500000,
+      totalLocalBalance: 700000,
+      totalRemoteBalance: 800000,
+      confirmedChainBalance: 200000,
+      unconfirmedChainBalance: 5000,
+    });
+    expect(store.append).toHaveBeenCalledWith(snapshot);
+    expect(store.prune).toHaveBeenCalledWith(retention, now);
+  });
+
+  test('should skip nodes that cannot be queried', async () => {
+    const offline = createMockGateway({
+      getChannels: jest.fn().mockRejectedValue(new Error('Node unreachable')),
+    });
+    const scheduler = new SnapshotScheduler(
+      store,
+      [
+        { name: 'offline', gateway: offline },
+        { name: 'online', gateway: createMockGateway() },
+      ],
+      { intervalMs: 60000, retention }
+    );
+
+    const snapshots = await scheduler.takeSnapshots(now);
+
+    expect(snapshots.map(({ node }) => node)).toEqual(['online']);
+    expect(store.prune).toHaveBeenCalled();
+  });
+
+  test('should take snapshots at the interval until stopped', async () => {
+    jest.useFakeTimers();
+    const gateway = createMockGateway();
+    const scheduler = new SnapshotScheduler(store, [{ name: 'alpha', gateway }], {
+      intervalMs: 60000,
+      retention,
+    });
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(120000);
+    await scheduler.stop();
+    await jest.advanceTimersByTimeAsync(120000);
+
+    expect(store.append).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Scheduler of node snapshots.
+ *
+ * Queries are answered from live node data, which tells nothing about the
+ * past. The scheduler periodically records the channels and balances of
+ * every node in a snapshot store, then applies the retention policy, so
+ * history queries can compare snapshots over time.
+ */
+
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { ChannelData } from '../../channels/entities/Channel';
+import { ChainBalanceData } from '../../wallet/entities/Wallet';
+import { RetentionPolicy, SnapshotData } from '../entities/Snapshot';
+import { SnapshotStore } from '../repositories/SnapshotStore';
+import logger from '../../../core/logging/logger';
+import { sanitizeError } from '../../../core/errors/sanitize';
+
+/**
+ * A node whose snapshots are taken
+ */
+export interface SnapshotSource {
+  /** Name the snapshots are stored under */
+  name: string;
+  gateway: LightningNetworkGateway;
+}
+
+/**
+ * Schedule and retention of snapshots
+ */
+export interface SnapshotScheduleOptions {
+  /** Time between snapshots, in milliseconds */
+  intervalMs: number;
+  retention: RetentionPolicy;
+}
+
+/**
+ * Periodically snapshots the channels and balances of nodes
+ */
+export class SnapshotScheduler {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<SnapshotData[]>;
+
+  /**
+   * Create a new snapshot scheduler
+   * @param store Store the snapshots are written to
+   * @param sources The nodes to snapshot
+   * @param options Schedule and retention of the snapshots
+   */
+  constructor(
+    private readonly store: SnapshotStore,
+    private readonly sources: SnapshotSource[],
+    private readonly options: SnapshotScheduleOptions
+  ) {}
+
+  /**
+   * Take a first snapshot of every node now, then keep taking them at the interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.run();
+    this.timer = setInterval(() => this.run(), this.options.intervalMs);
+    // Snapshots never keep the process alive on their own
+    this.timer.unref();
+
+    logger.info(`Taking node snapshots every ${Math.round(this.options.intervalMs / 60000)} min`, {
+      component: 'snapshot-scheduler',
+      nodes: this.sources.map(({ name }) => name),
+    });
+  }
+
+  /**
+   * Stop taking snapshots, waiting for a snapshot in progress to be written
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running;
+  }
+
+  /**
+   * Snapshot every node, then prune the store. Nodes that cannot be queried
+   * are skipped until the next snapshot.
+   * @param now Time of the snapshots (defaults to the current time)
+   * @returns Promise resolving to the snapshots written
+   */
+  async takeSnapshots(now: Date = new Date()): Promise<SnapshotData[]> {
+    const snapshots: SnapshotData[] = [];
+
+    for (const { name, gateway } of this.sources) {
+      try {
+        const [channels, chainBalance] = await Promise.all([
+          gateway.getChannels(),
+          gateway.getChainBalance(),
+        ]);
+        const snapshot = createSnapshot(name, channels, chainBalance, now);
+
+        await this.store.append(snapshot);
+        snapshots.push(snapshot);
+      } catch (error) {
+        const sanitizedError = sanitizeError(error);
+        logger.error(`Failed to snapshot node ${name}`, sanitizedError, {
+          component: 'snapshot-scheduler',
+          node: name,
+        });
+      }
+    }
+
+    try {
+      await this.store.prune(this.options.retention, now);
+    } catch (error) {
+      const sanitizedError = sanitizeError(error);
+      logger.error('Failed to prune snapshots', sanitizedError, {
+        component: 'snapshot-scheduler',
+      });
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Take scheduled snapshots, unless the previous ones are still being taken
+   * @private
+   */
+  private run(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = this.takeSnapshots().finally(() => {
+      this.running = undefined;
+    });
+  }
+}
+
+/**
+ * Create the snapshot of a node
+ * @param node Name of the node
+ * @param channels The node's open channels
+ * @param chainBalance The node's on-chain wallet balance
+ * @param takenAt Time of the snapshot
+ * @returns The snapshot with the node's totals
+ */
+export function createSnapshot(
+  node: string,
+  channels: ChannelData[],
+  chainBalance: ChainBalanceData,
+  takenAt: Date
+): SnapshotData {
+  return {
+    node,
+    taken_at: takenAt.toISOString(),
+    summary: {
+      channelCount: channels.length,
+      activeChannels: channels.filter((channel) => channel.active).length,
+      totalCapacity: channels.reduce((sum, channel) => sum + channel.capacity, 0),
+      totalLocalBalance: channels.reduce((sum, channel) => sum + channel.local_balance, 0),
+      totalRemoteBalance: channels.reduce((sum, channel) => sum + channel.remote_balance, 0),
+      confirmedChainBalance: chainBalance.confirmed_balance,
+      unconfirmedChainBalance: chainBalance.unconfirmed_balance,
+    },
+    channels,
+  };
+}
@@ -22,7 +22,19 @@ export type LightningDomain =
 /**
  * Operation types for Lightning Network queries
  */
-export type LightningOperation = 'list' | 'details' | 'summary' | 'liquidity' | 'unknown';
+export type LightningOperation =
+  | 'list'
+  | 'details'
+  | 'summary'
+  | 'liquidity'
+  | 'pending'
+  | 'closed'
+  | 'health'
+  | 'rebalance'
+  | 'fees'
+  | 'recommend'
+  | 'history'
+  | 'unknown';
 
 /**
  * Enhanced Intent model for Lightning Network queries
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Tests for time periods and ranges
+ */
+
+import { getTimeWindow, isWithinTimeWindow, resolveTimePeriod, toTimeRange } from './TimePeriod';
+
+describe('TimePeriod', () => {
+  const now = new Date(2025, 2, 15, 12, 0, 0);
+
+  test('should resolve rolling windows ending now', () => {
+    const week = resolveTimePeriod('week', now);
+    expect(week.to).toBe(now.getTime());
+    expect(week.to - week.from).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(week.label).toBe('in the last 7 days');
+  });
+
+  test('should resolve yesterday to the previous calendar day', () => {
+    const yesterday = resolveTimePeriod('yesterday', now);
+    expect(new Date(yesterday.from)).toEqual(new Date(2025, 2, 14, 0, 0, 0));
+    expect(new Date(yesterday.to)).toEqual(new Date(2025, 2, 15, 0, 0, 0));
+  });
+
+  test('should check whether timestamps fall within a window', () => {
+    const yesterday = resolveTimePeriod('yesterday', now);
+    expect(isWithinTimeWindow(new Date(2025, 2, 14, 18).toISOString(), yesterday)).toBe(true);
+    expect(isWithinTimeWindow(new Date(2025, 2, 15, 1).toISOString(), yesterday)).toBe(false);
+  });
+
+  test('should read the time window of intent attributes', () => {
+    const week = toTimeRange(resolveTimePeriod('week', now));
+    const attributes = new Map<string, unknown>([
+      ['from', week.from],
+      ['to', week.to],
+      ['timeLabel', week.label],
+    ]);
+
+    expect(getTimeWindow(attributes)).toEqual(resolveTimePeriod('week', now));
+    expect(getTimeWindow(new Map())).toBeUndefined();
+
+    // Windows without an end run until now
+    const since = getTimeWindow(new Map([['from', '2025-03-01T00:00:00.000Z']]), now);
+    expect(since).toEqual({
+      from: Date.parse('2025-03-01T00:00:00.000Z'),
+      to: now.getTime(),
+      label: `between 2025-03-01T00:00:00.000Z and ${now.toISOString()}`,
+    });
+  });
+});
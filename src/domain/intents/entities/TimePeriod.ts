@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Time periods and ranges for Lightning Network queries.
+ *
+ * Defines the relative time periods domain handlers default to, and reads
+ * the time range extracted from a query (the from and to attributes of an
+ * intent) into concrete time windows.
+ */
+
+/**
+ * Relative time periods supported in queries
+ */
+export type TimePeriod = 'day' | 'yesterday' | 'week' | 'month';
+
+/**
+ * Concrete time window with millisecond timestamps
+ */
+export interface TimeWindow {
+  from: number;
+  to: number;
+  label: string;
+}
+
+/**
+ * Time window with ISO 8601 timestamps, as reported in query results
+ */
+export interface TimeRange {
+  from: string;
+  to: string;
+  label: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve a relative time period into a concrete time window
+ * @param period The relative time period
+ * @param now The reference time (defaults to the current time)
+ * @returns The time window covered by the period
+ */
+export function resolveTimePeriod(period: TimePeriod, now: Date = new Date()): TimeWindow {
+  const to = now.getTime();
+
+  switch (period) {
+    case 'yesterday': {
+      const startOfToday = new Date(now);
+      startOfToday.setHours(0, 0, 0, 0);
+      return {
+        from: startOfToday.getTime() - DAY_MS,
+        to: startOfToday.getTime(),
+        label: 'yesterday',
+      };
+    }
+    case 'week':
+      return { from: to - 7 * DAY_MS, to, label: 'in the last 7 days' };
+    case 'month':
+      return { from: to - 30 * DAY_MS, to, label: 'in the last 30 days' };
+    case 'day':
+    default:
+      return { from: to - DAY_MS, to, label: 'in the last 24 hours' };
+  }
+}
+
+/**
+ * Check whether a timestamp falls within a time window
+ * @param timestamp ISO 8601 timestamp to check
+ * @param window The time window
+ * @returns True if the timestamp is within the window
+ */
+export function isWithinTimeWindow(timestamp: string, window: TimeWindow): boolean {
+  const time = Date.parse(timestamp);
+  return time >= window.from && time < window.to;
+}
+
+/**
+ * Read the time window of an intent from its from, to and timeLabel attributes
+ * @param attributes The intent attributes
+ * @param now The reference time an open-ended window ends at (defaults to the current time)
+ * @returns The time window, unless the intent has neither a start nor an end
+ */
+export function getTimeWindow(
+  attributes: Map<string, unknown>,
+  now: Date = new Date()
+): TimeWindow | undefined {
+  const from = attributes.get('from');
+  const to = attributes.get('to');
+  if (typeof from !== 'string' && typeof to !== 'string') {
+    return undefined;
+  }
+
+  const window = {
+    from: typeof from === 'string' ? Date.parse(from) : 0,
+    to: typeof to === 'string' ? Date.parse(to) : now.getTime(),
+  };
+  const label = attributes.get('timeLabel');
+
+  return {
+    ...window,
+    label:
+      typeof label === 'string'
+        ? label
+        : `between ${new Date(window.from).toISOString()} and ${new Date(window.to).toISOString()}`,
+  };
+}
+
+/**
+ * Convert a time window into ISO 8601 timestamps
+ * @param window The time window
+ * @returns The time range of the window
+ */
+export function toTimeRange(window: TimeWindow): TimeRange {
+  return {
+    from: new Date(window.from).toISOString(),
+    to: new Date(window.to).toISOString(),
+    label: window.label,
+  };
+}
@@ -19,9 +19,9 @@ export class IntentParserFactory {
    * @param config Application configuration
    * @returns An intent parser strategy
    */
-  static createParser(_config?: Config): IntentParserStrategy {
+  static createParser(config?: Config): IntentParserStrategy {
     // For now, we only have one strategy
-    return new RegexIntentParser();
+    return new RegexIntentParser(config?.queries.timeZone);
 
     // In the future, we can add more strategies based on configuration
     // if (config?.nlp?.strategy === 'advanced') {
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Tests for AmountExpressionParser
+ */
+
+import { AmountExpressionParser } from './AmountExpressionParser';
+import { QueryError } from '../../errors/LightningErrors';
+
+describe('AmountExpressionParser', () => {
+  const parser = new AmountExpressionParser();
+
+  test('should normalize amounts to satoshis', () => {
+    const values = [
+      'over 250000',
+      'over 500k sats',
+      'over 5m sats',
+      'over 1.5 million satoshis',
+      'over 0.01 btc',
+      'over 2 mbtc',
+    ].map((query) => parser.parse(query)[0]?.value);
+
+    expect(values).toEqual([250000, 500000, 5000000, 1500000, 1000000, 200000]);
+  });
+
+  test('should tell lower from upper bounds', () => {
+    expect(parser.parse('channels bigger than 5m sats')).toEqual([
+      { bound: 'min', kind: 'amount', value: 5000000, subject: 'channels' },
+    ]);
+    expect(parser.parse('local balance under 0.01 btc')).toEqual([
+      { bound: 'max', kind: 'amount', value: 1000000, subject: 'local balance' },
+    ]);
+    expect(parser.parse('capacity >= 2m')[0]).toMatchObject({ bound: 'min', value: 2000000 });
+  });
+
+  test('should parse percentages and splits with what they compare', () => {
+    expect(parser.parse('channels with more than 80% local')).toEqual([
+      { bound: 'min', kind: 'ratio', value: 0.8, subject: 'channels with local' },
+    ]);
+    expect(parser.parse('imbalance worse than 20/80')).toEqual([
+      { bound: 'min', kind: 'split', value: 0.8, subject: 'imbalance' },
+    ]);
+  });
+
+  test('should keep the words since the previous comparison as subject', () => {
+    const comparisons = parser.parse('channels under 500 mbtc with remote balance over 200k sats.');
+
+    expect(comparisons.map(({ subject, value }) => ({ subject, value }))).toEqual([
+      { subject: 'channels', value: 50000000 },
+      { subject: 'with remote balance', value: 200000 },
+    ]);
+  });
+
+  test('should reject percentages outside 0% to 100% and negative amounts', () => {
+    expect(() => parser.parse('channels with local ratio above 150%')).toThrow(
+      new QueryError('Invalid percentage 150%: percentages must be between 0% and 100%')
+    );
+    expect(() => parser.parse('channels with inbound below -5 percent')).toThrow(
+      'Invalid percentage -5%: percentages must be between 0% and 100%'
+    );
+    expect(() => parser.parse('channels over -2m sats')).toThrow(
+      'Invalid amount -2: amounts cannot be negative'
+    );
+    expect(parser.parse('more than 100% local')[0]?.value).toBe(1);
+  });
+
+  test('should ignore numbers of other things', () => {
+    expect(parser.parse('channels with a fee rate above 500 ppm')).toEqual([]);
+    expect(parser.parse('peers with more than 5 channels')).toEqual([]);
+    expect(parser.parse('payments over the last 7 days')).toEqual([]);
+  });
+});
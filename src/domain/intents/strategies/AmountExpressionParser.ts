@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Parser of amount comparisons in queries.
+ *
+ * Turns comparisons such as "bigger than 5M sats", "under 0.01 BTC",
+ * "more than 80% local" or "worse than 80/20" into typed bounds. Amounts
+ * are normalized to satoshis and percentages to fractions; the words around
+ * each comparison are kept so the intent parser can tell what is compared.
+ */
+
+import { QueryError } from '../../errors/LightningErrors';
+
+const SATS_PER_BTC = 100000000;
+const SATS_PER_MBTC = 100000;
+
+/**
+ * Kind of value compared against
+ */
+export type ComparisonKind = 'amount' | 'ratio' | 'split';
+
+/**
+ * Bound set by a comparison in a query
+ */
+export interface Comparison {
+  /** Whether the value is a lower (min) or upper (max) bound */
+  bound: 'min' | 'max';
+  kind: ComparisonKind;
+  /**
+   * Satoshis for amounts, a fraction from 0 to 1 for percentages, and the
+   * share of the larger side for splits ("80/20" is 0.8)
+   */
+  value: number;
+  /**
+   * Words naming what is compared: the text since the previous comparison,
+   * followed by a side named after the value ("80% local")
+   */
+  subject: string;
+}
+
+const MIN_COMPARATORS = [
+  'over',
+  'above',
+  'more than',
+  'greater than',
+  'larger than',
+  'bigger than',
+  'higher than',
+  'at least',
+  'worse than',
+  '>=',
+  '>',
+];
+
+const MAX_COMPARATORS = [
+  'under',
+  'below',
+  'less than',
+  'smaller than',
+  'lower than',
+  'at most',
+  'up to',
+  'better than',
+  '<=',
+  '<',
+];
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+/**
+ * Number of an amount or percentage, signed so negative values are reported
+ * rather than read as positive ones
+ */
+const SIGNED_NUMBER = '(-?\\d+(?:\\.\\d+)?)';
+
+const COMPARISON_REGEX = new RegExp(
+  `(?:^|\\s|\\b)(${[...MIN_COMPARATORS, ...MAX_COMPARATORS].join('|')})\\s*` +
+    // A split such as 80/20, or an amount with an optional multiplier and unit
+    `(?:${NUMBER}\\s*/\\s*${NUMBER}|${SIGNED_NUMBER}\\s*(k|thousand|million|m(?!btc|sat))?\\s*(%|percent|mbtc|btc|bitcoins?|sats?|satoshis?)?)` +
+    // Numbers of other things are not amounts
+    `(?!\\w|\\.\\d)(?!\\s*(?:ppm|hours?|days?|weeks?|months?|years?|channels?|peers?|payments?|transactions?|utxos?)\\b)` +
+    `(?:\\s+(local|outbound|remote|inbound)\\b)?`,
+  'g'
+);
+
+/**
+ * Parses amount, percentage and split comparisons
+ */
+export class AmountExpressionParser {
+  /**
+   * Parse every comparison in a query, in order of appearance
+   * @param lowerQuery The lowercased query to analyze
+   * @returns The comparisons found in the query
+   * @throws QueryError if a percentage is outside 0% to 100% or an amount is negative
+   */
+  parse(lowerQuery: string): Comparison[] {
+    const comparisons: Comparison[] = [];
+    let subjectStart = 0;
+
+    for (const match of lowerQuery.matchAll(COMPARISON_REGEX)) {
+      const [text, comparator, splitLarge, splitSmall, value, multiplier, unit, side] = match;
+      const bound = MIN_COMPARATORS.includes(comparator) ? 'min' : 'max';
+      const index = match.index ?? 0;
+      const subject = [lowerQuery.slice(subjectStart, index).trim(), side]
+        .filter(Boolean)
+        .join(' ');
+      subjectStart = index + text.length;
+
+      if (splitLarge !== undefined) {
+        const [a, b] = [parseFloat(splitLarge), parseFloat(splitSmall)];
+        if (a + b > 0) {
+          comparisons.push({ bound, kind: 'split', value: Math.max(a, b) / (a + b), subject });
+        }
+      } else if (unit === '%' || unit === 'percent') {
+        const percentage = parseFloat(value);
+        if (percentage < 0 || percentage > 100) {
+          throw new QueryError(
+            `Invalid percentage ${value}%: percentages must be between 0% and 100%`
+          );
+        }
+        comparisons.push({ bound, kind: 'ratio', value: percentage / 100, subject });
+      } else {
+        if (parseFloat(value) < 0) {
+          throw new QueryError(`Invalid amount ${value}: amounts cannot be negative`);
+        }
+        comparisons.push({
+          bound,
+          kind: 'amount',
+          value: toSatoshis(parseFloat(value), multiplier, unit),
+          subject,
+        });
+      }
+    }
+
+    return comparisons;
+  }
+}
+
+/**
+ * Convert an amount into satoshis
+ * @param value The number of the amount
+ * @param multiplier Optional multiplier of the number (k, M, thousand, million)
+ * @param unit Optional unit of the amount, defaulting to satoshis
+ * @returns The amount in satoshis
+ */
+function toSatoshis(value: number, multiplier?: string, unit?: string): number {
+  let amount = value;
+
+  if (multiplier === 'k' || multiplier === 'thousand') {
+    amount *= 1000;
+  } else if (multiplier === 'm' || multiplier === 'million') {
+    amount *= 1000000;
+  }
+
+  if (unit === 'mbtc') {
+    amount *= SATS_PER_MBTC;
+  } else if (unit === 'btc' || unit?.startsWith('bitcoin')) {
+    amount *= SATS_PER_BTC;
+  }
+
+  return Math.round(amount);
+}
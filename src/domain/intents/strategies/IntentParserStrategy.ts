@@ -6,7 +6,7 @@
  * implementations to be swapped out without affecting the rest of the system.
  */
 
-import { EnhancedIntent } from '../entities/EnhancedIntent';
+import { EnhancedIntent, LightningDomain } from '../entities/EnhancedIntent';
 
 /**
  * Strategy interface for intent parsing
@@ -18,7 +18,9 @@ export interface IntentParserStrategy {
   /**
    * Parse a natural language query into a structured intent
    * @param query The natural language query to parse
+   * @param domain Optional domain to use instead of detecting one from the query
    * @returns A structured intent object
+   * @throws QueryError if the query has values the user has to correct
    */
-  parseIntent(query: string): EnhancedIntent;
+  parseIntent(query: string, domain?: LightningDomain): EnhancedIntent;
 }
@@ -4,6 +4,7 @@
 
 import { LightningDomain } from '../entities/EnhancedIntent';
 import { RegexIntentParser } from './RegexIntentParser';
+import { QueryError } from '../../errors/LightningErrors';
 
 describe('RegexIntentParser', () => {
   let parser: RegexIntentParser;
@@ -13,11 +14,20 @@ describe('RegexIntentParser', () => {
   });
 
   describe('parseIntent', () => {
-    test('should parse channel health queries as list operations', () => {
+    test('should parse channel health queries as health operations', () => {
+      const queries = ['Show me the health of my channels', 'Check channel health'];
+
+      for (const query of queries) {
+        const intent = parser.parseIntent(query);
+        expect(intent.domain).toBe('channels');
+        expect(intent.operation).toBe('health');
+        expect(intent.query).toBe(query);
+      }
+    });
+
+    test('should parse channel issue queries as list operations', () => {
       const queries = [
-        'Show me the health of my channels',
         'Are there any channel issues?',
-        'Check channel health',
         'Show me inactive channels',
         'Are there any problems with my channels?',
       ];
@@ -90,6 +100,150 @@ describe('RegexIntentParser', () => {
       expect(intent.attributes.get('checkBalance')).toBe(true);
     });
 
+    test('should parse channel health queries with ratio overrides', () => {
+      const healthIntent = parser.parseIntent('What is the health of my channels?');
+      expect(healthIntent.operation).toBe('health');
+      expect(healthIntent.attributes.has('healthMinLocalRatio')).toBe(false);
+
+      const rangeIntent = parser.parseIntent('Which channels are unhealthy between 30 and 70%?');
+      expect(rangeIntent.operation).toBe('health');
+      expect(rangeIntent.attributes.get('healthMinLocalRatio')).toBe(0.3);
+      expect(rangeIntent.attributes.get('healthMaxLocalRatio')).toBe(0.7);
+
+      const minIntent = parser.parseIntent(
+        'Which channels need rebalancing with min local ratio 0.25?'
+      );
+      expect(minIntent.operation).toBe('health');
+      expect(minIntent.attributes.get('healthMinLocalRatio')).toBe(0.25);
+      expect(minIntent.attributes.has('healthMaxLocalRatio')).toBe(false);
+    });
+
+    test('should parse channel fee queries', () => {
+      const intent = parser.parseIntent('What am I charging on my biggest channels?');
+      expect(intent.domain).toBe('channels');
+      expect(intent.operation).toBe('fees');
+
+      expect(parser.parseIntent('Total fees paid').domain).toBe('payments');
+    });
+
+    test('should parse channel history queries with their period', () => {
+      const intent = parser.parseIntent(
+        'How has my outbound liquidity changed over the last month?'
+      );
+      expect(intent.domain).toBe('channels');
+      expect(intent.operation).toBe('history');
+      expect(intent.attributes.get('timeLabel')).toBe('in the last 30 days');
+
+      const trend = parser.parseIntent('Show my channel balance trend');
+      expect(trend.operation).toBe('history');
+      expect(trend.attributes.has('from')).toBe(false);
+
+      expect(parser.parseIntent('Show my channel liquidity').operation).toBe('liquidity');
+    });
+
+    test('should parse channel candidate queries with their limit', () => {
+      const intent = parser.parseIntent('Who should I open a channel with?');
+      expect(intent.domain).toBe('nodes');
+      expect(intent.operation).toBe('recommend');
+      expect(intent.attributes.has('node')).toBe(false);
+
+      const top = parser.parseIntent('Suggest the top 5 peers to open new channels with');
+      expect(top.domain).toBe('nodes');
+      expect(top.operation).toBe('recommend');
+      expect(top.attributes.get('limit')).toBe(5);
+
+      expect(parser.parseIntent('Tell me about node ACINQ').operation).toBe('details');
+      expect(parser.parseIntent('Show my peers').domain).toBe('peers');
+    });
+
+    test('should parse amount, balance and imbalance filters of channels', () => {
+      expect([...parser.parseIntent('Show channels bigger than 5M sats').attributes]).toEqual([
+        ['minCapacity', 5000000],
+      ]);
+      expect(
+        parser
+          .parseIntent('Which channels have a local balance under 0.01 BTC?')
+          .attributes.get('maxLocalBalance')
+      ).toBe(1000000);
+      expect(
+        parser
+          .parseIntent('Which channels have an imbalance worse than 80/20?')
+          .attributes.get('minImbalance')
+      ).toBe(0.8);
+
+      const ratios = parser.parseIntent('List channels with inbound above 70% and over 2 mBTC');
+      expect(ratios.attributes.get('maxLocalRatio')).toBe(0.3);
+      expect(ratios.attributes.get('minCapacity')).toBe(200000);
+
+      // Pending and closed channels are not filtered by amount
+      expect(
+        parser
+          .parseIntent('Which closed channels were bigger than 5M sats?')
+          .attributes.has('minCapacity')
+      ).toBe(false);
+    });
+
+    test('should reject channel filters with out of range percentages', () => {
+      expect(() => parser.parseIntent('Show channels with local ratio above 150%')).toThrow(
+        QueryError
+      );
+    });
+
+    test('should parse fee recommendation queries with their strategy', () => {
+      const intent = parser.parseIntent('Recommend fees for my channels');
+      expect(intent.domain).toBe('channels');
+      expect(intent.operation).toBe('recommend');
+      expect(intent.attributes.has('feeStrategy')).toBe(false);
+
+      expect(
+        parser
+          .parseIntent('What fees should I set to protect my outbound liquidity?')
+          .attributes.get('feeStrategy')
+      ).toBe('drain-protecting');
+      expect(
+        parser
+          .parseIntent('Suggest competitive fee rates for my channels')
+          .attributes.get('feeStrategy')
+      ).toBe('volume-seeking');
+    });
+
+    test('should parse payment queries', () => {
+      const listIntent = parser.parseIntent('What did I pay this week?');
+      expect(listIntent.domain).toBe('payments');
+      expect(listIntent.operation).toBe('list');
+      expect(listIntent.attributes.get('timeLabel')).toBe('this week');
+
+      const failedIntent = parser.parseIntent('Show failed payments');
+      expect(failedIntent.domain).toBe('payments');
+      expect(failedIntent.operation).toBe('list');
+      expect(failedIntent.attributes.get('status')).toBe('failed');
+
+      const feesIntent = parser.parseIntent('Total fees paid');
+      expect(feesIntent.domain).toBe('payments');
+      expect(feesIntent.operation).toBe('summary');
+    });
+
+    test('should parse invoice queries', () => {
+      const unpaidIntent = parser.parseIntent('Which invoices are still unpaid?');
+      expect(unpaidIntent.domain).toBe('invoices');
+      expect(unpaidIntent.operation).toBe('list');
+      expect(unpaidIntent.attributes.get('status')).toBe('open');
+
+      const receivedIntent = parser.parseIntent('How much did I receive yesterday?');
+      expect(receivedIntent.domain).toBe('invoices');
+      expect(receivedIntent.operation).toBe('summary');
+      expect(receivedIntent.attributes.get('timeLabel')).toBe('yesterday');
+
+      const expiredIntent = parser.parseIntent('Show expired invoices');
+      expect(expiredIntent.attributes.get('status')).toBe('expired');
+    });
+
+    test('should use the domain hint instead of detecting the domain', () => {
+      const intent = parser.parseIntent('Show me everything from today', 'payments');
+      expect(intent.domain).toBe('payments');
+      expect(intent.attributes.get('timeLabel')).toBe('today');
+    });
+
     test('should handle errors gracefully', () => {
       // Mock the determineDomain method to throw an error
       jest.spyOn(parser as any, 'determineDomain').mockImplementationOnce(() => {
@@ -105,7 +259,7 @@ describe('RegexIntentParser', () => {
   });
 
   describe('determineDomain', () => {
-    test('should always return channels domain', () => {
+    test('should default to channels domain', () => {
       // Access the private method using type assertion
       const determineDomain = (parser as any).determineDomain.bind(parser);
 
@@ -114,14 +268,99 @@ describe('RegexIntentParser', () => {
       expect(determineDomain('What about nodes?')).toBe('channels');
       expect(determineDomain('Random query')).toBe('channels');
     });
+
+    test('should detect payments domain', () => {
+      const determineDomain = (parser as any).determineDomain.bind(parser);
+
+      expect(determineDomain('What did I pay yesterday?')).toBe('payments');
+      expect(determineDomain('Show my payments')).toBe('payments');
+      expect(determineDomain('How much have I paid in fees?')).toBe('payments');
+    });
+
+    test('should detect invoices domain', () => {
+      const determineDomain = (parser as any).determineDomain.bind(parser);
+
+      expect(determineDomain('Which invoices are still unpaid?')).toBe('invoices');
+      expect(determineDomain('How much did I receive yesterday?')).toBe('invoices');
+      expect(determineDomain('Show paid invoices')).toBe('invoices');
+    });
+
+    test('should detect forwards domain', () => {
+      const determineDomain = (parser as any).determineDomain.bind(parser);
+
+      expect(determineDomain('How much did I earn from routing this week?')).toBe('forwards');
+      expect(determineDomain('Show forwarded payments')).toBe('forwards');
+      expect(determineDomain('Which channels routed the most?')).toBe('forwards');
+      expect(determineDomain('Which channels are idle?')).toBe('forwards');
+      expect(determineDomain('How much routing fees have I paid?')).toBe('payments');
+    });
+
+    test('should detect peers domain', () => {
+      const determineDomain = (parser as any).determineDomain.bind(parser);
+
+      expect(determineDomain('Show my peers')).toBe('peers');
+      expect(determineDomain('Which channel partners are disconnected?')).toBe('peers');
+    });
+
+    test('should detect nodes domain', () => {
+      const determineDomain = (parser as any).determineDomain.bind(parser);
+
+      expect(determineDomain('Tell me about node ACINQ')).toBe('nodes');
+      expect(determineDomain(`Who is 03${'a'.repeat(64)}?`)).toBe('nodes');
+      expect(determineDomain('Tell me about my channels')).toBe('channels');
+    });
+
+    test('should detect wallet and transactions domains', () => {
+      const determineDomain = (parser as any).determineDomain.bind(parser);
+
+      expect(determineDomain('How much is confirmed vs unconfirmed?')).toBe('wallet');
+      expect(determineDomain('List my UTXOs over 1M sats')).toBe('wallet');
+      expect(determineDomain('Show my last 10 on-chain transactions')).toBe('transactions');
+    });
   });
 
   describe('determineOperation', () => {
-    test('should determine list operation for health-related queries', () => {
+    test('should determine health operation for health-related queries', () => {
+      // Access the private method using type assertion
+      const determineOperation = (parser as any).determineOperation.bind(parser);
+
+      expect(determineOperation('Check channel health', 'channels')).toBe('health');
+      expect(determineOperation('Which channels need rebalancing?', 'channels')).toBe('health');
+    });
+
+    test('should determine fees operation for channel fee queries', () => {
+      // Access the private method using type assertion
+      const determineOperation = (parser as any).determineOperation.bind(parser);
+
+      expect(determineOperation('What am I charging on my biggest channels?', 'channels')).toBe(
+        'fees'
+      );
+      expect(determineOperation('Show the fee rates of my channels', 'channels')).toBe('fees');
+      expect(determineOperation('Plan circular rebalances under 500 ppm in fees', 'channels')).toBe(
+        'rebalance'
+      );
+      expect(determineOperation('Suggest new fee rates for my channels', 'channels')).toBe(
+        'recommend'
+      );
+    });
+
+    test('should determine rebalance operation for rebalance planning queries', () => {
+      // Access the private method using type assertion
+      const determineOperation = (parser as any).determineOperation.bind(parser);
+
+      expect(determineOperation('Plan circular rebalances for my channels', 'channels')).toBe(
+        'rebalance'
+      );
+      expect(determineOperation('Suggest channel rebalances', 'channels')).toBe('rebalance');
+      expect(determineOperation('Show a rebalance plan for my channels', 'channels')).toBe(
+        'rebalance'
+      );
+    });
+
+    test('should determine list operation for issue-related queries', () => {
       // Access the private method using type assertion
       const determineOperation = (parser as any).determineOperation.bind(parser);
 
-      expect(determineOperation('Check channel health', 'channels')).toBe('list');
       expect(determineOperation('Are there any issues?', 'channels')).toBe('list');
       expect(determineOperation('Show me inactive channels', 'channels')).toBe('list');
     });
@@ -144,6 +383,30 @@ describe('RegexIntentParser', () => {
       expect(determineOperation('What channels do I have?', 'channels')).toBe('list');
     });
 
+    test('should determine pending operation for opening and closing channels', () => {
+      const determineOperation = (parser as any).determineOperation.bind(parser);
+
+      expect(determineOperation('What channels are still opening?', 'channels')).toBe('pending');
+      expect(determineOperation('When will my force-closed funds be spendable?', 'channels')).toBe(
+        'pending'
+      );
+    });
+
+    test('should determine closed operation for channel closure history', () => {
+      const determineOperation = (parser as any).determineOperation.bind(parser);
+
+      expect(determineOperation('Which channels were force closed?', 'channels')).toBe('closed');
+      expect(determineOperation('Show my closed channels by type', 'channels')).toBe('closed');
+    });
+
+    test('should determine summary operation for routing revenue queries', () => {
+      const determineOperation = (parser as any).determineOperation.bind(parser);
+
+      expect(determineOperation('How much did I earn this month?', 'forwards')).toBe('summary');
+      expect(determineOperation('Which channels are idle?', 'forwards')).toBe('summary');
+      expect(determineOperation('Show forwards from yesterday', 'forwards')).toBe('list');
+    });
+
     test('should default to list for unknown operations', () => {
       // Access the private method using type assertion
       const determineOperation = (parser as any).determineOperation.bind(parser);
@@ -210,6 +473,115 @@ describe('RegexIntentParser', () => {
       expect(attrs.get('checkBalance')).toBeUndefined();
     });
 
+    test('should extract the time window for forwards', () => {
+      const extractAttributes = (parser as any).extractAttributes.bind(parser);
+
+      const attrs = extractAttributes('What did I earn last week?', 'forwards', 'summary');
+      expect(attrs.get('timeLabel')).toBe('in the last 7 days');
+      expect(Date.parse(attrs.get('to')) - Date.parse(attrs.get('from'))).toBe(
+        7 * 24 * 60 * 60 * 1000
+      );
+    });
+
+    test('should extract time windows in the configured time zone', () => {
+      jest.useFakeTimers({ now: new Date('2024-03-15T12:00:00.000Z') });
+      const berlinParser = new RegexIntentParser('Europe/Berlin');
+
+      try {
+        const since = berlinParser.parseIntent('Show payments since March 1');
+        expect(since.attributes.get('from')).toBe('2024-02-29T23:00:00.000Z');
+        expect(since.attributes.get('to')).toBe('2024-03-15T12:00:00.000Z');
+        expect(since.attributes.get('timeLabel')).toBe('since March 1, 2024');
+
+        const transactions = berlinParser.parseIntent(
+          'Show on-chain transactions of the last 7 days'
+        );
+        expect(transactions.attributes.get('timeLabel')).toBe('in the last 7 days');
+        expect(transactions.attributes.has('limit')).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test('should extract pending state attribute for pending operation', () => {
+      const extractAttributes = (parser as any).extractAttributes.bind(parser);
+
+      expect(
+        extractAttributes('What channels are still opening?', 'channels', 'pending').get(
+          'pendingState'
+        )
+      ).toBe('opening');
+      expect(
+        extractAttributes(
+          'When will my force-closed funds be spendable?',
+          'channels',
+          'pending'
+        ).get('pendingState')
+      ).toBe('force_closing');
+    });
+
+    test('should extract close type attribute for closed operation', () => {
+      const extractAttributes = (parser as any).extractAttributes.bind(parser);
+
+      expect(
+        extractAttributes('Show my cooperatively closed channels', 'channels', 'closed').get(
+          'closeType'
+        )
+      ).toBe('cooperative');
+      expect(
+        extractAttributes('Which channels were force closed by peers?', 'channels', 'closed').get(
+          'closeType'
+        )
+      ).toBe('remote_force');
+      expect(
+        extractAttributes('Which channels were force closed?', 'channels', 'closed').has(
+          'closeType'
+        )
+      ).toBe(false);
+    });
+
+    test('should extract node attribute preserving alias case', () => {
+      const extractAttributes = (parser as any).extractAttributes.bind(parser);
+
+      expect(extractAttributes('Tell me about node ACINQ', 'nodes', 'details').get('node')).toBe(
+        'ACINQ'
+      );
+      expect(
+        extractAttributes('Look up "Wallet of Satoshi"?', 'nodes', 'details').get('node')
+      ).toBe('Wallet of Satoshi');
+    });
+
+    test('should extract peer filter attribute', () => {
+      const extractAttributes = (parser as any).extractAttributes.bind(parser);
+
+      expect(
+        extractAttributes('Which peers do I have no channel with?', 'peers', 'list').get(
+          'peerFilter'
+        )
+      ).toBe('withoutChannel');
+      expect(
+        extractAttributes('Which channel partners are disconnected?', 'peers', 'list').get(
+          'peerFilter'
+        )
+      ).toBe('disconnected');
+    });
+
+    test('should extract amount and limit attributes for on-chain domains', () => {
+      const extractAttributes = (parser as any).extractAttributes.bind(parser);
+
+      expect(
+        extractAttributes('List my UTXOs over 1M sats', 'wallet', 'list').get('minAmount')
+      ).toBe(1000000);
+      expect(extractAttributes('UTXOs above 0.05 BTC', 'wallet', 'list').get('minAmount')).toBe(
+        5000000
+      );
+      expect(
+        extractAttributes('Show my last 10 on-chain transactions', 'transactions', 'list').get(
+          'limit'
+        )
+      ).toBe(10);
+    });
+
     test('should not extract attributes for non-channel domains', () => {
       // Access the private method using type assertion
       const extractAttributes = (parser as any).extractAttributes.bind(parser);
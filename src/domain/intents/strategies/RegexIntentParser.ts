@@ -14,6 +14,15 @@ import {
   createIntent,
   createUnknownIntent,
 } from '../entities/EnhancedIntent';
+import { TimeExpressionParser } from './TimeExpressionParser';
+import { AmountExpressionParser } from './AmountExpressionParser';
+import { InvoiceState } from '../../invoices/entities/Invoice';
+import {
+  ClosedChannelType,
+  FeeStrategy,
+  PendingChannelState,
+} from '../../channels/entities/Channel';
+import { QueryError } from '../../errors/LightningErrors';
 import logger from '../../../core/logging/logger';
 import { sanitizeError } from '../../../core/errors/sanitize';
 
@@ -25,20 +34,35 @@ import { sanitizeError } from '../../../core/errors/sanitize';
  * a limited domain of queries.
  */
 export class RegexIntentParser implements IntentParserStrategy {
+  private readonly timeExpressionParser: TimeExpressionParser;
+  private readonly amountExpressionParser = new AmountExpressionParser();
+
+  /**
+   * Create a new regex intent parser
+   * @param timeZone IANA time zone dates in queries are interpreted in (defaults to the system time zone)
+   */
+  constructor(timeZone?: string) {
+    this.timeExpressionParser = new TimeExpressionParser(timeZone);
+  }
+
   /**
    * Parse a natural language query into a structured intent
    * @param query The natural language query to parse
+   * @param domainHint Optional domain to use instead of detecting one from the query
    * @returns A structured intent object
+   * @throws QueryError if the query has values the user has to correct, e.g. a
+   * percentage above 100%
    */
-  parseIntent(query: string): EnhancedIntent {
+  parseIntent(query: string, domainHint?: LightningDomain): EnhancedIntent {
     try {
       logger.debug('Parsing user intent with regex strategy', {
         component: 'regex-intent-parser',
         query,
+        domainHint,
       });
 
       // First determine the domain (channels, nodes, etc.)
-      const domain = this.determineDomain(query);
+      const domain = domainHint || this.determineDomain(query);
 
       // Then determine the operation based on the domain
       const operation = this.determineOperation(query, domain);
@@ -58,6 +82,11 @@ export class RegexIntentParser implements IntentParserStrategy {
 
       return intent;
     } catch (error) {
+      // Values the user has to correct are reported rather than guessed at
+      if (error instanceof QueryError) {
+        throw error;
+      }
+
       const sanitizedError = sanitizeError(error) || new Error('Unknown error');
       logger.error('Failed to parse intent', sanitizedError, {
         component: 'regex-intent-parser',
@@ -71,18 +100,63 @@ export class RegexIntentParser implements IntentParserStrategy {
   /**
    * Determine the domain of a query
    *
-   * Note: Currently only the 'channels' domain is implemented.
-   * This method is structured to support additional domains in the future
-   * or when transitioning to a more advanced NLP solution.
+   * Queries that don't match the vocabulary of a specific domain fall back
+   * to the 'channels' domain.
    *
    * @param query The query to analyze
-   * @returns The domain of the query (currently always 'channels')
+   * @returns The domain of the query
    * @private
    */
-  private determineDomain(_query: string): LightningDomain {
-    // Currently only the 'channels' domain is supported
-    // When additional domains are added, this method should be expanded
-    // to properly detect and route to those domains
+  private determineDomain(query: string): LightningDomain {
+    const lowerQuery = query.toLowerCase();
+
+    // Nodes to open new channels with ("who should I open a channel with")
+    // Checked first since these queries often mention peers and routing
+    if (this.isChannelCandidateQuery(lowerQuery)) {
+      return 'nodes';
+    }
+
+    // Routed payments, routing revenue and channels idle for routing
+    // Checked first since forwarding queries often mention fees and payments
+    if (
+      /\b(forward(s|ed|ing)?|routed|earn(s|ed|ing|ings)?|idle)\b/.test(lowerQuery) ||
+      (/\brouting\b/.test(lowerQuery) && !/\b(pay|paid|payments?)\b/.test(lowerQuery))
+    ) {
+      return 'forwards';
+    }
+
+    // Peer connections ("which channel partners are disconnected")
+    if (/\b(peers?|disconnected|offline|ping)\b/.test(lowerQuery)) {
+      return 'peers';
+    }
+
+    // On-chain transactions ("show my last 10 on-chain transactions")
+    if (/\b(transactions?|txs?|deposits?|withdrawals?)\b/.test(lowerQuery)) {
+      return 'transactions';
+    }
+
+    // On-chain wallet balance and UTXOs ("how much is confirmed vs unconfirmed")
+    if (/\b(wallet|on-?chain|utxos?|unconfirmed|confirmed)\b/.test(lowerQuery)) {
+      return 'wallet';
+    }
+
+    // Invoices and incoming funds ("unpaid invoices", "how much did I receive")
+    // Checked before payments since invoice queries often mention payment status
+    if (/\b(invoices?|receiv(e|ed|ing)|unpaid|incoming)\b/.test(lowerQuery)) {
+      return 'invoices';
+    }
+
+    // Outgoing payments ("what did I pay", "failed payments", "fees paid")
+    if (/\b(pay|paid|payments?)\b/.test(lowerQuery)) {
+      return 'payments';
+    }
+
+    // Remote nodes identified by alias or public key ("tell me about node ACINQ")
+    // Checked last since lookup phrases are also used for other domains
+    if (this.extractNodeTarget(query)) {
+      return 'nodes';
+    }
+
     return 'channels';
   }
 
@@ -98,6 +172,59 @@ export class RegexIntentParser implements IntentParserStrategy {
 
     // For channel domain
     if (domain === 'channels') {
+      // Check for channels that are still opening or closing
+      // Checked before liquidity since these queries often mention funds
+      if (/\b(pending|opening|closing|waiting close|spendable|matur(e|ity))\b/.test(lowerQuery)) {
+        return 'pending';
+      }
+
+      // Check for channels that have already been closed
+      if (/\b(closed|closures?|close types?|force[- ]?closes?)\b/.test(lowerQuery)) {
+        return 'closed';
+      }
+
+      // Check for changes over time ("how has my liquidity changed this month")
+      // Checked before the other operations since these queries mention what changed
+      if (
+        /\b(history|historical|trends?|trending|over time)\b|\b(has|have|did)\b.*\b(chang(e|ed)|grow|grown|shr[iu]nk)\b/.test(
+          lowerQuery
+        )
+      ) {
+        return 'history';
+      }
+
+      // Check for requests to plan circular rebalances
+      // Checked before health since both mention rebalancing
+      if (
+        /\b(circular rebalanc\w*|rebalanc(e|ing) plans?|(plan|suggest|propose)\w*\s+(\w+\s+)?rebalanc\w*)/.test(
+          lowerQuery
+        )
+      ) {
+        return 'rebalance';
+      }
+
+      // Check for requests to recommend new fees ("what fees should I set")
+      // Checked before fees since both mention fees
+      if (
+        /\b(recommend\w*|suggest\w*|propos\w*|optimi[sz]\w*)\b.*\b(fees?|fee rates?|ppm)\b|\b(fees?|fee rates?|ppm)\b.*\b(recommend\w*|should (i|we))\b/.test(
+          lowerQuery
+        )
+      ) {
+        return 'recommend';
+      }
+
+      // Check for the fees charged on channels ("what am I charging")
+      // Checked after rebalance planning since plans can be limited by fee
+      if (/\b(fees?|fee rates?|ppm|charg(e|es|ed|ing)|routing polic(y|ies))\b/.test(lowerQuery)) {
+        return 'fees';
+      }
+
+      // Check for channel health and rebalancing queries
+      // Checked before liquidity since these queries often mention balances
+      if (/\b(health|healthy|unhealthy|rebalanc(e|es|ed|ing))\b/.test(lowerQuery)) {
+        return 'health';
+      }
+
       // Check for liquidity-related queries
       if (
         lowerQuery.includes('liquidity') ||
@@ -109,11 +236,70 @@ export class RegexIntentParser implements IntentParserStrategy {
       }
 
       // All other channel queries are treated as list operations
-      // This includes previously "health"-related terms
       // Specific filtering is handled via attributes
       return 'list';
     }
 
+    // For payments domain
+    if (domain === 'payments') {
+      // Totals and fee questions are answered with a summary
+      if (/\b(total|how much|fees?|sum)\b/.test(lowerQuery)) {
+        return 'summary';
+      }
+
+      return 'list';
+    }
+
+    // For invoices domain
+    if (domain === 'invoices') {
+      // Totals and settle time questions are answered with a summary
+      if (/\b(total|how much|sum|average)\b/.test(lowerQuery)) {
+        return 'summary';
+      }
+
+      return 'list';
+    }
+
+    // For forwards domain
+    if (domain === 'forwards') {
+      // Revenue totals and rankings are answered with a summary
+      if (
+        /\b(total|how much|earn(s|ed|ing|ings)?|revenue|most|top|best|idle|rank(ed|ing)?)\b/.test(
+          lowerQuery
+        )
+      ) {
+        return 'summary';
+      }
+
+      return 'list';
+    }
+
+    // For wallet domain
+    if (domain === 'wallet') {
+      // Questions about individual outputs are answered with a list
+      if (/\b(utxos?|outputs?|coins?)\b/.test(lowerQuery)) {
+        return 'list';
+      }
+
+      return 'summary';
+    }
+
+    // For transactions domain
+    if (domain === 'transactions') {
+      // Totals are answered with a summary
+      if (/\b(total|how much|sum)\b/.test(lowerQuery)) {
+        return 'summary';
+      }
+
+      return 'list';
+    }
+
+    // Node lookups return the details of a single node, unless the query
+    // asks for nodes to open channels with
+    if (domain === 'nodes') {
+      return this.isChannelCandidateQuery(lowerQuery) ? 'recommend' : 'details';
+    }
+
     // Default to list for unknown domains
     return 'list';
   }
@@ -143,12 +329,342 @@ export class RegexIntentParser implements IntentParserStrategy {
         attributes.set('active', true);
       }
 
+      // Extract pending state filter for pending channel queries
+      if (operation === 'pending') {
+        const pendingState = this.extractPendingChannelState(lowerQuery);
+        if (pendingState) {
+          attributes.set('pendingState', pendingState);
+        }
+      }
+
+      // Extract close type filter for closed channel queries
+      if (operation === 'closed') {
+        const closeType = this.extractCloseType(lowerQuery);
+        if (closeType) {
+          attributes.set('closeType', closeType);
+        }
+      }
+
+      // Extract health criteria overrides for health and rebalance queries
+      if (operation === 'health' || operation === 'rebalance') {
+        this.extractHealthRatios(lowerQuery, attributes);
+      }
+
+      // Extract the strategy of fee recommendations
+      if (operation === 'recommend') {
+        const feeStrategy = this.extractFeeStrategy(lowerQuery);
+        if (feeStrategy) {
+          attributes.set('feeStrategy', feeStrategy);
+        }
+      }
+
+      // Extract amount, balance and imbalance filters of open channels
+      if (operation !== 'pending' && operation !== 'closed' && operation !== 'history') {
+        this.extractChannelFilters(lowerQuery, attributes);
+      }
+
       // Extract balance threshold for liquidity queries
       if (operation === 'liquidity' && lowerQuery.includes('imbalanced')) {
         attributes.set('checkBalance', true);
       }
     }
 
+    // Extract status filter for payments
+    if (domain === 'payments' && /\bfail(ed|ing|ures?)?\b/.test(lowerQuery)) {
+      attributes.set('status', 'failed');
+    }
+
+    // Extract state filter for invoices
+    if (domain === 'invoices') {
+      const state = this.extractInvoiceState(lowerQuery);
+      if (state) {
+        attributes.set('status', state);
+      }
+    }
+
+    // Extract connection filter for peers
+    if (domain === 'peers') {
+      if (/\b(no|without( a)?) channels?\b/.test(lowerQuery)) {
+        attributes.set('peerFilter', 'withoutChannel');
+      } else if (/\b(disconnected|offline)\b/.test(lowerQuery)) {
+        attributes.set('peerFilter', 'disconnected');
+      }
+    }
+
+    // Extract the number of channel candidates to recommend
+    if (domain === 'nodes' && operation === 'recommend') {
+      const limit = this.extractLimit(lowerQuery);
+      if (limit !== undefined) {
+        attributes.set('limit', limit);
+      }
+    }
+
+    // Extract the alias or public key of the node to look up
+    if (domain === 'nodes' && operation === 'details') {
+      const node = this.extractNodeTarget(query);
+      if (node) {
+        attributes.set('node', node);
+      }
+    }
+
+    // Extract time window filter for time-scoped domains and channel history
+    if (
+      (domain === 'channels' && operation === 'history') ||
+      domain === 'payments' ||
+      domain === 'invoices' ||
+      domain === 'forwards' ||
+      domain === 'transactions'
+    ) {
+      const window = this.timeExpressionParser.parse(lowerQuery);
+      if (window) {
+        attributes.set('from', new Date(window.from).toISOString());
+        attributes.set('to', new Date(window.to).toISOString());
+        attributes.set('timeLabel', window.label);
+      }
+    }
+
+    // Extract amount and count filters for on-chain domains
+    if (domain === 'wallet' || domain === 'transactions') {
+      const minAmount = this.extractMinAmount(lowerQuery);
+      if (minAmount !== undefined) {
+        attributes.set('minAmount', minAmount);
+      }
+
+      const limit = this.extractLimit(lowerQuery);
+      if (limit !== undefined) {
+        attributes.set('limit', limit);
+      }
+    }
+
     return attributes;
   }
+
+  /**
+   * Extract an invoice state filter from a query
+   * @param lowerQuery The lowercased query to analyze
+   * @returns The invoice state mentioned in the query, if any
+   * @private
+   */
+  private extractInvoiceState(lowerQuery: string): InvoiceState | undefined {
+    // Check unpaid-style terms first since 'unpaid' contains 'paid'
+    if (/\b(unpaid|open|pending|outstanding|unsettled)\b/.test(lowerQuery)) {
+      return 'open';
+    }
+    if (/\bexpired?\b/.test(lowerQuery)) {
+      return 'expired';
+    }
+    if (/\bcancell?ed\b/.test(lowerQuery)) {
+      return 'canceled';
+    }
+    if (/\b(settled|paid)\b/.test(lowerQuery)) {
+      return 'settled';
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract a pending channel state filter from a query
+   * @param lowerQuery The lowercased query to analyze
+   * @returns The pending channel state mentioned in the query, if any
+   * @private
+   */
+  private extractPendingChannelState(lowerQuery: string): PendingChannelState | undefined {
+    // Check force closes first since 'force closing' contains 'closing'
+    if (/\b(force[- ]?clos(e|ed|ing)|spendable|matur(e|ity))\b/.test(lowerQuery)) {
+      return 'force_closing';
+    }
+    if (/\bwaiting close\b/.test(lowerQuery)) {
+      return 'waiting_close';
+    }
+    if (/\bclosing\b/.test(lowerQuery)) {
+      return 'closing';
+    }
+    if (/\bopening\b/.test(lowerQuery)) {
+      return 'opening';
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract a channel close type filter from a query
+   * @param lowerQuery The lowercased query to analyze
+   * @returns The close type mentioned in the query, if any
+   * @private
+   */
+  private extractCloseType(lowerQuery: string): ClosedChannelType | undefined {
+    if (/\b(coop(erative(ly)?)?|mutual(ly)?)\b/.test(lowerQuery)) {
+      return 'cooperative';
+    }
+    if (/\bbreach(es|ed)?\b/.test(lowerQuery)) {
+      return 'breach';
+    }
+    if (
+      /\b(remote|peers?|partners?)[- ]force|force[- ]?closed by (the |my |a )?(remote|peers?|partners?)\b/.test(
+        lowerQuery
+      )
+    ) {
+      return 'remote_force';
+    }
+    if (
+      /\blocal[- ]force|force[- ]?closed by (me|us)\b|\b(we|i) force[- ]?closed\b/.test(lowerQuery)
+    ) {
+      return 'local_force';
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract the strategy of fee recommendations from a query
+   * @param lowerQuery The lowercased query to analyze
+   * @returns The fee strategy mentioned in the query, if any
+   * @private
+   */
+  private extractFeeStrategy(lowerQuery: string): FeeStrategy | undefined {
+    if (
+      /\b(drain\w*|protect\w*|preserve|keep (my |our )?(outbound |local )?liquidity)\b/.test(
+        lowerQuery
+      )
+    ) {
+      return 'drain-protecting';
+    }
+    if (/\b(volume|more traffic|attract\w*|undercut\w*|competitive)\b/.test(lowerQuery)) {
+      return 'volume-seeking';
+    }
+    if (/\bbalanced\b/.test(lowerQuery)) {
+      return 'balanced';
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract overrides of the local balance ratios of healthy channels from a
+   * query, e.g. "between 30% and 70%" or "min local ratio 0.25"
+   * @param lowerQuery The lowercased query to analyze
+   * @param attributes The attributes to add the ratios to
+   * @private
+   */
+  private extractHealthRatios(lowerQuery: string, attributes: Map<string, unknown>): void {
+    // Ratios are given as fractions or percentages
+    const toRatio = (value: string, percent: string): number =>
+      percent || parseFloat(value) > 1 ? parseFloat(value) / 100 : parseFloat(value);
+
+    const range = lowerQuery.match(
+      /\bbetween (\d+(?:\.\d+)?)\s*(%?) ?(?:and|to|-) ?(\d+(?:\.\d+)?)\s*(%?)/
+    );
+    if (range) {
+      attributes.set('healthMinLocalRatio', toRatio(range[1], range[2] || range[4]));
+      attributes.set('healthMaxLocalRatio', toRatio(range[3], range[4]));
+      return;
+    }
+
+    const ratioPattern = '(?: local)?(?: balance)?(?: ratio)?(?: of)? (\\d+(?:\\.\\d+)?)\\s*(%?)';
+    const min = lowerQuery.match(new RegExp(`\\bmin(?:imum)?${ratioPattern}`));
+    if (min) {
+      attributes.set('healthMinLocalRatio', toRatio(min[1], min[2]));
+    }
+    const max = lowerQuery.match(new RegExp(`\\bmax(?:imum)?${ratioPattern}`));
+    if (max) {
+      attributes.set('healthMaxLocalRatio', toRatio(max[1], max[2]));
+    }
+  }
+
+  /**
+   * Extract filters of open channels from comparisons in a query, e.g.
+   * "bigger than 5M sats", "local balance under 0.01 BTC", "more than 80%
+   * local" or "imbalance worse than 80/20"
+   * @param lowerQuery The lowercased query to analyze
+   * @param attributes The attributes to add the filters to
+   * @private
+   */
+  private extractChannelFilters(lowerQuery: string, attributes: Map<string, unknown>): void {
+    const comparisons = this.amountExpressionParser.parse(lowerQuery);
+    // Share of the other side, rounded to avoid floating point noise such as 0.30000000000000004
+    const complement = (ratio: number): number => Math.round((1 - ratio) * 10000) / 10000;
+
+    for (const { bound, kind, value, subject } of comparisons) {
+      const isMin = bound === 'min';
+      const isRemote = /\b(remote|inbound)\b/.test(subject);
+
+      if (kind === 'split' || (kind === 'ratio' && /\b(imbalanced?|skew(ed)?)\b/.test(subject))) {
+        // Imbalance is the share of the fuller side, at least a half
+        attributes.set(isMin ? 'minImbalance' : 'maxImbalance', Math.max(value, complement(value)));
+      } else if (kind === 'ratio') {
+        // A bound on the remote share is the opposite bound on the local share
+        const isLocalMin = isRemote ? !isMin : isMin;
+        attributes.set(
+          isLocalMin ? 'minLocalRatio' : 'maxLocalRatio',
+          isRemote ? complement(value) : value
+        );
+      } else if (isRemote) {
+        attributes.set(isMin ? 'minRemoteBalance' : 'maxRemoteBalance', value);
+      } else if (/\b(local|outbound|balances?|liquidity)\b/.test(subject)) {
+        attributes.set(isMin ? 'minLocalBalance' : 'maxLocalBalance', value);
+      } else {
+        attributes.set(isMin ? 'minCapacity' : 'maxCapacity', value);
+      }
+    }
+  }
+
+  /**
+   * Extract a minimum amount in satoshis from a query ("over 1M sats", "above 0.5 BTC")
+   * @param lowerQuery The lowercased query to analyze
+   * @returns The minimum amount in satoshis, if any
+   * @private
+   */
+  private extractMinAmount(lowerQuery: string): number | undefined {
+    return this.amountExpressionParser
+      .parse(lowerQuery)
+      .find(({ bound, kind }) => bound === 'min' && kind === 'amount')?.value;
+  }
+
+  /**
+   * Extract a result count from a query ("last 10", "latest 5")
+   * @param lowerQuery The lowercased query to analyze
+   * @returns The number of results requested, if any
+   * @private
+   */
+  private extractLimit(lowerQuery: string): number | undefined {
+    // "last 7 days" is a time window rather than a count
+    const match = lowerQuery.match(
+      /\b(?:last|latest|recent|top|first)\s+(\d+)\b(?!\s+(?:hours?|days?|weeks?|months?|years?)\b)/
+    );
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  /**
+   * Check whether a query asks for nodes to open new channels with
+   * ("who should I open a channel with", "suggest peers to connect to")
+   * @param lowerQuery The lowercased query to analyze
+   * @returns True if the query asks for channel candidates
+   * @private
+   */
+  private isChannelCandidateQuery(lowerQuery: string): boolean {
+    return /\b(who|which (nodes?|peers?))\b.*\bshould (i|we) (open|connect)\b|\bchannel candidates?\b|\b(recommend|suggest)\w*\b.*\b(nodes?|peers?) to (open|connect)|\b(good|best) (nodes?|peers?) to (open|connect)/.test(
+      lowerQuery
+    );
+  }
+
+  /**
+   * Extract the alias or public key of a remote node from a query
+   * @param query The original query, preserving the case of the alias
+   * @returns The node alias or public key, if any
+   * @private
+   */
+  private extractNodeTarget(query: string): string | undefined {
+    const pubkey = query.match(/\b0[23][0-9a-f]{64}\b/i);
+    if (pubkey) {
+      return pubkey[0];
+    }
+
+    const match = query.match(
+      /\b(?:tell me about|who is|look ?up|find|(?:info(?:rmation)?|details) (?:about|on|for))\s+(?:the\s+)?(?:node\s+)?(?:(?:named|called|with alias)\s+)?["']?([^"'?]+?)["']?\s*[?.!]?\s*$/i
+    );
+    if (!match) {
+      return undefined;
+    }
+
+    // Questions about the user's own data belong to other domains
+    const target = match[1].trim();
+    return /^(my|our|me|all)\b/i.test(target) ? undefined : target;
+  }
 }
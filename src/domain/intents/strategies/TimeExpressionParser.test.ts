@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Tests for TimeExpressionParser
+ */
+
+import { TimeExpressionParser } from './TimeExpressionParser';
+
+describe('TimeExpressionParser', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  // Friday, March 15, 2024, 1 pm in Berlin
+  const now = new Date('2024-03-15T12:00:00.000Z');
+  const parser = new TimeExpressionParser('Europe/Berlin');
+
+  const parse = (query: string) => {
+    const window = parser.parse(query, now);
+    return (
+      window && {
+        from: new Date(window.from).toISOString(),
+        to: new Date(window.to).toISOString(),
+        label: window.label,
+      }
+    );
+  };
+
+  test('should parse rolling windows ending now', () => {
+    expect(parse('payments of the last 7 days')).toEqual({
+      from: '2024-03-08T12:00:00.000Z',
+      to: '2024-03-15T12:00:00.000Z',
+      label: 'in the last 7 days',
+    });
+    expect(parse('forwards in the past 24 hours')?.label).toBe('in the last 24 hours');
+    expect(parse('what did i earn last week')?.label).toBe('in the last 7 days');
+    expect(parse('how did my balance change over the last month')?.label).toBe(
+      'in the last 30 days'
+    );
+  });
+
+  test('should parse days and calendar periods from midnight in the time zone', () => {
+    expect(parse('what did i receive yesterday')).toEqual({
+      from: '2024-03-13T23:00:00.000Z',
+      to: '2024-03-14T23:00:00.000Z',
+      label: 'yesterday',
+    });
+    expect(parse('payments today')?.from).toBe('2024-03-14T23:00:00.000Z');
+    expect(parse('fees paid this week')?.from).toBe('2024-03-10T23:00:00.000Z');
+    expect(parse('what did i earn this month')).toEqual({
+      from: '2024-02-29T23:00:00.000Z',
+      to: '2024-03-15T12:00:00.000Z',
+      label: 'this month',
+    });
+  });
+
+  test('should parse dates with and without a year', () => {
+    expect(parse('payments since march 1')).toEqual({
+      from: '2024-02-29T23:00:00.000Z',
+      to: '2024-03-15T12:00:00.000Z',
+      label: 'since March 1, 2024',
+    });
+    // Dates still to come this year refer to last year
+    expect(parse('invoices since dec 24th')?.from).toBe('2023-12-23T23:00:00.000Z');
+    expect(parse('forwards since 2024-01-15')?.from).toBe('2024-01-14T23:00:00.000Z');
+    expect(parse('payments on 5 march')).toEqual({
+      from: '2024-03-04T23:00:00.000Z',
+      to: '2024-03-05T23:00:00.000Z',
+      label: 'on March 5, 2024',
+    });
+    expect(parse('what did i earn in february')).toEqual({
+      from: '2024-01-31T23:00:00.000Z',
+      to: '2024-02-29T23:00:00.000Z',
+      label: 'in February 2024',
+    });
+  });
+
+  test('should parse ranges including their last day', () => {
+    expect(parse('payments between march 1 and march 5')).toEqual({
+      from: '2024-02-29T23:00:00.000Z',
+      to: '2024-03-05T23:00:00.000Z',
+      label: 'between March 1, 2024 and March 5, 2024',
+    });
+    expect(parse('forwards from 2024-03-10 to today')).toEqual({
+      from: '2024-03-09T23:00:00.000Z',
+      to: '2024-03-15T12:00:00.000Z',
+      label: 'between March 10, 2024 and March 15, 2024',
+    });
+  });
+
+  test('should follow daylight saving time changes', () => {
+    const summer = parser.parse('payments since march 31', new Date('2024-04-02T12:00:00.000Z'));
+    expect(new Date(summer?.from ?? 0).toISOString()).toBe('2024-03-30T23:00:00.000Z');
+
+    const yesterday = parser.parse('yesterday', new Date('2024-04-01T12:00:00.000Z'));
+    expect((yesterday?.to ?? 0) - (yesterday?.from ?? 0)).toBe(DAY_MS - 60 * 60 * 1000);
+  });
+
+  test('should ignore queries without a time expression', () => {
+    expect(parse('show my last 10 payments')).toBeUndefined();
+    expect(parse('show failed payments')).toBeUndefined();
+  });
+});
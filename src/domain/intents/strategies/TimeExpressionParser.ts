@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Parser of time expressions in queries.
+ *
+ * Turns expressions such as "last 7 days", "yesterday", "since March 1",
+ * "this month" or "between March 1 and March 5" into concrete time windows.
+ * Days, weeks, months and years start at midnight in the configured time
+ * zone, so "yesterday" means the user's yesterday rather than the server's.
+ */
+
+import { TimeWindow } from '../entities/TimePeriod';
+
+/**
+ * Calendar date in the time zone of the parser
+ */
+interface CalendarDate {
+  year: number;
+  /** Month from 1 (January) to 12 (December) */
+  month: number;
+  day: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Length of the units of rolling windows ("last 3 weeks"); months and years
+ * are rounded to days, like the windows handlers default to
+ */
+const UNIT_MS: Record<string, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS,
+};
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const MONTH_PATTERN =
+  '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+/**
+ * Dates in queries: "2024-03-01", "March 1", "Mar 1st, 2024", "1 March 2024",
+ * "today" or "yesterday"
+ */
+const DATE_PATTERN = `(?:\\d{4}-\\d{2}-\\d{2}|${MONTH_PATTERN}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+\\d{4})?|today|yesterday)`;
+
+const RANGE_REGEX = new RegExp(
+  `\\b(?:between|from)\\s+(${DATE_PATTERN})\\s+(?:and|to|until|till)\\s+(${DATE_PATTERN})\\b`
+);
+const SINCE_REGEX = new RegExp(`\\b(?:since|after)\\s+(${DATE_PATTERN})\\b`);
+const ON_REGEX = new RegExp(`\\bon\\s+(${DATE_PATTERN})\\b`);
+const MONTH_REGEX = new RegExp(
+  `\\b(?:in|during)\\s+(${MONTH_PATTERN})(?:,?\\s+(\\d{4}))?\\b(?!\\s+\\d{1,2}\\b)`
+);
+
+/**
+ * Parses time expressions into time windows in a time zone
+ */
+export class TimeExpressionParser {
+  private readonly formatter: Intl.DateTimeFormat;
+
+  /**
+   * Create a new time expression parser
+   * @param timeZone IANA time zone dates are interpreted in (defaults to the system time zone)
+   */
+  constructor(timeZone?: string) {
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+  }
+
+  /**
+   * Parse the time window a query refers to
+   * @param lowerQuery The lowercased query to analyze
+   * @param now The reference time (defaults to the current time)
+   * @returns The time window mentioned in the query, if any
+   */
+  parse(lowerQuery: string, now: Date = new Date()): TimeWindow | undefined {
+    const time = now.getTime();
+    const today = this.toCalendarDate(time);
+
+    const range = lowerQuery.match(RANGE_REGEX);
+    if (range) {
+      const [first, second] = [range[1], range[2]]
+        .map((text) => this.parseDate(text, today))
+        .sort((a, b) => this.startOfDay(a) - this.startOfDay(b));
+
+      return {
+        from: this.startOfDay(first),
+        to: Math.min(this.startOfDay(addDays(second, 1)), time),
+        label: `between ${formatDate(first)} and ${formatDate(second)}`,
+      };
+    }
+
+    const since = lowerQuery.match(SINCE_REGEX);
+    if (since) {
+      const date = this.parseDate(since[1], today);
+      return { from: this.startOfDay(date), to: time, label: `since ${formatDate(date)}` };
+    }
+
+    const on = lowerQuery.match(ON_REGEX);
+    if (on) {
+      const date = this.parseDate(on[1], today);
+      return this.dayWindow(date, `on ${formatDate(date)}`);
+    }
+
+    const month = lowerQuery.match(MONTH_REGEX);
+    if (month) {
+      const monthIndex = MONTHS.findIndex((name) => name.startsWith(month[1]));
+      let year = month[2] ? parseInt(month[2], 10) : today.year;
+      if (!month[2] && monthIndex + 1 > today.month) {
+        year -= 1;
+      }
+      const first = { year, month: monthIndex + 1, day: 1 };
+
+      return {
+        from: this.startOfDay(first),
+        to: Math.min(this.startOfDay({ year, month: monthIndex + 2, day: 1 }), time),
+        label: `in ${MONTHS[monthIndex].replace(/^./, (c) => c.toUpperCase())} ${year}`,
+      };
+    }
+
+    const rolling = lowerQuery.match(
+      /\b(?:last|past|previous)\s+(\d+)\s+(hour|day|week|month|year)s?\b/
+    );
+    if (rolling) {
+      const count = parseInt(rolling[1], 10);
+      const unit = rolling[2];
+      return {
+        from: time - count * UNIT_MS[unit],
+        to: time,
+        label: `in the last ${count === 1 ? unit : `${count} ${unit}s`}`,
+      };
+    }
+
+    if (/\byesterday\b/.test(lowerQuery)) {
+      return this.dayWindow(addDays(today, -1), 'yesterday');
+    }
+
+    if (/\btoday\b/.test(lowerQuery)) {
+      return { from: this.startOfDay(today), to: time, label: 'today' };
+    }
+
+    const current = lowerQuery.match(/\bthis (week|month|year)\b/);
+    if (current) {
+      return { from: this.startOfDay(startOf(current[1], today)), to: time, label: current[0] };
+    }
+
+    // Remaining mentions of a unit ("last week", "past month", "per day") are rolling windows
+    if (/\b(24 hours|day)\b/.test(lowerQuery)) {
+      return { from: time - DAY_MS, to: time, label: 'in the last 24 hours' };
+    }
+    if (/\bweek\b/.test(lowerQuery)) {
+      return { from: time - UNIT_MS.week, to: time, label: 'in the last 7 days' };
+    }
+    if (/\bmonth\b/.test(lowerQuery)) {
+      return { from: time - UNIT_MS.month, to: time, label: 'in the last 30 days' };
+    }
+    if (/\byear\b/.test(lowerQuery)) {
+      return { from: time - UNIT_MS.year, to: time, label: 'in the last 365 days' };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse a date matched by the date pattern
+   * @param text The matched date
+   * @param today Today's date, used for relative dates and dates without a year
+   * @returns The calendar date; dates without a year are the last such date up to today
+   * @private
+   */
+  private parseDate(text: string, today: CalendarDate): CalendarDate {
+    if (text === 'today') {
+      return today;
+    }
+    if (text === 'yesterday') {
+      return addDays(today, -1);
+    }
+
+    const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (iso) {
+      return { year: parseInt(iso[1], 10), month: parseInt(iso[2], 10), day: parseInt(iso[3], 10) };
+    }
+
+    const monthName = text.match(new RegExp(MONTH_PATTERN))?.[0] || '';
+    const [day, year] = (text.match(/\d+/g) || []).map((number) => parseInt(number, 10));
+    const month = MONTHS.findIndex((name) => name.startsWith(monthName)) + 1;
+
+    if (year !== undefined) {
+      return { year, month, day };
+    }
+
+    const date = { year: today.year, month, day };
+    return toDayNumber(date) > toDayNumber(today) ? { ...date, year: today.year - 1 } : date;
+  }
+
+  /**
+   * Get the window covering a whole day
+   * @param date The day
+   * @param label Description of the window
+   * @returns The window from midnight to midnight
+   * @private
+   */
+  private dayWindow(date: CalendarDate, label: string): TimeWindow {
+    return { from: this.startOfDay(date), to: this.startOfDay(addDays(date, 1)), label };
+  }
+
+  /**
+   * Get the calendar date of a time in the time zone
+   * @param time Milliseconds since the epoch
+   * @returns The calendar date
+   * @private
+   */
+  private toCalendarDate(time: number): CalendarDate {
+    const { year, month, day } = this.getParts(time);
+    return { year, month, day };
+  }
+
+  /**
+   * Get the time of midnight at the start of a date in the time zone
+   * @param date The calendar date
+   * @returns Milliseconds since the epoch
+   * @private
+   */
+  private startOfDay(date: CalendarDate): number {
+    const midnight = Date.UTC(date.year, date.month - 1, date.day);
+    const guess = midnight - this.getOffset(midnight);
+    // The offset at midnight differs from the guess's when daylight saving time changes in between
+    return midnight - this.getOffset(guess);
+  }
+
+  /**
+   * Get the offset of the time zone from UTC at a time
+   * @param time Milliseconds since the epoch
+   * @returns Milliseconds the local time is ahead of UTC
+   * @private
+   */
+  private getOffset(time: number): number {
+    const { year, month, day, hour, minute, second } = this.getParts(time);
+    const local = Date.UTC(year, month - 1, day, hour, minute, second);
+    return local - Math.floor(time / 1000) * 1000;
+  }
+
+  /**
+   * Get the local date and time parts of a time in the time zone
+   * @param time Milliseconds since the epoch
+   * @returns The numeric date and time parts
+   * @private
+   */
+  private getParts(time: number): Record<Intl.DateTimeFormatPartTypes, number> {
+    const parts = {} as Record<Intl.DateTimeFormatPartTypes, number>;
+    this.formatter.formatToParts(time).forEach(({ type, value }) => {
+      parts[type] = parseInt(value, 10);
+    });
+    return parts;
+  }
+}
+
+/**
+ * Add days to a calendar date
+ * @param date The calendar date
+ * @param days Number of days to add, negative to subtract
+ * @returns The resulting calendar date
+ */
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Get the first day of the week (starting on Monday), month or year of a date
+ * @param unit The calendar unit
+ * @param date The calendar date
+ * @returns The first day of the unit
+ */
+function startOf(unit: string, date: CalendarDate): CalendarDate {
+  if (unit === 'year') {
+    return { year: date.year, month: 1, day: 1 };
+  }
+  if (unit === 'month') {
+    return { ...date, day: 1 };
+  }
+
+  const weekday = new Date(toDayNumber(date) * DAY_MS).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+/**
+ * Count the days of a calendar date since the epoch, to compare dates
+ * @param date The calendar date
+ * @returns Number of days since January 1, 1970
+ */
+function toDayNumber(date: CalendarDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / DAY_MS;
+}
+
+/**
+ * Format a calendar date for labels, e.g. "March 1, 2024"
+ * @param date The calendar date
+ * @returns The formatted date
+ */
+function formatDate(date: CalendarDate): string {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Zod schema definition for Lightning Network invoices.
+ *
+ * This file defines invoice-related schemas that are used for both runtime
+ * validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for the lifecycle state of an invoice
+ */
+export const InvoiceStateSchema = z.enum(['settled', 'open', 'expired', 'canceled']);
+
+/**
+ * Schema for an invoice created by the node
+ */
+export const InvoiceSchema = z.object({
+  id: z.string(),
+  tokens: z.number(),
+  received: z.number(),
+  state: InvoiceStateSchema,
+  description: z.string().optional(),
+  created_at: z.string(),
+  expires_at: z.string().optional(),
+  confirmed_at: z.string().optional(),
+});
+
+/**
+ * Type for invoice state
+ */
+export type InvoiceState = z.infer<typeof InvoiceStateSchema>;
+
+/**
+ * Type for invoice data structure
+ */
+export type InvoiceData = z.infer<typeof InvoiceSchema>;
+
+/**
+ * Schema of the result of an invoice query, without its formatted text
+ */
+export const InvoiceQueryResultSchema = z.object({
+  invoices: z.array(InvoiceSchema),
+  summary: z.object({
+    totalInvoices: z.number(),
+    totalReceived: z.number(),
+    countByState: z.object({
+      settled: z.number(),
+      open: z.number(),
+      expired: z.number(),
+      canceled: z.number(),
+    }),
+    averageSettleTimeSeconds: z.number().optional(),
+    state: InvoiceStateSchema.optional(),
+    period: z
+      .object({
+        from: z.string(),
+        to: z.string(),
+        label: z.string(),
+      })
+      .optional(),
+  }),
+});
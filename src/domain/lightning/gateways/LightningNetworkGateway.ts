@@ -7,7 +7,18 @@
  * over different connection mechanisms.
  */
 
-import { ChannelData } from '../../channels/entities/Channel';
+import {
+  ChannelData,
+  ClosedChannelData,
+  PendingChannelData,
+} from '../../channels/entities/Channel';
+import { PaymentData } from '../../payments/entities/Payment';
+import { InvoiceData } from '../../invoices/entities/Invoice';
+import { ForwardData } from '../../forwards/entities/Forward';
+import { ChainBalanceData, UtxoData } from '../../wallet/entities/Wallet';
+import { ChainTransactionData } from '../../transactions/entities/Transaction';
+import { PeerData } from '../../peers/entities/Peer';
+import { GraphChannelData, GraphNodeData, NodeDetailsData } from '../../nodes/entities/Node';
 import { NodeInfo } from '../../node/NodeInfo';
 import { LightningNodeConnection } from '../../node/LightningNodeConnection';
 
@@ -16,7 +27,8 @@ import { LightningNodeConnection } from '../../node/LightningNodeConnection';
  *
  * This interface abstracts the specifics of different Lightning Network
  * connection methods (LND direct, LNC) behind a consistent interface.
- * It provides access to channel data and node information.
+ * It provides access to channel, payment, invoice, forwarding, on-chain wallet,
+ * peer and node information.
  */
 export interface LightningNetworkGateway {
   /**
@@ -26,6 +38,99 @@ export interface LightningNetworkGateway {
    */
   getChannels(): Promise<ChannelData[]>;
 
+  /**
+   * Retrieve channels that are still opening or not yet fully closed
+   * @returns Promise resolving to array of pending channel data
+   * @throws Error if retrieval fails
+   */
+  getPendingChannels(): Promise<PendingChannelData[]>;
+
+  /**
+   * Retrieve channels that have been closed
+   * @returns Promise resolving to array of closed channel data
+   * @throws Error if retrieval fails
+   */
+  getClosedChannels(): Promise<ClosedChannelData[]>;
+
+  /**
+   * Retrieve all successful outgoing payments from the Lightning Network node
+   * @returns Promise resolving to array of payment data
+   * @throws Error if retrieval fails
+   */
+  getPayments(): Promise<PaymentData[]>;
+
+  /**
+   * Retrieve all failed outgoing payments from the Lightning Network node
+   * @returns Promise resolving to array of payment data
+   * @throws Error if retrieval fails
+   */
+  getFailedPayments(): Promise<PaymentData[]>;
+
+  /**
+   * Retrieve all invoices created by the Lightning Network node
+   * @returns Promise resolving to array of invoice data
+   * @throws Error if retrieval fails
+   */
+  getInvoices(): Promise<InvoiceData[]>;
+
+  /**
+   * Retrieve payments forwarded by the Lightning Network node
+   * @param window Optional ISO 8601 time window to restrict the forwards to
+   * @returns Promise resolving to array of forward data
+   * @throws Error if retrieval fails
+   */
+  getForwards(window?: { after: string; before: string }): Promise<ForwardData[]>;
+
+  /**
+   * Retrieve the confirmed and unconfirmed on-chain wallet balance
+   * @returns Promise resolving to the on-chain balance
+   * @throws Error if retrieval fails
+   */
+  getChainBalance(): Promise<ChainBalanceData>;
+
+  /**
+   * Retrieve the unspent transaction outputs held by the on-chain wallet
+   * @returns Promise resolving to array of UTXO data
+   * @throws Error if retrieval fails
+   */
+  getUtxos(): Promise<UtxoData[]>;
+
+  /**
+   * Retrieve the on-chain transactions relevant to the wallet
+   * @returns Promise resolving to array of chain transaction data
+   * @throws Error if retrieval fails
+   */
+  getChainTransactions(): Promise<ChainTransactionData[]>;
+
+  /**
+   * Retrieve the peers currently connected to the Lightning Network node
+   * @returns Promise resolving to array of peer data
+   * @throws Error if retrieval fails
+   */
+  getPeers(): Promise<PeerData[]>;
+
+  /**
+   * Retrieve all nodes known in the Lightning Network graph
+   * @returns Promise resolving to array of graph node data
+   * @throws Error if retrieval fails
+   */
+  getNetworkGraphNodes(): Promise<GraphNodeData[]>;
+
+  /**
+   * Retrieve all public channels known in the Lightning Network graph
+   * @returns Promise resolving to array of graph channel data
+   * @throws Error if retrieval fails
+   */
+  getNetworkGraphChannels(): Promise<GraphChannelData[]>;
+
+  /**
+   * Retrieve detailed information about a remote node, including its channels
+   * @param pubkey The public key of the node
+   * @returns Promise resolving to node details or undefined if the node is unknown
+   * @throws Error if retrieval fails
+   */
+  getNodeDetails(pubkey: string): Promise<NodeDetailsData | undefined>;
+
   /**
    * Retrieve information about a specific node by public key
    * @param pubkey The public key of the node
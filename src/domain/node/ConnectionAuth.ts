@@ -8,8 +8,7 @@
 /**
  * Supported Lightning Network node implementations.
  *
- * Note: Currently, only LND is implemented. Other implementations
- * are defined here for type safety but will throw an error if used.
+ * Note: LND, Core Lightning and Eclair are implemented.
  */
 export enum NodeImplementation {
   /**
@@ -20,15 +19,13 @@ export enum NodeImplementation {
 
   /**
    * Core Lightning (CLN) implementation.
-   * Status: Not yet implemented.
-   * @todo Implement CLN support
+   * Status: Implemented over the clnrest plugin.
    */
   CLN = 'cln',
 
   /**
    * Eclair implementation.
-   * Status: Not yet implemented.
-   * @todo Implement Eclair support
+   * Status: Implemented over the Eclair HTTP API.
    */
   ECLAIR = 'eclair',
 }
@@ -46,6 +43,21 @@ export enum ConnectionMethod {
    * Lightning Node Connect (used with LND)
    */
   LNC = 'lnc',
+
+  /**
+   * REST API (used with LND)
+   */
+  REST = 'rest',
+
+  /**
+   * REST API of the clnrest plugin (used with CLN)
+   */
+  CLN_REST = 'clnrest',
+
+  /**
+   * Password-authenticated HTTP API (used with Eclair)
+   */
+  ECLAIR_HTTP = 'eclair-http',
 }
 
 /**
@@ -74,11 +86,61 @@ export interface LndGrpcDetails extends ConnectionDetails {
  */
 export interface LndLncDetails extends ConnectionDetails {
   method: ConnectionMethod.LNC;
+  /** Mailbox address relaying the session, e.g. mailbox.terminal.lightning.today:443 */
   connectionString: string;
+  /** Pairing phrase, only needed until the session keys are stored */
   pairingPhrase?: string;
+  /** File storing the session keys between restarts */
+  credentialsPath?: string;
+  /** Name of the node, selecting its default credentials file */
+  nodeName?: string;
+}
+
+/**
+ * Connection details for REST connections to LND.
+ */
+export interface LndRestDetails extends ConnectionDetails {
+  method: ConnectionMethod.REST;
+  /** Base URL of the REST API, e.g. https://localhost:8080 */
+  url: string;
+  /** Path of the macaroon file, unless the macaroon is given hex encoded */
+  macaroonPath?: string;
+  /** Hex encoded macaroon, unless it is read from a file */
+  macaroonHex?: string;
+  /** Optional certificate pinned to verify the server, e.g. LND's tls.cert */
+  tlsCertPath?: string;
+}
+
+/**
+ * Connection details for clnrest connections to CLN.
+ */
+export interface ClnRestDetails extends ConnectionDetails {
+  method: ConnectionMethod.CLN_REST;
+  /** Base URL of the clnrest server, e.g. https://localhost:3010 */
+  url: string;
+  /** Rune authorizing the RPC methods used by the server */
+  rune: string;
+  /** Optional CA certificate used to verify clnrest's self-signed certificate */
+  caCertPath?: string;
+}
+
+/**
+ * Connection details for HTTP API connections to Eclair.
+ */
+export interface EclairHttpDetails extends ConnectionDetails {
+  method: ConnectionMethod.ECLAIR_HTTP;
+  /** Base URL of the Eclair API, e.g. http://localhost:8080 */
+  url: string;
+  /** API password configured with eclair.api.password */
+  password: string;
 }
 
 /**
  * Union type of all supported connection details.
  */
-export type SupportedConnectionDetails = LndGrpcDetails | LndLncDetails;
+export type SupportedConnectionDetails =
+  | LndGrpcDetails
+  | LndLncDetails
+  | LndRestDetails
+  | ClnRestDetails
+  | EclairHttpDetails;
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Registry of the nodes served by the server.
+ *
+ * Keeps the connection, gateway and domain handlers of each configured node
+ * by name, so queries can be routed to one node or run on all of them.
+ */
+
+import { LightningNodeConnection } from './LightningNodeConnection';
+import { LightningNetworkGateway } from '../lightning/gateways/LightningNetworkGateway';
+import { DomainHandlerRegistry } from '../handlers/DomainHandlerRegistry';
+import { LightningErrorCode, QueryError } from '../errors/LightningErrors';
+import logger from '../../core/logging/logger';
+
+/**
+ * Node name reserved for querying all nodes at once
+ */
+export const ALL_NODES = 'all';
+
+/**
+ * Name given to the node of a single node configuration
+ */
+export const DEFAULT_NODE_NAME = 'default';
+
+/**
+ * A node served by the server
+ */
+export interface RegisteredNode {
+  /** Name the node is selected by */
+  name: string;
+  connection: LightningNodeConnection;
+  gateway: LightningNetworkGateway;
+  /** Domain handlers querying the node's gateway */
+  handlers: DomainHandlerRegistry;
+}
+
+/**
+ * Registry of named nodes
+ */
+export class NodeRegistry {
+  private nodes = new Map<string, RegisteredNode>();
+
+  /**
+   * Register a node. The first registered node is the default node.
+   * @param node The node to register
+   * @throws Error if a node with the same name is already registered
+   */
+  register(node: RegisteredNode): void {
+    if (this.nodes.has(node.name) || node.name === ALL_NODES) {
+      throw new Error(`Node name already in use: ${node.name}`);
+    }
+
+    logger.debug(`Registering node: ${node.name}`, {
+      component: 'node-registry',
+      node: node.name,
+    });
+
+    this.nodes.set(node.name, node);
+  }
+
+  /**
+   * Get a node by name
+   * @param name Name of the node, or undefined for the default node
+   * @returns The node
+   * @throws QueryError if no node has the given name
+   */
+  getNode(name?: string): RegisteredNode {
+    const node = name === undefined ? this.nodes.values().next().value : this.nodes.get(name);
+
+    if (!node) {
+      throw new QueryError(
+        name === undefined
+          ? 'No nodes are configured'
+          : `Unknown node: ${name}. Available nodes: ${[...this.getNames(), ALL_NODES].join(', ')}`,
+        { code: LightningErrorCode.INVALID_QUERY, metadata: { node: name } }
+      );
+    }
+
+    return node;
+  }
+
+  /**
+   * Get all nodes
+   * @returns The nodes in registration order
+   */
+  getNodes(): RegisteredNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Get the names of all nodes
+   * @returns The node names in registration order, starting with the default node
+   */
+  getNames(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+}
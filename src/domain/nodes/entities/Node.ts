@@ -0,0 +1,26 @@
+/**
+ * Type definitions for nodes in the Lightning Network graph.
+ *
+ * Types are derived from the Zod schemas to keep runtime validation
+ * and compile-time type checking consistent.
+ */
+
+export {
+  GraphChannelData,
+  GraphNodeData,
+  NodeChannelData,
+  NodeDetailsData,
+  NodeFeatureData,
+} from '../schemas/node';
+
+/**
+ * Channel-opening candidate types from schema definition.
+ *
+ * Parameters of a recommendation of nodes to open channels with, and the
+ * scored candidates.
+ */
+export {
+  ChannelCandidateData,
+  ChannelCandidateParams,
+  ChannelCandidateScores,
+} from '../schemas/channel-candidate';
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Zod schema definitions for channel-opening candidates.
+ *
+ * This file defines the parameters of a recommendation of nodes to open
+ * channels with, applied by NodeDomainHandler as intent attributes, and the
+ * scored candidates it returns.
+ */
+
+import { z } from 'zod';
+import { satoshiValidator } from '../../../core/validation/zod-validators';
+
+/**
+ * Maximum number of candidates a recommendation returns
+ */
+export const MAX_CHANNEL_CANDIDATE_LIMIT = 50;
+
+/**
+ * Schema for the parameters of a recommendation of channel-opening
+ * candidates, transformed to the intent attributes NodeDomainHandler reads
+ */
+export const ChannelCandidateParamsSchema = z
+  .object({
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_CHANNEL_CANDIDATE_LIMIT)
+      .optional()
+      .describe('Number of candidates to return. Defaults to 10.'),
+    minChannels: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Only consider nodes with at least this many public channels. Defaults to 5.'),
+    minCapacity: satoshiValidator
+      .optional()
+      .describe('Only consider nodes with at least this much public capacity, in sats'),
+  })
+  .strict()
+  .transform((params) =>
+    Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined))
+  );
+
+/**
+ * Schema for the score of a candidate on each criterion, from 0 to 1
+ */
+export const ChannelCandidateScoresSchema = z.object({
+  capacity: z.number(),
+  channels: z.number(),
+  centrality: z.number(),
+  fees: z.number(),
+  uptime: z.number(),
+  distance: z.number(),
+});
+
+/**
+ * Schema for a node recommended to open a channel with
+ */
+export const ChannelCandidateSchema = z.object({
+  public_key: z.string(),
+  alias: z.string(),
+  capacity: z.number(),
+  channel_count: z.number(),
+  /** Median fee rate the node charges on its enabled channels, in ppm */
+  medianFeeRate: z.number().optional(),
+  /** Share of the node's channel policies that are enabled */
+  enabledRatio: z.number(),
+  /** Latest announcement of the node or of one of its channels */
+  updated_at: z.string().optional(),
+  /** Hops from the nearest of our peers, unless the node cannot be reached through them */
+  distance: z.number().optional(),
+  /** Weighted score from 0 to 1 */
+  score: z.number(),
+  scores: ChannelCandidateScoresSchema,
+  rationale: z.string(),
+});
+
+/**
+ * Parameters of a recommendation of channel-opening candidates
+ */
+export type ChannelCandidateParams = z.input<typeof ChannelCandidateParamsSchema>;
+
+/**
+ * Scores of a candidate on each criterion
+ */
+export type ChannelCandidateScores = z.infer<typeof ChannelCandidateScoresSchema>;
+
+/**
+ * A node recommended to open a channel with
+ */
+export type ChannelCandidateData = z.infer<typeof ChannelCandidateSchema>;
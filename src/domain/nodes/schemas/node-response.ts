@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Zod schema for node query results.
+ *
+ * This file defines the schema of the results of NodeDomainHandler as
+ * published in tool output schemas.
+ */
+
+import { z } from 'zod';
+import { GraphNodeSchema, NodeDetailsSchema } from './node';
+import { ChannelCandidateSchema } from './channel-candidate';
+
+/**
+ * Schema of the result of a node query, without its formatted text
+ */
+export const NodeQueryResultSchema = z.object({
+  /** The alias or public key that was looked up */
+  query: z.string().optional(),
+  node: NodeDetailsSchema.optional(),
+  /** Other graph nodes whose alias resembles the query */
+  candidates: z.array(GraphNodeSchema),
+  /** Nodes recommended to open channels with, set by recommendation queries */
+  channelCandidates: z.array(ChannelCandidateSchema).optional(),
+});
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Zod schema definitions for nodes in the Lightning Network graph.
+ *
+ * This file defines node-related schemas that are used for both runtime
+ * validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+import { satoshiValidator } from '../../../core/validation/zod-validators';
+import { FeePolicySchema } from '../../channels/schemas/fee-policy';
+
+/**
+ * Schema for a node as listed in the network graph
+ */
+export const GraphNodeSchema = z.object({
+  public_key: z.string(),
+  alias: z.string(),
+  color: z.string().optional(),
+  sockets: z.array(z.string()),
+  updated_at: z.string().optional(),
+});
+
+/**
+ * Schema for a channel as listed in the network graph
+ */
+export const GraphChannelSchema = z.object({
+  id: z.string(),
+  capacity: satoshiValidator,
+  node1_public_key: z.string(),
+  node2_public_key: z.string(),
+  /** Fees the first node charges to forward payments over the channel */
+  node1_fee_policy: FeePolicySchema.optional(),
+  /** Fees the second node charges to forward payments over the channel */
+  node2_fee_policy: FeePolicySchema.optional(),
+  updated_at: z.string().optional(),
+});
+
+/**
+ * Schema for a feature bit advertised by a node
+ */
+export const NodeFeatureSchema = z.object({
+  bit: z.number().int().nonnegative(),
+  type: z.string(),
+  is_required: z.boolean(),
+});
+
+/**
+ * Schema for a public channel of a remote node
+ */
+export const NodeChannelSchema = z.object({
+  id: z.string(),
+  capacity: satoshiValidator,
+  /** Public key of the node on the other side of the channel */
+  peer_public_key: z.string().optional(),
+  /** Fees the node charges to forward payments over the channel */
+  fee_policy: FeePolicySchema.optional(),
+  /** Fees the node on the other side charges to forward payments over the channel to the node */
+  peer_fee_policy: FeePolicySchema.optional(),
+  updated_at: z.string().optional(),
+});
+
+/**
+ * Schema for detailed information about a remote node
+ */
+export const NodeDetailsSchema = GraphNodeSchema.extend({
+  capacity: satoshiValidator,
+  channel_count: z.number().int().nonnegative(),
+  channels: z.array(NodeChannelSchema),
+  features: z.array(NodeFeatureSchema),
+});
+
+/**
+ * Type for graph node data structure
+ */
+export type GraphNodeData = z.infer<typeof GraphNodeSchema>;
+
+/**
+ * Type for graph channel data structure
+ */
+export type GraphChannelData = z.infer<typeof GraphChannelSchema>;
+
+/**
+ * Type for node feature data structure
+ */
+export type NodeFeatureData = z.infer<typeof NodeFeatureSchema>;
+
+/**
+ * Type for node channel data structure
+ */
+export type NodeChannelData = z.infer<typeof NodeChannelSchema>;
+
+/**
+ * Type for node details data structure
+ */
+export type NodeDetailsData = z.infer<typeof NodeDetailsSchema>;
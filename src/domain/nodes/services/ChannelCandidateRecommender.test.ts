@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Tests for ChannelCandidateRecommender
+ */
+
+import { ChannelCandidateRecommender } from './ChannelCandidateRecommender';
+import { ChannelData } from '../../channels/entities/Channel';
+import { GraphChannelData, GraphNodeData } from '../entities/Node';
+
+describe('ChannelCandidateRecommender', () => {
+  const recommender = new ChannelCandidateRecommender();
+  const updatedAt = new Date().toISOString();
+
+  const graphChannel = (
+    id: string,
+    node1: string,
+    node2: string,
+    capacity = 1000000,
+    feeRate = 100
+  ): GraphChannelData => ({
+    id,
+    capacity,
+    node1_public_key: node1,
+    node2_public_key: node2,
+    node1_fee_policy: { base_fee_msat: 1000, fee_rate_ppm: feeRate },
+    node2_fee_policy: { base_fee_msat: 1000, fee_rate_ppm: feeRate, disabled: true },
+    updated_at: updatedAt,
+  });
+
+  // We are connected to the peer, which reaches the hub, then x and y, then
+  // the far node. The island and its neighbors cannot be reached.
+  const graphChannels = [
+    graphChannel('1x1x1', 'own', 'peer'),
+    graphChannel('2x1x1', 'hub', 'peer'),
+    graphChannel('3x1x1', 'hub', 'x'),
+    graphChannel('4x1x1', 'hub', 'y'),
+    graphChannel('5x1x1', 'far', 'x', 1000000, 500),
+    graphChannel('6x1x1', 'far', 'y', 1000000, 500),
+    graphChannel('7x1x1', 'island', 'i1', 5000000, 50),
+    graphChannel('8x1x1', 'island', 'i2', 5000000, 50),
+  ];
+
+  const nodes: GraphNodeData[] = ['hub', 'far', 'island'].map((pubkey) => ({
+    public_key: pubkey,
+    alias: `Alias ${pubkey}`,
+    sockets: [],
+  }));
+
+  const channels: ChannelData[] = [
+    {
+      id: '1x1x1',
+      capacity: 1000000,
+      local_balance: 500000,
+      remote_balance: 500000,
+      active: true,
+      remote_pubkey: 'peer',
+      channel_point: 'txid-1:0',
+    },
+  ];
+
+  test('should exclude our own node and peers and measure distances from peers', () => {
+    const candidates = recommender.recommend(nodes, graphChannels, channels, { minChannels: 1 });
+
+    const distances = Object.fromEntries(
+      candidates.map((candidate) => [candidate.public_key, candidate.distance])
+    );
+    expect(distances).toEqual({
+      hub: 1,
+      x: 2,
+      y: 2,
+      far: 3,
+      island: undefined,
+      i1: undefined,
+      i2: undefined,
+    });
+
+    // x only announced disabled policies, so its fees are unknown
+    const x = candidates.find((candidate) => candidate.public_key === 'x');
+    expect(x).toMatchObject({ enabledRatio: 0, medianFeeRate: undefined });
+    expect(x?.scores.fees).toBe(0);
+    expect(x?.rationale).toContain('no enabled channels to judge fees by');
+  });
+
+  test('should rank candidates by weighted score with a rationale', () => {
+    const candidates = recommender.recommend(nodes, graphChannels, channels, {
+      limit: 3,
+      minChannels: 2,
+    });
+
+    expect(candidates.map((candidate) => candidate.public_key)).toEqual(['island', 'hub', 'far']);
+
+    const [island, hub, far] = candidates;
+    expect(island).toMatchObject({
+      alias: 'Alias island',
+      capacity: 10000000,
+      channel_count: 2,
+      medianFeeRate: 50,
+      enabledRatio: 1,
+      scores: { capacity: 1, fees: 1, uptime: 1, distance: 1 },
+    });
+    expect(island.rationale).toBe(
+      '10,000,000 sats over 2 channels, larger than 100% of candidates; more central than 100% of candidates; charges a median of 50 ppm, cheaper than 100% of candidates; 100% of channel policies enabled, last announced within the last hour; not reachable through your current peers.'
+    );
+
+    expect(hub.rationale).toContain('already a direct neighbor of one of your peers');
+    expect(far.rationale).toContain('3 hops from your nearest peer');
+  });
+
+  test('should apply the limit and minimum size of candidates', () => {
+    expect(recommender.recommend(nodes, graphChannels, channels)).toEqual([]);
+
+    const candidates = recommender.recommend(nodes, graphChannels, channels, {
+      limit: 1,
+      minChannels: 1,
+      minCapacity: 2000000,
+    });
+    expect(candidates.map((candidate) => candidate.public_key)).toEqual(['island']);
+  });
+});
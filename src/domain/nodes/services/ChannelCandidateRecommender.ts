@@ -0,0 +1,459 @@
+/**
+ * @fileoverview Recommender of nodes to open channels with.
+ *
+ * Candidates are scored from the network graph on six criteria: their
+ * capacity, their number of channels, their centrality, how cheap their
+ * fees are, how reliably they seem to be online and how far they are from
+ * the peers we already have channels with. Capacity, channel count,
+ * centrality and fees are ranked against the other candidates, so scores
+ * read as "better than this share of candidates". The recommender only
+ * reads the graph; it opens nothing.
+ */
+
+import { ChannelData } from '../../channels/entities/Channel';
+import {
+  ChannelCandidateData,
+  ChannelCandidateScores,
+  GraphChannelData,
+  GraphNodeData,
+} from '../entities/Node';
+import { median } from '../../channels/services/fee-statistics';
+
+/**
+ * Default number of recommended candidates
+ */
+export const DEFAULT_CHANNEL_CANDIDATE_LIMIT = 10;
+
+/**
+ * Default minimum number of public channels of a candidate
+ */
+export const DEFAULT_MIN_CANDIDATE_CHANNELS = 5;
+
+/**
+ * Weight of each criterion in the score of a candidate
+ */
+const CRITERIA_WEIGHTS: ChannelCandidateScores = {
+  capacity: 0.2,
+  channels: 0.15,
+  centrality: 0.2,
+  fees: 0.15,
+  uptime: 0.15,
+  distance: 0.15,
+};
+
+/**
+ * Hops from our peers beyond which a candidate adds no more new reach
+ */
+const MAX_SCORED_DISTANCE = 3;
+
+/**
+ * Age of the latest announcement below which a node counts as fully online,
+ * and above which it counts as offline
+ */
+const FRESH_UPDATE_MS = 24 * 60 * 60 * 1000;
+const STALE_UPDATE_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Damping factor and iterations of the PageRank centrality
+ */
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_ITERATIONS = 20;
+
+/**
+ * Options of a recommendation
+ */
+export interface ChannelCandidateOptions {
+  /** Maximum number of candidates to return */
+  limit?: number;
+  /** Only consider nodes with at least this many public channels */
+  minChannels?: number;
+  /** Only consider nodes with at least this much public capacity, in sats */
+  minCapacity?: number;
+}
+
+/**
+ * What the graph tells about a node
+ */
+interface NodeStats {
+  capacity: number;
+  channelCount: number;
+  neighbors: Set<string>;
+  /** Fee rates of the node's enabled channel policies, in ppm */
+  feeRates: number[];
+  policies: number;
+  enabledPolicies: number;
+  /** Latest announcement of the node's channels, in milliseconds */
+  lastUpdate: number;
+}
+
+/**
+ * Scores nodes of the network graph as candidates to open channels with
+ */
+export class ChannelCandidateRecommender {
+  /**
+   * Recommend nodes to open channels with
+   * @param nodes The nodes of the network graph
+   * @param graphChannels The channels of the network graph
+   * @param channels Our open channels, whose peers are not candidates
+   * @param options Number of candidates and minimum size of candidates
+   * @returns The best candidates, highest score first
+   */
+  recommend(
+    nodes: GraphNodeData[],
+    graphChannels: GraphChannelData[],
+    channels: ChannelData[],
+    options: ChannelCandidateOptions = {}
+  ): ChannelCandidateData[] {
+    const {
+      limit = DEFAULT_CHANNEL_CANDIDATE_LIMIT,
+      minChannels = DEFAULT_MIN_CANDIDATE_CHANNELS,
+      minCapacity = 0,
+    } = options;
+
+    const stats = this.collectStats(graphChannels);
+    const ownKey = this.findOwnKey(graphChannels, channels);
+    const peers = new Set(channels.map((channel) => channel.remote_pubkey));
+    const distances = this.measureDistances(stats, peers, ownKey);
+    const centrality = this.calculateCentrality(stats);
+    const graphNodes = new Map(nodes.map((node) => [node.public_key, node]));
+
+    const candidates = Array.from(stats.entries())
+      .filter(
+        ([pubkey, node]) =>
+          pubkey !== ownKey &&
+          !peers.has(pubkey) &&
+          node.channelCount >= minChannels &&
+          node.capacity >= minCapacity
+      )
+      .map(([pubkey, node]) => {
+        const announcedAt = Date.parse(graphNodes.get(pubkey)?.updated_at || '');
+        const lastUpdate = Math.max(node.lastUpdate, isNaN(announcedAt) ? 0 : announcedAt);
+
+        return {
+          pubkey,
+          node,
+          alias: graphNodes.get(pubkey)?.alias || '',
+          lastUpdate,
+          medianFeeRate: node.feeRates.length > 0 ? median(node.feeRates) : undefined,
+          enabledRatio: node.policies > 0 ? node.enabledPolicies / node.policies : 0,
+          centrality: centrality.get(pubkey) || 0,
+          distance: distances.get(pubkey),
+        };
+      });
+
+    // Rank the size, connectedness and fees of candidates against each other
+    const rankCapacity = createPercentileRank(candidates.map(({ node }) => node.capacity));
+    const rankChannels = createPercentileRank(candidates.map(({ node }) => node.channelCount));
+    const rankCentrality = createPercentileRank(
+      candidates.map((candidate) => candidate.centrality)
+    );
+    const rankFees = createPercentileRank(
+      candidates.flatMap(({ medianFeeRate }) =>
+        medianFeeRate === undefined ? [] : [-medianFeeRate]
+      )
+    );
+    const now = Date.now();
+
+    return candidates
+      .map((candidate): ChannelCandidateData => {
+        const { node, medianFeeRate, enabledRatio, lastUpdate, distance } = candidate;
+        const recency = lastUpdate
+          ? Math.min(
+              1,
+              Math.max(
+                0,
+                (STALE_UPDATE_MS - (now - lastUpdate)) / (STALE_UPDATE_MS - FRESH_UPDATE_MS)
+              )
+            )
+          : 0;
+
+        const scores: ChannelCandidateScores = {
+          capacity: rankCapacity(node.capacity),
+          channels: rankChannels(node.channelCount),
+          centrality: rankCentrality(candidate.centrality),
+          // Candidates without enabled channels charge unknown fees
+          fees: medianFeeRate === undefined ? 0 : rankFees(-medianFeeRate),
+          uptime: (enabledRatio + recency) / 2,
+          // Nodes our peers cannot reach add the most new reach
+          distance:
+            distance === undefined
+              ? 1
+              : Math.min(distance, MAX_SCORED_DISTANCE) / MAX_SCORED_DISTANCE,
+        };
+
+        const score = (Object.keys(CRITERIA_WEIGHTS) as (keyof ChannelCandidateScores)[]).reduce(
+          (sum, criterion) => sum + CRITERIA_WEIGHTS[criterion] * scores[criterion],
+          0
+        );
+
+        return {
+          public_key: candidate.pubkey,
+          alias: candidate.alias,
+          capacity: node.capacity,
+          channel_count: node.channelCount,
+          medianFeeRate,
+          enabledRatio: round(enabledRatio),
+          updated_at: lastUpdate ? new Date(lastUpdate).toISOString() : undefined,
+          distance,
+          score: round(score),
+          scores: Object.fromEntries(
+            Object.entries(scores).map(([criterion, value]) => [criterion, round(value)])
+          ) as ChannelCandidateScores,
+          rationale: this.explain(candidate, scores, now),
+        };
+      })
+      .sort((a, b) => b.score - a.score || b.capacity - a.capacity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Collect the capacity, channels, fees and announcements of each node
+   * @param graphChannels The channels of the network graph
+   * @returns The statistics of each node with channels, keyed by public key
+   * @private
+   */
+  private collectStats(graphChannels: GraphChannelData[]): Map<string, NodeStats> {
+    const stats = new Map<string, NodeStats>();
+    const getStats = (pubkey: string): NodeStats => {
+      let node = stats.get(pubkey);
+      if (!node) {
+        node = {
+          capacity: 0,
+          channelCount: 0,
+          neighbors: new Set(),
+          feeRates: [],
+          policies: 0,
+          enabledPolicies: 0,
+          lastUpdate: 0,
+        };
+        stats.set(pubkey, node);
+      }
+      return node;
+    };
+
+    graphChannels.forEach((channel) => {
+      const updatedAt = Date.parse(channel.updated_at || '');
+      const sides = [
+        [channel.node1_public_key, channel.node2_public_key, channel.node1_fee_policy],
+        [channel.node2_public_key, channel.node1_public_key, channel.node2_fee_policy],
+      ] as const;
+
+      sides.forEach(([pubkey, peer, policy]) => {
+        const node = getStats(pubkey);
+        node.capacity += channel.capacity;
+        node.channelCount += 1;
+        node.neighbors.add(peer);
+        if (!isNaN(updatedAt)) {
+          node.lastUpdate = Math.max(node.lastUpdate, updatedAt);
+        }
+        if (policy) {
+          node.policies += 1;
+          if (!policy.disabled) {
+            node.enabledPolicies += 1;
+            node.feeRates.push(policy.fee_rate_ppm);
+          }
+        }
+      });
+    });
+
+    return stats;
+  }
+
+  /**
+   * Find our own node in the graph from the channels we have with our peers
+   * @param graphChannels The channels of the network graph
+   * @param channels Our open channels
+   * @returns Our public key, unless none of our channels is public
+   * @private
+   */
+  private findOwnKey(
+    graphChannels: GraphChannelData[],
+    channels: ChannelData[]
+  ): string | undefined {
+    const peersById = new Map(
+      channels.flatMap((channel) => (channel.id ? [[channel.id, channel.remote_pubkey]] : []))
+    );
+
+    for (const channel of graphChannels) {
+      const peer = peersById.get(channel.id);
+      if (peer === channel.node1_public_key) {
+        return channel.node2_public_key;
+      }
+      if (peer === channel.node2_public_key) {
+        return channel.node1_public_key;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Measure how many hops each node is from the nearest of our peers,
+   * without routing through our own node
+   * @param stats The statistics of each node
+   * @param peers Public keys of our peers
+   * @param ownKey Our public key
+   * @returns Hops of each reachable node, keyed by public key
+   * @private
+   */
+  private measureDistances(
+    stats: Map<string, NodeStats>,
+    peers: Set<string>,
+    ownKey?: string
+  ): Map<string, number> {
+    const distances = new Map<string, number>();
+    let frontier = Array.from(peers).filter((pubkey) => stats.has(pubkey));
+    frontier.forEach((pubkey) => distances.set(pubkey, 0));
+
+    for (let distance = 1; frontier.length > 0; distance++) {
+      const next: string[] = [];
+      frontier.forEach((pubkey) => {
+        stats.get(pubkey)?.neighbors.forEach((neighbor) => {
+          if (neighbor !== ownKey && !distances.has(neighbor)) {
+            distances.set(neighbor, distance);
+            next.push(neighbor);
+          }
+        });
+      });
+      frontier = next;
+    }
+
+    return distances;
+  }
+
+  /**
+   * Calculate the PageRank of each node, a centrality that favors nodes
+   * connected to other well-connected nodes
+   * @param stats The statistics of each node
+   * @returns The PageRank of each node, keyed by public key
+   * @private
+   */
+  private calculateCentrality(stats: Map<string, NodeStats>): Map<string, number> {
+    const count = stats.size;
+    let ranks = new Map(Array.from(stats.keys()).map((pubkey) => [pubkey, 1 / count]));
+
+    for (let iteration = 0; iteration < PAGERANK_ITERATIONS; iteration++) {
+      const next = new Map(
+        Array.from(stats.keys()).map((pubkey) => [pubkey, (1 - PAGERANK_DAMPING) / count])
+      );
+
+      stats.forEach((node, pubkey) => {
+        const share = (PAGERANK_DAMPING * (ranks.get(pubkey) || 0)) / node.neighbors.size;
+        node.neighbors.forEach((neighbor) => {
+          next.set(neighbor, (next.get(neighbor) || 0) + share);
+        });
+      });
+
+      ranks = next;
+    }
+
+    return ranks;
+  }
+
+  /**
+   * Explain the score of a candidate
+   * @param candidate The candidate's statistics
+   * @param scores The candidate's score on each criterion
+   * @param now The current time in milliseconds
+   * @returns The rationale
+   * @private
+   */
+  private explain(
+    candidate: {
+      node: NodeStats;
+      medianFeeRate?: number;
+      enabledRatio: number;
+      lastUpdate: number;
+      distance?: number;
+    },
+    scores: ChannelCandidateScores,
+    now: number
+  ): string {
+    const { node, medianFeeRate, enabledRatio, lastUpdate, distance } = candidate;
+
+    const reasons = [
+      `${node.capacity.toLocaleString()} sats over ${
+        node.channelCount
+      } channels, larger than ${formatShare(scores.capacity)} of candidates`,
+      `more central than ${formatShare(scores.centrality)} of candidates`,
+      medianFeeRate === undefined
+        ? 'no enabled channels to judge fees by'
+        : `charges a median of ${medianFeeRate} ppm, cheaper than ${formatShare(
+            scores.fees
+          )} of candidates`,
+      `${formatShare(enabledRatio)} of channel policies enabled, ${
+        lastUpdate ? `last announced ${formatAge(now - lastUpdate)}` : 'never announced'
+      }`,
+      distance === undefined
+        ? 'not reachable through your current peers'
+        : distance === 1
+        ? 'already a direct neighbor of one of your peers'
+        : `${distance} hops from your nearest peer`,
+    ];
+
+    return `${reasons.join('; ')}.`;
+  }
+}
+
+/**
+ * Create a function ranking values against a population
+ * @param values The population
+ * @returns Function returning the share of the population below a value, 1 for a population of one
+ */
+function createPercentileRank(values: number[]): (value: number) => number {
+  const sorted = [...values].sort((a, b) => a - b);
+
+  return (value: number) => {
+    if (sorted.length <= 1) {
+      return 1;
+    }
+
+    // Binary search for the number of values below the value
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sorted[middle] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low / (sorted.length - 1);
+  };
+}
+
+/**
+ * Format a share as a percentage
+ * @param share The share from 0 to 1
+ * @returns The percentage, e.g. "95%"
+ */
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Format the time since an event
+ * @param ms Milliseconds since the event
+ * @returns The age, e.g. "3 hours ago"
+ */
+function formatAge(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours < 1) {
+    return 'within the last hour';
+  }
+  if (hours < 48) {
+    return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  }
+  return `${Math.floor(hours / 24)} days ago`;
+}
+
+/**
+ * Round a score for display
+ * @param value The score
+ * @returns The score rounded to three decimals
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
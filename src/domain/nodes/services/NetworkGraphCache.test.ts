@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Tests for NetworkGraphCache
+ */
+
+import { NetworkGraphCache } from './NetworkGraphCache';
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { GraphNodeData } from '../entities/Node';
+import { createMockGateway } from '../../../test/mocks/gateway.mock';
+
+jest.mock('../../../core/logging/logger');
+
+describe('NetworkGraphCache', () => {
+  const nodes: GraphNodeData[] = [
+    { public_key: 'pubkey-acinq', alias: 'ACINQ', sockets: [] },
+    { public_key: 'pubkey-acinq-2', alias: 'acinq-test', sockets: [] },
+    { public_key: 'pubkey-bitrefill', alias: 'Bitrefill', sockets: [] },
+    { public_key: 'pubkey-wos', alias: 'WalletOfSatoshi.com', sockets: [] },
+    { public_key: 'pubkey-empty', alias: '', sockets: [] },
+  ];
+
+  let gateway: jest.Mocked<LightningNetworkGateway>;
+
+  beforeEach(() => {
+    gateway = createMockGateway({
+      getNetworkGraphNodes: jest.fn().mockResolvedValue(nodes),
+    });
+  });
+
+  test('should rank exact alias matches before partial matches', async () => {
+    const cache = new NetworkGraphCache(gateway);
+
+    const matches = await cache.findByAlias('acinq');
+
+    expect(matches.map((match) => match.node.public_key)).toEqual([
+      'pubkey-acinq',
+      'pubkey-acinq-2',
+    ]);
+    expect(matches[0].score).toBe(1);
+  });
+
+  test('should tolerate punctuation, case and small typos', async () => {
+    const cache = new NetworkGraphCache(gateway);
+
+    expect((await cache.findByAlias('wallet of satoshi'))[0].node.public_key).toBe('pubkey-wos');
+    expect((await cache.findByAlias('Bitrefil'))[0].node.public_key).toBe('pubkey-bitrefill');
+    expect(await cache.findByAlias('Kraken')).toEqual([]);
+  });
+
+  test('should reuse the cached graph until it expires', async () => {
+    const cache = new NetworkGraphCache(gateway);
+
+    await Promise.all([cache.findByAlias('acinq'), cache.findByAlias('bitrefill')]);
+    await cache.findByAlias('acinq');
+
+    expect(gateway.getNetworkGraphNodes).toHaveBeenCalledTimes(1);
+  });
+
+  test('should refresh the graph after the time-to-live', async () => {
+    const cache = new NetworkGraphCache(gateway, 0);
+
+    await cache.getNodes();
+    await cache.getNodes();
+
+    expect(gateway.getNetworkGraphNodes).toHaveBeenCalledTimes(2);
+  });
+
+  test('should cache graph channels separately from nodes', async () => {
+    const cache = new NetworkGraphCache(gateway);
+
+    await Promise.all([cache.getChannels(), cache.getChannels()]);
+    await cache.getChannels();
+
+    expect(gateway.getNetworkGraphChannels).toHaveBeenCalledTimes(1);
+    expect(gateway.getNetworkGraphNodes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Locally cached copy of the Lightning Network graph.
+ *
+ * Fetching the full graph is expensive, so the node and channel lists are
+ * kept in memory and refreshed after a time-to-live. The cache resolves
+ * aliases to public keys, tolerating differences in case, punctuation and
+ * small typos.
+ */
+
+import { LightningNetworkGateway } from '../../lightning/gateways/LightningNetworkGateway';
+import { GraphChannelData, GraphNodeData } from '../entities/Node';
+import logger from '../../../core/logging/logger';
+
+/**
+ * Default time after which the cached graph is refreshed
+ */
+const DEFAULT_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Minimum similarity for an alias to be considered a fuzzy match
+ */
+const MIN_SIMILARITY = 0.6;
+
+/**
+ * A graph node matching an alias lookup
+ */
+export interface AliasMatch {
+  node: GraphNodeData;
+  /** Similarity between the query and the alias, from 0 to 1 */
+  score: number;
+}
+
+/**
+ * A list fetched from the gateway with the time it was fetched
+ */
+interface CachedList<T> {
+  items: T[];
+  fetchedAt: number;
+  pendingRefresh: Promise<T[]> | null;
+}
+
+/**
+ * In-memory cache of the nodes and channels in the network graph
+ */
+export class NetworkGraphCache {
+  private readonly nodes: CachedList<GraphNodeData> = {
+    items: [],
+    fetchedAt: 0,
+    pendingRefresh: null,
+  };
+  private readonly channels: CachedList<GraphChannelData> = {
+    items: [],
+    fetchedAt: 0,
+    pendingRefresh: null,
+  };
+
+  /**
+   * Create a new network graph cache
+   * @param gateway The Lightning Network gateway to fetch the graph from
+   * @param ttlMs Time in milliseconds after which the graph is fetched again
+   */
+  constructor(
+    private readonly gateway: LightningNetworkGateway,
+    private readonly ttlMs: number = DEFAULT_TTL_MS
+  ) {}
+
+  /**
+   * Get the nodes of the network graph, refreshing the cache if it is stale
+   * @returns Promise resolving to the cached graph nodes
+   */
+  async getNodes(): Promise<GraphNodeData[]> {
+    return this.getList(this.nodes, () => this.gateway.getNetworkGraphNodes(), 'nodes');
+  }
+
+  /**
+   * Get the channels of the network graph, refreshing the cache if it is stale
+   * @returns Promise resolving to the cached graph channels
+   */
+  async getChannels(): Promise<GraphChannelData[]> {
+    return this.getList(this.channels, () => this.gateway.getNetworkGraphChannels(), 'channels');
+  }
+
+  /**
+   * Find graph nodes whose alias resembles the given query
+   * @param query The alias to look for
+   * @param limit Maximum number of matches to return
+   * @returns Promise resolving to matches, best first
+   */
+  async findByAlias(query: string, limit = 5): Promise<AliasMatch[]> {
+    const normalizedQuery = normalizeAlias(query);
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const nodes = await this.getNodes();
+
+    return nodes
+      .map((node) => ({ node, score: scoreAlias(normalizedQuery, normalizeAlias(node.alias)) }))
+      .filter((match) => match.score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Get a cached list, fetching it again if it is stale
+   * @param cache The cached list
+   * @param fetch Fetches the list from the gateway
+   * @param name Name of the listed items, for logging
+   * @returns Promise resolving to the cached items
+   * @private
+   */
+  private async getList<T>(
+    cache: CachedList<T>,
+    fetch: () => Promise<T[]>,
+    name: string
+  ): Promise<T[]> {
+    if (cache.fetchedAt > 0 && Date.now() - cache.fetchedAt < this.ttlMs) {
+      return cache.items;
+    }
+
+    // Share a single graph download between concurrent lookups
+    if (!cache.pendingRefresh) {
+      cache.pendingRefresh = fetch()
+        .then((items) => {
+          cache.items = items;
+          cache.fetchedAt = Date.now();
+
+          logger.debug(`Cached ${items.length} network graph ${name}`, {
+            component: 'network-graph-cache',
+          });
+
+          return items;
+        })
+        .finally(() => {
+          cache.pendingRefresh = null;
+        });
+    }
+
+    return cache.pendingRefresh;
+  }
+}
+
+/**
+ * Normalize an alias for comparison
+ * @param alias The alias to normalize
+ * @returns Lowercased alias without punctuation or whitespace
+ */
+function normalizeAlias(alias: string): string {
+  return alias.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Score how closely a normalized alias matches a normalized query
+ *
+ * Exact matches rank first, then aliases starting with or containing the
+ * query, then aliases within a small edit distance of the query.
+ *
+ * @param query The normalized query
+ * @param alias The normalized alias
+ * @returns Similarity from 0 to 1
+ */
+function scoreAlias(query: string, alias: string): number {
+  if (!alias) {
+    return 0;
+  }
+  if (alias === query) {
+    return 1;
+  }
+  if (alias.startsWith(query)) {
+    return 0.9;
+  }
+  if (alias.includes(query)) {
+    return 0.8;
+  }
+
+  // Scale the edit distance so only near misses qualify
+  return (1 - levenshtein(query, alias) / Math.max(query.length, alias.length)) * 0.75;
+}
+
+/**
+ * Compute the Levenshtein edit distance between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Number of single-character edits needed to turn a into b
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
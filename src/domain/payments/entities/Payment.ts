@@ -0,0 +1,8 @@
+/**
+ * Type definitions for Lightning Network payments.
+ *
+ * Types are derived from the Zod schemas to keep runtime validation
+ * and compile-time type checking consistent.
+ */
+
+export { PaymentData } from '../schemas/payment';
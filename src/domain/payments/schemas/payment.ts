@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Zod schema definition for Lightning Network payments.
+ *
+ * This file defines payment-related schemas that are used for both runtime
+ * validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for an outgoing payment made by the node
+ */
+export const PaymentSchema = z.object({
+  id: z.string(),
+  destination: z.string(),
+  tokens: z.number(),
+  fee: z.number(),
+  status: z.enum(['succeeded', 'failed']),
+  created_at: z.string(),
+  confirmed_at: z.string().optional(),
+  hops: z.number().optional(),
+  destination_alias: z.string().optional(),
+});
+
+/**
+ * Type for payment data structure
+ */
+export type PaymentData = z.infer<typeof PaymentSchema>;
+
+/**
+ * Schema of the result of a payment query, without its formatted text
+ */
+export const PaymentQueryResultSchema = z.object({
+  payments: z.array(PaymentSchema),
+  summary: z.object({
+    totalPayments: z.number(),
+    totalSent: z.number(),
+    totalFees: z.number(),
+    averageFeePpm: z.number(),
+    status: PaymentSchema.shape.status,
+    period: z
+      .object({
+        from: z.string(),
+        to: z.string(),
+        label: z.string(),
+      })
+      .optional(),
+  }),
+});
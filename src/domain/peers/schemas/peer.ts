@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Zod schema definition for Lightning Network peers.
+ *
+ * This file defines peer-related schemas that are used for both runtime
+ * validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for a peer currently connected to the node
+ */
+export const PeerSchema = z.object({
+  public_key: z.string(),
+  socket: z.string(),
+  /** Round trip ping time in milliseconds */
+  ping_time: z.number().nonnegative(),
+  bytes_sent: z.number().nonnegative(),
+  bytes_received: z.number().nonnegative(),
+  is_inbound: z.boolean(),
+  alias: z.string().optional(),
+});
+
+/**
+ * Type for peer data structure
+ */
+export type PeerData = z.infer<typeof PeerSchema>;
+
+/**
+ * Schema of a connected peer with the number of channels with it
+ */
+const ConnectedPeerSchema = PeerSchema.extend({
+  channel_count: z.number(),
+});
+
+/**
+ * Schema of the result of a peer query, without its formatted text
+ */
+export const PeerQueryResultSchema = z.object({
+  peers: z.array(ConnectedPeerSchema),
+  peersWithoutChannels: z.array(ConnectedPeerSchema),
+  disconnectedPartners: z.array(
+    z.object({
+      remote_pubkey: z.string(),
+      remote_alias: z.string().optional(),
+      channel_count: z.number(),
+      capacity: z.number(),
+      local_balance: z.number(),
+    })
+  ),
+  summary: z.object({
+    totalPeers: z.number(),
+    inboundPeers: z.number(),
+    outboundPeers: z.number(),
+    peersWithoutChannelsCount: z.number(),
+    disconnectedPartnersCount: z.number(),
+    filter: z.enum(['withoutChannel', 'disconnected']).optional(),
+  }),
+});
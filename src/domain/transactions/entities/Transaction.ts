@@ -0,0 +1,8 @@
+/**
+ * Type definitions for on-chain transactions.
+ *
+ * Types are derived from the Zod schemas to keep runtime validation
+ * and compile-time type checking consistent.
+ */
+
+export { ChainTransactionData } from '../schemas/transaction';
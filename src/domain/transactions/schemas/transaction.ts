@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Zod schema definition for on-chain transactions.
+ *
+ * This file defines transaction-related schemas that are used for both runtime
+ * validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+import { satoshiValidator } from '../../../core/validation/zod-validators';
+
+/**
+ * Schema for an on-chain transaction relevant to the wallet
+ */
+export const ChainTransactionSchema = z.object({
+  id: z.string(),
+  /** Amount moved by the transaction, including the fee for outgoing transactions */
+  tokens: satoshiValidator,
+  fee: satoshiValidator.optional(),
+  is_confirmed: z.boolean(),
+  is_outgoing: z.boolean(),
+  confirmation_count: z.number().int().nonnegative().optional(),
+  created_at: z.string(),
+  description: z.string().optional(),
+});
+
+/**
+ * Type for chain transaction data structure
+ */
+export type ChainTransactionData = z.infer<typeof ChainTransactionSchema>;
+
+/**
+ * Schema of the result of a transaction query, without its formatted text
+ */
+export const TransactionQueryResultSchema = z.object({
+  transactions: z.array(ChainTransactionSchema),
+  summary: z.object({
+    totalTransactions: z.number(),
+    totalReceived: z.number(),
+    totalSent: z.number(),
+    totalFees: z.number(),
+    unconfirmedCount: z.number(),
+    minAmount: z.number().optional(),
+    limit: z.number().optional(),
+    period: z
+      .object({
+        from: z.string(),
+        to: z.string(),
+        label: z.string(),
+      })
+      .optional(),
+  }),
+});
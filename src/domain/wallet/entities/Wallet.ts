@@ -0,0 +1,8 @@
+/**
+ * Type definitions for the on-chain wallet.
+ *
+ * Types are derived from the Zod schemas to keep runtime validation
+ * and compile-time type checking consistent.
+ */
+
+export { ChainBalanceData, UtxoData } from '../schemas/wallet';
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Zod schema definitions for the on-chain wallet.
+ *
+ * This file defines wallet-related schemas that are used for both runtime
+ * validation and compile-time type inference.
+ */
+
+import { z } from 'zod';
+import { satoshiValidator } from '../../../core/validation/zod-validators';
+
+/**
+ * Schema for the on-chain wallet balance
+ */
+export const ChainBalanceSchema = z.object({
+  confirmed_balance: satoshiValidator,
+  unconfirmed_balance: satoshiValidator,
+});
+
+/**
+ * Schema for an unspent transaction output held by the wallet
+ */
+export const UtxoSchema = z.object({
+  transaction_id: z.string(),
+  transaction_vout: z.number().int().nonnegative(),
+  tokens: satoshiValidator,
+  confirmation_count: z.number().int().nonnegative(),
+  address: z.string(),
+  address_format: z.string().optional(),
+});
+
+/**
+ * Type for on-chain balance data structure
+ */
+export type ChainBalanceData = z.infer<typeof ChainBalanceSchema>;
+
+/**
+ * Type for UTXO data structure
+ */
+export type UtxoData = z.infer<typeof UtxoSchema>;
+
+/**
+ * Schema of the result of a wallet query, without its formatted text
+ */
+export const WalletQueryResultSchema = z.object({
+  balance: ChainBalanceSchema,
+  utxos: z.array(UtxoSchema),
+  summary: z.object({
+    confirmedBalance: z.number(),
+    unconfirmedBalance: z.number(),
+    totalBalance: z.number(),
+    utxoCount: z.number(),
+    utxoTotal: z.number(),
+    minAmount: z.number().optional(),
+  }),
+});
@@ -4,7 +4,7 @@
  * Bootstraps the application by:
  * 1. Loading configuration
  * 2. Creating the Lightning Network connection (LND or LNC)
- * 3. Creating and starting the enhanced MCP server
+ * 3. Creating and starting the enhanced MCP server on stdio or HTTP
  * 4. Setting up graceful shutdown handling
  */
 
@@ -52,8 +52,16 @@ if (require.main === module) {
   bootstrap();
 }
 
-// Handle graceful shutdown
+// Set once shutdown starts, so a repeated signal does not stop the server twice
+let shuttingDown = false;
+
+// Handle graceful shutdown, letting open HTTP sessions and requests finish
 async function shutdown() {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+
   try {
     if (mcpServer) {
       await mcpServer.stop();
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Tests for ClnAdapter
+ *
+ * Unit tests for the ClnAdapter class against a fake clnrest server.
+ */
+
+import { ClnAdapter } from './ClnAdapter';
+import { ConnectionMethod, ClnRestDetails } from '../../domain/node/ConnectionAuth';
+import { AuthenticationError, ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { FakeClnRestServer, startFakeClnRestServer } from '../../test/mocks/cln-rest-server';
+
+jest.mock('../../core/logging/logger');
+
+describe('ClnAdapter', () => {
+  const rune = 'test-rune';
+  let server: FakeClnRestServer;
+
+  beforeAll(async () => {
+    server = await startFakeClnRestServer(rune, {
+      getinfo: () => ({
+        id: `02${'c'.repeat(64)}`,
+        alias: 'my-cln',
+        color: '3399ff',
+        num_peers: 4,
+        num_pending_channels: 1,
+        num_active_channels: 3,
+        num_inactive_channels: 0,
+        blockheight: 800100,
+      }),
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const createAdapter = (overrides: Partial<ClnRestDetails> = {}): ClnAdapter =>
+    new ClnAdapter({ method: ConnectionMethod.CLN_REST, url: server.url, rune, ...overrides });
+
+  test('should check the connection with getinfo', async () => {
+    await expect(createAdapter().checkConnection()).resolves.toBe(true);
+  });
+
+  test('should map getinfo to node info', async () => {
+    await expect(createAdapter().getNodeInfo()).resolves.toEqual({
+      alias: 'my-cln',
+      pubkey: `02${'c'.repeat(64)}`,
+      color: '#3399ff',
+      activeChannelsCount: 3,
+      pendingChannelsCount: 1,
+      peersCount: 4,
+    });
+  });
+
+  test('should report rejected runes as authentication errors', async () => {
+    await expect(createAdapter({ rune: 'wrong-rune' }).checkConnection()).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+  });
+
+  test('should report unreachable servers as connection errors', async () => {
+    const adapter = createAdapter({ url: 'http://127.0.0.1:1' });
+
+    await expect(adapter.checkConnection()).rejects.toBeInstanceOf(ConnectionError);
+  });
+
+  test('should reset the client when closed', () => {
+    const adapter = createAdapter();
+    const client = adapter.getConnection();
+
+    adapter.close();
+
+    expect(adapter.getConnection()).not.toBe(client);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview CLN adapter for Core Lightning node connections.
+ *
+ * This module provides an adapter for interacting with a Core Lightning node
+ * through the REST API of the clnrest plugin, authorized with a rune.
+ */
+
+import { LightningNodeAdapter } from './LightningNodeAdapter';
+import { NodeInfo } from '../../domain/node/NodeInfo';
+import {
+  ClnRestDetails,
+  ConnectionDetails,
+  ConnectionMethod,
+} from '../../domain/node/ConnectionAuth';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import {
+  ConnectionError,
+  AuthenticationError,
+  CredentialError,
+} from '../../domain/errors/ConnectionErrors';
+import { ClnRestClient } from '../cln/ClnRestClient';
+import { ClnGetInfoResult } from '../cln/types';
+import * as fs from 'fs';
+
+/**
+ * Adapter for communicating with a Core Lightning (CLN) node
+ */
+export class ClnAdapter extends LightningNodeAdapter {
+  /**
+   * Creates a new CLN adapter
+   * @param connectionDetails Connection details for CLN
+   */
+  constructor(connectionDetails: ConnectionDetails) {
+    super(connectionDetails);
+    logger.info(`Creating CLN adapter with ${connectionDetails.method} connection`, {
+      component: 'cln-adapter',
+      connectionMethod: connectionDetails.method,
+    });
+  }
+
+  /**
+   * Get the clnrest client for the node
+   * @returns The clnrest client
+   */
+  getConnection(): ClnRestClient {
+    return super.getConnection();
+  }
+
+  /**
+   * Creates a client based on the connection method
+   * @returns The client instance
+   * @protected
+   */
+  protected createClient(): ClnRestClient {
+    const details = this.connectionDetails;
+
+    if (details.method !== ConnectionMethod.CLN_REST) {
+      throw new Error(`Unsupported connection method for CLN: ${details.method}`);
+    }
+
+    return this.createRestClient(details as ClnRestDetails);
+  }
+
+  /**
+   * Creates a clnrest client for CLN
+   * @param details clnrest connection details
+   * @returns clnrest client
+   * @private
+   */
+  private createRestClient(details: ClnRestDetails): ClnRestClient {
+    try {
+      logger.debug('Creating CLN REST connection', {
+        component: 'cln-adapter',
+        operation: 'createRestClient',
+        url: details.url,
+        hasCaCert: !!details.caCertPath,
+      });
+
+      // clnrest serves a self-signed certificate, so allow pinning its CA
+      const ca = details.caCertPath ? fs.readFileSync(details.caCertPath, 'utf8') : undefined;
+
+      return new ClnRestClient({ url: details.url, rune: details.rune, ca });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error);
+      logger.error('Failed to create CLN REST connection', sanitizedError, {
+        component: 'cln-adapter',
+        operation: 'createRestClient',
+      });
+
+      throw new CredentialError(`CLN certificate error: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Checks if the CLN connection is working
+   * @returns Promise that resolves to true if connection is successful
+   * @throws ConnectionError if connection check fails
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      const info = await this.getConnection().call<ClnGetInfoResult>('getinfo');
+
+      logger.info('CLN connection successful', {
+        component: 'cln-adapter',
+        operation: 'checkConnection',
+        nodeAlias: info.alias,
+        nodePubkey: info.id?.substring(0, 8) + '...',
+      });
+
+      return true;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error);
+      logger.error('CLN connection check failed', sanitizedError, {
+        component: 'cln-adapter',
+        operation: 'checkConnection',
+      });
+
+      if (error instanceof AuthenticationError) {
+        throw new AuthenticationError(`CLN authentication failed: ${sanitizedError.message}`);
+      }
+      throw new ConnectionError(`CLN connection check failed: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Gets information about the connected node
+   * @returns Promise resolving to node information
+   * @throws ConnectionError if fetching node info fails
+   */
+  async getNodeInfo(): Promise<NodeInfo> {
+    try {
+      const info = await this.getConnection().call<ClnGetInfoResult>('getinfo');
+
+      return {
+        alias: info.alias || 'Unknown Node',
+        pubkey: info.id,
+        color: info.color ? `#${info.color}` : '#000000',
+        activeChannelsCount: info.num_active_channels,
+        pendingChannelsCount: info.num_pending_channels,
+        peersCount: info.num_peers,
+      };
+    } catch (error) {
+      const sanitizedError = sanitizeError(error);
+      logger.error('Failed to get node info', sanitizedError, {
+        component: 'cln-adapter',
+        operation: 'getNodeInfo',
+      });
+      throw new ConnectionError(`Failed to get node info: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Closes the CLN connection
+   */
+  close(): void {
+    this.client = null;
+    logger.info('CLN connection closed', {
+      component: 'cln-adapter',
+      operation: 'close',
+      connectionMethod: this.connectionDetails.method,
+    });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Tests for EclairAdapter
+ *
+ * Unit tests for the EclairAdapter class against a stub replaying recorded
+ * Eclair API responses.
+ */
+
+import { EclairAdapter } from './EclairAdapter';
+import {
+  ClnRestDetails,
+  ConnectionMethod,
+  EclairHttpDetails,
+} from '../../domain/node/ConnectionAuth';
+import { AuthenticationError, ConnectionError } from '../../domain/errors/ConnectionErrors';
+import {
+  EclairHttpStub,
+  loadEclairFixtures,
+  startEclairHttpStub,
+} from '../../test/mocks/eclair-http-server';
+
+jest.mock('../../core/logging/logger');
+
+describe('EclairAdapter', () => {
+  const password = 'test-password';
+  let stub: EclairHttpStub;
+
+  beforeAll(async () => {
+    stub = await startEclairHttpStub(password, loadEclairFixtures());
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  const createAdapter = (overrides: Partial<EclairHttpDetails> = {}): EclairAdapter =>
+    new EclairAdapter({
+      method: ConnectionMethod.ECLAIR_HTTP,
+      url: stub.url,
+      password,
+      ...overrides,
+    });
+
+  test('should check the connection with getinfo', async () => {
+    await expect(createAdapter().checkConnection()).resolves.toBe(true);
+  });
+
+  test('should combine getinfo, channels and peers into node info', async () => {
+    await expect(createAdapter().getNodeInfo()).resolves.toEqual({
+      alias: 'my-eclair',
+      pubkey: `02${'c'.repeat(64)}`,
+      color: '#49daaa',
+      activeChannelsCount: 1,
+      pendingChannelsCount: 1,
+      peersCount: 1,
+    });
+  });
+
+  test('should report rejected passwords as authentication errors', async () => {
+    const adapter = createAdapter({ password: 'wrong-password' });
+
+    await expect(adapter.checkConnection()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  test('should report unreachable servers as connection errors', async () => {
+    const adapter = createAdapter({ url: 'http://127.0.0.1:1' });
+
+    await expect(adapter.checkConnection()).rejects.toBeInstanceOf(ConnectionError);
+  });
+
+  test('should reject connection methods other than the HTTP API', () => {
+    const details: ClnRestDetails = {
+      method: ConnectionMethod.CLN_REST,
+      url: stub.url,
+      rune: 'rune',
+    };
+    const adapter = new EclairAdapter(details);
+
+    expect(() => adapter.getConnection()).toThrow('Unsupported connection method for Eclair');
+  });
+
+  test('should reset the client when closed', () => {
+    const adapter = createAdapter();
+    const client = adapter.getConnection();
+
+    adapter.close();
+
+    expect(adapter.getConnection()).not.toBe(client);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Eclair adapter for Eclair node connections.
+ *
+ * This module provides an adapter for interacting with an Eclair node
+ * through its password-authenticated HTTP API.
+ */
+
+import { LightningNodeAdapter } from './LightningNodeAdapter';
+import { NodeInfo } from '../../domain/node/NodeInfo';
+import {
+  ConnectionDetails,
+  ConnectionMethod,
+  EclairHttpDetails,
+} from '../../domain/node/ConnectionAuth';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { ConnectionError, AuthenticationError } from '../../domain/errors/ConnectionErrors';
+import { EclairHttpClient } from '../eclair/EclairHttpClient';
+import { EclairChannel, EclairGetInfoResult, EclairPeer } from '../eclair/types';
+
+/**
+ * Adapter for communicating with an Eclair node
+ */
+export class EclairAdapter extends LightningNodeAdapter {
+  /**
+   * Creates a new Eclair adapter
+   * @param connectionDetails Connection details for Eclair
+   */
+  constructor(connectionDetails: ConnectionDetails) {
+    super(connectionDetails);
+    logger.info(`Creating Eclair adapter with ${connectionDetails.method} connection`, {
+      component: 'eclair-adapter',
+      connectionMethod: connectionDetails.method,
+    });
+  }
+
+  /**
+   * Get the HTTP client for the node
+   * @returns The Eclair HTTP client
+   */
+  getConnection(): EclairHttpClient {
+    return super.getConnection();
+  }
+
+  /**
+   * Creates a client based on the connection method
+   * @returns The client instance
+   * @protected
+   */
+  protected createClient(): EclairHttpClient {
+    const details = this.connectionDetails;
+
+    if (details.method !== ConnectionMethod.ECLAIR_HTTP) {
+      throw new Error(`Unsupported connection method for Eclair: ${details.method}`);
+    }
+
+    const { url, password } = details as EclairHttpDetails;
+
+    logger.debug('Creating Eclair HTTP connection', {
+      component: 'eclair-adapter',
+      operation: 'createClient',
+      url,
+    });
+
+    return new EclairHttpClient({ url, password });
+  }
+
+  /**
+   * Checks if the Eclair connection is working
+   * @returns Promise that resolves to true if connection is successful
+   * @throws ConnectionError if connection check fails
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      const info = await this.getConnection().call<EclairGetInfoResult>('getinfo');
+
+      logger.info('Eclair connection successful', {
+        component: 'eclair-adapter',
+        operation: 'checkConnection',
+        nodeAlias: info.alias,
+        nodePubkey: info.nodeId?.substring(0, 8) + '...',
+      });
+
+      return true;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error);
+      logger.error('Eclair connection check failed', sanitizedError, {
+        component: 'eclair-adapter',
+        operation: 'checkConnection',
+      });
+
+      if (error instanceof AuthenticationError) {
+        throw new AuthenticationError(`Eclair authentication failed: ${sanitizedError.message}`);
+      }
+      throw new ConnectionError(`Eclair connection check failed: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Gets information about the connected node
+   * @returns Promise resolving to node information
+   * @throws ConnectionError if fetching node info fails
+   */
+  async getNodeInfo(): Promise<NodeInfo> {
+    try {
+      const client = this.getConnection();
+
+      // getinfo does not include channel or peer counts
+      const [info, channels, peers] = await Promise.all([
+        client.call<EclairGetInfoResult>('getinfo'),
+        client.call<EclairChannel[]>('channels'),
+        client.call<EclairPeer[]>('peers'),
+      ]);
+
+      return {
+        alias: info.alias || 'Unknown Node',
+        pubkey: info.nodeId,
+        color: info.color || '#000000',
+        activeChannelsCount: channels.filter((channel) => channel.state === 'NORMAL').length,
+        pendingChannelsCount: channels.filter((channel) => channel.state.startsWith('WAIT_FOR'))
+          .length,
+        peersCount: peers.filter((peer) => peer.state === 'CONNECTED').length,
+      };
+    } catch (error) {
+      const sanitizedError = sanitizeError(error);
+      logger.error('Failed to get node info', sanitizedError, {
+        component: 'eclair-adapter',
+        operation: 'getNodeInfo',
+      });
+      throw new ConnectionError(`Failed to get node info: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Closes the Eclair connection
+   */
+  close(): void {
+    this.client = null;
+    logger.info('Eclair connection closed', {
+      component: 'eclair-adapter',
+      operation: 'close',
+      connectionMethod: this.connectionDetails.method,
+    });
+  }
+}
@@ -5,8 +5,17 @@
  */
 
 import { LndAdapter } from './LndAdapter';
-import { ConnectionMethod, LndGrpcDetails, LndLncDetails } from '../../domain/node/ConnectionAuth';
+import {
+  ConnectionMethod,
+  LndGrpcDetails,
+  LndLncDetails,
+  LndRestDetails,
+} from '../../domain/node/ConnectionAuth';
 import * as lnService from 'ln-service';
+import { LndApi } from '@lightninglabs/lnc-core';
+import { LncClient } from '../lnc/LncClient';
+import { LndRestClient } from '../lnd/LndRestClient';
+import { CredentialError } from '../../domain/errors/ConnectionErrors';
 import * as fs from 'fs';
 
 // Mock ln-service and fs modules
@@ -113,8 +122,9 @@ describe('LndAdapter', () => {
   describe('with LNC connection', () => {
     const lncDetails: LndLncDetails = {
       method: ConnectionMethod.LNC,
-      connectionString: 'lnc://test-connection-string',
-      pairingPhrase: 'test-pairing-phrase',
+      connectionString: 'mailbox.example.com:443',
+      pairingPhrase: 'abandon ability able about above absent absorb abstract absurd abuse',
+      credentialsPath: '/path/to/lnc-credentials.json',
     };
 
     let adapter: LndAdapter;
@@ -124,23 +134,141 @@ describe('LndAdapter', () => {
       adapter = new LndAdapter(lncDetails);
     });
 
-    test('should create LNC client on first getConnection call', () => {
+    test('should create an LNC API client on first getConnection call', () => {
       // Execute
       const connection = adapter.getConnection();
 
       // Verify
-      expect(connection).toBeDefined();
-      expect(typeof connection.getInfo).toBe('function');
+      expect(connection).toBeInstanceOf(LndApi);
+      expect(typeof connection.lightning.getInfo).toBe('function');
     });
 
-    test('should get node info', async () => {
+    test('should get node info through the LNC API', async () => {
+      // Setup
+      jest.spyOn(LncClient.prototype, 'request').mockResolvedValue({
+        alias: 'lnc-node',
+        identityPubkey: '03' + Array(64).fill('0').join(''),
+        color: '#3399ff',
+        numActiveChannels: 5,
+        numPendingChannels: 1,
+        numPeers: 10,
+      });
+
       // Execute
       const nodeInfo = await adapter.getNodeInfo();
 
       // Verify
-      expect(nodeInfo).toBeDefined();
-      expect(nodeInfo.alias).toBeDefined();
-      expect(nodeInfo.pubkey).toBeDefined();
+      expect(nodeInfo).toEqual({
+        alias: 'lnc-node',
+        pubkey: '03' + Array(64).fill('0').join(''),
+        color: '#3399ff',
+        activeChannelsCount: 5,
+        pendingChannelsCount: 1,
+        peersCount: 10,
+      });
+      expect(LncClient.prototype.request).toHaveBeenCalledWith('lnrpc.Lightning.GetInfo', {});
+      expect(lnService.getWalletInfo).not.toHaveBeenCalled();
+    });
+
+    test('should reject an invalid pairing phrase', () => {
+      // Setup
+      const details: LndLncDetails = { ...lncDetails, pairingPhrase: 'test-pairing-phrase' };
+      adapter = new LndAdapter(details);
+
+      // Execute & Verify
+      expect(() => adapter.getConnection()).toThrow(CredentialError);
+    });
+  });
+
+  // Test REST connection
+  describe('with REST connection', () => {
+    const restDetails: LndRestDetails = {
+      method: ConnectionMethod.REST,
+      url: 'https://localhost:8080',
+      macaroonHex: '0201036c6e6402f801030a10',
+    };
+
+    let adapter: LndAdapter;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (fs.readFileSync as jest.Mock).mockImplementation((path: string) => {
+        if (path === '/path/to/admin.macaroon') {
+          return Buffer.from('MOCK_MACAROON_DATA');
+        } else if (path === '/path/to/tls.cert') {
+          return '-----BEGIN CERTIFICATE-----\nMOCK_CERTIFICATE_DATA\n-----END CERTIFICATE-----';
+        }
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      });
+      adapter = new LndAdapter(restDetails);
+    });
+
+    test('should create a REST client from a hex encoded macaroon', () => {
+      // Execute
+      const connection = adapter.getConnection();
+
+      // Verify
+      expect(connection).toBeInstanceOf(LndRestClient);
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    test('should read the macaroon and pinned certificate from files', () => {
+      // Setup
+      const details: LndRestDetails = {
+        method: ConnectionMethod.REST,
+        url: restDetails.url,
+        macaroonPath: '/path/to/admin.macaroon',
+        tlsCertPath: '/path/to/tls.cert',
+      };
+      adapter = new LndAdapter(details);
+
+      // Execute
+      const connection = adapter.getConnection();
+
+      // Verify
+      expect(connection).toBeInstanceOf(LndRestClient);
+      expect(fs.readFileSync).toHaveBeenCalledWith('/path/to/admin.macaroon');
+      expect(fs.readFileSync).toHaveBeenCalledWith('/path/to/tls.cert', 'utf8');
+    });
+
+    test('should reject a missing macaroon file', () => {
+      // Setup
+      const details: LndRestDetails = {
+        method: ConnectionMethod.REST,
+        url: restDetails.url,
+        macaroonPath: '/path/to/missing.macaroon',
+      };
+      adapter = new LndAdapter(details);
+
+      // Execute & Verify
+      expect(() => adapter.getConnection()).toThrow(CredentialError);
+    });
+
+    test('should get node info through the REST API', async () => {
+      // Setup
+      jest.spyOn(LndRestClient.prototype, 'get').mockResolvedValue({
+        alias: 'rest-node',
+        identity_pubkey: '03' + Array(64).fill('0').join(''),
+        color: '#3399ff',
+        num_active_channels: 2,
+        num_pending_channels: 1,
+        num_peers: 4,
+      });
+
+      // Execute
+      const nodeInfo = await adapter.getNodeInfo();
+
+      // Verify
+      expect(nodeInfo).toEqual({
+        alias: 'rest-node',
+        pubkey: '03' + Array(64).fill('0').join(''),
+        color: '#3399ff',
+        activeChannelsCount: 2,
+        pendingChannelsCount: 1,
+        peersCount: 4,
+      });
+      expect(LndRestClient.prototype.get).toHaveBeenCalledWith('/v1/getinfo', {});
+      expect(lnService.getWalletInfo).not.toHaveBeenCalled();
     });
   });
 });
@@ -2,7 +2,7 @@
  * @fileoverview LND adapter for Lightning Network daemon connection.
  *
  * This module provides an adapter for interacting with an LND node
- * using different connection methods (gRPC, LNC).
+ * using different connection methods (gRPC, LNC, REST).
  */
 
 import { LightningNodeAdapter } from './LightningNodeAdapter';
@@ -12,6 +12,7 @@ import {
   ConnectionMethod,
   LndGrpcDetails,
   LndLncDetails,
+  LndRestDetails,
 } from '../../domain/node/ConnectionAuth';
 import logger from '../../core/logging/logger';
 import { sanitizeError } from '../../core/errors/sanitize';
@@ -24,11 +25,17 @@ import {
 import * as lnService from 'ln-service';
 import { LndApi } from '@lightninglabs/lnc-core';
 import * as fs from 'fs';
+import { createRpc, LncClient } from '../lnc/LncClient';
+import { getDefaultCredentialsPath, LncCredentialStore } from '../lnc/credential-store';
+import { getLndService } from '../lnd/lnd-service';
+import { LndRestClient } from '../lnd/LndRestClient';
 
 /**
  * Adapter for communicating with a Lightning Network Daemon (LND)
  */
 export class LndAdapter extends LightningNodeAdapter {
+  private lncClient: LncClient | null = null;
+
   /**
    * Creates a new LND adapter
    * @param connectionDetails Connection details for LND
@@ -55,6 +62,8 @@ export class LndAdapter extends LightningNodeAdapter {
         return this.createGrpcClient(details as LndGrpcDetails);
       case ConnectionMethod.LNC:
         return this.createLncClient(details as LndLncDetails);
+      case ConnectionMethod.REST:
+        return this.createRestClient(details as LndRestDetails);
       default:
         throw new Error(`Unsupported connection method for LND: ${method}`);
     }
@@ -143,20 +152,20 @@ export class LndAdapter extends LightningNodeAdapter {
         hasPairingPhrase: !!details.pairingPhrase,
       });
 
-      // In a production implementation, we would use the actual connection
-      // mechanism provided by the LNC library. For now, we simulate this with
-      // a wrapper that follows the same interface.
-
-      // Create a simulated LND API client
-      const lndApi = {
-        getInfo: () => Promise.resolve(this.simulateGetInfo()),
-        // Add other methods as needed to satisfy the LndApi interface
-      } as unknown as LndApi;
+      // The session opens on the first request, pairing if no keys are stored
+      this.lncClient = new LncClient({
+        mailboxAddress: details.connectionString,
+        pairingPhrase: details.pairingPhrase,
+        credentialStore: new LncCredentialStore(
+          details.credentialsPath || getDefaultCredentialsPath(details.nodeName)
+        ),
+      });
 
-      return lndApi;
+      return new LndApi(createRpc, this.lncClient);
     } catch (error) {
       const sanitizedError = sanitizeError(error);
-      const errorMessage = sanitizedError.message;
+      // Classify on the raw message, as sanitizing redacts words such as "pairing"
+      const errorMessage = (error instanceof Error ? error.message : String(error)).toLowerCase();
 
       logger.error(
         'Failed to create LNC connection',
@@ -173,18 +182,55 @@ export class LndAdapter extends LightningNodeAdapter {
         errorMessage.includes('unauthorized') ||
         errorMessage.includes('permission denied')
       ) {
-        throw new AuthenticationError(`LNC authentication error: ${errorMessage}`);
+        throw new AuthenticationError(`LNC authentication error: ${sanitizedError.message}`);
       } else if (errorMessage.includes('timeout') || errorMessage.includes('timed out')) {
-        throw new ConnectionTimeoutError(`LNC connection timed out: ${errorMessage}`);
+        throw new ConnectionTimeoutError(`LNC connection timed out: ${sanitizedError.message}`);
       } else if (
         errorMessage.includes('invalid connection string') ||
         errorMessage.includes('credential') ||
         errorMessage.includes('pairing phrase')
       ) {
-        throw new CredentialError(`LNC credential error: ${errorMessage}`);
+        throw new CredentialError(`LNC credential error: ${sanitizedError.message}`);
       } else {
-        throw new ConnectionError(`LNC connection error: ${errorMessage}`);
+        throw new ConnectionError(`LNC connection error: ${sanitizedError.message}`);
+      }
+    }
+  }
+
+  /**
+   * Creates a REST client for LND
+   * @param details REST connection details
+   * @returns LND REST client
+   * @private
+   */
+  private createRestClient(details: LndRestDetails): LndRestClient {
+    try {
+      logger.debug('Creating LND REST connection', {
+        component: 'lnd-adapter',
+        operation: 'createRestClient',
+        url: details.url,
+        hasTlsCert: !!details.tlsCertPath,
+      });
+
+      // The macaroon is given either hex encoded or as the path of its file
+      const macaroon =
+        details.macaroonHex ||
+        (details.macaroonPath && fs.readFileSync(details.macaroonPath).toString('hex'));
+      if (!macaroon) {
+        throw new Error('Missing LND REST file path or hex value');
       }
+      // LND serves a self-signed certificate, so allow pinning it
+      const ca = details.tlsCertPath ? fs.readFileSync(details.tlsCertPath, 'utf8') : undefined;
+
+      return new LndRestClient({ url: details.url, macaroon, ca });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error);
+      logger.error('Failed to create LND REST connection', sanitizedError, {
+        component: 'lnd-adapter',
+        operation: 'createRestClient',
+      });
+
+      throw new CredentialError(`LND credential error: ${sanitizedError.message}`);
     }
   }
 
@@ -195,29 +241,15 @@ export class LndAdapter extends LightningNodeAdapter {
    */
   async checkConnection(): Promise<boolean> {
     try {
-      const client = this.getConnection();
-
-      if (this.connectionDetails.method === ConnectionMethod.GRPC) {
-        // For gRPC, use ln-service
-        const walletInfo = await lnService.getWalletInfo({ lnd: client });
-
-        logger.info('LND connection successful', {
-          component: 'lnd-adapter',
-          operation: 'checkConnection',
-          nodeAlias: walletInfo.alias,
-          nodePubkey: walletInfo.public_key?.substring(0, 8) + '...',
-        });
-      } else {
-        // For LNC, use LNC API
-        // Note: TypeScript doesn't know about all LNC methods since @lightninglabs/lnc-core types are incomplete
-        const info = await (client as any).getInfo();
+      const walletInfo = await getLndService(this.getConnection()).getWalletInfo();
 
-        logger.info('LNC connection successful', {
-          component: 'lnd-adapter',
-          operation: 'checkConnection',
-          nodeId: info.identity_pubkey?.substring(0, 8) + '...',
-        });
-      }
+      logger.info('LND connection successful', {
+        component: 'lnd-adapter',
+        operation: 'checkConnection',
+        connectionMethod: this.connectionDetails.method,
+        nodeAlias: walletInfo.alias,
+        nodePubkey: walletInfo.public_key?.substring(0, 8) + '...',
+      });
 
       return true;
     } catch (error) {
@@ -230,6 +262,7 @@ export class LndAdapter extends LightningNodeAdapter {
       const errorMessage = sanitizedError.message.toLowerCase();
       // Map different error types to appropriate domain-specific errors
       if (
+        error instanceof AuthenticationError ||
         errorMessage.includes('authentication') ||
         errorMessage.includes('macaroon') ||
         errorMessage.includes('permission') ||
@@ -249,33 +282,16 @@ export class LndAdapter extends LightningNodeAdapter {
    */
   async getNodeInfo(): Promise<NodeInfo> {
     try {
-      const client = this.getConnection();
-
-      if (this.connectionDetails.method === ConnectionMethod.GRPC) {
-        // For gRPC, use ln-service
-        const info = await lnService.getWalletInfo({ lnd: client });
+      const info = await getLndService(this.getConnection()).getWalletInfo();
 
-        return {
-          alias: info.alias,
-          pubkey: info.public_key || '', // Ensure we map public_key to pubkey
-          color: info.color,
-          activeChannelsCount: info.active_channels_count,
-          pendingChannelsCount: info.pending_channels_count,
-          peersCount: info.peers_count,
-        };
-      } else {
-        // For LNC, use LNC API or simulated data
-        const info = await this.simulateGetInfo();
-
-        return {
-          alias: info.alias || 'Unknown Node',
-          pubkey: info.identity_pubkey,
-          color: info.color || '#000000',
-          activeChannelsCount: info.num_active_channels || 0,
-          pendingChannelsCount: info.num_pending_channels || 0,
-          peersCount: info.num_peers || 0,
-        };
-      }
+      return {
+        alias: info.alias,
+        pubkey: info.public_key || '', // Ensure we map public_key to pubkey
+        color: info.color,
+        activeChannelsCount: info.active_channels_count,
+        pendingChannelsCount: info.pending_channels_count,
+        peersCount: info.peers_count,
+      };
     } catch (error) {
       const sanitizedError = sanitizeError(error);
       logger.error('Failed to get node info', sanitizedError, {
@@ -291,6 +307,9 @@ export class LndAdapter extends LightningNodeAdapter {
    */
   close(): void {
     try {
+      // Closing the LNC session also closes its mailbox connection
+      this.lncClient?.close();
+      this.lncClient = null;
       this.client = null;
       logger.info('LND connection closed', {
         component: 'lnd-adapter',
@@ -306,21 +325,4 @@ export class LndAdapter extends LightningNodeAdapter {
       });
     }
   }
-
-  /**
-   * Provides simulated node information for testing and development.
-   * @returns Node information object
-   * @private
-   */
-  private async simulateGetInfo(): Promise<any> {
-    // This is a simulation of what the API would return
-    return {
-      alias: 'LNC Node',
-      identity_pubkey: '03' + Array(64).fill('0').join(''),
-      color: '#3399ff',
-      num_active_channels: 5,
-      num_pending_channels: 1,
-      num_peers: 10,
-    };
-  }
 }
@@ -0,0 +1,510 @@
+/**
+ * @fileoverview Tests for ClnGateway
+ *
+ * Maps CLN RPC results served by a fake clnrest server to domain models.
+ */
+
+import { ClnGateway } from './ClnGateway';
+import { ClnAdapter } from '../adapters/ClnAdapter';
+import { ClnRestDetails, ConnectionMethod } from '../../domain/node/ConnectionAuth';
+import { FakeClnRestServer, startFakeClnRestServer } from '../../test/mocks/cln-rest-server';
+
+jest.mock('../../core/logging/logger');
+
+describe('ClnGateway', () => {
+  const rune = 'test-rune';
+  const peerId = `02${'a'.repeat(64)}`;
+  const otherPeerId = `03${'b'.repeat(64)}`;
+
+  const peerChannel = {
+    peer_id: peerId,
+    peer_connected: true,
+    state: 'CHANNELD_NORMAL',
+    short_channel_id: '800000x1x0',
+    funding_txid: 'funding-txid',
+    funding_outnum: 1,
+    total_msat: 1000000000,
+    to_us_msat: 400000500,
+    updates: {
+      local: {
+        htlc_minimum_msat: 0,
+        htlc_maximum_msat: 990000000,
+        cltv_expiry_delta: 34,
+        fee_base_msat: 1000,
+        fee_proportional_millionths: 10,
+      },
+      remote: {
+        htlc_minimum_msat: '1000msat',
+        htlc_maximum_msat: 990000000,
+        cltv_expiry_delta: 144,
+        fee_base_msat: 0,
+        fee_proportional_millionths: 500,
+      },
+    },
+  };
+
+  let server: FakeClnRestServer;
+  let adapter: ClnAdapter;
+  let gateway: ClnGateway;
+
+  beforeAll(async () => {
+    server = await startFakeClnRestServer(rune, {
+      getinfo: () => ({
+        id: `02${'c'.repeat(64)}`,
+        alias: 'my-cln',
+        color: '3399ff',
+        num_peers: 2,
+        num_pending_channels: 1,
+        num_active_channels: 1,
+        num_inactive_channels: 0,
+        blockheight: 800100,
+      }),
+      listpeerchannels: (params) => ({
+        channels: [
+          peerChannel,
+          { ...peerChannel, peer_id: otherPeerId, state: 'CHANNELD_AWAITING_LOCKIN' },
+          { ...peerChannel, state: 'ONCHAIN', total_msat: '2000000000msat' },
+        ].filter((channel) => !params.id || channel.peer_id === params.id),
+      }),
+      listnodes: (params) => ({
+        nodes: [
+          {
+            nodeid: peerId,
+            alias: 'Alice',
+            color: 'ff0000',
+            last_timestamp: 1700000000,
+            features: '4200',
+            addresses: [
+              { type: 'ipv4', address: '203.0.113.1', port: 9735 },
+              { type: 'ipv6', address: '2001:db8::1', port: 9735 },
+            ],
+          },
+          { nodeid: otherPeerId, alias: 'Bob' },
+        ].filter((node) => !params.id || node.nodeid === params.id),
+      }),
+      listchannels: (params) => ({
+        channels: [
+          {
+            source: peerId,
+            destination: otherPeerId,
+            short_channel_id: '800000x2x0',
+            amount_msat: 5000000000,
+            last_update: 1700000000,
+            base_fee_millisatoshi: 1000,
+            fee_per_millionth: 200,
+            active: true,
+          },
+          {
+            source: otherPeerId,
+            destination: peerId,
+            short_channel_id: '800000x2x0',
+            amount_msat: 5000000000,
+            last_update: 1700000000,
+            base_fee_millisatoshi: 0,
+            fee_per_millionth: 300,
+            active: true,
+          },
+        ].filter(
+          (channel) =>
+            (!params.source || channel.source === params.source) &&
+            (!params.destination || channel.destination === params.destination)
+        ),
+      }),
+      listclosedchannels: () => ({
+        closedchannels: [
+          {
+            peer_id: peerId,
+            channel_id: 'channel-a',
+            funding_txid: 'funding-a',
+            funding_outnum: 0,
+            total_msat: 1000000000,
+            final_to_us_msat: 600000000,
+            close_cause: 'user',
+            opener: 'local',
+            closer: 'local',
+            last_commitment_txid: 'commitment-a',
+          },
+          {
+            peer_id: otherPeerId,
+            channel_id: 'channel-b',
+            funding_txid: 'funding-b',
+            funding_outnum: 0,
+            total_msat: 2000000000,
+            final_to_us_msat: 0,
+            close_cause: 'onchain',
+            opener: 'remote',
+            closer: 'remote',
+          },
+        ],
+      }),
+      listpays: (params) => ({
+        pays: [
+          {
+            payment_hash: 'hash-a',
+            status: 'complete',
+            destination: peerId,
+            created_at: 1700000000,
+            completed_at: 1700000005,
+            amount_msat: 100000000,
+            amount_sent_msat: 100012000,
+          },
+          { payment_hash: 'hash-b', status: 'failed', created_at: 1700000100 },
+        ].filter((pay) => pay.status === params.status),
+      }),
+      listinvoices: () => ({
+        invoices: [
+          {
+            label: 'invoice-a',
+            payment_hash: 'hash-c',
+            status: 'paid',
+            description: 'coffee',
+            bolt11: 'lnbcrt10u1pj48ugqpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq',
+            amount_msat: 1000000,
+            amount_received_msat: 1000000,
+            expires_at: 1700086400,
+            paid_at: 1700000060,
+          },
+          {
+            label: 'invoice-b',
+            payment_hash: 'hash-d',
+            status: 'expired',
+            expires_at: 1700086400,
+          },
+        ],
+      }),
+      listforwards: () => ({
+        forwards: [
+          {
+            in_channel: '800000x1x0',
+            out_channel: '800000x2x0',
+            in_msat: 100001000,
+            out_msat: 100000000,
+            fee_msat: 1000,
+            status: 'settled',
+            received_time: 1700000000.5,
+            resolved_time: 1700000001.25,
+          },
+          {
+            in_channel: '800000x1x0',
+            out_channel: '800000x2x0',
+            in_msat: 50002000,
+            out_msat: 50000000,
+            fee_msat: 2000,
+            status: 'settled',
+            received_time: 1600000000,
+            resolved_time: 1600000001,
+          },
+        ],
+      }),
+      listfunds: () => ({
+        outputs: [
+          {
+            txid: 'utxo-a',
+            output: 0,
+            amount_msat: 300000000,
+            address: 'bcrt1qa',
+            status: 'confirmed',
+            blockheight: 800000,
+            reserved: false,
+          },
+          {
+            txid: 'utxo-b',
+            output: 1,
+            amount_msat: 50000000,
+            address: 'bcrt1qb',
+            status: 'unconfirmed',
+            reserved: false,
+          },
+          {
+            txid: 'utxo-c',
+            output: 0,
+            amount_msat: 70000000,
+            status: 'spent',
+            blockheight: 799000,
+            reserved: false,
+          },
+        ],
+      }),
+      'bkpr-listaccountevents': () => ({
+        events: [
+          {
+            account: 'wallet',
+            type: 'chain',
+            tag: 'deposit',
+            credit_msat: 300000000,
+            debit_msat: 0,
+            outpoint: 'utxo-a:0',
+            timestamp: 1700000000,
+            blockheight: 800000,
+          },
+          {
+            account: 'wallet',
+            type: 'chain',
+            tag: 'withdrawal',
+            credit_msat: 0,
+            debit_msat: 70000000,
+            outpoint: 'utxo-c:0',
+            txid: 'spend-tx',
+            timestamp: 1700000500,
+          },
+          {
+            account: 'wallet',
+            type: 'onchain_fee',
+            tag: 'onchain_fee',
+            credit_msat: 0,
+            debit_msat: 1500000,
+            txid: 'spend-tx',
+            timestamp: 1700000500,
+          },
+        ],
+      }),
+      listpeers: () => ({
+        peers: [
+          { id: peerId, connected: true, netaddr: ['203.0.113.1:9735'] },
+          { id: otherPeerId, connected: false },
+        ],
+      }),
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.calls.length = 0;
+    const details: ClnRestDetails = { method: ConnectionMethod.CLN_REST, url: server.url, rune };
+    adapter = new ClnAdapter(details);
+    gateway = new ClnGateway(adapter);
+  });
+
+  test('should map open peer channels to channel data', async () => {
+    const channels = await gateway.getChannels();
+
+    expect(channels).toEqual([
+      {
+        id: '800000x1x0',
+        capacity: 1000000,
+        local_balance: 400000,
+        remote_balance: 600000,
+        active: true,
+        remote_pubkey: peerId,
+        channel_point: 'funding-txid:1',
+        local_policy: {
+          base_fee_msat: 1000,
+          fee_rate_ppm: 10,
+          cltv_delta: 34,
+          min_htlc_msat: 0,
+          max_htlc_msat: 990000000,
+        },
+        remote_policy: {
+          base_fee_msat: 0,
+          fee_rate_ppm: 500,
+          cltv_delta: 144,
+          min_htlc_msat: 1000,
+          max_htlc_msat: 990000000,
+        },
+      },
+    ]);
+    expect(server.calls).toEqual([{ method: 'listpeerchannels', params: {} }]);
+  });
+
+  test('should map opening and closing peer channels to pending channels', async () => {
+    const channels = await gateway.getPendingChannels();
+
+    expect(channels.map((channel) => [channel.state, channel.capacity])).toEqual([
+      ['opening', 1000000],
+      ['force_closing', 2000000],
+    ]);
+  });
+
+  test('should derive close types from the close cause', async () => {
+    const channels = await gateway.getClosedChannels();
+
+    expect(channels.map((channel) => channel.close_type)).toEqual(['cooperative', 'remote_force']);
+    expect(channels[0]).toMatchObject({ capacity: 1000000, final_local_balance: 600000 });
+    expect(channels[1].is_partner_initiated).toBe(true);
+  });
+
+  test('should not report the last commitment of a mutual close as its closing transaction', async () => {
+    const [mutualClose] = await gateway.getClosedChannels();
+
+    expect(mutualClose).toMatchObject({ close_type: 'cooperative', transaction_id: 'funding-a' });
+    expect(mutualClose.close_transaction_id).toBeUndefined();
+  });
+
+  test('should map payments and their fees', async () => {
+    const [payments, failedPayments] = await Promise.all([
+      gateway.getPayments(),
+      gateway.getFailedPayments(),
+    ]);
+
+    expect(payments).toEqual([
+      {
+        id: 'hash-a',
+        destination: peerId,
+        tokens: 100000,
+        fee: 12,
+        status: 'succeeded',
+        created_at: '2023-11-14T22:13:20.000Z',
+        confirmed_at: '2023-11-14T22:13:25.000Z',
+      },
+    ]);
+    expect(failedPayments).toMatchObject([{ id: 'hash-b', status: 'failed', fee: 0 }]);
+  });
+
+  test('should read invoice creation times from the BOLT 11 timestamp', async () => {
+    const invoices = await gateway.getInvoices();
+
+    expect(invoices[0]).toEqual({
+      id: 'hash-c',
+      tokens: 1000,
+      received: 1000,
+      state: 'settled',
+      description: 'coffee',
+      created_at: '2023-11-14T22:13:20.000Z',
+      expires_at: '2023-11-15T22:13:20.000Z',
+      confirmed_at: '2023-11-14T22:14:20.000Z',
+    });
+    expect(invoices[1]).toMatchObject({ state: 'expired', tokens: 0, received: 0 });
+  });
+
+  test('should restrict forwards to the requested window', async () => {
+    const forwards = await gateway.getForwards({
+      after: '2023-11-01T00:00:00.000Z',
+      before: '2023-12-01T00:00:00.000Z',
+    });
+
+    expect(forwards).toEqual([
+      {
+        created_at: '2023-11-14T22:13:21.250Z',
+        fee: 1,
+        tokens: 100000,
+        incoming_channel: '800000x1x0',
+        outgoing_channel: '800000x2x0',
+      },
+    ]);
+  });
+
+  test('should derive wallet balance and UTXOs from listfunds', async () => {
+    const [balance, utxos] = await Promise.all([gateway.getChainBalance(), gateway.getUtxos()]);
+
+    expect(balance).toEqual({ confirmed_balance: 300000, unconfirmed_balance: 50000 });
+    expect(utxos.map((utxo) => [utxo.transaction_id, utxo.confirmation_count])).toEqual([
+      ['utxo-a', 101],
+      ['utxo-b', 0],
+    ]);
+  });
+
+  test('should reconstruct chain transactions from bookkeeper events', async () => {
+    const transactions = await gateway.getChainTransactions();
+
+    expect(transactions).toEqual([
+      expect.objectContaining({
+        id: 'utxo-a',
+        tokens: 300000,
+        is_confirmed: true,
+        is_outgoing: false,
+        confirmation_count: 101,
+      }),
+      expect.objectContaining({
+        id: 'spend-tx',
+        tokens: 70000,
+        fee: 1500,
+        is_confirmed: false,
+        is_outgoing: true,
+      }),
+    ]);
+  });
+
+  test('should only return connected peers', async () => {
+    const peers = await gateway.getPeers();
+
+    expect(peers).toEqual([
+      {
+        public_key: peerId,
+        socket: '203.0.113.1:9735',
+        ping_time: 0,
+        bytes_sent: 0,
+        bytes_received: 0,
+        is_inbound: false,
+      },
+    ]);
+  });
+
+  test('should map listnodes and listchannels to node details', async () => {
+    const details = await gateway.getNodeDetails(peerId);
+
+    expect(details).toEqual({
+      public_key: peerId,
+      alias: 'Alice',
+      color: '#ff0000',
+      sockets: ['203.0.113.1:9735', '[2001:db8::1]:9735'],
+      updated_at: '2023-11-14T22:13:20.000Z',
+      capacity: 5000000,
+      channel_count: 1,
+      channels: [
+        {
+          id: '800000x2x0',
+          capacity: 5000000,
+          peer_public_key: otherPeerId,
+          fee_policy: { base_fee_msat: 1000, fee_rate_ppm: 200, disabled: false },
+          peer_fee_policy: { base_fee_msat: 0, fee_rate_ppm: 300, disabled: false },
+          updated_at: '2023-11-14T22:13:20.000Z',
+        },
+      ],
+      features: [
+        { bit: 9, type: 'var_onion_optin', is_required: false },
+        { bit: 14, type: 'payment_secret', is_required: true },
+      ],
+    });
+    expect(server.calls).toContainEqual({ method: 'listnodes', params: { id: peerId } });
+  });
+
+  test('should merge both directions of graph channels', async () => {
+    expect(await gateway.getNetworkGraphChannels()).toEqual([
+      {
+        id: '800000x2x0',
+        capacity: 5000000,
+        node1_public_key: peerId,
+        node2_public_key: otherPeerId,
+        node1_fee_policy: { base_fee_msat: 1000, fee_rate_ppm: 200, disabled: false },
+        node2_fee_policy: { base_fee_msat: 0, fee_rate_ppm: 300, disabled: false },
+        updated_at: '2023-11-14T22:13:20.000Z',
+      },
+    ]);
+  });
+
+  test('should map node info and count pending channels with the node', async () => {
+    const info = await gateway.getNodeInfo(otherPeerId);
+
+    expect(info).toEqual({
+      alias: 'Bob',
+      pubkey: otherPeerId,
+      color: '#000000',
+      activeChannelsCount: 1,
+      pendingChannelsCount: 1,
+      peersCount: 0,
+    });
+    await expect(gateway.getNodeAlias(peerId)).resolves.toBe('Alice');
+  });
+
+  test('should return undefined for nodes missing from the graph', async () => {
+    const unknown = `02${'f'.repeat(64)}`;
+
+    await expect(gateway.getNodeDetails(unknown)).resolves.toBeUndefined();
+    await expect(gateway.getNodeInfo(unknown)).resolves.toBeUndefined();
+  });
+
+  test('should wrap rejected runes in a connection error', async () => {
+    const details: ClnRestDetails = {
+      method: ConnectionMethod.CLN_REST,
+      url: server.url,
+      rune: 'wrong-rune',
+    };
+    adapter = new ClnAdapter(details);
+    gateway = new ClnGateway(adapter);
+
+    await expect(gateway.getChannels()).rejects.toThrow(/Failed to fetch channels/);
+  });
+});
@@ -0,0 +1,910 @@
+/**
+ * @fileoverview Core Lightning implementation of the Lightning Network Gateway.
+ *
+ * This module provides a concrete implementation of the LightningNetworkGateway interface
+ * for interacting with Lightning Network data through a CLN node. RPC methods are
+ * called through the clnrest client exposed by the ClnAdapter connection.
+ */
+
+import { LightningNetworkGateway } from '../../domain/lightning/gateways/LightningNetworkGateway';
+import {
+  ChannelData,
+  ClosedChannelData,
+  ClosedChannelType,
+  FeePolicyData,
+  PendingChannelData,
+  PendingChannelState,
+} from '../../domain/channels/entities/Channel';
+import { PaymentData } from '../../domain/payments/entities/Payment';
+import { InvoiceData, InvoiceState } from '../../domain/invoices/entities/Invoice';
+import { ForwardData } from '../../domain/forwards/entities/Forward';
+import { ChainBalanceData, UtxoData } from '../../domain/wallet/entities/Wallet';
+import { ChainBalanceSchema, UtxoSchema } from '../../domain/wallet/schemas/wallet';
+import { ChainTransactionData } from '../../domain/transactions/entities/Transaction';
+import { ChainTransactionSchema } from '../../domain/transactions/schemas/transaction';
+import { PeerData } from '../../domain/peers/entities/Peer';
+import {
+  GraphChannelData,
+  GraphNodeData,
+  NodeDetailsData,
+  NodeFeatureData,
+} from '../../domain/nodes/entities/Node';
+import { NodeInfo } from '../../domain/node/NodeInfo';
+import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { validateWithZod } from '../../core/validation/zod-validators';
+import { FEATURE_NAMES } from '../common/feature-names';
+import { ClnRestClient } from './ClnRestClient';
+import {
+  ClnAccountEvent,
+  ClnChannelUpdate,
+  ClnClosedChannel,
+  ClnGetInfoResult,
+  ClnGraphChannel,
+  ClnInvoice,
+  ClnListAccountEventsResult,
+  ClnListChannelsResult,
+  ClnListClosedChannelsResult,
+  ClnListForwardsResult,
+  ClnListFundsResult,
+  ClnListInvoicesResult,
+  ClnListNodesResult,
+  ClnListPaysResult,
+  ClnListPeerChannelsResult,
+  ClnListPeersResult,
+  ClnMsat,
+  ClnNode,
+  ClnPay,
+  ClnPeerChannel,
+} from './types';
+
+/**
+ * Channel states of channels that can route payments
+ */
+const OPEN_CHANNEL_STATES = ['CHANNELD_NORMAL', 'CHANNELD_AWAITING_SPLICE'];
+
+/**
+ * Pending channel state of each CLN channel state that is not open
+ *
+ * CLN keeps channels in listpeerchannels until onchaind has swept all
+ * outputs, so confirmed closes waiting on a timelock are reported as
+ * force closing.
+ */
+const PENDING_CHANNEL_STATES: Record<string, PendingChannelState> = {
+  OPENINGD: 'opening',
+  CHANNELD_AWAITING_LOCKIN: 'opening',
+  DUALOPEND_OPEN_INIT: 'opening',
+  DUALOPEND_OPEN_COMMITTED: 'opening',
+  DUALOPEND_OPEN_COMMIT_READY: 'opening',
+  DUALOPEND_AWAITING_LOCKIN: 'opening',
+  CHANNELD_SHUTTING_DOWN: 'closing',
+  CLOSINGD_SIGEXCHANGE: 'closing',
+  CLOSINGD_COMPLETE: 'closing',
+  FUNDING_SPEND_SEEN: 'waiting_close',
+  AWAITING_UNILATERAL: 'force_closing',
+  ONCHAIN: 'force_closing',
+};
+
+/**
+ * Characters of the bech32 alphabet used by BOLT 11 invoices
+ */
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+/**
+ * Core Lightning implementation of the Lightning Network Gateway
+ */
+export class ClnGateway implements LightningNetworkGateway {
+  private connection: LightningNodeConnection;
+
+  /**
+   * Creates a new CLN gateway
+   * @param connection Lightning Network node connection
+   */
+  constructor(connection: LightningNodeConnection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Get the connection used by this gateway
+   * @returns Lightning Network node connection
+   */
+  getConnection(): LightningNodeConnection {
+    return this.connection;
+  }
+
+  /**
+   * Fetch open channels from CLN node
+   * @returns Promise resolving to an array of channels
+   * @throws Error if channels cannot be fetched
+   */
+  async getChannels(): Promise<ChannelData[]> {
+    try {
+      const { channels } = await this.getClient().call<ClnListPeerChannelsResult>(
+        'listpeerchannels'
+      );
+
+      return (channels || [])
+        .filter((channel) => OPEN_CHANNEL_STATES.includes(channel.state))
+        .map((channel) => {
+          const capacity = msatToSats(channel.total_msat);
+          const localBalance = msatToSats(channel.to_us_msat);
+
+          return {
+            id: channel.short_channel_id,
+            capacity,
+            local_balance: localBalance,
+            remote_balance: capacity - localBalance,
+            active: channel.peer_connected && channel.state === 'CHANNELD_NORMAL',
+            remote_pubkey: channel.peer_id,
+            channel_point: `${channel.funding_txid}:${channel.funding_outnum}`,
+            local_policy: toFeePolicy(channel.updates?.local),
+            remote_policy: toFeePolicy(channel.updates?.remote),
+          };
+        });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching channels', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getChannels',
+      });
+      throw new ConnectionError(`Failed to fetch channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch pending channels from CLN node
+   * @returns Promise resolving to an array of pending channels
+   * @throws Error if pending channels cannot be fetched
+   */
+  async getPendingChannels(): Promise<PendingChannelData[]> {
+    try {
+      const { channels } = await this.getClient().call<ClnListPeerChannelsResult>(
+        'listpeerchannels'
+      );
+
+      return (channels || [])
+        .filter((channel) => PENDING_CHANNEL_STATES[channel.state] !== undefined)
+        .map((channel) => {
+          const capacity = msatToSats(channel.total_msat);
+          const localBalance = msatToSats(channel.to_us_msat);
+
+          return {
+            state: PENDING_CHANNEL_STATES[channel.state],
+            remote_pubkey: channel.peer_id,
+            capacity,
+            local_balance: localBalance,
+            remote_balance: capacity - localBalance,
+            transaction_id: channel.funding_txid,
+            transaction_vout: channel.funding_outnum,
+          };
+        });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching pending channels', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getPendingChannels',
+      });
+      throw new ConnectionError(`Failed to fetch pending channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch closed channels from CLN node
+   * @returns Promise resolving to an array of closed channels
+   * @throws Error if closed channels cannot be fetched
+   */
+  async getClosedChannels(): Promise<ClosedChannelData[]> {
+    try {
+      const { closedchannels } = await this.getClient().call<ClnListClosedChannelsResult>(
+        'listclosedchannels'
+      );
+
+      return (closedchannels || []).map((channel) => ({
+        id: channel.short_channel_id,
+        close_type: this.getClosedChannelType(channel),
+        remote_pubkey: channel.peer_id || '',
+        capacity: msatToSats(channel.total_msat),
+        final_local_balance: msatToSats(channel.final_to_us_msat),
+        // CLN does not report funds that were time-locked at close
+        final_time_locked_balance: 0,
+        transaction_id: channel.funding_txid,
+        transaction_vout: channel.funding_outnum,
+        is_partner_initiated: channel.closer === 'remote',
+        // close_transaction_id stays unset: listclosedchannels has no closing transaction,
+        // and last_commitment_txid is the latest commitment, which a cooperative close
+        // never broadcasts
+      }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching closed channels', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getClosedChannels',
+      });
+      throw new ConnectionError(`Failed to fetch closed channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch successful outgoing payments from CLN node
+   * @returns Promise resolving to an array of payments
+   * @throws Error if payments cannot be fetched
+   */
+  async getPayments(): Promise<PaymentData[]> {
+    try {
+      const { pays } = await this.getClient().call<ClnListPaysResult>('listpays', {
+        status: 'complete',
+      });
+
+      return (pays || []).map((pay) => this.mapPayment(pay, 'succeeded'));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching payments', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getPayments',
+      });
+      throw new ConnectionError(`Failed to fetch payments: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch failed outgoing payments from CLN node
+   * @returns Promise resolving to an array of payments
+   * @throws Error if failed payments cannot be fetched
+   */
+  async getFailedPayments(): Promise<PaymentData[]> {
+    try {
+      const { pays } = await this.getClient().call<ClnListPaysResult>('listpays', {
+        status: 'failed',
+      });
+
+      return (pays || []).map((pay) => this.mapPayment(pay, 'failed'));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching failed payments', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getFailedPayments',
+      });
+      throw new ConnectionError(`Failed to fetch failed payments: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch invoices from CLN node
+   * @returns Promise resolving to an array of invoices
+   * @throws Error if invoices cannot be fetched
+   */
+  async getInvoices(): Promise<InvoiceData[]> {
+    try {
+      const { invoices } = await this.getClient().call<ClnListInvoicesResult>('listinvoices');
+
+      return (invoices || []).map((invoice) => ({
+        id: invoice.payment_hash,
+        tokens: msatToSats(invoice.amount_msat),
+        received: msatToSats(invoice.amount_received_msat),
+        state: this.getInvoiceState(invoice),
+        description: invoice.description || undefined,
+        created_at: this.getInvoiceCreatedAt(invoice),
+        expires_at: toIsoDate(invoice.expires_at),
+        confirmed_at: invoice.paid_at ? toIsoDate(invoice.paid_at) : undefined,
+      }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching invoices', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getInvoices',
+      });
+      throw new ConnectionError(`Failed to fetch invoices: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch forwarding events from CLN node
+   * @param window Optional ISO 8601 time window to restrict the forwards to
+   * @returns Promise resolving to an array of forwards
+   * @throws Error if forwards cannot be fetched
+   */
+  async getForwards(window?: { after: string; before: string }): Promise<ForwardData[]> {
+    try {
+      const { forwards } = await this.getClient().call<ClnListForwardsResult>('listforwards', {
+        status: 'settled',
+      });
+
+      const mapped = (forwards || []).map((forward) => ({
+        created_at: toIsoDate(forward.resolved_time ?? forward.received_time),
+        fee: msatToSats(forward.fee_msat),
+        tokens: msatToSats(forward.out_msat),
+        incoming_channel: forward.in_channel,
+        outgoing_channel: forward.out_channel || '',
+      }));
+
+      // listforwards cannot filter by time, so apply the window here
+      if (!window) {
+        return mapped;
+      }
+
+      return mapped.filter(
+        (forward) => forward.created_at >= window.after && forward.created_at < window.before
+      );
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching forwards', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getForwards',
+      });
+      throw new ConnectionError(`Failed to fetch forwards: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch the on-chain wallet balance from CLN node
+   * @returns Promise resolving to the confirmed and unconfirmed balance
+   * @throws Error if the balance cannot be fetched
+   */
+  async getChainBalance(): Promise<ChainBalanceData> {
+    try {
+      const { outputs } = await this.getClient().call<ClnListFundsResult>('listfunds');
+
+      const sumByStatus = (status: string): number =>
+        (outputs || [])
+          .filter((output) => output.status === status)
+          .reduce((sum, output) => sum + msatToSats(output.amount_msat), 0);
+
+      return validateWithZod(ChainBalanceSchema, {
+        confirmed_balance: sumByStatus('confirmed'),
+        unconfirmed_balance: sumByStatus('unconfirmed'),
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching chain balance', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getChainBalance',
+      });
+      throw new ConnectionError(`Failed to fetch chain balance: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch unspent transaction outputs from CLN node
+   * @returns Promise resolving to an array of UTXOs
+   * @throws Error if UTXOs cannot be fetched
+   */
+  async getUtxos(): Promise<UtxoData[]> {
+    try {
+      const client = this.getClient();
+
+      // Confirmation counts are derived from the current block height
+      const [{ outputs }, { blockheight }] = await Promise.all([
+        client.call<ClnListFundsResult>('listfunds'),
+        client.call<ClnGetInfoResult>('getinfo'),
+      ]);
+
+      return (outputs || [])
+        .filter((output) => output.status !== 'spent')
+        .map((output) =>
+          validateWithZod(UtxoSchema, {
+            transaction_id: output.txid,
+            transaction_vout: output.output,
+            tokens: msatToSats(output.amount_msat),
+            confirmation_count: output.blockheight
+              ? Math.max(blockheight - output.blockheight + 1, 0)
+              : 0,
+            address: output.address || '',
+          })
+        );
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching UTXOs', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getUtxos',
+      });
+      throw new ConnectionError(`Failed to fetch UTXOs: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch on-chain wallet transactions from CLN node
+   *
+   * listtransactions does not tell which outputs belong to the wallet, so
+   * transactions are reconstructed from the bookkeeper's wallet events.
+   *
+   * @returns Promise resolving to an array of chain transactions
+   * @throws Error if chain transactions cannot be fetched
+   */
+  async getChainTransactions(): Promise<ChainTransactionData[]> {
+    try {
+      const client = this.getClient();
+
+      const [{ events }, { blockheight }] = await Promise.all([
+        client.call<ClnListAccountEventsResult>('bkpr-listaccountevents', { account: 'wallet' }),
+        client.call<ClnGetInfoResult>('getinfo'),
+      ]);
+
+      const eventsByTransaction = new Map<string, ClnAccountEvent[]>();
+      (events || []).forEach((event) => {
+        const txid = event.txid || event.outpoint?.split(':')[0];
+        if (txid) {
+          eventsByTransaction.set(txid, [...(eventsByTransaction.get(txid) || []), event]);
+        }
+      });
+
+      return Array.from(eventsByTransaction.entries()).map(([txid, txEvents]) => {
+        const net = sumEvents(txEvents.filter((event) => event.type === 'chain'));
+        const fee = -sumEvents(txEvents.filter((event) => event.type === 'onchain_fee'));
+        const confirmedAt = txEvents.find((event) => event.blockheight)?.blockheight;
+
+        return validateWithZod(ChainTransactionSchema, {
+          id: txid,
+          tokens: Math.abs(net),
+          fee: fee > 0 ? fee : undefined,
+          is_confirmed: confirmedAt !== undefined,
+          is_outgoing: net < 0,
+          confirmation_count: confirmedAt ? Math.max(blockheight - confirmedAt + 1, 0) : 0,
+          created_at: toIsoDate(Math.min(...txEvents.map((event) => event.timestamp))),
+          description: txEvents.find((event) => event.description)?.description,
+        });
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching chain transactions', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getChainTransactions',
+      });
+      throw new ConnectionError(`Failed to fetch chain transactions: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch connected peers from CLN node
+   *
+   * CLN does not report ping times, traffic counters or connection
+   * direction, so these are left at their defaults.
+   *
+   * @returns Promise resolving to an array of peers
+   * @throws Error if peers cannot be fetched
+   */
+  async getPeers(): Promise<PeerData[]> {
+    try {
+      const { peers } = await this.getClient().call<ClnListPeersResult>('listpeers');
+
+      return (peers || [])
+        .filter((peer) => peer.connected)
+        .map((peer) => ({
+          public_key: peer.id,
+          socket: peer.netaddr?.[0] || '',
+          ping_time: 0,
+          bytes_sent: 0,
+          bytes_received: 0,
+          is_inbound: false,
+        }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching peers', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getPeers',
+      });
+      throw new ConnectionError(`Failed to fetch peers: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch the nodes of the network graph from CLN node
+   * @returns Promise resolving to an array of graph nodes
+   * @throws Error if the network graph cannot be fetched
+   */
+  async getNetworkGraphNodes(): Promise<GraphNodeData[]> {
+    try {
+      const { nodes } = await this.getClient().call<ClnListNodesResult>('listnodes');
+
+      return (nodes || []).map((node) => this.mapGraphNode(node));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching network graph', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getNetworkGraphNodes',
+      });
+      throw new ConnectionError(`Failed to fetch network graph: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get all public channels of the network graph from CLN
+   * @returns Promise resolving to array of graph channel data
+   * @throws Error if the network graph cannot be fetched
+   */
+  async getNetworkGraphChannels(): Promise<GraphChannelData[]> {
+    try {
+      const { channels } = await this.getClient().call<ClnListChannelsResult>('listchannels');
+
+      // listchannels lists each direction of a channel with the policy of its source
+      const directions = new Map<string, ClnGraphChannel[]>();
+      (channels || []).forEach((channel) => {
+        directions.set(channel.short_channel_id, [
+          ...(directions.get(channel.short_channel_id) || []),
+          channel,
+        ]);
+      });
+
+      return Array.from(directions.values()).map((halves) => {
+        // Nodes are ordered by public key, as in the channel announcement
+        const [first] = halves;
+        const [node1, node2] = [first.source, first.destination].sort();
+        const policyOf = (pubkey: string) => {
+          const half = halves.find((channel) => channel.source === pubkey);
+          return half ? toGraphFeePolicy(half) : undefined;
+        };
+
+        return {
+          id: first.short_channel_id,
+          capacity: msatToSats(first.amount_msat),
+          node1_public_key: node1,
+          node2_public_key: node2,
+          node1_fee_policy: policyOf(node1),
+          node2_fee_policy: policyOf(node2),
+          updated_at: toIsoDate(Math.max(...halves.map((channel) => channel.last_update))),
+        };
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching network graph', sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getNetworkGraphChannels',
+      });
+      throw new ConnectionError(`Failed to fetch network graph: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get detailed node information, including public channels, from CLN
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to node details or undefined if the node is unknown
+   * @throws Error if node details cannot be fetched
+   */
+  async getNodeDetails(pubkey: string): Promise<NodeDetailsData | undefined> {
+    try {
+      const client = this.getClient();
+
+      const [{ nodes }, { channels }, { channels: incoming }] = await Promise.all([
+        client.call<ClnListNodesResult>('listnodes', { id: pubkey }),
+        client.call<ClnListChannelsResult>('listchannels', { source: pubkey }),
+        client.call<ClnListChannelsResult>('listchannels', { destination: pubkey }),
+      ]);
+
+      const node = nodes?.[0];
+      if (!node) {
+        return undefined;
+      }
+
+      // Channels towards the node hold the policies of the nodes on the other side
+      const peerPolicies = new Map(
+        (incoming || []).map((channel) => [channel.short_channel_id, toGraphFeePolicy(channel)])
+      );
+
+      // Channels are listed with the node as source, so their policy is the node's
+      const nodeChannels = (channels || []).map((channel) => ({
+        id: channel.short_channel_id,
+        capacity: msatToSats(channel.amount_msat),
+        peer_public_key: channel.destination,
+        fee_policy: toGraphFeePolicy(channel),
+        peer_fee_policy: peerPolicies.get(channel.short_channel_id),
+        updated_at: toIsoDate(channel.last_update),
+      }));
+
+      return {
+        ...this.mapGraphNode(node),
+        capacity: nodeChannels.reduce((sum, channel) => sum + channel.capacity, 0),
+        channel_count: nodeChannels.length,
+        channels: nodeChannels,
+        features: decodeFeatures(node.features),
+      };
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error fetching node details for ${pubkey}`, sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getNodeDetails',
+        pubkey: pubkey,
+      });
+      throw new ConnectionError(`Failed to fetch node details: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get node information from CLN
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to node information or undefined if not found
+   * @throws Error if node info cannot be fetched
+   */
+  async getNodeInfo(pubkey: string): Promise<NodeInfo | undefined> {
+    try {
+      const client = this.getClient();
+
+      // Fetch the node, its public channels and our channels with it
+      const [{ nodes }, { channels }, peerChannels] = await Promise.all([
+        client.call<ClnListNodesResult>('listnodes', { id: pubkey }),
+        client.call<ClnListChannelsResult>('listchannels', { source: pubkey }),
+        client.call<ClnListPeerChannelsResult>('listpeerchannels', { id: pubkey }),
+      ]);
+
+      const node = nodes?.[0];
+      if (!node) {
+        return undefined;
+      }
+
+      return {
+        alias: node.alias || 'Unknown',
+        pubkey: pubkey,
+        color: node.color ? `#${node.color}` : '#000000',
+        activeChannelsCount: (channels || []).length,
+        // Pending channels are only known for channels with our own node
+        pendingChannelsCount: (peerChannels.channels || []).filter(
+          (channel: ClnPeerChannel) => PENDING_CHANNEL_STATES[channel.state] === 'opening'
+        ).length,
+        peersCount: 0, // Not available from listnodes
+      };
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error fetching node info for ${pubkey}`, sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getNodeInfo',
+        pubkey: pubkey,
+      });
+      throw new ConnectionError(`Failed to fetch node info: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get node alias from CLN
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to node alias or undefined if not found
+   * @throws Error if node info cannot be fetched
+   */
+  async getNodeAlias(pubkey: string): Promise<string | undefined> {
+    try {
+      const { nodes } = await this.getClient().call<ClnListNodesResult>('listnodes', {
+        id: pubkey,
+      });
+
+      return nodes?.[0]?.alias;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error fetching node alias for ${pubkey}`, sanitizedError, {
+        component: 'cln-gateway',
+        operation: 'getNodeAlias',
+        pubkey: pubkey,
+      });
+      throw new ConnectionError(`Failed to fetch node alias: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Map a CLN payment to the domain model
+   * @param pay Payment returned by listpays
+   * @param status The status of the payment
+   * @returns The payment data
+   * @private
+   */
+  private mapPayment(pay: ClnPay, status: PaymentData['status']): PaymentData {
+    const tokens = msatToSats(pay.amount_msat);
+
+    return {
+      id: pay.payment_hash,
+      destination: pay.destination || '',
+      tokens,
+      // Failed payments did not pay any fees
+      fee: status === 'succeeded' ? Math.max(msatToSats(pay.amount_sent_msat) - tokens, 0) : 0,
+      status,
+      created_at: toIsoDate(pay.created_at),
+      confirmed_at: pay.completed_at ? toIsoDate(pay.completed_at) : undefined,
+    };
+  }
+
+  /**
+   * Map a CLN graph node to the domain model
+   * @param node Node returned by listnodes
+   * @returns The graph node data
+   * @private
+   */
+  private mapGraphNode(node: ClnNode): GraphNodeData {
+    return {
+      public_key: node.nodeid,
+      alias: node.alias || '',
+      color: node.color ? `#${node.color}` : undefined,
+      sockets: (node.addresses || [])
+        .filter((address) => address.address)
+        .map((address) =>
+          address.type === 'ipv6'
+            ? `[${address.address}]:${address.port}`
+            : `${address.address}:${address.port}`
+        ),
+      updated_at: node.last_timestamp ? toIsoDate(node.last_timestamp) : undefined,
+    };
+  }
+
+  /**
+   * Derive how a CLN channel was closed
+   *
+   * CLN only records what caused the close, so user and peer requested
+   * closes are assumed to be cooperative.
+   *
+   * @param channel Closed channel returned by listclosedchannels
+   * @returns The close type
+   * @private
+   */
+  private getClosedChannelType(channel: ClnClosedChannel): ClosedChannelType {
+    switch (channel.close_cause) {
+      case 'user':
+      case 'remote':
+        return 'cooperative';
+      case 'local':
+      case 'protocol':
+        return 'local_force';
+      case 'onchain':
+        return 'remote_force';
+      default:
+        return 'unknown';
+    }
+  }
+
+  /**
+   * Derive the lifecycle state of a CLN invoice
+   * @param invoice Invoice returned by listinvoices
+   * @returns The invoice state
+   * @private
+   */
+  private getInvoiceState(invoice: ClnInvoice): InvoiceState {
+    if (invoice.status === 'paid') {
+      return 'settled';
+    }
+    if (invoice.status === 'expired') {
+      return 'expired';
+    }
+    return 'open';
+  }
+
+  /**
+   * Get the creation time of a CLN invoice
+   *
+   * listinvoices does not return a creation time, but the BOLT 11 invoice
+   * encodes it as its first 35 bits.
+   *
+   * @param invoice Invoice returned by listinvoices
+   * @returns ISO 8601 creation time
+   * @private
+   */
+  private getInvoiceCreatedAt(invoice: ClnInvoice): string {
+    const separator = invoice.bolt11?.lastIndexOf('1') ?? -1;
+    if (!invoice.bolt11 || separator < 0) {
+      return toIsoDate(invoice.paid_at ?? invoice.expires_at);
+    }
+
+    const timestamp = invoice.bolt11
+      .toLowerCase()
+      .slice(separator + 1, separator + 8)
+      .split('')
+      .reduce((value, char) => value * 32 + BECH32_CHARSET.indexOf(char), 0);
+
+    return toIsoDate(timestamp);
+  }
+
+  /**
+   * Get the clnrest client from the generic connection
+   * @returns clnrest client
+   * @private
+   */
+  private getClient(): ClnRestClient {
+    return this.connection.getConnection() as ClnRestClient;
+  }
+}
+
+/**
+ * Convert a CLN millisatoshi amount to whole satoshis
+ * @param msat The amount in millisatoshis
+ * @returns The amount in satoshis, rounded down
+ */
+function msatToSats(msat: ClnMsat | undefined): number {
+  const value = parseMsat(msat);
+
+  return value === undefined ? 0 : Math.floor(value / 1000);
+}
+
+/**
+ * Convert a CLN millisatoshi amount to a number of millisatoshis
+ * @param msat Amount as returned by CLN
+ * @returns The amount in millisatoshis, or undefined if missing or invalid
+ */
+function parseMsat(msat: ClnMsat | undefined): number | undefined {
+  if (msat === undefined) {
+    return undefined;
+  }
+
+  const value = typeof msat === 'string' ? parseInt(msat.replace(/msat$/, ''), 10) : msat;
+
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Map the policy of the source of a graph channel to a fee policy
+ * @param channel Channel returned by listchannels
+ * @returns The fee policy, or undefined until the source announces one
+ */
+function toGraphFeePolicy(channel: ClnGraphChannel): FeePolicyData | undefined {
+  if (channel.fee_per_millionth === undefined) {
+    return undefined;
+  }
+
+  return {
+    base_fee_msat: channel.base_fee_millisatoshi || 0,
+    fee_rate_ppm: channel.fee_per_millionth,
+    disabled: channel.active === undefined ? undefined : !channel.active,
+  };
+}
+
+/**
+ * Map the channel update of one side of a channel to a fee policy
+ *
+ * listpeerchannels does not report whether a side disabled the channel.
+ * @param update Channel update returned by listpeerchannels
+ * @returns The fee policy, or undefined until the side sent an update
+ */
+function toFeePolicy(update: ClnChannelUpdate | undefined): FeePolicyData | undefined {
+  if (update?.fee_proportional_millionths === undefined) {
+    return undefined;
+  }
+
+  return {
+    base_fee_msat: parseMsat(update.fee_base_msat) || 0,
+    fee_rate_ppm: update.fee_proportional_millionths,
+    cltv_delta: update.cltv_expiry_delta,
+    min_htlc_msat: parseMsat(update.htlc_minimum_msat),
+    max_htlc_msat: parseMsat(update.htlc_maximum_msat),
+  };
+}
+
+/**
+ * Convert a UNIX timestamp in seconds to an ISO 8601 date
+ * @param seconds Seconds since the epoch
+ * @returns ISO 8601 date
+ */
+function toIsoDate(seconds: number): string {
+  return new Date(Math.round(seconds * 1000)).toISOString();
+}
+
+/**
+ * Sum the credits minus debits of bookkeeper events
+ * @param events The events to sum
+ * @returns Net amount in satoshis
+ */
+function sumEvents(events: ClnAccountEvent[]): number {
+  return events.reduce(
+    (sum, event) => sum + msatToSats(event.credit_msat) - msatToSats(event.debit_msat),
+    0
+  );
+}
+
+/**
+ * Decode a hex encoded feature bitmap
+ * @param features Hex encoded features, most significant byte first
+ * @returns The features that are set
+ */
+function decodeFeatures(features: string | undefined): NodeFeatureData[] {
+  if (!features) {
+    return [];
+  }
+
+  const bytes = Buffer.from(features, 'hex');
+  const decoded: NodeFeatureData[] = [];
+
+  for (let bit = 0; bit < bytes.length * 8; bit++) {
+    if (bytes[bytes.length - 1 - Math.floor(bit / 8)] & (1 << bit % 8)) {
+      const evenBit = bit - (bit % 2);
+      decoded.push({
+        bit,
+        type: FEATURE_NAMES[evenBit] || `unknown_${evenBit}`,
+        is_required: bit % 2 === 0,
+      });
+    }
+  }
+
+  return decoded;
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Minimal client for the Core Lightning clnrest plugin.
+ *
+ * clnrest exposes every CLN RPC method as `POST /v1/<method>`, taking the
+ * method parameters as a JSON body and authorizing requests with a rune.
+ */
+
+import { AuthenticationError, ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { sendHttpRequest } from '../http/http-request';
+
+/**
+ * Options for creating a clnrest client
+ */
+export interface ClnRestClientOptions {
+  /** Base URL of the clnrest server */
+  url: string;
+  /** Rune sent with every request */
+  rune: string;
+  /** PEM encoded CA certificate used to verify the server */
+  ca?: string;
+  /** Time in milliseconds after which a request is aborted */
+  timeoutMs?: number;
+}
+
+/**
+ * Error body returned by clnrest for failed RPC calls
+ */
+interface ClnErrorBody {
+  code?: number;
+  message?: string;
+}
+
+/**
+ * Client calling CLN RPC methods through clnrest
+ */
+export class ClnRestClient {
+  /**
+   * Create a new clnrest client
+   * @param options Connection options
+   */
+  constructor(private readonly options: ClnRestClientOptions) {}
+
+  /**
+   * Call a CLN RPC method
+   * @param method The RPC method name, e.g. listpeerchannels
+   * @param params Named parameters of the RPC method
+   * @returns Promise resolving to the RPC result
+   * @throws AuthenticationError if the rune is rejected
+   * @throws ConnectionTimeoutError if clnrest does not respond in time
+   * @throws ConnectionError for any other failure
+   */
+  async call<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+    const baseUrl = this.options.url.endsWith('/') ? this.options.url : `${this.options.url}/`;
+
+    const { status, body } = await sendHttpRequest({
+      url: new URL(`v1/${method}`, baseUrl),
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Rune: this.options.rune },
+      body: JSON.stringify(params),
+      ca: this.options.ca,
+      timeoutMs: this.options.timeoutMs,
+    });
+
+    if (status >= 200 && status < 300) {
+      return body as T;
+    }
+
+    throw toClnError(method, status, body);
+  }
+}
+
+/**
+ * Map a failed clnrest response to a connection error
+ * @param method The RPC method that failed
+ * @param status The HTTP status code
+ * @param body The parsed response body
+ * @returns The matching connection error
+ */
+function toClnError(method: string, status: number, body: unknown): ConnectionError {
+  const payload = body as ClnErrorBody | undefined;
+  const message = `CLN ${method} failed: ${payload?.message || `HTTP ${status}`}`;
+
+  // clnrest rejects missing or invalid runes before reaching lightningd
+  if (status === 401 || status === 403 || /not authorized|rune/i.test(payload?.message || '')) {
+    return new AuthenticationError(message, { metadata: { status, rpcCode: payload?.code } });
+  }
+
+  return new ConnectionError(message, { metadata: { status, rpcCode: payload?.code } });
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Response types of the CLN RPC methods used by the gateway.
+ *
+ * Only the fields read by the gateway are declared. Millisatoshi amounts are
+ * integers since CLN v23; older releases return strings such as "1000msat".
+ */
+
+/**
+ * Millisatoshi amount as returned by CLN
+ */
+export type ClnMsat = number | string;
+
+export interface ClnGetInfoResult {
+  id: string;
+  alias?: string;
+  color?: string;
+  num_peers: number;
+  num_pending_channels: number;
+  num_active_channels: number;
+  num_inactive_channels: number;
+  blockheight: number;
+}
+
+export interface ClnPeerChannel {
+  peer_id: string;
+  peer_connected: boolean;
+  state: string;
+  short_channel_id?: string;
+  channel_id?: string;
+  funding_txid: string;
+  funding_outnum: number;
+  total_msat?: ClnMsat;
+  to_us_msat?: ClnMsat;
+  private?: boolean;
+  /** Routing policies of both sides, since CLN v23.08 */
+  updates?: {
+    local?: ClnChannelUpdate;
+    remote?: ClnChannelUpdate;
+  };
+}
+
+export interface ClnChannelUpdate {
+  htlc_minimum_msat?: ClnMsat;
+  htlc_maximum_msat?: ClnMsat;
+  cltv_expiry_delta?: number;
+  fee_base_msat?: ClnMsat;
+  fee_proportional_millionths?: number;
+}
+
+export interface ClnListPeerChannelsResult {
+  channels: ClnPeerChannel[];
+}
+
+export type ClnCloseCause = 'unknown' | 'local' | 'user' | 'remote' | 'protocol' | 'onchain';
+
+export interface ClnClosedChannel {
+  peer_id?: string;
+  short_channel_id?: string;
+  channel_id: string;
+  funding_txid: string;
+  funding_outnum: number;
+  total_msat: ClnMsat;
+  final_to_us_msat: ClnMsat;
+  close_cause: ClnCloseCause;
+  opener: 'local' | 'remote';
+  closer?: 'local' | 'remote';
+}
+
+export interface ClnListClosedChannelsResult {
+  closedchannels: ClnClosedChannel[];
+}
+
+export interface ClnPay {
+  payment_hash: string;
+  status: 'pending' | 'failed' | 'complete';
+  destination?: string;
+  created_at: number;
+  completed_at?: number;
+  amount_msat?: ClnMsat;
+  amount_sent_msat?: ClnMsat;
+  number_of_parts?: number;
+}
+
+export interface ClnListPaysResult {
+  pays: ClnPay[];
+}
+
+export interface ClnInvoice {
+  label: string;
+  payment_hash: string;
+  status: 'unpaid' | 'paid' | 'expired';
+  description?: string;
+  bolt11?: string;
+  amount_msat?: ClnMsat;
+  amount_received_msat?: ClnMsat;
+  expires_at: number;
+  paid_at?: number;
+}
+
+export interface ClnListInvoicesResult {
+  invoices: ClnInvoice[];
+}
+
+export interface ClnForward {
+  in_channel: string;
+  out_channel?: string;
+  in_msat: ClnMsat;
+  out_msat?: ClnMsat;
+  fee_msat?: ClnMsat;
+  status: 'offered' | 'settled' | 'local_failed' | 'failed';
+  received_time: number;
+  resolved_time?: number;
+}
+
+export interface ClnListForwardsResult {
+  forwards: ClnForward[];
+}
+
+export interface ClnFundsOutput {
+  txid: string;
+  output: number;
+  amount_msat: ClnMsat;
+  address?: string;
+  status: 'unconfirmed' | 'confirmed' | 'spent' | 'immature';
+  blockheight?: number;
+  reserved: boolean;
+}
+
+export interface ClnListFundsResult {
+  outputs: ClnFundsOutput[];
+}
+
+export interface ClnAccountEvent {
+  account: string;
+  type: 'chain' | 'channel' | 'onchain_fee';
+  tag: string;
+  credit_msat: ClnMsat;
+  debit_msat: ClnMsat;
+  timestamp: number;
+  outpoint?: string;
+  txid?: string;
+  blockheight?: number;
+  description?: string;
+}
+
+export interface ClnListAccountEventsResult {
+  events: ClnAccountEvent[];
+}
+
+export interface ClnPeer {
+  id: string;
+  connected: boolean;
+  netaddr?: string[];
+}
+
+export interface ClnListPeersResult {
+  peers: ClnPeer[];
+}
+
+export interface ClnNodeAddress {
+  type: string;
+  address?: string;
+  port: number;
+}
+
+export interface ClnNode {
+  nodeid: string;
+  alias?: string;
+  color?: string;
+  last_timestamp?: number;
+  features?: string;
+  addresses?: ClnNodeAddress[];
+}
+
+export interface ClnListNodesResult {
+  nodes: ClnNode[];
+}
+
+export interface ClnGraphChannel {
+  source: string;
+  destination: string;
+  short_channel_id: string;
+  amount_msat: ClnMsat;
+  last_update: number;
+  /** Fee policy of the source node */
+  base_fee_millisatoshi?: number;
+  fee_per_millionth?: number;
+  active?: boolean;
+}
+
+export interface ClnListChannelsResult {
+  channels: ClnGraphChannel[];
+}
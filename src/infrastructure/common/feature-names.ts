@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Names of the Lightning Network feature bits.
+ *
+ * Shared by the gateways of implementations that report node features either
+ * as a raw bitmap or by name.
+ */
+
+/**
+ * Names of the feature bits defined in BOLT 9, by even (required) bit
+ */
+export const FEATURE_NAMES: Record<number, string> = {
+  0: 'option_data_loss_protect',
+  4: 'option_upfront_shutdown_script',
+  6: 'gossip_queries',
+  8: 'var_onion_optin',
+  10: 'gossip_queries_ex',
+  12: 'option_static_remotekey',
+  14: 'payment_secret',
+  16: 'basic_mpp',
+  18: 'option_support_large_channel',
+  22: 'option_anchors_zero_fee_htlc_tx',
+  26: 'option_shutdown_anysegwit',
+  44: 'option_channel_type',
+  46: 'option_scid_alias',
+  48: 'option_payment_metadata',
+  50: 'option_zeroconf',
+};
+
+/**
+ * Look up the even (required) bit of a named feature
+ * @param name Feature name as defined in BOLT 9
+ * @returns The even feature bit, or undefined if the name is unknown
+ */
+export function getFeatureBit(name: string): number | undefined {
+  const entry = Object.entries(FEATURE_NAMES).find(([, featureName]) => featureName === name);
+
+  return entry ? Number(entry[0]) : undefined;
+}
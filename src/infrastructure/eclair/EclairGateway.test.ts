@@ -0,0 +1,303 @@
+/**
+ * @fileoverview Tests for EclairGateway
+ *
+ * Maps recorded Eclair API responses replayed by a local stub to domain models.
+ */
+
+import { EclairGateway } from './EclairGateway';
+import { EclairAdapter } from '../adapters/EclairAdapter';
+import { ConnectionMethod, EclairHttpDetails } from '../../domain/node/ConnectionAuth';
+import { ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { EclairChannel } from './types';
+import {
+  EclairHttpStub,
+  loadEclairFixtures,
+  startEclairHttpStub,
+} from '../../test/mocks/eclair-http-server';
+
+jest.mock('../../core/logging/logger');
+
+describe('EclairGateway', () => {
+  const password = 'test-password';
+  const peerId = `02${'a'.repeat(64)}`;
+  const otherPeerId = `03${'b'.repeat(64)}`;
+  const fixtures = loadEclairFixtures();
+
+  let stub: EclairHttpStub;
+  let adapter: EclairAdapter;
+  let gateway: EclairGateway;
+
+  beforeAll(async () => {
+    stub = await startEclairHttpStub(password, {
+      ...fixtures,
+      channels: (params: Record<string, string>) =>
+        (fixtures.channels as EclairChannel[]).filter(
+          (channel) => !params.nodeId || channel.nodeId === params.nodeId
+        ),
+      node: (params: Record<string, string>) =>
+        params.nodeId === peerId ? fixtures.node : undefined,
+    });
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.calls.length = 0;
+    const details: EclairHttpDetails = {
+      method: ConnectionMethod.ECLAIR_HTTP,
+      url: stub.url,
+      password,
+    };
+    adapter = new EclairAdapter(details);
+    gateway = new EclairGateway(adapter);
+  });
+
+  test('should map normal and offline channels to channel data', async () => {
+    const channels = await gateway.getChannels();
+
+    expect(channels).toEqual([
+      {
+        id: '800000x1x1',
+        capacity: 1000000,
+        local_balance: 400000,
+        remote_balance: 600000,
+        active: true,
+        remote_pubkey: peerId,
+        channel_point: `${'1'.repeat(64)}:1`,
+        local_policy: {
+          base_fee_msat: 1000,
+          fee_rate_ppm: 100,
+          disabled: false,
+          cltv_delta: 144,
+          min_htlc_msat: 1,
+          max_htlc_msat: 990000000,
+        },
+      },
+      expect.objectContaining({ id: '800010x2x0', active: false, remote_pubkey: otherPeerId }),
+    ]);
+    expect(stub.calls).toEqual([{ method: 'channels', params: {} }]);
+  });
+
+  test('should map funding and closing channels to pending channels', async () => {
+    const channels = await gateway.getPendingChannels();
+
+    expect(channels).toEqual([
+      {
+        state: 'opening',
+        remote_pubkey: otherPeerId,
+        capacity: 200000,
+        local_balance: 200000,
+        remote_balance: 0,
+        transaction_id: '3'.repeat(64),
+        transaction_vout: 0,
+      },
+      expect.objectContaining({ state: 'waiting_close', capacity: 300000, transaction_vout: 1 }),
+    ]);
+  });
+
+  test('should derive close types from the published transactions', async () => {
+    const channels = await gateway.getClosedChannels();
+
+    expect(channels.map((channel) => channel.close_type)).toEqual(['cooperative', 'local_force']);
+    expect(channels[0]).toMatchObject({
+      id: '790000x5x0',
+      capacity: 2000000,
+      final_local_balance: 1500000,
+    });
+  });
+
+  test('should map sent payments from the audit', async () => {
+    const [payments, failedPayments] = await Promise.all([
+      gateway.getPayments(),
+      gateway.getFailedPayments(),
+    ]);
+
+    expect(payments).toEqual([
+      {
+        id: 'aa11'.repeat(16),
+        destination: otherPeerId,
+        tokens: 150000,
+        fee: 2,
+        status: 'succeeded',
+        created_at: '2023-11-14T22:13:20.000Z',
+        confirmed_at: '2023-11-14T22:13:25.000Z',
+      },
+    ]);
+    expect(failedPayments).toEqual([]);
+  });
+
+  test('should settle invoices with a received payment', async () => {
+    const invoices = await gateway.getInvoices();
+
+    expect(invoices[0]).toEqual({
+      id: 'cc33'.repeat(16),
+      tokens: 25000,
+      received: 25000,
+      state: 'settled',
+      description: 'coffee',
+      created_at: '2023-11-14T22:13:20.000Z',
+      expires_at: '2023-11-14T23:13:20.000Z',
+      confirmed_at: '2023-11-14T23:00:00.000Z',
+    });
+    expect(invoices[1]).toMatchObject({ state: 'expired', tokens: 100000, received: 0 });
+    expect(invoices[1].description).toBeUndefined();
+  });
+
+  test('should request the forward window and resolve short channel ids', async () => {
+    const forwards = await gateway.getForwards({
+      after: '2023-11-01T00:00:00.000Z',
+      before: '2023-12-01T00:00:00.000Z',
+    });
+
+    expect(forwards).toEqual([
+      {
+        created_at: '2023-11-15T00:00:01.000Z',
+        fee: 1,
+        tokens: 10000,
+        incoming_channel: '800000x1x1',
+        outgoing_channel: '800010x2x0',
+      },
+    ]);
+    expect(stub.calls).toContainEqual({
+      method: 'audit',
+      params: { from: '1698796800', to: '1701388800' },
+    });
+  });
+
+  test('should map the on-chain balance and leave UTXOs empty', async () => {
+    const [balance, utxos] = await Promise.all([gateway.getChainBalance(), gateway.getUtxos()]);
+
+    expect(balance).toEqual({ confirmed_balance: 1500000, unconfirmed_balance: 20000 });
+    expect(utxos).toEqual([]);
+  });
+
+  test('should add the fee to outgoing chain transactions', async () => {
+    const transactions = await gateway.getChainTransactions();
+
+    expect(transactions).toEqual([
+      expect.objectContaining({
+        id: '3'.repeat(64),
+        tokens: 201410,
+        fee: 1410,
+        is_confirmed: true,
+        is_outgoing: true,
+        confirmation_count: 6,
+      }),
+      expect.objectContaining({
+        id: '6'.repeat(64),
+        tokens: 20000,
+        fee: undefined,
+        is_confirmed: false,
+        is_outgoing: false,
+      }),
+    ]);
+  });
+
+  test('should only return connected peers', async () => {
+    const peers = await gateway.getPeers();
+
+    expect(peers).toEqual([
+      {
+        public_key: peerId,
+        socket: '203.0.113.1:9735',
+        ping_time: 0,
+        bytes_sent: 0,
+        bytes_received: 0,
+        is_inbound: false,
+      },
+    ]);
+  });
+
+  test('should map node announcements to graph nodes', async () => {
+    const nodes = await gateway.getNetworkGraphNodes();
+
+    expect(nodes).toEqual([
+      {
+        public_key: peerId,
+        alias: 'Alice',
+        color: '#ff0000',
+        sockets: ['203.0.113.1:9735'],
+        updated_at: '2023-11-14T22:13:20.000Z',
+      },
+      expect.objectContaining({ public_key: otherPeerId, alias: 'Bob', sockets: [] }),
+    ]);
+  });
+
+  test('should join graph channels with the updates of both nodes', async () => {
+    expect(await gateway.getNetworkGraphChannels()).toEqual([
+      {
+        id: '800000x2x0',
+        capacity: 5000000,
+        node1_public_key: peerId,
+        node2_public_key: otherPeerId,
+        node1_fee_policy: {
+          base_fee_msat: 1000,
+          fee_rate_ppm: 200,
+          disabled: false,
+          cltv_delta: 80,
+          min_htlc_msat: 1000,
+          max_htlc_msat: 4950000000,
+        },
+        node2_fee_policy: {
+          base_fee_msat: 0,
+          fee_rate_ppm: 300,
+          disabled: true,
+          cltv_delta: 144,
+          min_htlc_msat: 1,
+          max_htlc_msat: 5000000000,
+        },
+        updated_at: '2023-11-14T22:13:20.000Z',
+      },
+    ]);
+  });
+
+  test('should map node statistics and named features to node details', async () => {
+    const details = await gateway.getNodeDetails(peerId);
+
+    expect(details).toMatchObject({
+      public_key: peerId,
+      alias: 'Alice',
+      capacity: 42000000,
+      channel_count: 12,
+      channels: [],
+      features: [
+        { bit: 8, type: 'var_onion_optin', is_required: true },
+        { bit: 13, type: 'option_static_remotekey', is_required: false },
+      ],
+    });
+  });
+
+  test('should return undefined for nodes Eclair does not know', async () => {
+    await expect(gateway.getNodeDetails(otherPeerId)).resolves.toBeUndefined();
+    await expect(gateway.getNodeAlias(otherPeerId)).resolves.toBeUndefined();
+    await expect(gateway.getNodeAlias(peerId)).resolves.toBe('Alice');
+  });
+
+  test('should count pending channels with the node in node info', async () => {
+    const info = await gateway.getNodeInfo(peerId);
+
+    expect(info).toEqual({
+      alias: 'Alice',
+      pubkey: peerId,
+      color: '#ff0000',
+      activeChannelsCount: 12,
+      pendingChannelsCount: 0,
+      peersCount: 0,
+    });
+    expect(stub.calls).toContainEqual({ method: 'channels', params: { nodeId: peerId } });
+  });
+
+  test('should wrap rejected passwords in connection errors', async () => {
+    const details: EclairHttpDetails = {
+      method: ConnectionMethod.ECLAIR_HTTP,
+      url: stub.url,
+      password: 'wrong-password',
+    };
+    const unauthorizedGateway = new EclairGateway(new EclairAdapter(details));
+
+    await expect(unauthorizedGateway.getChannels()).rejects.toThrow(ConnectionError);
+    await expect(unauthorizedGateway.getChannels()).rejects.toThrow('Eclair channels failed');
+  });
+});
@@ -0,0 +1,802 @@
+/**
+ * @fileoverview Eclair implementation of the Lightning Network Gateway.
+ *
+ * This module provides a concrete implementation of the LightningNetworkGateway interface
+ * for interacting with Lightning Network data through an Eclair node. API methods are
+ * called through the HTTP client exposed by the EclairAdapter connection.
+ */
+
+import { LightningNetworkGateway } from '../../domain/lightning/gateways/LightningNetworkGateway';
+import {
+  ChannelData,
+  ClosedChannelData,
+  ClosedChannelType,
+  FeePolicyData,
+  PendingChannelData,
+  PendingChannelState,
+} from '../../domain/channels/entities/Channel';
+import { PaymentData } from '../../domain/payments/entities/Payment';
+import { InvoiceData, InvoiceState } from '../../domain/invoices/entities/Invoice';
+import { ForwardData } from '../../domain/forwards/entities/Forward';
+import { ChainBalanceData, UtxoData } from '../../domain/wallet/entities/Wallet';
+import { ChainBalanceSchema } from '../../domain/wallet/schemas/wallet';
+import { ChainTransactionData } from '../../domain/transactions/entities/Transaction';
+import { ChainTransactionSchema } from '../../domain/transactions/schemas/transaction';
+import { PeerData } from '../../domain/peers/entities/Peer';
+import {
+  GraphChannelData,
+  GraphNodeData,
+  NodeDetailsData,
+  NodeFeatureData,
+} from '../../domain/nodes/entities/Node';
+import { NodeInfo } from '../../domain/node/NodeInfo';
+import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { validateWithZod } from '../../core/validation/zod-validators';
+import { getFeatureBit } from '../common/feature-names';
+import { EclairHttpClient } from './EclairHttpClient';
+import {
+  EclairAuditResult,
+  EclairChannel,
+  EclairChannelDescription,
+  EclairChannelUpdate,
+  EclairInvoice,
+  EclairNodeAnnouncement,
+  EclairNodeResult,
+  EclairOnChainBalance,
+  EclairOnChainTransaction,
+  EclairPeer,
+} from './types';
+
+/**
+ * Channel states of channels that are open, whether or not the peer is online
+ */
+const OPEN_CHANNEL_STATES = ['NORMAL', 'OFFLINE', 'SYNCING'];
+
+/**
+ * Number of on-chain transactions requested from Eclair
+ */
+const MAX_ONCHAIN_TRANSACTIONS = 1000;
+
+/**
+ * Eclair implementation of the Lightning Network Gateway
+ */
+export class EclairGateway implements LightningNetworkGateway {
+  private connection: LightningNodeConnection;
+
+  /**
+   * Creates a new Eclair gateway
+   * @param connection Lightning Network node connection
+   */
+  constructor(connection: LightningNodeConnection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Get the connection used by this gateway
+   * @returns Lightning Network node connection
+   */
+  getConnection(): LightningNodeConnection {
+    return this.connection;
+  }
+
+  /**
+   * Fetch open channels from Eclair node
+   * @returns Promise resolving to an array of channels
+   * @throws Error if channels cannot be fetched
+   */
+  async getChannels(): Promise<ChannelData[]> {
+    try {
+      const channels = await this.getClient().call<EclairChannel[]>('channels');
+
+      return (channels || [])
+        .filter((channel) => OPEN_CHANNEL_STATES.includes(channel.state))
+        .map((channel) => {
+          const { capacity, localBalance, outPoint } = getCommitmentBalances(channel);
+
+          return {
+            id: channel.data.shortIds?.real?.realScid || channel.channelId,
+            capacity,
+            local_balance: localBalance,
+            remote_balance: capacity - localBalance,
+            active: channel.state === 'NORMAL',
+            remote_pubkey: channel.nodeId,
+            channel_point: outPoint,
+            // The peer's channel update is not part of the channel data
+            local_policy: toFeePolicy(channel.data.channelUpdate),
+          };
+        });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching channels', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getChannels',
+      });
+      throw new ConnectionError(`Failed to fetch channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch pending channels from Eclair node
+   * @returns Promise resolving to an array of pending channels
+   * @throws Error if pending channels cannot be fetched
+   */
+  async getPendingChannels(): Promise<PendingChannelData[]> {
+    try {
+      const channels = await this.getClient().call<EclairChannel[]>('channels');
+
+      return (channels || []).flatMap((channel) => {
+        const state = this.getPendingChannelState(channel);
+        if (!state) {
+          return [];
+        }
+
+        const { capacity, localBalance, outPoint } = getCommitmentBalances(channel);
+        const [transactionId, vout] = outPoint.split(':');
+
+        return [
+          {
+            state,
+            remote_pubkey: channel.nodeId,
+            capacity,
+            local_balance: localBalance,
+            remote_balance: capacity - localBalance,
+            transaction_id: transactionId,
+            transaction_vout: parseInt(vout, 10) || 0,
+          },
+        ];
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching pending channels', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getPendingChannels',
+      });
+      throw new ConnectionError(`Failed to fetch pending channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch closed channels from Eclair node
+   * @returns Promise resolving to an array of closed channels
+   * @throws Error if closed channels cannot be fetched
+   */
+  async getClosedChannels(): Promise<ClosedChannelData[]> {
+    try {
+      const channels = await this.getClient().call<EclairChannel[]>('closedchannels');
+
+      return (channels || []).map((channel) => {
+        const { capacity, localBalance, outPoint } = getCommitmentBalances(channel);
+        const [transactionId, vout] = outPoint.split(':');
+
+        return {
+          id: channel.data.shortIds?.real?.realScid,
+          close_type: this.getClosedChannelType(channel),
+          remote_pubkey: channel.nodeId,
+          capacity,
+          // Eclair keeps the last commitment, which is what we closed with
+          final_local_balance: localBalance,
+          final_time_locked_balance: 0,
+          transaction_id: transactionId,
+          transaction_vout: parseInt(vout, 10) || 0,
+        };
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching closed channels', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getClosedChannels',
+      });
+      throw new ConnectionError(`Failed to fetch closed channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch successful outgoing payments from Eclair node
+   * @returns Promise resolving to an array of payments
+   * @throws Error if payments cannot be fetched
+   */
+  async getPayments(): Promise<PaymentData[]> {
+    try {
+      const { sent } = await this.getClient().call<EclairAuditResult>('audit');
+
+      return (sent || []).map((payment) => {
+        const timestamps = payment.parts.map((part) => part.timestamp.unix);
+
+        return {
+          id: payment.paymentHash,
+          destination: payment.recipientNodeId,
+          tokens: Math.floor(payment.recipientAmount / 1000),
+          fee: Math.floor(
+            payment.parts.reduce((sum, part) => sum + (part.feesPaid || 0), 0) / 1000
+          ),
+          status: 'succeeded' as const,
+          created_at: toIsoDate(Math.min(...timestamps)),
+          confirmed_at: toIsoDate(Math.max(...timestamps)),
+        };
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching payments', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getPayments',
+      });
+      throw new ConnectionError(`Failed to fetch payments: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch failed outgoing payments from Eclair node
+   *
+   * Eclair only reports failures per payment through getsentinfo, so
+   * failed payments cannot be listed.
+   *
+   * @returns Promise resolving to an empty array
+   */
+  async getFailedPayments(): Promise<PaymentData[]> {
+    logger.debug('Failed payments are not listed by Eclair', {
+      component: 'eclair-gateway',
+      operation: 'getFailedPayments',
+    });
+    return [];
+  }
+
+  /**
+   * Fetch invoices from Eclair node
+   * @returns Promise resolving to an array of invoices
+   * @throws Error if invoices cannot be fetched
+   */
+  async getInvoices(): Promise<InvoiceData[]> {
+    try {
+      const client = this.getClient();
+
+      // Invoices do not carry their payment status, which is taken from the audit
+      const [invoices, { received }] = await Promise.all([
+        client.call<EclairInvoice[]>('listinvoices'),
+        client.call<EclairAuditResult>('audit'),
+      ]);
+
+      const receivedByHash = new Map(
+        (received || []).map((payment) => [payment.paymentHash, payment.parts])
+      );
+      const now = Date.now();
+
+      return (invoices || []).map((invoice) => {
+        const parts = receivedByHash.get(invoice.paymentHash);
+
+        return {
+          id: invoice.paymentHash,
+          tokens: Math.floor((invoice.amount || 0) / 1000),
+          received: Math.floor((parts || []).reduce((sum, part) => sum + part.amount, 0) / 1000),
+          state: this.getInvoiceState(invoice, !!parts, now),
+          description: invoice.description || undefined,
+          created_at: toIsoDate(invoice.timestamp),
+          expires_at: toIsoDate(invoice.timestamp + invoice.expiry),
+          confirmed_at: parts?.length
+            ? toIsoDate(Math.max(...parts.map((part) => part.timestamp.unix)))
+            : undefined,
+        };
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching invoices', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getInvoices',
+      });
+      throw new ConnectionError(`Failed to fetch invoices: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch forwarding events from Eclair node
+   * @param window Optional ISO 8601 time window to restrict the forwards to
+   * @returns Promise resolving to an array of forwards
+   * @throws Error if forwards cannot be fetched
+   */
+  async getForwards(window?: { after: string; before: string }): Promise<ForwardData[]> {
+    try {
+      const client = this.getClient();
+      const auditParams: Record<string, number> = window
+        ? {
+            from: Math.floor(Date.parse(window.after) / 1000),
+            to: Math.floor(Date.parse(window.before) / 1000),
+          }
+        : {};
+
+      // Relays reference full channel ids, so resolve them to short channel ids
+      const [{ relayed }, channels] = await Promise.all([
+        client.call<EclairAuditResult>('audit', auditParams),
+        client.call<EclairChannel[]>('channels'),
+      ]);
+
+      const shortIds = new Map(
+        (channels || []).map((channel) => [
+          channel.channelId,
+          channel.data.shortIds?.real?.realScid || channel.channelId,
+        ])
+      );
+
+      return (relayed || [])
+        .filter((relay) => relay.type === 'payment-relayed')
+        .map((relay) => ({
+          created_at: toIsoDate((relay.settledAt || relay.timestamp)?.unix || 0),
+          fee: Math.floor((relay.amountIn - relay.amountOut) / 1000),
+          tokens: Math.floor(relay.amountOut / 1000),
+          incoming_channel: shortIds.get(relay.fromChannelId) || relay.fromChannelId,
+          outgoing_channel: shortIds.get(relay.toChannelId) || relay.toChannelId,
+        }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching forwards', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getForwards',
+      });
+      throw new ConnectionError(`Failed to fetch forwards: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch the on-chain wallet balance from Eclair node
+   * @returns Promise resolving to the confirmed and unconfirmed balance
+   * @throws Error if the balance cannot be fetched
+   */
+  async getChainBalance(): Promise<ChainBalanceData> {
+    try {
+      const balance = await this.getClient().call<EclairOnChainBalance>('onchainbalance');
+
+      return validateWithZod(ChainBalanceSchema, {
+        confirmed_balance: balance.confirmed,
+        unconfirmed_balance: balance.unconfirmed,
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching chain balance', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getChainBalance',
+      });
+      throw new ConnectionError(`Failed to fetch chain balance: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch unspent transaction outputs from Eclair node
+   *
+   * Eclair delegates its on-chain wallet to bitcoind and does not expose
+   * the wallet's outputs through its API.
+   *
+   * @returns Promise resolving to an empty array
+   */
+  async getUtxos(): Promise<UtxoData[]> {
+    logger.debug('UTXOs are not listed by Eclair', {
+      component: 'eclair-gateway',
+      operation: 'getUtxos',
+    });
+    return [];
+  }
+
+  /**
+   * Fetch on-chain transactions from Eclair node
+   * @returns Promise resolving to an array of chain transactions
+   * @throws Error if chain transactions cannot be fetched
+   */
+  async getChainTransactions(): Promise<ChainTransactionData[]> {
+    try {
+      const transactions = await this.getClient().call<EclairOnChainTransaction[]>(
+        'onchaintransactions',
+        { count: MAX_ONCHAIN_TRANSACTIONS, skip: 0 }
+      );
+
+      return (transactions || []).map((transaction) => {
+        const isOutgoing = transaction.amount < 0;
+        // Eclair reports the amount of outgoing transactions without the fee
+        const fee = isOutgoing ? Math.abs(transaction.fees) : 0;
+
+        return validateWithZod(ChainTransactionSchema, {
+          id: transaction.txid,
+          tokens: Math.abs(transaction.amount) + fee,
+          fee: fee || undefined,
+          is_confirmed: transaction.confirmations > 0,
+          is_outgoing: isOutgoing,
+          confirmation_count: transaction.confirmations,
+          created_at: toIsoDate(transaction.timestamp),
+        });
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching chain transactions', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getChainTransactions',
+      });
+      throw new ConnectionError(`Failed to fetch chain transactions: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch connected peers from Eclair node
+   *
+   * Eclair does not report ping times, traffic counters or connection
+   * direction, so these are left at their defaults.
+   *
+   * @returns Promise resolving to an array of peers
+   * @throws Error if peers cannot be fetched
+   */
+  async getPeers(): Promise<PeerData[]> {
+    try {
+      const peers = await this.getClient().call<EclairPeer[]>('peers');
+
+      return (peers || [])
+        .filter((peer) => peer.state === 'CONNECTED')
+        .map((peer) => ({
+          public_key: peer.nodeId,
+          socket: peer.address || '',
+          ping_time: 0,
+          bytes_sent: 0,
+          bytes_received: 0,
+          is_inbound: false,
+        }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching peers', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getPeers',
+      });
+      throw new ConnectionError(`Failed to fetch peers: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch the nodes of the network graph from Eclair node
+   * @returns Promise resolving to an array of graph nodes
+   * @throws Error if the network graph cannot be fetched
+   */
+  async getNetworkGraphNodes(): Promise<GraphNodeData[]> {
+    try {
+      const nodes = await this.getClient().call<EclairNodeAnnouncement[]>('nodes');
+
+      return (nodes || []).map((node) => this.mapGraphNode(node));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching network graph', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getNetworkGraphNodes',
+      });
+      throw new ConnectionError(`Failed to fetch network graph: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get all public channels of the network graph from Eclair
+   *
+   * Eclair does not list the capacity of graph channels, so the largest
+   * maximum HTLC of their updates stands in for it.
+   *
+   * @returns Promise resolving to array of graph channel data
+   * @throws Error if the network graph cannot be fetched
+   */
+  async getNetworkGraphChannels(): Promise<GraphChannelData[]> {
+    try {
+      const client = this.getClient();
+
+      const [channels, updates] = await Promise.all([
+        client.call<EclairChannelDescription[]>('allchannels'),
+        client.call<EclairChannelUpdate[]>('allupdates'),
+      ]);
+
+      const updatesById = new Map<string, EclairChannelUpdate[]>();
+      (updates || []).forEach((update) => {
+        if (update.shortChannelId) {
+          updatesById.set(update.shortChannelId, [
+            ...(updatesById.get(update.shortChannelId) || []),
+            update,
+          ]);
+        }
+      });
+
+      return (channels || []).map((channel) => {
+        const channelUpdates = updatesById.get(channel.shortChannelId) || [];
+        const updatedAt = Math.max(
+          0,
+          ...channelUpdates.map((update) => update.timestamp?.unix || 0)
+        );
+
+        return {
+          id: channel.shortChannelId,
+          capacity: Math.floor(
+            Math.max(0, ...channelUpdates.map((update) => update.htlcMaximumMsat || 0)) / 1000
+          ),
+          node1_public_key: channel.a,
+          node2_public_key: channel.b,
+          node1_fee_policy: toFeePolicy(
+            channelUpdates.find((update) => update.channelFlags?.isNode1 === true)
+          ),
+          node2_fee_policy: toFeePolicy(
+            channelUpdates.find((update) => update.channelFlags?.isNode1 === false)
+          ),
+          updated_at: updatedAt ? toIsoDate(updatedAt) : undefined,
+        };
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching network graph', sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getNetworkGraphChannels',
+      });
+      throw new ConnectionError(`Failed to fetch network graph: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get detailed node information from Eclair
+   *
+   * Eclair reports channel statistics of a node, but not its individual
+   * channels, so the channel list is left empty.
+   *
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to node details or undefined if the node is unknown
+   * @throws Error if node details cannot be fetched
+   */
+  async getNodeDetails(pubkey: string): Promise<NodeDetailsData | undefined> {
+    try {
+      const node = await this.fetchNode(pubkey);
+      if (!node) {
+        return undefined;
+      }
+
+      return {
+        ...this.mapGraphNode(node.announcement),
+        capacity: node.totalCapacity,
+        channel_count: node.activeChannels,
+        channels: [],
+        features: decodeFeatures(node.announcement.features?.activated),
+      };
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error fetching node details for ${pubkey}`, sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getNodeDetails',
+        pubkey: pubkey,
+      });
+      throw new ConnectionError(`Failed to fetch node details: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get node information from Eclair
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to node information or undefined if not found
+   * @throws Error if node info cannot be fetched
+   */
+  async getNodeInfo(pubkey: string): Promise<NodeInfo | undefined> {
+    try {
+      // Fetch the node and our channels from Eclair
+      const [node, channels] = await Promise.all([
+        this.fetchNode(pubkey),
+        this.getClient().call<EclairChannel[]>('channels', { nodeId: pubkey }),
+      ]);
+
+      if (!node) {
+        return undefined;
+      }
+
+      return {
+        alias: node.announcement.alias || 'Unknown',
+        pubkey: pubkey,
+        color: node.announcement.rgbColor || '#000000',
+        activeChannelsCount: node.activeChannels,
+        // Pending channels are only known for channels with our own node
+        pendingChannelsCount: (channels || []).filter(
+          (channel) => this.getPendingChannelState(channel) === 'opening'
+        ).length,
+        peersCount: 0, // Not available from the node announcement
+      };
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error fetching node info for ${pubkey}`, sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getNodeInfo',
+        pubkey: pubkey,
+      });
+      throw new ConnectionError(`Failed to fetch node info: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get node alias from Eclair
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to node alias or undefined if not found
+   * @throws Error if node info cannot be fetched
+   */
+  async getNodeAlias(pubkey: string): Promise<string | undefined> {
+    try {
+      const node = await this.fetchNode(pubkey);
+
+      return node?.announcement.alias;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error fetching node alias for ${pubkey}`, sanitizedError, {
+        component: 'eclair-gateway',
+        operation: 'getNodeAlias',
+        pubkey: pubkey,
+      });
+      throw new ConnectionError(`Failed to fetch node alias: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch a node from the Eclair network graph
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to the node or undefined if it is not in the graph
+   * @private
+   */
+  private async fetchNode(pubkey: string): Promise<EclairNodeResult | undefined> {
+    try {
+      return await this.getClient().call<EclairNodeResult>('node', { nodeId: pubkey });
+    } catch (error) {
+      // Eclair answers unknown nodes with a not found error
+      if (error instanceof ConnectionError && error.metadata?.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Map an Eclair node announcement to the domain model
+   * @param node Node announcement returned by Eclair
+   * @returns The graph node data
+   * @private
+   */
+  private mapGraphNode(node: EclairNodeAnnouncement): GraphNodeData {
+    return {
+      public_key: node.nodeId,
+      alias: node.alias || '',
+      color: node.rgbColor,
+      sockets: node.addresses || [],
+      updated_at: node.timestamp ? toIsoDate(node.timestamp.unix) : undefined,
+    };
+  }
+
+  /**
+   * Derive the pending state of an Eclair channel
+   * @param channel Channel returned by Eclair
+   * @returns The pending channel state, or undefined if the channel is open
+   * @private
+   */
+  private getPendingChannelState(channel: EclairChannel): PendingChannelState | undefined {
+    if (channel.state.startsWith('WAIT_FOR')) {
+      return 'opening';
+    }
+    if (channel.state === 'SHUTDOWN' || channel.state === 'NEGOTIATING') {
+      return 'closing';
+    }
+    if (channel.state === 'CLOSING') {
+      // A published mutual close only waits for confirmation
+      return channel.data.mutualClosePublished?.length ? 'waiting_close' : 'force_closing';
+    }
+    return undefined;
+  }
+
+  /**
+   * Derive how an Eclair channel was closed from the published transactions
+   * @param channel Closed channel returned by Eclair
+   * @returns The close type
+   * @private
+   */
+  private getClosedChannelType(channel: EclairChannel): ClosedChannelType {
+    const { data } = channel;
+
+    if (data.revokedCommitPublished?.length) {
+      return 'breach';
+    }
+    if (data.mutualClosePublished?.length) {
+      return 'cooperative';
+    }
+    if (data.localCommitPublished) {
+      return 'local_force';
+    }
+    if (data.remoteCommitPublished || data.nextRemoteCommitPublished) {
+      return 'remote_force';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Derive the lifecycle state of an Eclair invoice
+   * @param invoice Invoice returned by Eclair
+   * @param isPaid Whether a payment was received for the invoice
+   * @param now Reference time used to detect expiry
+   * @returns The invoice state
+   * @private
+   */
+  private getInvoiceState(invoice: EclairInvoice, isPaid: boolean, now: number): InvoiceState {
+    if (isPaid) {
+      return 'settled';
+    }
+    if ((invoice.timestamp + invoice.expiry) * 1000 < now) {
+      return 'expired';
+    }
+    return 'open';
+  }
+
+  /**
+   * Get the Eclair HTTP client from the generic connection
+   * @returns Eclair HTTP client
+   * @private
+   */
+  private getClient(): EclairHttpClient {
+    return this.connection.getConnection() as EclairHttpClient;
+  }
+}
+
+/**
+ * Read the capacity, local balance and funding outpoint of an Eclair channel
+ * @param channel Channel returned by Eclair
+ * @returns Balances in satoshis and the funding outpoint
+ */
+function getCommitmentBalances(channel: EclairChannel): {
+  capacity: number;
+  localBalance: number;
+  outPoint: string;
+} {
+  const commitment = channel.data.commitments?.active?.[0];
+
+  return {
+    capacity: commitment?.fundingTx.amountSatoshis || 0,
+    localBalance: Math.floor((commitment?.localCommit.spec.toLocal || 0) / 1000),
+    outPoint: commitment?.fundingTx.outPoint || '',
+  };
+}
+
+/**
+ * Map a channel update to a fee policy
+ * @param update Channel update returned by Eclair
+ * @returns The fee policy, or undefined until the channel has an update
+ */
+function toFeePolicy(update: EclairChannelUpdate | undefined): FeePolicyData | undefined {
+  if (!update) {
+    return undefined;
+  }
+
+  return {
+    base_fee_msat: update.feeBaseMsat,
+    fee_rate_ppm: update.feeProportionalMillionths,
+    disabled: update.channelFlags ? !update.channelFlags.isEnabled : undefined,
+    cltv_delta: update.cltvExpiryDelta,
+    min_htlc_msat: update.htlcMinimumMsat,
+    max_htlc_msat: update.htlcMaximumMsat,
+  };
+}
+
+/**
+ * Convert a UNIX timestamp in seconds to an ISO 8601 date
+ * @param seconds Seconds since the epoch
+ * @returns ISO 8601 date
+ */
+function toIsoDate(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Map the named features activated by a node to feature bits
+ *
+ * Features that are not defined in BOLT 9, such as Eclair's experimental
+ * features, are left out as their bits are not reported.
+ *
+ * @param activated Activated features by name, with their support
+ * @returns The features with their bits
+ */
+function decodeFeatures(
+  activated: Record<string, 'mandatory' | 'optional'> | undefined
+): NodeFeatureData[] {
+  return Object.entries(activated || {}).flatMap(([type, support]) => {
+    const evenBit = getFeatureBit(type);
+    if (evenBit === undefined) {
+      return [];
+    }
+
+    const isRequired = support === 'mandatory';
+    return [{ bit: isRequired ? evenBit : evenBit + 1, type, is_required: isRequired }];
+  });
+}
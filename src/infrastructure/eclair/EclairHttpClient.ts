@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Minimal client for the Eclair HTTP API.
+ *
+ * Eclair exposes its API methods as `POST /<method>` endpoints taking
+ * form-encoded parameters, protected by HTTP basic authentication with an
+ * empty user name and the API password.
+ */
+
+import { AuthenticationError, ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { sendHttpRequest } from '../http/http-request';
+
+/**
+ * Options for creating an Eclair HTTP client
+ */
+export interface EclairHttpClientOptions {
+  /** Base URL of the Eclair API */
+  url: string;
+  /** API password configured with eclair.api.password */
+  password: string;
+  /** Time in milliseconds after which a request is aborted */
+  timeoutMs?: number;
+}
+
+/**
+ * Error body returned by Eclair for failed calls
+ */
+interface EclairErrorBody {
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Client calling Eclair API methods
+ */
+export class EclairHttpClient {
+  /**
+   * Create a new Eclair HTTP client
+   * @param options Connection options
+   */
+  constructor(private readonly options: EclairHttpClientOptions) {}
+
+  /**
+   * Call an Eclair API method
+   * @param method The API method name, e.g. channels
+   * @param params Parameters of the API method
+   * @returns Promise resolving to the API result
+   * @throws AuthenticationError if the password is rejected
+   * @throws ConnectionTimeoutError if Eclair does not respond in time
+   * @throws ConnectionError for any other failure
+   */
+  async call<T>(
+    method: string,
+    params: Record<string, string | number | boolean> = {}
+  ): Promise<T> {
+    const baseUrl = this.options.url.endsWith('/') ? this.options.url : `${this.options.url}/`;
+    const credentials = Buffer.from(`:${this.options.password}`).toString('base64');
+
+    const { status, body } = await sendHttpRequest({
+      url: new URL(method, baseUrl),
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams(
+        Object.entries(params).map(([key, value]) => [key, String(value)])
+      ).toString(),
+      timeoutMs: this.options.timeoutMs,
+    });
+
+    if (status >= 200 && status < 300) {
+      return body as T;
+    }
+
+    throw toEclairError(method, status, body);
+  }
+}
+
+/**
+ * Map a failed Eclair response to a connection error
+ * @param method The API method that failed
+ * @param status The HTTP status code
+ * @param body The parsed response body
+ * @returns The matching connection error
+ */
+function toEclairError(method: string, status: number, body: unknown): ConnectionError {
+  const payload = body as EclairErrorBody | undefined;
+  const message = `Eclair ${method} failed: ${
+    payload?.error || payload?.message || `HTTP ${status}`
+  }`;
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, { metadata: { status } });
+  }
+
+  return new ConnectionError(message, { metadata: { status } });
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Response types of the Eclair API methods used by the gateway.
+ *
+ * Only the fields read by the gateway are declared. Channel data follows the
+ * format of Eclair v0.9 and later. Amounts named `amount`, `toLocal`,
+ * `toRemote` and `*Msat` are in millisatoshis; on-chain amounts are in satoshis.
+ */
+
+export interface EclairTimestamp {
+  iso: string;
+  unix: number;
+}
+
+export interface EclairGetInfoResult {
+  nodeId: string;
+  alias: string;
+  color: string;
+  blockHeight: number;
+  network: string;
+}
+
+export interface EclairCommitment {
+  fundingTx: {
+    outPoint: string;
+    amountSatoshis: number;
+  };
+  localCommit: {
+    spec: {
+      toLocal: number;
+      toRemote: number;
+    };
+  };
+}
+
+export interface EclairChannelUpdate {
+  shortChannelId?: string;
+  timestamp?: EclairTimestamp;
+  channelFlags?: {
+    isEnabled: boolean;
+    /** Whether the update is from the first node of the channel */
+    isNode1?: boolean;
+  };
+  cltvExpiryDelta?: number;
+  htlcMinimumMsat?: number;
+  htlcMaximumMsat?: number;
+  feeBaseMsat: number;
+  feeProportionalMillionths: number;
+}
+
+export interface EclairChannel {
+  nodeId: string;
+  channelId: string;
+  state: string;
+  data: {
+    shortIds?: {
+      real?: {
+        status: string;
+        realScid?: string;
+      };
+    };
+    commitments?: {
+      active?: EclairCommitment[];
+    };
+    /** Our latest channel update, holding our routing policy */
+    channelUpdate?: EclairChannelUpdate;
+    mutualClosePublished?: unknown[];
+    localCommitPublished?: unknown;
+    remoteCommitPublished?: unknown;
+    nextRemoteCommitPublished?: unknown;
+    revokedCommitPublished?: unknown[];
+  };
+}
+
+export interface EclairPeer {
+  nodeId: string;
+  state: string;
+  address?: string;
+  channels: number;
+}
+
+export interface EclairNodeAnnouncement {
+  nodeId: string;
+  alias: string;
+  rgbColor?: string;
+  timestamp?: EclairTimestamp;
+  addresses?: string[];
+  features?: {
+    activated?: Record<string, 'mandatory' | 'optional'>;
+  };
+}
+
+export interface EclairChannelDescription {
+  shortChannelId: string;
+  /** First node of the channel */
+  a: string;
+  /** Second node of the channel */
+  b: string;
+}
+
+export interface EclairNodeResult {
+  announcement: EclairNodeAnnouncement;
+  activeChannels: number;
+  totalCapacity: number;
+}
+
+export interface EclairPaymentPart {
+  amount: number;
+  feesPaid?: number;
+  timestamp: EclairTimestamp;
+}
+
+export interface EclairPaymentSent {
+  type: 'payment-sent';
+  paymentHash: string;
+  recipientAmount: number;
+  recipientNodeId: string;
+  parts: EclairPaymentPart[];
+}
+
+export interface EclairPaymentReceived {
+  type: 'payment-received';
+  paymentHash: string;
+  parts: EclairPaymentPart[];
+}
+
+export interface EclairPaymentRelayed {
+  type: string;
+  paymentHash: string;
+  amountIn: number;
+  amountOut: number;
+  fromChannelId: string;
+  toChannelId: string;
+  settledAt?: EclairTimestamp;
+  timestamp?: EclairTimestamp;
+}
+
+export interface EclairAuditResult {
+  sent: EclairPaymentSent[];
+  received: EclairPaymentReceived[];
+  relayed: EclairPaymentRelayed[];
+}
+
+export interface EclairInvoice {
+  paymentHash: string;
+  description?: string;
+  amount?: number;
+  timestamp: number;
+  expiry: number;
+}
+
+export interface EclairOnChainBalance {
+  confirmed: number;
+  unconfirmed: number;
+}
+
+export interface EclairOnChainTransaction {
+  txid: string;
+  address?: string;
+  amount: number;
+  fees: number;
+  confirmations: number;
+  timestamp: number;
+}
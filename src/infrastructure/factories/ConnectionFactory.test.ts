@@ -10,11 +10,17 @@ import {
   ConnectionMethod,
   LndGrpcDetails,
   LndLncDetails,
+  ClnRestDetails,
+  EclairHttpDetails,
 } from '../../domain/node/ConnectionAuth';
 import { LndAdapter } from '../adapters/LndAdapter';
+import { ClnAdapter } from '../adapters/ClnAdapter';
+import { EclairAdapter } from '../adapters/EclairAdapter';
 
-// Mock the LndAdapter
+// Mock the adapters
 jest.mock('../adapters/LndAdapter');
+jest.mock('../adapters/ClnAdapter');
+jest.mock('../adapters/EclairAdapter');
 
 describe('ConnectionFactory', () => {
   beforeEach(() => {
@@ -55,6 +61,38 @@ describe('ConnectionFactory', () => {
     expect(LndAdapter).toHaveBeenCalledWith(details);
   });
 
+  test('should create CLN adapter for CLN implementation with clnrest method', () => {
+    // Setup
+    const details: ClnRestDetails = {
+      method: ConnectionMethod.CLN_REST,
+      url: 'https://localhost:3010',
+      rune: 'test-rune',
+    };
+
+    // Execute
+    const connection = ConnectionFactory.createConnection(NodeImplementation.CLN, details);
+
+    // Verify
+    expect(connection).toBeInstanceOf(ClnAdapter);
+    expect(ClnAdapter).toHaveBeenCalledWith(details);
+  });
+
+  test('should create Eclair adapter for Eclair implementation with HTTP method', () => {
+    // Setup
+    const details: EclairHttpDetails = {
+      method: ConnectionMethod.ECLAIR_HTTP,
+      url: 'http://localhost:8080',
+      password: 'test-password',
+    };
+
+    // Execute
+    const connection = ConnectionFactory.createConnection(NodeImplementation.ECLAIR, details);
+
+    // Verify
+    expect(connection).toBeInstanceOf(EclairAdapter);
+    expect(EclairAdapter).toHaveBeenCalledWith(details);
+  });
+
   test('should throw error for unsupported implementations', () => {
     // Setup
     const details: LndGrpcDetails = {
@@ -67,7 +105,7 @@ describe('ConnectionFactory', () => {
 
     // Execute & Verify
     expect(() => {
-      ConnectionFactory.createConnection(NodeImplementation.CLN as any, details);
+      ConnectionFactory.createConnection('unsupported' as NodeImplementation, details);
     }).toThrow(/not supported/);
   });
 });
@@ -8,6 +8,8 @@
 import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
 import { NodeImplementation, SupportedConnectionDetails } from '../../domain/node/ConnectionAuth';
 import { LndAdapter } from '../adapters/LndAdapter';
+import { ClnAdapter } from '../adapters/ClnAdapter';
+import { EclairAdapter } from '../adapters/EclairAdapter';
 import logger from '../../core/logging/logger';
 
 /**
@@ -32,15 +34,23 @@ export class ConnectionFactory {
       connectionMethod: details.method,
     });
 
-    // For now, we only support LND
     if (implementation === NodeImplementation.LND) {
       return new LndAdapter(details);
     }
 
+    if (implementation === NodeImplementation.CLN) {
+      return new ClnAdapter(details);
+    }
+
+    if (implementation === NodeImplementation.ECLAIR) {
+      return new EclairAdapter(details);
+    }
+
     // All other implementations throw a clear error
     throw new Error(
       `Lightning node implementation not supported: ${implementation}. ` +
-        `Currently, only ${NodeImplementation.LND} is supported.`
+        `Currently, only ${NodeImplementation.LND}, ${NodeImplementation.CLN} and ` +
+        `${NodeImplementation.ECLAIR} are supported.`
     );
   }
 }
@@ -8,10 +8,14 @@ import { LightningNetworkGatewayFactory } from './LightningNetworkGatewayFactory
 import { NodeImplementation } from '../../domain/node/ConnectionAuth';
 import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
 import { LndGateway } from '../lnd/LndGateway';
+import { ClnGateway } from '../cln/ClnGateway';
+import { EclairGateway } from '../eclair/EclairGateway';
 import { NodeInfo } from '../../domain/node/NodeInfo';
 
-// Mock the LndGateway
+// Mock the gateways
 jest.mock('../lnd/LndGateway');
+jest.mock('../cln/ClnGateway');
+jest.mock('../eclair/EclairGateway');
 
 describe('LightningNetworkGatewayFactory', () => {
   beforeEach(() => {
@@ -35,6 +39,43 @@ describe('LightningNetworkGatewayFactory', () => {
     expect(LndGateway).toHaveBeenCalledWith(mockConnection);
   });
 
+  test('should create CLN gateway for CLN implementation', () => {
+    // Setup
+    const mockConnection: LightningNodeConnection = {
+      getConnection: jest.fn(),
+      checkConnection: jest.fn(),
+      getNodeInfo: jest.fn().mockResolvedValue({} as NodeInfo),
+      close: jest.fn(),
+    };
+
+    // Execute
+    const gateway = LightningNetworkGatewayFactory.create(mockConnection, NodeImplementation.CLN);
+
+    // Verify
+    expect(gateway).toBeInstanceOf(ClnGateway);
+    expect(ClnGateway).toHaveBeenCalledWith(mockConnection);
+  });
+
+  test('should create Eclair gateway for Eclair implementation', () => {
+    // Setup
+    const mockConnection: LightningNodeConnection = {
+      getConnection: jest.fn(),
+      checkConnection: jest.fn(),
+      getNodeInfo: jest.fn().mockResolvedValue({} as NodeInfo),
+      close: jest.fn(),
+    };
+
+    // Execute
+    const gateway = LightningNetworkGatewayFactory.create(
+      mockConnection,
+      NodeImplementation.ECLAIR
+    );
+
+    // Verify
+    expect(gateway).toBeInstanceOf(EclairGateway);
+    expect(EclairGateway).toHaveBeenCalledWith(mockConnection);
+  });
+
   test('should throw error for unsupported implementations', () => {
     // Setup
     const mockConnection: LightningNodeConnection = {
@@ -46,7 +87,7 @@ describe('LightningNetworkGatewayFactory', () => {
 
     // Execute & Verify
     expect(() => {
-      LightningNetworkGatewayFactory.create(mockConnection, NodeImplementation.CLN as any);
+      LightningNetworkGatewayFactory.create(mockConnection, 'unsupported' as NodeImplementation);
     }).toThrow(/not supported/);
   });
 });
@@ -8,6 +8,8 @@
 import { LightningNetworkGateway } from '../../domain/lightning/gateways/LightningNetworkGateway';
 import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
 import { LndGateway } from '../lnd/LndGateway';
+import { ClnGateway } from '../cln/ClnGateway';
+import { EclairGateway } from '../eclair/EclairGateway';
 import { NodeImplementation } from '../../domain/node/ConnectionAuth';
 import logger from '../../core/logging/logger';
 
@@ -32,15 +34,23 @@ export class LightningNetworkGatewayFactory {
       nodeType,
     });
 
-    // For now, we only support LND
     if (nodeType === NodeImplementation.LND) {
       return new LndGateway(connection);
     }
 
+    if (nodeType === NodeImplementation.CLN) {
+      return new ClnGateway(connection);
+    }
+
+    if (nodeType === NodeImplementation.ECLAIR) {
+      return new EclairGateway(connection);
+    }
+
     // All other implementations throw a clear error
     throw new Error(
       `Lightning node implementation not supported for gateway: ${nodeType}. ` +
-        `Currently, only ${NodeImplementation.LND} is supported.`
+        `Currently, only ${NodeImplementation.LND}, ${NodeImplementation.CLN} and ` +
+        `${NodeImplementation.ECLAIR} are supported.`
     );
   }
 }
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Tests for JsonlSnapshotStore
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonlSnapshotStore } from './JsonlSnapshotStore';
+import { SnapshotData } from '../../domain/history/entities/Snapshot';
+
+jest.mock('../../core/logging/logger');
+
+describe('JsonlSnapshotStore', () => {
+  let directory: string;
+  let store: JsonlSnapshotStore;
+
+  const snapshot = (node: string, takenAt: string, localBalance = 500000): SnapshotData => ({
+    node,
+    taken_at: takenAt,
+    summary: {
+      channelCount: 1,
+      activeChannels: 1,
+      totalCapacity: 1000000,
+      totalLocalBalance: localBalance,
+      totalRemoteBalance: 1000000 - localBalance,
+      confirmedChainBalance: 200000,
+      unconfirmedChainBalance: 0,
+    },
+    channels: [
+      {
+        id: '1',
+        capacity: 1000000,
+        local_balance: localBalance,
+        remote_balance: 1000000 - localBalance,
+        active: true,
+        remote_pubkey: 'pubkey-a',
+        channel_point: 'txid-1:0',
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-store-'));
+    store = new JsonlSnapshotStore(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should append snapshots to one file per node and day', async () => {
+    await store.append(snapshot('alpha', '2024-03-01T10:00:00.000Z'));
+    await store.append(snapshot('alpha', '2024-03-01T11:00:00.000Z'));
+    await store.append(snapshot('alpha', '2024-03-02T10:00:00.000Z'));
+    await store.append(snapshot('beta', '2024-03-01T10:00:00.000Z'));
+
+    expect(fs.readdirSync(path.join(directory, 'alpha'))).toEqual([
+      '2024-03-01.jsonl',
+      '2024-03-02.jsonl',
+    ]);
+    expect(
+      fs.readFileSync(path.join(directory, 'alpha', '2024-03-01.jsonl'), 'utf8').split('\n')
+    ).toHaveLength(3);
+  });
+
+  test('should query the snapshots of a node within a time range', async () => {
+    await store.append(snapshot('alpha', '2024-03-02T10:00:00.000Z', 400000));
+    await store.append(snapshot('alpha', '2024-03-01T10:00:00.000Z', 500000));
+    await store.append(snapshot('alpha', '2024-03-03T10:00:00.000Z', 300000));
+    await store.append(snapshot('beta', '2024-03-02T10:00:00.000Z'));
+
+    const all = await store.query({ node: 'alpha' });
+    expect(all.map(({ taken_at }) => taken_at)).toEqual([
+      '2024-03-01T10:00:00.000Z',
+      '2024-03-02T10:00:00.000Z',
+      '2024-03-03T10:00:00.000Z',
+    ]);
+    expect(all[0]).toEqual(snapshot('alpha', '2024-03-01T10:00:00.000Z', 500000));
+
+    const range = await store.query({
+      node: 'alpha',
+      from: Date.parse('2024-03-01T12:00:00.000Z'),
+      to: Date.parse('2024-03-03T10:00:00.000Z'),
+    });
+    expect(range.map(({ summary }) => summary.totalLocalBalance)).toEqual([400000]);
+
+    const latest = await store.query({ node: 'alpha', limit: 2 });
+    expect(latest.map(({ summary }) => summary.totalLocalBalance)).toEqual([400000, 300000]);
+
+    expect(await store.query({ node: 'gamma' })).toEqual([]);
+  });
+
+  test('should skip lines that are not valid snapshots', async () => {
+    await store.append(snapshot('alpha', '2024-03-01T10:00:00.000Z'));
+    fs.appendFileSync(path.join(directory, 'alpha', '2024-03-01.jsonl'), '{"node":"alpha","ta');
+
+    expect(await store.query({ node: 'alpha' })).toHaveLength(1);
+  });
+
+  test('should delete expired days and keep the last snapshot of older days', async () => {
+    await store.append(snapshot('alpha', '2024-01-01T10:00:00.000Z'));
+    await store.append(snapshot('alpha', '2024-03-01T10:00:00.000Z', 500000));
+    await store.append(snapshot('alpha', '2024-03-01T22:00:00.000Z', 450000));
+    await store.append(snapshot('alpha', '2024-03-09T10:00:00.000Z'));
+    await store.append(snapshot('alpha', '2024-03-09T11:00:00.000Z'));
+
+    const removed = await store.prune(
+      { maxAgeDays: 30, fullResolutionDays: 7 },
+      new Date('2024-03-10T00:00:00.000Z')
+    );
+
+    expect(removed).toBe(2);
+    expect(fs.readdirSync(path.join(directory, 'alpha'))).toEqual([
+      '2024-03-01.jsonl',
+      '2024-03-09.jsonl',
+    ]);
+    const snapshots = await store.query({ node: 'alpha' });
+    expect(snapshots.map(({ taken_at }) => taken_at)).toEqual([
+      '2024-03-01T22:00:00.000Z',
+      '2024-03-09T10:00:00.000Z',
+      '2024-03-09T11:00:00.000Z',
+    ]);
+  });
+
+  test('should reject node names that could escape the directory', async () => {
+    await expect(store.query({ node: '../etc' })).rejects.toThrow(
+      'Invalid node name for snapshots: ../etc'
+    );
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Snapshot store writing append-only JSON Lines files.
+ *
+ * Each node has a directory with one file per UTC day, named YYYY-MM-DD.jsonl,
+ * holding one snapshot per line. Snapshots are only ever appended to the file
+ * of their day. Retention deletes whole day files, and thins out past days by
+ * rewriting their file with the last snapshot of the day.
+ */
+
+import { Dirent, promises as fs } from 'fs';
+import * as path from 'path';
+import { SnapshotStore } from '../../domain/history/repositories/SnapshotStore';
+import {
+  RetentionPolicy,
+  SnapshotData,
+  SnapshotQuery,
+} from '../../domain/history/entities/Snapshot';
+import { SnapshotSchema } from '../../domain/history/schemas/snapshot';
+import logger from '../../core/logging/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Extension of the day files
+ */
+const FILE_EXTENSION = '.jsonl';
+
+/**
+ * Stores snapshots in JSON Lines files under a directory
+ */
+export class JsonlSnapshotStore implements SnapshotStore {
+  /**
+   * Create a new JSON Lines snapshot store
+   * @param directory Directory the snapshot files are kept in, created when needed
+   */
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Append a snapshot to the file of its day
+   * @param snapshot The snapshot to persist
+   */
+  async append(snapshot: SnapshotData): Promise<void> {
+    const nodeDirectory = this.getNodeDirectory(snapshot.node);
+    await fs.mkdir(nodeDirectory, { recursive: true, mode: 0o700 });
+    await fs.appendFile(
+      path.join(nodeDirectory, `${snapshot.taken_at.slice(0, 10)}${FILE_EXTENSION}`),
+      `${JSON.stringify(snapshot)}\n`,
+      { mode: 0o600 }
+    );
+  }
+
+  /**
+   * Read the snapshots of a node, only opening the files of days in the range
+   * @param query The node and time range of the snapshots
+   * @returns Promise resolving to the matching snapshots, oldest first
+   */
+  async query(query: SnapshotQuery): Promise<SnapshotData[]> {
+    const { node, from = 0, to = Infinity, limit } = query;
+    const nodeDirectory = this.getNodeDirectory(node);
+
+    const days = (await this.listDays(nodeDirectory)).filter(
+      (day) => day.start + DAY_MS > from && day.start < to
+    );
+
+    const snapshots: SnapshotData[] = [];
+    for (const day of days) {
+      (await this.readDay(day.file)).forEach((snapshot) => {
+        const takenAt = Date.parse(snapshot.taken_at);
+        if (takenAt >= from && takenAt < to) {
+          snapshots.push(snapshot);
+        }
+      });
+    }
+
+    snapshots.sort((a, b) => Date.parse(a.taken_at) - Date.parse(b.taken_at));
+
+    return limit === undefined ? snapshots : snapshots.slice(-limit);
+  }
+
+  /**
+   * Delete the day files older than the maximum age, and reduce the files of
+   * days past full resolution to their last snapshot
+   * @param policy The retention policy
+   * @param now The reference time (defaults to the current time)
+   * @returns Promise resolving to the number of snapshots removed
+   */
+  async prune(policy: RetentionPolicy, now: Date = new Date()): Promise<number> {
+    const expiredBefore = now.getTime() - policy.maxAgeDays * DAY_MS;
+    const thinnedBefore = now.getTime() - policy.fullResolutionDays * DAY_MS;
+    let removed = 0;
+
+    for (const node of await this.listNodes()) {
+      for (const day of await this.listDays(this.getNodeDirectory(node))) {
+        const end = day.start + DAY_MS;
+        if (end > thinnedBefore) {
+          continue;
+        }
+
+        const snapshots = await this.readDay(day.file);
+        if (end <= expiredBefore) {
+          await fs.unlink(day.file);
+          removed += snapshots.length;
+        } else if (snapshots.length > 1) {
+          const last = snapshots.reduce((latest, snapshot) =>
+            Date.parse(snapshot.taken_at) >= Date.parse(latest.taken_at) ? snapshot : latest
+          );
+          await this.rewriteDay(day.file, [last]);
+          removed += snapshots.length - 1;
+        }
+      }
+    }
+
+    if (removed > 0) {
+      logger.info(`Pruned ${removed} snapshots`, { component: 'snapshot-store' });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Get the directory of a node's snapshots
+   * @param node Name of the node
+   * @returns The directory path
+   * @throws Error if the node name could escape the snapshot directory
+   * @private
+   */
+  private getNodeDirectory(node: string): string {
+    if (!/^[\w-]+$/.test(node)) {
+      throw new Error(`Invalid node name for snapshots: ${node}`);
+    }
+    return path.join(this.directory, node);
+  }
+
+  /**
+   * List the nodes with stored snapshots
+   * @returns Promise resolving to the node names
+   * @private
+   */
+  private async listNodes(): Promise<string[]> {
+    const entries = await readDirectory(this.directory);
+    return entries
+      .filter((entry) => entry.isDirectory() && /^[\w-]+$/.test(entry.name))
+      .map((entry) => entry.name);
+  }
+
+  /**
+   * List the day files of a node
+   * @param nodeDirectory Directory of the node's snapshots
+   * @returns Promise resolving to the files with the start of their day, oldest first
+   * @private
+   */
+  private async listDays(nodeDirectory: string): Promise<{ file: string; start: number }[]> {
+    const entries = await readDirectory(nodeDirectory);
+
+    return entries
+      .filter((entry) => entry.isFile() && /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(entry.name))
+      .map((entry) => ({
+        file: path.join(nodeDirectory, entry.name),
+        start: Date.parse(`${entry.name.slice(0, 10)}T00:00:00.000Z`),
+      }))
+      .filter((day) => !isNaN(day.start))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Read the snapshots of a day file, skipping lines that are not valid
+   * snapshots such as a line cut short by a crash
+   * @param file Path of the day file
+   * @returns Promise resolving to the snapshots in the order they were written
+   * @private
+   */
+  private async readDay(file: string): Promise<SnapshotData[]> {
+    const content = await fs.readFile(file, 'utf8');
+
+    return content.split('\n').flatMap((line, index) => {
+      if (!line.trim()) {
+        return [];
+      }
+
+      try {
+        const snapshot = SnapshotSchema.safeParse(JSON.parse(line));
+        if (snapshot.success) {
+          return [snapshot.data];
+        }
+      } catch {
+        // Reported below like any other invalid line
+      }
+
+      logger.warn(`Skipping invalid snapshot at ${path.basename(file)}:${index + 1}`, {
+        component: 'snapshot-store',
+      });
+      return [];
+    });
+  }
+
+  /**
+   * Replace the snapshots of a day file, writing a temporary file first so a
+   * crash never leaves the day half written
+   * @param file Path of the day file
+   * @param snapshots The snapshots to keep
+   * @private
+   */
+  private async rewriteDay(file: string, snapshots: SnapshotData[]): Promise<void> {
+    const temporaryFile = `${file}.tmp`;
+    await fs.writeFile(
+      temporaryFile,
+      snapshots.map((snapshot) => `${JSON.stringify(snapshot)}\n`).join(''),
+      { mode: 0o600 }
+    );
+    await fs.rename(temporaryFile, file);
+  }
+}
+
+/**
+ * Read the entries of a directory
+ * @param directory The directory
+ * @returns Promise resolving to its entries, empty if it does not exist
+ */
+async function readDirectory(directory: string): Promise<Dirent[]> {
+  try {
+    return await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
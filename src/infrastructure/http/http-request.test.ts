@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Tests for sendHttpRequest
+ *
+ * Sends requests to a local server that answers, stalls or drops the
+ * connection mid-response.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { sendHttpRequest } from './http-request';
+import { ConnectionError, ConnectionTimeoutError } from '../../domain/errors/ConnectionErrors';
+
+describe('sendHttpRequest', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = http.createServer((request, response) => {
+      if (request.url === '/ok') {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ alias: 'node' }));
+      } else if (request.url === '/drip') {
+        // Keeps the socket busy without ever finishing the response
+        response.writeHead(200);
+        const timer = setInterval(() => response.write(' '), 10);
+        response.on('close', () => clearInterval(timer));
+      } else {
+        response.writeHead(200, { 'Content-Length': '100' });
+        response.write('{"partial":');
+        setTimeout(() => response.destroy(), 10);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const send = (path: string, timeoutMs?: number) =>
+    sendHttpRequest({ url: new URL(`${baseUrl}${path}`), method: 'GET', headers: {}, timeoutMs });
+
+  test('should parse the JSON response', async () => {
+    await expect(send('/ok')).resolves.toEqual({ status: 200, body: { alias: 'node' } });
+  });
+
+  test('should time out a response that never completes', async () => {
+    await expect(send('/drip', 100)).rejects.toBeInstanceOf(ConnectionTimeoutError);
+  });
+
+  test('should fail when the connection drops mid-response', async () => {
+    const error = await send('/cut', 1000).catch((reason) => reason);
+
+    expect(error).toBeInstanceOf(ConnectionError);
+    expect(error).not.toBeInstanceOf(ConnectionTimeoutError);
+  });
+});
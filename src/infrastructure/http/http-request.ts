@@ -0,0 +1,111 @@
+/**
+ * @fileoverview HTTP transport shared by the REST based node clients.
+ *
+ * Sends a single request with Node's http/https modules so that a pinned
+ * CA certificate can be used for nodes serving self-signed certificates.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { ConnectionError, ConnectionTimeoutError } from '../../domain/errors/ConnectionErrors';
+
+/**
+ * Default time to wait for a response
+ */
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * An HTTP request to a node API
+ */
+export interface HttpRequest {
+  url: URL;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  body?: string;
+  /** PEM encoded CA certificate used to verify the server */
+  ca?: string;
+  /** Time in milliseconds after which the request is aborted, even while receiving */
+  timeoutMs?: number;
+}
+
+/**
+ * Response to an HTTP request with its body parsed as JSON
+ */
+export interface HttpResponse {
+  status: number;
+  /** Parsed JSON body, or the raw text wrapped as `{ message }` if it is not JSON */
+  body: unknown;
+}
+
+/**
+ * Send an HTTP request and parse the JSON response
+ * @param request The request to send
+ * @returns Promise resolving to the response, whatever its status
+ * @throws ConnectionTimeoutError if the server does not respond in time
+ * @throws ConnectionError if the request cannot be sent or the response is cut off
+ */
+export function sendHttpRequest(request: HttpRequest): Promise<HttpResponse> {
+  const transport = request.url.protocol === 'https:' ? https : http;
+  const headers: Record<string, string | number> = { ...request.headers };
+
+  if (request.body !== undefined) {
+    headers['Content-Length'] = Buffer.byteLength(request.body);
+  }
+
+  return new Promise<HttpResponse>((resolve, reject) => {
+    // The deadline covers the whole exchange, as a socket timeout only fires
+    // when the server stops sending
+    const timer = setTimeout(() => {
+      clientRequest.destroy(
+        new ConnectionTimeoutError(`Request to ${request.url.pathname} timed out`)
+      );
+    }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    const fail = (error: Error): void => {
+      clearTimeout(timer);
+      reject(error instanceof ConnectionError ? error : new ConnectionError(error.message));
+    };
+
+    const clientRequest = transport.request(
+      request.url,
+      {
+        method: request.method,
+        headers,
+        ca: request.ca,
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', fail);
+        response.on('end', () => {
+          clearTimeout(timer);
+          resolve({
+            status: response.statusCode || 0,
+            body: parseBody(Buffer.concat(chunks).toString('utf8')),
+          });
+        });
+      }
+    );
+
+    clientRequest.on('error', fail);
+    clientRequest.end(request.body);
+  });
+}
+
+/**
+ * Parse a response body
+ * @param text The raw response body
+ * @returns The parsed JSON, or the text wrapped as a message
+ */
+function parseBody(text: string): unknown {
+  if (!text) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { message: text };
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Interop tests of LncClient against a real LNC mailbox
+ *
+ * Skipped unless an unused LNC session is configured, e.g. one created with
+ * `litcli sessions add --type readonly --label interop`:
+ *
+ *   LNC_INTEROP_MAILBOX=mailbox.terminal.lightning.today:443
+ *   LNC_INTEROP_PAIRING_PHRASE="ten word pairing phrase"
+ *
+ * The session is paired by the first test, so each run needs a new session.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LndApi } from '@lightninglabs/lnc-core';
+import { createRpc, LncClient } from './LncClient';
+import { LncCredentialStore } from './credential-store';
+
+jest.mock('../../core/logging/logger');
+
+const mailboxAddress = process.env.LNC_INTEROP_MAILBOX ?? '';
+const pairingPhrase = process.env.LNC_INTEROP_PAIRING_PHRASE;
+const describeInterop = mailboxAddress && pairingPhrase ? describe : describe.skip;
+
+describeInterop('LncClient interop', () => {
+  let directory: string;
+  let store: LncCredentialStore;
+  let client: LncClient | undefined;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lnc-interop-'));
+    store = new LncCredentialStore(path.join(directory, 'credentials.json'));
+  });
+
+  afterEach(() => {
+    client?.close();
+    client = undefined;
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should pair with the node through the mailbox', async () => {
+    client = new LncClient({
+      mailboxAddress,
+      pairingPhrase,
+      credentialStore: store,
+    });
+    const api = new LndApi(createRpc, client);
+
+    const info = await api.lightning.getInfo({});
+
+    expect(info.identityPubkey).toMatch(/^0[23][0-9a-f]{64}$/);
+    expect(store.load()?.remoteKey).toBeDefined();
+  }, 60000);
+
+  test('should reconnect with the stored session keys', async () => {
+    client = new LncClient({ mailboxAddress, credentialStore: store });
+    const api = new LndApi(createRpc, client);
+
+    const info = await api.lightning.getInfo({});
+
+    expect(info.identityPubkey).toMatch(/^0[23][0-9a-f]{64}$/);
+  }, 60000);
+});
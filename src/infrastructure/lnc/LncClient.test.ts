@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Tests for LncClient
+ *
+ * Opens LNC sessions through a fake mailbox and node on a local port.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LndApi } from '@lightninglabs/lnc-core';
+import { createRpc, LncClient } from './LncClient';
+import { LncCredentialStore } from './credential-store';
+import { FakeLncMailbox, startFakeLncMailbox } from '../../test/mocks/lnc-mailbox-server';
+
+jest.mock('../../core/logging/logger');
+
+describe('LncClient', () => {
+  let mailbox: FakeLncMailbox;
+  let directory: string;
+  let store: LncCredentialStore;
+  let clients: LncClient[];
+
+  const createClient = (pairingPhrase?: string, timeoutMs?: number): LncClient => {
+    const client = new LncClient({
+      mailboxAddress: mailbox.address,
+      pairingPhrase,
+      credentialStore: store,
+      timeoutMs,
+    });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    mailbox = await startFakeLncMailbox({
+      'lnrpc.Lightning.GetInfo': () => ({
+        alias: 'lnc-node',
+        identityPubkey: '02'.padEnd(66, 'a'),
+        numActiveChannels: 3,
+      }),
+      'lnrpc.Lightning.WalletBalance': () => {
+        throw new Error('wallet locked');
+      },
+    });
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lnc-client-'));
+    store = new LncCredentialStore(path.join(directory, 'credentials.json'));
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach((client) => client.close());
+    await mailbox.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should pair with the pairing phrase and store the session keys', async () => {
+    const client = createClient(mailbox.pairingPhrase);
+
+    const info = await client.request<{ alias: string; numActiveChannels: number }>(
+      'lnrpc.Lightning.GetInfo'
+    );
+
+    expect(info.alias).toBe('lnc-node');
+    expect(info.numActiveChannels).toBe(3);
+    expect(store.load()).toEqual({
+      localKey: expect.stringMatching(/^[0-9a-f]{64}$/),
+      remoteKey: mailbox.nodePublicKey.toString('hex'),
+    });
+    expect(mailbox.pairedClients).toHaveLength(1);
+  });
+
+  test('should send the auth data of the node as call metadata', async () => {
+    await createClient(mailbox.pairingPhrase).request('lnrpc.Lightning.GetInfo');
+
+    expect(mailbox.calls[0].method).toBe('lnrpc.Lightning.GetInfo');
+    expect(mailbox.calls[0].metadata.macaroon).toBe('0201036c6e64');
+  });
+
+  test('should reconnect with the stored keys without a pairing phrase', async () => {
+    const first = createClient(mailbox.pairingPhrase);
+    await first.request('lnrpc.Lightning.GetInfo');
+    first.close();
+
+    const info = await createClient().request<{ alias: string }>('lnrpc.Lightning.GetInfo');
+
+    expect(info.alias).toBe('lnc-node');
+    expect(mailbox.pairedClients).toHaveLength(1);
+  });
+
+  test('should reject calls failed by the node with its error message', async () => {
+    const client = createClient(mailbox.pairingPhrase);
+
+    await expect(client.request('lnrpc.Lightning.WalletBalance')).rejects.toThrow('wallet locked');
+  });
+
+  test('should make calls through the lnc-core LndApi', async () => {
+    const api = new LndApi(createRpc, createClient(mailbox.pairingPhrase));
+
+    const info = await api.lightning.getInfo({});
+
+    expect(info.alias).toBe('lnc-node');
+  });
+
+  test('should require a pairing phrase when no keys are stored', async () => {
+    await expect(createClient().request('lnrpc.Lightning.GetInfo')).rejects.toThrow(
+      'A pairing phrase is required to pair with the node'
+    );
+  });
+
+  test('should reject an invalid pairing phrase', () => {
+    expect(() => createClient('not a pairing phrase')).toThrow('Invalid pairing phrase');
+  });
+
+  test('should time out when no node answers the pairing phrase', async () => {
+    const words = mailbox.pairingPhrase.split(' ');
+    const otherPhrase = [...words.slice(1), words[0]].join(' ');
+
+    await expect(
+      createClient(otherPhrase, 1000).request('lnrpc.Lightning.GetInfo')
+    ).rejects.toThrow(/timed out/);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * @fileoverview Lightning Node Connect client.
+ *
+ * Opens an LNC session to an LND node through its mailbox and makes gRPC
+ * calls over it. The session stacks, from the bottom up:
+ *
+ * - a mailbox connection relaying packets over two WebSockets
+ * - a go-back-N connection making the packet delivery reliable
+ * - a Noise handshake authenticating the node and encrypting the session
+ * - an HTTP/2 connection carrying gRPC calls encoded with LND's protos
+ *
+ * The client implements the `request` and `subscribe` calls expected by the
+ * `createRpc` function handed to lnc-core's `LndApi`.
+ *
+ * lnc-core ships no transport. The only upstream one, in lnc-web, runs the Go
+ * client compiled to WASM, which it downloads from lightning.engineering at
+ * runtime and which expects browser globals and storage, so it cannot run in
+ * this server. The layers above follow the Go client of lightning-node-connect.
+ * Interop with a real mailbox is tested by LncClient.interop.test.ts when an
+ * LNC session is configured.
+ */
+
+import * as http2 from 'http2';
+import { subscriptionMethods } from '@lightninglabs/lnc-core';
+import logger from '../../core/logging/logger';
+import { LncCredentialStore } from './credential-store';
+import { GoBackNConnection } from './gbn';
+import { frameMessage, resolveMethod, TO_OBJECT_OPTIONS } from './grpc';
+import { deriveStreamIds, MailboxConnection } from './mailbox';
+import { createTransportStream, NoiseHandshake } from './noise';
+import { pairingPhraseToEntropy, stretchPassword } from './pairing-phrase';
+import { ecdh, generatePrivateKey } from './secp256k1';
+
+/**
+ * Options of an LNC client
+ */
+export interface LncClientOptions {
+  /** Mailbox address as host:port, or a ws:// or wss:// URL */
+  mailboxAddress: string;
+  /** Pairing phrase, required until the client has paired with the node */
+  pairingPhrase?: string;
+  /** Store of the session keys kept between connections */
+  credentialStore: LncCredentialStore;
+  /** Time allowed to open the session. Default 30000ms */
+  timeoutMs?: number;
+}
+
+/**
+ * An open LNC session
+ */
+interface LncSession {
+  mailbox: MailboxConnection;
+  connection: GoBackNConnection;
+  http: http2.ClientHttp2Session;
+  /** Metadata sent with every call, such as the macaroon */
+  metadata: Record<string, string>;
+}
+
+/**
+ * Parse the auth data sent by the node in "Key: value" header lines
+ * @param authData Auth data of the handshake
+ * @returns gRPC metadata keyed by lower case header name
+ */
+function parseAuthData(authData: Buffer): Record<string, string> {
+  const metadata: Record<string, string> = {};
+
+  authData
+    .toString()
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        metadata[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    });
+
+  return metadata;
+}
+
+/**
+ * Client of an LND node reached through Lightning Node Connect
+ */
+export class LncClient {
+  private readonly mailboxAddress: string;
+  private readonly entropy?: Buffer;
+  private readonly credentialStore: LncCredentialStore;
+  private readonly timeoutMs: number;
+  private session?: Promise<LncSession>;
+
+  /**
+   * Creates a new LNC client. The session is opened by the first call.
+   * @param options Client options
+   * @throws Error if the mailbox address or pairing phrase is invalid
+   */
+  constructor(options: LncClientOptions) {
+    if (!options.mailboxAddress || !options.mailboxAddress.trim()) {
+      throw new Error('Invalid connection string: the mailbox address is required');
+    }
+
+    this.mailboxAddress = options.mailboxAddress.trim();
+    this.entropy = options.pairingPhrase
+      ? pairingPhraseToEntropy(options.pairingPhrase)
+      : undefined;
+    this.credentialStore = options.credentialStore;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  /**
+   * Make a unary call
+   * @param method Fully qualified method name, e.g. lnrpc.Lightning.GetInfo
+   * @param request Request message with camelCase fields
+   * @returns Promise resolving to the response message with camelCase fields
+   */
+  async request<T = unknown>(method: string, request: object = {}): Promise<T> {
+    const responses: unknown[] = [];
+    await this.call(method, request, (response) => responses.push(response));
+    return responses[0] as T;
+  }
+
+  /**
+   * Make a server streaming call
+   * @param method Fully qualified method name
+   * @param request Request message with camelCase fields
+   * @param onMessage Called with each streamed message
+   * @param onError Called if the call fails
+   */
+  subscribe(
+    method: string,
+    request: object,
+    onMessage?: (message: unknown) => void,
+    onError?: (error: Error) => void
+  ): void {
+    this.call(method, request, (message) => onMessage?.(message)).catch((error: Error) =>
+      onError?.(error)
+    );
+  }
+
+  /**
+   * Close the session, if open. The next call opens a new one.
+   */
+  close(): void {
+    const session = this.session;
+    this.session = undefined;
+
+    session
+      ?.then((openSession) => {
+        openSession.http.close();
+        openSession.connection.close();
+        openSession.mailbox.close();
+      })
+      .catch(() => {
+        // A session that failed to open has nothing to close
+      });
+  }
+
+  private async call(
+    method: string,
+    request: object,
+    onMessage: (message: unknown) => void
+  ): Promise<void> {
+    const { path: rpcPath, requestType, responseType } = resolveMethod(method);
+    const body = frameMessage(requestType.encode(requestType.fromObject(request)).finish());
+    const session = await this.getSession();
+
+    return new Promise((resolve, reject) => {
+      const stream = session.http.request({
+        ':method': 'POST',
+        ':path': rpcPath,
+        'content-type': 'application/grpc',
+        te: 'trailers',
+        ...session.metadata,
+      });
+
+      let buffered = Buffer.alloc(0);
+      let status: number | undefined;
+      let statusMessage = '';
+
+      const readStatus = (headers: http2.IncomingHttpHeaders): void => {
+        if (headers['grpc-status'] !== undefined) {
+          status = Number(headers['grpc-status']);
+          statusMessage = decodeURIComponent(String(headers['grpc-message'] || ''));
+        }
+      };
+
+      // Calls failing before any response carry the status in the headers
+      stream.on('response', readStatus);
+      stream.on('trailers', readStatus);
+
+      stream.on('data', (chunk: Buffer) => {
+        buffered = Buffer.concat([buffered, chunk]);
+
+        while (buffered.length >= 5 && buffered.length >= 5 + buffered.readUInt32BE(1)) {
+          const length = buffered.readUInt32BE(1);
+          const message = buffered.subarray(5, 5 + length);
+          buffered = buffered.subarray(5 + length);
+
+          try {
+            onMessage(responseType.toObject(responseType.decode(message), TO_OBJECT_OPTIONS));
+          } catch (error) {
+            stream.close(http2.constants.NGHTTP2_CANCEL);
+            reject(error);
+            return;
+          }
+        }
+      });
+
+      stream.on('close', () => {
+        if (status === 0) {
+          resolve();
+        } else {
+          reject(
+            new Error(
+              statusMessage || `LNC call ${method} failed with status ${status ?? 'unknown'}`
+            )
+          );
+        }
+      });
+
+      stream.on('error', reject);
+      stream.end(body);
+    });
+  }
+
+  private getSession(): Promise<LncSession> {
+    if (!this.session) {
+      const session = this.connect();
+      this.session = session;
+
+      // Forget the session once it fails or its connection drops
+      const forget = (): void => {
+        if (this.session === session) {
+          this.session = undefined;
+        }
+      };
+      session.then((openSession) => openSession.http.on('close', forget), forget);
+    }
+
+    return this.session;
+  }
+
+  private async connect(): Promise<LncSession> {
+    const stored = this.credentialStore.load();
+    const localKey = stored ? Buffer.from(stored.localKey, 'hex') : generatePrivateKey();
+    const remoteKey = stored?.remoteKey ? Buffer.from(stored.remoteKey, 'hex') : undefined;
+
+    if (!remoteKey && !this.entropy) {
+      throw new Error('A pairing phrase is required to pair with the node');
+    }
+
+    logger.debug('Opening LNC session', {
+      component: 'lnc-client',
+      operation: 'connect',
+      handshake: remoteKey ? 'KK' : 'XX',
+    });
+
+    // Once paired, the session id is derived from both static keys
+    const streamIds = deriveStreamIds(
+      remoteKey ? ecdh(localKey, remoteKey) : (this.entropy as Buffer)
+    );
+    const mailbox = await MailboxConnection.connect(
+      this.mailboxAddress,
+      streamIds.serverToClient,
+      streamIds.clientToServer,
+      this.timeoutMs
+    );
+    const connection = new GoBackNConnection((packet) => mailbox.send(packet), {
+      handshakeTimeoutMs: this.timeoutMs,
+    });
+
+    mailbox.on('packet', (packet: Buffer) => connection.handlePacket(packet));
+    mailbox.on('close', (reason: Error) => connection.destroy(reason));
+
+    const timer = setTimeout(() => {
+      connection.destroy(new Error('LNC connection timed out'));
+      mailbox.close();
+    }, this.timeoutMs);
+
+    try {
+      await connection.handshake();
+
+      const handshake = new NoiseHandshake({
+        initiator: true,
+        localStaticKey: localKey,
+        remoteStaticKey: remoteKey,
+        password: remoteKey ? undefined : await stretchPassword(this.entropy as Buffer),
+      });
+      let authData = Buffer.alloc(0);
+
+      while (!handshake.isComplete) {
+        if (handshake.isWriteTurn) {
+          connection.send(handshake.writeMessage());
+        } else {
+          const payload = handshake.readMessage(await connection.receive());
+          if (payload.length > 0) {
+            authData = payload;
+          }
+        }
+      }
+
+      const nodeKey = (handshake.remoteStaticKey as Buffer).toString('hex');
+      if (!stored || stored.remoteKey !== nodeKey) {
+        this.credentialStore.save({ localKey: localKey.toString('hex'), remoteKey: nodeKey });
+      }
+
+      const stream = createTransportStream(connection, handshake.split());
+      const http = http2.connect('http://lnc', { createConnection: () => stream });
+
+      http.on('error', (error) => {
+        logger.warn('LNC session error', {
+          component: 'lnc-client',
+          operation: 'connect',
+          error: error.message,
+        });
+      });
+      http.on('close', () => {
+        connection.close();
+        mailbox.close();
+      });
+
+      logger.info('LNC session opened', {
+        component: 'lnc-client',
+        operation: 'connect',
+        nodePubkey: `${nodeKey.substring(0, 8)}...`,
+      });
+
+      return { mailbox, connection, http, metadata: parseAuthData(authData) };
+    } catch (error) {
+      connection.close();
+      mailbox.close();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Create an RPC proxy for lnc-core's API classes, turning e.g.
+ * `lightning.getInfo(request)` into a call of lnrpc.Lightning.GetInfo
+ * @param serviceName Fully qualified service name, e.g. lnrpc.Lightning
+ * @param client The LNC client making the calls
+ * @returns Proxy with a function for every method of the service
+ */
+export function createRpc<T extends object>(serviceName: string, client: LncClient): T {
+  return new Proxy({} as T, {
+    get(_target, key) {
+      if (typeof key !== 'string') {
+        return undefined;
+      }
+
+      const method = `${serviceName}.${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+
+      if (subscriptionMethods.includes(method)) {
+        return (
+          request: object,
+          onMessage?: (message: unknown) => void,
+          onError?: (error: Error) => void
+        ) => client.subscribe(method, request, onMessage, onError);
+      }
+
+      return (request: object = {}) => client.request(method, request);
+    },
+  });
+}
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Tests for the LNC credential file locations
+ */
+
+import * as path from 'path';
+import { DEFAULT_CREDENTIALS_PATH, getDefaultCredentialsPath } from './credential-store';
+
+describe('getDefaultCredentialsPath', () => {
+  test('should keep the default file for the default node', () => {
+    expect(getDefaultCredentialsPath()).toBe(DEFAULT_CREDENTIALS_PATH);
+    expect(getDefaultCredentialsPath('default')).toBe(DEFAULT_CREDENTIALS_PATH);
+  });
+
+  test('should give each named node its own file', () => {
+    expect(getDefaultCredentialsPath('alpha')).toBe(
+      path.join(path.dirname(DEFAULT_CREDENTIALS_PATH), 'lnc-credentials-alpha.json')
+    );
+    expect(getDefaultCredentialsPath('alpha')).not.toBe(getDefaultCredentialsPath('beta'));
+  });
+});
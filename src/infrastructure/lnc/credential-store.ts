@@ -0,0 +1,81 @@
+/**
+ * @fileoverview File storage for LNC session keys.
+ *
+ * Pairing with a phrase is a one-time operation: afterwards the client
+ * reconnects with its own static key and the node's static key learned while
+ * pairing. Both are kept in a JSON file readable only by its owner.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_NODE_NAME } from '../../domain/node/NodeRegistry';
+
+/**
+ * Default location of the credential file
+ */
+export const DEFAULT_CREDENTIALS_PATH = path.join(
+  os.homedir(),
+  '.lightning-mcp-server',
+  'lnc-credentials.json'
+);
+
+/**
+ * Get the default location of a node's credential file. Each node has its
+ * own keys, so named nodes get their own file next to the default one.
+ * @param nodeName Name of the node
+ * @returns Path of the credential file
+ */
+export function getDefaultCredentialsPath(nodeName: string = DEFAULT_NODE_NAME): string {
+  return nodeName === DEFAULT_NODE_NAME
+    ? DEFAULT_CREDENTIALS_PATH
+    : path.join(path.dirname(DEFAULT_CREDENTIALS_PATH), `lnc-credentials-${nodeName}.json`);
+}
+
+/**
+ * Keys of an LNC session
+ */
+export interface LncCredentials {
+  /** Hex encoded private static key of this client */
+  localKey: string;
+  /** Hex encoded static public key of the node, known once paired */
+  remoteKey?: string;
+}
+
+/**
+ * Persists LNC session keys to a file
+ */
+export class LncCredentialStore {
+  /**
+   * Creates a new credential store
+   * @param filePath Path of the credential file
+   */
+  constructor(private readonly filePath: string = DEFAULT_CREDENTIALS_PATH) {}
+
+  /**
+   * Load the stored keys
+   * @returns The stored keys, or undefined if none are stored
+   * @throws Error if the credential file cannot be read or parsed
+   */
+  load(): LncCredentials | undefined {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+
+    const credentials = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LncCredentials;
+    if (typeof credentials.localKey !== 'string') {
+      throw new Error(`Invalid LNC credential file ${this.filePath}`);
+    }
+
+    return credentials;
+  }
+
+  /**
+   * Store keys, replacing any stored before
+   * @param credentials The keys to store
+   */
+  save(credentials: LncCredentials): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(this.filePath, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+  }
+}
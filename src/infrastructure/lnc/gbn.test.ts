@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Tests for GoBackNConnection
+ *
+ * Connects a client and server over an in-memory link that can drop and
+ * reorder packets.
+ */
+
+import { GoBackNConnection } from './gbn';
+
+describe('GoBackNConnection', () => {
+  let client: GoBackNConnection;
+  let server: GoBackNConnection;
+
+  /**
+   * Connect both ends, passing every packet through the given link
+   */
+  const connect = (link: (packet: Buffer, deliver: () => void) => void): void => {
+    const options = { resendTimeoutMs: 20, handshakeTimeoutMs: 2000, maxChunkSize: 16 };
+    const clientEnd: GoBackNConnection = new GoBackNConnection(
+      (packet) => link(packet, () => serverEnd.handlePacket(packet)),
+      options
+    );
+    const serverEnd: GoBackNConnection = new GoBackNConnection(
+      (packet) => link(packet, () => clientEnd.handlePacket(packet)),
+      { ...options, isServer: true }
+    );
+
+    client = clientEnd;
+    server = serverEnd;
+  };
+
+  const receiveAll = async (connection: GoBackNConnection, count: number): Promise<string[]> => {
+    const messages: string[] = [];
+    for (let i = 0; i < count; i++) {
+      messages.push((await connection.receive()).toString());
+    }
+    return messages;
+  };
+
+  const messages = Array.from({ length: 50 }, (_, i) => `message ${i} `.repeat(i % 5));
+
+  afterEach(() => {
+    client.close();
+    server.close();
+  });
+
+  test('should deliver messages in order, split into chunks', async () => {
+    connect((_packet, deliver) => setImmediate(deliver));
+    await Promise.all([client.handshake(), server.handshake()]);
+
+    messages.forEach((message) => client.send(Buffer.from(message)));
+
+    await expect(receiveAll(server, messages.length)).resolves.toEqual(messages);
+  });
+
+  test('should resend dropped packets', async () => {
+    let count = 0;
+    // Drop every fifth packet in either direction
+    connect((_packet, deliver) => {
+      if (++count % 5 !== 0) {
+        setImmediate(deliver);
+      }
+    });
+    await Promise.all([client.handshake(), server.handshake()]);
+
+    messages.forEach((message) => server.send(Buffer.from(message)));
+
+    await expect(receiveAll(client, messages.length)).resolves.toEqual(messages);
+  });
+
+  test('should deliver data packets received out of order in order', async () => {
+    let count = 0;
+    let held: (() => void) | undefined;
+    // Swap every third data packet with the packet following it
+    connect((packet, deliver) =>
+      setImmediate(() => {
+        if (packet[0] === 2 && ++count % 3 === 0 && !held) {
+          held = deliver;
+          return;
+        }
+
+        const release = held;
+        held = undefined;
+        deliver();
+        release?.();
+      })
+    );
+    await Promise.all([client.handshake(), server.handshake()]);
+
+    messages.forEach((message) => client.send(Buffer.from(message)));
+
+    await expect(receiveAll(server, messages.length)).resolves.toEqual(messages);
+  });
+
+  test('should reject pending receives once the remote side closes', async () => {
+    connect((_packet, deliver) => setImmediate(deliver));
+    await Promise.all([client.handshake(), server.handshake()]);
+
+    const receive = server.receive();
+    client.close();
+
+    await expect(receive).rejects.toThrow('closed by the remote side');
+  });
+});
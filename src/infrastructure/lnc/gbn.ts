@@ -0,0 +1,369 @@
+/**
+ * @fileoverview Go-back-N reliability layer of LNC.
+ *
+ * The mailbox relays individual packets but guarantees neither delivery nor
+ * order across reconnects, so LNC runs a go-back-N protocol over it. Messages
+ * are split into sequenced data packets, at most `windowSize` of which are
+ * unacknowledged at any time; lost packets are resent on NACK or timeout.
+ *
+ * Packet layouts, the first byte being the packet type:
+ * - SYN [1, N], SYNACK [5] and FIN [6] open and close the connection
+ * - DATA [2, seq, final chunk, is ping, payload...]
+ * - ACK [3, seq] and NACK [4, seq]
+ */
+
+const SYN = 1;
+const DATA = 2;
+const ACK = 3;
+const NACK = 4;
+const SYNACK = 5;
+const FIN = 6;
+
+/**
+ * Options of a go-back-N connection
+ */
+export interface GoBackNOptions {
+  /** Maximum number of unacknowledged packets, N. Default 20 */
+  windowSize?: number;
+  /** Whether this side answers the SYN instead of sending it. Default false */
+  isServer?: boolean;
+  /** Time after which unacknowledged packets are resent. Default 1000ms */
+  resendTimeoutMs?: number;
+  /** Time allowed for the SYN exchange. Default 30000ms */
+  handshakeTimeoutMs?: number;
+  /** Largest payload of a single data packet. Default 32 KiB */
+  maxChunkSize?: number;
+}
+
+/**
+ * A go-back-N connection over a packet transport
+ */
+export class GoBackNConnection {
+  private readonly windowSize: number;
+  private readonly sequenceSpace: number;
+  private readonly isServer: boolean;
+  private readonly resendTimeoutMs: number;
+  private readonly handshakeTimeoutMs: number;
+  private readonly maxChunkSize: number;
+
+  private connected = false;
+  private closedError?: Error;
+  private handshakeWaiter?: { resolve: () => void; reject: (error: Error) => void };
+  private handshakeTimer?: NodeJS.Timeout;
+
+  private nextSendSequence = 0;
+  private readonly queued: Array<{ payload: Buffer; final: boolean }> = [];
+  private readonly unacknowledged: Array<{ sequence: number; packet: Buffer }> = [];
+  private resendTimer?: NodeJS.Timeout;
+
+  private expectedSequence = 0;
+  private lastNack?: number;
+  private lastNackTime = 0;
+  private partial: Buffer[] = [];
+  private readonly received: Buffer[] = [];
+  private readonly receivers: Array<{
+    resolve: (message: Buffer) => void;
+    reject: (error: Error) => void;
+  }> = [];
+
+  /**
+   * Creates a new go-back-N connection
+   * @param sendPacket Sends a packet over the underlying transport
+   * @param options Connection options
+   */
+  constructor(private readonly sendPacket: (packet: Buffer) => void, options: GoBackNOptions = {}) {
+    this.windowSize = options.windowSize ?? 20;
+    this.sequenceSpace = this.windowSize + 1;
+    this.isServer = options.isServer ?? false;
+    this.resendTimeoutMs = options.resendTimeoutMs ?? 1000;
+    this.handshakeTimeoutMs = options.handshakeTimeoutMs ?? 30000;
+    this.maxChunkSize = options.maxChunkSize ?? 32 * 1024;
+  }
+
+  /**
+   * Exchange SYN, SYN and SYNACK with the remote side
+   * @returns Promise resolving once the connection is established
+   * @throws Error if the handshake times out or the connection closes
+   */
+  handshake(): Promise<void> {
+    if (this.connected) {
+      return Promise.resolve();
+    }
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.handshakeWaiter = { resolve, reject };
+      this.handshakeTimer = setTimeout(
+        () => this.destroy(new Error('Go-back-N handshake timed out')),
+        this.handshakeTimeoutMs
+      );
+
+      if (!this.isServer) {
+        // The SYN is repeated until the server answers it
+        this.transmit(Buffer.from([SYN, this.windowSize]));
+        this.resendTimer = setInterval(() => {
+          this.transmit(Buffer.from([SYN, this.windowSize]));
+        }, this.resendTimeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Handle a packet received from the underlying transport
+   * @param packet The received packet
+   */
+  handlePacket(packet: Buffer): void {
+    if (this.closedError || packet.length === 0) {
+      return;
+    }
+
+    switch (packet[0]) {
+      case SYN:
+        this.handleSyn(packet);
+        break;
+      case SYNACK:
+        if (this.isServer) {
+          this.establish();
+        }
+        break;
+      case DATA:
+        if (this.isServer && !this.connected) {
+          // A lost SYNACK is implied by the first data packet
+          this.establish();
+        }
+        this.handleData(packet);
+        break;
+      case ACK:
+        this.handleAck(packet[1]);
+        break;
+      case NACK:
+        this.handleNack(packet[1]);
+        break;
+      case FIN:
+        this.destroy(new Error('Go-back-N connection closed by the remote side'));
+        break;
+    }
+  }
+
+  /**
+   * Send a message, split into as many data packets as needed
+   * @param message The message to send
+   * @throws Error if the connection is closed
+   */
+  send(message: Buffer): void {
+    if (this.closedError) {
+      throw this.closedError;
+    }
+
+    for (let offset = 0; offset === 0 || offset < message.length; offset += this.maxChunkSize) {
+      this.queued.push({
+        payload: message.subarray(offset, offset + this.maxChunkSize),
+        final: offset + this.maxChunkSize >= message.length,
+      });
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Receive the next complete message
+   * @returns Promise resolving to the message
+   * @throws Error if the connection closes first
+   */
+  receive(): Promise<Buffer> {
+    const message = this.received.shift();
+    if (message) {
+      return Promise.resolve(message);
+    }
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+
+    return new Promise((resolve, reject) => this.receivers.push({ resolve, reject }));
+  }
+
+  /**
+   * Close the connection, notifying the remote side
+   */
+  close(): void {
+    if (this.closedError) {
+      return;
+    }
+    if (this.connected) {
+      this.transmit(Buffer.from([FIN]));
+    }
+    this.destroy(new Error('Go-back-N connection closed'));
+  }
+
+  /**
+   * Tear down the connection without notifying the remote side
+   * @param error Error returned to pending and later receives
+   */
+  destroy(error: Error): void {
+    if (this.closedError) {
+      return;
+    }
+
+    this.closedError = error;
+    clearTimeout(this.handshakeTimer);
+    clearInterval(this.resendTimer);
+    clearTimeout(this.resendTimer);
+
+    this.handshakeWaiter?.reject(error);
+    this.handshakeWaiter = undefined;
+    this.receivers.splice(0).forEach((receiver) => receiver.reject(error));
+  }
+
+  private handleSyn(packet: Buffer): void {
+    if (packet[1] !== this.windowSize) {
+      this.destroy(
+        new Error(`Go-back-N window size ${packet[1]} does not match ${this.windowSize}`)
+      );
+      return;
+    }
+
+    if (this.isServer) {
+      this.transmit(Buffer.from([SYN, this.windowSize]));
+      return;
+    }
+
+    // Repeated SYNs mean the server missed the SYNACK
+    this.transmit(Buffer.from([SYNACK]));
+    this.establish();
+  }
+
+  private establish(): void {
+    if (this.connected) {
+      return;
+    }
+
+    this.connected = true;
+    clearTimeout(this.handshakeTimer);
+    clearInterval(this.resendTimer);
+    this.resendTimer = undefined;
+
+    this.handshakeWaiter?.resolve();
+    this.handshakeWaiter = undefined;
+    this.flush();
+  }
+
+  private handleData(packet: Buffer): void {
+    const sequence = packet[1];
+
+    if (sequence === this.expectedSequence) {
+      this.transmit(Buffer.from([ACK, sequence]));
+      this.expectedSequence = (sequence + 1) % this.sequenceSpace;
+      this.lastNack = undefined;
+
+      // Pings only keep the connection alive
+      if (packet[3] === 1) {
+        return;
+      }
+
+      this.partial.push(packet.subarray(4));
+      if (packet[2] === 1) {
+        this.deliver(Buffer.concat(this.partial));
+        this.partial = [];
+      }
+      return;
+    }
+
+    // Out of order or already received: ask for the expected packet, at most
+    // once per resend timeout so a burst of packets triggers a single resend
+    const now = Date.now();
+    if (this.lastNack !== this.expectedSequence || now - this.lastNackTime > this.resendTimeoutMs) {
+      this.transmit(Buffer.from([NACK, this.expectedSequence]));
+      this.lastNack = this.expectedSequence;
+      this.lastNackTime = now;
+    }
+  }
+
+  private handleAck(sequence: number): void {
+    const index = this.unacknowledged.findIndex((entry) => entry.sequence === sequence);
+    if (index < 0) {
+      return;
+    }
+
+    // Acknowledgements are cumulative
+    this.unacknowledged.splice(0, index + 1);
+    this.restartResendTimer();
+    this.flush();
+  }
+
+  private handleNack(sequence: number): void {
+    // A NACK of the next sequence to send means everything arrived but the ACKs
+    if (sequence === this.nextSendSequence) {
+      this.unacknowledged.splice(0);
+      this.restartResendTimer();
+      this.flush();
+      return;
+    }
+
+    const index = this.unacknowledged.findIndex((entry) => entry.sequence === sequence);
+    if (index < 0) {
+      return;
+    }
+
+    // Everything before the NACKed sequence arrived
+    this.unacknowledged.splice(0, index);
+    this.resendUnacknowledged();
+  }
+
+  private flush(): void {
+    if (!this.connected) {
+      return;
+    }
+
+    while (this.unacknowledged.length < this.windowSize && this.queued.length > 0) {
+      const { payload, final } = this.queued.shift() as { payload: Buffer; final: boolean };
+      const packet = Buffer.concat([
+        Buffer.from([DATA, this.nextSendSequence, final ? 1 : 0, 0]),
+        payload,
+      ]);
+
+      this.unacknowledged.push({ sequence: this.nextSendSequence, packet });
+      this.nextSendSequence = (this.nextSendSequence + 1) % this.sequenceSpace;
+      this.transmit(packet);
+    }
+
+    if (this.unacknowledged.length > 0 && !this.resendTimer) {
+      this.restartResendTimer();
+    }
+  }
+
+  private resendUnacknowledged(): void {
+    this.unacknowledged.forEach((entry) => this.transmit(entry.packet));
+    this.restartResendTimer();
+  }
+
+  private restartResendTimer(): void {
+    clearTimeout(this.resendTimer);
+    this.resendTimer = undefined;
+
+    if (this.unacknowledged.length > 0 && !this.closedError) {
+      this.resendTimer = setTimeout(() => {
+        this.resendTimer = undefined;
+        this.resendUnacknowledged();
+      }, this.resendTimeoutMs);
+    }
+  }
+
+  private deliver(message: Buffer): void {
+    const receiver = this.receivers.shift();
+    if (receiver) {
+      receiver.resolve(message);
+    } else {
+      this.received.push(message);
+    }
+  }
+
+  private transmit(packet: Buffer): void {
+    try {
+      this.sendPacket(packet);
+    } catch (error) {
+      this.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
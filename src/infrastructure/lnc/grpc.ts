@@ -0,0 +1,93 @@
+/**
+ * @fileoverview gRPC encoding of the LND calls made over LNC.
+ *
+ * LNC carries plain gRPC over HTTP/2, so messages are encoded with the LND
+ * protos shipped in ln-service's lightning package.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as protobuf from 'protobufjs';
+
+/**
+ * Options used to convert decoded messages, matching the JSON encoding LNC
+ * returns: 64-bit integers and enums as strings, bytes as base64
+ */
+export const TO_OBJECT_OPTIONS: protobuf.IConversionOptions = {
+  longs: String,
+  enums: String,
+  bytes: String,
+  defaults: true,
+  arrays: true,
+  objects: true,
+};
+
+let protoRoot: protobuf.Root | undefined;
+
+/**
+ * Load the LND protos shipped with ln-service's lightning package
+ * @returns The resolved proto root
+ */
+function getProtoRoot(): protobuf.Root {
+  if (!protoRoot) {
+    const lightningPackage = require.resolve('lightning/package.json', {
+      paths: [path.dirname(require.resolve('ln-service'))],
+    });
+    const protosDir = path.join(path.dirname(lightningPackage), 'grpc', 'protos');
+    const files = fs
+      .readdirSync(protosDir)
+      .filter((file) => file.endsWith('.proto'))
+      .map((file) => path.join(protosDir, file));
+
+    protoRoot = new protobuf.Root();
+    protoRoot.loadSync(files);
+    protoRoot.resolveAll();
+  }
+
+  return protoRoot;
+}
+
+/**
+ * Resolve an LNC method name such as lnrpc.Lightning.GetInfo
+ * @param method Fully qualified method name
+ * @returns The gRPC path and message types of the method
+ * @throws Error if the method is unknown
+ */
+export function resolveMethod(method: string): {
+  path: string;
+  requestType: protobuf.Type;
+  responseType: protobuf.Type;
+} {
+  const separator = method.lastIndexOf('.');
+  const serviceName = method.slice(0, separator);
+  const methodName = method.slice(separator + 1);
+
+  let rpc: protobuf.Method | undefined;
+  try {
+    rpc = getProtoRoot().lookupService(serviceName).methods[methodName];
+  } catch {
+    rpc = undefined;
+  }
+
+  if (!rpc || !rpc.resolvedRequestType || !rpc.resolvedResponseType) {
+    throw new Error(`Unknown LNC method ${method}`);
+  }
+
+  return {
+    path: `/${serviceName}/${methodName}`,
+    requestType: rpc.resolvedRequestType,
+    responseType: rpc.resolvedResponseType,
+  };
+}
+
+/**
+ * Frame a message the way gRPC sends it over HTTP/2
+ * @param message Encoded message
+ * @returns Uncompressed flag, big-endian length and message
+ */
+export function frameMessage(message: Uint8Array): Buffer {
+  const frame = Buffer.alloc(5 + message.length);
+  frame.writeUInt32BE(message.length, 1);
+  frame.set(message, 5);
+  return frame;
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Tests for the mailbox stream ids and addresses
+ */
+
+import { deriveStreamIds, getMailboxUrl } from './mailbox';
+import { ecdh, getPublicKey } from './secp256k1';
+
+describe('deriveStreamIds', () => {
+  const SESSION_ID =
+    '79d76024a31cdbe54ca951d264c46e78f6f5ac5dcd018baf89aa586333be82b2d5ca2bc64b99ca2a99d95a984f2dc0d6c07e7c96059dd346bb3296ade3aa33c0';
+
+  test('should derive the streams of a pairing from the password entropy', () => {
+    const entropy = Buffer.from('000102030405060708090a0b0c0d', 'hex');
+    const { serverToClient, clientToServer } = deriveStreamIds(entropy);
+
+    expect(serverToClient.toString('hex')).toBe(SESSION_ID);
+    expect(clientToServer.toString('hex')).toBe(`${SESSION_ID.slice(0, -2)}c1`);
+  });
+
+  test('should derive the same streams on both sides of a paired session', () => {
+    const clientKey = Buffer.alloc(32, 0x11);
+    const nodeKey = Buffer.alloc(32, 0x21);
+
+    expect(deriveStreamIds(ecdh(clientKey, getPublicKey(nodeKey)))).toEqual(
+      deriveStreamIds(ecdh(nodeKey, getPublicKey(clientKey)))
+    );
+  });
+});
+
+describe('getMailboxUrl', () => {
+  test('should default to secure WebSockets', () => {
+    expect(getMailboxUrl('mailbox.terminal.lightning.today:443')).toBe(
+      'wss://mailbox.terminal.lightning.today:443'
+    );
+    expect(getMailboxUrl('ws://127.0.0.1:8080/')).toBe('ws://127.0.0.1:8080');
+  });
+});
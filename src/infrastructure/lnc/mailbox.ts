@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Mailbox connection carrying LNC packets.
+ *
+ * The LNC mailbox (hashmail) relays packets between the client and the node
+ * through two streams identified by 64 byte stream ids: one read over a
+ * `receive` WebSocket and one written over a `send` WebSocket. Packets are
+ * base64 encoded inside the JSON messages of the mailbox's gRPC gateway.
+ */
+
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+
+/**
+ * Path of the WebSocket reading a mailbox stream
+ */
+export const RECEIVE_PATH = '/v1/lightning-node-connect/hashmail/receive?method=POST';
+
+/**
+ * Path of the WebSocket writing a mailbox stream
+ */
+export const SEND_PATH = '/v1/lightning-node-connect/hashmail/send?method=POST';
+
+/**
+ * Stream ids of the two directions of a mailbox session
+ */
+export interface StreamIds {
+  /** Stream written by the node and read by the client */
+  serverToClient: Buffer;
+  /** Stream written by the client and read by the node */
+  clientToServer: Buffer;
+}
+
+/**
+ * Derive the stream ids of a session
+ *
+ * The session id is the SHA-512 of the pairing password entropy, or of the
+ * shared secret of both static keys once paired. The client-to-server stream
+ * flips the last bit of the session id.
+ *
+ * @param secret Password entropy or static key shared secret
+ * @returns The stream ids of both directions
+ */
+export function deriveStreamIds(secret: Buffer): StreamIds {
+  const serverToClient = crypto.createHash('sha512').update(secret).digest();
+  const clientToServer = Buffer.from(serverToClient);
+  clientToServer[63] ^= 0x01;
+
+  return { serverToClient, clientToServer };
+}
+
+/**
+ * Build the WebSocket base URL of a mailbox address
+ * @param address host:port of the mailbox, or a ws:// or wss:// URL
+ * @returns The base URL without a trailing slash
+ */
+export function getMailboxUrl(address: string): string {
+  const url = /^wss?:\/\//.test(address) ? address : `wss://${address}`;
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Open a WebSocket connection
+ * @param url ws:// or wss:// URL
+ * @param timeoutMs Time allowed for the connection and upgrade
+ * @returns Promise resolving to the open connection
+ * @throws Error if the server refuses the upgrade or cannot be reached
+ */
+function connectWebSocket(url: string, timeoutMs: number): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, { handshakeTimeout: timeoutMs });
+
+    socket.once('open', () => resolve(socket));
+    // Stays attached so errors before the session listens are not unhandled
+    socket.on('error', reject);
+  });
+}
+
+/**
+ * An open mailbox session reading one stream and writing another
+ *
+ * Emits `packet` with each received packet and `close` with the reason once
+ * either WebSocket closes.
+ */
+export class MailboxConnection extends EventEmitter {
+  private closed = false;
+
+  private constructor(
+    private readonly receiveSocket: WebSocket,
+    private readonly sendSocket: WebSocket,
+    private readonly sendStreamId: Buffer
+  ) {
+    super();
+
+    receiveSocket.on('message', (message: WebSocket.RawData) =>
+      this.handleMessage(String(message))
+    );
+
+    [receiveSocket, sendSocket].forEach((socket) => {
+      socket.on('error', (error: Error) => this.shutdown(error));
+      socket.on('close', () => this.shutdown(new Error('Mailbox connection closed')));
+    });
+  }
+
+  /**
+   * Connect to the mailbox
+   * @param address host:port of the mailbox, or a ws:// or wss:// URL
+   * @param receiveStreamId Stream read by this side
+   * @param sendStreamId Stream written by this side
+   * @param timeoutMs Time allowed for each WebSocket to open
+   * @returns Promise resolving to the open session
+   * @throws Error if the mailbox cannot be reached
+   */
+  static async connect(
+    address: string,
+    receiveStreamId: Buffer,
+    sendStreamId: Buffer,
+    timeoutMs: number
+  ): Promise<MailboxConnection> {
+    const baseUrl = getMailboxUrl(address);
+    const receiveSocket = await connectWebSocket(`${baseUrl}${RECEIVE_PATH}`, timeoutMs);
+
+    let sendSocket: WebSocket;
+    try {
+      sendSocket = await connectWebSocket(`${baseUrl}${SEND_PATH}`, timeoutMs);
+    } catch (error) {
+      receiveSocket.close();
+      throw error;
+    }
+
+    // The receive socket names the stream to read in its first message
+    receiveSocket.send(JSON.stringify({ stream_id: receiveStreamId.toString('base64') }));
+
+    return new MailboxConnection(receiveSocket, sendSocket, sendStreamId);
+  }
+
+  /**
+   * Send a packet
+   * @param packet The packet
+   * @throws Error if the session is closed
+   */
+  send(packet: Buffer): void {
+    if (this.closed) {
+      throw new Error('Mailbox connection closed');
+    }
+
+    this.sendSocket.send(
+      JSON.stringify({
+        desc: { stream_id: this.sendStreamId.toString('base64') },
+        msg: packet.toString('base64'),
+      })
+    );
+  }
+
+  /**
+   * Close both WebSockets
+   */
+  close(): void {
+    this.shutdown(new Error('Mailbox connection closed'));
+  }
+
+  private handleMessage(message: string): void {
+    let parsed: { result?: { msg?: string }; error?: { message?: string } };
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      this.shutdown(new Error('Mailbox sent a malformed message'));
+      return;
+    }
+
+    if (parsed.error) {
+      this.shutdown(new Error(`Mailbox error: ${parsed.error.message || 'unknown error'}`));
+    } else if (parsed.result?.msg !== undefined) {
+      this.emit('packet', Buffer.from(parsed.result.msg, 'base64'));
+    }
+  }
+
+  private shutdown(reason: Error): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.receiveSocket.close();
+    this.sendSocket.close();
+    this.emit('close', reason);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Tests for the Noise handshake state
+ *
+ * Replays the BOLT 8 handshake with the test vectors of LND's brontide
+ * package, which shares its key derivation, cipher and hashing with LNC.
+ */
+
+import { SymmetricState } from './noise';
+import { ecdh, getPublicKey } from './secp256k1';
+
+describe('SymmetricState', () => {
+  const hex = (value: string): Buffer => Buffer.from(value, 'hex');
+  const key = (byte: number): Buffer => Buffer.alloc(32, byte);
+
+  // Keys of the BOLT 8 vectors: static and ephemeral keys of both sides
+  const initiatorStatic = key(0x11);
+  const initiatorEphemeral = key(0x12);
+  const responderStatic = key(0x21);
+  const responderEphemeral = key(0x22);
+
+  const ACT_ONE =
+    '00036360e856310ce5d294e8be33fc807077dc56ac80d95d9cd4ddbd21325eff73f70df6086551151f58b8afe6c195782c6a';
+  const ACT_TWO =
+    '0002466d7fcae563e5cb09a0d1870bb580344804617879a14949cf22285f1bae3f276e2470b93aac583c9ef6eafca3f730ae';
+  const ACT_THREE =
+    '00b9e3a702e93e3a9948c2ed6e5fd7590a6e1c3a0344cfc9d5b57357049aa22355361aa02e55a8fc28fef5bd6d71ad0c38228dc68b1c466263b47fdf31e560e139ba';
+
+  const startHandshake = (): SymmetricState => {
+    const state = new SymmetricState('Noise_XK_secp256k1_ChaChaPoly_SHA256');
+    state.mixHash(Buffer.from('lightning'));
+    state.mixHash(getPublicKey(responderStatic));
+    return state;
+  };
+
+  test('should write the acts of the initiator', () => {
+    const state = startHandshake();
+
+    // Act one: e, es
+    const ephemeralKey = getPublicKey(initiatorEphemeral);
+    state.mixHash(ephemeralKey);
+    state.mixKey(ecdh(initiatorEphemeral, getPublicKey(responderStatic)));
+    const actOne = Buffer.concat([
+      Buffer.from([0]),
+      ephemeralKey,
+      state.encryptAndHash(Buffer.alloc(0)),
+    ]);
+    expect(actOne.toString('hex')).toBe(ACT_ONE);
+
+    // Act two: e, ee
+    const remoteEphemeralKey = hex(ACT_TWO).subarray(1, 34);
+    state.mixHash(remoteEphemeralKey);
+    state.mixKey(ecdh(initiatorEphemeral, remoteEphemeralKey));
+    expect(state.decryptAndHash(hex(ACT_TWO).subarray(34))).toHaveLength(0);
+
+    // Act three: s, se
+    const staticKey = state.encryptAndHash(getPublicKey(initiatorStatic));
+    state.mixKey(ecdh(initiatorStatic, remoteEphemeralKey));
+    const actThree = Buffer.concat([
+      Buffer.from([0]),
+      staticKey,
+      state.encryptAndHash(Buffer.alloc(0)),
+    ]);
+    expect(actThree.toString('hex')).toBe(ACT_THREE);
+  });
+
+  test('should read the acts of the initiator as the responder', () => {
+    const state = startHandshake();
+
+    // Act one: e, es
+    const remoteEphemeralKey = hex(ACT_ONE).subarray(1, 34);
+    state.mixHash(remoteEphemeralKey);
+    state.mixKey(ecdh(responderStatic, remoteEphemeralKey));
+    expect(state.decryptAndHash(hex(ACT_ONE).subarray(34))).toHaveLength(0);
+
+    // Act two: e, ee
+    const ephemeralKey = getPublicKey(responderEphemeral);
+    state.mixHash(ephemeralKey);
+    state.mixKey(ecdh(responderEphemeral, remoteEphemeralKey));
+    const actTwo = Buffer.concat([
+      Buffer.from([0]),
+      ephemeralKey,
+      state.encryptAndHash(Buffer.alloc(0)),
+    ]);
+    expect(actTwo.toString('hex')).toBe(ACT_TWO);
+
+    // Act three: s, se
+    const remoteStaticKey = state.decryptAndHash(hex(ACT_THREE).subarray(1, 50));
+    expect(remoteStaticKey).toEqual(getPublicKey(initiatorStatic));
+    state.mixKey(ecdh(responderEphemeral, remoteStaticKey));
+    expect(state.decryptAndHash(hex(ACT_THREE).subarray(50))).toHaveLength(0);
+  });
+
+  test('should reject a tampered act', () => {
+    const state = startHandshake();
+    const actOne = hex(ACT_ONE);
+    actOne[actOne.length - 1] ^= 0x01;
+
+    const remoteEphemeralKey = actOne.subarray(1, 34);
+    state.mixHash(remoteEphemeralKey);
+    state.mixKey(ecdh(responderStatic, remoteEphemeralKey));
+    expect(() => state.decryptAndHash(actOne.subarray(34))).toThrow(
+      'Noise message failed to decrypt'
+    );
+  });
+});
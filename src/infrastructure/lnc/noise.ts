@@ -0,0 +1,591 @@
+/**
+ * @fileoverview Noise handshakes and transport encryption of LNC.
+ *
+ * LNC authenticates both ends of a mailbox stream with one of two Noise
+ * handshakes over secp256k1, ChaCha20-Poly1305 and SHA-256:
+ *
+ * - XXeke+SPAKE2 for the first connection, where the initiator masks its
+ *   ephemeral key with the stretched pairing password
+ * - KK for later connections, where both sides already know the static key of
+ *   the other
+ *
+ * After the handshake, messages are sent as an encrypted length header
+ * followed by the encrypted body, rotating keys every 1000 messages like
+ * LND's brontide transport.
+ */
+
+import * as crypto from 'crypto';
+import { Duplex } from 'stream';
+import {
+  addPoints,
+  ecdh,
+  generatePrivateKey,
+  getPublicKey,
+  multiplyPoint,
+  negatePoint,
+} from './secp256k1';
+
+/**
+ * Handshake version written as the first byte of every act
+ */
+export const HANDSHAKE_VERSION = 2;
+
+/**
+ * Prologue mixed into every LNC handshake
+ */
+const PROLOGUE = Buffer.from('lightning-node-connect');
+
+/**
+ * Generator of the SPAKE2 password point, with no known discrete logarithm
+ */
+const SPAKE2_N = Buffer.from(
+  '0254a58cd0f31c008fd0bc9b2dd5ba586144933829f6da33ac4130b555fb5ea32c',
+  'hex'
+);
+
+/**
+ * Size of a compressed public key
+ */
+const KEY_SIZE = 33;
+
+/**
+ * Size of a Poly1305 authentication tag
+ */
+const MAC_SIZE = 16;
+
+/**
+ * Size of the length prefixes of act payloads and transport messages
+ */
+const LENGTH_SIZE = 4;
+
+/**
+ * Minimum size act payloads are padded to, hiding the length of the auth data
+ */
+const MIN_ACT_PAYLOAD_SIZE = 500;
+
+/**
+ * Number of messages encrypted with a key before it is rotated
+ */
+const KEY_ROTATION_INTERVAL = 1000;
+
+/**
+ * Largest transport message accepted from the remote side
+ */
+const MAX_MESSAGE_SIZE = 16 * 1024 * 1024;
+
+type Token = 'e' | 'me' | 's' | 'ee' | 'es' | 'se' | 'ss';
+
+interface HandshakePattern {
+  protocolName: string;
+  /** Whether both static keys are known before the handshake */
+  preSharedStaticKeys: boolean;
+  acts: Array<{ initiator: boolean; tokens: Token[] }>;
+}
+
+const XX_EKE_PATTERN: HandshakePattern = {
+  protocolName: 'Noise_XXeke+SPAKE2_secp256k1_ChaChaPoly_SHA256',
+  preSharedStaticKeys: false,
+  acts: [
+    { initiator: true, tokens: ['me'] },
+    { initiator: false, tokens: ['e', 'ee', 's', 'es'] },
+    { initiator: true, tokens: ['s', 'se'] },
+  ],
+};
+
+const KK_PATTERN: HandshakePattern = {
+  protocolName: 'Noise_KK_secp256k1_ChaChaPoly_SHA256',
+  preSharedStaticKeys: true,
+  acts: [
+    { initiator: true, tokens: ['e', 'es', 'ss'] },
+    { initiator: false, tokens: ['e', 'ee', 'se'] },
+  ],
+};
+
+function sha256(...data: Buffer[]): Buffer {
+  const hash = crypto.createHash('sha256');
+  data.forEach((chunk) => hash.update(chunk));
+  return hash.digest();
+}
+
+function hmac(key: Buffer, ...data: Buffer[]): Buffer {
+  const mac = crypto.createHmac('sha256', key);
+  data.forEach((chunk) => mac.update(chunk));
+  return mac.digest();
+}
+
+/**
+ * HKDF as defined by Noise, returning two 32 byte outputs
+ */
+function hkdf(salt: Buffer, input: Buffer): [Buffer, Buffer] {
+  const key = hmac(salt, input);
+  const first = hmac(key, Buffer.from([1]));
+  return [first, hmac(key, first, Buffer.from([2]))];
+}
+
+function writeLength(length: number): Buffer {
+  const header = Buffer.alloc(LENGTH_SIZE);
+  header.writeUInt32BE(length);
+  return header;
+}
+
+/**
+ * ChaCha20-Poly1305 cipher with a message counter nonce and key rotation
+ */
+class CipherState {
+  private nonce = 0;
+
+  constructor(private key: Buffer, private salt: Buffer) {}
+
+  encrypt(plaintext: Buffer, associatedData: Buffer = Buffer.alloc(0)): Buffer {
+    const cipher = crypto.createCipheriv('chacha20-poly1305', this.key, this.nextNonce(), {
+      authTagLength: MAC_SIZE,
+    });
+    cipher.setAAD(associatedData, { plaintextLength: plaintext.length });
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    this.advance();
+    return ciphertext;
+  }
+
+  decrypt(ciphertext: Buffer, associatedData: Buffer = Buffer.alloc(0)): Buffer {
+    if (ciphertext.length < MAC_SIZE) {
+      throw new Error('Noise message is too short');
+    }
+
+    const body = ciphertext.subarray(0, ciphertext.length - MAC_SIZE);
+    const decipher = crypto.createDecipheriv('chacha20-poly1305', this.key, this.nextNonce(), {
+      authTagLength: MAC_SIZE,
+    });
+    decipher.setAAD(associatedData, { plaintextLength: body.length });
+    decipher.setAuthTag(ciphertext.subarray(body.length));
+
+    let plaintext: Buffer;
+    try {
+      plaintext = Buffer.concat([decipher.update(body), decipher.final()]);
+    } catch {
+      throw new Error('Noise message failed to decrypt');
+    }
+
+    this.advance();
+    return plaintext;
+  }
+
+  private nextNonce(): Buffer {
+    const nonce = Buffer.alloc(12);
+    nonce.writeBigUInt64LE(BigInt(this.nonce), 4);
+    return nonce;
+  }
+
+  private advance(): void {
+    this.nonce++;
+    if (this.nonce === KEY_ROTATION_INTERVAL) {
+      [this.salt, this.key] = hkdf(this.salt, this.key);
+      this.nonce = 0;
+    }
+  }
+}
+
+/**
+ * Chaining key, handshake hash and cipher of a handshake in progress
+ *
+ * Shared with LND's brontide handshake, whose test vectors pin it down.
+ */
+export class SymmetricState {
+  private chainingKey: Buffer;
+  private handshakeHash: Buffer;
+  private cipher?: CipherState;
+
+  constructor(protocolName: string) {
+    const name = Buffer.from(protocolName);
+    this.handshakeHash = name.length <= 32 ? Buffer.concat([name], 32) : sha256(name);
+    this.chainingKey = this.handshakeHash;
+  }
+
+  get hasKey(): boolean {
+    return this.cipher !== undefined;
+  }
+
+  mixHash(data: Buffer): void {
+    this.handshakeHash = sha256(this.handshakeHash, data);
+  }
+
+  mixKey(input: Buffer): void {
+    const [chainingKey, key] = hkdf(this.chainingKey, input);
+    this.chainingKey = chainingKey;
+    this.cipher = new CipherState(key, chainingKey);
+  }
+
+  encryptAndHash(plaintext: Buffer): Buffer {
+    const ciphertext = this.cipher ? this.cipher.encrypt(plaintext, this.handshakeHash) : plaintext;
+    this.mixHash(ciphertext);
+    return ciphertext;
+  }
+
+  decryptAndHash(ciphertext: Buffer): Buffer {
+    const plaintext = this.cipher
+      ? this.cipher.decrypt(ciphertext, this.handshakeHash)
+      : ciphertext;
+    this.mixHash(ciphertext);
+    return plaintext;
+  }
+
+  split(initiator: boolean): NoiseTransport {
+    const [first, second] = hkdf(this.chainingKey, Buffer.alloc(0));
+    const [sendKey, receiveKey] = initiator ? [first, second] : [second, first];
+
+    return new NoiseTransport(sendKey, receiveKey, this.chainingKey);
+  }
+}
+
+/**
+ * Options of a Noise handshake
+ */
+export interface NoiseHandshakeOptions {
+  /** Whether this side starts the handshake */
+  initiator: boolean;
+  /** Private static key of this side */
+  localStaticKey: Buffer;
+  /** Static public key of the other side, selecting the KK handshake */
+  remoteStaticKey?: Buffer;
+  /** Stretched pairing password, required by the XXeke handshake */
+  password?: Buffer;
+}
+
+/**
+ * State machine of an LNC Noise handshake
+ */
+export class NoiseHandshake {
+  private readonly pattern: HandshakePattern;
+  private readonly state: SymmetricState;
+  private readonly initiator: boolean;
+  private readonly localStaticKey: Buffer;
+  private readonly passwordPoint?: Buffer;
+  private localEphemeralKey?: Buffer;
+  private remoteEphemeralKey?: Buffer;
+  private act = 0;
+
+  /**
+   * Static public key of the other side, known once the handshake reveals it
+   */
+  remoteStaticKey?: Buffer;
+
+  /**
+   * Creates a new handshake
+   * @param options Keys and role of this side
+   * @throws Error if neither a remote static key nor a password is given
+   */
+  constructor(options: NoiseHandshakeOptions) {
+    this.initiator = options.initiator;
+    this.localStaticKey = options.localStaticKey;
+    this.remoteStaticKey = options.remoteStaticKey;
+
+    if (options.remoteStaticKey) {
+      this.pattern = KK_PATTERN;
+    } else if (options.password) {
+      this.pattern = XX_EKE_PATTERN;
+      this.passwordPoint = multiplyPoint(SPAKE2_N, options.password);
+    } else {
+      throw new Error('A pairing password or remote static key is required');
+    }
+
+    this.state = new SymmetricState(this.pattern.protocolName);
+    this.state.mixHash(PROLOGUE);
+
+    if (this.pattern.preSharedStaticKeys && this.remoteStaticKey) {
+      const localPublicKey = getPublicKey(this.localStaticKey);
+      const [initiatorKey, responderKey] = this.initiator
+        ? [localPublicKey, this.remoteStaticKey]
+        : [this.remoteStaticKey, localPublicKey];
+      this.state.mixHash(initiatorKey);
+      this.state.mixHash(responderKey);
+    }
+  }
+
+  /**
+   * Whether all acts of the handshake have been exchanged
+   */
+  get isComplete(): boolean {
+    return this.act === this.pattern.acts.length;
+  }
+
+  /**
+   * Whether the next act is written by this side
+   */
+  get isWriteTurn(): boolean {
+    return !this.isComplete && this.pattern.acts[this.act].initiator === this.initiator;
+  }
+
+  /**
+   * Write the next act
+   * @param payload Payload carried encrypted by the act
+   * @returns The act message
+   */
+  writeMessage(payload: Buffer = Buffer.alloc(0)): Buffer {
+    if (!this.isWriteTurn) {
+      throw new Error('Noise handshake is not expecting a message from this side');
+    }
+
+    const parts: Buffer[] = [Buffer.from([HANDSHAKE_VERSION])];
+
+    for (const token of this.pattern.acts[this.act].tokens) {
+      if (token === 'e' || token === 'me') {
+        this.localEphemeralKey = generatePrivateKey();
+        const ephemeralKey = getPublicKey(this.localEphemeralKey);
+        this.state.mixHash(ephemeralKey);
+        parts.push(
+          token === 'me' ? addPoints(ephemeralKey, this.requirePasswordPoint()) : ephemeralKey
+        );
+      } else if (token === 's') {
+        parts.push(this.state.encryptAndHash(getPublicKey(this.localStaticKey)));
+      } else {
+        this.state.mixKey(this.dh(token));
+      }
+    }
+
+    const padding = Math.max(0, MIN_ACT_PAYLOAD_SIZE - LENGTH_SIZE - payload.length);
+    parts.push(
+      this.state.encryptAndHash(
+        Buffer.concat([writeLength(payload.length), payload, Buffer.alloc(padding)])
+      )
+    );
+
+    this.act++;
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Read the next act
+   * @param message The act message
+   * @returns The payload carried by the act
+   * @throws Error if the act is malformed or fails to authenticate
+   */
+  readMessage(message: Buffer): Buffer {
+    if (this.isComplete || this.isWriteTurn) {
+      throw new Error('Noise handshake is not expecting a message from the remote side');
+    }
+    if (message[0] !== HANDSHAKE_VERSION) {
+      throw new Error(`Unsupported Noise handshake version ${message[0]}`);
+    }
+
+    let offset = 1;
+    const take = (length: number): Buffer => {
+      if (offset + length > message.length) {
+        throw new Error('Noise handshake message is too short');
+      }
+      offset += length;
+      return message.subarray(offset - length, offset);
+    };
+
+    for (const token of this.pattern.acts[this.act].tokens) {
+      if (token === 'e') {
+        this.remoteEphemeralKey = take(KEY_SIZE);
+        this.state.mixHash(this.remoteEphemeralKey);
+      } else if (token === 'me') {
+        this.remoteEphemeralKey = addPoints(
+          take(KEY_SIZE),
+          negatePoint(this.requirePasswordPoint())
+        );
+        this.state.mixHash(this.remoteEphemeralKey);
+      } else if (token === 's') {
+        const size = this.state.hasKey ? KEY_SIZE + MAC_SIZE : KEY_SIZE;
+        this.remoteStaticKey = this.state.decryptAndHash(take(size));
+      } else {
+        this.state.mixKey(this.dh(token));
+      }
+    }
+
+    const payload = this.state.decryptAndHash(message.subarray(offset));
+    const length = payload.length >= LENGTH_SIZE ? payload.readUInt32BE(0) : -1;
+
+    if (length < 0 || LENGTH_SIZE + length > payload.length) {
+      throw new Error('Noise handshake payload is malformed');
+    }
+
+    this.act++;
+    return payload.subarray(LENGTH_SIZE, LENGTH_SIZE + length);
+  }
+
+  /**
+   * Derive the transport encryption of a completed handshake
+   * @returns Transport encryption keyed for this side
+   */
+  split(): NoiseTransport {
+    if (!this.isComplete) {
+      throw new Error('Noise handshake is not complete');
+    }
+    return this.state.split(this.initiator);
+  }
+
+  private dh(token: Token): Buffer {
+    const localEphemeralKey = this.localEphemeralKey;
+    const remoteEphemeralKey = this.remoteEphemeralKey;
+    const remoteStaticKey = this.remoteStaticKey;
+
+    const requireKey = (key: Buffer | undefined): Buffer => {
+      if (!key) {
+        throw new Error(`Noise handshake is missing a key for ${token}`);
+      }
+      return key;
+    };
+
+    switch (token) {
+      case 'ee':
+        return ecdh(requireKey(localEphemeralKey), requireKey(remoteEphemeralKey));
+      case 'es':
+        return this.initiator
+          ? ecdh(requireKey(localEphemeralKey), requireKey(remoteStaticKey))
+          : ecdh(this.localStaticKey, requireKey(remoteEphemeralKey));
+      case 'se':
+        return this.initiator
+          ? ecdh(this.localStaticKey, requireKey(remoteEphemeralKey))
+          : ecdh(requireKey(localEphemeralKey), requireKey(remoteStaticKey));
+      default:
+        return ecdh(this.localStaticKey, requireKey(remoteStaticKey));
+    }
+  }
+
+  private requirePasswordPoint(): Buffer {
+    if (!this.passwordPoint) {
+      throw new Error('Noise handshake is missing the pairing password');
+    }
+    return this.passwordPoint;
+  }
+}
+
+/**
+ * Encryption of messages exchanged after a completed handshake
+ */
+export class NoiseTransport {
+  private readonly sendCipher: CipherState;
+  private readonly receiveCipher: CipherState;
+  private buffered: Buffer = Buffer.alloc(0);
+  private pendingLength?: number;
+
+  /**
+   * Creates transport encryption from split handshake keys
+   * @param sendKey Key of outgoing messages
+   * @param receiveKey Key of incoming messages
+   * @param salt Final chaining key of the handshake, used to rotate keys
+   */
+  constructor(sendKey: Buffer, receiveKey: Buffer, salt: Buffer) {
+    this.sendCipher = new CipherState(sendKey, salt);
+    this.receiveCipher = new CipherState(receiveKey, salt);
+  }
+
+  /**
+   * Encrypt a message
+   * @param message Plaintext message
+   * @returns Encrypted length header followed by the encrypted body
+   */
+  encrypt(message: Buffer): Buffer {
+    const header = this.sendCipher.encrypt(writeLength(message.length));
+    return Buffer.concat([header, this.sendCipher.encrypt(message)]);
+  }
+
+  /**
+   * Decrypt received bytes, which may split or join messages arbitrarily
+   * @param data Received bytes
+   * @returns The messages completed by the received bytes
+   * @throws Error if a message fails to authenticate
+   */
+  decrypt(data: Buffer): Buffer[] {
+    this.buffered = Buffer.concat([this.buffered, data]);
+    const messages: Buffer[] = [];
+
+    for (;;) {
+      if (this.pendingLength === undefined) {
+        if (this.buffered.length < LENGTH_SIZE + MAC_SIZE) {
+          break;
+        }
+
+        const length = this.receiveCipher
+          .decrypt(this.buffered.subarray(0, LENGTH_SIZE + MAC_SIZE))
+          .readUInt32BE(0);
+        if (length > MAX_MESSAGE_SIZE) {
+          throw new Error(`Noise message of ${length} bytes exceeds the maximum size`);
+        }
+
+        this.pendingLength = length;
+        this.buffered = this.buffered.subarray(LENGTH_SIZE + MAC_SIZE);
+      }
+
+      if (this.buffered.length < this.pendingLength + MAC_SIZE) {
+        break;
+      }
+
+      messages.push(
+        this.receiveCipher.decrypt(this.buffered.subarray(0, this.pendingLength + MAC_SIZE))
+      );
+      this.buffered = this.buffered.subarray(this.pendingLength + MAC_SIZE);
+      this.pendingLength = undefined;
+    }
+
+    return messages;
+  }
+}
+
+/**
+ * Connection exchanging whole messages, such as a go-back-N connection
+ */
+export interface MessageConnection {
+  send(message: Buffer): void;
+  receive(): Promise<Buffer>;
+  close(): void;
+}
+
+/**
+ * Expose a message connection encrypted by a completed handshake as a byte
+ * stream, with every write sent as one transport message
+ * @param connection Connection carrying the transport messages
+ * @param transport Transport encryption of the connection
+ * @returns Duplex stream of the decrypted bytes
+ */
+export function createTransportStream(
+  connection: MessageConnection,
+  transport: NoiseTransport
+): Duplex {
+  const stream = new Duplex({
+    read() {
+      // Data is pushed as messages arrive
+    },
+    write(chunk: Buffer, _encoding, callback) {
+      try {
+        connection.send(transport.encrypt(chunk));
+        callback();
+      } catch (error) {
+        callback(error instanceof Error ? error : new Error(String(error)));
+      }
+    },
+    final(callback) {
+      connection.close();
+      callback();
+    },
+    destroy(error, callback) {
+      connection.close();
+      callback(error);
+    },
+  });
+
+  const pump = async (): Promise<void> => {
+    for (;;) {
+      let message: Buffer;
+      try {
+        message = await connection.receive();
+      } catch {
+        // The connection closed: end the stream
+        stream.push(null);
+        return;
+      }
+
+      transport.decrypt(message).forEach((data) => stream.push(data));
+    }
+  };
+
+  pump().catch((error) => stream.destroy(error));
+
+  return stream;
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Tests for the pairing phrase decoding
+ *
+ * Checks the word list against the published BIP 39 English list and the
+ * decoding against phrases whose entropy follows from the word indexes.
+ */
+
+import * as crypto from 'crypto';
+import { entropyToPairingPhrase, pairingPhraseToEntropy } from './pairing-phrase';
+import { WORDLIST } from './wordlist';
+
+describe('pairing phrase', () => {
+  test('should use the BIP 39 English word list', () => {
+    // SHA-256 of english.txt in the bitcoin/bips repository
+    const digest = crypto
+      .createHash('sha256')
+      .update(`${WORDLIST.join('\n')}\n`)
+      .digest('hex');
+
+    expect(WORDLIST).toHaveLength(2048);
+    expect(digest).toBe('2f5eed53a4727b4bf8880d8f3f199efc90e58503646d9ff8eff3a2ed3b24dbda');
+  });
+
+  test('should read the words as a base 2048 number', () => {
+    expect(pairingPhraseToEntropy(Array(10).fill('abandon').join(' '))).toEqual(Buffer.alloc(14));
+    expect(pairingPhraseToEntropy(`${Array(9).fill('abandon').join(' ')} ability`)).toEqual(
+      Buffer.from('0000000000000000000000000001', 'hex')
+    );
+    expect(pairingPhraseToEntropy(`ability ${Array(9).fill('abandon').join(' ')}`)).toEqual(
+      Buffer.from('0008000000000000000000000000', 'hex')
+    );
+    expect(pairingPhraseToEntropy(Array(10).fill('zoo').join(' '))).toEqual(
+      Buffer.from('3fffffffffffffffffffffffffff', 'hex')
+    );
+  });
+
+  test('should encode the entropy back to the same phrase', () => {
+    const entropy = Buffer.from('0123456789abcdef0123456789ab', 'hex');
+
+    expect(pairingPhraseToEntropy(entropyToPairingPhrase(entropy))).toEqual(entropy);
+  });
+
+  test('should reject phrases that are not ten known words', () => {
+    expect(() => pairingPhraseToEntropy('abandon ability')).toThrow(
+      'Invalid pairing phrase: expected 10 words'
+    );
+    expect(() => pairingPhraseToEntropy(Array(10).fill('lnc').join(' '))).toThrow(
+      'Invalid pairing phrase: unknown word'
+    );
+  });
+});
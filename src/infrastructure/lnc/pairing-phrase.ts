@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Pairing phrase decoding for Lightning Node Connect.
+ *
+ * A pairing phrase is ten words of the BIP 39 word list. Read as a base 2048
+ * number, the words form the 14 byte password entropy from which the mailbox
+ * stream id and the SPAKE2 password of the first handshake are derived.
+ */
+
+import * as crypto from 'crypto';
+import { WORDLIST } from './wordlist';
+
+/**
+ * Number of words in a pairing phrase
+ */
+export const PAIRING_PHRASE_WORDS = 10;
+
+/**
+ * Number of entropy bytes encoded by a pairing phrase
+ */
+const ENTROPY_BYTES = 14;
+
+/**
+ * scrypt parameters used by LNC to stretch the password entropy
+ */
+const SCRYPT_PARAMS = { N: 65536, r: 8, p: 1, maxmem: 256 * 1024 * 1024 };
+
+/**
+ * Index of every word of the word list
+ */
+const WORD_INDEXES = new Map(WORDLIST.map((word, index) => [word, index]));
+
+/**
+ * Decode a pairing phrase to its password entropy
+ * @param pairingPhrase Ten space separated words
+ * @returns 14 byte password entropy
+ * @throws Error if the phrase is not ten known words
+ */
+export function pairingPhraseToEntropy(pairingPhrase: string): Buffer {
+  const words = pairingPhrase.trim().toLowerCase().split(/\s+/);
+
+  if (words.length !== PAIRING_PHRASE_WORDS) {
+    throw new Error(`Invalid pairing phrase: expected ${PAIRING_PHRASE_WORDS} words`);
+  }
+
+  const value = words.reduce((total, word) => {
+    const index = WORD_INDEXES.get(word);
+    if (index === undefined) {
+      throw new Error('Invalid pairing phrase: unknown word');
+    }
+    return total * 2048n + BigInt(index);
+  }, 0n);
+
+  return Buffer.from(value.toString(16).padStart(ENTROPY_BYTES * 2, '0'), 'hex');
+}
+
+/**
+ * Encode password entropy as a pairing phrase
+ * @param entropy 14 byte password entropy
+ * @returns Ten space separated words
+ */
+export function entropyToPairingPhrase(entropy: Buffer): string {
+  let value = BigInt(`0x${entropy.toString('hex')}`);
+  const words: string[] = [];
+
+  for (let i = 0; i < PAIRING_PHRASE_WORDS; i++) {
+    words.unshift(WORDLIST[Number(value % 2048n)]);
+    value /= 2048n;
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Stretch password entropy into the SPAKE2 password with scrypt
+ * @param entropy Password entropy of the pairing phrase
+ * @returns Promise resolving to the 32 byte stretched password
+ */
+export function stretchPassword(entropy: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(entropy, Buffer.alloc(0), 32, SCRYPT_PARAMS, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
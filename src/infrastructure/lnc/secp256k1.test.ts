@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Tests for the secp256k1 point operations
+ *
+ * Keys and shared secret are the BOLT 8 test vectors, which LND's brontide
+ * package checks against btcec.
+ */
+
+import { addPoints, ecdh, getPublicKey, multiplyPoint, negatePoint } from './secp256k1';
+
+describe('secp256k1', () => {
+  const key = (byte: number): Buffer => Buffer.alloc(32, byte);
+  const scalar = (value: number): Buffer =>
+    Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
+
+  test('should derive compressed public keys', () => {
+    expect(getPublicKey(key(0x11)).toString('hex')).toBe(
+      '034f355bdcb7cc0af728ef3cceb9615d90684bb5b2ca5f859ab0f0b704075871aa'
+    );
+    expect(getPublicKey(key(0x21)).toString('hex')).toBe(
+      '028d7500dd4c12685d1f568b4c2b5048e8534b873319f3a8daa612b469132ec7f7'
+    );
+  });
+
+  test('should hash the compressed shared point like btcec', () => {
+    const secret = '1e2fb3c8fe8fb9f262f649f64d26ecf0f2c0a805a767cf02dc2d77a6ef1fdcc3';
+
+    expect(ecdh(key(0x12), getPublicKey(key(0x21))).toString('hex')).toBe(secret);
+    expect(ecdh(key(0x21), getPublicKey(key(0x12))).toString('hex')).toBe(secret);
+  });
+
+  test('should add, negate and multiply points', () => {
+    const point = getPublicKey(scalar(1));
+
+    expect(addPoints(point, point)).toEqual(getPublicKey(scalar(2)));
+    expect(multiplyPoint(point, scalar(3))).toEqual(getPublicKey(scalar(3)));
+    expect(
+      addPoints(multiplyPoint(point, scalar(5)), negatePoint(getPublicKey(scalar(2))))
+    ).toEqual(getPublicKey(scalar(3)));
+  });
+
+  test('should reject invalid points', () => {
+    const outsideField = Buffer.concat([Buffer.from([0x02]), Buffer.alloc(32, 0xff)]);
+
+    expect(() => ecdh(key(0x11), outsideField)).toThrow('Public key is not on the secp256k1 curve');
+    expect(() => ecdh(key(0x11), Buffer.alloc(32, 0x02))).toThrow('Invalid compressed public key');
+    expect(() => addPoints(getPublicKey(scalar(1)), negatePoint(getPublicKey(scalar(1))))).toThrow(
+      'Cannot encode the point at infinity'
+    );
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview secp256k1 point operations for the LNC handshake.
+ *
+ * Node's ECDH API only exposes the x coordinate of a shared point, while
+ * LNC needs full points: ECDH is hashed over the compressed shared point and
+ * the SPAKE2 key masking adds and subtracts points. The curve arithmetic is
+ * delegated to @noble/curves, whose scalar multiplication runs in constant
+ * time. Points travel as 33 byte compressed encodings, scalars as 32 byte
+ * big-endian buffers.
+ */
+
+import * as crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+const { ProjectivePoint } = secp256k1;
+
+/**
+ * Order of the secp256k1 generator
+ */
+const N = secp256k1.CURVE.n;
+
+function toScalar(bytes: Buffer): bigint {
+  const scalar = BigInt(`0x${bytes.toString('hex') || '0'}`) % N;
+
+  if (scalar === 0n) {
+    throw new Error('Invalid secp256k1 scalar');
+  }
+
+  return scalar;
+}
+
+function decode(bytes: Buffer): InstanceType<typeof ProjectivePoint> {
+  if (bytes.length !== 33 || (bytes[0] !== 0x02 && bytes[0] !== 0x03)) {
+    throw new Error('Invalid compressed public key');
+  }
+
+  try {
+    return ProjectivePoint.fromHex(bytes);
+  } catch {
+    throw new Error('Public key is not on the secp256k1 curve');
+  }
+}
+
+function encode(point: InstanceType<typeof ProjectivePoint>): Buffer {
+  if (point.equals(ProjectivePoint.ZERO)) {
+    throw new Error('Cannot encode the point at infinity');
+  }
+
+  return Buffer.from(point.toRawBytes(true));
+}
+
+/**
+ * Generate a random private key
+ * @returns 32 byte private key
+ */
+export function generatePrivateKey(): Buffer {
+  for (;;) {
+    const key = crypto.randomBytes(32);
+
+    if (secp256k1.utils.isValidPrivateKey(key)) {
+      return key;
+    }
+  }
+}
+
+/**
+ * Derive the compressed public key of a private key
+ * @param privateKey 32 byte private key
+ * @returns 33 byte compressed public key
+ */
+export function getPublicKey(privateKey: Buffer): Buffer {
+  return Buffer.from(secp256k1.getPublicKey(privateKey, true));
+}
+
+/**
+ * Multiply a point by a scalar
+ * @param publicKey Compressed point
+ * @param scalar Big-endian scalar, reduced modulo the curve order
+ * @returns Compressed product point
+ */
+export function multiplyPoint(publicKey: Buffer, scalar: Buffer): Buffer {
+  return encode(decode(publicKey).multiply(toScalar(scalar)));
+}
+
+/**
+ * Add two points
+ * @param a Compressed point
+ * @param b Compressed point
+ * @returns Compressed sum
+ */
+export function addPoints(a: Buffer, b: Buffer): Buffer {
+  return encode(decode(a).add(decode(b)));
+}
+
+/**
+ * Negate a point
+ * @param publicKey Compressed point
+ * @returns Compressed point with the opposite y coordinate
+ */
+export function negatePoint(publicKey: Buffer): Buffer {
+  return encode(decode(publicKey).negate());
+}
+
+/**
+ * Compute a shared secret the way btcec and LND do: the SHA-256 of the
+ * compressed shared point
+ * @param privateKey 32 byte private key
+ * @param publicKey Compressed public key of the other party
+ * @returns 32 byte shared secret
+ */
+export function ecdh(privateKey: Buffer, publicKey: Buffer): Buffer {
+  return crypto.createHash('sha256').update(multiplyPoint(publicKey, privateKey)).digest();
+}
@@ -0,0 +1,487 @@
+/**
+ * @fileoverview Tests for LndGateway
+ *
+ * Unit tests for mapping ln-service, LNC and REST responses to domain models.
+ */
+
+import * as lnService from 'ln-service';
+import { LndApi } from '@lightninglabs/lnc-core';
+import { LndGateway } from './LndGateway';
+import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
+import { NodeInfo } from '../../domain/node/NodeInfo';
+import { LndAdapter } from '../adapters/LndAdapter';
+import { ConnectionMethod, LndRestDetails } from '../../domain/node/ConnectionAuth';
+import { AuthenticationError } from '../../domain/errors/ConnectionErrors';
+import {
+  LndRestStub,
+  loadLndRestFixtures,
+  startLndRestStub,
+} from '../../test/mocks/lnd-rest-server';
+
+jest.mock('../../core/logging/logger');
+
+describe('LndGateway', () => {
+  const mockedLnService = lnService as jest.Mocked<typeof lnService>;
+
+  const connection: LightningNodeConnection = {
+    getConnection: jest.fn().mockReturnValue({}),
+    checkConnection: jest.fn(),
+    getNodeInfo: jest.fn().mockResolvedValue({} as NodeInfo),
+    close: jest.fn(),
+  };
+
+  const pendingChannel = {
+    capacity: 1000000,
+    is_active: false,
+    is_closing: false,
+    is_opening: false,
+    local_balance: 400000,
+    partner_public_key: 'pubkey-a',
+    remote_balance: 600000,
+    transaction_id: 'funding-txid',
+    transaction_vout: 0,
+  };
+
+  let gateway: LndGateway;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    gateway = new LndGateway(connection);
+  });
+
+  describe('getPendingChannels', () => {
+    test('should derive the pending state of each channel', async () => {
+      mockedLnService.getPendingChannels.mockResolvedValue({
+        pending_channels: [
+          { ...pendingChannel, is_opening: true },
+          { ...pendingChannel, is_closing: true, close_transaction_id: 'close-txid' },
+          {
+            ...pendingChannel,
+            is_closing: true,
+            close_transaction_id: 'close-txid',
+            is_timelocked: true,
+            pending_balance: 390000,
+            timelock_blocks: 144,
+            timelock_expiration: 800144,
+          },
+          { ...pendingChannel, is_closing: true },
+        ],
+      });
+
+      const channels = await gateway.getPendingChannels();
+
+      expect(channels.map((channel) => channel.state)).toEqual([
+        'opening',
+        'closing',
+        'force_closing',
+        'waiting_close',
+      ]);
+      expect(channels[2]).toMatchObject({
+        remote_pubkey: 'pubkey-a',
+        pending_balance: 390000,
+        maturity_height: 800144,
+        blocks_until_maturity: 144,
+      });
+    });
+
+    test('should wrap ln-service errors in a connection error', async () => {
+      mockedLnService.getPendingChannels.mockRejectedValue(new Error('unavailable'));
+
+      await expect(gateway.getPendingChannels()).rejects.toThrow(
+        'Failed to fetch pending channels: unavailable'
+      );
+    });
+  });
+
+  describe('getClosedChannels', () => {
+    const closedChannel = {
+      capacity: 1000000,
+      final_local_balance: 400000,
+      final_time_locked_balance: 0,
+      is_breach_close: false,
+      is_cooperative_close: false,
+      is_funding_cancel: false,
+      is_local_force_close: false,
+      is_remote_force_close: false,
+      partner_public_key: 'pubkey-a',
+      transaction_id: 'funding-txid',
+      transaction_vout: 0,
+    };
+
+    test('should derive the close type of each channel', async () => {
+      mockedLnService.getClosedChannels.mockResolvedValue({
+        channels: [
+          { ...closedChannel, is_cooperative_close: true },
+          { ...closedChannel, is_local_force_close: true, final_time_locked_balance: 390000 },
+          { ...closedChannel, is_remote_force_close: true },
+          { ...closedChannel, is_breach_close: true, is_remote_force_close: true },
+          { ...closedChannel, is_funding_cancel: true },
+          closedChannel,
+        ],
+      });
+
+      const channels = await gateway.getClosedChannels();
+
+      expect(channels.map((channel) => channel.close_type)).toEqual([
+        'cooperative',
+        'local_force',
+        'remote_force',
+        'breach',
+        'funding_canceled',
+        'unknown',
+      ]);
+      expect(channels[1]).toMatchObject({
+        remote_pubkey: 'pubkey-a',
+        final_local_balance: 400000,
+        final_time_locked_balance: 390000,
+      });
+    });
+
+    test('should wrap ln-service errors in a connection error', async () => {
+      mockedLnService.getClosedChannels.mockRejectedValue(new Error('unavailable'));
+
+      await expect(gateway.getClosedChannels()).rejects.toThrow(
+        'Failed to fetch closed channels: unavailable'
+      );
+    });
+  });
+
+  describe('getNodeInfo', () => {
+    test('should count pending channels with the node', async () => {
+      mockedLnService.getNodeInfo.mockResolvedValue({ alias: 'Alice', channel_count: 12 });
+      mockedLnService.getPendingChannels.mockResolvedValue({
+        pending_channels: [
+          { ...pendingChannel, is_opening: true },
+          { ...pendingChannel, partner_public_key: 'pubkey-b', is_opening: true },
+        ],
+      });
+
+      const nodeInfo = await gateway.getNodeInfo('pubkey-a');
+
+      expect(nodeInfo).toMatchObject({
+        alias: 'Alice',
+        activeChannelsCount: 12,
+        pendingChannelsCount: 1,
+      });
+    });
+  });
+
+  describe('over an LNC connection', () => {
+    const lightning = {
+      listChannels: jest.fn(),
+      pendingChannels: jest.fn(),
+      listPayments: jest.fn(),
+      getNodeInfo: jest.fn(),
+    };
+    const lncConnection: LightningNodeConnection = {
+      ...connection,
+      getConnection: jest
+        .fn()
+        .mockReturnValue(
+          new LndApi((service: string) => (service === 'lnrpc.Lightning' ? lightning : {}), {})
+        ),
+    };
+
+    const lncChannel = {
+      remoteNodePub: 'pubkey-a',
+      channelPoint: 'funding-txid:1',
+      capacity: '1000000',
+      localBalance: '400000',
+      remoteBalance: '600000',
+      initiator: 'INITIATOR_REMOTE',
+    };
+
+    beforeEach(() => {
+      gateway = new LndGateway(lncConnection);
+    });
+
+    test('should map channels from the LND API', async () => {
+      lightning.listChannels.mockResolvedValue({
+        channels: [
+          {
+            active: true,
+            remotePubkey: 'pubkey-a',
+            channelPoint: 'funding-txid:1',
+            chanId: '879609302220865536',
+            capacity: '1000000',
+            localBalance: '400000',
+            remoteBalance: '600000',
+          },
+        ],
+      });
+
+      const channels = await gateway.getChannels();
+
+      expect(channels).toEqual([
+        {
+          id: '800000x1x0',
+          capacity: 1000000,
+          local_balance: 400000,
+          remote_balance: 600000,
+          active: true,
+          remote_pubkey: 'pubkey-a',
+          channel_point: 'funding-txid:1',
+        },
+      ]);
+      expect(mockedLnService.getChannels).not.toHaveBeenCalled();
+    });
+
+    test('should derive the pending state of each channel', async () => {
+      lightning.pendingChannels.mockResolvedValue({
+        pendingOpenChannels: [{ channel: lncChannel }],
+        pendingClosingChannels: [{ channel: lncChannel, closingTxid: 'close-txid' }],
+        pendingForceClosingChannels: [
+          {
+            channel: lncChannel,
+            closingTxid: 'close-txid',
+            limboBalance: '390000',
+            maturityHeight: 800144,
+            blocksTilMaturity: 144,
+          },
+        ],
+        waitingCloseChannels: [{ channel: lncChannel, limboBalance: '400000' }],
+      });
+
+      const channels = await gateway.getPendingChannels();
+
+      expect(channels.map((channel) => channel.state)).toEqual([
+        'opening',
+        'closing',
+        'force_closing',
+        'waiting_close',
+      ]);
+      expect(channels[2]).toMatchObject({
+        remote_pubkey: 'pubkey-a',
+        transaction_id: 'funding-txid',
+        transaction_vout: 1,
+        pending_balance: 390000,
+        maturity_height: 800144,
+        blocks_until_maturity: 144,
+      });
+    });
+
+    test('should page through payments with index offsets', async () => {
+      const payment = {
+        paymentHash: 'hash',
+        valueSat: '1000',
+        feeSat: '2',
+        creationTimeNs: '1700000000000000000',
+        status: 'SUCCEEDED',
+        paymentRequest: '',
+        htlcs: [
+          {
+            status: 'SUCCEEDED',
+            resolveTimeNs: '1700000001000000000',
+            route: { hops: [{ pubKey: 'hop' }, { pubKey: 'destination' }] },
+          },
+        ],
+      };
+      lightning.listPayments
+        .mockResolvedValueOnce({
+          payments: Array(250).fill(payment),
+          lastIndexOffset: '250',
+        })
+        .mockResolvedValueOnce({ payments: [payment], lastIndexOffset: '251' });
+
+      const payments = await gateway.getPayments();
+
+      expect(payments).toHaveLength(251);
+      expect(payments[0]).toMatchObject({
+        id: 'hash',
+        destination: 'destination',
+        tokens: 1000,
+        fee: 2,
+        status: 'succeeded',
+        created_at: '2023-11-14T22:13:20.000Z',
+        confirmed_at: '2023-11-14T22:13:21.000Z',
+        hops: 1,
+      });
+      expect(lightning.listPayments).toHaveBeenLastCalledWith(
+        expect.objectContaining({ indexOffset: '250', maxPayments: '250' })
+      );
+    });
+
+    test('should return undefined for nodes missing from the graph', async () => {
+      lightning.getNodeInfo.mockRejectedValue(new Error('unable to find node'));
+
+      await expect(gateway.getNodeDetails('pubkey-a')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('over a REST connection', () => {
+    const macaroon = '0201036c6e6402f801030a10';
+    const peerId = `02${'a'.repeat(64)}`;
+    const ownId = `03${'c'.repeat(64)}`;
+    const fixtures = loadLndRestFixtures();
+
+    let stub: LndRestStub;
+    let adapter: LndAdapter;
+
+    beforeAll(async () => {
+      stub = await startLndRestStub(macaroon, {
+        'GET /v1/channels': fixtures.channels,
+        'GET /v1/getinfo': fixtures.getinfo,
+        'GET /v1/graph': fixtures.graph,
+        // Our node is the other side of the peer's channel
+        'GET /v1/graph/node/{pub_key}': (params: Record<string, string>) => {
+          if (params.pub_key !== peerId && params.pub_key !== ownId) {
+            throw new Error('unable to find node');
+          }
+          return fixtures.node;
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await stub.close();
+    });
+
+    beforeEach(() => {
+      stub.calls.length = 0;
+      const details: LndRestDetails = {
+        method: ConnectionMethod.REST,
+        url: stub.url,
+        macaroonHex: macaroon,
+      };
+      adapter = new LndAdapter(details);
+      gateway = new LndGateway(adapter);
+    });
+
+    test('should map channels from the REST API', async () => {
+      const channels = await gateway.getChannels();
+
+      expect(channels).toEqual([
+        {
+          id: '800000x1x1',
+          capacity: 1000000,
+          local_balance: 400000,
+          remote_balance: 596530,
+          active: true,
+          remote_pubkey: peerId,
+          channel_point: `${'1'.repeat(64)}:1`,
+          local_policy: {
+            base_fee_msat: 0,
+            fee_rate_ppm: 250,
+            disabled: false,
+            cltv_delta: 40,
+            min_htlc_msat: 1000,
+            max_htlc_msat: 990000000,
+          },
+          remote_policy: {
+            base_fee_msat: 1000,
+            fee_rate_ppm: 100,
+            disabled: false,
+            cltv_delta: 80,
+            min_htlc_msat: 1000,
+            max_htlc_msat: 990000000,
+          },
+        },
+        expect.objectContaining({ id: '800010x1x0', active: false, local_balance: 0 }),
+      ]);
+      expect(stub.calls).toHaveLength(3);
+      expect(stub.calls).toEqual(
+        expect.arrayContaining([
+          { method: 'GET', path: '/v1/channels', params: {} },
+          { method: 'GET', path: '/v1/getinfo', params: {} },
+          { method: 'GET', path: `/v1/graph/node/${ownId}`, params: { include_channels: 'true' } },
+        ])
+      );
+      expect(mockedLnService.getChannels).not.toHaveBeenCalled();
+    });
+
+    test('should map graph channels with the policies of both nodes', async () => {
+      const channels = await gateway.getNetworkGraphChannels();
+
+      expect(channels).toEqual([
+        {
+          id: '800000x1x1',
+          capacity: 1000000,
+          node1_public_key: peerId,
+          node2_public_key: ownId,
+          node1_fee_policy: {
+            base_fee_msat: 1000,
+            fee_rate_ppm: 100,
+            disabled: false,
+            cltv_delta: 80,
+            min_htlc_msat: 1000,
+            max_htlc_msat: 990000000,
+          },
+          node2_fee_policy: {
+            base_fee_msat: 0,
+            fee_rate_ppm: 250,
+            disabled: false,
+            cltv_delta: 40,
+            min_htlc_msat: 1000,
+            max_htlc_msat: 990000000,
+          },
+          updated_at: '2023-11-14T23:13:20.000Z',
+        },
+      ]);
+    });
+
+    test('should map node details from the graph', async () => {
+      const node = await gateway.getNodeDetails(peerId);
+
+      expect(node).toEqual({
+        public_key: peerId,
+        alias: 'Alice',
+        color: '#ff0000',
+        sockets: ['203.0.113.1:9735'],
+        updated_at: '2023-11-14T22:13:20.000Z',
+        capacity: 42000000,
+        channel_count: 12,
+        channels: [
+          {
+            id: '800000x1x1',
+            capacity: 1000000,
+            peer_public_key: `03${'c'.repeat(64)}`,
+            fee_policy: {
+              base_fee_msat: 1000,
+              fee_rate_ppm: 100,
+              disabled: false,
+              cltv_delta: 80,
+              min_htlc_msat: 1000,
+              max_htlc_msat: 990000000,
+            },
+            peer_fee_policy: {
+              base_fee_msat: 0,
+              fee_rate_ppm: 250,
+              disabled: false,
+              cltv_delta: 40,
+              min_htlc_msat: 1000,
+              max_htlc_msat: 990000000,
+            },
+            updated_at: '2023-11-14T23:13:20.000Z',
+          },
+        ],
+        features: [
+          { bit: 9, type: 'tlv-onion', is_required: false },
+          { bit: 12, type: 'static-remote-key', is_required: true },
+        ],
+      });
+      expect(stub.calls).toEqual([
+        {
+          method: 'GET',
+          path: `/v1/graph/node/${peerId}`,
+          params: { include_channels: 'true' },
+        },
+      ]);
+    });
+
+    test('should return undefined for nodes missing from the graph', async () => {
+      await expect(gateway.getNodeDetails(`03${'b'.repeat(64)}`)).resolves.toBeUndefined();
+    });
+
+    test('should reject a macaroon the node does not accept', async () => {
+      const details: LndRestDetails = {
+        method: ConnectionMethod.REST,
+        url: stub.url,
+        macaroonHex: '0201036c6e6402f801030a11',
+      };
+      gateway = new LndGateway(new LndAdapter(details));
+
+      await expect(gateway.getChannels()).rejects.toThrow('Failed to fetch channels');
+      await expect(new LndAdapter(details).checkConnection()).rejects.toThrow(AuthenticationError);
+    });
+  });
+});
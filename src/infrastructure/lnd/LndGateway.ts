@@ -8,12 +8,35 @@
 
 import * as lnService from 'ln-service';
 import { LightningNetworkGateway } from '../../domain/lightning/gateways/LightningNetworkGateway';
-import { ChannelData } from '../../domain/channels/entities/Channel';
+import {
+  ChannelData,
+  ClosedChannelData,
+  ClosedChannelType,
+  FeePolicyData,
+  PendingChannelData,
+  PendingChannelState,
+} from '../../domain/channels/entities/Channel';
+import { PaymentData } from '../../domain/payments/entities/Payment';
+import { InvoiceData, InvoiceState } from '../../domain/invoices/entities/Invoice';
+import { ForwardData } from '../../domain/forwards/entities/Forward';
+import { ChainBalanceData, UtxoData } from '../../domain/wallet/entities/Wallet';
+import { ChainBalanceSchema, UtxoSchema } from '../../domain/wallet/schemas/wallet';
+import { ChainTransactionData } from '../../domain/transactions/entities/Transaction';
+import { ChainTransactionSchema } from '../../domain/transactions/schemas/transaction';
+import { PeerData } from '../../domain/peers/entities/Peer';
+import { GraphChannelData, GraphNodeData, NodeDetailsData } from '../../domain/nodes/entities/Node';
 import { NodeInfo } from '../../domain/node/NodeInfo';
 import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
 import logger from '../../core/logging/logger';
 import { sanitizeError } from '../../core/errors/sanitize';
 import { ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { validateWithZod } from '../../core/validation/zod-validators';
+import { getLndService, LndConnection, LndService } from './lnd-service';
+
+/**
+ * Number of records requested per page from paginated LND calls
+ */
+const PAGE_SIZE = 250;
 
 /**
  * LND implementation of the Lightning Network Gateway
@@ -44,11 +67,13 @@ export class LndGateway implements LightningNetworkGateway {
    */
   async getChannels(): Promise<ChannelData[]> {
     try {
-      // Get the connection and cast to ln-service type
-      const lndConnection = this.getLndConnection();
+      const lnd = this.getLndService();
 
-      // Fetch channels from LND
-      const { channels } = await lnService.getChannels({ lnd: lndConnection });
+      // Fetch channels and their routing policies from LND
+      const [{ channels }, policies] = await Promise.all([
+        lnd.getChannels(),
+        this.getChannelPolicies(lnd),
+      ]);
 
       if (!channels || !Array.isArray(channels)) {
         logger.warn('No channels returned from LND', {
@@ -60,12 +85,15 @@ export class LndGateway implements LightningNetworkGateway {
 
       // Map LND channels to domain model
       return channels.map((channel) => ({
+        id: channel.id,
         capacity: channel.capacity,
         local_balance: channel.local_balance,
         remote_balance: channel.remote_balance,
         active: channel.active,
         remote_pubkey: channel.remote_pubkey,
         channel_point: channel.channel_point,
+        local_policy: policies.get(channel.id)?.local,
+        remote_policy: policies.get(channel.id)?.remote,
       }));
     } catch (error) {
       const sanitizedError = sanitizeError(error) || new Error('Unknown error');
@@ -77,6 +105,483 @@ export class LndGateway implements LightningNetworkGateway {
     }
   }
 
+  /**
+   * Fetch pending channels from LND node
+   * @returns Promise resolving to an array of pending channels
+   * @throws Error if pending channels cannot be fetched
+   */
+  async getPendingChannels(): Promise<PendingChannelData[]> {
+    try {
+      const lnd = this.getLndService();
+
+      const { pending_channels } = await lnd.getPendingChannels();
+
+      return (pending_channels || []).map((channel) => ({
+        state: this.getPendingChannelState(channel),
+        remote_pubkey: channel.partner_public_key,
+        capacity: channel.capacity,
+        local_balance: channel.local_balance,
+        remote_balance: channel.remote_balance,
+        transaction_id: channel.transaction_id,
+        transaction_vout: channel.transaction_vout,
+        close_transaction_id: channel.close_transaction_id,
+        pending_balance: channel.pending_balance,
+        maturity_height: channel.timelock_expiration,
+        blocks_until_maturity: channel.timelock_blocks,
+      }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching pending channels', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getPendingChannels',
+      });
+      throw new ConnectionError(`Failed to fetch pending channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch closed channels from LND node
+   * @returns Promise resolving to an array of closed channels
+   * @throws Error if closed channels cannot be fetched
+   */
+  async getClosedChannels(): Promise<ClosedChannelData[]> {
+    try {
+      const lnd = this.getLndService();
+
+      const { channels } = await lnd.getClosedChannels();
+
+      return (channels || []).map((channel) => ({
+        id: channel.id,
+        close_type: this.getClosedChannelType(channel),
+        remote_pubkey: channel.partner_public_key,
+        capacity: channel.capacity,
+        final_local_balance: channel.final_local_balance,
+        final_time_locked_balance: channel.final_time_locked_balance,
+        transaction_id: channel.transaction_id,
+        transaction_vout: channel.transaction_vout,
+        close_transaction_id: channel.close_transaction_id,
+        close_confirm_height: channel.close_confirm_height,
+        is_partner_initiated: channel.is_partner_initiated,
+      }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching closed channels', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getClosedChannels',
+      });
+      throw new ConnectionError(`Failed to fetch closed channels: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch successful outgoing payments from LND node
+   * @returns Promise resolving to an array of payments
+   * @throws Error if payments cannot be fetched
+   */
+  async getPayments(): Promise<PaymentData[]> {
+    try {
+      const lnd = this.getLndService();
+      const payments: PaymentData[] = [];
+      let token: string | undefined;
+
+      // Page through the payment history until LND reports no further pages
+      do {
+        const page = await lnd.getPayments(token ? { token } : { limit: PAGE_SIZE });
+
+        (page.payments || []).forEach((payment) => {
+          payments.push({
+            id: payment.id,
+            destination: payment.destination,
+            tokens: payment.tokens,
+            fee: payment.fee,
+            status: 'succeeded',
+            created_at: payment.created_at,
+            confirmed_at: payment.confirmed_at,
+            hops: payment.hops?.length,
+          });
+        });
+
+        token = page.next;
+      } while (token);
+
+      return payments;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching payments', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getPayments',
+      });
+      throw new ConnectionError(`Failed to fetch payments: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch failed outgoing payments from LND node
+   * @returns Promise resolving to an array of payments
+   * @throws Error if failed payments cannot be fetched
+   */
+  async getFailedPayments(): Promise<PaymentData[]> {
+    try {
+      const lnd = this.getLndService();
+      const payments: PaymentData[] = [];
+      let token: string | undefined;
+
+      // Page through the failed payment history until LND reports no further pages
+      do {
+        const page = await lnd.getFailedPayments(token ? { token } : { limit: PAGE_SIZE });
+
+        (page.payments || []).forEach((payment) => {
+          payments.push({
+            id: payment.id,
+            destination: payment.destination,
+            tokens: payment.tokens,
+            fee: 0,
+            status: 'failed',
+            created_at: payment.created_at,
+          });
+        });
+
+        token = page.next;
+      } while (token);
+
+      return payments;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching failed payments', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getFailedPayments',
+      });
+      throw new ConnectionError(`Failed to fetch failed payments: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch invoices from LND node
+   * @returns Promise resolving to an array of invoices
+   * @throws Error if invoices cannot be fetched
+   */
+  async getInvoices(): Promise<InvoiceData[]> {
+    try {
+      const lnd = this.getLndService();
+      const invoices: InvoiceData[] = [];
+      const now = Date.now();
+      let token: string | undefined;
+
+      // Page through the invoice history until LND reports no further pages
+      do {
+        const page = await lnd.getInvoices(token ? { token } : { limit: PAGE_SIZE });
+
+        (page.invoices || []).forEach((invoice) => {
+          invoices.push({
+            id: invoice.id,
+            tokens: invoice.tokens,
+            received: invoice.received || 0,
+            state: this.getInvoiceState(invoice, now),
+            description: invoice.description || undefined,
+            created_at: invoice.created_at,
+            expires_at: invoice.expires_at,
+            confirmed_at: invoice.confirmed_at,
+          });
+        });
+
+        token = page.next;
+      } while (token);
+
+      return invoices;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching invoices', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getInvoices',
+      });
+      throw new ConnectionError(`Failed to fetch invoices: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch forwarding events from LND node
+   * @param window Optional ISO 8601 time window to restrict the forwards to
+   * @returns Promise resolving to an array of forwards
+   * @throws Error if forwards cannot be fetched
+   */
+  async getForwards(window?: { after: string; before: string }): Promise<ForwardData[]> {
+    try {
+      const lnd = this.getLndService();
+      const forwards: ForwardData[] = [];
+      let token: string | undefined;
+
+      // Page through the forwarding history until LND reports no further pages
+      do {
+        const page = await lnd.getForwards(token ? { token } : { limit: PAGE_SIZE, ...window });
+
+        (page.forwards || []).forEach((forward) => {
+          forwards.push({
+            created_at: forward.created_at,
+            fee: forward.fee,
+            tokens: forward.tokens,
+            incoming_channel: forward.incoming_channel,
+            outgoing_channel: forward.outgoing_channel,
+          });
+        });
+
+        token = page.next;
+      } while (token);
+
+      return forwards;
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching forwards', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getForwards',
+      });
+      throw new ConnectionError(`Failed to fetch forwards: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch the on-chain wallet balance from LND node
+   * @returns Promise resolving to the confirmed and unconfirmed balance
+   * @throws Error if the balance cannot be fetched
+   */
+  async getChainBalance(): Promise<ChainBalanceData> {
+    try {
+      const lnd = this.getLndService();
+
+      // LND reports confirmed and unconfirmed funds through separate calls
+      const [{ chain_balance }, { pending_chain_balance }] = await Promise.all([
+        lnd.getChainBalance(),
+        lnd.getPendingChainBalance(),
+      ]);
+
+      return validateWithZod(ChainBalanceSchema, {
+        confirmed_balance: chain_balance,
+        unconfirmed_balance: pending_chain_balance,
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching chain balance', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getChainBalance',
+      });
+      throw new ConnectionError(`Failed to fetch chain balance: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch unspent transaction outputs from LND node
+   * @returns Promise resolving to an array of UTXOs
+   * @throws Error if UTXOs cannot be fetched
+   */
+  async getUtxos(): Promise<UtxoData[]> {
+    try {
+      const lnd = this.getLndService();
+
+      // Include unconfirmed outputs so pending deposits are visible
+      const { utxos } = await lnd.getUtxos({ min_confirmations: 0 });
+
+      return (utxos || []).map((utxo) =>
+        validateWithZod(UtxoSchema, {
+          transaction_id: utxo.transaction_id,
+          transaction_vout: utxo.transaction_vout,
+          tokens: utxo.tokens,
+          confirmation_count: utxo.confirmation_count,
+          address: utxo.address,
+          address_format: utxo.address_format,
+        })
+      );
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching UTXOs', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getUtxos',
+      });
+      throw new ConnectionError(`Failed to fetch UTXOs: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch on-chain transactions from LND node
+   * @returns Promise resolving to an array of chain transactions
+   * @throws Error if chain transactions cannot be fetched
+   */
+  async getChainTransactions(): Promise<ChainTransactionData[]> {
+    try {
+      const lnd = this.getLndService();
+
+      const { transactions } = await lnd.getChainTransactions();
+
+      return (transactions || []).map((transaction) =>
+        validateWithZod(ChainTransactionSchema, {
+          id: transaction.id,
+          tokens: transaction.tokens,
+          fee: transaction.fee,
+          is_confirmed: transaction.is_confirmed,
+          is_outgoing: transaction.is_outgoing,
+          confirmation_count: transaction.confirmation_count,
+          created_at: transaction.created_at,
+          description: transaction.description || undefined,
+        })
+      );
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching chain transactions', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getChainTransactions',
+      });
+      throw new ConnectionError(`Failed to fetch chain transactions: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch connected peers from LND node
+   * @returns Promise resolving to an array of peers
+   * @throws Error if peers cannot be fetched
+   */
+  async getPeers(): Promise<PeerData[]> {
+    try {
+      const lnd = this.getLndService();
+
+      const { peers } = await lnd.getPeers();
+
+      return (peers || []).map((peer) => ({
+        public_key: peer.public_key,
+        socket: peer.socket,
+        ping_time: peer.ping_time,
+        bytes_sent: peer.bytes_sent,
+        bytes_received: peer.bytes_received,
+        is_inbound: peer.is_inbound,
+      }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching peers', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getPeers',
+      });
+      throw new ConnectionError(`Failed to fetch peers: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Fetch the nodes of the network graph from LND node
+   * @returns Promise resolving to an array of graph nodes
+   * @throws Error if the network graph cannot be fetched
+   */
+  async getNetworkGraphNodes(): Promise<GraphNodeData[]> {
+    try {
+      const lnd = this.getLndService();
+
+      const { nodes } = await lnd.getNetworkGraph();
+
+      return (nodes || []).map((node) => ({
+        public_key: node.public_key,
+        alias: node.alias || '',
+        color: node.color,
+        sockets: node.sockets || [],
+        updated_at: node.updated_at,
+      }));
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching network graph', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getNetworkGraphNodes',
+      });
+      throw new ConnectionError(`Failed to fetch network graph: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get all public channels of the network graph from LND
+   * @returns Promise resolving to array of graph channel data
+   * @throws Error if the network graph cannot be fetched
+   */
+  async getNetworkGraphChannels(): Promise<GraphChannelData[]> {
+    try {
+      const lnd = this.getLndService();
+
+      const { channels } = await lnd.getNetworkGraph();
+
+      // Channels are announced with the policy of each of their two nodes
+      return (channels || []).flatMap((channel) => {
+        const [node1, node2] = channel.policies;
+        if (!node1?.public_key || !node2?.public_key) {
+          return [];
+        }
+
+        return [
+          {
+            id: channel.id,
+            capacity: channel.capacity,
+            node1_public_key: node1.public_key,
+            node2_public_key: node2.public_key,
+            node1_fee_policy: toFeePolicy(node1),
+            node2_fee_policy: toFeePolicy(node2),
+            updated_at: channel.updated_at,
+          },
+        ];
+      });
+    } catch (error) {
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error('Error fetching network graph', sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getNetworkGraphChannels',
+      });
+      throw new ConnectionError(`Failed to fetch network graph: ${sanitizedError.message}`);
+    }
+  }
+
+  /**
+   * Get detailed node information, including public channels, from LND
+   * @param pubkey Public key of the node
+   * @returns Promise resolving to node details or undefined if the node is unknown
+   * @throws Error if node details cannot be fetched
+   */
+  async getNodeDetails(pubkey: string): Promise<NodeDetailsData | undefined> {
+    try {
+      const lnd = this.getLndService();
+
+      const nodeInfo = await lnd.getNodeInfo({ public_key: pubkey });
+
+      return {
+        public_key: pubkey,
+        alias: nodeInfo.alias || '',
+        color: nodeInfo.color,
+        sockets: nodeInfo.sockets || [],
+        updated_at: nodeInfo.updated_at,
+        capacity: nodeInfo.capacity || 0,
+        channel_count: nodeInfo.channel_count || 0,
+        channels: (nodeInfo.channels || []).map((channel) => ({
+          id: channel.id,
+          capacity: channel.capacity,
+          peer_public_key: channel.policies.find((policy) => policy.public_key !== pubkey)
+            ?.public_key,
+          fee_policy: toFeePolicy(channel.policies.find((policy) => policy.public_key === pubkey)),
+          peer_fee_policy: toFeePolicy(
+            channel.policies.find((policy) => policy.public_key !== pubkey)
+          ),
+          updated_at: channel.updated_at,
+        })),
+        features: (nodeInfo.features || []).map((feature) => ({
+          bit: feature.bit,
+          type: feature.type,
+          is_required: feature.is_required,
+        })),
+      };
+    } catch (error) {
+      // ln-service reports nodes missing from the graph as a 404 error tuple
+      if (Array.isArray(error) && error[0] === 404) {
+        return undefined;
+      }
+
+      const sanitizedError = sanitizeError(error) || new Error('Unknown error');
+      logger.error(`Error fetching node details for ${pubkey}`, sanitizedError, {
+        component: 'lnd-gateway',
+        operation: 'getNodeDetails',
+        pubkey: pubkey,
+      });
+      throw new ConnectionError(`Failed to fetch node details: ${sanitizedError.message}`);
+    }
+  }
+
   /**
    * Get node information from LND
    * @param pubkey Public key of the node
@@ -85,14 +590,13 @@ export class LndGateway implements LightningNetworkGateway {
    */
   async getNodeInfo(pubkey: string): Promise<NodeInfo | undefined> {
     try {
-      // Get the connection and cast to ln-service type
-      const lndConnection = this.getLndConnection();
+      const lnd = this.getLndService();
 
-      // Fetch node info from LND
-      const nodeInfo = await lnService.getNodeInfo({
-        lnd: lndConnection,
-        public_key: pubkey,
-      });
+      // Fetch node info and our pending channels from LND
+      const [nodeInfo, { pending_channels }] = await Promise.all([
+        lnd.getNodeInfo({ public_key: pubkey }),
+        lnd.getPendingChannels(),
+      ]);
 
       if (!nodeInfo) {
         return undefined;
@@ -104,7 +608,10 @@ export class LndGateway implements LightningNetworkGateway {
         pubkey: pubkey,
         color: nodeInfo.color || '#000000',
         activeChannelsCount: nodeInfo.channel_count || 0,
-        pendingChannelsCount: 0, // Not available in getNodeInfo response
+        // Pending channels are only known for channels with our own node
+        pendingChannelsCount: (pending_channels || []).filter(
+          (channel) => channel.partner_public_key === pubkey
+        ).length,
         peersCount: 0, // Not available in getNodeInfo response
       };
     } catch (error) {
@@ -126,14 +633,10 @@ export class LndGateway implements LightningNetworkGateway {
    */
   async getNodeAlias(pubkey: string): Promise<string | undefined> {
     try {
-      // Get the connection and cast to ln-service type
-      const lndConnection = this.getLndConnection();
+      const lnd = this.getLndService();
 
       // Fetch node info from LND
-      const nodeInfo = await lnService.getNodeInfo({
-        lnd: lndConnection,
-        public_key: pubkey,
-      });
+      const nodeInfo = await lnd.getNodeInfo({ public_key: pubkey });
 
       return nodeInfo.alias;
     } catch (error) {
@@ -148,12 +651,121 @@ export class LndGateway implements LightningNetworkGateway {
   }
 
   /**
-   * Get the LND connection from the generic connection
-   * @returns LND connection from ln-service
+   * Derive the lifecycle state of an LND pending channel
+   *
+   * ln-service merges LND's pending open, force closing and waiting close
+   * channels into a single list, so the state is inferred from its flags.
+   *
+   * @param channel Pending channel returned by ln-service
+   * @returns The pending channel state
+   * @private
+   */
+  private getPendingChannelState(channel: lnService.PendingChannel): PendingChannelState {
+    if (channel.is_opening) {
+      return 'opening';
+    }
+    if (channel.is_timelocked !== undefined || channel.timelock_expiration !== undefined) {
+      return 'force_closing';
+    }
+    if (channel.close_transaction_id) {
+      return 'closing';
+    }
+    return 'waiting_close';
+  }
+
+  /**
+   * Derive how an LND channel was closed
+   * @param channel Closed channel returned by ln-service
+   * @returns The close type
+   * @private
+   */
+  private getClosedChannelType(channel: lnService.ClosedChannel): ClosedChannelType {
+    if (channel.is_breach_close) {
+      return 'breach';
+    }
+    if (channel.is_cooperative_close) {
+      return 'cooperative';
+    }
+    if (channel.is_local_force_close) {
+      return 'local_force';
+    }
+    if (channel.is_remote_force_close) {
+      return 'remote_force';
+    }
+    if (channel.is_funding_cancel) {
+      return 'funding_canceled';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Derive the lifecycle state of an LND invoice
+   * @param invoice Invoice returned by ln-service
+   * @param now Reference time used to detect expiry
+   * @returns The invoice state
+   * @private
+   */
+  private getInvoiceState(invoice: lnService.Invoice, now: number): InvoiceState {
+    if (invoice.is_confirmed) {
+      return 'settled';
+    }
+    if (invoice.is_canceled) {
+      return 'canceled';
+    }
+    if (invoice.expires_at && Date.parse(invoice.expires_at) < now) {
+      return 'expired';
+    }
+    return 'open';
+  }
+
+  /**
+   * Fetch the routing policies of our channels from our node in the graph
+   *
+   * Policies are only an addition to the channels, so failing to fetch them
+   * leaves the channels without policies rather than failing the query.
+   * @param lnd LND service of the connection
+   * @returns Promise resolving to the local and remote policy of each channel by id
+   * @private
+   */
+  private async getChannelPolicies(
+    lnd: LndService
+  ): Promise<Map<string, { local?: FeePolicyData; remote?: FeePolicyData }>> {
+    try {
+      const { public_key } = await lnd.getWalletInfo();
+      if (!public_key) {
+        return new Map();
+      }
+
+      const { channels } = await lnd.getNodeInfo({ public_key });
+
+      return new Map(
+        (channels || []).map((channel) => [
+          channel.id,
+          {
+            local: toFeePolicy(channel.policies.find((policy) => policy.public_key === public_key)),
+            remote: toFeePolicy(
+              channel.policies.find((policy) => policy.public_key !== public_key)
+            ),
+          },
+        ])
+      );
+    } catch (error) {
+      logger.warn('Could not fetch channel policies', {
+        component: 'lnd-gateway',
+        operation: 'getChannelPolicies',
+        error: sanitizeError(error)?.message || 'Unknown error',
+      });
+      return new Map();
+    }
+  }
+
+  /**
+   * Get the LND calls of the generic connection
+   * @returns LND service matching the connection method
    * @throws Error if the connection is not a valid LND connection
    * @private
    */
-  private getLndConnection(): lnService.AuthenticatedLnd {
+  private getLndService(): LndService {
     // Get the raw connection
     const rawConnection = this.connection.getConnection();
 
@@ -162,6 +774,28 @@ export class LndGateway implements LightningNetworkGateway {
       throw new ConnectionError('Invalid LND connection');
     }
 
-    return rawConnection as lnService.AuthenticatedLnd;
+    return getLndService(rawConnection as LndConnection);
   }
 }
+
+/**
+ * Map a channel policy announced in the graph to a fee policy
+ * @param policy Policy of one side of the channel
+ * @returns The fee policy, or undefined until the node announces one
+ */
+function toFeePolicy(policy: lnService.ChannelPolicy | undefined): FeePolicyData | undefined {
+  if (policy?.fee_rate === undefined) {
+    return undefined;
+  }
+
+  return {
+    base_fee_msat: Number(policy.base_fee_mtokens || 0),
+    fee_rate_ppm: policy.fee_rate,
+    disabled: policy.is_disabled,
+    cltv_delta: policy.cltv_delta,
+    min_htlc_msat:
+      policy.min_htlc_mtokens !== undefined ? Number(policy.min_htlc_mtokens) : undefined,
+    max_htlc_msat:
+      policy.max_htlc_mtokens !== undefined ? Number(policy.max_htlc_mtokens) : undefined,
+  };
+}
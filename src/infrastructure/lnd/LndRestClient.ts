@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Minimal client for LND's REST API.
+ *
+ * LND serves its gRPC services as REST endpoints under `/v1`, authorizing
+ * requests with a hex encoded macaroon in the `Grpc-Metadata-macaroon` header.
+ * Responses use the snake_case field names of the lnrpc protos.
+ */
+
+import { AuthenticationError, ConnectionError } from '../../domain/errors/ConnectionErrors';
+import { sendHttpRequest } from '../http/http-request';
+
+/**
+ * Options for creating an LND REST client
+ */
+export interface LndRestClientOptions {
+  /** Base URL of the REST API, e.g. https://localhost:8080 */
+  url: string;
+  /** Hex encoded macaroon sent with every request */
+  macaroon: string;
+  /** PEM encoded certificate used to verify the server */
+  ca?: string;
+  /** Time in milliseconds after which a request is aborted, 30 seconds by default */
+  timeoutMs?: number;
+}
+
+/**
+ * Error body returned by LND's REST API for failed calls
+ */
+interface LndRestErrorBody {
+  code?: number;
+  message?: string;
+}
+
+/**
+ * Client calling LND through its REST API
+ */
+export class LndRestClient {
+  /**
+   * Create a new LND REST client
+   * @param options Connection options
+   */
+  constructor(private readonly options: LndRestClientOptions) {}
+
+  /**
+   * Call a GET endpoint
+   * @param path Endpoint path, e.g. /v1/channels
+   * @param query Query parameters, skipping undefined values
+   * @returns Promise resolving to the parsed response
+   * @throws AuthenticationError if the macaroon is rejected
+   * @throws ConnectionTimeoutError if LND does not respond in time
+   * @throws ConnectionError for any other failure
+   */
+  get<T>(path: string, query: Record<string, unknown> = {}): Promise<T> {
+    const url = this.getUrl(path);
+
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    });
+
+    return this.send<T>(url, 'GET');
+  }
+
+  /**
+   * Call a POST endpoint
+   * @param path Endpoint path, e.g. /v1/switch
+   * @param body Request body
+   * @returns Promise resolving to the parsed response
+   * @throws AuthenticationError if the macaroon is rejected
+   * @throws ConnectionTimeoutError if LND does not respond in time
+   * @throws ConnectionError for any other failure
+   */
+  post<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    return this.send<T>(this.getUrl(path), 'POST', JSON.stringify(body));
+  }
+
+  private getUrl(path: string): URL {
+    const baseUrl = this.options.url.endsWith('/') ? this.options.url : `${this.options.url}/`;
+    return new URL(path.replace(/^\//, ''), baseUrl);
+  }
+
+  private async send<T>(url: URL, method: 'GET' | 'POST', body?: string): Promise<T> {
+    const headers: Record<string, string> = { 'Grpc-Metadata-macaroon': this.options.macaroon };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await sendHttpRequest({
+      url,
+      method,
+      headers,
+      body,
+      ca: this.options.ca,
+      timeoutMs: this.options.timeoutMs,
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return response.body as T;
+    }
+
+    throw toLndRestError(url.pathname, response.status, response.body);
+  }
+}
+
+/**
+ * Map a failed REST response to a connection error
+ * @param path The endpoint that failed
+ * @param status The HTTP status code
+ * @param body The parsed response body
+ * @returns The matching connection error
+ */
+function toLndRestError(path: string, status: number, body: unknown): ConnectionError {
+  const payload = body as LndRestErrorBody | undefined;
+  const message = `LND ${path} failed: ${payload?.message || `HTTP ${status}`}`;
+
+  // LND rejects missing or invalid macaroons before running the call
+  if (
+    status === 401 ||
+    /macaroon|verification failed|permission denied/i.test(payload?.message || '')
+  ) {
+    return new AuthenticationError(message, { metadata: { status, grpcCode: payload?.code } });
+  }
+
+  return new ConnectionError(message, { metadata: { status, grpcCode: payload?.code } });
+}
@@ -0,0 +1,524 @@
+/**
+ * @fileoverview LndService over LND's lnrpc messages.
+ *
+ * Calls LND's Lightning service through an LNC session or the REST API and
+ * maps the lnrpc responses to the shapes ln-service returns for the same
+ * data, so LndGateway maps every connection method the same way. Pagination
+ * tokens are opaque JSON strings holding the index offset of the next page,
+ * like ln-service's tokens.
+ */
+
+import * as lnService from 'ln-service';
+import { LndApi, lnrpc } from '@lightninglabs/lnc-core';
+import { LndService } from './lnd-service';
+
+/**
+ * Default number of records per page when no limit is given
+ */
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Largest confirmation count accepted by ListUnspent
+ */
+const MAX_CONFIRMATIONS = 2147483647;
+
+/**
+ * Lightning service calls used to build an LndService, typed as lnc-core's
+ * camelCase lnrpc messages
+ */
+export type LightningCalls = Pick<
+  LndApi['lightning'],
+  | 'getInfo'
+  | 'listChannels'
+  | 'pendingChannels'
+  | 'closedChannels'
+  | 'listPayments'
+  | 'listInvoices'
+  | 'forwardingHistory'
+  | 'walletBalance'
+  | 'listUnspent'
+  | 'getTransactions'
+  | 'listPeers'
+  | 'describeGraph'
+  | 'getNodeInfo'
+>;
+
+/**
+ * Position of the next page of a paginated call
+ */
+interface PageToken {
+  offset: number;
+  limit: number;
+  after?: string;
+  before?: string;
+}
+
+/**
+ * ln-service address formats by LND address type
+ */
+const ADDRESS_FORMATS: Record<string, string> = {
+  [lnrpc.AddressType.WITNESS_PUBKEY_HASH]: 'p2wpkh',
+  [lnrpc.AddressType.UNUSED_WITNESS_PUBKEY_HASH]: 'p2wpkh',
+  [lnrpc.AddressType.NESTED_PUBKEY_HASH]: 'np2wpkh',
+  [lnrpc.AddressType.UNUSED_NESTED_PUBKEY_HASH]: 'np2wpkh',
+  [lnrpc.AddressType.TAPROOT_PUBKEY]: 'p2tr',
+  [lnrpc.AddressType.UNUSED_TAPROOT_PUBKEY]: 'p2tr',
+};
+
+function toNumber(value: string | number | undefined): number {
+  return Number(value || 0);
+}
+
+/**
+ * Format a numeric channel id as a short channel id
+ * @param channelId Decimal uint64 channel id
+ * @returns Short channel id as block x transaction x output
+ */
+function toShortChannelId(channelId: string): string {
+  const id = BigInt(channelId || 0);
+  return `${id >> 40n}x${(id >> 16n) & 0xffffffn}x${id & 0xffffn}`;
+}
+
+function secondsToIsoDate(seconds: string | number): string {
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+function nanosecondsToIsoDate(nanoseconds: string): string {
+  return new Date(Number(BigInt(nanoseconds || 0) / 1000000n)).toISOString();
+}
+
+function bytesToHex(bytes: Uint8Array | string): string {
+  return typeof bytes === 'string'
+    ? Buffer.from(bytes, 'base64').toString('hex')
+    : Buffer.from(bytes).toString('hex');
+}
+
+function splitOutpoint(outpoint: string): { transaction_id: string; transaction_vout: number } {
+  const [transactionId, vout] = outpoint.split(':');
+  return { transaction_id: transactionId, transaction_vout: toNumber(vout) };
+}
+
+function readPage(args: { limit?: number; token?: string }): PageToken {
+  return args.token
+    ? (JSON.parse(args.token) as PageToken)
+    : { offset: 0, limit: args.limit || DEFAULT_PAGE_SIZE };
+}
+
+/**
+ * Build the token of the next page, if the current page was full
+ */
+function nextPage(page: PageToken, count: number, offset: string | number): string | undefined {
+  return count >= page.limit ? JSON.stringify({ ...page, offset: toNumber(offset) }) : undefined;
+}
+
+function mapFeatures(features: { [bit: number]: lnrpc.Feature }): lnService.NodeFeature[] {
+  return Object.entries(features || {}).map(([bit, feature]) => ({
+    bit: Number(bit),
+    is_known: feature.isKnown,
+    is_required: feature.isRequired,
+    type: feature.name,
+  }));
+}
+
+function mapPolicy(
+  publicKey: string,
+  policy: lnrpc.RoutingPolicy | undefined
+): lnService.ChannelPolicy {
+  if (!policy) {
+    return { public_key: publicKey };
+  }
+
+  return {
+    public_key: publicKey,
+    base_fee_mtokens: policy.feeBaseMsat,
+    cltv_delta: policy.timeLockDelta,
+    fee_rate: toNumber(policy.feeRateMilliMsat),
+    is_disabled: policy.disabled,
+    max_htlc_mtokens: policy.maxHtlcMsat,
+    min_htlc_mtokens: policy.minHtlc,
+    updated_at: policy.lastUpdate ? secondsToIsoDate(policy.lastUpdate) : undefined,
+  };
+}
+
+function mapEdge(edge: lnrpc.ChannelEdge): lnService.GraphChannel {
+  const updatedAt = Math.max(edge.node1Policy?.lastUpdate || 0, edge.node2Policy?.lastUpdate || 0);
+
+  return {
+    id: toShortChannelId(edge.channelId),
+    capacity: toNumber(edge.capacity),
+    policies: [
+      mapPolicy(edge.node1Pub, edge.node1Policy),
+      mapPolicy(edge.node2Pub, edge.node2Policy),
+    ],
+    updated_at: updatedAt ? secondsToIsoDate(updatedAt) : undefined,
+  };
+}
+
+function mapNode(node: lnrpc.LightningNode): lnService.GraphNode {
+  return {
+    alias: node.alias,
+    color: node.color,
+    features: mapFeatures(node.features),
+    public_key: node.pubKey,
+    sockets: (node.addresses || []).map((address) => address.addr),
+    updated_at: node.lastUpdate ? secondsToIsoDate(node.lastUpdate) : undefined,
+  };
+}
+
+function mapPendingChannel(
+  channel: lnrpc.PendingChannelsResponse_PendingChannel | undefined
+): lnService.PendingChannel {
+  return {
+    capacity: toNumber(channel?.capacity),
+    is_active: false,
+    is_closing: true,
+    is_opening: false,
+    is_partner_initiated: channel?.initiator === lnrpc.Initiator.INITIATOR_REMOTE,
+    local_balance: toNumber(channel?.localBalance),
+    partner_public_key: channel?.remoteNodePub || '',
+    remote_balance: toNumber(channel?.remoteBalance),
+    ...splitOutpoint(channel?.channelPoint || ''),
+  };
+}
+
+/**
+ * Find the HTLC attempt that settled a payment, or the last one tried
+ */
+function getFinalAttempt(payment: lnrpc.Payment): lnrpc.HTLCAttempt | undefined {
+  return (
+    payment.htlcs.find((htlc) => htlc.status === lnrpc.HTLCAttempt_HTLCStatus.SUCCEEDED) ||
+    payment.htlcs[payment.htlcs.length - 1]
+  );
+}
+
+function getRouteKeys(payment: lnrpc.Payment): string[] {
+  return (getFinalAttempt(payment)?.route?.hops || []).map((hop) => hop.pubKey);
+}
+
+/**
+ * Whether LND failed a node lookup because the node is not in the graph
+ */
+function isUnknownNodeError(error: unknown): boolean {
+  return error instanceof Error && /unable to find node/i.test(error.message);
+}
+
+/**
+ * Create an LndService backed by an LNC session
+ * @param api lnc-core API of the node
+ * @returns Service returning ln-service shaped data
+ */
+export function createLndApiService(api: LndApi): LndService {
+  return createLightningService(api.lightning);
+}
+
+/**
+ * Create an LndService over Lightning service calls
+ * @param lightning Calls returning lnrpc messages
+ * @returns Service returning ln-service shaped data
+ */
+export function createLightningService(lightning: LightningCalls): LndService {
+  return {
+    async getWalletInfo() {
+      const info = await lightning.getInfo({});
+
+      return {
+        alias: info.alias,
+        public_key: info.identityPubkey,
+        color: info.color,
+        active_channels_count: info.numActiveChannels,
+        pending_channels_count: info.numPendingChannels,
+        peers_count: info.numPeers,
+      };
+    },
+
+    async getChannels() {
+      const { channels } = await lightning.listChannels({});
+
+      return {
+        channels: channels.map((channel) => ({
+          id: toShortChannelId(channel.chanId),
+          capacity: toNumber(channel.capacity),
+          local_balance: toNumber(channel.localBalance),
+          remote_balance: toNumber(channel.remoteBalance),
+          active: channel.active,
+          remote_pubkey: channel.remotePubkey,
+          channel_point: channel.channelPoint,
+        })),
+      };
+    },
+
+    async getPendingChannels() {
+      const response = await lightning.pendingChannels({});
+
+      return {
+        pending_channels: [
+          ...response.pendingOpenChannels.map(({ channel }) => ({
+            ...mapPendingChannel(channel),
+            is_closing: false,
+            is_opening: true,
+          })),
+          ...response.pendingClosingChannels.map(({ channel, closingTxid }) => ({
+            ...mapPendingChannel(channel),
+            close_transaction_id: closingTxid || undefined,
+          })),
+          ...response.pendingForceClosingChannels.map((forceClosed) => ({
+            ...mapPendingChannel(forceClosed.channel),
+            close_transaction_id: forceClosed.closingTxid || undefined,
+            is_timelocked: forceClosed.blocksTilMaturity > 0,
+            pending_balance: toNumber(forceClosed.limboBalance),
+            recovered_tokens: toNumber(forceClosed.recoveredBalance) || undefined,
+            timelock_blocks: forceClosed.blocksTilMaturity,
+            timelock_expiration: forceClosed.maturityHeight,
+          })),
+          // The closing transaction of a waiting close channel is unconfirmed
+          ...response.waitingCloseChannels.map(({ channel, limboBalance }) => ({
+            ...mapPendingChannel(channel),
+            pending_balance: toNumber(limboBalance),
+          })),
+        ],
+      };
+    },
+
+    async getClosedChannels() {
+      const { channels } = await lightning.closedChannels({});
+      const ClosureType = lnrpc.ChannelCloseSummary_ClosureType;
+
+      return {
+        channels: channels.map((channel) => ({
+          capacity: toNumber(channel.capacity),
+          close_confirm_height: channel.closeHeight || undefined,
+          close_transaction_id: channel.closingTxHash || undefined,
+          final_local_balance: toNumber(channel.settledBalance),
+          final_time_locked_balance: toNumber(channel.timeLockedBalance),
+          id: toNumber(channel.chanId) ? toShortChannelId(channel.chanId) : undefined,
+          is_breach_close: channel.closeType === ClosureType.BREACH_CLOSE,
+          is_cooperative_close: channel.closeType === ClosureType.COOPERATIVE_CLOSE,
+          is_funding_cancel: channel.closeType === ClosureType.FUNDING_CANCELED,
+          is_local_force_close: channel.closeType === ClosureType.LOCAL_FORCE_CLOSE,
+          is_partner_initiated:
+            channel.openInitiator === lnrpc.Initiator.INITIATOR_UNKNOWN
+              ? undefined
+              : channel.openInitiator === lnrpc.Initiator.INITIATOR_REMOTE,
+          is_remote_force_close: channel.closeType === ClosureType.REMOTE_FORCE_CLOSE,
+          partner_public_key: channel.remotePubkey,
+          ...splitOutpoint(channel.channelPoint),
+        })),
+      };
+    },
+
+    async getPayments(args) {
+      const page = readPage(args);
+      const response = await lightning.listPayments({
+        includeIncomplete: false,
+        indexOffset: String(page.offset),
+        maxPayments: String(page.limit),
+      });
+
+      return {
+        payments: response.payments
+          .filter((payment) => payment.status === lnrpc.Payment_PaymentStatus.SUCCEEDED)
+          .map((payment) => {
+            const routeKeys = getRouteKeys(payment);
+            const resolvedAt = getFinalAttempt(payment)?.resolveTimeNs;
+
+            return {
+              id: payment.paymentHash,
+              destination: routeKeys[routeKeys.length - 1] || '',
+              tokens: toNumber(payment.valueSat),
+              fee: toNumber(payment.feeSat),
+              is_confirmed: true,
+              is_outgoing: true,
+              created_at: nanosecondsToIsoDate(payment.creationTimeNs),
+              confirmed_at: toNumber(resolvedAt)
+                ? nanosecondsToIsoDate(resolvedAt as string)
+                : undefined,
+              hops: routeKeys.slice(0, -1),
+              request: payment.paymentRequest || undefined,
+            };
+          }),
+        next: nextPage(page, response.payments.length, response.lastIndexOffset),
+      };
+    },
+
+    async getFailedPayments(args) {
+      const page = readPage(args);
+      const response = await lightning.listPayments({
+        includeIncomplete: true,
+        indexOffset: String(page.offset),
+        maxPayments: String(page.limit),
+      });
+
+      return {
+        payments: response.payments
+          .filter((payment) => payment.status === lnrpc.Payment_PaymentStatus.FAILED)
+          .map((payment) => {
+            const routeKeys = getRouteKeys(payment);
+
+            return {
+              id: payment.paymentHash,
+              destination: routeKeys[routeKeys.length - 1] || '',
+              tokens: toNumber(payment.valueSat),
+              is_confirmed: false,
+              is_outgoing: true,
+              created_at: nanosecondsToIsoDate(payment.creationTimeNs),
+              request: payment.paymentRequest || undefined,
+            };
+          }),
+        next: nextPage(page, response.payments.length, response.lastIndexOffset),
+      };
+    },
+
+    async getInvoices(args) {
+      const page = readPage(args);
+      const response = await lightning.listInvoices({
+        indexOffset: String(page.offset),
+        numMaxInvoices: String(page.limit),
+      });
+      const InvoiceState = lnrpc.Invoice_InvoiceState;
+
+      return {
+        invoices: response.invoices.map((invoice) => ({
+          id: bytesToHex(invoice.rHash),
+          tokens: toNumber(invoice.value),
+          received: toNumber(invoice.amtPaidSat),
+          description: invoice.memo || undefined,
+          is_confirmed: invoice.state === InvoiceState.SETTLED,
+          is_canceled: invoice.state === InvoiceState.CANCELED,
+          is_held: invoice.state === InvoiceState.ACCEPTED,
+          created_at: secondsToIsoDate(invoice.creationDate),
+          expires_at: secondsToIsoDate(toNumber(invoice.creationDate) + toNumber(invoice.expiry)),
+          confirmed_at: toNumber(invoice.settleDate)
+            ? secondsToIsoDate(invoice.settleDate)
+            : undefined,
+        })),
+        next: nextPage(page, response.invoices.length, response.lastIndexOffset),
+      };
+    },
+
+    async getForwards(args) {
+      const page: PageToken = args.token
+        ? readPage(args)
+        : { ...readPage(args), after: args.after, before: args.before };
+      const toSeconds = (date: string): string => String(Math.floor(Date.parse(date) / 1000));
+
+      const response = await lightning.forwardingHistory({
+        startTime: page.after ? toSeconds(page.after) : '0',
+        endTime: toSeconds(page.before || new Date().toISOString()),
+        indexOffset: page.offset,
+        numMaxEvents: page.limit,
+      });
+
+      return {
+        forwards: response.forwardingEvents.map((event) => ({
+          created_at: nanosecondsToIsoDate(event.timestampNs),
+          fee: toNumber(event.fee),
+          tokens: toNumber(event.amtOut),
+          incoming_channel: toShortChannelId(event.chanIdIn),
+          outgoing_channel: toShortChannelId(event.chanIdOut),
+        })),
+        next: nextPage(page, response.forwardingEvents.length, response.lastOffsetIndex),
+      };
+    },
+
+    async getChainBalance() {
+      const { confirmedBalance } = await lightning.walletBalance({});
+      return { chain_balance: toNumber(confirmedBalance) };
+    },
+
+    async getPendingChainBalance() {
+      const { unconfirmedBalance } = await lightning.walletBalance({});
+      return { pending_chain_balance: toNumber(unconfirmedBalance) };
+    },
+
+    async getUtxos(args) {
+      const { utxos } = await lightning.listUnspent({
+        minConfs: args.min_confirmations ?? 1,
+        maxConfs: MAX_CONFIRMATIONS,
+      });
+
+      return {
+        utxos: utxos.map((utxo) => ({
+          address: utxo.address,
+          address_format: ADDRESS_FORMATS[utxo.addressType] || 'unknown',
+          confirmation_count: toNumber(utxo.confirmations),
+          output_script: utxo.pkScript,
+          tokens: toNumber(utxo.amountSat),
+          transaction_id: utxo.outpoint?.txidStr || '',
+          transaction_vout: utxo.outpoint?.outputIndex || 0,
+        })),
+      };
+    },
+
+    async getChainTransactions() {
+      const { transactions } = await lightning.getTransactions({});
+
+      return {
+        transactions: transactions.map((transaction) => ({
+          id: transaction.txHash,
+          tokens: Math.abs(toNumber(transaction.amount)),
+          fee: toNumber(transaction.totalFees) || undefined,
+          is_confirmed: transaction.numConfirmations > 0,
+          is_outgoing: toNumber(transaction.amount) < 0,
+          confirmation_count: transaction.numConfirmations || undefined,
+          confirmation_height: transaction.blockHeight || undefined,
+          created_at: secondsToIsoDate(transaction.timeStamp),
+          description: transaction.label || undefined,
+          output_addresses: transaction.destAddresses,
+        })),
+      };
+    },
+
+    async getPeers() {
+      const { peers } = await lightning.listPeers({});
+
+      return {
+        peers: peers.map((peer) => ({
+          bytes_received: toNumber(peer.bytesRecv),
+          bytes_sent: toNumber(peer.bytesSent),
+          is_inbound: peer.inbound,
+          // LND reports the ping time in microseconds
+          ping_time: Math.round(toNumber(peer.pingTime) / 1000),
+          public_key: peer.pubKey,
+          socket: peer.address,
+          tokens_received: toNumber(peer.satRecv),
+          tokens_sent: toNumber(peer.satSent),
+        })),
+      };
+    },
+
+    async getNetworkGraph() {
+      const { nodes, edges } = await lightning.describeGraph({});
+
+      return {
+        channels: edges.map(mapEdge),
+        nodes: nodes.map(mapNode),
+      };
+    },
+
+    async getNodeInfo(args) {
+      let info: lnrpc.NodeInfo;
+      try {
+        info = await lightning.getNodeInfo({ pubKey: args.public_key, includeChannels: true });
+      } catch (error) {
+        // Report unknown nodes the way ln-service does
+        if (isUnknownNodeError(error)) {
+          throw [404, 'NodeIsUnknown'];
+        }
+        throw error;
+      }
+
+      const node = info.node ? mapNode(info.node) : undefined;
+
+      return {
+        alias: node?.alias,
+        color: node?.color,
+        capacity: toNumber(info.totalCapacity),
+        channel_count: info.numChannels,
+        channels: (info.channels || []).map(mapEdge),
+        features: node?.features,
+        sockets: node?.sockets,
+        updated_at: node?.updated_at,
+      };
+    },
+  };
+}
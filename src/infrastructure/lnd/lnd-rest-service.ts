@@ -0,0 +1,84 @@
+/**
+ * @fileoverview LndService over LND's REST API.
+ *
+ * The REST API returns the same lnrpc messages as LNC, only with the proto's
+ * snake_case field names. Responses are converted to camelCase and mapped by
+ * the shared lnrpc mapping.
+ */
+
+import { LndService } from './lnd-service';
+import { createLightningService, LightningCalls } from './lnd-api-service';
+import { LndRestClient } from './LndRestClient';
+
+/**
+ * Convert the keys of a REST message to camelCase, recursively
+ * @param value Parsed REST response
+ * @returns The value with camelCase keys
+ */
+function toCamelCase(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(toCamelCase);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key.replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase()),
+      toCamelCase(field),
+    ])
+  );
+}
+
+/**
+ * Convert the keys of a camelCase request to snake_case
+ * @param request lnrpc request with camelCase fields
+ * @returns Query or body parameters with the proto's field names
+ */
+function toSnakeCase(request: object = {}): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(request).map(([key, field]) => [
+      key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`),
+      field,
+    ])
+  );
+}
+
+/**
+ * Create the Lightning service calls of the REST API
+ * @param client REST client of the node
+ * @returns Calls returning camelCase lnrpc messages
+ */
+function createRestLightning(client: LndRestClient): LightningCalls {
+  const get = <T>(path: string, request?: object): Promise<T> =>
+    client.get(path, toSnakeCase(request)).then(toCamelCase) as Promise<T>;
+  const post = <T>(path: string, request?: object): Promise<T> =>
+    client.post(path, toSnakeCase(request)).then(toCamelCase) as Promise<T>;
+
+  return {
+    getInfo: () => get('/v1/getinfo'),
+    listChannels: () => get('/v1/channels'),
+    pendingChannels: () => get('/v1/channels/pending'),
+    closedChannels: () => get('/v1/channels/closed'),
+    listPayments: (request) => get('/v1/payments', request),
+    listInvoices: (request) => get('/v1/invoices', request),
+    forwardingHistory: (request) => post('/v1/switch', request),
+    walletBalance: () => get('/v1/balance/blockchain'),
+    listUnspent: (request) => get('/v1/utxos', request),
+    getTransactions: () => get('/v1/transactions'),
+    listPeers: () => get('/v1/peers'),
+    describeGraph: () => get('/v1/graph'),
+    getNodeInfo: ({ pubKey, ...request } = {}) =>
+      get(`/v1/graph/node/${encodeURIComponent(pubKey || '')}`, request),
+  };
+}
+
+/**
+ * Create an LndService backed by LND's REST API
+ * @param client REST client of the node
+ * @returns Service returning ln-service shaped data
+ */
+export function createLndRestService(client: LndRestClient): LndService {
+  return createLightningService(createRestLightning(client));
+}
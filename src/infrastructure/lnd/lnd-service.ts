@@ -0,0 +1,89 @@
+/**
+ * @fileoverview LND calls shared by the gRPC, LNC and REST connection methods.
+ *
+ * LndGateway maps ln-service's result shapes to domain data. A gRPC connection
+ * is passed straight to ln-service, while the responses of an LNC session (an
+ * lnc-core LndApi) or of the REST API are converted to the same shapes.
+ */
+
+import * as lnService from 'ln-service';
+import { LndApi } from '@lightninglabs/lnc-core';
+import { createLndApiService } from './lnd-api-service';
+import { createLndRestService } from './lnd-rest-service';
+import { LndRestClient } from './LndRestClient';
+
+/**
+ * Pagination arguments of the paginated LND calls
+ */
+export interface PageArgs {
+  limit?: number;
+  token?: string;
+}
+
+/**
+ * LND calls used by the gateway and adapter, returning ln-service results
+ */
+export interface LndService {
+  getWalletInfo(): Promise<lnService.WalletInfo>;
+  getChannels(): Promise<lnService.GetChannelsResult>;
+  getPendingChannels(): Promise<lnService.GetPendingChannelsResult>;
+  getClosedChannels(): Promise<lnService.GetClosedChannelsResult>;
+  getPayments(args: PageArgs): Promise<lnService.GetPaymentsResult>;
+  getFailedPayments(args: PageArgs): Promise<lnService.GetFailedPaymentsResult>;
+  getInvoices(args: PageArgs): Promise<lnService.GetInvoicesResult>;
+  getForwards(
+    args: PageArgs & { after?: string; before?: string }
+  ): Promise<lnService.GetForwardsResult>;
+  getChainBalance(): Promise<lnService.GetChainBalanceResult>;
+  getPendingChainBalance(): Promise<lnService.GetPendingChainBalanceResult>;
+  getUtxos(args: { min_confirmations?: number }): Promise<lnService.GetUtxosResult>;
+  getChainTransactions(): Promise<lnService.GetChainTransactionsResult>;
+  getPeers(): Promise<lnService.GetPeersResult>;
+  getNetworkGraph(): Promise<lnService.GetNetworkGraphResult>;
+  getNodeInfo(args: { public_key: string }): Promise<lnService.NodeInfoResult>;
+}
+
+/**
+ * Create an LndService calling ln-service over a gRPC connection
+ * @param lnd Authenticated ln-service connection
+ * @returns Service passing each call to ln-service
+ */
+export function createGrpcService(lnd: lnService.AuthenticatedLnd): LndService {
+  return {
+    getWalletInfo: () => lnService.getWalletInfo({ lnd }),
+    getChannels: () => lnService.getChannels({ lnd }),
+    getPendingChannels: () => lnService.getPendingChannels({ lnd }),
+    getClosedChannels: () => lnService.getClosedChannels({ lnd }),
+    getPayments: (args) => lnService.getPayments({ lnd, ...args }),
+    getFailedPayments: (args) => lnService.getFailedPayments({ lnd, ...args }),
+    getInvoices: (args) => lnService.getInvoices({ lnd, ...args }),
+    getForwards: (args) => lnService.getForwards({ lnd, ...args }),
+    getChainBalance: () => lnService.getChainBalance({ lnd }),
+    getPendingChainBalance: () => lnService.getPendingChainBalance({ lnd }),
+    getUtxos: (args) => lnService.getUtxos({ lnd, ...args }),
+    getChainTransactions: () => lnService.getChainTransactions({ lnd }),
+    getPeers: () => lnService.getPeers({ lnd }),
+    getNetworkGraph: () => lnService.getNetworkGraph({ lnd }),
+    getNodeInfo: (args) => lnService.getNodeInfo({ lnd, ...args }),
+  };
+}
+
+/**
+ * Raw connection of any LND connection method
+ */
+export type LndConnection = lnService.AuthenticatedLnd | LndApi | LndRestClient;
+
+/**
+ * Get the LndService of a raw LND connection
+ * @param connection ln-service connection, LNC LndApi or REST client
+ * @returns Service matching the connection method
+ */
+export function getLndService(connection: LndConnection): LndService {
+  if (connection instanceof LndApi) {
+    return createLndApiService(connection);
+  }
+  if (connection instanceof LndRestClient) {
+    return createLndRestService(connection);
+  }
+  return createGrpcService(connection);
+}
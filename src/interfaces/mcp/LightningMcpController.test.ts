@@ -6,6 +6,7 @@ import { LightningMcpController } from './LightningMcpController';
 import { LightningQueryProcessor } from '../../application/processors/LightningQueryProcessor';
 import { LightningError, LightningErrorCode } from '../../domain/errors/LightningErrors';
 import { sanitizeError, sanitizeForLogging } from '../../core/errors/sanitize';
+import { createIntent } from '../../domain/intents/entities/EnhancedIntent';
 
 // Mock dependencies
 jest.mock('../../application/processors/LightningQueryProcessor');
@@ -129,7 +130,9 @@ describe('LightningMcpController', () => {
 
       // Verify query processor was called with the input
       expect(mockQueryProcessor.processQuery).toHaveBeenCalledWith(
-        'What is the balance of channel 123?'
+        'What is the balance of channel 123?',
+        undefined,
+        undefined
       );
 
       // Verify sanitizeForLogging was called when logging
@@ -145,10 +148,44 @@ describe('LightningMcpController', () => {
       const data = result.data as { channels: Array<{ capacity: number }> };
       expect(data.channels[0].capacity).toBe(1000000);
 
+      // The structured content holds the result without its formatted text
+      expect(result.structuredContent).toEqual({
+        domain: 'channels',
+        operation: 'liquidity',
+        node: undefined,
+        result: {
+          channels: data.channels,
+          summary: expect.objectContaining({ totalCapacity: 1000000 }),
+        },
+      });
+
       // The isError property should be defined and false
       expect(result).toHaveProperty('isError', false);
     });
 
+    it('should report queries the processor could not answer as errors', async () => {
+      // Setup mock query processor error response
+      mockQueryProcessor.processQuery.mockResolvedValue({
+        text: "Sorry, I couldn't process your query: Node unavailable",
+        data: { error: 'Node unavailable' },
+        intent: {
+          domain: 'unknown',
+          operation: 'unknown',
+          query: 'Show my channels',
+          attributes: new Map(),
+          error: new Error('Node unavailable'),
+        },
+      });
+
+      // Execute the query
+      const result = await controller.executeQuery('Show my channels');
+
+      // Verify the error is reported without structured content
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      expect(result.content[0].text).toContain('Node unavailable');
+    });
+
     it('should handle BaseError by sanitizing and preserving error code', async () => {
       // Mock sanitizeErrorMessage to avoid duplicate sanitization
       const mockSanitizeErrorMessage = require('../../core/errors/sanitize')
@@ -366,4 +403,32 @@ describe('LightningMcpController', () => {
       );
     });
   });
+
+  describe('executeIntent', () => {
+    it('should process the intent on the requested node', async () => {
+      const intent = createIntent(
+        'channels',
+        'list',
+        'listChannels {"active":true}',
+        new Map([['active', true]])
+      );
+      mockQueryProcessor.processIntent.mockResolvedValue({
+        text: 'Your node has 0 channels',
+        data: { channels: [], summary: { totalCapacity: 0 } },
+        intent,
+        node: 'alpha',
+      });
+
+      const result = await controller.executeIntent(intent, 'alpha');
+
+      expect(mockQueryProcessor.processIntent).toHaveBeenCalledWith(intent, 'alpha');
+      expect(result.structuredContent).toEqual({
+        domain: 'channels',
+        operation: 'list',
+        node: 'alpha',
+        result: { channels: [], summary: { totalCapacity: 0 } },
+      });
+      expect(result.isError).toBe(false);
+    });
+  });
 });
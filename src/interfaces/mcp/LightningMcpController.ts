@@ -6,10 +6,15 @@
  * delegates to the LightningQueryProcessor for actual processing.
  */
 
-import { LightningQueryProcessor } from '../../application/processors/LightningQueryProcessor';
+import {
+  LightningQueryProcessor,
+  QueryResponse,
+} from '../../application/processors/LightningQueryProcessor';
+import { EnhancedIntent, LightningDomain } from '../../domain/intents/entities/EnhancedIntent';
 import logger from '../../core/logging/logger';
 import { sanitizeError, sanitizeForLogging } from '../../core/errors/sanitize';
 import { BaseError } from '../../core/errors/base-error';
+import { DomainQueryResult } from '../../domain/handlers/DomainHandler';
 
 /**
  * Result of an MCP tool call
@@ -19,6 +24,8 @@ export interface ToolResult {
   content: Array<{ type: string; text: string }>;
   // Using a more specific type than 'any'
   data?: Record<string, unknown>;
+  /** Result of a successful query as structured content, before validation */
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -35,9 +42,47 @@ export class LightningMcpController {
   /**
    * Execute a Lightning Network query
    * @param query The natural language query
+   * @param domain Optional domain to scope the query to
+   * @param node Optional name of the node to query, or "all"
    * @returns Promise resolving to the tool result
    */
-  public async executeQuery(query: string): Promise<ToolResult> {
+  public async executeQuery(
+    query: string,
+    domain?: LightningDomain,
+    node?: string
+  ): Promise<ToolResult> {
+    return this.execute(query, { domain, node }, () =>
+      this.queryProcessor.processQuery(query, domain, node)
+    );
+  }
+
+  /**
+   * Execute an intent built from typed tool arguments
+   * @param intent The intent to execute
+   * @param node Optional name of the node to query, or "all"
+   * @returns Promise resolving to the tool result
+   */
+  public async executeIntent(intent: EnhancedIntent, node?: string): Promise<ToolResult> {
+    return this.execute(
+      intent.query,
+      { domain: intent.domain, operation: intent.operation, node },
+      () => this.queryProcessor.processIntent(intent, node)
+    );
+  }
+
+  /**
+   * Execute a query with the query processor and convert its response to a tool result
+   * @param query The query, as logged
+   * @param context Parameters of the query to log with it
+   * @param process Function processing the query
+   * @returns Promise resolving to the tool result
+   * @private
+   */
+  private async execute(
+    query: string,
+    context: Record<string, unknown>,
+    process: () => Promise<QueryResponse>
+  ): Promise<ToolResult> {
     const requestId = crypto.randomUUID();
 
     try {
@@ -45,10 +90,11 @@ export class LightningMcpController {
         component: 'lightning-mcp-controller',
         requestId,
         query,
+        ...context,
       });
 
       // Process the query
-      const result = await this.queryProcessor.processQuery(query);
+      const result = await process();
 
       // Sanitize result data for logging
       const sanitizedData = sanitizeForLogging(result.data);
@@ -59,14 +105,35 @@ export class LightningMcpController {
         component: 'lightning-mcp-controller',
         intentDomain: result.intent.domain,
         intentOperation: result.intent.operation,
+        node: result.node,
         resultData: sanitizedData,
       });
 
+      // Queries the processor could not answer carry the error in their intent
+      if (result.intent.error) {
+        return {
+          content: [{ type: 'text', text: result.text }],
+          data: result.data as Record<string, unknown>,
+          isError: true,
+        };
+      }
+
+      // The formatted text is already the content, so structured content
+      // holds the result without it
+      const { formattedResults: _formattedResults, ...structuredResult } =
+        result.data as DomainQueryResult;
+
       // Return the result with markdown formatting
       return {
         content: [{ type: 'text', text: result.text }],
         // Using type assertion to ensure compatibility with Record<string, unknown>
         data: result.data as Record<string, unknown>,
+        structuredContent: {
+          domain: result.intent.domain,
+          operation: result.intent.operation,
+          node: result.node,
+          result: structuredResult,
+        },
         isError: false,
       };
     } catch (error) {
@@ -0,0 +1,268 @@
+/**
+ * Unit tests for McpHttpServer
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Server as McpSdkServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpAuthErrorCode, McpHttpServer } from './McpHttpServer';
+import { hashApiKey } from '../../core/auth/api-keys';
+import logger from '../../core/logging/logger';
+
+jest.mock('../../core/logging/logger');
+
+/**
+ * Create an MCP server with a single tool
+ */
+function createTestServer(): McpSdkServer {
+  const server = new McpSdkServer(
+    { name: 'test-server', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'queryChannels', inputSchema: { type: 'object' } }],
+  }));
+  return server;
+}
+
+/**
+ * Create an MCP server reporting the auth info its requests carry
+ */
+function createAuthInfoServer(): McpSdkServer {
+  const server = new McpSdkServer(
+    { name: 'test-server', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => ({
+    tools: [
+      {
+        name: `${extra.authInfo?.clientId}:${extra.authInfo?.scopes.join(',')}`,
+        inputSchema: { type: 'object' },
+      },
+    ],
+  }));
+  return server;
+}
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer;
+  let baseUrl: string;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    httpServer = new McpHttpServer(createTestServer, {
+      port: 0,
+      host: '127.0.0.1',
+    });
+    await httpServer.start();
+    baseUrl = `http://127.0.0.1:${httpServer.port}`;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await httpServer.stop();
+  });
+
+  /**
+   * Connect a client over the given transport
+   */
+  async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport) {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  async function getHealth() {
+    const response = await fetch(`${baseUrl}/health`);
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('should report health with the session count', async () => {
+    const health = await getHealth();
+
+    expect(health.status).toBe(200);
+    expect(health.body).toEqual({ status: 'ok', uptimeSeconds: expect.any(Number), sessions: 0 });
+  });
+
+  it('should serve a session over streamable HTTP', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const client = await connect(transport);
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['queryChannels']);
+    expect(transport.sessionId).toBeDefined();
+    expect((await getHealth()).body.sessions).toBe(1);
+  });
+
+  it('should keep sessions separate', async () => {
+    const first = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const second = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await connect(first);
+    await connect(second);
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+    expect((await getHealth()).body.sessions).toBe(2);
+  });
+
+  it('should end a session the client terminates', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await connect(transport);
+
+    await transport.terminateSession();
+
+    expect((await getHealth()).body.sessions).toBe(0);
+  });
+
+  it('should serve a session over the SSE fallback', async () => {
+    const client = await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['queryChannels']);
+    expect((await getHealth()).body.sessions).toBe(1);
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'unknown',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject requests without a session that do not initialize one', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should answer invalid JSON with a parse error', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{not json',
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should close open sessions when stopped', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await connect(transport);
+
+    await httpServer.stop();
+
+    expect(httpServer.port).toBeUndefined();
+    await expect(fetch(`${baseUrl}/health`)).rejects.toThrow();
+  });
+
+  describe('with API keys', () => {
+    const apiKey = 'dashboard-key';
+    let authServer: McpHttpServer;
+    let authUrl: string;
+
+    beforeEach(async () => {
+      authServer = new McpHttpServer(createAuthInfoServer, {
+        port: 0,
+        host: '127.0.0.1',
+        apiKeys: [
+          { name: 'dashboard', hash: hashApiKey(apiKey), scopes: ['channels:read'] },
+          { name: 'operator', hash: hashApiKey('operator-key'), scopes: ['admin'] },
+        ],
+      });
+      await authServer.start();
+      authUrl = `http://127.0.0.1:${authServer.port}`;
+    });
+
+    afterEach(async () => {
+      await Promise.all(clients.splice(0).map((client) => client.close()));
+      await authServer.stop();
+    });
+
+    function withHeaders(headers: Record<string, string>) {
+      return new StreamableHTTPClientTransport(new URL(`${authUrl}/mcp`), {
+        requestInit: { headers },
+      });
+    }
+
+    it('should pass the client of a bearer token to the handlers', async () => {
+      const client = await connect(withHeaders({ Authorization: `Bearer ${apiKey}` }));
+
+      const { tools } = await client.listTools();
+
+      expect(tools[0].name).toBe('dashboard:channels:read');
+    });
+
+    it('should accept the key in the X-API-Key header', async () => {
+      const client = await connect(withHeaders({ 'X-API-Key': 'operator-key' }));
+
+      const { tools } = await client.listTools();
+
+      expect(tools[0].name).toBe('operator:admin');
+    });
+
+    it('should reject requests without a valid key', async () => {
+      const rejectedHeaders: Record<string, string>[] = [{}, { Authorization: 'Bearer wrong-key' }];
+      for (const headers of rejectedHeaders) {
+        const response = await fetch(`${authUrl}/mcp`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+        });
+
+        expect(response.status).toBe(401);
+        expect(response.headers.get('www-authenticate')).toMatch(/^Bearer/);
+        expect((await response.json()).error.code).toBe(McpAuthErrorCode.Unauthorized);
+      }
+
+      // Rejected keys are never logged
+      expect(JSON.stringify((logger.warn as jest.Mock).mock.calls)).not.toContain('wrong-key');
+    });
+
+    it('should require a key for the SSE fallback', async () => {
+      const response = await fetch(`${authUrl}/sse`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should not serve sessions to other clients', async () => {
+      const transport = withHeaders({ Authorization: `Bearer ${apiKey}` });
+      await connect(transport);
+
+      const response = await fetch(`${authUrl}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          Authorization: 'Bearer operator-key',
+          'mcp-session-id': transport.sessionId as string,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should serve the health endpoint without a key', async () => {
+      const response = await fetch(`${authUrl}/health`);
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * @fileoverview HTTP transport for the MCP server.
+ *
+ * Serves MCP over streamable HTTP at `/mcp`, with the older HTTP+SSE
+ * transport at `/sse` and `/messages` as a fallback for clients that do not
+ * support it yet. Every client session gets its own MCP server and transport,
+ * so several agents can share one long-lived process. `/health` reports
+ * whether the server is up.
+ *
+ * When API keys are configured, every MCP request must present one as a
+ * bearer token or in the X-API-Key header. Sessions belong to the client
+ * that opened them, and the client's scopes are passed on to the tool
+ * handlers as the request's auth info.
+ */
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { AddressInfo } from 'net';
+import { Server as McpSdkServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../core/logging/logger';
+import { sanitizeError } from '../../core/errors/sanitize';
+import { ApiKeyConfig, findApiKey } from '../../core/auth/api-keys';
+
+/**
+ * Path of the streamable HTTP endpoint
+ */
+const MCP_PATH = '/mcp';
+
+/**
+ * Path clients of the HTTP+SSE transport open their event stream on
+ */
+const SSE_PATH = '/sse';
+
+/**
+ * Path clients of the HTTP+SSE transport post their messages to
+ */
+const SSE_MESSAGES_PATH = '/messages';
+
+/**
+ * Path of the health endpoint
+ */
+const HEALTH_PATH = '/health';
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Time open connections get to finish when the server stops
+ */
+const SHUTDOWN_GRACE_MS = 5000;
+
+/**
+ * JSON-RPC error codes of rejected requests, in the range reserved for
+ * implementation-defined server errors
+ */
+export enum McpAuthErrorCode {
+  /** No valid API key was presented */
+  Unauthorized = -32010,
+  /** The API key lacks the scope the request needs */
+  Forbidden = -32011,
+}
+
+/**
+ * Options of the HTTP transport
+ */
+export interface McpHttpServerOptions {
+  /** Port to listen on, 0 for a random port */
+  port: number;
+  /** Address to listen on */
+  host: string;
+  /** Time after which a session without requests is closed */
+  sessionTimeoutMs?: number;
+  /** Keys clients must authenticate with; no authentication if empty */
+  apiKeys?: ApiKeyConfig[];
+}
+
+/**
+ * Request carrying the auth info of its client, read by the SDK transports
+ */
+type AuthenticatedRequest = http.IncomingMessage & { auth?: AuthInfo };
+
+/**
+ * State of a client session
+ */
+interface McpSession {
+  id: string;
+  server: McpSdkServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Name of the client that opened the session, if clients authenticate */
+  clientId?: string;
+  createdAt: Date;
+  lastRequestAt: Date;
+}
+
+/**
+ * HTTP server serving MCP sessions
+ */
+export class McpHttpServer {
+  private httpServer?: http.Server;
+  private sessions = new Map<string, McpSession>();
+  private sweepTimer?: NodeJS.Timeout;
+  private readonly startedAt = new Date();
+
+  /**
+   * Create a new HTTP transport server
+   * @param createServer Creates the MCP server of a new session
+   * @param options Transport options
+   */
+  constructor(
+    private readonly createServer: () => McpSdkServer,
+    private readonly options: McpHttpServerOptions
+  ) {}
+
+  /**
+   * Port the server listens on, once started
+   */
+  get port(): number | undefined {
+    return (this.httpServer?.address() as AddressInfo | null)?.port;
+  }
+
+  /**
+   * Start listening
+   * @returns Promise that resolves once the server listens
+   */
+  async start(): Promise<void> {
+    const httpServer = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => {
+        if (error instanceof SyntaxError) {
+          this.sendJsonRpcError(response, 400, ErrorCode.ParseError, 'Parse error: invalid JSON');
+          return;
+        }
+
+        const sanitizedError = sanitizeError(error);
+        logger.error('Error handling MCP HTTP request', sanitizedError, {
+          component: 'mcp-http-server',
+          method: request.method,
+          path: request.url,
+        });
+
+        if (!response.headersSent) {
+          this.sendJsonRpcError(response, 500, ErrorCode.InternalError, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+
+    // Close sessions that clients abandoned without closing them
+    if (this.options.sessionTimeoutMs) {
+      const timeout = this.options.sessionTimeoutMs;
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(timeout), timeout / 2);
+      this.sweepTimer.unref();
+    }
+
+    logger.info(`MCP HTTP server listening on ${this.options.host}:${this.port}`, {
+      component: 'mcp-http-server',
+    });
+  }
+
+  /**
+   * Stop the server, closing all sessions and giving open requests time to finish
+   */
+  async stop(): Promise<void> {
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    clearInterval(this.sweepTimer);
+
+    // Closing a session's server also closes its transport and open streams
+    await Promise.all(Array.from(this.sessions.values()).map(({ server }) => server.close()));
+    this.sessions.clear();
+
+    if (!httpServer) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeIdleConnections();
+      setTimeout(() => httpServer.closeAllConnections(), SHUTDOWN_GRACE_MS).unref();
+    });
+
+    logger.info('MCP HTTP server stopped', { component: 'mcp-http-server' });
+  }
+
+  /**
+   * Route a request to its endpoint
+   * @private
+   */
+  private async handleRequest(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && request.method === 'GET') {
+      this.sendJson(response, 200, {
+        status: 'ok',
+        uptimeSeconds: Math.floor((Date.now() - this.startedAt.getTime()) / 1000),
+        sessions: this.sessions.size,
+      });
+      return;
+    }
+
+    const isMcpRequest =
+      url.pathname === MCP_PATH ||
+      (url.pathname === SSE_PATH && request.method === 'GET') ||
+      (url.pathname === SSE_MESSAGES_PATH && request.method === 'POST');
+    if (!isMcpRequest) {
+      this.sendJson(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!this.authenticate(request, response, url.pathname)) {
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamableHttpRequest(request, response);
+      return;
+    }
+
+    if (url.pathname === SSE_PATH) {
+      await this.openSseSession(request, response);
+      return;
+    }
+
+    const session = this.getSession(url.searchParams.get('sessionId'), request);
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      this.sendJsonRpcError(response, 404, ErrorCode.InvalidRequest, 'Session not found');
+      return;
+    }
+
+    await session.transport.handlePostMessage(request, response, await this.readBody(request));
+  }
+
+  /**
+   * Authenticate a request with its API key, if keys are configured, and
+   * attach the client's auth info to it
+   * @returns True if the request may proceed, false if it was rejected
+   * @private
+   */
+  private authenticate(
+    request: AuthenticatedRequest,
+    response: http.ServerResponse,
+    path: string
+  ): boolean {
+    const apiKeys = this.options.apiKeys;
+    if (!apiKeys?.length) {
+      return true;
+    }
+
+    const apiKey = this.getApiKey(request);
+    const client = apiKey ? findApiKey(apiKeys, apiKey) : undefined;
+
+    if (!apiKey || !client) {
+      // Never log the presented key, only whether there was one
+      logger.warn('Rejected unauthenticated MCP request', {
+        component: 'mcp-http-server',
+        method: request.method,
+        path,
+        reason: apiKey ? 'unknown-api-key' : 'missing-api-key',
+      });
+
+      response.setHeader(
+        'WWW-Authenticate',
+        apiKey ? 'Bearer error="invalid_token"' : 'Bearer realm="mcp"'
+      );
+      this.sendJsonRpcError(
+        response,
+        401,
+        McpAuthErrorCode.Unauthorized,
+        'Unauthorized: a valid API key is required'
+      );
+      return false;
+    }
+
+    request.auth = { token: apiKey, clientId: client.name, scopes: client.scopes };
+    return true;
+  }
+
+  /**
+   * Get the API key of a request from its bearer token or X-API-Key header
+   * @private
+   */
+  private getApiKey(request: http.IncomingMessage): string | undefined {
+    const bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization || '');
+    if (bearer) {
+      return bearer[1];
+    }
+
+    const apiKey = request.headers['x-api-key'];
+    return typeof apiKey === 'string' && apiKey ? apiKey : undefined;
+  }
+
+  /**
+   * Handle a request to the streamable HTTP endpoint, starting a session for
+   * initialize requests
+   * @private
+   */
+  private async handleStreamableHttpRequest(
+    request: AuthenticatedRequest,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const body = request.method === 'POST' ? await this.readBody(request) : undefined;
+    const sessionId = request.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = this.getSession(sessionId, request);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(response, 404, ErrorCode.InvalidRequest, 'Session not found');
+        return;
+      }
+
+      await session.transport.handleRequest(request, response, body);
+      return;
+    }
+
+    if (request.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(
+        response,
+        400,
+        ErrorCode.InvalidRequest,
+        'Bad Request: no valid session ID provided'
+      );
+      return;
+    }
+
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => this.addSession(id, server, transport, request.auth),
+    });
+    transport.onclose = () => this.removeSession(transport.sessionId);
+
+    await server.connect(transport);
+    await transport.handleRequest(request, response, body);
+  }
+
+  /**
+   * Open the event stream of an HTTP+SSE session
+   * @private
+   */
+  private async openSseSession(
+    request: AuthenticatedRequest,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, response);
+    transport.onclose = () => this.removeSession(transport.sessionId);
+
+    this.addSession(transport.sessionId, server, transport, request.auth);
+    await server.connect(transport);
+  }
+
+  /**
+   * Get a session of the request's client, recording the request
+   * @private
+   */
+  private getSession(id: string | null, request: AuthenticatedRequest): McpSession | undefined {
+    const session = id ? this.sessions.get(id) : undefined;
+
+    // Sessions of other clients are reported as not found
+    if (session?.clientId !== request.auth?.clientId) {
+      return undefined;
+    }
+
+    if (session) {
+      session.lastRequestAt = new Date();
+    }
+    return session;
+  }
+
+  /**
+   * @private
+   */
+  private addSession(
+    id: string,
+    server: McpSdkServer,
+    transport: McpSession['transport'],
+    auth?: AuthInfo
+  ): void {
+    const now = new Date();
+    const clientId = auth?.clientId;
+    this.sessions.set(id, { id, server, transport, clientId, createdAt: now, lastRequestAt: now });
+
+    logger.info('MCP session opened', {
+      component: 'mcp-http-server',
+      sessionId: id,
+      clientId,
+      transport: transport instanceof SSEServerTransport ? 'sse' : 'streamable-http',
+      sessions: this.sessions.size,
+    });
+  }
+
+  /**
+   * @private
+   */
+  private removeSession(id: string | undefined): void {
+    if (id && this.sessions.delete(id)) {
+      logger.info('MCP session closed', {
+        component: 'mcp-http-server',
+        sessionId: id,
+        sessions: this.sessions.size,
+      });
+    }
+  }
+
+  /**
+   * Close sessions without requests for longer than the timeout
+   * @private
+   */
+  private closeIdleSessions(timeoutMs: number): void {
+    const idleSince = Date.now() - timeoutMs;
+
+    this.sessions.forEach((session) => {
+      if (session.lastRequestAt.getTime() < idleSince) {
+        logger.info('Closing idle MCP session', {
+          component: 'mcp-http-server',
+          sessionId: session.id,
+        });
+        session.server.close().catch(() => this.removeSession(session.id));
+      }
+    });
+  }
+
+  /**
+   * Read and parse a JSON request body
+   * @throws SyntaxError if the body is not valid JSON
+   * @private
+   */
+  private readBody(request: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error('Request body too large'));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('error', reject);
+      request.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        try {
+          resolve(text ? JSON.parse(text) : undefined);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  /**
+   * @private
+   */
+  private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  /**
+   * @private
+   */
+  private sendJsonRpcError(
+    response: http.ServerResponse,
+    status: number,
+    code: ErrorCode | McpAuthErrorCode,
+    message: string
+  ): void {
+    this.sendJson(response, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+}
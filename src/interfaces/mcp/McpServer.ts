@@ -7,27 +7,64 @@
  * and a gateway pattern for accessing Lightning Network data.
  */
 
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 import { Server as McpSdkServer } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { McpAuthErrorCode, McpHttpServer } from './McpHttpServer';
 import { LightningNodeConnection } from '../../domain/node/LightningNodeConnection';
-import { Config } from '../../core/config/index';
+import { Config, NodeProfile } from '../../core/config/index';
 import {
-  NodeImplementation,
   ConnectionMethod,
   LndGrpcDetails,
   LndLncDetails,
+  LndRestDetails,
+  ClnRestDetails,
+  EclairHttpDetails,
   SupportedConnectionDetails,
 } from '../../domain/node/ConnectionAuth';
 import { ConnectionFactory } from '../../infrastructure/factories/ConnectionFactory';
 import logger from '../../core/logging/logger';
 import { sanitizeError } from '../../core/errors/sanitize';
-import { LightningMcpController } from './LightningMcpController';
+import { LightningMcpController, ToolResult } from './LightningMcpController';
+import {
+  AnyDomainToolOutputSchema,
+  ChannelToolOutputSchema,
+  NodeToolOutputSchema,
+  PaymentToolOutputSchema,
+  QueryToolOutputSchema,
+  toToolOutputJsonSchema,
+} from './QueryToolOutput';
 import { LightningQueryProcessor } from '../../application/processors/LightningQueryProcessor';
 import { IntentParserFactory } from '../../domain/intents/factories/IntentParserFactory';
 import { DomainHandlerRegistry } from '../../domain/handlers/DomainHandlerRegistry';
 import { ChannelDomainHandler } from '../../domain/handlers/ChannelDomainHandler';
-import { LightningNetworkGateway } from '../../domain/lightning/gateways/LightningNetworkGateway';
+import { PaymentDomainHandler } from '../../domain/handlers/PaymentDomainHandler';
+import { InvoiceDomainHandler } from '../../domain/handlers/InvoiceDomainHandler';
+import { ForwardDomainHandler } from '../../domain/handlers/ForwardDomainHandler';
+import { WalletDomainHandler } from '../../domain/handlers/WalletDomainHandler';
+import { TransactionDomainHandler } from '../../domain/handlers/TransactionDomainHandler';
+import { PeerDomainHandler } from '../../domain/handlers/PeerDomainHandler';
+import { NodeDomainHandler } from '../../domain/handlers/NodeDomainHandler';
+import {
+  createIntent,
+  EnhancedIntent,
+  LightningDomain,
+  LightningOperation,
+} from '../../domain/intents/entities/EnhancedIntent';
+import { ChannelListParamsSchema } from '../../domain/channels/schemas/channel-list';
+import { RebalancePlanParamsSchema } from '../../domain/channels/schemas/rebalance-plan';
+import { FeeRecommendationParamsSchema } from '../../domain/channels/schemas/fee-recommendation';
+import { ChannelCandidateParamsSchema } from '../../domain/nodes/schemas/channel-candidate';
+import { HealthCriteria } from '../../domain/channels/value-objects/HealthCriteria';
 import { LightningNetworkGatewayFactory } from '../../infrastructure/factories/LightningNetworkGatewayFactory';
+import { ALL_NODES, NodeRegistry, RegisteredNode } from '../../domain/node/NodeRegistry';
+import { SnapshotStore } from '../../domain/history/repositories/SnapshotStore';
+import { SnapshotScheduler } from '../../domain/history/services/SnapshotScheduler';
+import { JsonlSnapshotStore } from '../../infrastructure/history/JsonlSnapshotStore';
+import { IntentParserStrategy } from '../../domain/intents/strategies/IntentParserStrategy';
+import { ApiKeyScope, getDomainScopes, hasScope } from '../../core/auth/api-keys';
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
@@ -37,64 +74,168 @@ import {
   McpError,
   CallToolRequest,
   ReadResourceRequest,
+  Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
+/**
+ * Definition of a natural language query tool
+ */
+interface QueryToolDefinition {
+  /** Domain the tool is scoped to; unscoped tools detect the domain from the query */
+  domain?: LightningDomain;
+  title: string;
+  description: string;
+  queryDescription: string;
+  missingQueryMessage: string;
+  /** Schema of the tool's structured output */
+  outputSchema: QueryToolOutputSchema;
+}
+
+/**
+ * Natural language query tools exposed by the server, keyed by tool name
+ */
+const QUERY_TOOLS: Record<string, QueryToolDefinition> = {
+  queryChannels: {
+    title: 'Query Lightning Channels',
+    description: 'Query Lightning Network channels using natural language',
+    queryDescription: 'Natural language query about Lightning Network channels',
+    missingQueryMessage: 'Please provide a query about your Lightning Network channels.',
+    outputSchema: AnyDomainToolOutputSchema,
+  },
+  queryPayments: {
+    domain: 'payments',
+    title: 'Query Lightning Payments',
+    description:
+      'Query outgoing Lightning Network payments, failures and fees using natural language',
+    queryDescription: 'Natural language query about Lightning Network payments',
+    missingQueryMessage: 'Please provide a query about your Lightning Network payments.',
+    outputSchema: PaymentToolOutputSchema,
+  },
+};
+
+/**
+ * Definition of a tool taking typed arguments instead of a natural language query
+ */
+interface IntentToolDefinition {
+  /** Domain and operation of the intent the arguments are answered with */
+  domain: Exclude<LightningDomain, 'unknown'>;
+  operation: LightningOperation;
+  /** Scopes a client needs to call the tool: the read scope of every domain it reads */
+  scopes: ApiKeyScope[];
+  title: string;
+  description: string;
+  /** Schema of the tool's arguments besides the node, set as intent attributes */
+  inputSchema: z.ZodType<Record<string, unknown>, z.ZodTypeDef, unknown>;
+  /** Schema of the tool's structured output */
+  outputSchema: QueryToolOutputSchema;
+}
+
+/**
+ * Tools with typed arguments exposed by the server, keyed by tool name
+ */
+const INTENT_TOOLS: Record<string, IntentToolDefinition> = {
+  listChannels: {
+    domain: 'channels',
+    operation: 'list',
+    scopes: ['channels:read'],
+    title: 'List Lightning Channels',
+    description:
+      'List open Lightning Network channels, filtered by state, peer, capacity and local balance ratio, then sorted and paged',
+    inputSchema: ChannelListParamsSchema,
+    outputSchema: ChannelToolOutputSchema,
+  },
+  planRebalances: {
+    domain: 'channels',
+    operation: 'rebalance',
+    scopes: ['channels:read'],
+    title: 'Plan Channel Rebalances',
+    description:
+      "Propose circular rebalances from channels with too much local liquidity to channels with too little, ranked by the routing fee estimated from the peers' fee policies in ppm. Read-only: no payments are made.",
+    inputSchema: RebalancePlanParamsSchema,
+    outputSchema: ChannelToolOutputSchema,
+  },
+  recommendFees: {
+    domain: 'channels',
+    operation: 'recommend',
+    scopes: ['channels:read', 'forwards:read'],
+    title: 'Recommend Channel Fees',
+    description:
+      'Recommend a base fee and fee rate per channel from its local balance ratio, its forwarding volume in the last 7 days and the fees other nodes charge to reach its peer, each with the reasons. The strategy defaults to the configured one. Read-only: no fees are changed.',
+    inputSchema: FeeRecommendationParamsSchema,
+    outputSchema: ChannelToolOutputSchema,
+  },
+  recommendChannelCandidates: {
+    domain: 'nodes',
+    operation: 'recommend',
+    scopes: ['nodes:read', 'channels:read'],
+    title: 'Recommend Channel Candidates',
+    description:
+      'Recommend nodes of the network graph to open channels with, scored by capacity, channel count, centrality, fee competitiveness, uptime signals and distance from your current peers, each with the reasons. Read-only: no channels are opened.',
+    inputSchema: ChannelCandidateParamsSchema,
+    outputSchema: NodeToolOutputSchema,
+  },
+};
+
+/**
+ * Time after which an HTTP session without requests is closed
+ */
+const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * A node to serve, before its domain handlers are created
+ */
+type ServedNode = Omit<RegisteredNode, 'handlers'>;
+
 /**
  * MCP server for Lightning Network
  */
 export class McpServer {
-  private server: McpSdkServer;
-  private connection: LightningNodeConnection;
+  private nodes: NodeRegistry;
   private lightningController: LightningMcpController;
+  private intentParser: IntentParserStrategy;
+  private serverConfig: Config['server'];
+  private authConfig: Config['auth'];
+  /** Server of the stdio transport */
+  private stdioServer?: McpSdkServer;
+  /** Server of the HTTP transport, serving a session per client */
+  private httpServer?: McpHttpServer;
+  /** Scheduler of node snapshots, set when snapshots are enabled */
+  private snapshotScheduler?: SnapshotScheduler;
 
   /**
    * Initialize the MCP server
-   * @param connection Lightning Network node connection
-   * @param gateway Lightning Network gateway
+   * @param nodes The nodes to serve with their connection and gateway, starting
+   * with the default node
    * @param config Application configuration
    */
-  constructor(
-    connection: LightningNodeConnection,
-    gateway: LightningNetworkGateway,
-    config: Config
-  ) {
-    // Store the connection
-    this.connection = connection;
-
-    // Create the domain handler registry
-    const handlerRegistry = new DomainHandlerRegistry();
-
-    // Register domain handlers
-    const channelHandler = new ChannelDomainHandler(gateway);
-    handlerRegistry.register('channels', channelHandler);
-    handlerRegistry.registerDefault(channelHandler); // Use channel handler as default for now
+  constructor(nodes: ServedNode[], config: Config) {
+    // Snapshot the nodes on a schedule when a snapshot directory is configured
+    let snapshotStore: SnapshotStore | undefined;
+    if (config.history.directory) {
+      snapshotStore = new JsonlSnapshotStore(config.history.directory);
+      this.snapshotScheduler = new SnapshotScheduler(snapshotStore, nodes, config.history);
+    }
+
+    // Register each node with its own domain handlers
+    this.nodes = new NodeRegistry();
+    nodes.forEach((node) =>
+      this.nodes.register({
+        ...node,
+        handlers: createHandlerRegistry(node, config, snapshotStore),
+      })
+    );
 
     // Create the intent parser
-    const intentParser = IntentParserFactory.createParser(config);
+    this.intentParser = IntentParserFactory.createParser(config);
 
     // Create the query processor
-    const queryProcessor = new LightningQueryProcessor(intentParser, handlerRegistry);
+    const queryProcessor = new LightningQueryProcessor(this.intentParser, this.nodes);
 
     // Create the MCP controller
     this.lightningController = new LightningMcpController(queryProcessor);
 
-    // Create the MCP server with explicit capabilities and protocol version
-    this.server = new McpSdkServer(
-      {
-        name: 'lightning-mcp-server',
-        version: '1.0.0',
-        protocolVersion: '2025-03-26', // Latest protocol version
-      },
-      {
-        capabilities: {
-          resources: {}, // Indicate we support resources
-          tools: {}, // Indicate we support tools
-        },
-      }
-    );
-
-    // Register the queryChannels tool and resources
-    this.registerHandlers();
+    this.serverConfig = config.server;
+    this.authConfig = config.auth;
 
     logger.info('MCP server initialized');
   }
@@ -106,17 +247,20 @@ export class McpServer {
    */
   static async createFromConfig(config: Config): Promise<McpServer> {
     try {
-      // Create a connection based on the configuration
-      const connection = await createConnectionFromConfig(config);
+      const nodes: ServedNode[] = [];
 
-      // Create a gateway based on the connection
-      const gateway = LightningNetworkGatewayFactory.create(
-        connection,
-        NodeImplementation.LND // For now, only LND is supported
-      );
+      for (const profile of config.nodes) {
+        // Create a connection based on the node's configuration
+        const connection = await createConnectionFromConfig(profile);
+
+        // Create a gateway based on the connection
+        const gateway = LightningNetworkGatewayFactory.create(connection, profile.implementation);
+
+        nodes.push({ name: profile.name, connection, gateway });
+      }
 
       // Create the MCP server
-      return new McpServer(connection, gateway, config);
+      return new McpServer(nodes, config);
     } catch (error) {
       const sanitizedError = sanitizeError(error);
       logger.error('Failed to create MCP server from config', {
@@ -127,21 +271,40 @@ export class McpServer {
   }
 
   /**
-   * Register all MCP handlers for resources and tools
+   * Create an MCP server with the query tools and resources. Each transport
+   * session is served by its own MCP server.
+   * @returns The MCP server
    * @private
    */
-  private registerHandlers(): void {
-    this.registerResources();
-    this.registerTools();
+  private createSdkServer(): McpSdkServer {
+    // Create the MCP server with explicit capabilities
+    const server = new McpSdkServer(
+      {
+        name: 'lightning-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          resources: {}, // Indicate we support resources
+          tools: {}, // Indicate we support tools
+        },
+      }
+    );
+
+    // Register the query tools and resources
+    this.registerResources(server);
+    this.registerTools(server);
+
+    return server;
   }
 
   /**
    * Register resources for the MCP server
    * @private
    */
-  private registerResources(): void {
+  private registerResources(server: McpSdkServer): void {
     // Register resources/list handler
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       return {
         resources: [
           {
@@ -155,112 +318,213 @@ export class McpServer {
     });
 
     // Register resources/read handler
-    this.server.setRequestHandler(
-      ReadResourceRequestSchema,
-      async (request: ReadResourceRequest) => {
-        if (request.params.uri === 'lightning://docs') {
-          return {
-            contents: [
-              {
-                uri: request.params.uri,
-                text: `# Lightning MCP Server Documentation
+    server.setRequestHandler(ReadResourceRequestSchema, async (request: ReadResourceRequest) => {
+      if (request.params.uri === 'lightning://docs') {
+        return {
+          contents: [
+            {
+              uri: request.params.uri,
+              text: `# Lightning MCP Server Documentation
 
 ## Overview
 This server provides tools to query your Lightning Network node in natural language.
 
 ## Available Tools
 - **queryChannels**: Get information about your Lightning Network channels
+- **queryPayments**: Get information about your outgoing payments and the fees you paid
+- **listChannels**: List your open channels filtered by \`active\`, \`peer\` (public key or alias), \`minCapacity\`/\`maxCapacity\`, \`minLocalRatio\`/\`maxLocalRatio\`, \`minLocalBalance\`/\`maxLocalBalance\`, \`minRemoteBalance\`/\`maxRemoteBalance\` and \`minImbalance\`/\`maxImbalance\`, sorted with \`sortBy\`/\`sortOrder\` and paged with \`limit\`/\`offset\`
+- **planRebalances**: Propose circular rebalances between channels with too much and too little local liquidity, ranked by estimated fee in ppm. Takes optional \`minLocalRatio\`/\`maxLocalRatio\` health criteria, a \`maxFeePpm\` fee limit and a \`limit\` on the number of moves. Nothing is paid.
+- **recommendFees**: Recommend a base fee and fee rate for each channel, with the reasons, from its local balance ratio, recent forwarding volume and competitors' fees. Takes an optional \`strategy\` (\`balanced\`, \`drain-protecting\` or \`volume-seeking\`), \`peer\` and \`active\` filter. Nothing is changed.
+- **recommendChannelCandidates**: Recommend nodes to open channels with, scored from the network graph by capacity, channel count, centrality, fees, uptime signals and distance from your current peers, each with the reasons. Takes an optional \`limit\` (default 10), \`minChannels\` (default 5) and \`minCapacity\` in sats. Nothing is opened.
+
+## Nodes
+Every tool takes an optional \`node\` argument naming the node to query. Use \`all\` to query all nodes at once: channel results are merged and each channel is tagged with its node.
 
 ## Available Queries
 - "Show me my channels"
 - "Show me inactive channels"
+- "What is the health of my channels?"
+- "Which channels need rebalancing between 30% and 70% local?"
+- "Plan circular rebalances for my channels"
+- "What am I charging on my biggest channels?"
+- "Which channels are bigger than 5M sats with an imbalance worse than 80/20?"
+- "Recommend fees to protect my outbound liquidity"
+- "How has my outbound liquidity changed over the last month?"
 - "Show channels with Bitrefill only"
+- "What channels are still opening?"
+- "When will my force-closed funds be spendable?"
+- "Which channels were force closed by peers?"
+- "Show my closed channels by type"
+- "What did I pay this week?"
+- "Show failed payments"
+- "Total fees paid"
+- "Which invoices are still unpaid?"
+- "How much did I receive yesterday?"
+- "Show payments between March 1 and March 5"
+- "How much did I earn from routing this week?"
+- "Which channels are idle?"
+- "How much is confirmed vs unconfirmed in my wallet?"
+- "List my UTXOs over 1M sats"
+- "Show my last 10 on-chain transactions"
+- "Which peers do I have no channel with?"
+- "Which channel partners are disconnected?"
+- "Tell me about node ACINQ"
+- "Who should I open a channel with?"
 
 These queries will return both human-readable descriptions and structured JSON data.
 `,
-                mimeType: 'text/markdown',
-              },
-            ],
-          };
-        }
-
-        // Handle unknown resources with proper error
-        throw new McpError(
-          -32601, // METHOD_NOT_FOUND
-          `Resource not found: ${request.params.uri}`,
-          {
-            metadata: {
-              attemptedUri: request.params.uri,
-              availableResources: ['lightning://docs'],
+              mimeType: 'text/markdown',
             },
-          }
-        );
+          ],
+        };
       }
-    );
+
+      // Handle unknown resources with proper error
+      throw new McpError(
+        -32601, // METHOD_NOT_FOUND
+        `Resource not found: ${request.params.uri}`,
+        {
+          metadata: {
+            attemptedUri: request.params.uri,
+            availableResources: ['lightning://docs'],
+          },
+        }
+      );
+    });
   }
 
   /**
    * Register Lightning tools with the MCP server
    * @private
    */
-  private registerTools(): void {
+  private registerTools(server: McpSdkServer): void {
     // Register tools/list handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const nodeNames = this.nodes.getNames();
+      const nodeProperty = {
+        type: 'string',
+        enum: [...nodeNames, ALL_NODES],
+        description: `Node to query, or "${ALL_NODES}" to query all nodes at once. Defaults to ${nodeNames[0]}.`,
+      };
+      const annotations = {
+        readOnlyHint: true, // This is a read-only operation
+        openWorldHint: false, // Operates on a closed world (just the node's data)
+      };
+
       return {
         tools: [
-          {
-            name: 'queryChannels',
-            description: 'Query Lightning Network channels using natural language',
+          ...Object.entries(QUERY_TOOLS).map(([name, tool]) => ({
+            name,
+            description: tool.description,
             inputSchema: {
-              type: 'object',
+              type: 'object' as const,
               properties: {
                 query: {
                   type: 'string',
-                  description: 'Natural language query about Lightning Network channels',
+                  description: tool.queryDescription,
                 },
+                node: nodeProperty,
               },
               required: ['query'],
             },
-            annotations: {
-              title: 'Query Lightning Channels',
-              readOnlyHint: true, // This is a read-only operation
-              openWorldHint: false, // Operates on a closed world (just the channels)
-            },
-          },
+            outputSchema: toToolOutputJsonSchema(tool.outputSchema),
+            annotations: { title: tool.title, ...annotations },
+          })),
+          ...Object.entries(INTENT_TOOLS).map(([name, tool]) => ({
+            name,
+            description: tool.description,
+            inputSchema: toToolInputJsonSchema(tool.inputSchema, { node: nodeProperty }),
+            outputSchema: toToolOutputJsonSchema(tool.outputSchema),
+            annotations: { title: tool.title, ...annotations },
+          })),
         ],
       };
     });
 
     // Register tools/call handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
+      // Clients without the scope of the queried domain are rejected with an
+      // MCP error rather than a tool result
+      this.authorizeToolCall(request, extra.authInfo);
+
       try {
         // Validate tool name
-        if (request.params.name !== 'queryChannels') {
+        const queryTool = findTool(QUERY_TOOLS, request.params.name);
+        const intentTool = findTool(INTENT_TOOLS, request.params.name);
+        const tool = queryTool || intentTool;
+        if (!tool) {
           throw new McpError(ErrorCode.MethodNotFound, `Unsupported tool: ${request.params.name}`);
         }
 
-        // Get query from arguments
-        const query = request.params.arguments?.query;
+        // Get query and node from arguments
+        const { node, ...args } = request.params.arguments || {};
+        const query = args.query;
+
+        // Validate query parameter of natural language query tools
+        if (queryTool && (!query || typeof query !== 'string')) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: queryTool.missingQueryMessage,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        // Validate query parameter
-        if (!query || typeof query !== 'string') {
+        // Validate node parameter
+        if (
+          node !== undefined &&
+          (typeof node !== 'string' ||
+            (node !== ALL_NODES && !this.nodes.getNames().includes(node)))
+        ) {
           return {
             content: [
               {
                 type: 'text',
-                text: 'Please provide a query about your Lightning Network channels.',
+                text: `Unknown node: ${String(node)}. Available nodes: ${[
+                  ...this.nodes.getNames(),
+                  ALL_NODES,
+                ].join(', ')}`,
               },
             ],
             isError: true,
           };
         }
 
-        // Use existing controller with validated parameter
-        const result = await this.lightningController.executeQuery(query);
+        // Use existing controller with validated parameters
+        const result = intentTool
+          ? await this.executeIntentTool(request.params.name, intentTool, args, node)
+          : await this.lightningController.executeQuery(String(query), queryTool?.domain, node);
+        if (result.isError) {
+          return {
+            content: result.content,
+            isError: true,
+          };
+        }
+
+        // Validate the structured content against the published output schema
+        const output = tool.outputSchema.safeParse(result.structuredContent);
+        if (!output.success) {
+          logger.error('Tool result does not match its output schema', {
+            component: 'mcp-server',
+            tool: request.params.name,
+            issues: output.error.issues.map(({ path, message }) => ({
+              path: path.join('.'),
+              message,
+            })),
+          });
+          return {
+            content: result.content,
+            isError: true,
+          };
+        }
 
         return {
           content: result.content,
-          isError: result.isError,
+          structuredContent: output.data,
+          isError: false,
         };
       } catch (error) {
         logger.error('Tool execution failed', sanitizeError(error));
@@ -276,13 +540,143 @@ These queries will return both human-readable descriptions and structured JSON d
   }
 
   /**
-   * Start the MCP server
+   * Validate the arguments of a tool with typed arguments and execute the
+   * intent they describe
+   * @param name Name of the tool
+   * @param tool The tool's definition
+   * @param args The tool's arguments besides the node
+   * @param node Name of the node to query, or "all"
+   * @returns Promise resolving to the tool result
+   * @private
+   */
+  private async executeIntentTool(
+    name: string,
+    tool: IntentToolDefinition,
+    args: Record<string, unknown>,
+    node?: string
+  ): Promise<ToolResult> {
+    const params = tool.inputSchema.safeParse(args);
+    if (!params.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Invalid arguments for ${name}: ${params.error.issues
+              .map(({ path, message }) => (path.length ? `${path.join('.')}: ${message}` : message))
+              .join('; ')}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // The tool call stands in for the query in logs and error responses
+    const intent = createIntent(
+      tool.domain,
+      tool.operation,
+      `${name} ${JSON.stringify(params.data)}`,
+      new Map(Object.entries(params.data))
+    );
+
+    return this.lightningController.executeIntent(intent, node);
+  }
+
+  /**
+   * Check that the client of a tool call may read every domain the call
+   * reads. Tool calls without auth info come from transports without
+   * authentication.
+   * @param request The tool call
+   * @param authInfo The client's auth info, if it authenticated
+   * @throws McpError if the client lacks one of the scopes of the call
+   * @private
+   */
+  private authorizeToolCall(request: CallToolRequest, authInfo?: AuthInfo): void {
+    if (!authInfo) {
+      return;
+    }
+
+    // Tools with typed arguments declare their scopes
+    const scopes =
+      findTool(INTENT_TOOLS, request.params.name)?.scopes || this.getQueryScopes(request);
+    const scope = scopes.find((required) => !hasScope(authInfo.scopes, required));
+
+    if (scope) {
+      logger.warn('Rejected tool call without the required scope', {
+        component: 'mcp-server',
+        clientId: authInfo.clientId,
+        tool: request.params.name,
+        scope,
+      });
+      throw new McpError(
+        McpAuthErrorCode.Forbidden,
+        `Forbidden: client ${authInfo.clientId} lacks the ${scope} scope`,
+        { requiredScope: scope }
+      );
+    }
+  }
+
+  /**
+   * Get the scopes a natural language query tool call needs
+   * @param request The tool call
+   * @returns The scopes, empty if the call is not a valid query tool call
+   * @private
+   */
+  private getQueryScopes(request: CallToolRequest): ApiKeyScope[] {
+    const tool = findTool(QUERY_TOOLS, request.params.name);
+    const query = request.params.arguments?.query;
+    if (!tool || !query || typeof query !== 'string') {
+      return [];
+    }
+
+    let intent: EnhancedIntent;
+    try {
+      intent = this.intentParser.parseIntent(query);
+    } catch {
+      // Queries that fail to parse are answered with the error, reading no data
+      return [];
+    }
+
+    // Unscoped tools answer the domain detected from the query; queries
+    // without a detected domain fall back to the channel handler
+    const domain = tool.domain || intent.domain;
+    if (domain === 'unknown') {
+      return getDomainScopes('channels');
+    }
+
+    // Queries answered like a tool with typed arguments read what the tool reads
+    const intentTool = Object.values(INTENT_TOOLS).find(
+      (candidate) => candidate.domain === domain && candidate.operation === intent.operation
+    );
+    return intentTool?.scopes || getDomainScopes(domain);
+  }
+
+  /**
+   * Start the MCP server on the configured transport
    */
   async start(): Promise<void> {
     try {
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      logger.info('MCP server started successfully');
+      if (this.serverConfig.transport === 'http') {
+        this.httpServer = new McpHttpServer(() => this.createSdkServer(), {
+          port: this.serverConfig.port,
+          host: this.serverConfig.host,
+          sessionTimeoutMs: SESSION_TIMEOUT_MS,
+          apiKeys: this.authConfig.apiKeys,
+        });
+        await this.httpServer.start();
+
+        if (this.authConfig.apiKeys.length === 0) {
+          logger.warn(
+            'MCP HTTP server accepts unauthenticated requests; set MCP_API_KEYS_PATH to require API keys'
+          );
+        }
+      } else {
+        this.stdioServer = this.createSdkServer();
+        await this.stdioServer.connect(new StdioServerTransport());
+      }
+
+      this.snapshotScheduler?.start();
+
+      logger.info('MCP server started successfully', { transport: this.serverConfig.transport });
     } catch (error) {
       const sanitizedError = sanitizeError(error);
       logger.error('Failed to start MCP server', { error: { message: sanitizedError.message } });
@@ -291,14 +685,16 @@ These queries will return both human-readable descriptions and structured JSON d
   }
 
   /**
-   * Stop the MCP server
+   * Stop the MCP server, closing all sessions and node connections
    */
   async stop(): Promise<void> {
     try {
-      await this.server.close();
+      await this.stdioServer?.close();
+      await this.httpServer?.stop();
+      await this.snapshotScheduler?.stop();
 
-      // Close the connection
-      this.connection.close();
+      // Close the connection of every node
+      this.nodes.getNodes().forEach(({ connection }) => connection.close());
 
       logger.info('MCP server stopped');
     } catch (error) {
@@ -309,40 +705,112 @@ These queries will return both human-readable descriptions and structured JSON d
 }
 
 /**
- * Create a connection from configuration
- * @param config Application configuration
+ * Find a tool by name
+ * @param tools The tools, keyed by name
+ * @param name Name of the tool
+ * @returns The tool, or undefined if there is none with the name
+ * @private
+ */
+function findTool<T>(tools: Record<string, T>, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(tools, name) ? tools[name] : undefined;
+}
+
+/**
+ * Convert the schema of a tool's arguments to the JSON Schema published in tools/list
+ * @param schema Schema of the arguments
+ * @param properties Additional properties of the arguments, e.g. the node
+ * @returns The JSON Schema of the arguments
+ * @private
+ */
+function toToolInputJsonSchema(
+  schema: z.ZodTypeAny,
+  properties: Record<string, object>
+): Tool['inputSchema'] {
+  const { $schema: _schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+  }) as Record<string, unknown> & { properties?: Record<string, object> };
+
+  return {
+    ...jsonSchema,
+    type: 'object',
+    properties: { ...jsonSchema.properties, ...properties },
+  };
+}
+
+/**
+ * Create a connection from a node's configuration
+ * @param node Profile of the node
  * @returns Promise resolving to a Lightning Network connection
  * @private
  */
-async function createConnectionFromConfig(config: Config): Promise<LightningNodeConnection> {
+async function createConnectionFromConfig(node: NodeProfile): Promise<LightningNodeConnection> {
   try {
     // Create connection details based on connection method
     let connectionDetails: SupportedConnectionDetails;
 
-    if (config.node.connectionMethod === ConnectionMethod.GRPC) {
+    if (node.connectionMethod === ConnectionMethod.GRPC) {
       connectionDetails = {
         method: ConnectionMethod.GRPC,
-        host: config.node.lnd.host,
-        port: config.node.lnd.port,
-        tlsCertPath: config.node.lnd.tlsCertPath,
-        macaroonPath: config.node.lnd.macaroonPath,
+        host: node.lnd.host,
+        port: node.lnd.port,
+        tlsCertPath: node.lnd.tlsCertPath,
+        macaroonPath: node.lnd.macaroonPath,
       } as LndGrpcDetails;
-    } else if (config.node.connectionMethod === ConnectionMethod.LNC) {
-      if (!config.node.lnc || !config.node.lnc.connectionString) {
+    } else if (node.connectionMethod === ConnectionMethod.LNC) {
+      if (!node.lnc || !node.lnc.connectionString) {
         throw new Error('Missing LNC connection string in configuration');
       }
 
       connectionDetails = {
         method: ConnectionMethod.LNC,
-        connectionString: config.node.lnc.connectionString,
-        pairingPhrase: config.node.lnc.pairingPhrase,
+        connectionString: node.lnc.connectionString,
+        pairingPhrase: node.lnc.pairingPhrase,
+        credentialsPath: node.lnc.credentialsPath,
+        nodeName: node.name,
       } as LndLncDetails;
+    } else if (node.connectionMethod === ConnectionMethod.REST) {
+      if (
+        !node.lndRest ||
+        !node.lndRest.url ||
+        (!node.lndRest.macaroonPath && !node.lndRest.macaroonHex)
+      ) {
+        throw new Error('Missing LND REST URL or macaroon in configuration');
+      }
+
+      connectionDetails = {
+        method: ConnectionMethod.REST,
+        url: node.lndRest.url,
+        macaroonPath: node.lndRest.macaroonPath,
+        macaroonHex: node.lndRest.macaroonHex,
+        tlsCertPath: node.lndRest.tlsCertPath,
+      } as LndRestDetails;
+    } else if (node.connectionMethod === ConnectionMethod.CLN_REST) {
+      if (!node.cln || !node.cln.restUrl || !node.cln.rune) {
+        throw new Error('Missing clnrest URL or rune in configuration');
+      }
+
+      connectionDetails = {
+        method: ConnectionMethod.CLN_REST,
+        url: node.cln.restUrl,
+        rune: node.cln.rune,
+        caCertPath: node.cln.caCertPath,
+      } as ClnRestDetails;
+    } else if (node.connectionMethod === ConnectionMethod.ECLAIR_HTTP) {
+      if (!node.eclair || !node.eclair.apiUrl || !node.eclair.password) {
+        throw new Error('Missing Eclair API URL or password in configuration');
+      }
+
+      connectionDetails = {
+        method: ConnectionMethod.ECLAIR_HTTP,
+        url: node.eclair.apiUrl,
+        password: node.eclair.password,
+      } as EclairHttpDetails;
     } else {
-      throw new Error(`Unsupported connection method: ${config.node.connectionMethod}`);
+      throw new Error(`Unsupported connection method: ${node.connectionMethod}`);
     }
 
     // Create the connection using the factory
-    return ConnectionFactory.createConnection(config.node.implementation, connectionDetails);
+    return ConnectionFactory.createConnection(node.implementation, connectionDetails);
   } catch (error) {
     const sanitizedError = sanitizeError(error);
     logger.error('Failed to create connection from config', {
@@ -351,3 +819,38 @@ async function createConnectionFromConfig(config: Config): Promise<LightningNode
     throw sanitizedError;
   }
 }
+
+/**
+ * Create the domain handlers of a node
+ * @param node The node with its name and Lightning Network gateway
+ * @param config Application configuration
+ * @param snapshotStore Store of node snapshots, unless snapshots are disabled
+ * @returns Registry of the node's domain handlers
+ * @private
+ */
+function createHandlerRegistry(
+  { name, gateway }: ServedNode,
+  config: Config,
+  snapshotStore?: SnapshotStore
+): DomainHandlerRegistry {
+  const handlerRegistry = new DomainHandlerRegistry();
+
+  // Register domain handlers
+  const channelHandler = new ChannelDomainHandler(
+    gateway,
+    HealthCriteria.create(config.channels.health),
+    config.channels.fees.strategy,
+    snapshotStore && { store: snapshotStore, node: name }
+  );
+  handlerRegistry.register('channels', channelHandler);
+  handlerRegistry.registerDefault(channelHandler); // Use channel handler as default for now
+  handlerRegistry.register('payments', new PaymentDomainHandler(gateway));
+  handlerRegistry.register('invoices', new InvoiceDomainHandler(gateway));
+  handlerRegistry.register('forwards', new ForwardDomainHandler(gateway));
+  handlerRegistry.register('wallet', new WalletDomainHandler(gateway));
+  handlerRegistry.register('transactions', new TransactionDomainHandler(gateway));
+  handlerRegistry.register('peers', new PeerDomainHandler(gateway));
+  handlerRegistry.register('nodes', new NodeDomainHandler(gateway));
+
+  return handlerRegistry;
+}
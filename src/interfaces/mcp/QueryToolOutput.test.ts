@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the structured output of the query tools
+ */
+
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import { JsonSchemaType } from '@modelcontextprotocol/sdk/validation/types.js';
+import {
+  AnyDomainToolOutputSchema,
+  PaymentToolOutputSchema,
+  toToolOutputJsonSchema,
+} from './QueryToolOutput';
+
+describe('QueryToolOutput', () => {
+  const channelOutput = {
+    domain: 'channels',
+    operation: 'list',
+    node: 'default',
+    result: {
+      channels: [
+        {
+          capacity: 1000000,
+          local_balance: 400000,
+          remote_balance: 600000,
+          active: true,
+          remote_pubkey: '02abc',
+          channel_point: 'txid:0',
+          remote_alias: 'Peer',
+          // Fields outside the schema are dropped from the output
+          private_note: 'not published',
+        },
+      ],
+      summary: {
+        totalCapacity: 1000000,
+        totalLocalBalance: 400000,
+        totalRemoteBalance: 600000,
+        activeChannels: 1,
+        inactiveChannels: 0,
+        averageCapacity: 1000000,
+      },
+    },
+  };
+
+  const paymentOutput = {
+    domain: 'payments',
+    operation: 'summary',
+    result: {
+      payments: [
+        {
+          id: 'hash',
+          destination: '03def',
+          tokens: 50000,
+          fee: 5,
+          status: 'succeeded',
+          created_at: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      summary: {
+        totalPayments: 1,
+        totalSent: 50000,
+        totalFees: 5,
+        averageFeePpm: 100,
+        status: 'succeeded',
+      },
+    },
+  };
+
+  describe('output schemas', () => {
+    it('should validate channel results and drop unpublished fields', () => {
+      const output = AnyDomainToolOutputSchema.parse(channelOutput);
+
+      expect(output.result).toEqual({
+        ...channelOutput.result,
+        channels: [expect.not.objectContaining({ private_note: expect.anything() })],
+      });
+    });
+
+    it('should reject results that do not match their domain', () => {
+      const output = AnyDomainToolOutputSchema.safeParse({
+        ...channelOutput,
+        result: paymentOutput.result,
+      });
+
+      expect(output.success).toBe(false);
+    });
+
+    it('should validate the results of every domain', () => {
+      const walletResult = {
+        balance: { confirmed_balance: 1000, unconfirmed_balance: 0 },
+        utxos: [],
+        summary: {
+          confirmedBalance: 1000,
+          unconfirmedBalance: 0,
+          totalBalance: 1000,
+          utxoCount: 0,
+          utxoTotal: 0,
+        },
+      };
+
+      expect(
+        AnyDomainToolOutputSchema.safeParse({
+          domain: 'wallet',
+          operation: 'balance',
+          node: 'all',
+          result: { nodes: { alpha: walletResult, beta: walletResult } },
+        }).success
+      ).toBe(true);
+      expect(
+        AnyDomainToolOutputSchema.safeParse({
+          domain: 'wallet',
+          operation: 'balance',
+          result: { balance: { confirmed: 1000 } },
+        }).success
+      ).toBe(false);
+      expect(
+        AnyDomainToolOutputSchema.safeParse({
+          domain: 'peers',
+          operation: 'list',
+          result: walletResult,
+        }).success
+      ).toBe(false);
+    });
+
+    it('should only accept payment results from payment tools', () => {
+      expect(PaymentToolOutputSchema.safeParse(paymentOutput).success).toBe(true);
+      expect(PaymentToolOutputSchema.safeParse(channelOutput).success).toBe(false);
+    });
+  });
+
+  describe('toToolOutputJsonSchema', () => {
+    const validator = new AjvJsonSchemaValidator();
+
+    it('should publish an object schema', () => {
+      const jsonSchema = toToolOutputJsonSchema(AnyDomainToolOutputSchema);
+
+      expect(jsonSchema?.type).toBe('object');
+      expect(jsonSchema).not.toHaveProperty('$schema');
+    });
+
+    it('should accept the validated output as clients check it', () => {
+      const jsonSchema = toToolOutputJsonSchema(AnyDomainToolOutputSchema) as JsonSchemaType;
+      const validate = validator.getValidator(jsonSchema);
+
+      expect(validate(AnyDomainToolOutputSchema.parse(channelOutput)).valid).toBe(true);
+      expect(validate(AnyDomainToolOutputSchema.parse(paymentOutput)).valid).toBe(true);
+      expect(validate({ ...channelOutput, result: paymentOutput.result }).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Structured output of the query tools.
+ *
+ * Query tools return their result as structured content next to the text
+ * answer, so agents can read typed channel and summary data instead of
+ * parsing prose. The structured content names the domain and operation the
+ * query was answered with, and holds the domain handler's result without its
+ * formatted text. Each tool publishes the zod schema of its output as JSON
+ * Schema, and results are validated against it before they are sent.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ChannelDomainResultSchema } from '../../domain/channels/schemas/channel-response';
+import { PaymentQueryResultSchema } from '../../domain/payments/schemas/payment';
+import { NodeQueryResultSchema } from '../../domain/nodes/schemas/node-response';
+import { TransactionQueryResultSchema } from '../../domain/transactions/schemas/transaction';
+import { WalletQueryResultSchema } from '../../domain/wallet/schemas/wallet';
+import { InvoiceQueryResultSchema } from '../../domain/invoices/schemas/invoice';
+import { ForwardQueryResultSchema } from '../../domain/forwards/schemas/forward';
+import { PeerQueryResultSchema } from '../../domain/peers/schemas/peer';
+
+/**
+ * Create the schema of a domain's result that is either the result of one
+ * node or the results of several nodes listed per node
+ * @param resultSchema Schema of the domain handler's result
+ * @returns The schema of the result of one or several nodes
+ */
+function createNodeResultsSchema<TResult extends z.ZodTypeAny>(resultSchema: TResult) {
+  return z.union([resultSchema, z.object({ nodes: z.record(z.string(), resultSchema) })]);
+}
+
+/**
+ * Create the schema of a query tool's output for a domain
+ * @param domain Schema of the domain names the output is for
+ * @param resultSchema Schema of the domain handler's result
+ * @returns The output schema
+ */
+function createDomainOutputSchema<
+  TDomain extends z.ZodLiteral<string>,
+  TResult extends z.ZodTypeAny
+>(domain: TDomain, resultSchema: TResult) {
+  return z.object({
+    domain,
+    operation: z.string(),
+    /** Name of the queried node, or "all" */
+    node: z.string().optional(),
+    result: resultSchema,
+  });
+}
+
+/**
+ * Output of queries answered with channel data
+ */
+const ChannelOutputSchema = createDomainOutputSchema(
+  z.literal('channels'),
+  ChannelDomainResultSchema
+);
+
+/**
+ * Output of queries answered with payment data. Payments of several nodes
+ * are listed per node.
+ */
+const PaymentOutputSchema = createDomainOutputSchema(
+  z.literal('payments'),
+  createNodeResultsSchema(PaymentQueryResultSchema)
+);
+
+/**
+ * Output of queries answered with graph node data. Results of several
+ * nodes are listed per node.
+ */
+const NodeOutputSchema = createDomainOutputSchema(
+  z.literal('nodes'),
+  createNodeResultsSchema(NodeQueryResultSchema)
+);
+
+/**
+ * Output of queries answered with on-chain transaction data. Transactions
+ * of several nodes are listed per node.
+ */
+const TransactionOutputSchema = createDomainOutputSchema(
+  z.literal('transactions'),
+  createNodeResultsSchema(TransactionQueryResultSchema)
+);
+
+/**
+ * Output of queries answered with on-chain wallet data. Wallets of several
+ * nodes are listed per node.
+ */
+const WalletOutputSchema = createDomainOutputSchema(
+  z.literal('wallet'),
+  createNodeResultsSchema(WalletQueryResultSchema)
+);
+
+/**
+ * Output of queries answered with invoice data. Invoices of several nodes
+ * are listed per node.
+ */
+const InvoiceOutputSchema = createDomainOutputSchema(
+  z.literal('invoices'),
+  createNodeResultsSchema(InvoiceQueryResultSchema)
+);
+
+/**
+ * Output of queries answered with forwarding data. Forwards of several
+ * nodes are listed per node.
+ */
+const ForwardOutputSchema = createDomainOutputSchema(
+  z.literal('forwards'),
+  createNodeResultsSchema(ForwardQueryResultSchema)
+);
+
+/**
+ * Output of queries answered with peer data. Peers of several nodes are
+ * listed per node.
+ */
+const PeerOutputSchema = createDomainOutputSchema(
+  z.literal('peers'),
+  createNodeResultsSchema(PeerQueryResultSchema)
+);
+
+/**
+ * Output of tools that answer queries about any domain
+ */
+export const AnyDomainToolOutputSchema = z.discriminatedUnion('domain', [
+  ChannelOutputSchema,
+  PaymentOutputSchema,
+  NodeOutputSchema,
+  TransactionOutputSchema,
+  WalletOutputSchema,
+  InvoiceOutputSchema,
+  ForwardOutputSchema,
+  PeerOutputSchema,
+]);
+
+/**
+ * Output of tools scoped to channels
+ */
+export const ChannelToolOutputSchema = ChannelOutputSchema;
+
+/**
+ * Output of tools scoped to payments
+ */
+export const PaymentToolOutputSchema = PaymentOutputSchema;
+
+/**
+ * Output of tools scoped to graph nodes
+ */
+export const NodeToolOutputSchema = NodeOutputSchema;
+
+/**
+ * Schema of a query tool's output
+ */
+export type QueryToolOutputSchema =
+  | typeof AnyDomainToolOutputSchema
+  | typeof ChannelToolOutputSchema
+  | typeof PaymentToolOutputSchema
+  | typeof NodeToolOutputSchema;
+
+/**
+ * Convert a tool's output schema to the JSON Schema published in tools/list
+ * @param schema The output schema
+ * @returns The JSON Schema, an object schema as MCP requires
+ */
+export function toToolOutputJsonSchema(schema: QueryToolOutputSchema): Tool['outputSchema'] {
+  const { $schema: _schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+  }) as Record<string, unknown>;
+
+  // Unions of objects convert to anyOf, which MCP still requires to be typed as an object
+  return { ...jsonSchema, type: 'object' };
+}
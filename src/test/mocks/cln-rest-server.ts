@@ -0,0 +1,83 @@
+/**
+ * Fake clnrest server for testing the CLN adapter and gateway.
+ * Serves canned RPC results over HTTP on a random local port.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Handler returning the result of an RPC method for the given parameters
+ */
+export type FakeClnMethod = (params: Record<string, unknown>) => unknown;
+
+/**
+ * A running fake clnrest server
+ */
+export interface FakeClnRestServer {
+  /** Base URL of the server */
+  url: string;
+  /** RPC calls received by the server, in order */
+  calls: Array<{ method: string; params: Record<string, unknown> }>;
+  /** Stop the server */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a fake clnrest server
+ * @param rune The rune the server accepts
+ * @param methods RPC method handlers by method name
+ * @returns Promise resolving to the running server
+ */
+export async function startFakeClnRestServer(
+  rune: string,
+  methods: Record<string, FakeClnMethod>
+): Promise<FakeClnRestServer> {
+  const calls: FakeClnRestServer['calls'] = [];
+
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const method = (request.url || '').replace(/^\/v1\//, '');
+      const body = Buffer.concat(chunks).toString('utf8');
+      const params = body ? JSON.parse(body) : {};
+
+      const respond = (status: number, payload: unknown): void => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(payload));
+      };
+
+      if (request.method !== 'POST' || request.headers.rune !== rune) {
+        respond(401, { code: 1501, message: 'Not authorized: Not a valid rune' });
+        return;
+      }
+
+      calls.push({ method, params });
+
+      const handler = methods[method];
+      if (!handler) {
+        respond(500, { code: -32601, message: `Unknown command '${method}'` });
+        return;
+      }
+
+      // clnrest answers successful RPC calls with 201 Created
+      respond(201, handler(params));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Keep-alive connections would otherwise hold the server open
+        server.closeAllConnections();
+      }),
+  };
+}
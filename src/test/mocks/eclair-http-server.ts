@@ -0,0 +1,115 @@
+/**
+ * Eclair HTTP API stub for testing the Eclair adapter and gateway.
+ * Replays recorded API responses over HTTP on a random local port.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+/**
+ * Directory holding the recorded Eclair responses, one `<method>.json` per API method
+ */
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'eclair');
+
+/**
+ * Response of an API method: a recorded result, or a handler returning the
+ * result for the given parameters. Handlers return undefined for not found.
+ */
+export type EclairStubResponse = unknown | ((params: Record<string, string>) => unknown);
+
+/**
+ * A running Eclair HTTP API stub
+ */
+export interface EclairHttpStub {
+  /** Base URL of the stub */
+  url: string;
+  /** API calls received by the stub, in order */
+  calls: Array<{ method: string; params: Record<string, string> }>;
+  /** Stop the stub */
+  close(): Promise<void>;
+}
+
+/**
+ * Load the recorded Eclair responses
+ * @returns Recorded results by API method name
+ */
+export function loadEclairFixtures(): Record<string, unknown> {
+  return Object.fromEntries(
+    fs
+      .readdirSync(FIXTURES_DIR)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => [
+        path.basename(file, '.json'),
+        JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')),
+      ])
+  );
+}
+
+/**
+ * Start an Eclair HTTP API stub
+ * @param password The API password the stub accepts
+ * @param responses Responses by API method name
+ * @returns Promise resolving to the running stub
+ */
+export async function startEclairHttpStub(
+  password: string,
+  responses: Record<string, EclairStubResponse>
+): Promise<EclairHttpStub> {
+  const calls: EclairHttpStub['calls'] = [];
+  const expectedAuthorization = `Basic ${Buffer.from(`:${password}`).toString('base64')}`;
+
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const method = (request.url || '').replace(/^\//, '');
+      const params = Object.fromEntries(new URLSearchParams(Buffer.concat(chunks).toString()));
+
+      const respond = (status: number, payload: unknown): void => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(payload));
+      };
+
+      if (request.headers.authorization !== expectedAuthorization) {
+        // Eclair rejects bad credentials with a plain text body
+        response.writeHead(401, { 'Content-Type': 'text/plain' });
+        response.end('The supplied authentication is invalid');
+        return;
+      }
+
+      calls.push({ method, params });
+
+      if (request.method !== 'POST' || !(method in responses)) {
+        respond(404, { error: `unknown method ${method}` });
+        return;
+      }
+
+      const recorded = responses[method];
+      const result = typeof recorded === 'function' ? recorded(params) : recorded;
+
+      if (result === undefined) {
+        respond(404, { error: `${method} not found` });
+        return;
+      }
+
+      respond(200, result);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Keep-alive connections would otherwise hold the server open
+        server.closeAllConnections();
+      }),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Mock implementation of the Lightning Network gateway for testing purposes.
+ * Provides jest stubs for every gateway method.
+ */
+
+import { LightningNetworkGateway } from '../../domain/lightning/gateways/LightningNetworkGateway';
+
+/**
+ * Create a mocked gateway with stubbed methods
+ * @param overrides Optional method implementations to use instead of empty stubs
+ * @returns Mocked Lightning Network gateway
+ */
+export function createMockGateway(
+  overrides: Partial<jest.Mocked<LightningNetworkGateway>> = {}
+): jest.Mocked<LightningNetworkGateway> {
+  return {
+    getChannels: jest.fn().mockResolvedValue([]),
+    getPendingChannels: jest.fn().mockResolvedValue([]),
+    getClosedChannels: jest.fn().mockResolvedValue([]),
+    getPayments: jest.fn().mockResolvedValue([]),
+    getFailedPayments: jest.fn().mockResolvedValue([]),
+    getInvoices: jest.fn().mockResolvedValue([]),
+    getForwards: jest.fn().mockResolvedValue([]),
+    getChainBalance: jest.fn().mockResolvedValue({ confirmed_balance: 0, unconfirmed_balance: 0 }),
+    getUtxos: jest.fn().mockResolvedValue([]),
+    getChainTransactions: jest.fn().mockResolvedValue([]),
+    getPeers: jest.fn().mockResolvedValue([]),
+    getNetworkGraphNodes: jest.fn().mockResolvedValue([]),
+    getNetworkGraphChannels: jest.fn().mockResolvedValue([]),
+    getNodeDetails: jest.fn().mockResolvedValue(undefined),
+    getNodeInfo: jest.fn().mockResolvedValue(undefined),
+    getNodeAlias: jest.fn().mockResolvedValue(undefined),
+    getConnection: jest.fn(),
+    ...overrides,
+  };
+}
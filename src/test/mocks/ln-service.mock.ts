@@ -7,6 +7,7 @@
 export const getWalletInfo = jest.fn();
 export const getChannels = jest.fn();
 export const getNodeInfo = jest.fn();
+export const getPeers = jest.fn();
 export const getClosedChannels = jest.fn();
 export const getPendingChannels = jest.fn();
 export const subscribeToInvoices = jest.fn();
@@ -18,7 +19,9 @@ export const getInvoice = jest.fn();
 export const getInvoices = jest.fn();
 export const getForwards = jest.fn();
 export const getPayments = jest.fn();
+export const getFailedPayments = jest.fn();
 export const getNetworkInfo = jest.fn();
+export const getNetworkGraph = jest.fn();
 export const getFeeRates = jest.fn();
 export const authenticatedLndGrpc = jest.fn().mockReturnValue({
   lnd: {},
@@ -31,5 +34,8 @@ export const findRoute = jest.fn();
 // Missing methods causing test failures
 export const getChainBalance = jest.fn();
 export const getChannelBalance = jest.fn();
+export const getPendingChainBalance = jest.fn();
+export const getUtxos = jest.fn();
+export const getChainTransactions = jest.fn();
 
 // Add other ln-service methods as needed
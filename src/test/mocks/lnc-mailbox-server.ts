@@ -0,0 +1,275 @@
+/**
+ * Fake LNC mailbox and node for testing the LNC client.
+ * Relays mailbox streams over WebSockets on a random local port and answers
+ * the client's gRPC calls as an LND node with canned responses.
+ */
+
+import * as http from 'http';
+import * as http2 from 'http2';
+import { AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { GoBackNConnection } from '../../infrastructure/lnc/gbn';
+import { frameMessage, resolveMethod } from '../../infrastructure/lnc/grpc';
+import { deriveStreamIds, RECEIVE_PATH, SEND_PATH } from '../../infrastructure/lnc/mailbox';
+import { createTransportStream, NoiseHandshake } from '../../infrastructure/lnc/noise';
+import {
+  entropyToPairingPhrase,
+  pairingPhraseToEntropy,
+  stretchPassword,
+} from '../../infrastructure/lnc/pairing-phrase';
+import { ecdh, generatePrivateKey, getPublicKey } from '../../infrastructure/lnc/secp256k1';
+
+/**
+ * Type byte of a go-back-N SYN packet
+ */
+const SYN = 1;
+
+/**
+ * Handler returning the response of a gRPC method for the given request, or
+ * throwing to fail the call with the error's message
+ */
+export type FakeLncMethod = (request: Record<string, unknown>) => unknown;
+
+/**
+ * A running fake LNC mailbox and node
+ */
+export interface FakeLncMailbox {
+  /** Mailbox address to connect to */
+  address: string;
+  /** Pairing phrase accepted by the node */
+  pairingPhrase: string;
+  /** Static public key of the node */
+  nodePublicKey: Buffer;
+  /** Static public keys of the clients paired with the node */
+  pairedClients: Buffer[];
+  /** gRPC calls received by the node, in order */
+  calls: Array<{
+    method: string;
+    request: Record<string, unknown>;
+    metadata: http2.IncomingHttpHeaders;
+  }>;
+  /** Stop the mailbox */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a fake LNC mailbox with a node listening on it
+ * @param methods gRPC method handlers by fully qualified method name
+ * @param authData Auth data the node sends in its handshake
+ * @returns Promise resolving to the running mailbox
+ */
+export async function startFakeLncMailbox(
+  methods: Record<string, FakeLncMethod>,
+  authData = 'Macaroon: 0201036c6e64'
+): Promise<FakeLncMailbox> {
+  const pairingPhrase = entropyToPairingPhrase(generatePrivateKey().subarray(0, 14));
+  const entropy = pairingPhraseToEntropy(pairingPhrase);
+  const password = await stretchPassword(entropy);
+  const nodeKey = generatePrivateKey();
+  const pairedClients: Buffer[] = [];
+  const calls: FakeLncMailbox['calls'] = [];
+  const sockets = new Set<WebSocket>();
+  const closers: Array<() => void> = [];
+
+  // Readers and undelivered messages of each stream, by base64 stream id
+  const readers = new Map<string, WebSocket>();
+  const pending = new Map<string, string[]>();
+  const nodeSessions = new Map<string, { connection: GoBackNConnection; established: boolean }>();
+
+  const deliver = (streamId: string, message: Buffer): void => {
+    const text = JSON.stringify({ result: { msg: message.toString('base64') } });
+    const reader = readers.get(streamId);
+
+    if (reader?.readyState === WebSocket.OPEN) {
+      reader.send(text);
+    } else {
+      pending.set(streamId, [...(pending.get(streamId) || []), text]);
+    }
+  };
+
+  const grpcServer = http2.createServer();
+  grpcServer.on('stream', (stream, headers) => {
+    const chunks: Buffer[] = [];
+
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => {
+      const method = String(headers[':path']).slice(1).replace('/', '.');
+      const handler = methods[method];
+
+      if (!handler) {
+        stream.respond({ ':status': 200, 'grpc-status': '12', 'grpc-message': 'unknown method' });
+        stream.end();
+        return;
+      }
+
+      const { requestType, responseType } = resolveMethod(method);
+      const request = requestType.toObject(requestType.decode(Buffer.concat(chunks).subarray(5)), {
+        longs: String,
+        enums: String,
+        defaults: true,
+      });
+      calls.push({ method, request, metadata: headers });
+
+      let response: unknown;
+      try {
+        response = handler(request);
+      } catch (error) {
+        stream.respond({
+          ':status': 200,
+          'grpc-status': '2',
+          'grpc-message': encodeURIComponent((error as Error).message),
+        });
+        stream.end();
+        return;
+      }
+
+      const message = responseType.encode(responseType.fromObject(response as object)).finish();
+      stream.respond(
+        { ':status': 200, 'content-type': 'application/grpc' },
+        { waitForTrailers: true }
+      );
+      stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0' }));
+      stream.end(frameMessage(message));
+    });
+  });
+
+  /**
+   * Answer a client on a stream, as the node of the mailbox session
+   */
+  const serveSession = async (
+    streams: { serverToClient: Buffer; clientToServer: Buffer },
+    remoteStaticKey?: Buffer
+  ): Promise<void> => {
+    const receiveId = streams.clientToServer.toString('base64');
+    const sendId = streams.serverToClient.toString('base64');
+    const connection = new GoBackNConnection((packet) => deliver(sendId, packet), {
+      isServer: true,
+      resendTimeoutMs: 200,
+    });
+    const session = { connection, established: false };
+    nodeSessions.set(receiveId, session);
+    closers.push(() => connection.destroy(new Error('Mailbox closed')));
+
+    const forget = (): void => {
+      if (nodeSessions.get(receiveId) === session) {
+        nodeSessions.delete(receiveId);
+      }
+    };
+
+    try {
+      await connection.handshake();
+      session.established = true;
+
+      const handshake = new NoiseHandshake({
+        initiator: false,
+        localStaticKey: nodeKey,
+        remoteStaticKey,
+        password: remoteStaticKey ? undefined : password,
+      });
+
+      while (!handshake.isComplete) {
+        if (handshake.isWriteTurn) {
+          connection.send(handshake.writeMessage(Buffer.from(authData)));
+        } else {
+          handshake.readMessage(await connection.receive());
+        }
+      }
+
+      if (!remoteStaticKey) {
+        pairedClients.push(handshake.remoteStaticKey as Buffer);
+      }
+
+      const stream: Duplex = createTransportStream(connection, handshake.split());
+      closers.push(() => stream.destroy());
+      // A reconnecting client starts a new session on the same streams
+      stream.on('close', forget);
+      grpcServer.emit('connection', stream);
+    } catch {
+      connection.close();
+      forget();
+    }
+  };
+
+  /**
+   * Find the node session reading a stream, starting one for a new client
+   */
+  const getNodeSession = (streamId: string, packet: Buffer): GoBackNConnection | undefined => {
+    const existing = nodeSessions.get(streamId);
+
+    // A SYN on an established session comes from a reconnecting client
+    if (existing?.established && packet[0] === SYN) {
+      existing.connection.destroy(new Error('Client reconnected'));
+      nodeSessions.delete(streamId);
+    }
+
+    if (!nodeSessions.has(streamId)) {
+      const pairing = deriveStreamIds(entropy);
+      if (pairing.clientToServer.toString('base64') === streamId) {
+        serveSession(pairing);
+      }
+
+      pairedClients.forEach((client) => {
+        const streams = deriveStreamIds(ecdh(nodeKey, client));
+        if (streams.clientToServer.toString('base64') === streamId) {
+          serveSession(streams, client);
+        }
+      });
+    }
+
+    return nodeSessions.get(streamId)?.connection;
+  };
+
+  const webSocketServer = new WebSocketServer({ noServer: true });
+  const server = http.createServer((_request, response) => {
+    response.writeHead(404);
+    response.end();
+  });
+
+  server.on('upgrade', (request: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (request.url !== RECEIVE_PATH && request.url !== SEND_PATH) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+
+    webSocketServer.handleUpgrade(request, socket, head, (webSocket) => {
+      sockets.add(webSocket);
+      webSocket.on('close', () => sockets.delete(webSocket));
+      webSocket.on('error', () => webSocket.close());
+
+      webSocket.on('message', (data: WebSocket.RawData) => {
+        const message = JSON.parse(String(data));
+
+        if (request.url === RECEIVE_PATH) {
+          const streamId: string = message.stream_id;
+          readers.set(streamId, webSocket);
+          (pending.get(streamId) || []).forEach((queued) => webSocket.send(queued));
+          pending.delete(streamId);
+          return;
+        }
+
+        const packet = Buffer.from(message.msg, 'base64');
+        getNodeSession(message.desc.stream_id, packet)?.handlePacket(packet);
+      });
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    address: `ws://127.0.0.1:${port}`,
+    pairingPhrase,
+    nodePublicKey: getPublicKey(nodeKey),
+    pairedClients,
+    calls,
+    close: () =>
+      new Promise((resolve) => {
+        closers.forEach((close) => close());
+        sockets.forEach((socket) => socket.close());
+        grpcServer.close();
+        webSocketServer.close();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -20,6 +20,7 @@ declare module 'ln-service' {
   }
 
   export interface Channel {
+    id: string;
     capacity: number;
     local_balance: number;
     remote_balance: number;
@@ -33,11 +34,218 @@ declare module 'ln-service' {
     channels: Channel[];
   }
 
+  export interface PendingChannel {
+    capacity: number;
+    close_transaction_id?: string;
+    is_active: boolean;
+    is_closing: boolean;
+    is_opening: boolean;
+    is_partner_initiated?: boolean;
+    is_timelocked?: boolean;
+    local_balance: number;
+    partner_public_key: string;
+    pending_balance?: number;
+    recovered_tokens?: number;
+    remote_balance: number;
+    timelock_blocks?: number;
+    timelock_expiration?: number;
+    transaction_id: string;
+    transaction_vout: number;
+  }
+
+  export interface GetPendingChannelsResult {
+    pending_channels: PendingChannel[];
+  }
+
+  export interface ClosedChannel {
+    capacity: number;
+    close_confirm_height?: number;
+    close_transaction_id?: string;
+    final_local_balance: number;
+    final_time_locked_balance: number;
+    id?: string;
+    is_breach_close: boolean;
+    is_cooperative_close: boolean;
+    is_funding_cancel: boolean;
+    is_local_force_close: boolean;
+    is_partner_closed?: boolean;
+    is_partner_initiated?: boolean;
+    is_remote_force_close: boolean;
+    partner_public_key: string;
+    transaction_id: string;
+    transaction_vout: number;
+  }
+
+  export interface GetClosedChannelsResult {
+    channels: ClosedChannel[];
+  }
+
+  export interface Payment {
+    id: string;
+    destination: string;
+    tokens: number;
+    fee: number;
+    is_confirmed: boolean;
+    is_outgoing: boolean;
+    created_at: string;
+    confirmed_at?: string;
+    hops?: string[];
+    request?: string;
+  }
+
+  export interface FailedPayment {
+    id: string;
+    destination: string;
+    tokens: number;
+    is_confirmed: boolean;
+    is_outgoing: boolean;
+    created_at: string;
+    request?: string;
+  }
+
+  export interface GetPaymentsResult {
+    payments: Payment[];
+    next?: string;
+  }
+
+  export interface GetFailedPaymentsResult {
+    payments: FailedPayment[];
+    next?: string;
+  }
+
+  export interface Invoice {
+    id: string;
+    tokens: number;
+    received: number;
+    description?: string;
+    is_confirmed: boolean;
+    is_canceled?: boolean;
+    is_held?: boolean;
+    created_at: string;
+    expires_at: string;
+    confirmed_at?: string;
+  }
+
+  export interface GetInvoicesResult {
+    invoices: Invoice[];
+    next?: string;
+  }
+
+  export interface Forward {
+    created_at: string;
+    fee: number;
+    tokens: number;
+    incoming_channel: string;
+    outgoing_channel: string;
+  }
+
+  export interface GetForwardsResult {
+    forwards: Forward[];
+    next?: string;
+  }
+
+  export interface GetChainBalanceResult {
+    chain_balance: number;
+  }
+
+  export interface GetPendingChainBalanceResult {
+    pending_chain_balance: number;
+  }
+
+  export interface Utxo {
+    address: string;
+    address_format: string;
+    confirmation_count: number;
+    output_script: string;
+    tokens: number;
+    transaction_id: string;
+    transaction_vout: number;
+  }
+
+  export interface GetUtxosResult {
+    utxos: Utxo[];
+  }
+
+  export interface ChainTransaction {
+    id: string;
+    tokens: number;
+    fee?: number;
+    is_confirmed: boolean;
+    is_outgoing: boolean;
+    confirmation_count?: number;
+    confirmation_height?: number;
+    created_at: string;
+    description?: string;
+    output_addresses: string[];
+  }
+
+  export interface GetChainTransactionsResult {
+    transactions: ChainTransaction[];
+  }
+
+  export interface Peer {
+    bytes_received: number;
+    bytes_sent: number;
+    is_inbound: boolean;
+    ping_time: number;
+    public_key: string;
+    socket: string;
+    tokens_received: number;
+    tokens_sent: number;
+  }
+
+  export interface GetPeersResult {
+    peers: Peer[];
+  }
+
+  export interface ChannelPolicy {
+    public_key: string;
+    base_fee_mtokens?: string;
+    cltv_delta?: number;
+    fee_rate?: number;
+    is_disabled?: boolean;
+    max_htlc_mtokens?: string;
+    min_htlc_mtokens?: string;
+    updated_at?: string;
+  }
+
+  export interface GraphChannel {
+    id: string;
+    capacity: number;
+    policies: ChannelPolicy[];
+    updated_at?: string;
+  }
+
+  export interface NodeFeature {
+    bit: number;
+    is_known: boolean;
+    is_required: boolean;
+    type: string;
+  }
+
+  export interface GraphNode {
+    alias: string;
+    color: string;
+    features: NodeFeature[];
+    public_key: string;
+    sockets: string[];
+    updated_at?: string;
+  }
+
+  export interface GetNetworkGraphResult {
+    channels: GraphChannel[];
+    nodes: GraphNode[];
+  }
+
   export interface NodeInfoResult {
     alias?: string;
     color?: string;
+    capacity?: number;
     channel_count?: number;
-    // Add other node info properties as needed
+    channels?: GraphChannel[];
+    features?: NodeFeature[];
+    sockets?: string[];
+    updated_at?: string;
   }
 
   export function authenticatedLndGrpc(args: {
@@ -54,8 +262,64 @@ declare module 'ln-service' {
 
   export function getChannels(args: { lnd: AuthenticatedLnd }): Promise<GetChannelsResult>;
 
+  export function getPendingChannels(args: {
+    lnd: AuthenticatedLnd;
+  }): Promise<GetPendingChannelsResult>;
+
+  export function getClosedChannels(args: {
+    lnd: AuthenticatedLnd;
+  }): Promise<GetClosedChannelsResult>;
+
+  export function getPayments(args: {
+    lnd: AuthenticatedLnd;
+    limit?: number;
+    token?: string;
+  }): Promise<GetPaymentsResult>;
+
+  export function getFailedPayments(args: {
+    lnd: AuthenticatedLnd;
+    limit?: number;
+    token?: string;
+  }): Promise<GetFailedPaymentsResult>;
+
+  export function getInvoices(args: {
+    lnd: AuthenticatedLnd;
+    limit?: number;
+    token?: string;
+  }): Promise<GetInvoicesResult>;
+
+  export function getForwards(args: {
+    lnd: AuthenticatedLnd;
+    after?: string;
+    before?: string;
+    limit?: number;
+    token?: string;
+  }): Promise<GetForwardsResult>;
+
+  export function getChainBalance(args: { lnd: AuthenticatedLnd }): Promise<GetChainBalanceResult>;
+
+  export function getPendingChainBalance(args: {
+    lnd: AuthenticatedLnd;
+  }): Promise<GetPendingChainBalanceResult>;
+
+  export function getUtxos(args: {
+    lnd: AuthenticatedLnd;
+    min_confirmations?: number;
+  }): Promise<GetUtxosResult>;
+
+  export function getChainTransactions(args: {
+    lnd: AuthenticatedLnd;
+    after?: number;
+    before?: number;
+  }): Promise<GetChainTransactionsResult>;
+
+  export function getPeers(args: { lnd: AuthenticatedLnd }): Promise<GetPeersResult>;
+
+  export function getNetworkGraph(args: { lnd: AuthenticatedLnd }): Promise<GetNetworkGraphResult>;
+
   export function getNodeInfo(args: {
     lnd: AuthenticatedLnd;
     public_key: string;
+    is_omitting_channels?: boolean;
   }): Promise<NodeInfoResult>;
 }
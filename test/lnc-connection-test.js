@@ -11,16 +11,18 @@
  *   node test/lnc-connection-test.js
  *
  * Environment variables:
- *   LNC_CONNECTION_STRING - The LNC connection string
- *   LNC_PAIRING_PHRASE - Optional pairing phrase for initial connection
+ *   LNC_CONNECTION_STRING - The mailbox address of the LNC session
+ *   LNC_PAIRING_PHRASE - Pairing phrase, needed until the session keys are stored
+ *   LNC_CREDENTIALS_PATH - Optional path of the stored session keys
  */
 
 // Load environment variables from .env file
 require('dotenv').config();
 
 // Import required modules
-const { LncClient } = require('../build/infrastructure/lnc/LncClient');
-const { LncGateway } = require('../build/infrastructure/lnc/LncGateway');
+const { LndAdapter } = require('../build/infrastructure/adapters/LndAdapter');
+const { LndGateway } = require('../build/infrastructure/lnd/LndGateway');
+const { ConnectionMethod } = require('../build/domain/node/ConnectionAuth');
 
 // ANSI color codes for terminal output
 const colors = {
@@ -94,6 +96,7 @@ async function testLncConnection() {
   // Check for required environment variables
   const connectionString = process.env.LNC_CONNECTION_STRING;
   const pairingPhrase = process.env.LNC_PAIRING_PHRASE;
+  const credentialsPath = process.env.LNC_CREDENTIALS_PATH;
 
   if (!connectionString) {
     error('LNC_CONNECTION_STRING environment variable is not set');
@@ -101,7 +104,7 @@ async function testLncConnection() {
     process.exit(1);
   }
 
-  info(`Connection string length: ${connectionString.length} characters`);
+  info(`Mailbox: ${connectionString}`);
   if (pairingPhrase) {
     info('Pairing phrase is set');
   } else {
@@ -112,9 +115,11 @@ async function testLncConnection() {
   let client;
   try {
     info('Creating LNC client...');
-    client = new LncClient({
+    client = new LndAdapter({
+      method: ConnectionMethod.LNC,
       connectionString,
       pairingPhrase,
+      credentialsPath,
     });
     success('LNC client created successfully');
   } catch (err) {
@@ -154,14 +159,14 @@ async function testLncConnection() {
     process.exit(1);
   }
 
-  // Create the LNC gateway
+  // Create the LND gateway over the LNC connection
   let gateway;
   try {
-    info('Creating LNC gateway...');
-    gateway = new LncGateway(client);
-    success('LNC gateway created successfully');
+    info('Creating LND gateway over LNC...');
+    gateway = new LndGateway(client);
+    success('LND gateway created successfully');
   } catch (err) {
-    error(`Failed to create LNC gateway: ${err.message}`);
+    error(`Failed to create LND gateway: ${err.message}`);
     process.exit(1);
   }
 